@@ -10,6 +10,26 @@ import RecipeEditor from './pages/RecipeEditor'
 import RecipeCookMode from './pages/RecipeCookMode'
 import RecipePrintCard from './pages/RecipePrintCard'
 import Settings from './pages/Settings'
+import AllergenMatrix from './pages/AllergenMatrix'
+import CostHistory from './pages/CostHistory'
+import Suppliers from './pages/Suppliers'
+import PurchaseOrders from './pages/PurchaseOrders'
+import PurchaseOrderView from './pages/PurchaseOrderView'
+import Inventory from './pages/Inventory'
+import InventoryCount from './pages/InventoryCount'
+import Production from './pages/Production'
+import ProductionBatchView from './pages/ProductionBatchView'
+import PrepPlanner from './pages/PrepPlanner'
+import PrepPrint from './pages/PrepPrint'
+import Waste from './pages/Waste'
+import Sales from './pages/Sales'
+import Menus from './pages/Menus'
+import MenuEditor from './pages/MenuEditor'
+import MenuPrint from './pages/MenuPrint'
+import Quotes from './pages/Quotes'
+import QuoteEditor from './pages/QuoteEditor'
+import QuotePrint from './pages/QuotePrint'
+import PublicSharePortal from './pages/PublicSharePortal'
 
 import Login from './pages/Login'
 import Register from './pages/Register'
@@ -27,6 +47,8 @@ export default function App() {
       {/* Public */}
       <Route path="/login" element={<Login />} />
       <Route path="/register" element={<Register />} />
+      {/* Signed read-only recipe links; verified against public_shares, no login */}
+      <Route path="/share/:token" element={<PublicSharePortal />} />
 
       {/* Protected App */}
       <Route
@@ -45,6 +67,31 @@ export default function App() {
         {/* Cook mode is opened from RecipeEditor via /cook?id=... */}
         <Route path="cook" element={<RecipeCookMode />} />
         <Route path="print" element={<RecipePrintCard />} />
+        <Route path="allergens" element={<AllergenMatrix />} />
+        <Route path="allergens/print" element={<AllergenMatrix />} />
+        <Route path="cost-history" element={<CostHistory />} />
+        <Route path="suppliers" element={<Suppliers />} />
+        <Route path="purchasing" element={<PurchaseOrders />} />
+        <Route path="purchasing/order" element={<PurchaseOrderView />} />
+        <Route path="purchasing/print" element={<PurchaseOrderView />} />
+        <Route path="inventory" element={<Inventory />} />
+        <Route path="inventory/count" element={<InventoryCount />} />
+        <Route path="inventory/count/print" element={<InventoryCount />} />
+        <Route path="production" element={<Production />} />
+        <Route path="production/batch" element={<ProductionBatchView />} />
+        <Route path="production/print" element={<ProductionBatchView />} />
+        <Route path="prep" element={<PrepPlanner />} />
+        <Route path="prep/print" element={<PrepPrint />} />
+        <Route path="waste" element={<Waste />} />
+        <Route path="sales" element={<Sales />} />
+        <Route path="menus" element={<Menus />} />
+        <Route path="menus/edit" element={<MenuEditor />} />
+        <Route path="menus/print" element={<MenuPrint />} />
+        <Route path="menus/costing/print" element={<MenuPrint />} />
+        <Route path="quotes" element={<Quotes />} />
+        <Route path="quotes/edit" element={<QuoteEditor />} />
+        <Route path="quotes/print" element={<QuotePrint />} />
+        <Route path="quotes/kitchen/print" element={<QuotePrint />} />
         <Route path="settings" element={<Settings />} />
       </Route>
 
@@ -10,8 +10,8 @@ function fmt(n: number) {
 }
 
 /**
- * Ultra-light timeline (SVG) — no deps, no schema changes.
- * Shows CPP evolution using local snapshots.
+ * Ultra-light timeline (SVG) — no deps.
+ * Shows CPP evolution from cost_history points.
  */
 export function CostTimeline({
   points,
@@ -23,7 +23,7 @@ export function CostTimeline({
   height?: number
 }) {
   const data = React.useMemo(() => {
-    const p = (points || []).slice().sort((a, b) => a.createdAt - b.createdAt)
+    const p = (points || []).slice().sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
     if (!p.length) return { p, min: 0, max: 0 }
     const vals = p.map(x => fmt(x.cpp))
     const min = Math.min(...vals)
@@ -34,7 +34,7 @@ export function CostTimeline({
   if (!data.p.length) {
     return (
       <div className="gc-hint" style={{ marginTop: 10 }}>
-        No snapshots yet.
+        No cost points in this period.
       </div>
     )
   }
@@ -86,7 +86,11 @@ export function CostTimeline({
           {data.p.map((pt, i) => {
             const x = mapX(i)
             const y = mapY(fmt(pt.cpp))
-            return <circle key={pt.id} cx={x} cy={y} r={3.4} fill="currentColor" fillOpacity={0.55} />
+            return (
+              <circle key={pt.id} cx={x} cy={y} r={3.4} fill="currentColor" fillOpacity={0.55}>
+                <title>{`${new Date(pt.created_at).toLocaleString()} · ${pt.source === 'ingredient_price' ? 'ingredient price change' : 'snapshot'}`}</title>
+              </circle>
+            )
           })}
         </svg>
       </div>
@@ -0,0 +1,174 @@
+import React, { useState } from 'react'
+import { useKitchen } from '../../lib/kitchen'
+import { invalidateIngredientsCache } from '../../lib/ingredientsCache'
+import {
+  BACKUP_POLICY_LABELS,
+  exportKitchenBackup,
+  importKitchenBackup,
+  type BackupConflictPolicy,
+  type BackupImportReport,
+} from '../../lib/backupJson'
+
+const ACTION_LABELS: Record<BackupImportReport['items'][number]['action'], string> = {
+  create: 'Create',
+  update: 'Overwrite',
+  skip: 'Keep existing',
+  duplicate: 'Copy',
+}
+
+/** Settings card: download a full kitchen backup, or restore one after a dry run. */
+export default function BackupSettings({ onSaved }: { onSaved?: (msg: string) => void }) {
+  const k = useKitchen()
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [file, setFile] = useState<{ name: string; backup: any } | null>(null)
+  const [policy, setPolicy] = useState<BackupConflictPolicy>('skip')
+  const [report, setReport] = useState<BackupImportReport | null>(null)
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true)
+    setErr(null)
+    try {
+      await fn()
+    } catch (e: any) {
+      setErr(e?.message ?? 'Backup failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const download = () =>
+    run(async () => {
+      if (!k.kitchenId) throw new Error('No kitchen selected')
+      const backup = await exportKitchenBackup(k.kitchenId, k.kitchenName || 'My Kitchen')
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `gastrochef_backup_${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`
+      a.click()
+      URL.revokeObjectURL(url)
+      onSaved?.('Backup exported ✅')
+    })
+
+  const pick = (f: File | undefined) => {
+    setReport(null)
+    setFile(null)
+    if (!f) return
+    run(async () => {
+      let backup: any
+      try {
+        backup = JSON.parse(await f.text())
+      } catch {
+        throw new Error('This file is not valid JSON.')
+      }
+      setFile({ name: f.name, backup })
+    })
+  }
+
+  const dryRun = () =>
+    run(async () => {
+      if (!k.kitchenId || !file) return
+      setReport(await importKitchenBackup(k.kitchenId, file.backup, { policy, dryRun: true }))
+    })
+
+  const restore = () => {
+    if (!report || !confirm(`Import this backup? ${report.counts.creates} new, ${report.counts.updates} overwritten, ${report.counts.duplicates} copied.`)) return
+    run(async () => {
+      if (!k.kitchenId || !file) return
+      const res = await importKitchenBackup(k.kitchenId, file.backup, { policy })
+      invalidateIngredientsCache()
+      setReport(res)
+      onSaved?.(res.historyError ? `Backup imported · cost history not recorded: ${res.historyError}` : 'Backup imported ✅')
+    })
+  }
+
+  const changes = report ? report.items.filter((x) => x.conflict || x.action !== 'create') : []
+
+  return (
+    <div className="gc-card p-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="gc-label">BACKUP &amp; RESTORE</div>
+          <div className="mt-1 text-sm text-neutral-600">
+            Every ingredient, recipe and line of the kitchen as one JSON file. Restores run a dry run first; older backups still import.
+          </div>
+        </div>
+        <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !k.kitchenId} onClick={download}>
+          Export backup
+        </button>
+      </div>
+
+      {err && <div className="mt-3 text-sm text-red-600">{err}</div>}
+
+      {k.canEdit && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <input className="gc-input" type="file" accept="application/json,.json" disabled={busy} onChange={(e) => pick(e.target.files?.[0])} />
+          <select
+            className="gc-input"
+            value={policy}
+            disabled={busy}
+            onChange={(e) => {
+              setPolicy(e.target.value as BackupConflictPolicy)
+              setReport(null)
+            }}
+          >
+            {(Object.keys(BACKUP_POLICY_LABELS) as BackupConflictPolicy[]).map((p) => (
+              <option key={p} value={p}>
+                On conflict: {BACKUP_POLICY_LABELS[p]}
+              </option>
+            ))}
+          </select>
+          <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || !file} onClick={dryRun}>
+            Dry run
+          </button>
+          <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !report?.dryRun} onClick={restore}>
+            Import
+          </button>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          <div className="text-sm text-neutral-700">
+            {report.dryRun ? 'Dry run' : 'Imported'} · {file?.name} ({report.version}) · {report.counts.creates} to create · {report.counts.updates} to
+            overwrite · {report.counts.duplicates} to copy · {report.counts.skips} kept · {report.counts.conflicts} conflicts · {report.counts.lines} lines
+          </div>
+          {report.historyError && <div className="text-sm text-amber-700">Imported, but cost history was not recorded: {report.historyError}</div>}
+          {report.warnings.length > 0 && (
+            <ul className="list-disc pl-5 text-xs text-amber-700">
+              {report.warnings.slice(0, 20).map((w, i) => (
+                <li key={i}>{w}</li>
+              ))}
+              {report.warnings.length > 20 && <li>…and {report.warnings.length - 20} more</li>}
+            </ul>
+          )}
+          {changes.length > 0 && (
+            <div className="max-h-72 overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-neutral-500">
+                    <th className="py-1">Item</th>
+                    <th className="py-1">Type</th>
+                    <th className="py-1">Matched by</th>
+                    <th className="py-1">Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((x) => (
+                    <tr key={`${x.kind}-${x.ref}`} className="border-t border-neutral-200/60">
+                      <td className="py-1 font-semibold">{x.name}</td>
+                      <td className="py-1 text-xs">{x.kind === 'recipe' ? 'Recipe' : 'Ingredient'}</td>
+                      <td className="py-1 text-xs">{x.matchedBy ?? '—'}</td>
+                      <td className="py-1 text-xs">{ACTION_LABELS[x.action]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react'
+import { useKitchen } from '../../lib/kitchen'
+import {
+  deleteLaborRole,
+  listLaborRoles,
+  loadCostSettings,
+  saveLaborRole,
+  saveOverheadPct,
+  type LaborRole,
+} from '../../lib/plateCost'
+
+/** Kitchen overhead % and the labor roles recipes are timed against. */
+export default function LaborOverheadSettings({ currency, onSaved }: { currency: string; onSaved?: (msg: string) => void }) {
+  const k = useKitchen()
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [overhead, setOverhead] = useState('0')
+  const [roles, setRoles] = useState<LaborRole[]>([])
+  const [draft, setDraft] = useState({ name: '', hourly_rate: '' })
+
+  useEffect(() => {
+    let alive = true
+    Promise.all([loadCostSettings(), listLaborRoles()])
+      .then(([s, r]) => {
+        if (!alive) return
+        setOverhead(String(s.overhead_pct))
+        setRoles(r)
+      })
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load costing settings'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const run = async (fn: () => Promise<void>, msg: string) => {
+    setBusy(true)
+    setErr(null)
+    try {
+      await fn()
+      onSaved?.(msg)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to save')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveOverhead = () =>
+    run(async () => {
+      if (!k.kitchenId) throw new Error('No kitchen selected')
+      const s = await saveOverheadPct(k.kitchenId, Number(overhead) || 0)
+      setOverhead(String(s.overhead_pct))
+    }, 'Overhead saved ✅')
+
+  const addRole = () =>
+    run(async () => {
+      const saved = await saveLaborRole({ name: draft.name, hourly_rate: Number(draft.hourly_rate) || 0, is_active: true })
+      setRoles((cur) => [...cur, saved].sort((a, b) => a.name.localeCompare(b.name)))
+      setDraft({ name: '', hourly_rate: '' })
+    }, 'Role added ✅')
+
+  const updateRole = (role: LaborRole, patch: Partial<LaborRole>) =>
+    run(async () => {
+      const saved = await saveLaborRole({ ...role, ...patch })
+      setRoles((cur) => cur.map((r) => (r.id === saved.id ? saved : r)))
+    }, 'Role saved ✅')
+
+  const removeRole = (role: LaborRole) => {
+    if (!confirm(`Delete role "${role.name}"? Recipes timed against it lose that labor cost.`)) return
+    run(async () => {
+      await deleteLaborRole(role.id)
+      setRoles((cur) => cur.filter((r) => r.id !== role.id))
+    }, 'Role deleted')
+  }
+
+  return (
+    <div className="gc-card p-6">
+      <div className="gc-label">COSTING — LABOR &amp; OVERHEAD</div>
+      <div className="mt-1 text-sm text-neutral-600">
+        Prime cost = food + labor. Plate cost adds packaging and overhead (a % of prime cost + packaging).
+      </div>
+
+      {err && <div className="mt-3 text-sm text-red-600">{err}</div>}
+
+      {loading ? (
+        <div className="mt-4 text-sm text-neutral-500">Loading…</div>
+      ) : (
+        <div className="mt-4 grid gap-6 md:grid-cols-3">
+          <div>
+            <div className="gc-label">OVERHEAD %</div>
+            <div className="mt-2 flex items-center gap-2">
+              <input
+                className="gc-input w-28 text-right"
+                type="number"
+                min={0}
+                max={500}
+                step="any"
+                value={overhead}
+                disabled={!k.isOwner}
+                onChange={(e) => setOverhead(e.target.value)}
+              />
+              <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !k.isOwner} onClick={saveOverhead}>
+                Save
+              </button>
+            </div>
+            <div className="mt-1 text-xs text-neutral-500">Rent, energy, cleaning… applied to every recipe. Owner only.</div>
+          </div>
+
+          <div className="md:col-span-2">
+            <div className="gc-label">LABOR ROLES</div>
+            <table className="mt-2 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                  <th className="py-1">Role</th>
+                  <th className="py-1 text-right">Rate / hour ({currency})</th>
+                  <th className="py-1 text-center">Active</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {roles.map((r) => (
+                  <tr key={r.id} className="border-t border-neutral-100">
+                    <td className="py-1 font-semibold">{r.name}</td>
+                    <td className="py-1 text-right">
+                      <input
+                        key={`rate-${r.hourly_rate}`}
+                        className="gc-input w-28 text-right"
+                        type="number"
+                        min={0}
+                        step="any"
+                        defaultValue={r.hourly_rate}
+                        disabled={busy || !k.canEdit}
+                        onBlur={(e) => Number(e.target.value) !== r.hourly_rate && updateRole(r, { hourly_rate: Math.max(0, Number(e.target.value) || 0) })}
+                      />
+                    </td>
+                    <td className="py-1 text-center">
+                      <input type="checkbox" checked={r.is_active} disabled={busy || !k.canEdit} onChange={(e) => updateRole(r, { is_active: e.target.checked })} />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || !k.canEdit} onClick={() => removeRole(r)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {k.canEdit && (
+                  <tr className="border-t border-neutral-100">
+                    <td className="py-1">
+                      <input className="gc-input w-full" placeholder="Commis, Line cook…" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                    </td>
+                    <td className="py-1 text-right">
+                      <input
+                        className="gc-input w-28 text-right"
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="0.00"
+                        value={draft.hourly_rate}
+                        onChange={(e) => setDraft({ ...draft, hourly_rate: e.target.value })}
+                      />
+                    </td>
+                    <td />
+                    <td className="py-1 text-right">
+                      <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !draft.name.trim()} onClick={addRole}>
+                        Add role
+                      </button>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            {!roles.length && <div className="mt-2 text-xs text-neutral-500">No roles yet. Recipes need a role to cost their prep and cook time.</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react'
+import { summarizePriceImpact, type PriceImpactRow } from '../../lib/priceImpact'
+
+function money(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function pct(n: number | null) {
+  return n == null ? '—' : `${n.toFixed(1)}%`
+}
+
+export default function PriceImpactReport({
+  rows,
+  onOpenRecipe,
+  maxRows = 50,
+}: {
+  rows: PriceImpactRow[]
+  onOpenRecipe?: (recipeId: string) => void
+  maxRows?: number
+}) {
+  const summary = useMemo(() => summarizePriceImpact(rows), [rows])
+
+  if (!rows.length) {
+    return <div className="text-xs text-gray-500 dark:text-gray-400">No recipe uses the changed ingredient(s).</div>
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2 text-[11px]">
+        <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+          {summary.affected} recipe{summary.affected === 1 ? '' : 's'} affected
+        </span>
+        {summary.crossing > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-950/40 text-red-700 dark:text-red-400 font-medium">
+            {summary.crossing} cross{summary.crossing === 1 ? 'es' : ''} target food cost
+          </span>
+        )}
+        {summary.overTarget - summary.crossing > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-950/40 text-amber-700 dark:text-amber-400">
+            {summary.overTarget - summary.crossing} already over target
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <th className="py-1.5 pr-2 font-medium">Recipe</th>
+              <th className="py-1.5 px-2 font-medium text-right">Cost / portion</th>
+              <th className="py-1.5 px-2 font-medium text-right">Food cost</th>
+              <th className="py-1.5 pl-2 font-medium text-right">Target</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, maxRows).map((r) => (
+              <tr
+                key={r.recipeId}
+                className={`border-t border-gray-100 dark:border-gray-800 ${r.crossesTarget ? 'bg-red-50/70 dark:bg-red-950/20' : ''}`}
+              >
+                <td className="py-1.5 pr-2">
+                  {onOpenRecipe ? (
+                    <button type="button" className="font-medium text-gray-900 dark:text-gray-100 hover:underline text-left" onClick={() => onOpenRecipe(r.recipeId)}>
+                      {r.name}
+                    </button>
+                  ) : (
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{r.name}</span>
+                  )}
+                  {r.isPrep && <span className="ml-1 text-[10px] text-gray-400">PREP</span>}
+                  {r.depth > 1 && <span className="ml-1 text-[10px] text-gray-400" title="Uses it through PREP recipes">via prep</span>}
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">
+                  <span className="text-gray-400 line-through mr-1">{money(r.oldCpp, r.currency)}</span>
+                  <span className={r.deltaCpp > 1e-9 ? 'text-red-600 dark:text-red-400' : r.deltaCpp < -1e-9 ? 'text-green-600 dark:text-green-400' : ''}>
+                    {money(r.newCpp, r.currency)}
+                  </span>
+                  {r.deltaPct != null && Math.abs(r.deltaPct) >= 0.05 && (
+                    <span className="ml-1 text-[10px] text-gray-500">({r.deltaPct > 0 ? '+' : ''}{r.deltaPct.toFixed(1)}%)</span>
+                  )}
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">
+                  {r.sellingPrice == null ? (
+                    <span className="text-gray-400" title="No selling price">—</span>
+                  ) : (
+                    <>
+                      <span className="text-gray-400 mr-1">{pct(r.oldFcPct)} →</span>
+                      <span className={r.overTarget ? 'text-red-600 dark:text-red-400 font-semibold' : ''}>{pct(r.newFcPct)}</span>
+                    </>
+                  )}
+                </td>
+                <td className="py-1.5 pl-2 text-right font-mono whitespace-nowrap">
+                  {pct(r.targetPct)}
+                  {r.crossesTarget && <span className="ml-1 text-red-600 dark:text-red-400" title="Crosses target food cost">▲</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > maxRows && <div className="text-[11px] text-gray-500">+{rows.length - maxRows} more</div>}
+    </div>
+  )
+}
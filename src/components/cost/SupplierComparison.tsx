@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react'
+import type { UnitProfile } from '../../lib/units'
+import { comparisonUnit, normalizedOfferPrice, type Supplier, type SupplierOffer } from '../../lib/suppliers'
+
+type ComparisonIngredient = UnitProfile & {
+  id: string
+  name?: string | null
+  code?: string | null
+  pack_unit?: string | null
+}
+
+function money(n: number) {
+  const v = Number.isFinite(n) ? n : 0
+  return v.toFixed(v !== 0 && Math.abs(v) < 1 ? 4 : 2)
+}
+
+const th = 'px-4 py-3 text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+/** Cheapest offer per ingredient, compared per kg / l / pcs, against the preferred one. */
+export default function SupplierComparison<T extends ComparisonIngredient>({
+  ingredients,
+  offers,
+  suppliers,
+  onOpen,
+}: {
+  ingredients: T[]
+  offers: SupplierOffer[]
+  suppliers: Supplier[]
+  onOpen: (ingredient: T) => void
+}) {
+  const supplierName = useMemo(() => {
+    const m = new Map(suppliers.map((s) => [s.id, s.name]))
+    return (id: string) => m.get(id) || 'Supplier'
+  }, [suppliers])
+
+  const rows = useMemo(() => {
+    const byIngredient = new Map<string, SupplierOffer[]>()
+    for (const o of offers) {
+      const list = byIngredient.get(o.ingredient_id)
+      if (list) list.push(o)
+      else byIngredient.set(o.ingredient_id, [o])
+    }
+    return ingredients
+      .filter((i) => byIngredient.has(i.id))
+      .map((i) => {
+        const unit = comparisonUnit(i.pack_unit)
+        const priced = byIngredient
+          .get(i.id)!
+          .map((o) => ({ offer: o, perUnit: normalizedOfferPrice(o, unit, i) }))
+        const comparable = priced.filter((x) => x.perUnit != null).sort((a, b) => a.perUnit! - b.perUnit!)
+        const cheapest = comparable[0] ?? null
+        const preferred = priced.find((x) => x.offer.is_preferred) ?? null
+        const saving = cheapest && preferred?.perUnit != null ? preferred.perUnit - cheapest.perUnit! : null
+        return {
+          ingredient: i,
+          unit,
+          count: priced.length,
+          unpriced: priced.length - comparable.length,
+          cheapest,
+          preferred,
+          saving: saving != null && saving > 1e-9 ? saving : null,
+          savingPct: saving != null && saving > 1e-9 && preferred!.perUnit! > 0 ? (saving / preferred!.perUnit!) * 100 : null,
+        }
+      })
+      .sort((a, b) => (b.savingPct ?? -1) - (a.savingPct ?? -1) || (a.ingredient.name ?? '').localeCompare(b.ingredient.name ?? ''))
+  }, [ingredients, offers])
+
+  if (!rows.length) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 text-sm text-gray-500 dark:text-gray-400">
+        None of these ingredients has a supplier offer yet. Add offers from the ingredient editor.
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900/50">
+              <th className={`${th} text-left`}>Ingredient</th>
+              <th className={`${th} text-center`}>Offers</th>
+              <th className={`${th} text-left`}>Cheapest</th>
+              <th className={`${th} text-left`}>Preferred</th>
+              <th className={`${th} text-right`}>Possible saving</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {rows.map((r) => (
+              <tr key={r.ingredient.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                <td className="px-4 py-3">
+                  <button type="button" className="font-medium text-gray-900 dark:text-gray-100 hover:underline text-left" onClick={() => onOpen(r.ingredient)}>
+                    {r.ingredient.name || 'Ingredient'}
+                  </button>
+                  {r.ingredient.code && <div className="text-[11px] font-mono text-gray-400">{r.ingredient.code}</div>}
+                </td>
+                <td className="px-4 py-3 text-center text-gray-700 dark:text-gray-300">
+                  {r.count}
+                  {r.unpriced > 0 && (
+                    <span className="ml-1 text-[10px] text-amber-600" title="Pack unit can't be converted — set density or grams per piece">
+                      ({r.unpriced} n/a)
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  {r.cheapest ? (
+                    <>
+                      <div className="text-gray-900 dark:text-gray-100">{supplierName(r.cheapest.offer.supplier_id)}</div>
+                      <div className="text-[11px] font-mono text-green-600 dark:text-green-400">
+                        {money(r.cheapest.perUnit!)} /{r.unit}
+                      </div>
+                    </>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  {r.preferred ? (
+                    <>
+                      <div className="text-gray-900 dark:text-gray-100">{supplierName(r.preferred.offer.supplier_id)}</div>
+                      <div className="text-[11px] font-mono text-gray-500">{r.preferred.perUnit != null ? `${money(r.preferred.perUnit)} /${r.unit}` : '—'}</div>
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-400">None set</span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right font-mono">
+                  {r.saving != null ? (
+                    <span className="text-amber-600 dark:text-amber-400 font-semibold">
+                      {money(r.saving)} /{r.unit}
+                      {r.savingPct != null && <span className="ml-1 text-[11px]">({r.savingPct.toFixed(1)}%)</span>}
+                    </span>
+                  ) : r.preferred ? (
+                    <span className="text-xs text-green-600 dark:text-green-400">Best price</span>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { UNIT_OPTIONS, type UnitProfile } from '../../lib/units'
+import {
+  comparisonUnit,
+  deleteOffer,
+  listOffers,
+  normalizedOfferPrice,
+  saveOffer,
+  setPreferredOffer,
+  type Supplier,
+  type SupplierOffer,
+} from '../../lib/suppliers'
+
+function money(n: number) {
+  const v = Number.isFinite(n) ? n : 0
+  return v.toFixed(v !== 0 && Math.abs(v) < 1 ? 4 : 2)
+}
+
+const inputCls =
+  'w-full px-2 py-1.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-xs text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500'
+
+type Draft = { id?: string; supplier_id: string; supplier_sku: string; pack_size: string; pack_unit: string; pack_price: string; is_preferred: boolean }
+
+/**
+ * Offers for one ingredient inside the ingredient modal.
+ * `onPreferredChanged` fires after a write that moved the preferred offer, so the caller can reload
+ * the ingredient (its pack and net_unit_cost are rewritten by the DB).
+ */
+export default function SupplierOffersPanel({
+  ingredientId,
+  packUnit,
+  profile,
+  suppliers,
+  onPreferredChanged,
+  onError,
+}: {
+  ingredientId: string
+  packUnit: string
+  profile: UnitProfile
+  suppliers: Supplier[]
+  onPreferredChanged: () => void
+  onError: (msg: string) => void
+}) {
+  const [offers, setOffers] = useState<SupplierOffer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [draft, setDraft] = useState<Draft | null>(null)
+
+  const reload = async () => {
+    setOffers(await listOffers(ingredientId))
+  }
+
+  useEffect(() => {
+    let alive = true
+    setLoading(true)
+    setDraft(null)
+    listOffers(ingredientId)
+      .then((o) => alive && setOffers(o))
+      .catch((e: any) => alive && onError(e?.message || 'Failed to load offers'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [ingredientId])
+
+  const supplierById = useMemo(() => new Map(suppliers.map((s) => [s.id, s])), [suppliers])
+  const unit = comparisonUnit(packUnit)
+
+  const rows = useMemo(() => {
+    const list = offers.map((o) => ({ offer: o, perUnit: normalizedOfferPrice(o, unit, profile) }))
+    const priced = list.filter((x) => x.perUnit != null)
+    const cheapest = priced.length ? Math.min(...priced.map((x) => x.perUnit!)) : null
+    return list
+      .map((x) => ({ ...x, cheapest: cheapest != null && x.perUnit != null && x.perUnit - cheapest < 1e-9 }))
+      .sort((a, b) => (a.perUnit ?? Infinity) - (b.perUnit ?? Infinity))
+  }, [offers, unit, profile])
+
+  const run = async (fn: () => Promise<void>, preferredMoved: boolean) => {
+    setBusy(true)
+    try {
+      await fn()
+      await reload()
+      if (preferredMoved) onPreferredChanged()
+    } catch (e: any) {
+      onError(e?.message || 'Offer update failed')
+      await reload().catch(() => {})
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const submit = () => {
+    if (!draft) return
+    const wasPreferred = !!offers.find((o) => o.id === draft.id)?.is_preferred
+    run(async () => {
+      await saveOffer({
+        id: draft.id,
+        ingredient_id: ingredientId,
+        supplier_id: draft.supplier_id,
+        supplier_sku: draft.supplier_sku,
+        pack_size: Number(draft.pack_size),
+        pack_unit: draft.pack_unit,
+        pack_price: Number(draft.pack_price),
+        is_preferred: draft.is_preferred || wasPreferred,
+      })
+      setDraft(null)
+    }, draft.is_preferred || wasPreferred)
+  }
+
+  const activeSuppliers = suppliers.filter((s) => s.is_active || s.id === draft?.supplier_id)
+
+  return (
+    <div className="space-y-2">
+      {loading ? (
+        <div className="text-xs text-gray-500">Loading offers…</div>
+      ) : !rows.length ? (
+        <div className="text-xs text-gray-500 dark:text-gray-400">No supplier offers yet. The pack above is used as-is.</div>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <th className="py-1.5 pr-2 font-medium">Supplier</th>
+              <th className="py-1.5 px-2 font-medium text-right">Pack</th>
+              <th className="py-1.5 px-2 font-medium text-right">Price</th>
+              <th className="py-1.5 px-2 font-medium text-right">Per {unit}</th>
+              <th className="py-1.5 pl-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ offer: o, perUnit, cheapest }) => (
+              <tr key={o.id} className={`border-t border-gray-100 dark:border-gray-800 ${o.is_preferred ? 'bg-blue-50/60 dark:bg-blue-950/20' : ''}`}>
+                <td className="py-1.5 pr-2">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{supplierById.get(o.supplier_id)?.name || 'Supplier'}</span>
+                  {o.supplier_sku && <span className="ml-1 text-[10px] text-gray-400 font-mono">{o.supplier_sku}</span>}
+                  {o.is_preferred && <span className="ml-1 text-[10px] text-blue-600 dark:text-blue-400 font-medium">PREFERRED</span>}
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">
+                  {o.pack_size} {o.pack_unit}
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono">{money(o.pack_price)}</td>
+                <td className={`py-1.5 px-2 text-right font-mono ${cheapest ? 'text-green-600 dark:text-green-400 font-semibold' : ''}`}>
+                  {perUnit == null ? <span className="text-gray-400" title="Pack unit can't be converted — set density or grams per piece">—</span> : money(perUnit)}
+                </td>
+                <td className="py-1.5 pl-2 text-right whitespace-nowrap">
+                  {!o.is_preferred && (
+                    <button type="button" className="text-blue-600 dark:text-blue-400 hover:underline mr-2" disabled={busy} onClick={() => run(() => setPreferredOffer(o), true)}>
+                      Prefer
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="text-gray-600 dark:text-gray-300 hover:underline mr-2"
+                    disabled={busy}
+                    onClick={() =>
+                      setDraft({
+                        id: o.id,
+                        supplier_id: o.supplier_id,
+                        supplier_sku: o.supplier_sku ?? '',
+                        pack_size: String(o.pack_size),
+                        pack_unit: o.pack_unit,
+                        pack_price: String(o.pack_price),
+                        is_preferred: o.is_preferred,
+                      })
+                    }
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="text-red-600 dark:text-red-400 hover:underline"
+                    disabled={busy}
+                    onClick={() => window.confirm('Delete this offer?') && run(() => deleteOffer(o), false)}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {draft ? (
+        <div className="grid grid-cols-6 gap-2 items-end">
+          <select className={`${inputCls} col-span-2`} value={draft.supplier_id} onChange={(e) => setDraft({ ...draft, supplier_id: e.target.value })}>
+            <option value="">Supplier…</option>
+            {activeSuppliers.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          <input className={inputCls} value={draft.supplier_sku} onChange={(e) => setDraft({ ...draft, supplier_sku: e.target.value })} placeholder="SKU" />
+          <input className={inputCls} type="number" min={0} step="any" value={draft.pack_size} onChange={(e) => setDraft({ ...draft, pack_size: e.target.value })} placeholder="Size" />
+          <select className={inputCls} value={draft.pack_unit} onChange={(e) => setDraft({ ...draft, pack_unit: e.target.value })}>
+            {UNIT_OPTIONS.map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+          <input className={inputCls} type="number" min={0} step="0.01" value={draft.pack_price} onChange={(e) => setDraft({ ...draft, pack_price: e.target.value })} placeholder="Price" />
+          <label className="col-span-3 flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={draft.is_preferred} onChange={(e) => setDraft({ ...draft, is_preferred: e.target.checked })} />
+            Preferred — sets this ingredient's pack and unit cost
+          </label>
+          <div className="col-span-3 flex justify-end gap-2">
+            <button type="button" className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg" onClick={() => setDraft(null)} disabled={busy}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="px-3 py-1 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40"
+              onClick={submit}
+              disabled={busy || !draft.supplier_id}
+            >
+              {busy ? 'Saving…' : draft.id ? 'Update offer' : 'Add offer'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-40"
+          disabled={!suppliers.length}
+          title={suppliers.length ? undefined : 'Add a supplier on the Suppliers page first'}
+          onClick={() =>
+            setDraft({ supplier_id: '', supplier_sku: '', pack_size: '1', pack_unit: packUnit || 'kg', pack_price: '', is_preferred: !offers.length })
+          }
+        >
+          + Add offer
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import React from 'react'
+import { CartesianGrid, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts'
+import { MENU_QUADRANT_COLORS, MENU_QUADRANT_LABELS, type MenuEngineering, type MenuQuadrant } from '../../lib/menuEngineering'
+
+const QUADRANTS: MenuQuadrant[] = ['star', 'plowhorse', 'puzzle', 'dog']
+
+export default function MenuEngineeringChart({ data, money }: { data: MenuEngineering; money: (n: number) => string }) {
+  const points = data.items.map((i) => ({ ...i, x: i.mixPct * 100, y: i.margin }))
+  return (
+    <div style={{ width: '100%', height: 320 }}>
+      <ResponsiveContainer>
+        <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" dataKey="x" name="Mix" unit="%" tick={{ fontSize: 11 }} label={{ value: 'Popularity (mix %)', position: 'insideBottom', offset: -10, fontSize: 11 }} />
+          <YAxis type="number" dataKey="y" name="CM" tick={{ fontSize: 11 }} tickFormatter={(v) => money(Number(v))} width={80} />
+          <ReferenceLine x={data.popularityThreshold * 100} stroke="#9ca3af" strokeDasharray="4 4" />
+          <ReferenceLine y={data.avgMargin} stroke="#9ca3af" strokeDasharray="4 4" />
+          <Tooltip
+            cursor={{ strokeDasharray: '3 3' }}
+            content={({ payload }) => {
+              const p = payload?.[0]?.payload as (typeof points)[number] | undefined
+              if (!p) return null
+              return (
+                <div className="gc-card" style={{ padding: '8px', fontSize: '11px' }}>
+                  <div style={{ fontWeight: 700 }}>{p.name}</div>
+                  <div style={{ color: MENU_QUADRANT_COLORS[p.quadrant], fontWeight: 600 }}>{MENU_QUADRANT_LABELS[p.quadrant]}</div>
+                  <div>
+                    {p.sold} sold · {p.x.toFixed(1)}% of mix
+                  </div>
+                  <div>
+                    CM {money(p.margin)} · total {money(p.totalMargin)}
+                  </div>
+                </div>
+              )
+            }}
+          />
+          {QUADRANTS.map((q) => (
+            <Scatter key={q} name={MENU_QUADRANT_LABELS[q]} data={points.filter((p) => p.quadrant === q)} fill={MENU_QUADRANT_COLORS[q]} />
+          ))}
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react'
+import {
+  guessMapping,
+  IMPORT_FIELDS,
+  planIngredientImport,
+  readImportFile,
+  runIngredientImport,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type ImportPlanRow,
+  type ImportResult,
+  type ImportSheet,
+} from '../../lib/ingredientImport'
+
+const BTN_GHOST =
+  'px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-40'
+const BTN_PRIMARY =
+  'px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors shadow-sm shadow-blue-600/20 disabled:opacity-40'
+const SELECT =
+  'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg text-sm text-gray-900 dark:text-gray-100'
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-100 dark:bg-green-950/40 text-green-700 dark:text-green-400',
+  created: 'bg-green-100 dark:bg-green-950/40 text-green-700 dark:text-green-400',
+  update: 'bg-blue-100 dark:bg-blue-950/40 text-blue-700 dark:text-blue-400',
+  updated: 'bg-blue-100 dark:bg-blue-950/40 text-blue-700 dark:text-blue-400',
+  error: 'bg-red-100 dark:bg-red-950/40 text-red-700 dark:text-red-400',
+  failed: 'bg-red-100 dark:bg-red-950/40 text-red-700 dark:text-red-400',
+  skipped: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400',
+}
+
+function Badge({ action }: { action: string }) {
+  return <span className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${ACTION_STYLES[action] ?? ''}`}>{action}</span>
+}
+
+/** File → column mapping → preview → import → per-row report. Lives in the Ingredients import modal. */
+export default function IngredientImportWizard({ kitchenId, onDone, onClose }: { kitchenId: string | null; onDone: (result: ImportResult) => void; onClose: () => void }) {
+  const [sheet, setSheet] = useState<ImportSheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [plan, setPlan] = useState<ImportPlanRow[] | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true)
+    setErr(null)
+    try {
+      await fn()
+    } catch (e: any) {
+      setErr(e?.message ?? 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pick = (f: File | undefined) => {
+    setSheet(null)
+    setMapping(null)
+    setPlan(null)
+    setResult(null)
+    if (!f) return
+    run(async () => {
+      const s = await readImportFile(f)
+      if (!s.header.length || !s.rows.length) throw new Error('The file has no data rows under a header row.')
+      setSheet(s)
+      setMapping(guessMapping(s.header))
+    })
+  }
+
+  const setField = (field: ImportField, idx: number) => {
+    setPlan(null)
+    setMapping((m) => (m ? { ...m, [field]: idx } : m))
+  }
+
+  const preview = () =>
+    run(async () => {
+      if (!sheet || !mapping) return
+      setPlan(await planIngredientImport(validateImportRows(sheet, mapping)))
+    })
+
+  const commit = () =>
+    run(async () => {
+      if (!plan) return
+      const res = await runIngredientImport(plan, kitchenId)
+      setResult(res)
+      onDone(res)
+    })
+
+  const counts = useMemo(() => {
+    const c = { create: 0, update: 0, error: 0 }
+    for (const p of plan ?? []) c[p.action]++
+    return c
+  }, [plan])
+
+  if (result) {
+    const problems = result.rows.filter((r) => r.action === 'failed' || r.action === 'skipped' || r.message)
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-[11px]">
+          <Badge action="created" /> <span className="text-gray-600 dark:text-gray-400">{result.created}</span>
+          <Badge action="updated" /> <span className="text-gray-600 dark:text-gray-400">{result.updated}</span>
+          <Badge action="failed" /> <span className="text-gray-600 dark:text-gray-400">{result.failed}</span>
+          <Badge action="skipped" /> <span className="text-gray-600 dark:text-gray-400">{result.skipped}</span>
+        </div>
+        {result.historyError && (
+          <div className="text-sm text-amber-600 dark:text-amber-400">Prices were saved, but cost history was not recorded: {result.historyError}</div>
+        )}
+        {problems.length > 0 && (
+          <div className="max-h-80 overflow-auto custom-scrollbar">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th className="py-1.5 pr-2 font-medium">Row</th>
+                  <th className="py-1.5 px-2 font-medium">Name</th>
+                  <th className="py-1.5 px-2 font-medium">Result</th>
+                  <th className="py-1.5 pl-2 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {problems.map((r) => (
+                  <tr key={r.row} className="border-t border-gray-100 dark:border-gray-800">
+                    <td className="py-1.5 pr-2 font-mono">{r.row}</td>
+                    <td className="py-1.5 px-2 font-medium text-gray-900 dark:text-gray-100">{r.name}</td>
+                    <td className="py-1.5 px-2">
+                      <Badge action={r.action} />
+                    </td>
+                    <td className="py-1.5 pl-2 text-gray-600 dark:text-gray-400">{r.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-800">
+          <button className={BTN_PRIMARY} type="button" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+          CSV or Excel (.xlsx, first sheet) with a header row. Rows update an ingredient with the same code, or else the same name; the rest are created.
+        </div>
+        <input
+          type="file"
+          accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          disabled={busy}
+          onChange={(e) => pick(e.target.files?.[0])}
+          className="text-sm text-gray-700 dark:text-gray-300"
+        />
+      </div>
+
+      {err && <div className="text-sm text-red-600 dark:text-red-400">{err}</div>}
+
+      {sheet && mapping && (
+        <div>
+          <div className="text-[10px] uppercase tracking-wider font-medium text-gray-500 dark:text-gray-400 mb-2">
+            Columns · {sheet.fileName} · {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {IMPORT_FIELDS.map((f) => (
+              <label key={f.key} className="block">
+                <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  {f.label}
+                  {f.required && <span className="text-red-500"> *</span>}
+                </span>
+                <select className={SELECT} value={mapping[f.key]} disabled={busy} onChange={(e) => setField(f.key, Number(e.target.value))}>
+                  <option value={-1}>— not imported —</option>
+                  {sheet.header.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || `Column ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {plan && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2 text-[11px]">
+            <span className="px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-950/40 text-green-700 dark:text-green-400">{counts.create} new</span>
+            <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-950/40 text-blue-700 dark:text-blue-400">{counts.update} updated</span>
+            {counts.error > 0 && (
+              <span className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-950/40 text-red-700 dark:text-red-400 font-medium">
+                {counts.error} with errors (skipped)
+              </span>
+            )}
+          </div>
+          <div className="max-h-80 overflow-auto custom-scrollbar">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th className="py-1.5 pr-2 font-medium">Row</th>
+                  <th className="py-1.5 px-2 font-medium">Action</th>
+                  <th className="py-1.5 px-2 font-medium">Name</th>
+                  <th className="py-1.5 px-2 font-medium">Code</th>
+                  <th className="py-1.5 px-2 font-medium text-right">Pack</th>
+                  <th className="py-1.5 px-2 font-medium text-right">Price</th>
+                  <th className="py-1.5 pl-2 font-medium">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map((p) => (
+                  <tr key={p.row} className={`border-t border-gray-100 dark:border-gray-800 ${p.action === 'error' ? 'bg-red-50/70 dark:bg-red-950/20' : ''}`}>
+                    <td className="py-1.5 pr-2 font-mono">{p.row}</td>
+                    <td className="py-1.5 px-2">
+                      <Badge action={p.action} />
+                      {p.matchedBy && <span className="ml-1 text-[10px] text-gray-400">by {p.matchedBy}</span>}
+                    </td>
+                    <td className="py-1.5 px-2 font-medium text-gray-900 dark:text-gray-100">{p.values.name || '—'}</td>
+                    <td className="py-1.5 px-2 font-mono">{p.values.code ?? '—'}</td>
+                    <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">
+                      {p.values.pack_size ?? '—'} {p.values.pack_unit ?? ''}
+                    </td>
+                    <td className="py-1.5 px-2 text-right font-mono">{p.values.pack_price ?? '—'}</td>
+                    <td className="py-1.5 pl-2">
+                      {p.errors.map((e, i) => (
+                        <div key={`e${i}`} className="text-red-600 dark:text-red-400">
+                          {e}
+                        </div>
+                      ))}
+                      {p.warnings.map((w, i) => (
+                        <div key={`w${i}`} className="text-amber-600 dark:text-amber-400">
+                          {w}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+        <button className={BTN_GHOST} type="button" onClick={onClose} disabled={busy}>
+          Cancel
+        </button>
+        {!plan ? (
+          <button className={BTN_PRIMARY} type="button" onClick={preview} disabled={busy || !mapping || (mapping?.name ?? -1) < 0}>
+            {busy ? 'Checking...' : 'Preview'}
+          </button>
+        ) : (
+          <button className={BTN_PRIMARY} type="button" onClick={commit} disabled={busy || counts.create + counts.update === 0}>
+            {busy ? 'Importing...' : `Import ${counts.create + counts.update} row${counts.create + counts.update === 1 ? '' : 's'}`}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
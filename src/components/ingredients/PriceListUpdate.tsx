@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { readImportFile, type ImportSheet } from '../../lib/ingredientImport'
+import {
+  applyPriceList,
+  guessPriceMapping,
+  MATCH_LABELS,
+  PRICE_FIELDS,
+  previewPriceList,
+  type PriceField,
+  type PriceListRow,
+  type PriceMapping,
+} from '../../lib/priceListImport'
+import { listSuppliers, type Supplier } from '../../lib/suppliers'
+
+const BTN_GHOST =
+  'px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-40'
+const BTN_PRIMARY =
+  'px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors shadow-sm shadow-blue-600/20 disabled:opacity-40'
+const SELECT =
+  'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg text-sm text-gray-900 dark:text-gray-100'
+
+function num(n: number | null, digits = 2) {
+  return n == null || !Number.isFinite(n) ? '—' : n.toFixed(digits)
+}
+
+function Pct({ value }: { value: number | null }) {
+  if (value == null) return <span className="text-gray-400">—</span>
+  const cls = value > 1e-9 ? 'text-red-600 dark:text-red-400' : value < -1e-9 ? 'text-green-600 dark:text-green-400' : 'text-gray-500'
+  return (
+    <span className={cls}>
+      {value > 0 ? '+' : ''}
+      {value.toFixed(1)}%
+    </span>
+  )
+}
+
+/** Supplier price sheet → matched rows with old/new price → accept/reject → one apply. */
+export default function PriceListUpdate({ onDone, onClose }: { onDone: (res: { applied: number; costPoints: number; historyError: string | null }) => void; onClose: () => void }) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [supplierId, setSupplierId] = useState('')
+  const [sheet, setSheet] = useState<ImportSheet | null>(null)
+  const [mapping, setMapping] = useState<PriceMapping | null>(null)
+  const [rows, setRows] = useState<PriceListRow[] | null>(null)
+  const [accepted, setAccepted] = useState<Set<number>>(new Set())
+  const [busy, setBusy] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  useEffect(() => {
+    listSuppliers()
+      .then((s) => setSuppliers(s.filter((x) => x.is_active)))
+      .catch(() => setSuppliers([]))
+  }, [])
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true)
+    setErr(null)
+    try {
+      await fn()
+    } catch (e: any) {
+      setErr(e?.message ?? 'Price update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pick = (f: File | undefined) => {
+    setSheet(null)
+    setMapping(null)
+    setRows(null)
+    if (!f) return
+    run(async () => {
+      const s = await readImportFile(f)
+      if (!s.header.length || !s.rows.length) throw new Error('The file has no data rows under a header row.')
+      setSheet(s)
+      setMapping(guessPriceMapping(s.header))
+    })
+  }
+
+  const setField = (field: PriceField, idx: number) => {
+    setRows(null)
+    setMapping((m) => (m ? { ...m, [field]: idx } : m))
+  }
+
+  const preview = () =>
+    run(async () => {
+      if (!sheet || !mapping) return
+      const next = await previewPriceList(sheet, mapping, supplierId || null)
+      setRows(next)
+      setAccepted(new Set(next.filter((r) => r.accept).map((r) => r.row)))
+    })
+
+  const toggle = (row: number) =>
+    setAccepted((cur) => {
+      const next = new Set(cur)
+      if (next.has(row)) next.delete(row)
+      else next.add(row)
+      return next
+    })
+
+  const selectable = useMemo(() => (rows ?? []).filter((r) => r.ingredientId && !r.errors.length), [rows])
+
+  const apply = () => {
+    const chosen = selectable.filter((r) => accepted.has(r.row))
+    if (!chosen.length || !confirm(`Apply ${chosen.length} price change${chosen.length === 1 ? '' : 's'}?`)) return
+    run(async () => {
+      const res = await applyPriceList(chosen)
+      onDone(res)
+      onClose()
+    })
+  }
+
+  const acceptedCount = selectable.filter((r) => accepted.has(r.row)).length
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Supplier</span>
+          <select
+            className={SELECT}
+            value={supplierId}
+            disabled={busy}
+            onChange={(e) => {
+              setSupplierId(e.target.value)
+              setRows(null)
+            }}
+          >
+            <option value="">— any (match by code or name) —</option>
+            {suppliers.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Price file (CSV or .xlsx)</span>
+          <input
+            type="file"
+            accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            disabled={busy}
+            onChange={(e) => pick(e.target.files?.[0])}
+            className="text-sm text-gray-700 dark:text-gray-300"
+          />
+        </label>
+      </div>
+
+      {err && <div className="text-sm text-red-600 dark:text-red-400">{err}</div>}
+
+      {sheet && mapping && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {PRICE_FIELDS.map((f) => (
+            <label key={f.key} className="block">
+              <span className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                {f.label}
+                {f.required && <span className="text-red-500"> *</span>}
+              </span>
+              <select
+                className={SELECT}
+                value={mapping[f.key]}
+                disabled={busy || (f.key === 'sku' && !supplierId)}
+                onChange={(e) => setField(f.key, Number(e.target.value))}
+              >
+                <option value={-1}>— not used —</option>
+                {sheet.header.map((h, i) => (
+                  <option key={i} value={i}>
+                    {h || `Column ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {rows && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-[11px]">
+            <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+              {selectable.length} matched of {rows.length}
+            </span>
+            <span className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-950/40 text-blue-700 dark:text-blue-400">{acceptedCount} accepted</span>
+            <button type="button" className="text-gray-600 dark:text-gray-400 hover:underline" onClick={() => setAccepted(new Set(selectable.map((r) => r.row)))}>
+              Accept all
+            </button>
+            <button type="button" className="text-gray-600 dark:text-gray-400 hover:underline" onClick={() => setAccepted(new Set())}>
+              Reject all
+            </button>
+          </div>
+          <div className="max-h-96 overflow-auto custom-scrollbar">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <th className="py-1.5 pr-2 font-medium" />
+                  <th className="py-1.5 px-2 font-medium">Row</th>
+                  <th className="py-1.5 px-2 font-medium">Ingredient</th>
+                  <th className="py-1.5 px-2 font-medium text-right">Pack price</th>
+                  <th className="py-1.5 px-2 font-medium text-right">Change</th>
+                  <th className="py-1.5 px-2 font-medium text-right">Unit cost</th>
+                  <th className="py-1.5 pl-2 font-medium text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const canPick = !!r.ingredientId && !r.errors.length
+                  return (
+                    <tr key={r.row} className={`border-t border-gray-100 dark:border-gray-800 align-top ${r.errors.length ? 'bg-red-50/70 dark:bg-red-950/20' : ''}`}>
+                      <td className="py-1.5 pr-2">
+                        <input type="checkbox" disabled={!canPick || busy} checked={canPick && accepted.has(r.row)} onChange={() => toggle(r.row)} />
+                      </td>
+                      <td className="py-1.5 px-2 font-mono">{r.row}</td>
+                      <td className="py-1.5 px-2">
+                        <div className="font-medium text-gray-900 dark:text-gray-100">{r.ingredientName ?? r.label}</div>
+                        <div className="text-[10px] text-gray-400">
+                          {r.matchedBy ? (
+                            <>
+                              {MATCH_LABELS[r.matchedBy]}
+                              {r.score != null && ` ${Math.round(r.score * 100)}%`}
+                              {r.matchedBy !== 'code' && ` · “${r.label}”`}
+                              {r.offerId && (r.offerPreferred ? ' · preferred offer' : ' · offer')}
+                            </>
+                          ) : null}
+                        </div>
+                        {r.errors.map((e, i) => (
+                          <div key={`e${i}`} className="text-red-600 dark:text-red-400">
+                            {e}
+                          </div>
+                        ))}
+                        {r.warnings.map((w, i) => (
+                          <div key={`w${i}`} className="text-amber-600 dark:text-amber-400">
+                            {w}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">
+                        <span className="text-gray-400 line-through mr-1">{num(r.oldPrice)}</span>
+                        {num(r.newPrice)}
+                      </td>
+                      <td className="py-1.5 px-2 text-right font-mono">
+                        <Pct value={r.pricePct} />
+                      </td>
+                      <td className="py-1.5 px-2 text-right font-mono whitespace-nowrap">
+                        <span className="text-gray-400 line-through mr-1">{num(r.oldNet, 4)}</span>
+                        {num(r.newNet, 4)}
+                      </td>
+                      <td className="py-1.5 pl-2 text-right font-mono">
+                        <Pct value={r.netPct} />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+        <button className={BTN_GHOST} type="button" onClick={onClose} disabled={busy}>
+          Cancel
+        </button>
+        {!rows ? (
+          <button className={BTN_PRIMARY} type="button" onClick={preview} disabled={busy || !mapping}>
+            {busy ? 'Matching...' : 'Preview'}
+          </button>
+        ) : (
+          <button className={BTN_PRIMARY} type="button" onClick={apply} disabled={busy || acceptedCount === 0}>
+            {busy ? 'Applying...' : `Apply ${acceptedCount} change${acceptedCount === 1 ? '' : 's'}`}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+// src/components/print/PrintKit.tsx
+// Paper, cards and table cells of the recipe print card, shared by every A4 print view
+// (recipe card, menus). Each page adds its own layout-specific CSS after PRINT_BASE_CSS.
+import { ReactNode } from 'react'
+
+export const PRINT_BASE_CSS = `
+  @page {
+    size: A4;
+    margin: 10mm;
+  }
+
+  html, body {
+    background: #f7f6f2;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+
+  .avoid-break {
+    break-inside: avoid;
+    page-break-inside: avoid;
+  }
+
+  @media print {
+    html, body {
+      background: #ffffff !important;
+    }
+
+    .no-print {
+      display: none !important;
+    }
+
+    .print-stage {
+      padding: 0 !important;
+      margin: 0 !important;
+      max-width: none !important;
+      background: #ffffff !important;
+    }
+
+    .print-paper {
+      box-shadow: none !important;
+      border-radius: 0 !important;
+    }
+
+    .avoid-break {
+      break-inside: avoid !important;
+      page-break-inside: avoid !important;
+    }
+  }
+`
+
+export const PRINT_TOOLBAR_BUTTON = 'rounded-2xl border border-[#dfe5df] bg-white px-5 py-3 text-sm font-medium shadow-sm transition hover:bg-[#f7f6f2]'
+
+export function SectionTitle({ children }: { children: ReactNode }) {
+  return <h2 className="mb-5 text-[1.7rem] font-semibold tracking-[-0.03em] text-[#556b2f] md:mb-6 md:text-[1.85rem]">{children}</h2>
+}
+
+export function Tag({ children, tone = 'primary' }: { children: ReactNode; tone?: 'primary' | 'secondary' }) {
+  return (
+    <div
+      className={
+        tone === 'secondary'
+          ? 'rounded-full border border-[#dfe5df] bg-[#eef3ef] px-3.5 py-1.5 text-xs font-medium text-[#2f6f5e]'
+          : 'rounded-full border border-[#dfe5df] bg-white px-3.5 py-1.5 text-xs font-medium text-stone-700'
+      }
+    >
+      {children}
+    </div>
+  )
+}
+
+export function MetricCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="summary-card avoid-break rounded-[22px] border border-[#dfe5df] bg-white px-4 py-4 shadow-[0_4px_16px_rgba(0,0,0,0.03)]">
+      <div className="text-[10px] font-semibold uppercase tracking-[0.2em] text-stone-500">{label}</div>
+      <div className="mt-1.5 text-lg font-semibold text-[#2f6f5e]">{value}</div>
+    </div>
+  )
+}
+
+export function Panel({ title, accent, children }: { title: string; accent: 'olive' | 'teal'; children: ReactNode }) {
+  return (
+    <div className="panel-card avoid-break rounded-[28px] border border-[#dfe5df] bg-[linear-gradient(180deg,#ffffff_0%,#fbfcfb_100%)] p-5 shadow-[0_6px_18px_rgba(0,0,0,0.03)]">
+      <div className={`text-[11px] font-semibold uppercase tracking-[0.26em] ${accent === 'olive' ? 'text-[#556b2f]' : 'text-[#2f6f5e]'}`}>
+        {title}
+      </div>
+      <div className="mt-4">{children}</div>
+    </div>
+  )
+}
+
+export function MiniMetric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-[20px] border border-[#dfe5df] bg-white px-4 py-3">
+      <div className="text-[10px] font-semibold uppercase tracking-[0.18em] text-stone-500">{label}</div>
+      <div className="mt-1.5 text-sm font-semibold text-stone-800">{value}</div>
+    </div>
+  )
+}
+
+export function Th({ children, className = '' }: { children?: ReactNode; className?: string }) {
+  return <th className={`border-b border-[#dfe5df] px-3 py-3 text-left text-[11px] font-semibold uppercase tracking-[0.16em] ${className}`}>{children}</th>
+}
+
+export function Td({ children, className = '' }: { children?: ReactNode; className?: string }) {
+  return <td className={`border-b border-[#eef1ee] px-3 py-3 ${className}`}>{children}   </td>
+}
@@ -0,0 +1,319 @@
+import React, { useState } from 'react'
+import {
+  deletePackagingLine,
+  PACKAGING_PER_LABELS,
+  saveRecipeLabor,
+  savePackagingLine,
+  type LaborRole,
+  type PackagingLine,
+  type PackagingPer,
+  type PlateCost,
+  type RecipeLabor,
+} from '../../lib/plateCost'
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function pct(n: number | null) {
+  return n == null ? '—' : `${n.toFixed(1)}%`
+}
+
+const numOrNull = (v: string) => (v.trim() === '' || !Number.isFinite(Number(v)) ? null : Math.max(0, Number(v)))
+
+/** Labor time, packaging lines and the food → prime → plate cost breakdown for one recipe. */
+export default function PlateCostPanel({
+  recipeId,
+  plate,
+  currency,
+  roles,
+  labor,
+  packaging,
+  overheadPct,
+  canEdit,
+  onLaborChange,
+  onPackagingChange,
+}: {
+  recipeId: string
+  plate: PlateCost
+  currency: string
+  roles: LaborRole[]
+  labor: RecipeLabor
+  packaging: PackagingLine[]
+  overheadPct: number
+  canEdit: boolean
+  onLaborChange: (labor: RecipeLabor) => void
+  onPackagingChange: (lines: PackagingLine[]) => void
+}) {
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [draft, setDraft] = useState({ name: '', qty: '1', unit_cost: '', per: 'portion' as PackagingPer })
+
+  const activeRoles = roles.filter((r) => r.is_active || r.id === labor.prep_role_id || r.id === labor.cook_role_id)
+
+  const commitLabor = async (next: RecipeLabor) => {
+    onLaborChange(next)
+    setErr(null)
+    try {
+      await saveRecipeLabor(recipeId, next)
+    } catch (e: any) {
+      setErr(e?.message || 'Failed to save labor')
+    }
+  }
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true)
+    setErr(null)
+    try {
+      await fn()
+    } catch (e: any) {
+      setErr(e?.message || 'Failed to save packaging')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addLine = () =>
+    run(async () => {
+      const saved = await savePackagingLine({
+        recipe_id: recipeId,
+        name: draft.name,
+        qty: Number(draft.qty) || 0,
+        unit_cost: Number(draft.unit_cost) || 0,
+        per: draft.per,
+        position: packaging.reduce((m, l) => Math.max(m, l.position), 0) + 1,
+      })
+      onPackagingChange([...packaging, saved])
+      setDraft({ name: '', qty: '1', unit_cost: '', per: draft.per })
+    })
+
+  const updateLine = (line: PackagingLine, patch: Partial<PackagingLine>) =>
+    run(async () => {
+      const saved = await savePackagingLine({ ...line, ...patch })
+      onPackagingChange(packaging.map((l) => (l.id === saved.id ? saved : l)))
+    })
+
+  const removeLine = (line: PackagingLine) =>
+    run(async () => {
+      await deletePackagingLine(line.id)
+      onPackagingChange(packaging.filter((l) => l.id !== line.id))
+    })
+
+  const timeRow = (label: string, minutesKey: 'prep_minutes' | 'cook_minutes', roleKey: 'prep_role_id' | 'cook_role_id') => (
+    <div className="gc-pc__time">
+      <span className="gc-pc__lbl">{label}</span>
+      <input
+        key={`${minutesKey}-${labor[minutesKey] ?? ''}`}
+        className="gc-input w-24 text-right"
+        type="number"
+        min={0}
+        step="any"
+        placeholder="min"
+        defaultValue={labor[minutesKey] ?? ''}
+        disabled={!canEdit}
+        onBlur={(e) => {
+          const v = numOrNull(e.target.value)
+          if (v !== labor[minutesKey]) commitLabor({ ...labor, [minutesKey]: v })
+        }}
+      />
+      <span className="gc-pc__muted">min by</span>
+      <select
+        className="gc-input"
+        value={labor[roleKey] || ''}
+        disabled={!canEdit}
+        onChange={(e) => commitLabor({ ...labor, [roleKey]: e.target.value || null })}
+      >
+        <option value="">No role</option>
+        {activeRoles.map((r) => (
+          <option key={r.id} value={r.id}>
+            {r.name} · {fmtMoney(r.hourly_rate, currency)}/h
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  return (
+    <div className="gc-pc">
+      <style>{`
+        .gc-pc { display: grid; gap: 12px; padding: 16px 24px 24px; }
+        .gc-pc__grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 16px; }
+        .gc-pc__title { font-size: 10px; font-weight: 700; letter-spacing: .08em; text-transform: uppercase; opacity: .6; margin-bottom: 6px; }
+        .gc-pc__time { display: flex; flex-wrap: wrap; align-items: center; gap: 6px; margin-bottom: 6px; }
+        .gc-pc__lbl { width: 44px; font-size: 12px; font-weight: 600; }
+        .gc-pc__muted { font-size: 12px; opacity: .6; }
+        .gc-pc__error { font-size: 12px; color: #b91c1c; }
+        .gc-pc__table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        .gc-pc__table th { text-align: left; font-weight: 600; font-size: 10px; letter-spacing: .04em; text-transform: uppercase; opacity: .6; padding: 6px 8px; border-bottom: 1px solid rgba(0,0,0,.08); }
+        .gc-pc__table td { padding: 4px 8px; border-bottom: 1px solid rgba(0,0,0,.05); vertical-align: middle; }
+        .gc-pc__right { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+        .gc-pc__strong td { font-weight: 700; }
+        .gc-pc__total td { font-weight: 800; border-top: 2px solid rgba(0,0,0,.12); }
+        .gc-pc__x { border: 0; background: none; cursor: pointer; opacity: .5; font-size: 14px; }
+        .gc-pc__x:hover { opacity: 1; }
+      `}</style>
+
+      {err && <div className="gc-pc__error">{err}</div>}
+
+      <div className="gc-pc__grid">
+        <div>
+          <div className="gc-pc__title">Labor · per batch</div>
+          {timeRow('Prep', 'prep_minutes', 'prep_role_id')}
+          {timeRow('Cook', 'cook_minutes', 'cook_role_id')}
+          {!roles.length && <div className="gc-pc__muted">Add kitchen roles and hourly rates in Settings to cost labor.</div>}
+          {plate.prepLabor > 0 && <div className="gc-pc__muted">+ {fmtMoney(plate.prepLabor, currency)} from the prep recipes used</div>}
+
+          <div className="gc-pc__title" style={{ marginTop: 12 }}>
+            Packaging &amp; disposables
+          </div>
+          <table className="gc-pc__table">
+            <tbody>
+              {packaging.map((l) => (
+                <tr key={l.id}>
+                  <td>{l.name}</td>
+                  <td className="gc-pc__right">
+                    <input
+                      key={`q-${l.qty}`}
+                      className="gc-input w-16 text-right"
+                      type="number"
+                      min={0}
+                      step="any"
+                      defaultValue={l.qty}
+                      disabled={!canEdit || busy}
+                      onBlur={(e) => Number(e.target.value) !== l.qty && updateLine(l, { qty: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </td>
+                  <td className="gc-pc__right">
+                    <input
+                      key={`c-${l.unit_cost}`}
+                      className="gc-input w-20 text-right"
+                      type="number"
+                      min={0}
+                      step="any"
+                      defaultValue={l.unit_cost}
+                      disabled={!canEdit || busy}
+                      onBlur={(e) => Number(e.target.value) !== l.unit_cost && updateLine(l, { unit_cost: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </td>
+                  <td>
+                    <select className="gc-input" value={l.per} disabled={!canEdit || busy} onChange={(e) => updateLine(l, { per: e.target.value as PackagingPer })}>
+                      {(Object.keys(PACKAGING_PER_LABELS) as PackagingPer[]).map((p) => (
+                        <option key={p} value={p}>
+                          {PACKAGING_PER_LABELS[p]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="gc-pc__right">
+                    {canEdit && (
+                      <button type="button" className="gc-pc__x" disabled={busy} onClick={() => removeLine(l)} title="Remove">
+                        ✕
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {canEdit && (
+                <tr>
+                  <td>
+                    <input className="gc-input w-full" placeholder="Box, lid, napkin…" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                  </td>
+                  <td className="gc-pc__right">
+                    <input className="gc-input w-16 text-right" type="number" min={0} step="any" value={draft.qty} onChange={(e) => setDraft({ ...draft, qty: e.target.value })} />
+                  </td>
+                  <td className="gc-pc__right">
+                    <input
+                      className="gc-input w-20 text-right"
+                      type="number"
+                      min={0}
+                      step="any"
+                      placeholder="cost"
+                      value={draft.unit_cost}
+                      onChange={(e) => setDraft({ ...draft, unit_cost: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select className="gc-input" value={draft.per} onChange={(e) => setDraft({ ...draft, per: e.target.value as PackagingPer })}>
+                      {(Object.keys(PACKAGING_PER_LABELS) as PackagingPer[]).map((p) => (
+                        <option key={p} value={p}>
+                          {PACKAGING_PER_LABELS[p]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="gc-pc__right">
+                    <button type="button" className="gc-btn gc-btn-ghost" disabled={busy || !draft.name.trim()} onClick={addLine}>
+                      Add
+                    </button>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <div className="gc-pc__title">Plate cost</div>
+          <table className="gc-pc__table">
+            <thead>
+              <tr>
+                <th />
+                <th className="gc-pc__right">Batch</th>
+                <th className="gc-pc__right">Portion</th>
+                <th className="gc-pc__right">% of price</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Food</td>
+                <td className="gc-pc__right">{fmtMoney(plate.food, currency)}</td>
+                <td className="gc-pc__right">{fmtMoney(plate.foodPP, currency)}</td>
+                <td className="gc-pc__right">{pct(plate.foodPct)}</td>
+              </tr>
+              <tr>
+                <td>Labor{plate.prepLabor > 0 && <span className="gc-pc__muted"> · incl. preps</span>}</td>
+                <td className="gc-pc__right">{fmtMoney(plate.labor, currency)}</td>
+                <td className="gc-pc__right">{fmtMoney(plate.labor / plate.portions, currency)}</td>
+                <td />
+              </tr>
+              <tr className="gc-pc__strong">
+                <td>Prime cost</td>
+                <td className="gc-pc__right">{fmtMoney(plate.prime, currency)}</td>
+                <td className="gc-pc__right">{fmtMoney(plate.primePP, currency)}</td>
+                <td className="gc-pc__right">{pct(plate.primePct)}</td>
+              </tr>
+              <tr>
+                <td>Packaging</td>
+                <td className="gc-pc__right">{fmtMoney(plate.packaging, currency)}</td>
+                <td className="gc-pc__right">{fmtMoney(plate.packaging / plate.portions, currency)}</td>
+                <td />
+              </tr>
+              <tr>
+                <td>Overhead · {overheadPct}%</td>
+                <td className="gc-pc__right">{fmtMoney(plate.overhead, currency)}</td>
+                <td className="gc-pc__right">{fmtMoney(plate.overhead / plate.portions, currency)}</td>
+                <td />
+              </tr>
+              <tr className="gc-pc__total">
+                <td>Plate cost</td>
+                <td className="gc-pc__right">{fmtMoney(plate.plate, currency)}</td>
+                <td className="gc-pc__right">{fmtMoney(plate.platePP, currency)}</td>
+                <td className="gc-pc__right">{pct(plate.platePct)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {plate.plateMargin != null && (
+            <div className="gc-pc__muted" style={{ marginTop: 6 }}>
+              Margin after plate cost: {fmtMoney(plate.plateMargin, currency)} per portion
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  diffRecipeVersions,
+  getRecipeVersionSnapshot,
+  listRecipeVersions,
+  VERSION_REASON_LABELS,
+  type RecipeVersionRow,
+  type RecipeVersionSnapshot,
+} from '../../lib/recipeVersions'
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: (currency || 'USD').toUpperCase() }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtDelta(n: number, currency: string) {
+  if (Math.abs(n) < 0.005) return '±0'
+  return `${n > 0 ? '+' : '−'}${fmtMoney(Math.abs(n), currency)}`
+}
+
+function fmtWhen(iso: string) {
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? '' : d.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export default function RecipeHistoryPanel({
+  recipeId,
+  currency,
+  refreshKey,
+  onRestore,
+}: {
+  recipeId: string
+  currency: string
+  /** Bump to re-read the timeline (e.g. after a save recorded a version). */
+  refreshKey: number
+  onRestore: (version: RecipeVersionRow) => void
+}) {
+  const [versions, setVersions] = useState<RecipeVersionRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+  const [snaps, setSnaps] = useState<Record<string, RecipeVersionSnapshot>>({})
+
+  useEffect(() => {
+    let alive = true
+    setLoading(true)
+    listRecipeVersions(recipeId)
+      .then((rows) => {
+        if (!alive) return
+        setVersions(rows)
+        setErr(null)
+        // Default: latest vs the one before it. Keep a manual selection if it still exists.
+        setToId((cur) => (cur && rows.some((r) => r.id === cur) ? cur : rows[0]?.id || ''))
+        setFromId((cur) => (cur && rows.some((r) => r.id === cur) ? cur : rows[1]?.id || ''))
+      })
+      .catch((e: any) => alive && setErr(e?.message || 'Failed to load history.'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [recipeId, refreshKey])
+
+  useEffect(() => {
+    const need = [fromId, toId].filter((x) => x && !snaps[x])
+    if (!need.length) return
+    let alive = true
+    Promise.all(need.map(async (vid) => [vid, await getRecipeVersionSnapshot(vid)] as const))
+      .then((pairs) => alive && setSnaps((prev) => ({ ...prev, ...Object.fromEntries(pairs) })))
+      .catch((e: any) => alive && setErr(e?.message || 'Failed to load version.'))
+    return () => {
+      alive = false
+    }
+  }, [fromId, toId, snaps])
+
+  const diff = useMemo(() => {
+    const a = snaps[fromId]
+    const b = snaps[toId]
+    return a && b ? diffRecipeVersions(a, b) : null
+  }, [snaps, fromId, toId])
+
+  const byId = useMemo(() => new Map(versions.map((v) => [v.id, v])), [versions])
+  const latestId = versions[0]?.id
+  const toVersion = byId.get(toId)
+
+  const pick = (v: RecipeVersionRow, idx: number) => {
+    setToId(v.id)
+    setFromId(versions[idx + 1]?.id || '')
+  }
+
+  if (loading && !versions.length) return <div className="gc-rh__meta">Loading history…</div>
+  if (err) return <div className="gc-rh__meta gc-rh__neg">{err}</div>
+  if (!versions.length) return <div className="gc-rh__meta">No versions yet. One is recorded every time the recipe is saved.</div>
+
+  return (
+    <div className="gc-rh">
+      <style>{`
+        .gc-rh { display: grid; grid-template-columns: minmax(200px, 260px) 1fr; gap: 16px; }
+        @media (max-width: 760px) { .gc-rh { grid-template-columns: 1fr; } }
+        .gc-rh__meta { font-size: 12px; opacity: .7; }
+        .gc-rh__list { display: grid; gap: 4px; max-height: 420px; overflow: auto; }
+        .gc-rh__item { display: grid; grid-template-columns: auto 1fr auto; gap: 2px 8px; align-items: baseline; text-align: left; padding: 8px 10px; border-radius: 10px; border: 1px solid rgba(0,0,0,.06); background: none; font: inherit; font-size: 12px; cursor: pointer; }
+        .gc-rh__item.is-to { border-color: currentColor; }
+        .gc-rh__item.is-from { border-style: dashed; }
+        .gc-rh__no { font-weight: 700; font-variant-numeric: tabular-nums; }
+        .gc-rh__when { grid-column: 2 / 4; font-size: 10px; opacity: .6; }
+        .gc-rh__right { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+        .gc-rh__pos { color: #b91c1c; }
+        .gc-rh__neg { color: #15803d; }
+        .gc-rh__bar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 10px; font-size: 12px; }
+        .gc-rh__bar select { font: inherit; padding: 4px 6px; border-radius: 8px; border: 1px solid rgba(0,0,0,.12); background: transparent; }
+        .gc-rh__table { width: 100%; border-collapse: collapse; font-size: 12px; margin-bottom: 12px; }
+        .gc-rh__table th { text-align: left; font-weight: 600; font-size: 10px; letter-spacing: .04em; text-transform: uppercase; opacity: .6; padding: 6px 8px; border-bottom: 1px solid rgba(0,0,0,.08); }
+        .gc-rh__table td { padding: 6px 8px; border-bottom: 1px solid rgba(0,0,0,.05); vertical-align: top; }
+        .gc-rh__kind { display: inline-block; padding: 1px 6px; border-radius: 999px; font-size: 10px; background: rgba(0,0,0,.06); }
+        .gc-rh__kind.added { background: rgba(21,128,61,.12); }
+        .gc-rh__kind.removed { background: rgba(185,28,28,.12); }
+        .gc-rh__old { text-decoration: line-through; opacity: .6; margin-right: 6px; }
+        .gc-rh__btn { font: inherit; font-size: 12px; font-weight: 600; padding: 6px 10px; border-radius: 8px; border: 1px solid currentColor; background: none; cursor: pointer; margin-left: auto; }
+      `}</style>
+
+      <div className="gc-rh__list">
+        {versions.map((v, idx) => {
+          const prev = versions[idx + 1]
+          const delta = prev && v.total_cost != null && prev.total_cost != null ? Number(v.total_cost) - Number(prev.total_cost) : null
+          return (
+            <button
+              key={v.id}
+              type="button"
+              className={`gc-rh__item ${v.id === toId ? 'is-to' : ''} ${v.id === fromId ? 'is-from' : ''}`}
+              onClick={() => pick(v, idx)}
+            >
+              <span className="gc-rh__no">v{v.version_no}</span>
+              <span>
+                {VERSION_REASON_LABELS[v.reason] || v.reason}
+                {v.restored_from != null ? ` v${v.restored_from}` : ''}
+              </span>
+              <span className={`gc-rh__right ${delta != null && delta > 0.005 ? 'gc-rh__pos' : delta != null && delta < -0.005 ? 'gc-rh__neg' : ''}`}>
+                {v.total_cost != null ? fmtMoney(Number(v.total_cost), currency) : '—'}
+              </span>
+              <span className="gc-rh__when">{fmtWhen(v.updated_at || v.created_at)}</span>
+            </button>
+          )
+        })}
+      </div>
+
+      <div>
+        <div className="gc-rh__bar">
+          <span>Compare</span>
+          <select value={fromId} onChange={(e) => setFromId(e.target.value)}>
+            <option value="">—</option>
+            {versions.map((v) => (
+              <option key={v.id} value={v.id}>v{v.version_no}</option>
+            ))}
+          </select>
+          <span>→</span>
+          <select value={toId} onChange={(e) => setToId(e.target.value)}>
+            {versions.map((v) => (
+              <option key={v.id} value={v.id}>v{v.version_no}{v.id === latestId ? ' (current)' : ''}</option>
+            ))}
+          </select>
+          {toVersion && toVersion.id !== latestId && (
+            <button type="button" className="gc-rh__btn" onClick={() => onRestore(toVersion)}>
+              Restore v{toVersion.version_no}
+            </button>
+          )}
+        </div>
+
+        {!fromId ? (
+          <div className="gc-rh__meta">First version — nothing to compare against.</div>
+        ) : !diff ? (
+          <div className="gc-rh__meta">Loading versions…</div>
+        ) : (
+          <>
+            <table className="gc-rh__table">
+              <thead>
+                <tr>
+                  <th>Cost impact</th>
+                  <th className="gc-rh__right">Before</th>
+                  <th className="gc-rh__right">After</th>
+                  <th className="gc-rh__right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td>Total cost</td>
+                  <td className="gc-rh__right">{fmtMoney(diff.cost.from, currency)}</td>
+                  <td className="gc-rh__right">{fmtMoney(diff.cost.to, currency)}</td>
+                  <td className={`gc-rh__right ${diff.cost.delta > 0.005 ? 'gc-rh__pos' : diff.cost.delta < -0.005 ? 'gc-rh__neg' : ''}`}>{fmtDelta(diff.cost.delta, currency)}</td>
+                </tr>
+                <tr>
+                  <td>Cost / portion</td>
+                  <td className="gc-rh__right">{fmtMoney(diff.cost.cppFrom, currency)}</td>
+                  <td className="gc-rh__right">{fmtMoney(diff.cost.cppTo, currency)}</td>
+                  <td className={`gc-rh__right ${diff.cost.cppDelta > 0.005 ? 'gc-rh__pos' : diff.cost.cppDelta < -0.005 ? 'gc-rh__neg' : ''}`}>{fmtDelta(diff.cost.cppDelta, currency)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            {diff.fields.length > 0 && (
+              <table className="gc-rh__table">
+                <thead>
+                  <tr>
+                    <th>Field</th>
+                    <th>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.fields.map((f) => (
+                    <tr key={f.key}>
+                      <td>{f.label}</td>
+                      <td>
+                        <span className="gc-rh__old">{f.from}</span>
+                        <span>{f.to}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {diff.lines.length > 0 && (
+              <table className="gc-rh__table">
+                <thead>
+                  <tr>
+                    <th>Line</th>
+                    <th>Change</th>
+                    <th className="gc-rh__right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.lines.map((l, i) => (
+                    <tr key={`${l.from?.id || ''}-${l.to?.id || ''}-${i}`}>
+                      <td>
+                        <span className={`gc-rh__kind ${l.kind}`}>{l.kind}</span> {l.label || 'Line'}
+                      </td>
+                      <td>{l.details.join(' · ')}</td>
+                      <td className={`gc-rh__right ${l.costDelta > 0.005 ? 'gc-rh__pos' : l.costDelta < -0.005 ? 'gc-rh__neg' : ''}`}>{fmtDelta(l.costDelta, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {!diff.fields.length && !diff.lines.length && <div className="gc-rh__meta">No differences in recipe details or lines.</div>}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
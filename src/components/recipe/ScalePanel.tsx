@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react'
+import { UNIT_OPTIONS } from '../../lib/units'
+import {
+  flattenScaled,
+  scaleFactor,
+  scaleRecipe,
+  SCALE_MODE_LABELS,
+  type PackInfo,
+  type ScaleContext,
+  type ScaledLine,
+  type ScaleMode,
+  type ScaleRecipe,
+  type ScaleTarget,
+} from '../../lib/scaling'
+
+function fmtQty(n: number) {
+  const v = Number.isFinite(n) ? n : 0
+  if (Math.abs(v) >= 100) return v.toFixed(0)
+  if (Math.abs(v) >= 10) return String(Math.round(v * 10) / 10)
+  return String(Math.round(v * 100) / 100)
+}
+
+export function fmtPacks(p: PackInfo) {
+  if (p.nearWhole) return `≈ ${Math.round(p.packs)} × ${fmtQty(p.packSize)} ${p.packUnit}`
+  if (p.fullPacks < 1) return `${Math.round(p.packs * 100)}% of a ${fmtQty(p.packSize)} ${p.packUnit} pack`
+  return `${p.fullPacks} × ${fmtQty(p.packSize)} ${p.packUnit} + ${fmtQty(p.remainder)} ${p.packUnit}`
+}
+
+/** Ingredients that appear anywhere in the recipe tree, for the "ingredient on hand" picker. */
+export function treeIngredients(recipeId: string, ctx: ScaleContext) {
+  const names = new Map(ctx.ingredients.map((i) => [i.id, i.name || 'Ingredient']))
+  const seen = new Map<string, { id: string; name: string; unit: string }>()
+  for (const row of flattenScaled(scaleRecipe(recipeId, 1, ctx))) {
+    const iid = row.line.ingredient_id
+    if (row.type !== 'ingredient' || !iid || seen.has(iid)) continue
+    seen.set(iid, { id: iid, name: names.get(iid) || 'Ingredient', unit: row.unit })
+  }
+  return [...seen.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/** Mode picker + inputs for a scale target. */
+export function ScaleControls({
+  recipe,
+  ingredients,
+  value,
+  onChange,
+}: {
+  recipe: ScaleRecipe
+  ingredients: Array<{ id: string; name: string; unit: string }>
+  value: ScaleTarget
+  onChange: (t: ScaleTarget) => void
+}) {
+  const setMode = (mode: ScaleMode) => {
+    if (mode === value.mode) return
+    if (mode === 'portions') onChange({ mode, portions: Math.max(1, Number(recipe.portions) || 1) })
+    else if (mode === 'yield') onChange({ mode, qty: Number(recipe.yield_qty) || 1, unit: recipe.yield_unit || 'kg' })
+    else {
+      const first = ingredients[0]
+      onChange({ mode, ingredientId: first?.id || '', qty: 1, unit: first?.unit || 'kg' })
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select className="gc-input" value={value.mode} onChange={(e) => setMode(e.target.value as ScaleMode)}>
+        {(Object.keys(SCALE_MODE_LABELS) as ScaleMode[]).map((m) => (
+          <option key={m} value={m}>
+            {SCALE_MODE_LABELS[m]}
+          </option>
+        ))}
+      </select>
+      {value.mode === 'ingredient' && (
+        <select
+          className="gc-input"
+          value={value.ingredientId}
+          onChange={(e) => {
+            const ing = ingredients.find((i) => i.id === e.target.value)
+            onChange({ ...value, ingredientId: e.target.value, unit: ing?.unit || value.unit })
+          }}
+        >
+          {!ingredients.length && <option value="">No ingredients</option>}
+          {ingredients.map((i) => (
+            <option key={i.id} value={i.id}>
+              {i.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <input
+        className="gc-input w-28 text-right"
+        type="number"
+        min={0}
+        step="any"
+        value={value.mode === 'portions' ? value.portions : value.qty}
+        onChange={(e) => {
+          const n = Math.max(0, Number(e.target.value) || 0)
+          onChange(value.mode === 'portions' ? { ...value, portions: n } : { ...value, qty: n })
+        }}
+      />
+      {value.mode === 'portions' ? (
+        <span className="text-xs text-neutral-500">portions</span>
+      ) : (
+        <select className="gc-input" value={value.unit} onChange={(e) => onChange({ ...value, unit: e.target.value })}>
+          {[...new Set([...UNIT_OPTIONS, value.unit])].map((u) => (
+            <option key={u} value={u}>
+              {u}
+            </option>
+          ))}
+        </select>
+      )}
+      {value.mode === 'ingredient' && <span className="text-xs text-neutral-500">on hand, before trim</span>}
+    </div>
+  )
+}
+
+/** Editor panel: pick a target, see every line (and nested PREP line) at that scale. */
+export default function ScalePanel({
+  recipe,
+  ctx,
+  recipeName,
+  ingredientName,
+  onCook,
+  onPrint,
+}: {
+  recipe: ScaleRecipe
+  ctx: ScaleContext
+  recipeName: (id: string) => string
+  ingredientName: (id: string) => string
+  onCook?: (t: ScaleTarget) => void
+  onPrint?: (t: ScaleTarget) => void
+}) {
+  const [target, setTarget] = useState<ScaleTarget>({ mode: 'portions', portions: Math.max(1, Number(recipe.portions) || 1) })
+
+  const ingredients = useMemo(() => treeIngredients(recipe.id, ctx), [recipe.id, ctx])
+  const result = useMemo(() => scaleFactor(recipe.id, target, ctx), [recipe.id, target, ctx])
+  const rows = useMemo(() => (result.ok ? flattenScaled(scaleRecipe(recipe.id, result.factor, ctx)) : []), [recipe.id, result, ctx])
+
+  const label = (row: ScaledLine) => {
+    if (row.type === 'group') return row.line.group_title || 'Group'
+    if (row.type === 'subrecipe') return row.line.sub_recipe_id ? recipeName(row.line.sub_recipe_id) : 'Subrecipe'
+    return row.line.ingredient_id ? ingredientName(row.line.ingredient_id) : 'Ingredient'
+  }
+
+  return (
+    <div className="gc-sc">
+      <style>{`
+        .gc-sc { display: grid; gap: 10px; }
+        .gc-sc__controls { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; }
+        .gc-sc__meta { font-size: 12px; opacity: .7; }
+        .gc-sc__error { font-size: 12px; color: #b91c1c; }
+        .gc-sc__actions { display: flex; gap: 8px; margin-left: auto; }
+        .gc-sc__btn { border: 1px solid rgba(0,0,0,.12); border-radius: 10px; padding: 6px 12px; font-size: 12px; font-weight: 600; background: #fff; cursor: pointer; }
+        .gc-sc__btn:disabled { opacity: .5; cursor: default; }
+        .gc-sc__table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        .gc-sc__table th { text-align: left; font-weight: 600; font-size: 10px; letter-spacing: .04em; text-transform: uppercase; opacity: .6; padding: 6px 8px; border-bottom: 1px solid rgba(0,0,0,.08); }
+        .gc-sc__table td { padding: 6px 8px; border-bottom: 1px solid rgba(0,0,0,.05); vertical-align: top; }
+        .gc-sc__right { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+        .gc-sc__group td { font-weight: 700; font-size: 11px; text-transform: uppercase; letter-spacing: .06em; opacity: .7; }
+        .gc-sc__sub { font-weight: 600; }
+      `}</style>
+
+      <div className="gc-sc__controls">
+        <ScaleControls recipe={recipe} ingredients={ingredients} value={target} onChange={setTarget} />
+        <div className="gc-sc__actions">
+          {onCook && (
+            <button type="button" className="gc-sc__btn" disabled={!result.ok} onClick={() => onCook(target)}>
+              Cook at this scale
+            </button>
+          )}
+          {onPrint && (
+            <button type="button" className="gc-sc__btn" disabled={!result.ok} onClick={() => onPrint(target)}>
+              Print scaled card
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!result.ok ? (
+        <div className="gc-sc__error">{result.message}</div>
+      ) : (
+        <>
+          <div className="gc-sc__meta">
+            ×{fmtQty(result.factor)} · {fmtQty(result.factor * Math.max(1, Number(recipe.portions) || 1))} portions
+            {recipe.yield_qty && recipe.yield_unit ? ` · ${fmtQty(result.factor * recipe.yield_qty)} ${recipe.yield_unit}` : ''}
+          </div>
+          <table className="gc-sc__table">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th className="gc-sc__right">Exact</th>
+                <th className="gc-sc__right">Weigh out</th>
+                <th>Packs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, idx) =>
+                row.type === 'group' ? (
+                  <tr key={`${row.key}-${idx}`} className="gc-sc__group">
+                    <td colSpan={4} style={{ paddingLeft: 8 + row.depth * 16 }}>
+                      {label(row)}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={`${row.key}-${idx}`}>
+                    <td style={{ paddingLeft: 8 + row.depth * 16 }} className={row.type === 'subrecipe' ? 'gc-sc__sub' : undefined}>
+                      {row.depth > 0 ? '↳ ' : ''}
+                      {label(row)}
+                      {row.type === 'subrecipe' ? ' (PREP)' : ''}
+                    </td>
+                    <td className="gc-sc__right">
+                      {fmtQty(row.net)} {row.unit}
+                    </td>
+                    <td className="gc-sc__right">
+                      <b>
+                        {fmtQty(row.rounded.qty)} {row.rounded.unit}
+                      </b>
+                    </td>
+                    <td className="gc-sc__meta">{row.packs ? fmtPacks(row.packs) : ''}</td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import {
+  createPublicShare,
+  listPublicShares,
+  loadRecipeSharePayload,
+  revokePublicShare,
+  SHARE_REDACTION_LABELS,
+  type PublicShare,
+  type ShareRedaction,
+} from '../../lib/publicShare'
+import PublicSharesTable from '../share/PublicSharesTable'
+
+const EXPIRY_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 0, label: 'Never expires' },
+  { days: 1, label: '24 hours' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+]
+
+/** Creates signed public links for the saved recipe and lists (and revokes) the existing ones. */
+export default function SharePanel({ recipeId, canShare, canRevoke }: { recipeId: string; canShare: boolean; canRevoke: boolean }) {
+  const [shares, setShares] = useState<PublicShare[]>([])
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [days, setDays] = useState(7)
+  const [label, setLabel] = useState('')
+  const [redaction, setRedaction] = useState<ShareRedaction>('quantities')
+  const [url, setUrl] = useState('')
+  const [copied, setCopied] = useState('')
+
+  const refresh = useCallback(() => {
+    listPublicShares(recipeId)
+      .then(setShares)
+      .catch((e: any) => setErr(e?.message || 'Failed to load shares'))
+  }, [recipeId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied('Copied!')
+    } catch {
+      setCopied('Copy failed')
+    }
+    window.setTimeout(() => setCopied(''), 1400)
+  }
+
+  const create = async () => {
+    setBusy(true)
+    setErr(null)
+    try {
+      const payload = await loadRecipeSharePayload(recipeId, redaction)
+      const expiresAt = days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null
+      const res = await createPublicShare({ recipeId, payload, expiresAt, label })
+      setUrl(res.url)
+      setLabel('')
+      await copy(res.url)
+      refresh()
+    } catch (e: any) {
+      setErr(e?.message || 'Failed to create share link')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const revoke = async (s: PublicShare) => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) return
+    setBusyId(s.id)
+    setErr(null)
+    try {
+      const next = await revokePublicShare(s.id)
+      setShares((cur) => cur.map((x) => (x.id === next.id ? next : x)))
+    } catch (e: any) {
+      setErr(e?.message || 'Failed to revoke')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3 p-6">
+      {canShare && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input className="gc-input" placeholder="Label (e.g. Supplier X)" value={label} onChange={(e) => setLabel(e.target.value)} />
+          <select className="gc-input" value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            {EXPIRY_OPTIONS.map((o) => (
+              <option key={o.days} value={o.days}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <select className="gc-input" value={redaction} onChange={(e) => setRedaction(e.target.value as ShareRedaction)}>
+            {(Object.keys(SHARE_REDACTION_LABELS) as ShareRedaction[]).map((r) => (
+              <option key={r} value={r}>
+                {SHARE_REDACTION_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <button className="gc-btn gc-btn-primary" type="button" disabled={busy} onClick={create}>
+            {busy ? 'Creating…' : 'Create share link'}
+          </button>
+          {copied && <span className="text-xs text-neutral-500">{copied}</span>}
+        </div>
+      )}
+      {url && (
+        <div className="flex items-center gap-2">
+          <input className="gc-input w-full font-mono text-xs" readOnly value={url} onFocus={(e) => e.target.select()} />
+          <button className="gc-btn gc-btn-ghost" type="button" onClick={() => copy(url)}>
+            Copy
+          </button>
+        </div>
+      )}
+      <div className="text-xs text-neutral-500">Links are a snapshot of the saved recipe, signed so they cannot be edited. Save changes before sharing. Quantities only and method only leave every cost out of the link.</div>
+      {err && <div className="text-sm text-red-600">{err}</div>}
+      <PublicSharesTable shares={shares} showRecipe={false} busyId={busyId} onRevoke={canRevoke ? revoke : undefined} />
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react'
+import type { WhereUsedEntry } from '../../lib/recipeGraph'
+
+type RecipeRef = { id: string; name?: string | null; code?: string | null; is_subrecipe?: boolean | null }
+
+function fmtQty(n: number) {
+  const v = Number.isFinite(n) ? n : 0
+  if (Math.abs(v) >= 100) return v.toFixed(0)
+  if (Math.abs(v) >= 10) return v.toFixed(1)
+  return String(Math.round(v * 1000) / 1000)
+}
+
+export default function WhereUsedPanel({
+  entries,
+  recipeById,
+  itemName,
+  onOpenRecipe,
+}: {
+  entries: WhereUsedEntry[]
+  recipeById: Map<string, RecipeRef>
+  /** Display name of the recipe/ingredient the panel is about (used for direct rows). */
+  itemName: string
+  onOpenRecipe?: (recipeId: string) => void
+}) {
+  const rows = useMemo(() => {
+    return [...entries].sort((a, b) => a.depth - b.depth || (recipeById.get(a.recipeId)?.name || '').localeCompare(recipeById.get(b.recipeId)?.name || ''))
+  }, [entries, recipeById])
+
+  const parentCount = useMemo(() => new Set(entries.map((e) => e.recipeId)).size, [entries])
+
+  return (
+    <div className="gc-wu">
+      <style>{`
+        .gc-wu { display: grid; gap: 8px; }
+        .gc-wu__meta { font-size: 12px; opacity: .7; }
+        .gc-wu__table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        .gc-wu__table th { text-align: left; font-weight: 600; font-size: 10px; letter-spacing: .04em; text-transform: uppercase; opacity: .6; padding: 6px 8px; border-bottom: 1px solid rgba(0,0,0,.08); }
+        .gc-wu__table td { padding: 6px 8px; border-bottom: 1px solid rgba(0,0,0,.05); vertical-align: top; }
+        .gc-wu__right { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+        .gc-wu__link { background: none; border: 0; padding: 0; color: inherit; font: inherit; font-weight: 600; cursor: pointer; text-align: left; }
+        .gc-wu__link:hover { text-decoration: underline; }
+        .gc-wu__depth { display: inline-block; min-width: 18px; padding: 1px 6px; border-radius: 999px; font-size: 10px; background: rgba(0,0,0,.06); text-align: center; }
+        .gc-wu__code { font-family: ui-monospace, monospace; font-size: 10px; opacity: .6; margin-left: 6px; }
+      `}</style>
+
+      {!rows.length ? (
+        <div className="gc-wu__meta">Not used in any recipe.</div>
+      ) : (
+        <>
+          <div className="gc-wu__meta">
+            Used by {parentCount} recipe{parentCount === 1 ? '' : 's'} ({entries.filter((e) => e.depth === 1).length} direct)
+          </div>
+          <table className="gc-wu__table">
+            <thead>
+              <tr>
+                <th>Recipe</th>
+                <th>Level</th>
+                <th>Uses</th>
+                <th className="gc-wu__right">Qty</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((e, idx) => {
+                const r = recipeById.get(e.recipeId)
+                const via = e.depth === 1 ? itemName : recipeById.get(e.viaId)?.name || 'Subrecipe'
+                return (
+                  <tr key={`${e.recipeId}-${e.viaId}-${idx}`}>
+                    <td>
+                      {onOpenRecipe ? (
+                        <button type="button" className="gc-wu__link" onClick={() => onOpenRecipe(e.recipeId)}>
+                          {r?.name || 'Recipe'}
+                        </button>
+                      ) : (
+                        <span>{r?.name || 'Recipe'}</span>
+                      )}
+                      {r?.code ? <span className="gc-wu__code">{r.code}</span> : null}
+                    </td>
+                    <td><span className="gc-wu__depth" title={e.depth === 1 ? 'Direct' : `Through ${e.depth - 1} subrecipe level(s)`}>{e.depth}</span></td>
+                    <td>{via}</td>
+                    <td className="gc-wu__right">{fmtQty(e.qty)} {e.unit}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useKitchen } from '../../lib/kitchen'
+import { isShareActive, listPublicShares, revokePublicShare, type PublicShare } from '../../lib/publicShare'
+import PublicSharesTable from './PublicSharesTable'
+
+/** Settings card: every public recipe link of the kitchen; owners can revoke. */
+export default function ActiveSharesSettings({ onSaved }: { onSaved?: (msg: string) => void }) {
+  const k = useKitchen()
+  const [shares, setShares] = useState<PublicShare[]>([])
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  useEffect(() => {
+    let alive = true
+    listPublicShares()
+      .then((s) => alive && setShares(s))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load shares'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const shown = useMemo(() => (showAll ? shares : shares.filter((s) => isShareActive(s))), [shares, showAll])
+
+  const revoke = async (s: PublicShare) => {
+    if (!confirm(`Revoke the link to "${s.recipe_name || 'recipe'}"? Anyone who has it will no longer be able to open it.`)) return
+    setBusyId(s.id)
+    setErr(null)
+    try {
+      const next = await revokePublicShare(s.id)
+      setShares((cur) => cur.map((x) => (x.id === next.id ? next : x)))
+      onSaved?.('Share revoked')
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to revoke')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="gc-card p-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="gc-label">PUBLIC SHARES</div>
+          <div className="mt-1 text-sm text-neutral-600">Read-only recipe links created from the recipe editor.{k.isOwner ? '' : ' Only owners can revoke.'}</div>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-neutral-600">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          Show revoked &amp; expired
+        </label>
+      </div>
+      {err && <div className="mt-3 text-sm text-red-600">{err}</div>}
+      <div className="mt-4">
+        {loading ? (
+          <div className="text-sm text-neutral-500">Loading…</div>
+        ) : (
+          <PublicSharesTable shares={shown} busyId={busyId} onRevoke={k.isOwner ? revoke : undefined} />
+        )}
+      </div>
+    </div>
+  )
+}
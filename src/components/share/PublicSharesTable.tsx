@@ -0,0 +1,73 @@
+import React from 'react'
+import { isShareActive, SHARE_REDACTION_LABELS, type PublicShare } from '../../lib/publicShare'
+
+function fmtDate(s: string | null) {
+  return s ? new Date(s).toLocaleString() : '—'
+}
+
+function statusOf(s: PublicShare) {
+  if (s.revoked_at) return { label: 'Revoked', cls: 'bg-neutral-100 text-neutral-500' }
+  if (!isShareActive(s)) return { label: 'Expired', cls: 'bg-amber-50 text-amber-700' }
+  return { label: 'Active', cls: 'bg-emerald-50 text-emerald-700' }
+}
+
+/** Share links with their state; revoke is offered on active rows when `onRevoke` is given. */
+export default function PublicSharesTable({
+  shares,
+  showRecipe = true,
+  busyId,
+  onRevoke,
+}: {
+  shares: PublicShare[]
+  showRecipe?: boolean
+  busyId?: string | null
+  onRevoke?: (share: PublicShare) => void
+}) {
+  if (!shares.length) return <div className="text-xs text-neutral-500">No share links.</div>
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-neutral-500">
+            {showRecipe && <th className="py-2">Recipe</th>}
+            <th className={showRecipe ? undefined : 'py-2'}>Label</th>
+            <th>Shows</th>
+            <th>Created</th>
+            <th>Expires</th>
+            <th className="text-right">Views</th>
+            <th>Status</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {shares.map((s) => {
+            const st = statusOf(s)
+            return (
+              <tr key={s.id} className="border-t border-neutral-200/60">
+                {showRecipe && <td className="py-2 font-semibold">{s.recipe_name || 'Recipe'}</td>}
+                <td className="py-2">{s.label || <span className="text-neutral-400">—</span>}</td>
+                <td className="text-xs">{SHARE_REDACTION_LABELS[s.redaction]}</td>
+                <td className="text-xs">{fmtDate(s.created_at)}</td>
+                <td className="text-xs">{s.expires_at ? fmtDate(s.expires_at) : 'Never'}</td>
+                <td className="text-right tabular-nums" title={s.last_viewed_at ? `Last viewed ${fmtDate(s.last_viewed_at)}` : undefined}>
+                  {s.view_count}
+                </td>
+                <td>
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${st.cls}`}>{st.label}</span>
+                </td>
+                <td className="text-right">
+                  {onRevoke && isShareActive(s) && (
+                    <button className="gc-btn gc-btn-ghost" type="button" disabled={busyId === s.id} onClick={() => onRevoke(s)}>
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
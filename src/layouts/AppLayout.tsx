@@ -336,6 +336,17 @@ export default function AppLayout() {
       { id: 'go-recipes', label: 'Go to Recipes', kbd: 'G R', run: () => navigate('/recipes') },
       { id: 'go-ingredients', label: 'Go to Ingredients', kbd: 'G I', run: () => navigate('/ingredients') },
       { id: 'go-recipe', label: 'Open Recipe Editor', kbd: 'G E', run: () => navigate('/recipe') },
+      { id: 'go-allergens', label: 'Go to Allergen Matrix', kbd: 'G A', run: () => navigate('/allergens') },
+      { id: 'go-cost-history', label: 'Go to Cost History', kbd: 'G H', run: () => navigate('/cost-history') },
+      { id: 'go-suppliers', label: 'Go to Suppliers', kbd: 'G U', run: () => navigate('/suppliers') },
+      { id: 'go-purchasing', label: 'Go to Purchase Orders', kbd: 'G O', run: () => navigate('/purchasing') },
+      { id: 'go-inventory', label: 'Go to Inventory', kbd: 'G V', run: () => navigate('/inventory') },
+      { id: 'go-production', label: 'Go to Production', kbd: 'G B', run: () => navigate('/production') },
+      { id: 'go-prep', label: 'Go to Prep Planner', kbd: 'G T', run: () => navigate('/prep') },
+      { id: 'go-waste', label: 'Go to Waste Log', kbd: 'G W', run: () => navigate('/waste') },
+      { id: 'go-sales', label: 'Go to Sales', kbd: 'G L', run: () => navigate('/sales') },
+      { id: 'go-menus', label: 'Go to Menus', kbd: 'G M', run: () => navigate('/menus') },
+      { id: 'go-quotes', label: 'Go to Catering Quotes', kbd: 'G Q', run: () => navigate('/quotes') },
       { id: 'go-cook', label: 'Open Cook Mode', kbd: 'G C', run: () => navigate('/cook') },
       { id: 'go-print', label: 'Open Print', kbd: 'G P', run: () => navigate('/print') },
       { id: 'go-settings', label: 'Go to Settings', kbd: 'G S', run: () => navigate('/settings') },
@@ -425,6 +436,17 @@ export default function AppLayout() {
                   <NavLink to="/dashboard" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Dashboard</NavLink>
                   <NavLink to="/ingredients" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Ingredients</NavLink>
                   <NavLink to="/recipes" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Recipes</NavLink>
+                  <NavLink to="/menus" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Menus</NavLink>
+                  <NavLink to="/quotes" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Quotes</NavLink>
+                  <NavLink to="/allergens" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Allergens</NavLink>
+                  <NavLink to="/cost-history" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Cost History</NavLink>
+                  <NavLink to="/suppliers" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Suppliers</NavLink>
+                  <NavLink to="/purchasing" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Purchasing</NavLink>
+                  <NavLink to="/inventory" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Inventory</NavLink>
+                  <NavLink to="/production" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Production</NavLink>
+                  <NavLink to="/prep" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Prep</NavLink>
+                  <NavLink to="/waste" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Waste</NavLink>
+                  <NavLink to="/sales" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Sales</NavLink>
                   <NavLink to="/settings" className={({ isActive }) => cx('gc-nav-item', isActive && 'is-active')}>Settings</NavLink>
                 </nav>
                 <div className="gc-tip">Tip: Kitchen for cooking · Mgmt for costing & pricing.</div>
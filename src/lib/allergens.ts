@@ -0,0 +1,159 @@
+// src/lib/allergens.ts
+import { supabase } from './supabase'
+
+export type AllergenDef = {
+  code: string
+  label: string
+  custom: boolean
+}
+
+export type AllergenLevel = 'contains' | 'may_contain'
+
+/** EU Regulation 1169/2011, Annex II. Codes are what gets stored in ingredients.allergens. */
+export const EU_ALLERGENS: AllergenDef[] = [
+  { code: 'gluten', label: 'Gluten', custom: false },
+  { code: 'crustaceans', label: 'Crustaceans', custom: false },
+  { code: 'eggs', label: 'Eggs', custom: false },
+  { code: 'fish', label: 'Fish', custom: false },
+  { code: 'peanuts', label: 'Peanuts', custom: false },
+  { code: 'soy', label: 'Soy', custom: false },
+  { code: 'milk', label: 'Milk', custom: false },
+  { code: 'nuts', label: 'Tree nuts', custom: false },
+  { code: 'celery', label: 'Celery', custom: false },
+  { code: 'mustard', label: 'Mustard', custom: false },
+  { code: 'sesame', label: 'Sesame', custom: false },
+  { code: 'sulphites', label: 'Sulphites', custom: false },
+  { code: 'lupin', label: 'Lupin', custom: false },
+  { code: 'molluscs', label: 'Molluscs', custom: false },
+]
+
+export type AllergenIngredient = {
+  id: string
+  allergens?: string[] | null
+  may_contain?: string[] | null
+}
+
+export type AllergenLine = {
+  recipe_id: string
+  ingredient_id?: string | null
+  sub_recipe_id?: string | null
+}
+
+export type AllergenProfile = {
+  contains: Set<string>
+  /** Never overlaps `contains`. */
+  mayContain: Set<string>
+}
+
+export function customAllergenCode(label: string) {
+  const slug = (label || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  return slug ? `x_${slug}`.slice(0, 40) : ''
+}
+
+export async function listAllergenDefs(): Promise<AllergenDef[]> {
+  const { data, error } = await supabase.from('custom_allergens').select('code,label').order('label', { ascending: true })
+  if (error) throw error
+  const custom = (data ?? []).map((r: any) => ({ code: String(r.code), label: String(r.label), custom: true }))
+  return [...EU_ALLERGENS, ...custom]
+}
+
+export async function addCustomAllergen(label: string): Promise<AllergenDef> {
+  const clean = (label || '').trim()
+  const code = customAllergenCode(clean)
+  if (!code) throw new Error('Allergen name is required.')
+  const { error } = await supabase.from('custom_allergens').insert({ code, label: clean })
+  if (error) throw error
+  return { code, label: clean, custom: true }
+}
+
+export async function deleteCustomAllergen(code: string) {
+  const { error } = await supabase.from('custom_allergens').delete().eq('code', code)
+  if (error) throw error
+}
+
+export function allergenLabel(defs: AllergenDef[], code: string) {
+  return defs.find((d) => d.code === code)?.label || code
+}
+
+/**
+ * Allergen profile of every recipe, inherited through recipe_lines (nested PREP recipes included).
+ * "May contain" is dropped wherever the same allergen is already a definite "contains".
+ */
+export function computeRecipeAllergens(args: { ingredients: AllergenIngredient[]; lines: AllergenLine[] }): Map<string, AllergenProfile> {
+  const ingById = new Map<string, AllergenIngredient>()
+  for (const i of args.ingredients || []) ingById.set(i.id, i)
+
+  const linesByRecipe = new Map<string, AllergenLine[]>()
+  for (const l of args.lines || []) {
+    if (!l?.recipe_id) continue
+    if (!linesByRecipe.has(l.recipe_id)) linesByRecipe.set(l.recipe_id, [])
+    linesByRecipe.get(l.recipe_id)!.push(l)
+  }
+
+  const memo = new Map<string, AllergenProfile>()
+  const visiting = new Set<string>()
+
+  const walk = (recipeId: string): AllergenProfile => {
+    const hit = memo.get(recipeId)
+    if (hit) return hit
+
+    const contains = new Set<string>()
+    const mayContain = new Set<string>()
+    visiting.add(recipeId)
+
+    for (const l of linesByRecipe.get(recipeId) ?? []) {
+      if (l.ingredient_id) {
+        const ing = ingById.get(l.ingredient_id)
+        for (const a of ing?.allergens ?? []) contains.add(a)
+        for (const a of ing?.may_contain ?? []) mayContain.add(a)
+      } else if (l.sub_recipe_id && !visiting.has(l.sub_recipe_id)) {
+        const sub = walk(l.sub_recipe_id)
+        sub.contains.forEach((a) => contains.add(a))
+        sub.mayContain.forEach((a) => mayContain.add(a))
+      }
+    }
+
+    visiting.delete(recipeId)
+    contains.forEach((a) => mayContain.delete(a))
+    const res = { contains, mayContain }
+    memo.set(recipeId, res)
+    return res
+  }
+
+  for (const rid of linesByRecipe.keys()) walk(rid)
+  return memo
+}
+
+export function allergenLevel(profile: AllergenProfile | undefined, code: string): AllergenLevel | null {
+  if (!profile) return null
+  if (profile.contains.has(code)) return 'contains'
+  if (profile.mayContain.has(code)) return 'may_contain'
+  return null
+}
+
+export type DietaryFlag = {
+  code: string
+  label: string
+  /** allergen codes that must be absent (neither contains nor may contain) */
+  excludes: string[]
+}
+
+/** "Free-from" claims that follow from the allergen data alone. */
+export const DIETARY_FLAGS: DietaryFlag[] = [
+  { code: 'gluten_free', label: 'Gluten-free', excludes: ['gluten'] },
+  { code: 'dairy_free', label: 'Dairy-free', excludes: ['milk'] },
+  { code: 'egg_free', label: 'Egg-free', excludes: ['eggs'] },
+  { code: 'nut_free', label: 'Nut-free', excludes: ['nuts', 'peanuts'] },
+  { code: 'soy_free', label: 'Soy-free', excludes: ['soy'] },
+  { code: 'shellfish_free', label: 'Shellfish-free', excludes: ['crustaceans', 'molluscs'] },
+]
+
+/** Flags a recipe qualifies for. A recipe without any allergen profile gets none. */
+export function dietaryFlags(profile: AllergenProfile | undefined): DietaryFlag[] {
+  if (!profile) return []
+  return DIETARY_FLAGS.filter((f) => f.excludes.every((a) => allergenLevel(profile, a) == null))
+}
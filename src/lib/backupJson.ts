@@ -1,5 +1,39 @@
 // src/lib/backupJson.ts
 import { supabase } from './supabase'
+import { buildRecipeGraph, findCycle } from './recipeGraph'
+import { tryRecordIngredientCostChanges, type IngredientCostChange } from './costHistory'
+
+/**
+ * Kitchen backup and restore.
+ *
+ * gc_backup_v2 carries every column of ingredients, recipes and recipe_lines (`select *`) except
+ * what the database owns: ids, kitchen_id and timestamps. Each row keeps its source id as `ref`,
+ * and lines point at `ingredient_ref` / `sub_recipe_ref`, so nothing inside the file is matched
+ * by name.
+ *
+ * On import, rows match the kitchen's rows by code first, then by name. `policy` decides what a
+ * match does:
+ *   skip       keep the kitchen's row; lines in the file that use it point at it
+ *   overwrite  update it in place (code fields untouched); a recipe's lines are replaced
+ *              (the new ones are written before the old ones are removed)
+ *   duplicate  insert a copy under a free name, with a fresh code
+ * Recipes are written sub-recipes first, each with its lines, so a parent never points at a
+ * half-written sub-recipe. `dryRun` plans the same way and writes nothing. Overwritten
+ * ingredients whose net_unit_cost moves get cost history points once everything is written.
+ *
+ * gc_backup_v1 files (ingredients and sub-recipes referenced by name) are read into the v2 shape
+ * and keep importing; names not found in the file fall back to the kitchen's own rows.
+ */
+
+type Row = Record<string, any>
+
+export type BackupConflictPolicy = 'skip' | 'overwrite' | 'duplicate'
+
+export const BACKUP_POLICY_LABELS: Record<BackupConflictPolicy, string> = {
+  skip: 'Keep existing',
+  overwrite: 'Overwrite existing',
+  duplicate: 'Import as copies',
+}
 
 type BackupV1 = {
   version: 'gc_backup_v1'
@@ -9,6 +43,50 @@ type BackupV1 = {
   recipes: Array<any>
 }
 
+export type BackupIngredient = Row & { ref: string }
+export type BackupLine = Row & { ingredient_ref: string | null; sub_recipe_ref: string | null }
+export type BackupRecipe = Row & { ref: string; lines: BackupLine[] }
+
+export type BackupV2 = {
+  version: 'gc_backup_v2'
+  exportedAt: string
+  kitchenName?: string
+  ingredients: BackupIngredient[]
+  recipes: BackupRecipe[]
+}
+
+export type BackupAction = 'create' | 'update' | 'skip' | 'duplicate'
+
+export type BackupPlanItem = {
+  kind: 'ingredient' | 'recipe'
+  ref: string
+  name: string
+  action: BackupAction
+  /** The kitchen already has this row (by code or name). */
+  conflict: boolean
+  matchedBy: 'code' | 'name' | null
+  targetId: string | null
+  /** Recipe lines that will be written. */
+  lines: number
+}
+
+export type BackupImportReport = {
+  version: 'gc_backup_v1' | 'gc_backup_v2'
+  policy: BackupConflictPolicy
+  dryRun: boolean
+  items: BackupPlanItem[]
+  counts: { creates: number; updates: number; skips: number; duplicates: number; conflicts: number; lines: number }
+  warnings: string[]
+  /** Set when the import was written but the cost history of overwritten ingredients was not. */
+  historyError: string | null
+}
+
+// Columns the database owns; never exported, never written back.
+const OWNED_COLUMNS = ['id', 'kitchen_id', 'created_at', 'updated_at']
+const OWNED_LINE_COLUMNS = [...OWNED_COLUMNS, 'recipe_id', 'ingredient_id', 'sub_recipe_id']
+// Unique / owner-only: kept on create when free, never changed on overwrite.
+const CODE_COLUMNS = ['code', 'code_category']
+
 function safeName(s: any) {
   return String(s ?? '').trim()
 }
@@ -21,286 +99,412 @@ function uniqName(existing: Set<string>, base: string) {
   return `${clean} (${n})`
 }
 
-export async function exportKitchenBackup(kitchenId: string, kitchenName?: string): Promise<BackupV1> {
-  // Ingredients
-  const { data: ing, error: ie } = await supabase
-    .from('ingredients')
-    .select('id,name,pack_unit,pack_size,pack_price,net_unit_cost,is_active')
-    .eq('kitchen_id', kitchenId)
-    .order('name', { ascending: true })
-  if (ie) throw ie
-
-  // Recipes
-  const { data: rec, error: re } = await supabase
-    .from('recipes')
-    .select(
-      'id,name,category,portions,yield_qty,yield_unit,is_subrecipe,is_archived,photo_url,description,method,calories,protein_g,carbs_g,fat_g,selling_price,currency,target_food_cost_pct'
+function omit(row: Row, keys: string[]): Row {
+  const out: Row = {}
+  for (const [k, v] of Object.entries(row || {})) if (!keys.includes(k)) out[k] = v
+  return out
+}
+
+const nameRef = (s: any) => `name:${safeName(s).toLowerCase()}`
+
+/** Sub-recipe lines reference recipes by ref; returns the first loop found (by name). */
+function findBackupCycle(recipesIn: BackupRecipe[]): string[] | null {
+  const displayName = new Map<string, string>()
+  const edges: Array<{ recipe_id: string; sub_recipe_id: string }> = []
+  for (const r of recipesIn) displayName.set(r.ref, safeName(r.name) || r.ref)
+  for (const r of recipesIn) {
+    for (const l of r.lines) {
+      if (l.sub_recipe_ref && displayName.has(l.sub_recipe_ref)) edges.push({ recipe_id: r.ref, sub_recipe_id: l.sub_recipe_ref })
+    }
+  }
+  const cycle = findCycle(buildRecipeGraph(edges))
+  return cycle ? cycle.map((k) => displayName.get(k) || k) : null
+}
+
+/** Sub-recipes before the recipes that use them (file must be cycle-free). */
+function dependencyOrder(recipesIn: BackupRecipe[]): BackupRecipe[] {
+  const byRef = new Map(recipesIn.map((r) => [r.ref, r]))
+  const done = new Set<string>()
+  const out: BackupRecipe[] = []
+  const visit = (r: BackupRecipe) => {
+    if (done.has(r.ref)) return
+    done.add(r.ref)
+    for (const l of r.lines) {
+      const sub = l.sub_recipe_ref ? byRef.get(l.sub_recipe_ref) : undefined
+      if (sub) visit(sub)
+    }
+    out.push(r)
+  }
+  recipesIn.forEach(visit)
+  return out
+}
+
+/* ---------------- Export ---------------- */
+
+const PAGE_SIZE = 1000
+const ID_CHUNK = 200
+
+/** Every row of a query, PAGE_SIZE at a time (a single select stops at the API row limit). */
+async function selectAll(query: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>): Promise<any[]> {
+  const out: any[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    const rows = data ?? []
+    out.push(...rows)
+    if (rows.length < PAGE_SIZE) break
+  }
+  return out
+}
+
+export async function exportKitchenBackup(kitchenId: string, kitchenName?: string): Promise<BackupV2> {
+  const [ingredients, recipes] = await Promise.all([
+    selectAll((from, to) =>
+      supabase.from('ingredients').select('*').eq('kitchen_id', kitchenId).order('name', { ascending: true }).order('id', { ascending: true }).range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabase
+        .from('recipes')
+        .select('*')
+        .eq('kitchen_id', kitchenId)
+        .order('is_archived', { ascending: true })
+        .order('name', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+  ])
+
+  // Recipe ids go in chunks so the `in` filter stays short; each chunk is paged.
+  const recipeIds = recipes.map((r: any) => String(r.id))
+  const lines: any[] = []
+  for (let i = 0; i < recipeIds.length; i += ID_CHUNK) {
+    const ids = recipeIds.slice(i, i + ID_CHUNK)
+    lines.push(
+      ...(await selectAll((from, to) =>
+        supabase
+          .from('recipe_lines')
+          .select('*')
+          .in('recipe_id', ids)
+          .order('recipe_id', { ascending: true })
+          .order('position', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      ))
     )
-    .eq('kitchen_id', kitchenId)
-    .order('is_archived', { ascending: true })
-    .order('name', { ascending: true })
-  if (re) throw re
-
-  const ingById = new Map<string, any>()
-  ;(ing ?? []).forEach((x: any) => ingById.set(String(x.id), x))
-
-  const recById = new Map<string, any>()
-  ;(rec ?? []).forEach((x: any) => recById.set(String(x.id), x))
-
-  const recipeIds = (rec ?? []).map((r: any) => String(r.id))
-  let lines: any[] = []
-  if (recipeIds.length) {
-    const { data: l, error: le } = await supabase
-      .from('recipe_lines')
-      .select('id,recipe_id,ingredient_id,sub_recipe_id,qty,unit,yield_percent,notes,gross_qty_override,position,line_type,group_title')
-      .in('recipe_id', recipeIds)
-      .order('position', { ascending: true })
-    if (le) throw le
-    lines = (l ?? []) as any[]
   }
 
-  const linesByRecipe: Record<string, any[]> = {}
+  const linesByRecipe: Record<string, BackupLine[]> = {}
   for (const l of lines) {
     const rid = String(l.recipe_id)
     if (!linesByRecipe[rid]) linesByRecipe[rid] = []
-    linesByRecipe[rid].push(l)
-  }
-
-  const recipesOut = (rec ?? []).map((r: any) => {
-    const rid = String(r.id)
-    const lns = (linesByRecipe[rid] ?? []).map((l: any) => {
-      const ingName = l.ingredient_id ? safeName(ingById.get(String(l.ingredient_id))?.name) : ''
-      const subName = l.sub_recipe_id ? safeName(recById.get(String(l.sub_recipe_id))?.name) : ''
-      return {
-        line_type: l.line_type,
-        position: l.position,
-        group_title: l.group_title ?? null,
-        ingredient_name: ingName || null,
-        sub_recipe_name: subName || null,
-        qty: l.qty,
-        unit: l.unit,
-        yield_percent: l.yield_percent,
-        notes: l.notes ?? null,
-        gross_qty_override: l.gross_qty_override ?? null
-      }
+    linesByRecipe[rid].push({
+      ...omit(l, OWNED_LINE_COLUMNS),
+      ingredient_ref: l.ingredient_id ? String(l.ingredient_id) : null,
+      sub_recipe_ref: l.sub_recipe_id ? String(l.sub_recipe_id) : null,
     })
-
-    return {
-      name: r.name,
-      category: r.category ?? null,
-      portions: r.portions,
-      yield_qty: r.yield_qty ?? null,
-      yield_unit: r.yield_unit ?? null,
-      is_subrecipe: !!r.is_subrecipe,
-      is_archived: !!r.is_archived,
-      photo_url: r.photo_url ?? null,
-      description: r.description ?? null,
-      method: r.method ?? null,
-      calories: r.calories ?? null,
-      protein_g: r.protein_g ?? null,
-      carbs_g: r.carbs_g ?? null,
-      fat_g: r.fat_g ?? null,
-      selling_price: r.selling_price ?? null,
-      currency: r.currency ?? null,
-      target_food_cost_pct: r.target_food_cost_pct ?? null,
-      lines: lns
-    }
-  })
+  }
 
   return {
-    version: 'gc_backup_v1',
+    version: 'gc_backup_v2',
     exportedAt: new Date().toISOString(),
     kitchenName,
-    ingredients: (ing ?? []).map((i: any) => ({
-      name: i.name,
-      pack_unit: i.pack_unit ?? null,
-      pack_size: i.pack_size ?? null,
-      pack_price: i.pack_price ?? null,
-      net_unit_cost: i.net_unit_cost ?? null,
-      is_active: i.is_active !== false
+    ingredients: ingredients.map((i: any) => ({ ...omit(i, OWNED_COLUMNS), ref: String(i.id) })),
+    recipes: recipes.map((r: any) => ({
+      ...omit(r, OWNED_COLUMNS),
+      ref: String(r.id),
+      lines: linesByRecipe[String(r.id)] ?? [],
     })),
-    recipes: recipesOut
   }
 }
 
-export async function importKitchenBackup(kitchenId: string, backup: any): Promise<{ createdIngredients: number; createdRecipes: number; createdLines: number }>{
-  if (!backup || backup.version !== 'gc_backup_v1') {
-    throw new Error('Unsupported backup file (expected gc_backup_v1).')
-  }
-
-  const ingredientsIn: any[] = Array.isArray(backup.ingredients) ? backup.ingredients : []
-  const recipesIn: any[] = Array.isArray(backup.recipes) ? backup.recipes : []
+/* ---------------- Import ---------------- */
 
-  // 1) Ensure ingredients exist (match by name)
-  const { data: existingIng, error: eIng } = await supabase
-    .from('ingredients')
-    .select('id,name')
-    .eq('kitchen_id', kitchenId)
-  if (eIng) throw eIng
-
-  const nameToIngId = new Map<string, string>()
-  ;(existingIng ?? []).forEach((r: any) => {
-    const n = safeName(r.name).toLowerCase()
-    if (n) nameToIngId.set(n, String(r.id))
-  })
-
-  const ingToInsert = ingredientsIn
-    .map((i) => ({
-      kitchen_id: kitchenId,
-      name: safeName(i.name),
-      pack_unit: i.pack_unit ?? null,
-      pack_size: i.pack_size ?? null,
-      pack_price: i.pack_price ?? null,
-      net_unit_cost: i.net_unit_cost ?? null,
-      is_active: i.is_active !== false
-    }))
-    .filter((i) => i.name && !nameToIngId.has(i.name.toLowerCase()))
-
-  let createdIngredients = 0
-  if (ingToInsert.length) {
-    const { data, error } = await supabase.from('ingredients').insert(ingToInsert as any).select('id,name')
-    if (error) throw error
-    createdIngredients = (data ?? []).length
-    ;(data ?? []).forEach((r: any) => {
-      const n = safeName(r.name).toLowerCase()
-      if (n) nameToIngId.set(n, String(r.id))
-    })
+function fromV1(b: BackupV1): BackupV2 {
+  return {
+    version: 'gc_backup_v2',
+    exportedAt: b.exportedAt,
+    kitchenName: b.kitchenName,
+    ingredients: (Array.isArray(b.ingredients) ? b.ingredients : []).map((i) => ({ ...i, ref: nameRef(i?.name) })),
+    recipes: (Array.isArray(b.recipes) ? b.recipes : []).map((r) => {
+      const { lines, ...rest } = r ?? {}
+      return {
+        ...rest,
+        ref: nameRef(r?.name),
+        lines: (Array.isArray(lines) ? lines : []).map((l: any) => {
+          const { ingredient_name, sub_recipe_name, ...line } = l ?? {}
+          return {
+            ...line,
+            ingredient_ref: safeName(ingredient_name) ? nameRef(ingredient_name) : null,
+            sub_recipe_ref: safeName(sub_recipe_name) ? nameRef(sub_recipe_name) : null,
+          }
+        }),
+      }
+    }),
   }
+}
 
-  // 2) Create recipes (avoid overwriting by using unique names)
-  const { data: existingRec, error: eRec } = await supabase
-    .from('recipes')
-    .select('id,name')
-    .eq('kitchen_id', kitchenId)
-  if (eRec) throw eRec
-
-  const usedNames = new Set<string>()
-  ;(existingRec ?? []).forEach((r: any) => usedNames.add(safeName(r.name).toLowerCase()))
+function readBackup(backup: any): { version: BackupImportReport['version']; data: BackupV2 } {
+  if (backup?.version === 'gc_backup_v2') {
+    return {
+      version: 'gc_backup_v2',
+      data: {
+        ...backup,
+        ingredients: Array.isArray(backup.ingredients) ? backup.ingredients : [],
+        recipes: (Array.isArray(backup.recipes) ? backup.recipes : []).map((r: any) => ({ ...r, lines: Array.isArray(r?.lines) ? r.lines : [] })),
+      },
+    }
+  }
+  if (backup?.version === 'gc_backup_v1') return { version: 'gc_backup_v1', data: fromV1(backup) }
+  throw new Error('Unsupported backup file (expected gc_backup_v2 or gc_backup_v1).')
+}
 
-  const createdRecipeIdByName = new Map<string, string>()
-  let createdRecipes = 0
-  let createdLines = 0
+type Existing = { byId: Map<string, Row>; byCode: Map<string, string>; byName: Map<string, string>; names: Set<string> }
+
+function indexExisting(rows: Row[]): Existing {
+  const e: Existing = { byId: new Map(), byCode: new Map(), byName: new Map(), names: new Set() }
+  for (const r of rows) {
+    const id = String(r.id)
+    const code = safeName(r.code).toUpperCase()
+    const name = safeName(r.name).toLowerCase()
+    e.byId.set(id, r)
+    if (code && !e.byCode.has(code)) e.byCode.set(code, id)
+    if (name && !e.byName.has(name)) e.byName.set(name, id)
+    if (name) e.names.add(name)
+  }
+  return e
+}
 
-  // First pass: create all recipes
-  const recipeNameMap: Array<{ inputName: string; createdName: string; createdId: string; isSub: boolean }> = []
+function planRow(
+  kind: BackupPlanItem['kind'],
+  row: Row & { ref: string },
+  existing: Existing,
+  policy: BackupConflictPolicy
+): BackupPlanItem {
+  const code = safeName(row.code).toUpperCase()
+  const byCode = code ? existing.byCode.get(code) : undefined
+  const byName = existing.byName.get(safeName(row.name).toLowerCase())
+  const targetId = byCode ?? byName ?? null
+  const action: BackupAction = !targetId ? 'create' : policy === 'skip' ? 'skip' : policy === 'overwrite' ? 'update' : 'duplicate'
+  return {
+    kind,
+    ref: row.ref,
+    name: safeName(row.name) || (kind === 'recipe' ? 'Imported Recipe' : 'Imported Ingredient'),
+    action,
+    conflict: !!targetId,
+    matchedBy: byCode ? 'code' : byName ? 'name' : null,
+    targetId: action === 'create' || action === 'duplicate' ? null : targetId,
+    lines: 0,
+  }
+}
 
-  for (const r of recipesIn) {
-    const inputName = safeName(r.name) || 'Imported Recipe'
-    const createdName = uniqName(usedNames, inputName)
-    usedNames.add(createdName.toLowerCase())
+/** Inserts a row; when its code is taken elsewhere (codes are unique across kitchens) it gets a fresh one. */
+async function insertRow(table: 'ingredients' | 'recipes', payload: Row): Promise<string> {
+  let res = await supabase.from(table).insert(payload).select('id').single()
+  if (res.error?.code === '23505' && payload.code) {
+    res = await supabase.from(table).insert({ ...payload, code: null }).select('id').single()
+  }
+  if (res.error) throw res.error
+  return String((res.data as any)?.id)
+}
 
-    const payload: any = {
-      kitchen_id: kitchenId,
-      name: createdName,
-      category: r.category ?? null,
-      portions: Number.isFinite(Number(r.portions)) ? Number(r.portions) : 1,
-      yield_qty: r.yield_qty ?? null,
-      yield_unit: r.yield_unit ?? null,
-      is_subrecipe: !!r.is_subrecipe,
-      is_archived: !!r.is_archived,
-      photo_url: r.photo_url ?? null,
-      description: r.description ?? null,
-      method: r.method ?? null,
-      calories: r.calories ?? null,
-      protein_g: r.protein_g ?? null,
-      carbs_g: r.carbs_g ?? null,
-      fat_g: r.fat_g ?? null,
-      selling_price: r.selling_price ?? null,
-      currency: r.currency ?? null,
-      target_food_cost_pct: r.target_food_cost_pct ?? null
+function linePayload(l: BackupLine, idx: number, recipeId: string, ingredientId: string | null, subRecipeId: string | null) {
+  const base = omit(l, [...OWNED_LINE_COLUMNS, 'ingredient_ref', 'sub_recipe_ref'])
+  const position = Number.isFinite(Number(l.position)) ? Number(l.position) : idx + 1
+  const lt = String(l.line_type || (l.sub_recipe_ref ? 'subrecipe' : 'ingredient'))
+  if (lt === 'group') {
+    return {
+      ...base,
+      recipe_id: recipeId,
+      ingredient_id: null,
+      sub_recipe_id: null,
+      qty: 0,
+      unit: safeName(l.unit) || 'g',
+      yield_percent: 100,
+      position,
+      line_type: 'group',
+      group_title: l.group_title ?? 'Group',
     }
+  }
+  return {
+    ...base,
+    recipe_id: recipeId,
+    ingredient_id: lt === 'subrecipe' ? null : ingredientId,
+    sub_recipe_id: lt === 'subrecipe' ? subRecipeId : null,
+    qty: Number(l.qty ?? 0) || 0,
+    unit: safeName(l.unit) || 'g',
+    yield_percent: Number(l.yield_percent ?? 100) || 100,
+    notes: l.notes ?? null,
+    gross_qty_override: l.gross_qty_override ?? null,
+    position,
+    line_type: lt === 'subrecipe' ? 'subrecipe' : 'ingredient',
+  }
+}
 
-    const { data, error } = await supabase.from('recipes').insert(payload).select('id').single()
-    if (error) throw error
-    const createdId = String((data as any)?.id)
-
-    createdRecipes += 1
-    createdRecipeIdByName.set(createdName.toLowerCase(), createdId)
-    recipeNameMap.push({ inputName, createdName, createdId, isSub: !!r.is_subrecipe })
+export async function importKitchenBackup(
+  kitchenId: string,
+  backup: any,
+  opts: { policy?: BackupConflictPolicy; dryRun?: boolean } = {}
+): Promise<BackupImportReport> {
+  const policy = opts.policy ?? 'skip'
+  const dryRun = !!opts.dryRun
+  const { version, data } = readBackup(backup)
+  const ingredientsIn = data.ingredients.filter((i) => safeName(i.name))
+  const recipesIn = data.recipes
+
+  // 0) Refuse files whose subrecipe references loop (nothing is written yet)
+  const cycle = findBackupCycle(recipesIn)
+  if (cycle) {
+    throw new Error(`Backup contains a circular subrecipe reference: ${cycle.join(' → ')}`)
   }
 
-  // Helper: resolve sub-recipe by name from imported file (best effort)
-  const resolveSubRecipeId = (subName: any) => {
-    const s = safeName(subName).toLowerCase()
-    if (!s) return null
-    // Try exact created names first
-    for (const m of recipeNameMap) {
-      if (m.createdName.toLowerCase() === s) return m.createdId
+  // 1) What the kitchen already has
+  const [ingEx, recEx, roles] = await Promise.all([
+    selectAll((from, to) =>
+      supabase.from('ingredients').select('id,code,name,net_unit_cost').eq('kitchen_id', kitchenId).order('name', { ascending: true }).order('id', { ascending: true }).range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabase.from('recipes').select('id,code,name').eq('kitchen_id', kitchenId).order('name', { ascending: true }).order('id', { ascending: true }).range(from, to)
+    ),
+    supabase.from('labor_roles').select('id'),
+  ])
+  if (roles.error) throw roles.error
+  const ingredients = indexExisting(ingEx)
+  const recipes = indexExisting(recEx)
+  const roleIds = new Set((roles.data ?? []).map((r: any) => String(r.id)))
+
+  // 2) Plan. Refs resolve to the file's own rows first, then (v1 names) to the kitchen's.
+  const warnings: string[] = []
+  const ingPlan = ingredientsIn.map((i) => planRow('ingredient', i, ingredients, policy))
+  const ordered = dependencyOrder(recipesIn)
+  const recPlan = ordered.map((r) => planRow('recipe', r, recipes, policy))
+
+  const ingRefs = new Set(ingredientsIn.map((i) => i.ref))
+  const recRefs = new Set(recipesIn.map((r) => r.ref))
+  const kitchenFallback = (ref: string | null, existing: Existing) =>
+    ref && ref.startsWith('name:') ? existing.byName.get(ref.slice(5)) ?? null : null
+  const canResolve = (ref: string | null, refs: Set<string>, existing: Existing) =>
+    !!ref && (refs.has(ref) || !!kitchenFallback(ref, existing))
+
+  ordered.forEach((r, idx) => {
+    const item = recPlan[idx]
+    if (item.action === 'skip') return
+    for (const l of r.lines) {
+      const lt = String(l.line_type || (l.sub_recipe_ref ? 'subrecipe' : 'ingredient'))
+      const ok =
+        lt === 'group' ||
+        (lt === 'subrecipe' ? canResolve(l.sub_recipe_ref, recRefs, recipes) : canResolve(l.ingredient_ref, ingRefs, ingredients))
+      if (ok) item.lines += 1
+      else warnings.push(`${item.name}: dropped a ${lt === 'subrecipe' ? 'sub-recipe' : 'ingredient'} line that points at nothing in the file or the kitchen.`)
     }
-    // Try matching input names
-    for (const m of recipeNameMap) {
-      if (m.inputName.toLowerCase() === s) return m.createdId
+  })
+
+  const items = [...ingPlan, ...recPlan]
+  const report: BackupImportReport = {
+    version,
+    policy,
+    dryRun,
+    items,
+    counts: {
+      creates: items.filter((x) => x.action === 'create').length,
+      updates: items.filter((x) => x.action === 'update').length,
+      skips: items.filter((x) => x.action === 'skip').length,
+      duplicates: items.filter((x) => x.action === 'duplicate').length,
+      conflicts: items.filter((x) => x.conflict).length,
+      lines: recPlan.reduce((s, x) => s + x.lines, 0),
+    },
+    warnings,
+    historyError: null,
+  }
+  if (dryRun) return report
+
+  // 3) Ingredients
+  const ingIdByRef = new Map<string, string>()
+  const costChanges: IngredientCostChange[] = []
+  for (let i = 0; i < ingredientsIn.length; i += 1) {
+    const row = ingredientsIn[i]
+    const item = ingPlan[i]
+    const payload = { ...omit(row, [...OWNED_COLUMNS, 'ref']), kitchen_id: kitchenId, name: item.name }
+    if (item.action === 'skip') {
+      ingIdByRef.set(row.ref, item.targetId!)
+    } else if (item.action === 'update') {
+      const { data: after, error } = await supabase
+        .from('ingredients')
+        .update(omit(payload, CODE_COLUMNS))
+        .eq('id', item.targetId!)
+        .select('net_unit_cost')
+        .single()
+      if (error) throw error
+      const before = ingredients.byId.get(item.targetId!)?.net_unit_cost
+      costChanges.push({ id: item.targetId!, before: before == null ? null : Number(before), after: after?.net_unit_cost == null ? null : Number(after.net_unit_cost) })
+      ingIdByRef.set(row.ref, item.targetId!)
+    } else {
+      const name = item.action === 'duplicate' ? uniqName(ingredients.names, item.name) : item.name
+      ingredients.names.add(name.toLowerCase())
+      const id = await insertRow('ingredients', { ...payload, name, ...(item.action === 'duplicate' ? { code: null } : {}) })
+      item.targetId = id
+      ingIdByRef.set(row.ref, id)
     }
-    return null
   }
 
-  // Second pass: create lines for each recipe
-  for (let i = 0; i < recipesIn.length; i += 1) {
-    const r = recipesIn[i]
-    const createdId = recipeNameMap[i]?.createdId
-    if (!createdId) continue
-
-    const linesIn: any[] = Array.isArray(r.lines) ? r.lines : []
-    const payload = linesIn
-      .map((l, idx) => {
-        const lt = String(l.line_type || 'ingredient')
-        if (lt === 'group') {
-          return {
-            recipe_id: createdId,
-            ingredient_id: null,
-            sub_recipe_id: null,
-            qty: 0,
-            unit: 'g',
-            yield_percent: 100,
-            notes: null,
-            gross_qty_override: null,
-            position: Number.isFinite(Number(l.position)) ? Number(l.position) : idx + 1,
-            line_type: 'group',
-            group_title: l.group_title ?? 'Group'
-          }
-        }
+  // 4) Recipes, sub-recipes first, each with its lines
+  const recIdByRef = new Map<string, string>()
+  const resolve = (ref: string | null, byRef: Map<string, string>, existing: Existing) =>
+    ref ? byRef.get(ref) ?? kitchenFallback(ref, existing) : null
+
+  for (let i = 0; i < ordered.length; i += 1) {
+    const row = ordered[i]
+    const item = recPlan[i]
+    if (item.action === 'skip') {
+      recIdByRef.set(row.ref, item.targetId!)
+      continue
+    }
 
-        if (lt === 'subrecipe') {
-          const subId = resolveSubRecipeId(l.sub_recipe_name)
-          return {
-            recipe_id: createdId,
-            ingredient_id: null,
-            sub_recipe_id: subId,
-            qty: Number(l.qty ?? 0) || 0,
-            unit: safeName(l.unit) || 'g',
-            yield_percent: Number(l.yield_percent ?? 100) || 100,
-            notes: l.notes ?? null,
-            gross_qty_override: l.gross_qty_override ?? null,
-            position: Number.isFinite(Number(l.position)) ? Number(l.position) : idx + 1,
-            line_type: 'subrecipe',
-            group_title: l.group_title ?? null
-          }
-        }
-
-        // ingredient
-        const ingId = l.ingredient_name ? nameToIngId.get(safeName(l.ingredient_name).toLowerCase()) : null
-        return {
-          recipe_id: createdId,
-          ingredient_id: ingId ?? null,
-          sub_recipe_id: null,
-          qty: Number(l.qty ?? 0) || 0,
-          unit: safeName(l.unit) || 'g',
-          yield_percent: Number(l.yield_percent ?? 100) || 100,
-          notes: l.notes ?? null,
-          gross_qty_override: l.gross_qty_override ?? null,
-          position: Number.isFinite(Number(l.position)) ? Number(l.position) : idx + 1,
-          line_type: 'ingredient',
-          group_title: l.group_title ?? null
-        }
-      })
-      .filter((x) => x.line_type !== 'ingredient' || x.ingredient_id) // only keep ingredient lines if resolved
-
-    if (payload.length) {
-      const { error } = await supabase.from('recipe_lines').insert(payload as any)
+    const payload: Row = {
+      ...omit(row, [...OWNED_COLUMNS, 'ref', 'lines']),
+      kitchen_id: kitchenId,
+      name: item.name,
+      portions: Number.isFinite(Number(row.portions)) && Number(row.portions) > 0 ? Number(row.portions) : 1,
+    }
+    // Labor roles are not part of the backup; keep the link only when the role exists here.
+    for (const k of ['prep_role_id', 'cook_role_id']) {
+      if (k in payload && payload[k] && !roleIds.has(String(payload[k]))) payload[k] = null
+    }
+
+    let recipeId: string
+    let replacedLineIds: string[] = []
+    if (item.action === 'update') {
+      recipeId = item.targetId!
+      const { error } = await supabase.from('recipes').update(omit(payload, CODE_COLUMNS)).eq('id', recipeId)
+      if (error) throw error
+      // Old lines go only after the new ones are in, so a failed insert leaves the recipe as it was.
+      const { data: old, error: oldErr } = await supabase.from('recipe_lines').select('id').eq('recipe_id', recipeId)
+      if (oldErr) throw oldErr
+      replacedLineIds = (old ?? []).map((l: any) => String(l.id))
+    } else {
+      const name = item.action === 'duplicate' ? uniqName(recipes.names, item.name) : item.name
+      recipes.names.add(name.toLowerCase())
+      recipeId = await insertRow('recipes', { ...payload, name, ...(item.action === 'duplicate' ? { code: null } : {}) })
+      item.targetId = recipeId
+    }
+    recIdByRef.set(row.ref, recipeId)
+
+    const lines = row.lines
+      .map((l, idx) =>
+        linePayload(l, idx, recipeId, resolve(l.ingredient_ref, ingIdByRef, ingredients), resolve(l.sub_recipe_ref, recIdByRef, recipes))
+      )
+      .filter((l) => l.line_type === 'group' || l.ingredient_id || l.sub_recipe_id)
+    if (lines.length) {
+      const { error } = await supabase.from('recipe_lines').insert(lines as any)
       if (error) throw error
-      createdLines += payload.length
+    }
+    for (let j = 0; j < replacedLineIds.length; j += ID_CHUNK) {
+      const { error } = await supabase.from('recipe_lines').delete().in('id', replacedLineIds.slice(j, j + ID_CHUNK))
+      if (error) throw new Error(`${item.name}: new lines were added but the old ones could not be removed: ${error.message}`)
     }
   }
 
-  return { createdIngredients, createdRecipes, createdLines }
+  // 5) Cost history, against the recipes as imported
+  if (costChanges.length) report.historyError = (await tryRecordIngredientCostChanges(costChanges)).error
+
+  return report
 }
@@ -3,7 +3,7 @@
 // These are DISPLAY codes derived from UUIDs until you add real DB `code` columns.
 // Safe: does not touch business logic or Supabase schema.
 
-export type CodeKind = 'ING' | 'PREP' | 'MENU' | 'SUP' | 'PO' | 'WH' | 'PROD' | 'WASTE' | 'SALE'
+export type CodeKind = 'ING' | 'PREP' | 'MENU' | 'SUP' | 'PO' | 'WH' | 'PROD' | 'WASTE' | 'SALE' | 'CARD' | 'QUO'
 
 export function shortId(id: string, len = 6) {
   const s = (id || '').replace(/[^a-f0-9]/gi, '')
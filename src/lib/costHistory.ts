@@ -1,137 +1,153 @@
+// src/lib/costHistory.ts
+import { supabase } from './supabase'
+import { getIngredientsCached, invalidateIngredientsCache } from './ingredientsCache'
+import { createCostingEngine, loadCostingLines } from './recipeCosting'
+import { buildRecipeGraph, whereUsedIngredient } from './recipeGraph'
+
+/**
+ * Recipe cost over time (table cost_history).
+ * Points are captured automatically when an ingredient's net_unit_cost changes — for every recipe
+ * that uses it, directly or through subrecipes — and manually from the recipe editor.
+ */
+
+export type CostPointSource = 'ingredient_price' | 'manual'
+
 export type CostPoint = {
   id: string
-  createdAt: number
-  totalCost: number
+  recipe_id: string
+  created_at: string
+  total_cost: number
   cpp: number
   portions: number
   currency: string
+  source: CostPointSource
+  ingredient_ids: string[]
 }
 
-type StoredPayloadV1 = {
-  v: 1
-  points: CostPoint[]
-}
-
-const MAX_POINTS = 60
-
-const keyFor = (recipeId: string) => `gc_cost_history__${recipeId}`
-
-function safeParse<T>(s: string | null): T | null {
-  if (!s) return null
-  try {
-    return JSON.parse(s) as T
-  } catch {
-    return null
-  }
-}
-
-function clampPoints(points: CostPoint[]) {
-  // Ensure newest-first order by createdAt
-  const cleaned = points
-    .filter((p) => p && typeof p === 'object')
-    .map((p) => ({
-      id: String(p.id ?? ''),
-      createdAt: Number(p.createdAt) || 0,
-      totalCost: Number(p.totalCost) || 0,
-      cpp: Number(p.cpp) || 0,
-      portions: Math.max(1, Number(p.portions) || 1),
-      currency: String(p.currency || 'USD').toUpperCase(),
-    }))
-    .filter((p) => p.id && p.createdAt > 0)
-
-  cleaned.sort((a, b) => b.createdAt - a.createdAt)
-  return cleaned.slice(0, MAX_POINTS)
+export type IngredientCostChange = {
+  id: string
+  before: number | null | undefined
+  after: number | null | undefined
 }
 
-function readRaw(recipeId: string): CostPoint[] {
-  try {
-    const raw = localStorage.getItem(keyFor(recipeId))
-    if (!raw) return []
-
-    // Accept either:
-    // - legacy: CostPoint[]
-    // - v1: { v: 1, points: CostPoint[] }
-    const payload = safeParse<any>(raw)
-    if (!payload) return []
-
-    if (Array.isArray(payload)) return clampPoints(payload as CostPoint[])
-
-    if (payload && typeof payload === 'object' && payload.v === 1 && Array.isArray(payload.points)) {
-      return clampPoints(payload.points as CostPoint[])
-    }
-
-    return []
-  } catch {
-    return []
+const POINT_FIELDS = 'id,recipe_id,created_at,total_cost,cpp,portions,currency,source,ingredient_ids'
+
+function toPoint(r: any): CostPoint {
+  return {
+    id: String(r.id),
+    recipe_id: String(r.recipe_id),
+    created_at: String(r.created_at),
+    total_cost: Number(r.total_cost) || 0,
+    cpp: Number(r.cpp) || 0,
+    portions: Math.max(1, Number(r.portions) || 1),
+    currency: String(r.currency || 'USD').toUpperCase(),
+    source: (r.source || 'manual') as CostPointSource,
+    ingredient_ids: Array.isArray(r.ingredient_ids) ? r.ingredient_ids : [],
   }
 }
 
-function writeSafe(recipeId: string, points: CostPoint[]) {
-  try {
-    const payload: StoredPayloadV1 = { v: 1, points: clampPoints(points) }
-    localStorage.setItem(keyFor(recipeId), JSON.stringify(payload))
-    return true
-  } catch {
-    // localStorage quota or blocked
-    return false
+/** Points oldest → newest, optionally for one recipe and/or a date range (inclusive). */
+export async function listCostPoints(opts: { recipeId?: string | null; from?: Date; to?: Date } = {}): Promise<CostPoint[]> {
+  const pageSize = 1000
+  const out: CostPoint[] = []
+  for (let offset = 0; ; offset += pageSize) {
+    let q = supabase.from('cost_history').select(POINT_FIELDS).order('created_at', { ascending: true })
+    if (opts.recipeId) q = q.eq('recipe_id', opts.recipeId)
+    if (opts.from) q = q.gte('created_at', opts.from.toISOString())
+    if (opts.to) q = q.lte('created_at', opts.to.toISOString())
+    const { data, error } = await q.range(offset, offset + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []).map(toPoint)
+    out.push(...rows)
+    if (rows.length < pageSize) break
   }
+  return out
 }
 
-export function listCostPoints(recipeId: string): CostPoint[] {
-  return readRaw(recipeId)
-}
-
-export function addCostPoint(
-  recipeId: string,
-  point: Omit<CostPoint, 'id' | 'createdAt'> & { createdAt?: number }
-) {
-  try {
-    const prev = readRaw(recipeId)
-
-    const next: CostPoint = {
-      id: `${Date.now()}_${Math.random().toString(16).slice(2)}`,
-      createdAt: point.createdAt ?? Date.now(),
-      totalCost: Number(point.totalCost) || 0,
+export async function addCostPoint(recipeId: string, point: { totalCost: number; cpp: number; portions: number; currency: string }): Promise<CostPoint> {
+  const { data, error } = await supabase
+    .from('cost_history')
+    .insert({
+      recipe_id: recipeId,
+      total_cost: Number(point.totalCost) || 0,
       cpp: Number(point.cpp) || 0,
       portions: Math.max(1, Number(point.portions) || 1),
       currency: String(point.currency || 'USD').toUpperCase(),
-    }
-
-    // De-dupe: if same as most recent
-    const last = prev[0]
-    if (
-      last &&
-      Math.abs(last.totalCost - next.totalCost) < 1e-9 &&
-      Math.abs(last.cpp - next.cpp) < 1e-9 &&
-      last.portions === next.portions &&
-      last.currency === next.currency
-    ) {
-      return
-    }
-
-    // Insert as newest, then clamp
-    const merged = clampPoints([next, ...prev])
-
-    // Write, if fails try shrinking a bit then write again
-    if (writeSafe(recipeId, merged)) return
+      source: 'manual',
+    })
+    .select(POINT_FIELDS)
+    .single()
+  if (error) throw error
+  return toPoint(data)
+}
 
-    // Fallback: keep only 20 points if quota is tight
-    writeSafe(recipeId, merged.slice(0, 20))
-  } catch {
-    // ignore
-  }
+export async function deleteCostPoint(pointId: string) {
+  const { error } = await supabase.from('cost_history').delete().eq('id', pointId)
+  if (error) throw error
 }
 
-export function clearCostPoints(recipeId: string) {
-  try {
-    localStorage.removeItem(keyFor(recipeId))
-  } catch {}
+/**
+ * Call after writing ingredients. For every ingredient whose net_unit_cost actually moved,
+ * re-cost each recipe that uses it (subrecipe parents included) and store one point per recipe.
+ * Returns the number of points written.
+ */
+export async function recordIngredientCostChanges(changes: IngredientCostChange[]): Promise<number> {
+  const changed = (changes || [])
+    .filter((c) => c?.id && Math.abs((Number(c.after) || 0) - (Number(c.before) || 0)) > 1e-9)
+    .map((c) => c.id)
+  if (!changed.length) return 0
+
+  invalidateIngredientsCache()
+  const [ingredients, lines, recipesRes] = await Promise.all([
+    getIngredientsCached(),
+    loadCostingLines(),
+    supabase.from('recipes').select('id,portions,yield_qty,yield_unit,selling_price,currency'),
+  ])
+  if (recipesRes.error) throw recipesRes.error
+  const recipes = (recipesRes.data ?? []) as Array<{ id: string; portions: number; yield_qty: number | null; yield_unit: string | null; selling_price: number | null; currency: string | null }>
+
+  const graph = buildRecipeGraph(lines)
+  const causes = new Map<string, Set<string>>()
+  for (const ingId of changed) {
+    for (const e of whereUsedIngredient(graph, ingId)) {
+      if (!causes.has(e.recipeId)) causes.set(e.recipeId, new Set())
+      causes.get(e.recipeId)!.add(ingId)
+    }
+  }
+  if (!causes.size) return 0
+
+  const engine = createCostingEngine({ ingredients, recipes, lines })
+  const recipeById = new Map(recipes.map((r) => [r.id, r]))
+  const payload = [...causes.entries()]
+    .filter(([rid]) => recipeById.has(rid))
+    .map(([rid, ings]) => {
+      const c = engine.recipeCost(rid)
+      return {
+        recipe_id: rid,
+        total_cost: c.totalCost,
+        cpp: c.cpp,
+        portions: c.portions,
+        currency: (recipeById.get(rid)?.currency || 'USD').toUpperCase(),
+        source: 'ingredient_price' as const,
+        ingredient_ids: [...ings],
+      }
+    })
+
+  for (let i = 0; i < payload.length; i += 500) {
+    const { error } = await supabase.from('cost_history').insert(payload.slice(i, i + 500))
+    if (error) throw error
+  }
+  return payload.length
 }
 
-export function deleteCostPoint(recipeId: string, pointId: string) {
+/**
+ * recordIngredientCostChanges for callers whose price write already succeeded: it never throws, so the
+ * caller can report "saved, but history failed" instead of losing the error or the save.
+ */
+export async function tryRecordIngredientCostChanges(changes: IngredientCostChange[]): Promise<{ points: number; error: string | null }> {
   try {
-    const prev = readRaw(recipeId)
-    const next = prev.filter((p) => p.id !== pointId)
-    writeSafe(recipeId, next)
-  } catch {}
+    return { points: await recordIngredientCostChanges(changes), error: null }
+  } catch (e: any) {
+    return { points: 0, error: e?.message || 'Cost history could not be recorded' }
+  }
 }
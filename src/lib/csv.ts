@@ -0,0 +1,110 @@
+// src/lib/csv.ts
+// Small CSV reader for imports (POS exports, price lists).
+// Handles quoted fields, doubled quotes, CRLF and the usual delimiters (, ; tab).
+
+export type CsvTable = { header: string[]; rows: string[][] }
+
+/** Picks the delimiter that splits the first line into the most columns. */
+export function detectDelimiter(text: string) {
+  const first = text.split(/\r?\n/, 1)[0] ?? ''
+  let best = ','
+  let bestCount = 0
+  for (const d of [',', ';', '\t', '|']) {
+    const n = first.split(d).length - 1
+    if (n > bestCount) {
+      best = d
+      bestCount = n
+    }
+  }
+  return best
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const src = text.replace(/^\uFEFF/, '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else quoted = false
+      } else cell += ch
+      continue
+    }
+    if (ch === '"' && cell === '') quoted = true
+    else if (ch === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else cell += ch
+  }
+  if (cell !== '' || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''))
+}
+
+/** First row as header (trimmed, lower-cased), the rest as data. */
+export function parseCsvTable(text: string): CsvTable {
+  const rows = parseCsv(text)
+  const header = (rows[0] ?? []).map((h) => h.trim().toLowerCase())
+  return { header, rows: rows.slice(1) }
+}
+
+/** Index of the first header matching one of `names` (exact, then prefix), −1 when absent. */
+export function findColumn(header: string[], names: string[]) {
+  const norm = header.map((h) => h.replace(/[\s-]+/g, '_'))
+  for (const n of names) {
+    const i = norm.indexOf(n)
+    if (i >= 0) return i
+  }
+  for (const n of names) {
+    const i = norm.findIndex((h) => h.startsWith(n))
+    if (i >= 0) return i
+  }
+  return -1
+}
+
+/**
+ * Lenient number parsing for exports: strips currency symbols and spaces, and accepts
+ * both 1,234.50 and 1.234,50. Returns null for empty or unreadable cells.
+ */
+export function parseNumber(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null
+  let s = String(raw ?? '').trim().replace(/[^\d.,\-]/g, '')
+  if (!s) return null
+  const lastComma = s.lastIndexOf(',')
+  const lastDot = s.lastIndexOf('.')
+  if (lastComma >= 0 && lastDot >= 0) {
+    s = lastComma > lastDot ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '')
+  } else if (lastComma >= 0) {
+    s = s.replace(',', '.')
+  }
+  const n = Number(s)
+  return Number.isFinite(n) ? n : null
+}
+
+/** yyyy-mm-dd from ISO dates, dd.mm.yyyy, or anything Date can read; null otherwise. */
+export function parseDay(raw: unknown): string | null {
+  const s = String(raw ?? '').trim()
+  if (!s) return null
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const eu = s.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})/)
+  if (eu && Number(eu[2]) <= 12) return `${eu[3]}-${eu[2].padStart(2, '0')}-${eu[1].padStart(2, '0')}`
+  const d = new Date(s)
+  if (Number.isNaN(d.getTime())) return null
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
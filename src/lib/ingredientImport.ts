@@ -0,0 +1,338 @@
+// src/lib/ingredientImport.ts
+import { supabase } from './supabase'
+import { detectDelimiter, findColumn, parseCsv, parseNumber } from './csv'
+import { normalizeUnit, unitFamily } from './units'
+import { tryRecordIngredientCostChanges } from './costHistory'
+
+/**
+ * Bulk ingredient import from CSV or XLSX (first worksheet), for onboarding a kitchen.
+ *
+ *   readImportFile → guessMapping (user adjusts) → validateImportRows → planIngredientImport
+ *   → runIngredientImport
+ *
+ * Rows upsert by code first, then by name (case-insensitive). Updates only touch the mapped
+ * columns and never change an existing code (codes are owner-only). Units are normalized with
+ * the shared unit table and rejected when unknown; net_unit_cost is pack_price / pack_size like
+ * the Ingredients modal. Every row gets its own outcome, a failing row never stops the rest.
+ */
+
+export type ImportField = 'name' | 'category' | 'supplier' | 'pack_size' | 'pack_unit' | 'pack_price' | 'code'
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: string; required?: boolean }> = [
+  { key: 'name', label: 'Name', required: true },
+  { key: 'code', label: 'Code' },
+  { key: 'category', label: 'Category' },
+  { key: 'supplier', label: 'Supplier' },
+  { key: 'pack_size', label: 'Pack size' },
+  { key: 'pack_unit', label: 'Pack unit' },
+  { key: 'pack_price', label: 'Pack price' },
+]
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'ingredient', 'ingredient_name', 'item', 'item_name', 'product', 'description', 'article'],
+  code: ['code', 'ingredient_code', 'sku', 'item_code', 'article_code', 'ref', 'reference'],
+  category: ['category', 'group', 'family', 'type'],
+  supplier: ['supplier', 'vendor', 'supplier_name', 'distributor'],
+  pack_size: ['pack_size', 'size', 'pack_qty', 'qty', 'quantity', 'content', 'pack'],
+  pack_unit: ['pack_unit', 'unit', 'uom', 'unit_of_measure'],
+  pack_price: ['pack_price', 'price', 'cost', 'unit_price', 'purchase_price'],
+}
+
+/** Column index per field; −1 when the field is not imported. */
+export type ColumnMapping = Record<ImportField, number>
+
+export type ImportSheet = { fileName: string; header: string[]; rows: string[][] }
+
+export type ImportValues = {
+  name: string
+  code: string | null
+  category: string | null
+  supplier: string | null
+  pack_size: number | null
+  pack_unit: string | null
+  pack_price: number | null
+}
+
+export type ImportRow = {
+  /** 1-based row number in the file (header is row 1). */
+  row: number
+  values: ImportValues
+  errors: string[]
+  warnings: string[]
+}
+
+export type ImportPlanRow = ImportRow & {
+  action: 'create' | 'update' | 'error'
+  targetId: string | null
+  matchedBy: 'code' | 'name' | null
+}
+
+export type ImportRowResult = { row: number; name: string; action: 'created' | 'updated' | 'failed' | 'skipped'; message: string | null }
+
+export type ImportResult = {
+  created: number
+  updated: number
+  failed: number
+  skipped: number
+  rows: ImportRowResult[]
+  /** Set when the prices were saved but their cost history was not. */
+  historyError: string | null
+}
+
+type Existing = { id: string; code: string | null; name: string; pack_size: number | null; pack_price: number | null; net_unit_cost: number | null }
+
+function clean(v: unknown) {
+  const s = String(v ?? '').trim()
+  return s || null
+}
+
+/** Same shape the DB code trigger produces: ING- + A-Z/0-9/dash suffix. */
+export function normalizeIngredientCode(raw: unknown): string | null {
+  const s = String(raw ?? '').trim().toUpperCase()
+  if (!s) return null
+  const suffix = s
+    .replace(/^[A-Z]+-/, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^A-Z0-9-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return suffix ? `ING-${suffix}` : null
+}
+
+/* ---------------- Reading ---------------- */
+
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const ExcelJS = (await import('exceljs')).default
+    const wb = new ExcelJS.Workbook()
+    await wb.xlsx.load(await file.arrayBuffer())
+    const ws = wb.worksheets[0]
+    if (!ws) throw new Error('The workbook has no sheets')
+    const width = ws.columnCount
+    const rows: string[][] = []
+    ws.eachRow({ includeEmpty: false }, (r) => {
+      const cells: string[] = []
+      for (let c = 1; c <= width; c++) cells.push(String(r.getCell(c).text ?? '').trim())
+      if (cells.some((x) => x !== '')) rows.push(cells)
+    })
+    return { fileName: file.name, header: rows[0] ?? [], rows: rows.slice(1) }
+  }
+  if (/\.xls$/i.test(file.name)) throw new Error('Old .xls files are not supported. Save as .xlsx or CSV.')
+
+  const text = await file.text()
+  const rows = parseCsv(text, detectDelimiter(text))
+  return { fileName: file.name, header: (rows[0] ?? []).map((h) => h.trim()), rows: rows.slice(1) }
+}
+
+export function guessMapping(header: string[]): ColumnMapping {
+  const lower = header.map((h) => h.trim().toLowerCase())
+  const used = new Set<number>()
+  const out = {} as ColumnMapping
+  for (const f of IMPORT_FIELDS) {
+    const idx = findColumn(lower, FIELD_ALIASES[f.key])
+    out[f.key] = idx >= 0 && !used.has(idx) ? idx : -1
+    if (out[f.key] >= 0) used.add(idx)
+  }
+  return out
+}
+
+/* ---------------- Validation ---------------- */
+
+export function validateImportRows(sheet: ImportSheet, mapping: ColumnMapping): ImportRow[] {
+  const cell = (cells: string[], f: ImportField) => (mapping[f] >= 0 ? cells[mapping[f]] : undefined)
+  const seenCode = new Map<string, number>()
+  const seenName = new Map<string, number>()
+
+  return sheet.rows.map((cells, i) => {
+    const row = i + 2
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const name = clean(cell(cells, 'name')) ?? ''
+    if (!name) errors.push('Name is empty')
+
+    const rawCode = clean(cell(cells, 'code'))
+    const code = normalizeIngredientCode(rawCode)
+    if (rawCode && !code) errors.push(`Code "${rawCode}" has no letters or digits`)
+
+    let pack_size: number | null = null
+    if (mapping.pack_size >= 0) {
+      const raw = clean(cell(cells, 'pack_size'))
+      pack_size = parseNumber(raw)
+      if (raw == null) {
+        pack_size = 1
+        warnings.push('No pack size, using 1')
+      } else if (pack_size == null || !(pack_size > 0)) {
+        errors.push(`Pack size "${raw}" must be a number above 0`)
+      }
+    }
+
+    let pack_unit: string | null = null
+    if (mapping.pack_unit >= 0) {
+      const raw = clean(cell(cells, 'pack_unit'))
+      if (raw == null) {
+        pack_unit = 'g'
+        warnings.push('No unit, using g')
+      } else {
+        pack_unit = normalizeUnit(raw)
+        if (unitFamily(pack_unit) === 'unknown') errors.push(`Unknown unit "${raw}"`)
+        else if (pack_unit !== raw.toLowerCase()) warnings.push(`Unit "${raw}" read as ${pack_unit}`)
+      }
+    }
+
+    let pack_price: number | null = null
+    if (mapping.pack_price >= 0) {
+      const raw = clean(cell(cells, 'pack_price'))
+      pack_price = parseNumber(raw)
+      if (raw == null) {
+        pack_price = 0
+        warnings.push('No price, using 0')
+      } else if (pack_price == null || pack_price < 0) {
+        errors.push(`Pack price "${raw}" must be a number of 0 or more`)
+      }
+    }
+
+    if (code) {
+      const prev = seenCode.get(code)
+      if (prev) errors.push(`Same code as row ${prev}`)
+      else seenCode.set(code, row)
+    } else if (name) {
+      const prev = seenName.get(name.toLowerCase())
+      if (prev) errors.push(`Same name as row ${prev}`)
+      else seenName.set(name.toLowerCase(), row)
+    }
+
+    return {
+      row,
+      values: {
+        name,
+        code,
+        category: clean(cell(cells, 'category')),
+        supplier: clean(cell(cells, 'supplier')),
+        pack_size,
+        pack_unit,
+        pack_price,
+      },
+      errors,
+      warnings,
+    }
+  })
+}
+
+/* ---------------- Plan + import ---------------- */
+
+async function loadExisting(): Promise<Existing[]> {
+  const pageSize = 1000
+  const out: Existing[] = []
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .select('id,code,name,pack_size,pack_price,net_unit_cost')
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []).map((r: any) => ({
+      id: String(r.id),
+      code: r.code ? String(r.code).toUpperCase() : null,
+      name: String(r.name || ''),
+      pack_size: r.pack_size == null ? null : Number(r.pack_size),
+      pack_price: r.pack_price == null ? null : Number(r.pack_price),
+      net_unit_cost: r.net_unit_cost == null ? null : Number(r.net_unit_cost),
+    }))
+    out.push(...rows)
+    if (rows.length < pageSize) break
+  }
+  return out
+}
+
+/** Decides create vs update per row against the kitchen's ingredients (code first, then name). */
+export async function planIngredientImport(rows: ImportRow[]): Promise<ImportPlanRow[]> {
+  const existing = await loadExisting()
+  const byCode = new Map(existing.filter((e) => e.code).map((e) => [e.code!, e]))
+  const byName = new Map(existing.map((e) => [e.name.trim().toLowerCase(), e]))
+
+  return rows.map((r) => {
+    if (r.errors.length) return { ...r, action: 'error', targetId: null, matchedBy: null }
+    const hitCode = r.values.code ? byCode.get(r.values.code) : undefined
+    const hitName = hitCode ? undefined : byName.get(r.values.name.toLowerCase())
+    const hit = hitCode ?? hitName
+    const warnings = [...r.warnings]
+    if (hitName && r.values.code && hitName.code && hitName.code !== r.values.code) {
+      warnings.push(`Matched by name; keeps its code ${hitName.code}`)
+    }
+    return {
+      ...r,
+      warnings,
+      action: hit ? 'update' : 'create',
+      targetId: hit?.id ?? null,
+      matchedBy: hitCode ? 'code' : hitName ? 'name' : null,
+    }
+  })
+}
+
+export async function runIngredientImport(plan: ImportPlanRow[], kitchenId: string | null): Promise<ImportResult> {
+  const existing = new Map((await loadExisting()).map((e) => [e.id, e]))
+  const results: ImportRowResult[] = []
+  const costChanges: Array<{ id: string; before: number | null; after: number | null }> = []
+
+  for (const p of plan) {
+    const v = p.values
+    if (p.action === 'error') {
+      results.push({ row: p.row, name: v.name || '—', action: 'skipped', message: p.errors.join('; ') })
+      continue
+    }
+
+    const fields: Record<string, any> = { name: v.name }
+    if (v.category != null) fields.category = v.category
+    if (v.supplier != null) fields.supplier = v.supplier
+    if (v.pack_unit != null) fields.pack_unit = v.pack_unit
+
+    try {
+      if (p.action === 'update' && p.targetId) {
+        const cur = existing.get(p.targetId)
+        if (v.pack_size != null) fields.pack_size = v.pack_size
+        if (v.pack_price != null) fields.pack_price = v.pack_price
+        if (v.pack_size != null || v.pack_price != null) {
+          fields.net_unit_cost = Math.max(0, v.pack_price ?? cur?.pack_price ?? 0) / Math.max(1e-9, v.pack_size ?? cur?.pack_size ?? 1)
+        }
+        const { data, error } = await supabase.from('ingredients').update(fields).eq('id', p.targetId).select('net_unit_cost').single()
+        if (error) throw error
+        costChanges.push({ id: p.targetId, before: cur?.net_unit_cost ?? null, after: (data as any)?.net_unit_cost ?? null })
+        results.push({ row: p.row, name: v.name, action: 'updated', message: p.warnings.join('; ') || null })
+      } else {
+        const pack_size = v.pack_size ?? 1
+        const pack_price = v.pack_price ?? 0
+        const payload: Record<string, any> = {
+          ...fields,
+          code: v.code,
+          pack_size,
+          pack_price,
+          pack_unit: v.pack_unit ?? 'g',
+          net_unit_cost: Math.max(0, pack_price) / Math.max(1e-9, pack_size),
+          is_active: true,
+        }
+        if (kitchenId) payload.kitchen_id = kitchenId
+        const { error } = await supabase.from('ingredients').insert(payload)
+        if (error) {
+          if (error.code === '23505' && v.code) throw new Error(`Code ${v.code} is already used`)
+          throw error
+        }
+        results.push({ row: p.row, name: v.name, action: 'created', message: p.warnings.join('; ') || null })
+      }
+    } catch (e: any) {
+      results.push({ row: p.row, name: v.name, action: 'failed', message: e?.message ?? 'Failed' })
+    }
+  }
+
+  const history = costChanges.length ? await tryRecordIngredientCostChanges(costChanges) : null
+
+  return {
+    created: results.filter((r) => r.action === 'created').length,
+    updated: results.filter((r) => r.action === 'updated').length,
+    failed: results.filter((r) => r.action === 'failed').length,
+    skipped: results.filter((r) => r.action === 'skipped').length,
+    rows: results,
+    historyError: history?.error ?? null,
+  }
+}
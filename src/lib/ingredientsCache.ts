@@ -12,6 +12,14 @@ export type CachedIngredient = {
   pack_unit: string | null
   net_unit_cost: number | null
   is_active: boolean | null
+  density_g_per_ml: number | null
+  grams_per_piece: number | null
+  kcal_per_100g: number | null
+  protein_per_100g: number | null
+  carbs_per_100g: number | null
+  fat_per_100g: number | null
+  allergens: string[] | null
+  may_contain: string[] | null
 }
 
 type CachePayload = {
@@ -38,7 +46,7 @@ export async function getIngredientsCached(): Promise<CachedIngredient[]> {
 
   const { data, error } = await supabase
     .from('ingredients')
-    .select('id,code,code_category,name,category,supplier,pack_size,pack_price,pack_unit,net_unit_cost,is_active')
+    .select('id,code,code_category,name,category,supplier,pack_size,pack_price,pack_unit,net_unit_cost,is_active,density_g_per_ml,grams_per_piece,kcal_per_100g,protein_per_100g,carbs_per_100g,fat_per_100g,allergens,may_contain')
     .order('name', { ascending: true })
 
   if (error) throw error
@@ -0,0 +1,435 @@
+// src/lib/inventory.ts
+import { supabase } from './supabase'
+
+/**
+ * Stock on hand (tables stock_locations / stock_movements / stock_counts).
+ * Every change is a signed movement in the ingredient's pack_unit; on-hand is their sum
+ * (view stock_on_hand). Movements carry the net_unit_cost at posting time, so stock and
+ * counts are valued the same way recipes are costed. PREP recipes made in production
+ * batches are stocked in the same ledger (recipe_id instead of ingredient_id, in yield_unit).
+ */
+
+export type MovementKind = 'receive' | 'transfer' | 'consume' | 'waste' | 'adjust'
+export type MovementSource = 'purchase_order' | 'production_batch' | 'count' | 'manual' | 'waste'
+
+export const MOVEMENT_KIND_LABELS: Record<MovementKind, string> = {
+  receive: 'Receive',
+  transfer: 'Transfer',
+  consume: 'Consume',
+  waste: 'Waste',
+  adjust: 'Adjust',
+}
+
+export type StockLocation = {
+  id: string
+  code: string | null
+  name: string
+  is_default: boolean
+  is_active: boolean
+}
+
+export type StockMovement = {
+  id: string
+  ingredient_id: string | null
+  recipe_id: string | null
+  location_id: string
+  kind: MovementKind
+  qty: number
+  unit_cost: number
+  source_type: MovementSource | null
+  source_id: string | null
+  transfer_id: string | null
+  note: string | null
+  created_at: string
+}
+
+export type MovementInput = {
+  /** Exactly one of ingredientId / recipeId (PREP output). */
+  ingredientId?: string | null
+  recipeId?: string | null
+  locationId: string
+  kind: MovementKind
+  /** Signed, in the ingredient's pack_unit (receive +, consume/waste −, adjust ±). */
+  qty: number
+  /** Defaults to the ingredient's current net_unit_cost. */
+  unitCost?: number | null
+  sourceType?: MovementSource | null
+  sourceId?: string | null
+  transferId?: string | null
+  note?: string | null
+}
+
+export type StockLevel = { ingredient_id: string; location_id: string; qty: number }
+
+export type PrepStockLevel = { recipe_id: string; location_id: string; qty: number }
+
+export type StockCountStatus = 'draft' | 'posted'
+
+export type StockCount = {
+  id: string
+  location_id: string
+  status: StockCountStatus
+  note: string | null
+  posted_at: string | null
+  created_at: string
+}
+
+export type StockCountLine = {
+  id: string
+  count_id: string
+  ingredient_id: string
+  expected_qty: number
+  counted_qty: number | null
+  unit_cost: number
+}
+
+const LOCATION_FIELDS = 'id,code,name,is_default,is_active'
+const MOVEMENT_FIELDS = 'id,ingredient_id,recipe_id,location_id,kind,qty,unit_cost,source_type,source_id,transfer_id,note,created_at'
+const COUNT_FIELDS = 'id,location_id,status,note,posted_at,created_at'
+const COUNT_LINE_FIELDS = 'id,count_id,ingredient_id,expected_qty,counted_qty,unit_cost'
+
+const EPS = 1e-9
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function toLocation(r: any): StockLocation {
+  return { id: String(r.id), code: r.code ?? null, name: String(r.name || ''), is_default: !!r.is_default, is_active: r.is_active !== false }
+}
+
+function toMovement(r: any): StockMovement {
+  return {
+    id: String(r.id),
+    ingredient_id: r.ingredient_id ?? null,
+    recipe_id: r.recipe_id ?? null,
+    location_id: String(r.location_id),
+    kind: r.kind as MovementKind,
+    qty: toNum(r.qty, 0),
+    unit_cost: toNum(r.unit_cost, 0),
+    source_type: r.source_type ?? null,
+    source_id: r.source_id ?? null,
+    transfer_id: r.transfer_id ?? null,
+    note: r.note ?? null,
+    created_at: String(r.created_at),
+  }
+}
+
+function toCount(r: any): StockCount {
+  return {
+    id: String(r.id),
+    location_id: String(r.location_id),
+    status: (r.status || 'draft') as StockCountStatus,
+    note: r.note ?? null,
+    posted_at: r.posted_at ?? null,
+    created_at: String(r.created_at),
+  }
+}
+
+function toCountLine(r: any): StockCountLine {
+  return {
+    id: String(r.id),
+    count_id: String(r.count_id),
+    ingredient_id: String(r.ingredient_id),
+    expected_qty: toNum(r.expected_qty, 0),
+    counted_qty: r.counted_qty == null ? null : toNum(r.counted_qty, 0),
+    unit_cost: toNum(r.unit_cost, 0),
+  }
+}
+
+/* ---------------- Locations ---------------- */
+
+export async function listLocations(): Promise<StockLocation[]> {
+  const { data, error } = await supabase.from('stock_locations').select(LOCATION_FIELDS).order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toLocation)
+}
+
+export async function saveLocation(loc: { id?: string; name: string; is_default?: boolean; is_active?: boolean }): Promise<StockLocation> {
+  const name = String(loc.name || '').trim()
+  if (!name) throw new Error('Location name is required')
+  const payload = { name, is_default: !!loc.is_default, is_active: loc.is_active !== false }
+  const q = loc.id ? supabase.from('stock_locations').update(payload).eq('id', loc.id) : supabase.from('stock_locations').insert(payload)
+  const { data, error } = await q.select(LOCATION_FIELDS).single()
+  if (error) throw error
+  return toLocation(data)
+}
+
+/** Deleting a location drops its movements and counts with it. */
+export async function deleteLocation(id: string) {
+  const { error } = await supabase.from('stock_locations').delete().eq('id', id)
+  if (error) throw error
+}
+
+/** The default location, created as "Main store" the first time stock is posted. */
+export async function ensureDefaultLocation(): Promise<StockLocation> {
+  const list = await listLocations()
+  const hit = list.find((l) => l.is_default && l.is_active) ?? list.find((l) => l.is_active)
+  if (hit) return hit
+  return saveLocation({ name: 'Main store', is_default: true })
+}
+
+/* ---------------- Movements ---------------- */
+
+export async function postMovements(rows: MovementInput[]): Promise<number> {
+  const payload = rows
+    .filter((r) => (r.ingredientId || r.recipeId) && r.locationId && Math.abs(toNum(r.qty, 0)) > EPS)
+    .map((r) => ({
+      ingredient_id: r.ingredientId || null,
+      recipe_id: r.ingredientId ? null : r.recipeId,
+      location_id: r.locationId,
+      kind: r.kind,
+      qty: toNum(r.qty, 0),
+      unit_cost: r.unitCost == null ? null : Math.max(0, toNum(r.unitCost, 0)),
+      source_type: r.sourceType ?? 'manual',
+      source_id: r.sourceId ?? null,
+      transfer_id: r.transferId ?? null,
+      note: r.note?.trim() || null,
+    }))
+  for (let i = 0; i < payload.length; i += 500) {
+    const { error } = await supabase.from('stock_movements').insert(payload.slice(i, i + 500))
+    if (error) throw error
+  }
+  return payload.length
+}
+
+/** True when movements were already posted for this source (guards against double posting). */
+export async function hasMovementsFor(sourceType: MovementSource, sourceId: string) {
+  const { count, error } = await supabase
+    .from('stock_movements')
+    .select('id', { count: 'exact', head: true })
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+  if (error) throw error
+  return (count ?? 0) > 0
+}
+
+/**
+ * Undoes a post that failed part-way after its document was claimed: deletes the movements already
+ * written for the source, then `release` puts the document's status back so it can be posted again.
+ * When the movements can't be deleted the claim is kept, so nothing gets posted twice on top.
+ */
+export async function rollbackMovementsFor(sourceType: MovementSource, sourceId: string, release: () => PromiseLike<unknown>) {
+  const { error } = await supabase.from('stock_movements').delete().eq('source_type', sourceType).eq('source_id', sourceId)
+  if (error) throw new Error(`Stock was only partly posted and could not be rolled back: ${error.message}`)
+  await release()
+}
+
+export async function listMovementsFor(sourceType: MovementSource, sourceId: string): Promise<StockMovement[]> {
+  const { data, error } = await supabase.from('stock_movements').select(MOVEMENT_FIELDS).eq('source_type', sourceType).eq('source_id', sourceId)
+  if (error) throw error
+  return (data ?? []).map(toMovement)
+}
+
+export async function transferStock(args: { ingredientId: string; fromLocationId: string; toLocationId: string; qty: number; note?: string | null }) {
+  const qty = Math.abs(toNum(args.qty, 0))
+  if (!(qty > 0)) throw new Error('Quantity must be greater than 0')
+  if (args.fromLocationId === args.toLocationId) throw new Error('Pick two different locations')
+  const transferId = crypto.randomUUID()
+  const base = { ingredientId: args.ingredientId, kind: 'transfer' as const, transferId, note: args.note }
+  return postMovements([
+    { ...base, locationId: args.fromLocationId, qty: -qty },
+    { ...base, locationId: args.toLocationId, qty },
+  ])
+}
+
+export async function listMovements(opts: { ingredientId?: string | null; locationId?: string | null; limit?: number } = {}): Promise<StockMovement[]> {
+  let q = supabase.from('stock_movements').select(MOVEMENT_FIELDS).order('created_at', { ascending: false }).limit(opts.limit ?? 200)
+  if (opts.ingredientId) q = q.eq('ingredient_id', opts.ingredientId)
+  if (opts.locationId) q = q.eq('location_id', opts.locationId)
+  const { data, error } = await q
+  if (error) throw error
+  return (data ?? []).map(toMovement)
+}
+
+/** Every movement created in (since, until], paged; for usage reports over a period. */
+export async function listMovementsBetween(since: string, until: string): Promise<StockMovement[]> {
+  const pageSize = 1000
+  const out: StockMovement[] = []
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select(MOVEMENT_FIELDS)
+      .gt('created_at', since)
+      .lte('created_at', until)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []).map(toMovement)
+    out.push(...rows)
+    if (rows.length < pageSize) break
+  }
+  return out
+}
+
+/* ---------------- On hand ---------------- */
+
+export async function listStockLevels(opts: { locationId?: string | null; ingredientId?: string | null } = {}): Promise<StockLevel[]> {
+  const pageSize = 1000
+  const out: StockLevel[] = []
+  for (let offset = 0; ; offset += pageSize) {
+    let q = supabase.from('stock_on_hand').select('ingredient_id,location_id,qty').not('ingredient_id', 'is', null)
+    if (opts.locationId) q = q.eq('location_id', opts.locationId)
+    if (opts.ingredientId) q = q.eq('ingredient_id', opts.ingredientId)
+    const { data, error } = await q.range(offset, offset + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []).map((r: any) => ({ ingredient_id: String(r.ingredient_id), location_id: String(r.location_id), qty: toNum(r.qty, 0) }))
+    out.push(...rows)
+    if (rows.length < pageSize) break
+  }
+  return out
+}
+
+export async function listPrepStock(opts: { recipeId?: string | null } = {}): Promise<PrepStockLevel[]> {
+  let q = supabase.from('stock_on_hand').select('recipe_id,location_id,qty').not('recipe_id', 'is', null)
+  if (opts.recipeId) q = q.eq('recipe_id', opts.recipeId)
+  const { data, error } = await q
+  if (error) throw error
+  return (data ?? [])
+    .map((r: any) => ({ recipe_id: String(r.recipe_id), location_id: String(r.location_id), qty: toNum(r.qty, 0) }))
+    .filter((r) => Math.abs(r.qty) > EPS)
+}
+
+/** ingredient id → location id → qty */
+export function indexStockLevels(levels: StockLevel[]) {
+  const m = new Map<string, Map<string, number>>()
+  for (const l of levels) {
+    if (Math.abs(l.qty) < EPS) continue
+    if (!m.has(l.ingredient_id)) m.set(l.ingredient_id, new Map())
+    m.get(l.ingredient_id)!.set(l.location_id, l.qty)
+  }
+  return m
+}
+
+/** ingredient id → total qty over all locations */
+export function totalOnHand(levels: StockLevel[]) {
+  const m = new Map<string, number>()
+  for (const l of levels) m.set(l.ingredient_id, (m.get(l.ingredient_id) ?? 0) + l.qty)
+  return m
+}
+
+/* ---------------- Counts ---------------- */
+
+export async function listCounts(): Promise<StockCount[]> {
+  const { data, error } = await supabase.from('stock_counts').select(COUNT_FIELDS).order('created_at', { ascending: false }).limit(200)
+  if (error) throw error
+  return (data ?? []).map(toCount)
+}
+
+/**
+ * Opens a count sheet for a location, one line per ingredient (active ones plus anything still
+ * in stock there), pre-filled with the expected quantity and current unit cost.
+ */
+export async function createCount(locationId: string, note?: string | null): Promise<string> {
+  const [{ data: ings, error: ie }, levels] = await Promise.all([
+    supabase.from('ingredients').select('id,net_unit_cost,is_active'),
+    listStockLevels({ locationId }),
+  ])
+  if (ie) throw ie
+  const onHand = new Map(levels.map((l) => [l.ingredient_id, l.qty]))
+
+  const { data, error } = await supabase.from('stock_counts').insert({ location_id: locationId, note: note?.trim() || null }).select('id').single()
+  if (error) throw error
+  const countId = String((data as any).id)
+
+  const lines = ((ings ?? []) as any[])
+    .filter((i) => i.is_active !== false || Math.abs(onHand.get(i.id) ?? 0) > EPS)
+    .map((i) => ({
+      count_id: countId,
+      ingredient_id: i.id,
+      expected_qty: onHand.get(i.id) ?? 0,
+      unit_cost: toNum(i.net_unit_cost, 0),
+    }))
+  for (let i = 0; i < lines.length; i += 500) {
+    const { error: le } = await supabase.from('stock_count_lines').insert(lines.slice(i, i + 500))
+    if (le) throw le
+  }
+  return countId
+}
+
+export async function getCount(id: string): Promise<{ count: StockCount; lines: StockCountLine[] }> {
+  const [{ data, error }, { data: ls, error: le }] = await Promise.all([
+    supabase.from('stock_counts').select(COUNT_FIELDS).eq('id', id).single(),
+    supabase.from('stock_count_lines').select(COUNT_LINE_FIELDS).eq('count_id', id),
+  ])
+  if (error) throw error
+  if (le) throw le
+  return { count: toCount(data), lines: (ls ?? []).map(toCountLine) }
+}
+
+export async function setCountedQty(lineId: string, counted: number | null) {
+  const { error } = await supabase
+    .from('stock_count_lines')
+    .update({ counted_qty: counted == null ? null : Math.max(0, toNum(counted, 0)) })
+    .eq('id', lineId)
+  if (error) throw error
+}
+
+/**
+ * Posts a count: for every counted line, an adjust movement brings on-hand to the counted
+ * quantity (measured against stock at posting time, so movements during the count are kept).
+ * Lines left blank are not touched. Returns the number of adjustments.
+ * The count is claimed (draft → posted) before anything moves, so two people posting the same
+ * draft, or a retry, can't adjust stock twice; if the movements fail, the ones already written
+ * are removed and it goes back to draft.
+ */
+export async function postCount(id: string): Promise<number> {
+  const { count, lines } = await getCount(id)
+  if (count.status === 'posted') throw new Error('This count is already posted')
+
+  const now = new Date().toISOString()
+  const { data: claimed, error } = await supabase
+    .from('stock_counts')
+    .update({ status: 'posted', posted_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select('id')
+  if (error) throw error
+  if (!claimed?.length) throw new Error('This count is already posted')
+  if (await hasMovementsFor('count', id)) return 0
+
+  try {
+    const levels = await listStockLevels({ locationId: count.location_id })
+    const onHand = new Map(levels.map((l) => [l.ingredient_id, l.qty]))
+    return await postMovements(
+      lines
+        .filter((l) => l.counted_qty != null)
+        .map((l) => ({
+          ingredientId: l.ingredient_id,
+          locationId: count.location_id,
+          kind: 'adjust' as const,
+          qty: l.counted_qty! - (onHand.get(l.ingredient_id) ?? 0),
+          unitCost: l.unit_cost || null,
+          sourceType: 'count' as const,
+          sourceId: id,
+        }))
+    )
+  } catch (e) {
+    await rollbackMovementsFor('count', id, () =>
+      supabase.from('stock_counts').update({ status: 'draft', posted_at: null, updated_at: new Date().toISOString() }).eq('id', id)
+    )
+    throw e
+  }
+}
+
+export async function deleteCount(id: string) {
+  const { error } = await supabase.from('stock_counts').delete().eq('id', id).eq('status', 'draft')
+  if (error) throw error
+}
+
+/** Counted value and variance against expected, both at the line's unit cost. */
+export function countTotals(lines: StockCountLine[]) {
+  let counted = 0
+  let expected = 0
+  let variance = 0
+  let done = 0
+  for (const l of lines) {
+    expected += l.expected_qty * l.unit_cost
+    if (l.counted_qty == null) continue
+    done += 1
+    counted += l.counted_qty * l.unit_cost
+    variance += (l.counted_qty - l.expected_qty) * l.unit_cost
+  }
+  return { counted, expected, variance, done, total: lines.length }
+}
@@ -0,0 +1,105 @@
+// src/lib/menuEngineering.ts
+
+/**
+ * Menu engineering (Kasavana & Smith): every MENU recipe sold in a period is placed in
+ * one of four quadrants by contribution margin and popularity.
+ *
+ * - margin is high when the item's CM per portion is at least the menu's weighted
+ *   average CM (total margin / portions sold)
+ * - popularity is high when the item's share of portions sold is at least 70% of an
+ *   even share (0.7 / number of items)
+ *
+ * Averages are taken over the items passed in, so filtering by category compares an
+ * item with its own category.
+ */
+
+export type MenuQuadrant = 'star' | 'plowhorse' | 'puzzle' | 'dog'
+
+export const MENU_QUADRANT_LABELS: Record<MenuQuadrant, string> = {
+  star: 'Star',
+  plowhorse: 'Plowhorse',
+  puzzle: 'Puzzle',
+  dog: 'Dog',
+}
+
+export const MENU_QUADRANT_HINTS: Record<MenuQuadrant, string> = {
+  star: 'Popular and profitable — keep, feature, protect the recipe.',
+  plowhorse: 'Popular, low margin — re-cost, trim portion or nudge the price.',
+  puzzle: 'Profitable, rarely ordered — reposition, rename or promote.',
+  dog: 'Unpopular and low margin — rework or remove.',
+}
+
+export const MENU_QUADRANT_COLORS: Record<MenuQuadrant, string> = {
+  star: '#16a34a',
+  plowhorse: '#2563eb',
+  puzzle: '#d97706',
+  dog: '#dc2626',
+}
+
+/** Share of an even mix an item needs to count as popular. */
+export const POPULARITY_FACTOR = 0.7
+
+export type MenuEngineeringInput = {
+  recipeId: string
+  name: string
+  category: string | null
+  /** portions sold in the period */
+  sold: number
+  /** selling price per portion */
+  price: number
+  /** food cost per portion */
+  cost: number
+}
+
+export type MenuEngineeringItem = MenuEngineeringInput & {
+  margin: number
+  totalMargin: number
+  revenue: number
+  foodCostPct: number | null
+  mixPct: number
+  quadrant: MenuQuadrant
+}
+
+export type MenuEngineering = {
+  items: MenuEngineeringItem[]
+  totalSold: number
+  totalRevenue: number
+  totalMargin: number
+  /** weighted average contribution margin per portion */
+  avgMargin: number
+  /** mix share (0–1) an item needs to be popular */
+  popularityThreshold: number
+}
+
+export function analyzeMenu(input: MenuEngineeringInput[]): MenuEngineering {
+  const rows = input.filter((i) => i.sold > 0)
+  const totalSold = rows.reduce((s, i) => s + i.sold, 0)
+  const totalMargin = rows.reduce((s, i) => s + (i.price - i.cost) * i.sold, 0)
+  const totalRevenue = rows.reduce((s, i) => s + i.price * i.sold, 0)
+  const avgMargin = totalSold > 0 ? totalMargin / totalSold : 0
+  const popularityThreshold = rows.length ? POPULARITY_FACTOR / rows.length : 0
+
+  const items = rows.map((i): MenuEngineeringItem => {
+    const margin = i.price - i.cost
+    const mixPct = totalSold > 0 ? i.sold / totalSold : 0
+    const highMargin = margin >= avgMargin
+    const popular = mixPct >= popularityThreshold
+    return {
+      ...i,
+      margin,
+      totalMargin: margin * i.sold,
+      revenue: i.price * i.sold,
+      foodCostPct: i.price > 0 ? (i.cost / i.price) * 100 : null,
+      mixPct,
+      quadrant: highMargin ? (popular ? 'star' : 'puzzle') : popular ? 'plowhorse' : 'dog',
+    }
+  })
+  items.sort((a, b) => b.totalMargin - a.totalMargin)
+  return { items, totalSold, totalRevenue, totalMargin, avgMargin, popularityThreshold }
+}
+
+export function countByQuadrant(items: MenuEngineeringItem[]) {
+  const out: Record<MenuQuadrant, number> = { star: 0, plowhorse: 0, puzzle: 0, dog: 0 }
+  for (const i of items) out[i.quadrant] += 1
+  return out
+}
@@ -0,0 +1,402 @@
+// src/lib/menus.ts
+import { supabase } from './supabase'
+import {
+  computeRecipeAllergens,
+  dietaryFlags,
+  DIETARY_FLAGS,
+  EU_ALLERGENS,
+  listAllergenDefs,
+  type AllergenDef,
+  type AllergenProfile,
+  type DietaryFlag,
+} from './allergens'
+import { getIngredientsCached, type CachedIngredient } from './ingredientsCache'
+import { createCostingEngine, loadCostingLines, type CostingLine } from './recipeCosting'
+import { loadSalesMix } from './sales'
+
+/**
+ * Menus (tables menus / menu_sections / menu_items): a card such as lunch, banquet or a
+ * seasonal menu, made of ordered sections holding MENU recipes. An item's price is the
+ * menu price when set, else the recipe's selling_price.
+ *
+ * Menu food cost % is weighted: by portions sold when a sales mix is given, else every
+ * item counts once (Σ cost / Σ price).
+ */
+
+export type MenuKind = 'a_la_carte' | 'lunch' | 'banquet' | 'seasonal' | 'set' | 'other'
+
+export const MENU_KIND_LABELS: Record<MenuKind, string> = {
+  a_la_carte: 'À la carte',
+  lunch: 'Lunch',
+  banquet: 'Banquet',
+  seasonal: 'Seasonal',
+  set: 'Set menu',
+  other: 'Other',
+}
+
+export type Menu = {
+  id: string
+  code: string | null
+  name: string
+  kind: MenuKind
+  description: string | null
+  valid_from: string | null
+  valid_to: string | null
+  target_food_cost_pct: number | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type MenuDraft = Omit<Menu, 'id' | 'code' | 'created_at' | 'updated_at'> & { id?: string }
+
+export type MenuSection = {
+  id: string
+  menu_id: string
+  title: string
+  position: number
+}
+
+export type MenuItem = {
+  id: string
+  menu_id: string
+  section_id: string
+  recipe_id: string
+  position: number
+  price: number | null
+  display_name: string | null
+  description: string | null
+}
+
+export type MenuRecipe = {
+  id: string
+  code?: string | null
+  name: string
+  category?: string | null
+  description?: string | null
+  portions?: number | null
+  yield_qty?: number | null
+  yield_unit?: string | null
+  selling_price?: number | null
+  is_subrecipe?: boolean | null
+  is_archived?: boolean | null
+}
+
+export const MENU_RECIPE_FIELDS = 'id,code,name,category,description,portions,yield_qty,yield_unit,selling_price,is_subrecipe,is_archived'
+
+export type MenuItemCost = {
+  itemId: string
+  recipeId: string
+  price: number
+  cost: number
+  margin: number
+  foodCostPct: number | null
+  weight: number
+}
+
+export type MenuCosting = {
+  items: Map<string, MenuItemCost>
+  /** weighted Σ cost / Σ price, null when nothing is priced */
+  foodCostPct: number | null
+  /** weighted average margin per portion */
+  avgMargin: number
+  weightedBy: 'sales' | 'items'
+  unpriced: number
+}
+
+export type MenuAllergenSummary = {
+  /** allergen code → number of items that contain it / may contain it */
+  contains: Map<string, number>
+  mayContain: Map<string, number>
+  /** dietary flag → number of items carrying it */
+  flags: Array<{ flag: DietaryFlag; count: number }>
+  itemCount: number
+}
+
+const MENU_FIELDS = 'id,code,name,kind,description,valid_from,valid_to,target_food_cost_pct,is_active,created_at,updated_at'
+const SECTION_FIELDS = 'id,menu_id,title,position'
+const ITEM_FIELDS = 'id,menu_id,section_id,recipe_id,position,price,display_name,description'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function toMenu(r: any): Menu {
+  return {
+    id: String(r.id),
+    code: r.code ?? null,
+    name: String(r.name ?? ''),
+    kind: (r.kind || 'a_la_carte') as MenuKind,
+    description: r.description ?? null,
+    valid_from: r.valid_from ?? null,
+    valid_to: r.valid_to ?? null,
+    target_food_cost_pct: r.target_food_cost_pct == null ? null : toNum(r.target_food_cost_pct, 0),
+    is_active: r.is_active !== false,
+    created_at: String(r.created_at),
+    updated_at: String(r.updated_at ?? r.created_at),
+  }
+}
+
+function toSection(r: any): MenuSection {
+  return { id: String(r.id), menu_id: String(r.menu_id), title: String(r.title ?? ''), position: toNum(r.position, 0) }
+}
+
+function toItem(r: any): MenuItem {
+  return {
+    id: String(r.id),
+    menu_id: String(r.menu_id),
+    section_id: String(r.section_id),
+    recipe_id: String(r.recipe_id),
+    position: toNum(r.position, 0),
+    price: r.price == null ? null : toNum(r.price, 0),
+    display_name: r.display_name ?? null,
+    description: r.description ?? null,
+  }
+}
+
+/* ---------------- Menus ---------------- */
+
+export async function listMenus(): Promise<Menu[]> {
+  const { data, error } = await supabase.from('menus').select(MENU_FIELDS).order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toMenu)
+}
+
+export async function getMenu(id: string): Promise<{ menu: Menu; sections: MenuSection[]; items: MenuItem[] }> {
+  const [m, s, i] = await Promise.all([
+    supabase.from('menus').select(MENU_FIELDS).eq('id', id).single(),
+    supabase.from('menu_sections').select(SECTION_FIELDS).eq('menu_id', id).order('position', { ascending: true }),
+    supabase.from('menu_items').select(ITEM_FIELDS).eq('menu_id', id).order('position', { ascending: true }),
+  ])
+  if (m.error) throw m.error
+  if (s.error) throw s.error
+  if (i.error) throw i.error
+  return { menu: toMenu(m.data), sections: (s.data ?? []).map(toSection), items: (i.data ?? []).map(toItem) }
+}
+
+export async function saveMenu(draft: MenuDraft): Promise<Menu> {
+  const name = (draft.name || '').trim()
+  if (!name) throw new Error('Menu name is required.')
+  const payload = {
+    name,
+    kind: draft.kind,
+    description: draft.description?.trim() || null,
+    valid_from: draft.valid_from || null,
+    valid_to: draft.valid_to || null,
+    target_food_cost_pct: draft.target_food_cost_pct,
+    is_active: draft.is_active,
+  }
+  const q = draft.id ? supabase.from('menus').update(payload).eq('id', draft.id) : supabase.from('menus').insert(payload)
+  const { data, error } = await q.select(MENU_FIELDS).single()
+  if (error) throw error
+  return toMenu(data)
+}
+
+export async function deleteMenu(id: string) {
+  const { error } = await supabase.from('menus').delete().eq('id', id)
+  if (error) throw error
+}
+
+/** Copies a menu with its sections and items; the copy starts inactive. */
+export async function duplicateMenu(id: string): Promise<Menu> {
+  const src = await getMenu(id)
+  const copy = await saveMenu({ ...src.menu, id: undefined, name: `${src.menu.name} (copy)`, is_active: false })
+  for (const s of src.sections) {
+    const ns = await addSection(copy.id, s.title, s.position)
+    const items = src.items.filter((i) => i.section_id === s.id)
+    if (!items.length) continue
+    const { error } = await supabase.from('menu_items').insert(
+      items.map((i) => ({
+        menu_id: copy.id,
+        section_id: ns.id,
+        recipe_id: i.recipe_id,
+        position: i.position,
+        price: i.price,
+        display_name: i.display_name,
+        description: i.description,
+      }))
+    )
+    if (error) throw error
+  }
+  return copy
+}
+
+/* ---------------- Sections & items ---------------- */
+
+export async function addSection(menuId: string, title: string, position: number): Promise<MenuSection> {
+  const clean = (title || '').trim()
+  if (!clean) throw new Error('Section title is required.')
+  const { data, error } = await supabase.from('menu_sections').insert({ menu_id: menuId, title: clean, position }).select(SECTION_FIELDS).single()
+  if (error) throw error
+  return toSection(data)
+}
+
+export async function updateSection(id: string, patch: Partial<Pick<MenuSection, 'title' | 'position'>>) {
+  const { error } = await supabase.from('menu_sections').update(patch).eq('id', id)
+  if (error) throw error
+}
+
+export async function deleteSection(id: string) {
+  const { error } = await supabase.from('menu_sections').delete().eq('id', id)
+  if (error) throw error
+}
+
+export async function addItem(section: Pick<MenuSection, 'id' | 'menu_id'>, recipeId: string, position: number): Promise<MenuItem> {
+  const { data, error } = await supabase
+    .from('menu_items')
+    .insert({ menu_id: section.menu_id, section_id: section.id, recipe_id: recipeId, position })
+    .select(ITEM_FIELDS)
+    .single()
+  if (error) {
+    if ((error as any).code === '23505') throw new Error('That recipe is already in this section.')
+    throw error
+  }
+  return toItem(data)
+}
+
+export async function updateItem(id: string, patch: Partial<Pick<MenuItem, 'price' | 'display_name' | 'description' | 'position'>>) {
+  const { error } = await supabase.from('menu_items').update(patch).eq('id', id)
+  if (error) throw error
+}
+
+export async function deleteItem(id: string) {
+  const { error } = await supabase.from('menu_items').delete().eq('id', id)
+  if (error) throw error
+}
+
+/** Swaps the positions of two rows (sections or items) after a move up / down. */
+export async function swapPositions(table: 'menu_sections' | 'menu_items', a: { id: string; position: number }, b: { id: string; position: number }) {
+  // Equal positions (fresh rows) would swap to the same order; spread them first.
+  const pa = a.position === b.position ? b.position + 1 : b.position
+  const [x, y] = await Promise.all([
+    supabase.from(table).update({ position: pa }).eq('id', a.id),
+    supabase.from(table).update({ position: a.position }).eq('id', b.id),
+  ])
+  if (x.error) throw x.error
+  if (y.error) throw y.error
+}
+
+/* ---------------- Costing & allergens ---------------- */
+
+export function itemPrice(item: Pick<MenuItem, 'price'>, recipe: MenuRecipe | undefined) {
+  if (item.price != null) return item.price
+  return Math.max(0, toNum(recipe?.selling_price, 0))
+}
+
+export function itemName(item: Pick<MenuItem, 'display_name'>, recipe: MenuRecipe | undefined) {
+  return item.display_name?.trim() || recipe?.name || 'Recipe'
+}
+
+/**
+ * Price, cost and margin per item plus the weighted menu totals. `costPerPortion` comes
+ * from the costing engine; `mix` (recipe id → portions sold) switches weighting to sales.
+ */
+export function menuCosting(args: {
+  items: MenuItem[]
+  recipes: Map<string, MenuRecipe>
+  costPerPortion: (recipeId: string) => number
+  mix?: Map<string, number> | null
+}): MenuCosting {
+  const bySales = !!args.mix && args.items.some((i) => (args.mix!.get(i.recipe_id) ?? 0) > 0)
+  const items = new Map<string, MenuItemCost>()
+  let sumCost = 0
+  let sumPrice = 0
+  let sumWeight = 0
+  let unpriced = 0
+
+  for (const it of args.items) {
+    const price = itemPrice(it, args.recipes.get(it.recipe_id))
+    const cost = args.costPerPortion(it.recipe_id)
+    const weight = bySales ? args.mix!.get(it.recipe_id) ?? 0 : 1
+    items.set(it.id, {
+      itemId: it.id,
+      recipeId: it.recipe_id,
+      price,
+      cost,
+      margin: price - cost,
+      foodCostPct: price > 0 ? (cost / price) * 100 : null,
+      weight,
+    })
+    if (!(price > 0)) {
+      unpriced += 1
+      continue
+    }
+    sumCost += cost * weight
+    sumPrice += price * weight
+    sumWeight += weight
+  }
+
+  return {
+    items,
+    foodCostPct: sumPrice > 0 ? (sumCost / sumPrice) * 100 : null,
+    avgMargin: sumWeight > 0 ? (sumPrice - sumCost) / sumWeight : 0,
+    weightedBy: bySales ? 'sales' : 'items',
+    unpriced,
+  }
+}
+
+export function menuAllergens(items: MenuItem[], profiles: Map<string, AllergenProfile>): MenuAllergenSummary {
+  const contains = new Map<string, number>()
+  const mayContain = new Map<string, number>()
+  const flagCount = new Map<string, number>()
+  for (const it of items) {
+    const p = profiles.get(it.recipe_id)
+    p?.contains.forEach((a) => contains.set(a, (contains.get(a) ?? 0) + 1))
+    p?.mayContain.forEach((a) => mayContain.set(a, (mayContain.get(a) ?? 0) + 1))
+    for (const f of dietaryFlags(p)) flagCount.set(f.code, (flagCount.get(f.code) ?? 0) + 1)
+  }
+  return {
+    contains,
+    mayContain,
+    flags: DIETARY_FLAGS.map((flag) => ({ flag, count: flagCount.get(flag.code) ?? 0 })),
+    itemCount: items.length,
+  }
+}
+
+/* ---------------- Loading ---------------- */
+
+export type MenuContext = {
+  menu: Menu
+  sections: MenuSection[]
+  items: MenuItem[]
+  recipes: MenuRecipe[]
+  ingredients: CachedIngredient[]
+  lines: CostingLine[]
+  allergenDefs: AllergenDef[]
+  /** portions sold per recipe over the last MIX_DAYS days; null when sales can't be read */
+  mix: Map<string, number> | null
+}
+
+/** Sales window used to weight menu food cost. */
+export const MIX_DAYS = 30
+
+/** Everything the menu editor and both print sheets need, so their numbers match. */
+export async function loadMenuContext(id: string): Promise<MenuContext> {
+  const after = new Date()
+  after.setDate(after.getDate() - MIX_DAYS)
+  const day = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+
+  const [m, rec, ingredients, lines, allergenDefs, mix] = await Promise.all([
+    getMenu(id),
+    supabase.from('recipes').select(MENU_RECIPE_FIELDS).order('name', { ascending: true }),
+    getIngredientsCached(),
+    loadCostingLines(),
+    listAllergenDefs().catch(() => EU_ALLERGENS),
+    loadSalesMix(day(after), day(new Date()))
+      .then((s) => s.qty)
+      .catch(() => null),
+  ])
+  if (rec.error) throw rec.error
+  return { ...m, recipes: (rec.data ?? []) as MenuRecipe[], ingredients, lines, allergenDefs, mix }
+}
+
+/** Cost per portion, allergen profiles and costing totals for a loaded menu. */
+export function analyzeMenuContext(ctx: MenuContext) {
+  const recipeById = new Map(ctx.recipes.map((r) => [r.id, r]))
+  const engine = createCostingEngine({ ingredients: ctx.ingredients, recipes: ctx.recipes, lines: ctx.lines })
+  const profiles = computeRecipeAllergens({ ingredients: ctx.ingredients, lines: ctx.lines })
+  const costing = menuCosting({ items: ctx.items, recipes: recipeById, costPerPortion: (id) => engine.recipeCost(id).cpp, mix: ctx.mix })
+  const allergens = menuAllergens(ctx.items, profiles)
+  return { recipeById, profiles, costing, allergens }
+}
@@ -1,4 +1,6 @@
 // src/lib/nutritionCalc.ts
+import { convertQty, normalizeUnit, toGrams } from './units'
+
 export type NutritionPer100g = {
   kcal_per_100g: number | null
   protein_per_100g: number | null
@@ -21,14 +23,14 @@ export type RecipeLineForCalc = {
   ingredient?: IngredientForCalc | null
 }
 
-type Totals = {
+export type Totals = {
   kcal: number
   protein_g: number
   carbs_g: number
   fat_g: number
 }
 
-type SkipReason =
+export type SkipReason =
   | 'NO_INGREDIENT_ID'
   | 'NO_INGREDIENT_JOIN'
   | 'BAD_QTY'
@@ -36,6 +38,7 @@ type SkipReason =
   | 'MISSING_DENSITY'
   | 'MISSING_GRAMS_PER_PIECE'
   | 'MISSING_NUTRITION'
+  | 'SUBRECIPE_NOT_EXPANDED'
 
 export type CalcDiagnostics = {
   total_lines: number
@@ -53,110 +56,28 @@ export type CalcDiagnostics = {
 
 const round2 = (n: number) => Math.round(n * 100) / 100
 
-// ------------- Unit Normalization -------------
-function safeUnit(u: string | null | undefined): string {
-  return (u ?? '').trim().toLowerCase()
-}
-
-function normalizeUnit(uRaw: string | null | undefined): string {
-  const u = safeUnit(uRaw)
-
-  // mass
-  if (u === 'g' || u === 'gram' || u === 'grams') return 'g'
-  if (u === 'kg' || u === 'kilogram' || u === 'kilograms') return 'kg'
-  if (u === 'mg' || u === 'milligram' || u === 'milligrams') return 'mg'
-  if (u === 'oz' || u === 'ounce' || u === 'ounces') return 'oz'
-  if (u === 'lb' || u === 'lbs' || u === 'pound' || u === 'pounds') return 'lb'
-
-  // volume
-  if (u === 'ml' || u === 'milliliter' || u === 'millilitre') return 'ml'
-  if (u === 'l' || u === 'lt' || u === 'liter' || u === 'litre') return 'l'
-  if (u === 'tsp' || u === 'teaspoon' || u === 'teaspoons') return 'tsp'
-  if (u === 'tbsp' || u === 'tablespoon' || u === 'tablespoons') return 'tbsp'
-  if (u === 'cup' || u === 'cups') return 'cup'
-  if (u === 'floz' || u === 'fl oz' || u === 'fluidounce' || u === 'fluid ounce') return 'floz'
-
-  // pieces
-  if (u === 'pcs' || u === 'pc' || u === 'piece' || u === 'pieces' || u === 'ea' || u === 'each') return 'pcs'
-
-  return u // unknown => will be unsupported later
-}
-
 // ------------- Unit Conversion -------------
-function gramsFromMass(qty: number, unit: string): number | null {
-  // returns grams
-  switch (unit) {
-    case 'g':
-      return qty
-    case 'kg':
-      return qty * 1000
-    case 'mg':
-      return qty / 1000
-    case 'oz':
-      return qty * 28.349523125
-    case 'lb':
-      return qty * 453.59237
-    default:
-      return null
-  }
-}
-
-function mlFromVolume(qty: number, unit: string): number | null {
-  // returns milliliters
-  switch (unit) {
-    case 'ml':
-      return qty
-    case 'l':
-      return qty * 1000
-    case 'tsp':
-      return qty * 4.92892159375
-    case 'tbsp':
-      return qty * 14.78676478125
-    case 'cup':
-      return qty * 236.5882365
-    case 'floz':
-      return qty * 29.5735295625
-    default:
-      return null
-  }
-}
-
 /**
- * Convert line qty+unit to grams using:
+ * Convert line qty+unit to grams using the shared units library:
  * - mass units directly
  * - volume units => ml * density_g_per_ml
  * - pcs => qty * grams_per_piece
  */
-function toGrams(
+function lineGrams(
   qty: number,
   unitRaw: string | null | undefined,
   ing: IngredientForCalc
 ): { grams: number | null; reason?: SkipReason; detail?: string; unit?: string } {
   const unit = normalizeUnit(unitRaw)
+  const res = toGrams(qty, unit, ing)
+  if (res.ok) return { grams: res.value, unit }
 
-  // 1) mass
-  const gMass = gramsFromMass(qty, unit)
-  if (gMass != null) return { grams: gMass, unit }
-
-  // 2) volume => need density
-  const ml = mlFromVolume(qty, unit)
-  if (ml != null) {
-    const density = ing.density_g_per_ml
-    if (!density || density <= 0) {
-      return { grams: null, reason: 'MISSING_DENSITY', detail: 'density_g_per_ml is null/0', unit }
-    }
-    return { grams: ml * density, unit }
+  if (res.reason === 'MISSING_DENSITY') {
+    return { grams: null, reason: 'MISSING_DENSITY', detail: 'density_g_per_ml is null/0', unit }
   }
-
-  // 3) pieces => need grams_per_piece
-  if (unit === 'pcs') {
-    const gpp = ing.grams_per_piece
-    if (!gpp || gpp <= 0) {
-      return { grams: null, reason: 'MISSING_GRAMS_PER_PIECE', detail: 'grams_per_piece is null/0', unit }
-    }
-    return { grams: qty * gpp, unit }
+  if (res.reason === 'MISSING_GRAMS_PER_PIECE') {
+    return { grams: null, reason: 'MISSING_GRAMS_PER_PIECE', detail: 'grams_per_piece is null/0', unit }
   }
-
   return { grams: null, reason: 'UNSUPPORTED_UNIT', detail: `unit="${unitRaw ?? ''}"`, unit }
 }
 
@@ -242,7 +163,7 @@ export function calcRecipeNutrition(lines: RecipeLineForCalc[]): {
       continue
     }
 
-    const g = toGrams(qty, unit, ing)
+    const g = lineGrams(qty, unit, ing)
     if (g.grams == null) {
       diag.skipped_lines++
       diag.skipped.push({
@@ -273,3 +194,91 @@ export function calcRecipeNutrition(lines: RecipeLineForCalc[]): {
 
   return { totals, diagnostics: diag }
 }
+
+// ------------- Subrecipe expansion -------------
+export type NestedLineForCalc = {
+  id?: string | null
+  recipe_id: string
+  ingredient_id?: string | null
+  sub_recipe_id?: string | null
+  qty?: number | null
+  unit?: string | null
+  line_type?: string | null
+}
+
+export type RecipeForCalc = {
+  id: string
+  name?: string | null
+  portions?: number | null
+  yield_qty?: number | null
+  yield_unit?: string | null
+}
+
+type Skip = CalcDiagnostics['skipped'][number]
+
+/**
+ * Same as calcRecipeNutrition, but subrecipe lines are expanded into their ingredients.
+ * A subrecipe line contributes (line qty / subrecipe yield) of every nested line; "portion"
+ * lines use the subrecipe's portions instead. Lines that cannot be scaled are reported as
+ * SUBRECIPE_NOT_EXPANDED rather than dropped silently.
+ */
+export function calcRecipeNutritionDeep(args: {
+  recipeId: string
+  lines: NestedLineForCalc[]
+  linesByRecipe: Map<string, NestedLineForCalc[]>
+  recipes: Map<string, RecipeForCalc>
+  ingredients: Map<string, IngredientForCalc>
+}): { totals: Totals; diagnostics: CalcDiagnostics } {
+  const flat: RecipeLineForCalc[] = []
+  const subSkips: Skip[] = []
+
+  const walk = (lines: NestedLineForCalc[], factor: number, prefix: string, visiting: Set<string>) => {
+    lines.forEach((l, idx) => {
+      if (l.line_type === 'group') return
+      const lineId = `${prefix}${l.id || `${l.recipe_id}#${idx}`}`
+
+      if (!l.sub_recipe_id) {
+        const qty = l.qty == null ? null : Number(l.qty) * factor
+        flat.push({
+          id: lineId,
+          ingredient_id: l.ingredient_id ?? null,
+          qty,
+          unit: l.unit ?? null,
+          ingredient: l.ingredient_id ? args.ingredients.get(l.ingredient_id) ?? null : null,
+        })
+        return
+      }
+
+      const sub = args.recipes.get(l.sub_recipe_id)
+      const skip = (detail: string) =>
+        subSkips.push({ line_id: lineId, ingredient_name: sub?.name || undefined, unit: l.unit ?? undefined, qty: l.qty ?? null, reason: 'SUBRECIPE_NOT_EXPANDED', detail })
+
+      if (!sub) return skip('subrecipe not found')
+      if (visiting.has(sub.id)) return skip('circular subrecipe reference')
+
+      const qty = Math.max(0, Number(l.qty) || 0)
+      let share: number | null = null
+      if (normalizeUnit(l.unit) === 'portion') {
+        share = qty / Math.max(1, Number(sub.portions) || 1)
+      } else {
+        const yq = Number(sub.yield_qty) || 0
+        if (yq <= 0 || !sub.yield_unit) return skip('subrecipe has no yield_qty/yield_unit')
+        const conv = convertQty(qty, l.unit, sub.yield_unit)
+        if (!conv.ok) return skip(`cannot convert ${l.unit || '?'} to yield unit ${sub.yield_unit}`)
+        share = conv.value / yq
+      }
+
+      const next = new Set(visiting)
+      next.add(sub.id)
+      walk(args.linesByRecipe.get(sub.id) ?? [], factor * share, `${lineId}>`, next)
+    })
+  }
+
+  walk(args.lines, 1, '', new Set([args.recipeId]))
+
+  const res = calcRecipeNutrition(flat)
+  res.diagnostics.total_lines += subSkips.length
+  res.diagnostics.skipped_lines += subSkips.length
+  res.diagnostics.skipped.push(...subSkips)
+  return res
+}
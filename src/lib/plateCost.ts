@@ -0,0 +1,331 @@
+// src/lib/plateCost.ts
+import { supabase } from './supabase'
+import { explodePlan, type PurchasingRecipe } from './purchasing'
+import type { CostingLine } from './recipeCosting'
+
+/**
+ * Labor, packaging and overhead on top of the costing engine's food cost.
+ *
+ *   prime cost  = food + labor
+ *   plate cost  = prime + packaging + overhead
+ *   overhead    = kitchen overhead_pct × (prime + packaging)
+ *
+ * Labor is the recipe's own prep and cook time (per batch, at the hourly rate of the role doing
+ * it) plus the labor of the PREP recipes it uses, carried through subrecipe lines in PREP batches
+ * the same way food cost is (yield units, or portions). Packaging lines are either per portion
+ * (a box, a lid) or per batch (a gastro liner).
+ */
+
+export type PackagingPer = 'portion' | 'batch'
+
+export type LaborRole = {
+  id: string
+  name: string
+  hourly_rate: number
+  is_active: boolean
+}
+
+export type LaborRoleDraft = Omit<LaborRole, 'id'> & { id?: string }
+
+export type RecipeLabor = {
+  prep_minutes: number | null
+  prep_role_id: string | null
+  cook_minutes: number | null
+  cook_role_id: string | null
+}
+
+export type PackagingLine = {
+  id: string
+  recipe_id: string
+  position: number
+  name: string
+  qty: number
+  unit_cost: number
+  per: PackagingPer
+}
+
+export type PackagingDraft = Omit<PackagingLine, 'id' | 'position'> & { id?: string; position?: number }
+
+export type CostSettings = { overhead_pct: number }
+
+export type PlateCost = {
+  portions: number
+  food: number
+  /** Own labor + prepLabor. */
+  labor: number
+  /** Labor of the PREP recipes used, for one batch. */
+  prepLabor: number
+  prime: number
+  packaging: number
+  overhead: number
+  plate: number
+  /** Per portion. */
+  foodPP: number
+  primePP: number
+  platePP: number
+  /** Share of the selling price, null without one. */
+  foodPct: number | null
+  primePct: number | null
+  platePct: number | null
+  /** Selling price minus plate cost, per portion. */
+  plateMargin: number | null
+}
+
+export type PlateCostContext = {
+  settings: CostSettings
+  roles: LaborRole[]
+  labor: Map<string, RecipeLabor>
+  packaging: Map<string, PackagingLine[]>
+}
+
+export const PACKAGING_PER_LABELS: Record<PackagingPer, string> = {
+  portion: 'Per portion',
+  batch: 'Per batch',
+}
+
+export const RECIPE_LABOR_FIELDS = 'prep_minutes,prep_role_id,cook_minutes,cook_role_id'
+
+const ROLE_FIELDS = 'id,name,hourly_rate,is_active'
+const PACKAGING_FIELDS = 'id,recipe_id,position,name,qty,unit_cost,per'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+const numOrNull = (v: any) => (v == null || v === '' || !Number.isFinite(Number(v)) ? null : Number(v))
+
+function toRole(r: any): LaborRole {
+  return {
+    id: String(r.id),
+    name: String(r.name || ''),
+    hourly_rate: Math.max(0, toNum(r.hourly_rate, 0)),
+    is_active: r.is_active !== false,
+  }
+}
+
+export function toRecipeLabor(r: any): RecipeLabor {
+  return {
+    prep_minutes: numOrNull(r?.prep_minutes),
+    prep_role_id: r?.prep_role_id ?? null,
+    cook_minutes: numOrNull(r?.cook_minutes),
+    cook_role_id: r?.cook_role_id ?? null,
+  }
+}
+
+function toPackaging(r: any): PackagingLine {
+  return {
+    id: String(r.id),
+    recipe_id: String(r.recipe_id),
+    position: toNum(r.position, 0),
+    name: String(r.name || ''),
+    qty: Math.max(0, toNum(r.qty, 0)),
+    unit_cost: Math.max(0, toNum(r.unit_cost, 0)),
+    per: r.per === 'batch' ? 'batch' : 'portion',
+  }
+}
+
+/* ---------------- Math ---------------- */
+
+/** Labor cost of one batch. Time without a role (or a role without a rate) costs nothing. */
+export function laborCost(labor: RecipeLabor | null | undefined, roles: LaborRole[] | Map<string, LaborRole>) {
+  if (!labor) return 0
+  const byId = roles instanceof Map ? roles : new Map(roles.map((r) => [r.id, r]))
+  const part = (minutes: number | null, roleId: string | null) =>
+    roleId ? (Math.max(0, toNum(minutes, 0)) / 60) * (byId.get(roleId)?.hourly_rate ?? 0) : 0
+  return part(labor.prep_minutes, labor.prep_role_id) + part(labor.cook_minutes, labor.cook_role_id)
+}
+
+/**
+ * Labor of the PREP recipes (nested ones included) that one batch of `recipeId` uses. Batches come
+ * from explodePlan, so a subrecipe line takes the same share of a PREP's labor as of its food cost.
+ */
+export function prepLaborCost(
+  recipeId: string,
+  args: { recipes: PurchasingRecipe[]; lines: CostingLine[]; labor: Map<string, RecipeLabor>; roles: LaborRole[] | Map<string, LaborRole> }
+) {
+  const recipe = args.recipes.find((r) => r.id === recipeId)
+  if (!recipe) return 0
+  // Only the PREP batch multiples are used; ingredient quantities don't matter here.
+  const req = explodePlan({ plan: [{ recipeId, portions: Math.max(1, toNum(recipe.portions, 1)) }], recipes: args.recipes, lines: args.lines, ingredients: [] })
+  let sum = 0
+  for (const [id, batches] of req.prep ?? []) sum += batches * laborCost(args.labor.get(id), args.roles)
+  return sum
+}
+
+/** Packaging cost of one batch of `portions`. */
+export function packagingCost(lines: PackagingLine[] | null | undefined, portions: number) {
+  let sum = 0
+  for (const l of lines ?? []) sum += l.qty * l.unit_cost * (l.per === 'portion' ? portions : 1)
+  return sum
+}
+
+export function computePlateCost(args: {
+  foodCost: number
+  portions: number | null | undefined
+  sellingPrice?: number | null
+  labor?: RecipeLabor | null
+  /** From prepLaborCost. */
+  prepLabor?: number | null
+  roles: LaborRole[] | Map<string, LaborRole>
+  packaging?: PackagingLine[] | null
+  overheadPct?: number | null
+}): PlateCost {
+  const portions = Math.max(1, toNum(args.portions, 1))
+  const food = Math.max(0, toNum(args.foodCost, 0))
+  const prepLabor = Math.max(0, toNum(args.prepLabor, 0))
+  const labor = laborCost(args.labor, args.roles) + prepLabor
+  const prime = food + labor
+  const packaging = packagingCost(args.packaging, portions)
+  const overhead = ((prime + packaging) * Math.max(0, toNum(args.overheadPct, 0))) / 100
+  const plate = prime + packaging + overhead
+
+  const sell = Math.max(0, toNum(args.sellingPrice, 0))
+  const pct = (perPortion: number) => (sell > 0 ? (perPortion / sell) * 100 : null)
+
+  return {
+    portions,
+    food,
+    labor,
+    prepLabor,
+    prime,
+    packaging,
+    overhead,
+    plate,
+    foodPP: food / portions,
+    primePP: prime / portions,
+    platePP: plate / portions,
+    foodPct: pct(food / portions),
+    primePct: pct(prime / portions),
+    platePct: pct(plate / portions),
+    plateMargin: sell > 0 ? sell - plate / portions : null,
+  }
+}
+
+/* ---------------- Settings ---------------- */
+
+export async function loadCostSettings(): Promise<CostSettings> {
+  const { data, error } = await supabase.from('kitchen_settings').select('overhead_pct').maybeSingle()
+  if (error) throw error
+  return { overhead_pct: Math.max(0, toNum((data as any)?.overhead_pct, 0)) }
+}
+
+export async function saveOverheadPct(kitchenId: string, pct: number): Promise<CostSettings> {
+  const overhead_pct = Math.min(500, Math.max(0, toNum(pct, 0)))
+  const { data, error } = await supabase
+    .from('kitchen_settings')
+    .upsert({ kitchen_id: kitchenId, overhead_pct }, { onConflict: 'kitchen_id' })
+    .select('overhead_pct')
+    .single()
+  if (error) throw error
+  return { overhead_pct: toNum((data as any)?.overhead_pct, overhead_pct) }
+}
+
+/* ---------------- Labor roles ---------------- */
+
+export async function listLaborRoles(): Promise<LaborRole[]> {
+  const { data, error } = await supabase.from('labor_roles').select(ROLE_FIELDS).order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toRole)
+}
+
+export async function saveLaborRole(draft: LaborRoleDraft): Promise<LaborRole> {
+  const name = String(draft.name || '').trim()
+  if (!name) throw new Error('Role name is required')
+  const payload = { name, hourly_rate: Math.max(0, toNum(draft.hourly_rate, 0)), is_active: draft.is_active !== false }
+  const q = draft.id ? supabase.from('labor_roles').update(payload).eq('id', draft.id) : supabase.from('labor_roles').insert(payload)
+  const { data, error } = await q.select(ROLE_FIELDS).single()
+  if (error) throw error
+  return toRole(data)
+}
+
+export async function deleteLaborRole(id: string) {
+  const { error } = await supabase.from('labor_roles').delete().eq('id', id)
+  if (error) throw error
+}
+
+/* ---------------- Recipe labor + packaging ---------------- */
+
+export async function saveRecipeLabor(recipeId: string, labor: RecipeLabor) {
+  const minutes = (v: number | null) => (v == null ? null : Math.max(0, toNum(v, 0)))
+  const { error } = await supabase
+    .from('recipes')
+    .update({
+      prep_minutes: minutes(labor.prep_minutes),
+      prep_role_id: labor.prep_role_id || null,
+      cook_minutes: minutes(labor.cook_minutes),
+      cook_role_id: labor.cook_role_id || null,
+    })
+    .eq('id', recipeId)
+  if (error) throw error
+}
+
+/** Packaging lines of one recipe, or of the whole kitchen. */
+export async function listPackaging(recipeId?: string | null): Promise<PackagingLine[]> {
+  let q = supabase.from('recipe_packaging').select(PACKAGING_FIELDS).order('position', { ascending: true })
+  if (recipeId) q = q.eq('recipe_id', recipeId)
+  const { data, error } = await q
+  if (error) throw error
+  return (data ?? []).map(toPackaging)
+}
+
+export async function savePackagingLine(draft: PackagingDraft): Promise<PackagingLine> {
+  const name = String(draft.name || '').trim()
+  if (!name) throw new Error('Packaging name is required')
+  const payload = {
+    recipe_id: draft.recipe_id,
+    name,
+    qty: Math.max(0, toNum(draft.qty, 0)),
+    unit_cost: Math.max(0, toNum(draft.unit_cost, 0)),
+    per: draft.per === 'batch' ? 'batch' : 'portion',
+    ...(draft.position != null ? { position: draft.position } : {}),
+  }
+  const q = draft.id
+    ? supabase.from('recipe_packaging').update(payload).eq('id', draft.id)
+    : supabase.from('recipe_packaging').insert(payload)
+  const { data, error } = await q.select(PACKAGING_FIELDS).single()
+  if (error) throw error
+  return toPackaging(data)
+}
+
+export async function deletePackagingLine(id: string) {
+  const { error } = await supabase.from('recipe_packaging').delete().eq('id', id)
+  if (error) throw error
+}
+
+/** Everything needed to plate-cost every recipe of the kitchen (dashboard, reports). */
+export async function loadPlateCostContext(): Promise<PlateCostContext> {
+  const [settings, roles, rec, packaging] = await Promise.all([
+    loadCostSettings(),
+    listLaborRoles(),
+    supabase.from('recipes').select(`id,${RECIPE_LABOR_FIELDS}`),
+    listPackaging(),
+  ])
+  if (rec.error) throw rec.error
+  const byRecipe = new Map<string, PackagingLine[]>()
+  for (const p of packaging) {
+    if (!byRecipe.has(p.recipe_id)) byRecipe.set(p.recipe_id, [])
+    byRecipe.get(p.recipe_id)!.push(p)
+  }
+  return {
+    settings,
+    roles,
+    labor: new Map((rec.data ?? []).map((r: any) => [String(r.id), toRecipeLabor(r)])),
+    packaging: byRecipe,
+  }
+}
+
+/** Settings, roles, labor and packaging of one recipe (editor), plus every recipe's labor for PREP roll-up. */
+export async function loadRecipePlateCost(recipeId: string) {
+  const [settings, roles, rec, packaging] = await Promise.all([
+    loadCostSettings(),
+    listLaborRoles(),
+    supabase.from('recipes').select(`id,${RECIPE_LABOR_FIELDS}`),
+    listPackaging(recipeId),
+  ])
+  if (rec.error) throw rec.error
+  const laborByRecipe = new Map((rec.data ?? []).map((r: any) => [String(r.id), toRecipeLabor(r)]))
+  const labor = laborByRecipe.get(recipeId)
+  if (!labor) throw new Error('Recipe not found')
+  return { settings, roles, labor, laborByRecipe, packaging }
+}
@@ -0,0 +1,286 @@
+// src/lib/prepPlan.ts
+import { supabase } from './supabase'
+import { groupLinesByRecipe, lineQuantities, lineTypeOf, loadCostingLines, type CostingLine } from './recipeCosting'
+import { PURCHASING_INGREDIENT_FIELDS, type PurchasingIngredient, type PurchasingRecipe, type RequirementIssue } from './purchasing'
+import { convertQty, normalizeUnit, unitFamily } from './units'
+
+/**
+ * Consolidated prep list for a service: dishes × expected covers exploded through their
+ * PREP recipes. Every PREP becomes its own task (in recipe multiples), and ingredient lines
+ * are merged across recipes in one base unit per ingredient (g / ml / pcs, from the
+ * ingredient's pack_unit), then grouped by station or ingredient category.
+ *
+ * Quantities are net (what the recipe calls for); `gross` adds line and ingredient trim
+ * loss — what has to be pulled from the walk-in. Subrecipes scale with the same rule as
+ * explodePlan in purchasing.
+ *
+ * The plan and its check marks live in localStorage, like cook sessions, so a tablet on
+ * the pass keeps its ticks through a reload.
+ */
+
+export type PrepGroupBy = 'station' | 'category'
+
+export type PrepPlanEntry = { recipeId: string; covers: number }
+
+export type PrepPlan = {
+  name: string
+  date: string
+  entries: PrepPlanEntry[]
+  groupBy: PrepGroupBy
+  /** task key → done */
+  checked: Record<string, boolean>
+  updatedAt: string
+}
+
+export type PrepRecipe = PurchasingRecipe & {
+  code?: string | null
+  category?: string | null
+  station?: string | null
+  is_subrecipe?: boolean | null
+  is_archived?: boolean | null
+}
+
+export type PrepIngredient = PurchasingIngredient & { category?: string | null }
+
+export type PrepIngredientTask = {
+  key: string
+  ingredientId: string
+  group: string
+  /** net quantity in `unit` */
+  qty: number
+  /** quantity to pull, after trim loss, in `unit` */
+  gross: number
+  unit: string
+  /** recipes whose lines call for it */
+  usedIn: string[]
+}
+
+export type PrepRecipeTask = {
+  key: string
+  recipeId: string
+  station: string
+  /** recipe multiples to make */
+  factor: number
+  /** deepest nesting level it was reached at — deeper PREPs are made first */
+  depth: number
+  usedIn: string[]
+}
+
+export type PrepList = {
+  preps: PrepRecipeTask[]
+  groups: Array<{ group: string; tasks: PrepIngredientTask[] }>
+  issues: RequirementIssue[]
+}
+
+export type PrepContext = {
+  recipes: PrepRecipe[]
+  ingredients: PrepIngredient[]
+  lines: CostingLine[]
+}
+
+export const PREP_GROUP_LABELS: Record<PrepGroupBy, string> = {
+  station: 'Station',
+  category: 'Ingredient category',
+}
+
+export const NO_STATION = 'Unassigned'
+export const NO_CATEGORY = 'Uncategorised'
+
+const PREP_RECIPE_FIELDS = 'id,code,name,category,station,portions,yield_qty,yield_unit,is_subrecipe,is_archived'
+const PLAN_KEY = 'gc_prep_plan_v1'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function ingredientYield(i: PrepIngredient | undefined) {
+  return Math.min(100, Math.max(0.0001, toNum(i?.yield_percent, 100))) / 100
+}
+
+/** Base unit an ingredient is merged in: its pack_unit's family base, else the pack_unit itself. */
+function mergeUnit(ing: PrepIngredient, lineUnit: string | null | undefined) {
+  const pack = normalizeUnit(ing.pack_unit) || normalizeUnit(lineUnit)
+  const family = unitFamily(pack)
+  if (family === 'mass') return 'g'
+  if (family === 'volume') return 'ml'
+  if (family === 'count') return 'pcs'
+  return pack
+}
+
+/** Bigger unit for display once a base quantity reaches 1000 (g → kg, ml → l). */
+export function displayQty(qty: number, unit: string) {
+  if (unit === 'g' && qty >= 1000) return { qty: qty / 1000, unit: 'kg' }
+  if (unit === 'ml' && qty >= 1000) return { qty: qty / 1000, unit: 'l' }
+  return { qty, unit }
+}
+
+/* ---------------- Plan storage ---------------- */
+
+export function emptyPrepPlan(): PrepPlan {
+  return { name: '', date: new Date().toISOString().slice(0, 10), entries: [], groupBy: 'station', checked: {}, updatedAt: new Date().toISOString() }
+}
+
+export function loadPrepPlan(): PrepPlan {
+  try {
+    const raw = localStorage.getItem(PLAN_KEY)
+    if (!raw) return emptyPrepPlan()
+    const p = JSON.parse(raw) as Partial<PrepPlan>
+    return {
+      ...emptyPrepPlan(),
+      ...p,
+      entries: Array.isArray(p.entries) ? p.entries.filter((e) => e && typeof e.recipeId === 'string') : [],
+      checked: p.checked && typeof p.checked === 'object' ? p.checked : {},
+    }
+  } catch {
+    return emptyPrepPlan()
+  }
+}
+
+export function savePrepPlan(patch: Partial<PrepPlan>) {
+  const next: PrepPlan = { ...loadPrepPlan(), ...patch, updatedAt: new Date().toISOString() }
+  localStorage.setItem(PLAN_KEY, JSON.stringify(next))
+  return next
+}
+
+/* ---------------- Data ---------------- */
+
+export async function loadPrepContext(): Promise<PrepContext> {
+  const [rec, ing, lines] = await Promise.all([
+    supabase.from('recipes').select(PREP_RECIPE_FIELDS).order('name', { ascending: true }),
+    supabase.from('ingredients').select(`${PURCHASING_INGREDIENT_FIELDS},category`),
+    loadCostingLines(),
+  ])
+  if (rec.error) throw rec.error
+  if (ing.error) throw ing.error
+  return { recipes: (rec.data ?? []) as PrepRecipe[], ingredients: (ing.data ?? []) as PrepIngredient[], lines }
+}
+
+export async function setRecipeStation(recipeId: string, station: string) {
+  const { error } = await supabase.from('recipes').update({ station: station.trim() || null }).eq('id', recipeId)
+  if (error) throw error
+}
+
+/* ---------------- Explosion ---------------- */
+
+export function buildPrepList(args: PrepContext & { plan: PrepPlanEntry[]; groupBy: PrepGroupBy }): PrepList {
+  const recipeById = new Map(args.recipes.map((r) => [r.id, r]))
+  const ingById = new Map(args.ingredients.map((i) => [i.id, i]))
+  const linesByRecipe = groupLinesByRecipe(args.lines)
+  const tasks = new Map<string, PrepIngredientTask>()
+  const preps = new Map<string, PrepRecipeTask>()
+  const issues: RequirementIssue[] = []
+  const stack = new Set<string>()
+
+  const stationOf = (r: PrepRecipe | undefined, inherited: string) => (r?.station || '').trim() || inherited
+
+  function addIngredient(ing: PrepIngredient, recipeId: string, station: string, net: number, gross: number, unit: string) {
+    const group = args.groupBy === 'station' ? station : (ing.category || '').trim() || NO_CATEGORY
+    const key = `ing:${group}|${ing.id}|${unit}`
+    const cur = tasks.get(key)
+    if (!cur) {
+      tasks.set(key, { key, ingredientId: ing.id, group, qty: net, gross, unit, usedIn: [recipeId] })
+      return
+    }
+    cur.qty += net
+    cur.gross += gross
+    if (!cur.usedIn.includes(recipeId)) cur.usedIn.push(recipeId)
+  }
+
+  function walk(recipeId: string, factor: number, station: string, depth: number, parentId: string | null) {
+    if (!(factor > 0)) return
+    if (stack.has(recipeId)) {
+      issues.push({ recipeId, itemId: recipeId, message: 'Circular subrecipe reference' })
+      return
+    }
+    const recipe = recipeById.get(recipeId)
+    const here = stationOf(recipe, station)
+    if (parentId) {
+      const key = `prep:${recipeId}`
+      const cur = preps.get(key)
+      if (!cur) preps.set(key, { key, recipeId, station: here, factor, depth, usedIn: [parentId] })
+      else {
+        cur.factor += factor
+        cur.depth = Math.max(cur.depth, depth)
+        if (!cur.usedIn.includes(parentId)) cur.usedIn.push(parentId)
+      }
+    }
+    stack.add(recipeId)
+    try {
+      for (const l of linesByRecipe.get(recipeId) ?? []) {
+        const type = lineTypeOf(l)
+        if (type === 'group') continue
+        const q = lineQuantities(l)
+        const net = q.net * factor
+        const gross = q.gross * factor
+        if (!(gross > 0)) continue
+
+        if (type === 'ingredient') {
+          const ing = l.ingredient_id ? ingById.get(l.ingredient_id) : undefined
+          if (!ing) {
+            issues.push({ recipeId, itemId: l.ingredient_id ?? null, message: 'Missing ingredient' })
+            continue
+          }
+          const unit = mergeUnit(ing, l.unit)
+          const rate = convertQty(1, l.unit, unit, ing)
+          if (!rate.ok) {
+            // Keep it on the list in the recipe's own unit rather than dropping it.
+            issues.push({ recipeId, itemId: ing.id, message: `${ing.name || 'Ingredient'}: can't convert ${rate.from} → ${rate.to}` })
+            addIngredient(ing, recipeId, here, net, gross / ingredientYield(ing), normalizeUnit(l.unit) || unit)
+            continue
+          }
+          addIngredient(ing, recipeId, here, net * rate.value, (gross * rate.value) / ingredientYield(ing), unit)
+          continue
+        }
+
+        const sub = l.sub_recipe_id ? recipeById.get(l.sub_recipe_id) : undefined
+        if (!sub) {
+          issues.push({ recipeId, itemId: l.sub_recipe_id ?? null, message: 'Missing subrecipe' })
+          continue
+        }
+        const subPortions = Math.max(1, toNum(sub.portions, 1))
+        const yq = toNum(sub.yield_qty, 0)
+        const unit = normalizeUnit(l.unit)
+        if (unit === 'portion') {
+          walk(sub.id, gross / subPortions, here, depth + 1, recipeId)
+          continue
+        }
+        if (!(yq > 0) || !sub.yield_unit) {
+          issues.push({ recipeId, itemId: sub.id, message: `${sub.name || 'Subrecipe'}: no yield set, can't use ${l.unit || 'this unit'}` })
+          continue
+        }
+        const conv = convertQty(gross, unit, sub.yield_unit)
+        if (!conv.ok) {
+          issues.push({ recipeId, itemId: sub.id, message: `${sub.name || 'Subrecipe'}: can't convert ${conv.from} → ${conv.to}` })
+          continue
+        }
+        walk(sub.id, conv.value / yq, here, depth + 1, recipeId)
+      }
+    } finally {
+      stack.delete(recipeId)
+    }
+  }
+
+  for (const p of args.plan) {
+    const r = recipeById.get(p.recipeId)
+    if (!r || !(p.covers > 0)) continue
+    walk(r.id, p.covers / Math.max(1, toNum(r.portions, 1)), stationOf(r, NO_STATION), 0, null)
+  }
+
+  const nameOf = (id: string) => recipeById.get(id)?.name || ''
+  const ingName = (id: string) => ingById.get(id)?.name || ''
+  const byGroup = new Map<string, PrepIngredientTask[]>()
+  for (const t of tasks.values()) {
+    if (!byGroup.has(t.group)) byGroup.set(t.group, [])
+    byGroup.get(t.group)!.push(t)
+  }
+  const fallback = args.groupBy === 'station' ? NO_STATION : NO_CATEGORY
+
+  return {
+    preps: [...preps.values()].sort((a, b) => b.depth - a.depth || nameOf(a.recipeId).localeCompare(nameOf(b.recipeId))),
+    groups: [...byGroup.entries()]
+      .map(([group, list]) => ({ group, tasks: list.sort((a, b) => ingName(a.ingredientId).localeCompare(ingName(b.ingredientId))) }))
+      .sort((a, b) => (a.group === fallback ? 1 : b.group === fallback ? -1 : a.group.localeCompare(b.group))),
+    issues,
+  }
+}
@@ -0,0 +1,129 @@
+// src/lib/priceImpact.ts
+import { createCostingEngine, priceMetrics, type CostingIngredient, type CostingLine, type CostingRecipe } from './recipeCosting'
+import { buildRecipeGraph, whereUsedIngredient } from './recipeGraph'
+
+/**
+ * "What happens to my dishes if these ingredient prices change?"
+ * Costs every affected recipe (direct users + parents through PREP recipes) twice — with the
+ * current net_unit_cost and with the proposed one — and flags recipes pushed past their target food cost.
+ */
+
+export type ImpactRecipe = CostingRecipe & {
+  name: string | null
+  code?: string | null
+  is_subrecipe?: boolean | null
+  target_food_cost_pct?: number | null
+  currency?: string | null
+}
+
+export type PriceImpactRow = {
+  recipeId: string
+  name: string
+  code: string | null
+  isPrep: boolean
+  /** 1 = uses a changed ingredient directly, 2+ = through PREP recipes. */
+  depth: number
+  /** Changed ingredients this recipe depends on. */
+  ingredientIds: string[]
+  currency: string
+  oldCpp: number
+  newCpp: number
+  deltaCpp: number
+  deltaPct: number | null
+  sellingPrice: number | null
+  oldFcPct: number | null
+  newFcPct: number | null
+  targetPct: number | null
+  /** Was at/under target, now over it. */
+  crossesTarget: boolean
+  /** Over target after the change (whether or not it already was). */
+  overTarget: boolean
+}
+
+export type PriceImpactSummary = {
+  affected: number
+  crossing: number
+  overTarget: number
+  increased: number
+  decreased: number
+}
+
+/** `changes`: ingredient id → proposed net_unit_cost. */
+export function computePriceImpact(args: {
+  ingredients: CostingIngredient[]
+  recipes: ImpactRecipe[]
+  lines: CostingLine[]
+  changes: Map<string, number>
+}): PriceImpactRow[] {
+  const { ingredients, recipes, lines, changes } = args
+  if (!changes.size) return []
+
+  const graph = buildRecipeGraph(lines)
+  const affected = new Map<string, { depth: number; ingredientIds: Set<string> }>()
+  for (const ingId of changes.keys()) {
+    for (const e of whereUsedIngredient(graph, ingId)) {
+      const cur = affected.get(e.recipeId)
+      if (!cur) affected.set(e.recipeId, { depth: e.depth, ingredientIds: new Set([ingId]) })
+      else {
+        cur.depth = Math.min(cur.depth, e.depth)
+        cur.ingredientIds.add(ingId)
+      }
+    }
+  }
+  if (!affected.size) return []
+
+  const before = createCostingEngine({ ingredients, recipes, lines })
+  const patched = ingredients.map((i) => (changes.has(i.id) ? { ...i, net_unit_cost: changes.get(i.id)! } : i))
+  const after = createCostingEngine({ ingredients: patched, recipes, lines })
+  const recipeById = new Map(recipes.map((r) => [r.id, r]))
+
+  const rows: PriceImpactRow[] = []
+  for (const [rid, info] of affected) {
+    const r = recipeById.get(rid)
+    if (!r) continue
+    const oldCpp = before.recipeCost(rid).cpp
+    const newCpp = after.recipeCost(rid).cpp
+    const sell = r.selling_price != null && Number(r.selling_price) > 0 ? Number(r.selling_price) : null
+    const oldFcPct = priceMetrics(oldCpp, sell).fcPct
+    const newFcPct = priceMetrics(newCpp, sell).fcPct
+    const target = r.target_food_cost_pct != null && Number(r.target_food_cost_pct) > 0 ? Number(r.target_food_cost_pct) : null
+    const overTarget = target != null && newFcPct != null && newFcPct > target
+    rows.push({
+      recipeId: rid,
+      name: r.name || 'Recipe',
+      code: r.code ?? null,
+      isPrep: !!r.is_subrecipe,
+      depth: info.depth,
+      ingredientIds: [...info.ingredientIds],
+      currency: (r.currency || 'USD').toUpperCase(),
+      oldCpp,
+      newCpp,
+      deltaCpp: newCpp - oldCpp,
+      deltaPct: oldCpp > 0 ? ((newCpp - oldCpp) / oldCpp) * 100 : null,
+      sellingPrice: sell,
+      oldFcPct,
+      newFcPct,
+      targetPct: target,
+      crossesTarget: overTarget && oldFcPct != null && oldFcPct <= target!,
+      overTarget,
+    })
+  }
+
+  return rows.sort(
+    (a, b) =>
+      Number(b.crossesTarget) - Number(a.crossesTarget) ||
+      Number(b.overTarget) - Number(a.overTarget) ||
+      Math.abs(b.deltaCpp) - Math.abs(a.deltaCpp) ||
+      a.name.localeCompare(b.name)
+  )
+}
+
+export function summarizePriceImpact(rows: PriceImpactRow[]): PriceImpactSummary {
+  return {
+    affected: rows.length,
+    crossing: rows.filter((r) => r.crossesTarget).length,
+    overTarget: rows.filter((r) => r.overTarget).length,
+    increased: rows.filter((r) => r.deltaCpp > 1e-9).length,
+    decreased: rows.filter((r) => r.deltaCpp < -1e-9).length,
+  }
+}
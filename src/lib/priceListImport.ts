@@ -0,0 +1,282 @@
+// src/lib/priceListImport.ts
+import { supabase } from './supabase'
+import { findColumn, parseNumber } from './csv'
+import { normalizeIngredientCode, type ImportSheet } from './ingredientImport'
+import { listOffers, type SupplierOffer } from './suppliers'
+import { tryRecordIngredientCostChanges } from './costHistory'
+import { invalidateIngredientsCache } from './ingredientsCache'
+
+/**
+ * Monthly supplier price sheets → reviewed pack_price changes.
+ *
+ * Rows match an ingredient by code, then by the supplier's SKU (offers of the picked supplier),
+ * then by name (exact after normalizing, else the closest name above FUZZY_MIN). When the
+ * ingredient has an offer from that supplier the offer is repriced, and only a preferred offer
+ * moves the ingredient (DB trigger); otherwise ingredients.pack_price is set directly.
+ * Accepted rows are written by apply_supplier_price_list() in one transaction.
+ */
+
+export type PriceField = 'code' | 'sku' | 'name' | 'pack_price'
+
+export const PRICE_FIELDS: Array<{ key: PriceField; label: string; required?: boolean }> = [
+  { key: 'code', label: 'Ingredient code' },
+  { key: 'sku', label: 'Supplier SKU' },
+  { key: 'name', label: 'Name' },
+  { key: 'pack_price', label: 'New pack price', required: true },
+]
+
+const FIELD_ALIASES: Record<PriceField, string[]> = {
+  code: ['code', 'ingredient_code', 'ing_code', 'our_code'],
+  sku: ['sku', 'supplier_sku', 'article', 'article_no', 'item_code', 'item_no', 'product_code', 'ref', 'reference'],
+  name: ['name', 'description', 'product', 'item', 'item_name', 'ingredient', 'designation'],
+  pack_price: ['pack_price', 'price', 'new_price', 'unit_price', 'net_price', 'cost'],
+}
+
+export type PriceMapping = Record<PriceField, number>
+
+export type PriceMatchBy = 'code' | 'sku' | 'name' | 'fuzzy'
+
+export const MATCH_LABELS: Record<PriceMatchBy, string> = {
+  code: 'Code',
+  sku: 'Supplier SKU',
+  name: 'Name',
+  fuzzy: 'Similar name',
+}
+
+/** Closest-name matches below this similarity (0..1) are left unmatched. */
+export const FUZZY_MIN = 0.6
+
+export type PriceListRow = {
+  row: number
+  label: string
+  newPrice: number | null
+  ingredientId: string | null
+  ingredientName: string | null
+  ingredientCode: string | null
+  matchedBy: PriceMatchBy | null
+  /** Name similarity for fuzzy matches. */
+  score: number | null
+  /** Set when the supplier's offer is repriced instead of the ingredient. */
+  offerId: string | null
+  offerPreferred: boolean
+  oldPrice: number | null
+  oldNet: number | null
+  newNet: number | null
+  /** pack_price change in %, null when the old price is 0. */
+  pricePct: number | null
+  netPct: number | null
+  errors: string[]
+  warnings: string[]
+  /** Suggested default for the accept checkbox. */
+  accept: boolean
+}
+
+type PriceIngredient = {
+  id: string
+  code: string | null
+  name: string
+  pack_size: number
+  pack_price: number
+  net_unit_cost: number | null
+  yield_percent: number
+}
+
+const numOrNull = (v: any) => (v == null || v === '' || !Number.isFinite(Number(v)) ? null : Number(v))
+
+function pctChange(before: number | null, after: number | null) {
+  if (before == null || after == null || !(Math.abs(before) > 1e-9)) return null
+  return ((after - before) / before) * 100
+}
+
+/** Lowercase, no accents or punctuation, single spaces. */
+export function normalizeName(s: string) {
+  return String(s || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function bigrams(s: string) {
+  const t = ` ${s} `
+  const out = new Map<string, number>()
+  for (let i = 0; i < t.length - 1; i++) {
+    const g = t.slice(i, i + 2)
+    out.set(g, (out.get(g) ?? 0) + 1)
+  }
+  return out
+}
+
+/** Dice coefficient on character bigrams of two normalized names. */
+export function nameSimilarity(a: string, b: string) {
+  if (!a || !b) return 0
+  if (a === b) return 1
+  const A = bigrams(a)
+  const B = bigrams(b)
+  let hit = 0
+  let total = 0
+  for (const [g, n] of A) {
+    hit += Math.min(n, B.get(g) ?? 0)
+    total += n
+  }
+  for (const n of B.values()) total += n
+  return total ? (2 * hit) / total : 0
+}
+
+export function guessPriceMapping(header: string[]): PriceMapping {
+  const lower = header.map((h) => h.trim().toLowerCase())
+  const used = new Set<number>()
+  const out = {} as PriceMapping
+  for (const f of PRICE_FIELDS) {
+    const idx = findColumn(lower, FIELD_ALIASES[f.key])
+    out[f.key] = idx >= 0 && !used.has(idx) ? idx : -1
+    if (out[f.key] >= 0) used.add(idx)
+  }
+  return out
+}
+
+async function loadPriceIngredients(): Promise<PriceIngredient[]> {
+  const pageSize = 1000
+  const out: PriceIngredient[] = []
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .select('id,code,name,pack_size,pack_price,net_unit_cost,yield_percent')
+      .order('name', { ascending: true })
+      .range(offset, offset + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []).map((r: any) => ({
+      id: String(r.id),
+      code: r.code ? String(r.code).toUpperCase() : null,
+      name: String(r.name || ''),
+      pack_size: Math.max(1e-9, Number(r.pack_size) || 1),
+      pack_price: Number(r.pack_price) || 0,
+      net_unit_cost: numOrNull(r.net_unit_cost),
+      yield_percent: Math.min(100, Math.max(0.0001, Number(r.yield_percent ?? 100) || 100)),
+    }))
+    out.push(...rows)
+    if (rows.length < pageSize) break
+  }
+  return out
+}
+
+/** Matches every sheet row and prices the change. `supplierId` enables SKU matching and offer repricing. */
+export async function previewPriceList(sheet: ImportSheet, mapping: PriceMapping, supplierId: string | null): Promise<PriceListRow[]> {
+  if (mapping.pack_price < 0) throw new Error('Pick the price column')
+  if (mapping.code < 0 && mapping.sku < 0 && mapping.name < 0) throw new Error('Pick at least one of code, SKU or name')
+
+  const [ingredients, offers] = await Promise.all([loadPriceIngredients(), supplierId ? listOffers() : Promise.resolve([] as SupplierOffer[])])
+  const supplierOffers = offers.filter((o) => o.supplier_id === supplierId)
+
+  const byId = new Map(ingredients.map((i) => [i.id, i]))
+  const byCode = new Map(ingredients.filter((i) => i.code).map((i) => [i.code!, i]))
+  const bySku = new Map(supplierOffers.filter((o) => o.supplier_sku).map((o) => [o.supplier_sku!.trim().toUpperCase(), o]))
+  const offerByIngredient = new Map(supplierOffers.map((o) => [o.ingredient_id, o]))
+  const named = ingredients.map((i) => ({ i, key: normalizeName(i.name) }))
+  const byName = new Map(named.map((x) => [x.key, x.i]))
+
+  const cell = (cells: string[], f: PriceField) => (mapping[f] >= 0 ? String(cells[mapping[f]] ?? '').trim() : '')
+  const seen = new Map<string, number>()
+
+  return sheet.rows.map((cells, idx) => {
+    const row = idx + 2
+    const errors: string[] = []
+    const warnings: string[] = []
+    const code = normalizeIngredientCode(cell(cells, 'code'))
+    const sku = cell(cells, 'sku')
+    const name = cell(cells, 'name')
+    const rawPrice = cell(cells, 'pack_price')
+    const newPrice = parseNumber(rawPrice)
+    if (!rawPrice) errors.push('No price')
+    else if (newPrice == null || newPrice < 0) errors.push(`Price "${rawPrice}" must be a number of 0 or more`)
+
+    let ing: PriceIngredient | undefined
+    let matchedBy: PriceMatchBy | null = null
+    let score: number | null = null
+    if (code && byCode.has(code)) {
+      ing = byCode.get(code)
+      matchedBy = 'code'
+    } else if (sku && bySku.has(sku.toUpperCase())) {
+      ing = byId.get(bySku.get(sku.toUpperCase())!.ingredient_id)
+      matchedBy = ing ? 'sku' : null
+    } else if (name) {
+      const key = normalizeName(name)
+      ing = byName.get(key)
+      if (ing) matchedBy = 'name'
+      else {
+        let best: { i: PriceIngredient; s: number } | null = null
+        for (const x of named) {
+          const s = nameSimilarity(key, x.key)
+          if (!best || s > best.s) best = { i: x.i, s }
+        }
+        if (best && best.s >= FUZZY_MIN) {
+          ing = best.i
+          matchedBy = 'fuzzy'
+          score = best.s
+        }
+      }
+    }
+    if (!ing) errors.push('No matching ingredient')
+
+    if (ing) {
+      const prev = seen.get(ing.id)
+      if (prev) errors.push(`Same ingredient as row ${prev}`)
+      else seen.set(ing.id, row)
+    }
+
+    const offer = ing ? offerByIngredient.get(ing.id) ?? null : null
+    const oldPrice = offer ? offer.pack_price : ing ? ing.pack_price : null
+    const oldNet = ing?.net_unit_cost ?? null
+    let newNet = oldNet
+    if (ing && newPrice != null && newPrice >= 0) {
+      if (!offer) newNet = newPrice / ing.pack_size / (ing.yield_percent / 100)
+      else if (offer.is_preferred) newNet = newPrice / Math.max(1e-9, offer.pack_size) / (ing.yield_percent / 100)
+    }
+    if (offer && !offer.is_preferred) warnings.push('Updates this supplier’s offer only; the ingredient is priced from another supplier')
+    if (supplierId && ing && !offer) warnings.push('No offer from this supplier; the ingredient price is updated')
+
+    const changed = oldPrice == null || newPrice == null || Math.abs(newPrice - oldPrice) > 1e-9
+    if (ing && !errors.length && !changed) warnings.push('Price unchanged')
+
+    return {
+      row,
+      label: name || sku || code || `Row ${row}`,
+      newPrice,
+      ingredientId: ing?.id ?? null,
+      ingredientName: ing?.name ?? null,
+      ingredientCode: ing?.code ?? null,
+      matchedBy,
+      score,
+      offerId: offer?.id ?? null,
+      offerPreferred: !!offer?.is_preferred,
+      oldPrice,
+      oldNet,
+      newNet,
+      pricePct: pctChange(oldPrice, newPrice),
+      netPct: pctChange(oldNet, newNet),
+      errors,
+      warnings,
+      accept: !!ing && !errors.length && changed && matchedBy !== 'fuzzy',
+    }
+  })
+}
+
+/**
+ * Writes the accepted rows in one call, then records cost history. Returns how many rows were
+ * applied; `historyError` is set when the prices were saved but the history was not.
+ */
+export async function applyPriceList(rows: PriceListRow[]): Promise<{ applied: number; costPoints: number; historyError: string | null }> {
+  const accepted = rows.filter((r) => r.ingredientId && r.newPrice != null && !r.errors.length)
+  if (!accepted.length) return { applied: 0, costPoints: 0, historyError: null }
+
+  const { data, error } = await supabase.rpc('apply_supplier_price_list', {
+    p_rows: accepted.map((r) => ({ ingredient_id: r.ingredientId, offer_id: r.offerId, pack_price: r.newPrice })),
+  })
+  if (error) throw error
+
+  invalidateIngredientsCache()
+  const changes = ((data ?? []) as any[]).map((d) => ({ id: String(d.ingredient_id), before: numOrNull(d.before_net), after: numOrNull(d.after_net) }))
+  const history = await tryRecordIngredientCostChanges(changes)
+  return { applied: accepted.length, costPoints: history.points, historyError: history.error }
+}
@@ -0,0 +1,262 @@
+// src/lib/production.ts
+import { supabase } from './supabase'
+import { type CostingLine } from './recipeCosting'
+import { explodePlan, type PurchasingIngredient, type PurchasingRecipe, type RequirementIssue } from './purchasing'
+import { ensureDefaultLocation, hasMovementsFor, postMovements, rollbackMovementsFor, type MovementInput } from './inventory'
+
+/**
+ * Production batches (tables production_batches / production_batch_lines).
+ *
+ * A batch is one run of a PREP recipe: the planned output (in the recipe's yield_unit)
+ * is exploded to ingredients the same way purchasing does it, and those quantities are
+ * snapshotted with their net_unit_cost. Finishing a batch records the actual yield,
+ * consumes the components from stock and stocks the PREP output at the batch's real
+ * cost per yield unit. Nested PREPs are exploded to their ingredients, not taken from
+ * PREP stock.
+ */
+
+export type BatchStatus = 'open' | 'finished'
+
+export type ProductionIngredient = PurchasingIngredient & { net_unit_cost?: number | null }
+
+export type ProductionBatch = {
+  id: string
+  code: string | null
+  recipe_id: string
+  location_id: string | null
+  status: BatchStatus
+  yield_unit: string | null
+  planned_qty: number
+  actual_qty: number | null
+  total_cost: number
+  expiry_date: string | null
+  notes: string | null
+  finished_at: string | null
+  created_at: string
+}
+
+export type ProductionBatchLine = {
+  id: string
+  batch_id: string
+  ingredient_id: string | null
+  unit: string | null
+  planned_qty: number
+  actual_qty: number | null
+  unit_cost: number
+}
+
+export type YieldVariance = {
+  /** actual − planned, in yield_unit */
+  diff: number
+  /** diff as % of planned */
+  pct: number
+}
+
+const BATCH_FIELDS = 'id,code,recipe_id,location_id,status,yield_unit,planned_qty,actual_qty,total_cost,expiry_date,notes,finished_at,created_at'
+const BATCH_LINE_FIELDS = 'id,batch_id,ingredient_id,unit,planned_qty,actual_qty,unit_cost'
+
+export const PRODUCTION_INGREDIENT_FIELDS = 'id,code,name,pack_size,pack_unit,pack_price,net_unit_cost,yield_percent,is_active,density_g_per_ml,grams_per_piece'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function toBatch(r: any): ProductionBatch {
+  return {
+    id: String(r.id),
+    code: r.code ?? null,
+    recipe_id: String(r.recipe_id),
+    location_id: r.location_id ?? null,
+    status: (r.status || 'open') as BatchStatus,
+    yield_unit: r.yield_unit ?? null,
+    planned_qty: toNum(r.planned_qty, 0),
+    actual_qty: r.actual_qty == null ? null : toNum(r.actual_qty, 0),
+    total_cost: toNum(r.total_cost, 0),
+    expiry_date: r.expiry_date ?? null,
+    notes: r.notes ?? null,
+    finished_at: r.finished_at ?? null,
+    created_at: String(r.created_at),
+  }
+}
+
+function toBatchLine(r: any): ProductionBatchLine {
+  return {
+    id: String(r.id),
+    batch_id: String(r.batch_id),
+    ingredient_id: r.ingredient_id ?? null,
+    unit: r.unit ?? null,
+    planned_qty: toNum(r.planned_qty, 0),
+    actual_qty: r.actual_qty == null ? null : toNum(r.actual_qty, 0),
+    unit_cost: toNum(r.unit_cost, 0),
+  }
+}
+
+/** Output unit of a PREP: its yield_unit, or portions when no yield is set. */
+export function batchUnit(recipe: PurchasingRecipe) {
+  return toNum(recipe.yield_qty, 0) > 0 && recipe.yield_unit ? recipe.yield_unit : 'portion'
+}
+
+/** How many times the recipe is made to get `qty` of output (in batchUnit). */
+export function batchFactor(recipe: PurchasingRecipe, qty: number) {
+  const yq = toNum(recipe.yield_qty, 0)
+  const base = yq > 0 && recipe.yield_unit ? yq : Math.max(1, toNum(recipe.portions, 1))
+  return Math.max(0, toNum(qty, 0)) / base
+}
+
+/** Component quantities used: actual where entered, else planned. */
+export function lineUsedQty(l: ProductionBatchLine) {
+  return l.actual_qty ?? l.planned_qty
+}
+
+export function batchCost(lines: ProductionBatchLine[]) {
+  return lines.reduce((s, l) => s + lineUsedQty(l) * l.unit_cost, 0)
+}
+
+export function yieldVariance(b: Pick<ProductionBatch, 'planned_qty' | 'actual_qty'>): YieldVariance | null {
+  if (b.actual_qty == null || !(b.planned_qty > 0)) return null
+  const diff = b.actual_qty - b.planned_qty
+  return { diff, pct: (diff / b.planned_qty) * 100 }
+}
+
+/** Cost per output unit, on the actual yield once known. */
+export function costPerUnit(b: Pick<ProductionBatch, 'planned_qty' | 'actual_qty'>, cost: number) {
+  const qty = b.actual_qty ?? b.planned_qty
+  return qty > 0 ? cost / qty : 0
+}
+
+/* ---------------- Batches ---------------- */
+
+export async function createBatch(args: {
+  recipe: PurchasingRecipe
+  plannedQty: number
+  recipes: PurchasingRecipe[]
+  lines: CostingLine[]
+  ingredients: ProductionIngredient[]
+  locationId?: string | null
+  expiryDate?: string | null
+  notes?: string | null
+}): Promise<{ id: string; issues: RequirementIssue[] }> {
+  const { recipe } = args
+  const factor = batchFactor(recipe, args.plannedQty)
+  if (!(factor > 0)) throw new Error('Enter the quantity to make')
+
+  const req = explodePlan({
+    plan: [{ recipeId: recipe.id, portions: factor * Math.max(1, toNum(recipe.portions, 1)) }],
+    recipes: args.recipes,
+    lines: args.lines,
+    ingredients: args.ingredients,
+  })
+  const ingById = new Map(args.ingredients.map((i) => [i.id, i]))
+  const rows = [...req.qty].map(([ingredientId, qty]) => {
+    const ing = ingById.get(ingredientId)
+    return { ingredient_id: ingredientId, unit: ing?.pack_unit || null, planned_qty: qty, unit_cost: Math.max(0, toNum(ing?.net_unit_cost, 0)) }
+  })
+
+  const { data, error } = await supabase
+    .from('production_batches')
+    .insert({
+      recipe_id: recipe.id,
+      location_id: args.locationId || null,
+      yield_unit: batchUnit(recipe),
+      planned_qty: args.plannedQty,
+      total_cost: rows.reduce((s, r) => s + r.planned_qty * r.unit_cost, 0),
+      expiry_date: args.expiryDate || null,
+      notes: args.notes?.trim() || null,
+    })
+    .select('id')
+    .single()
+  if (error) throw error
+  const id = String((data as any).id)
+
+  if (rows.length) {
+    const { error: le } = await supabase.from('production_batch_lines').insert(rows.map((r) => ({ ...r, batch_id: id })))
+    if (le) {
+      await supabase.from('production_batches').delete().eq('id', id)
+      throw le
+    }
+  }
+  return { id, issues: req.issues }
+}
+
+export async function listBatches(opts: { recipeId?: string | null; status?: BatchStatus | null; limit?: number } = {}): Promise<ProductionBatch[]> {
+  let q = supabase.from('production_batches').select(BATCH_FIELDS).order('created_at', { ascending: false }).limit(opts.limit ?? 200)
+  if (opts.recipeId) q = q.eq('recipe_id', opts.recipeId)
+  if (opts.status) q = q.eq('status', opts.status)
+  const { data, error } = await q
+  if (error) throw error
+  return (data ?? []).map(toBatch)
+}
+
+export async function getBatch(id: string): Promise<{ batch: ProductionBatch; lines: ProductionBatchLine[] }> {
+  const [b, l] = await Promise.all([
+    supabase.from('production_batches').select(BATCH_FIELDS).eq('id', id).single(),
+    supabase.from('production_batch_lines').select(BATCH_LINE_FIELDS).eq('batch_id', id),
+  ])
+  if (b.error) throw b.error
+  if (l.error) throw l.error
+  return { batch: toBatch(b.data), lines: (l.data ?? []).map(toBatchLine) }
+}
+
+export async function updateBatch(id: string, patch: Partial<Pick<ProductionBatch, 'actual_qty' | 'expiry_date' | 'notes' | 'location_id'>>) {
+  const { error } = await supabase.from('production_batches').update(patch).eq('id', id)
+  if (error) throw error
+}
+
+export async function updateBatchLine(lineId: string, actualQty: number | null) {
+  const { error } = await supabase
+    .from('production_batch_lines')
+    .update({ actual_qty: actualQty == null ? null : Math.max(0, toNum(actualQty, 0)) })
+    .eq('id', lineId)
+  if (error) throw error
+}
+
+/**
+ * Records the actual yield and posts stock: every component is consumed (actual or
+ * planned qty) and the output is received as PREP stock at cost ÷ actual yield.
+ * The batch is claimed (open → finished) before anything moves, so two people finishing it, or a
+ * retry, can't post it twice; if the movements fail, the ones already written are removed and
+ * the batch is reopened.
+ */
+export async function finishBatch(id: string, opts: { actualQty: number; locationId?: string | null }) {
+  const actual = toNum(opts.actualQty, -1)
+  if (!(actual >= 0)) throw new Error('Enter the actual yield')
+  const { batch, lines } = await getBatch(id)
+  if (batch.status === 'finished') throw new Error('Batch is already finished')
+
+  const locationId = opts.locationId || batch.location_id || (await ensureDefaultLocation()).id
+  const cost = batchCost(lines)
+
+  const { data: claimed, error } = await supabase
+    .from('production_batches')
+    .update({ status: 'finished', actual_qty: actual, total_cost: cost, location_id: locationId })
+    .eq('id', id)
+    .eq('status', 'open')
+    .select('id')
+  if (error) throw error
+  if (!claimed?.length) throw new Error('Batch is already finished')
+  if (await hasMovementsFor('production_batch', id)) return
+
+  try {
+    const base = { locationId, sourceType: 'production_batch' as const, sourceId: id, note: batch.code }
+    const rows: MovementInput[] = lines
+      .filter((l) => l.ingredient_id)
+      .map((l) => ({ ...base, ingredientId: l.ingredient_id, kind: 'consume' as const, qty: -lineUsedQty(l), unitCost: l.unit_cost }))
+    if (actual > 0) rows.push({ ...base, recipeId: batch.recipe_id, kind: 'receive', qty: actual, unitCost: cost / actual })
+    await postMovements(rows)
+  } catch (e) {
+    await rollbackMovementsFor('production_batch', id, () =>
+      supabase
+        .from('production_batches')
+        .update({ status: 'open', finished_at: null, actual_qty: batch.actual_qty, total_cost: batch.total_cost, location_id: batch.location_id })
+        .eq('id', id)
+    )
+    throw e
+  }
+}
+
+/** Open batches only: a finished batch has already moved stock. */
+export async function deleteBatch(id: string) {
+  const { error } = await supabase.from('production_batches').delete().eq('id', id).eq('status', 'open')
+  if (error) throw error
+}
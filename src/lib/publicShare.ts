@@ -1,6 +1,20 @@
 // src/lib/publicShare.ts
-// Public, read-only sharing WITHOUT any Supabase/RLS changes.
-// The share token contains a compact JSON payload (base64url).
+// Public, read-only sharing. The token carries the whole recipe snapshot, so the portal needs no
+// table access, plus an HMAC signature over sha256(payload):
+//
+//   <payload>.<signature hex>
+//
+// Payload formats:
+//   v1  base64url JSON of PublicSharePayload (older links, still accepted)
+//   v2  "2~" + base64url(deflate-raw(compact JSON)): positional recipe fields, lines as tuples,
+//       one dictionary of units, ingredients/sub-recipes referenced by index instead of UUID
+//
+// The payload names its share id (`sid`, also the revocation id), optional expiry (`exp`) and
+// redaction level. Keys live in public_share_secrets and never leave the DB:
+// create_public_share() signs, verify_public_share() checks signature, revocation and expiry
+// for anonymous visitors.
+import QRCode from 'qrcode'
+import { supabase } from './supabase'
 
 export type ShareRecipe = {
   name: string
@@ -43,10 +57,25 @@ export type ShareIngredient = {
 
 export type ShareSubRecipe = { id: string; name?: string | null }
 
+/** full: costs included · quantities: no costs · method: no ingredient list either. */
+export type ShareRedaction = 'full' | 'quantities' | 'method'
+
+export const SHARE_REDACTION_LABELS: Record<ShareRedaction, string> = {
+  full: 'Full costing',
+  quantities: 'Quantities only',
+  method: 'Method only',
+}
+
 export type PublicSharePayload = {
-  v: 1
+  v: 1 | 2
   created_at: string
   app: 'GastroChef'
+  /** Share id: looked up (and revoked) in public_shares. */
+  sid?: string
+  /** ISO expiry; the DB row is authoritative, this lets the portal say so without a round trip. */
+  exp?: string | null
+  /** Missing on v1 links, which always carried full costing. */
+  redaction?: ShareRedaction
   recipe: ShareRecipe
   lines: ShareLine[]
   ingredients?: ShareIngredient[]
@@ -66,14 +95,277 @@ function b64UrlDecode(b64url: string) {
   return decodeURIComponent(escape(s))
 }
 
-export function buildPublicShareToken(payload: PublicSharePayload): string {
-  return b64UrlEncode(JSON.stringify(payload))
+function bytesToB64Url(bytes: Uint8Array) {
+  let bin = ''
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i])
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+}
+
+function b64UrlToBytes(b64url: string) {
+  const b64 = b64url.replace(/-/g, '+').replace(/_/g, '/')
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4))
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  if (typeof CompressionStream === 'undefined') throw new Error('This browser cannot open compressed share links')
+  const out = new Blob([bytes as BlobPart]).stream().pipeThrough(stream as TransformStream<Uint8Array, Uint8Array>)
+  return new Uint8Array(await new Response(out).arrayBuffer())
+}
+
+/* ---------------- v2 compact format ---------------- */
+
+const V2_PREFIX = '2~'
+
+// Positional order of recipe fields; never reorder, only append.
+const RECIPE_KEYS: Array<keyof ShareRecipe> = [
+  'name',
+  'category',
+  'portions',
+  'description',
+  'method',
+  'method_steps',
+  'yield_qty',
+  'yield_unit',
+  'currency',
+  'calories',
+  'protein_g',
+  'carbs_g',
+  'fat_g',
+  'selling_price',
+  'target_food_cost_pct',
+  'photo_url',
+]
+
+const LINE_KINDS: ShareLine['line_type'][] = ['ingredient', 'subrecipe', 'group']
+
+type CompactPayload = {
+  v: 2
+  a: 'GastroChef'
+  t: string
+  s?: string
+  e?: string | null
+  x?: ShareRedaction
+  /** Recipe values in RECIPE_KEYS order. */
+  r: unknown[]
+  /** Unit dictionary. */
+  u: string[]
+  /** [kind, qty, unit #, yield % (null = 100), gross override, notes, ingredient/sub-recipe #, group title] */
+  l: unknown[][]
+  /** [name, pack unit, net unit cost] */
+  i: unknown[][]
+  /** Sub-recipe names. */
+  sr: Array<string | null>
+}
+
+function trimTail(arr: unknown[]) {
+  let n = arr.length
+  while (n > 0 && arr[n - 1] == null) n--
+  return arr.slice(0, n)
+}
+
+function toCompact(p: PublicSharePayload): CompactPayload {
+  const units: string[] = []
+  const unitIdx = (u: string) => {
+    let i = units.indexOf(u)
+    if (i < 0) i = units.push(u) - 1
+    return i
+  }
+
+  const ingIdx = new Map<string, number>()
+  const ing: unknown[][] = []
+  for (const x of p.ingredients ?? []) {
+    ingIdx.set(x.id, ing.length)
+    ing.push(trimTail([x.name ?? null, x.pack_unit ?? null, x.net_unit_cost ?? null]))
+  }
+  const subIdx = new Map<string, number>()
+  const subs: Array<string | null> = []
+  for (const x of p.subrecipes ?? []) {
+    subIdx.set(x.id, subs.length)
+    subs.push(x.name ?? null)
+  }
+
+  const lines = [...p.lines]
+    .sort((a, b) => a.position - b.position)
+    .map((l) => {
+      const ref = l.line_type === 'ingredient' ? ingIdx.get(l.ingredient_id || '') : l.line_type === 'subrecipe' ? subIdx.get(l.sub_recipe_id || '') : undefined
+      return trimTail([
+        LINE_KINDS.indexOf(l.line_type),
+        l.line_type === 'group' ? null : l.qty,
+        l.line_type === 'group' ? null : unitIdx(l.unit),
+        l.yield_percent === 100 ? null : l.yield_percent,
+        l.gross_qty_override ?? null,
+        l.notes || null,
+        ref ?? null,
+        l.group_title || null,
+      ])
+    })
+
+  return {
+    v: 2,
+    a: 'GastroChef',
+    t: p.created_at,
+    ...(p.sid ? { s: p.sid } : {}),
+    ...(p.exp ? { e: p.exp } : {}),
+    ...(p.redaction && p.redaction !== 'full' ? { x: p.redaction } : {}),
+    r: trimTail(RECIPE_KEYS.map((k) => p.recipe[k] ?? null)),
+    u: units,
+    l: lines,
+    i: ing,
+    sr: subs,
+  }
+}
+
+// Ingredients and sub-recipes come back with positional ids (i0, s0…): the portal only uses
+// them to join lines, and the kitchen's UUIDs stay out of the link.
+function fromCompact(c: CompactPayload): PublicSharePayload {
+  const recipe: Record<string, unknown> = {}
+  RECIPE_KEYS.forEach((k, idx) => {
+    if (c.r?.[idx] != null) recipe[k] = c.r[idx]
+  })
+  const units = Array.isArray(c.u) ? c.u : []
+
+  const lines: ShareLine[] = (Array.isArray(c.l) ? c.l : []).map((t, idx) => {
+    const kind = LINE_KINDS[Number(t[0])] ?? 'group'
+    const ref = t[6] == null ? null : Number(t[6])
+    return {
+      line_type: kind,
+      position: idx + 1,
+      qty: Number(t[1]) || 0,
+      unit: t[2] == null ? '' : String(units[Number(t[2])] ?? ''),
+      yield_percent: t[3] == null ? 100 : Number(t[3]) || 100,
+      gross_qty_override: t[4] == null ? null : Number(t[4]),
+      notes: t[5] == null ? null : String(t[5]),
+      ingredient_id: kind === 'ingredient' && ref != null ? `i${ref}` : null,
+      sub_recipe_id: kind === 'subrecipe' && ref != null ? `s${ref}` : null,
+      group_title: t[7] == null ? null : String(t[7]),
+    }
+  })
+
+  return {
+    v: 2,
+    created_at: String(c.t || ''),
+    app: 'GastroChef',
+    sid: c.s,
+    exp: c.e ?? null,
+    redaction: c.x === 'quantities' || c.x === 'method' ? c.x : 'full',
+    recipe: recipe as ShareRecipe,
+    lines,
+    ingredients: (Array.isArray(c.i) ? c.i : []).map((t, idx) => ({
+      id: `i${idx}`,
+      name: t[0] == null ? null : String(t[0]),
+      pack_unit: t[1] == null ? null : String(t[1]),
+      net_unit_cost: t[2] == null ? null : Number(t[2]),
+    })),
+    subrecipes: (Array.isArray(c.sr) ? c.sr : []).map((name, idx) => ({ id: `s${idx}`, name })),
+  }
+}
+
+async function encodePayload(payload: PublicSharePayload) {
+  if (payload.v !== 2) return b64UrlEncode(JSON.stringify(payload))
+  const json = new TextEncoder().encode(JSON.stringify(toCompact(payload)))
+  return V2_PREFIX + bytesToB64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))
+}
+
+async function decodePayload(body: string): Promise<any> {
+  if (!body.startsWith(V2_PREFIX)) return JSON.parse(b64UrlDecode(body))
+  const json = await pipeBytes(b64UrlToBytes(body.slice(V2_PREFIX.length)), new DecompressionStream('deflate-raw'))
+  const compact = JSON.parse(new TextDecoder().decode(json))
+  if (!compact || compact.v !== 2 || compact.a !== 'GastroChef') throw new Error('Invalid share token')
+  return fromCompact(compact as CompactPayload)
+}
+
+/** Strips what the redaction level does not allow. Costs go for anything below full costing. */
+export function redactSharePayload<T extends Omit<PublicSharePayload, 'sid' | 'exp'>>(payload: T, redaction: ShareRedaction): T {
+  if (redaction === 'full') return { ...payload, redaction }
+  const { selling_price, target_food_cost_pct, ...recipe } = payload.recipe
+  if (redaction === 'method') return { ...payload, redaction, recipe, lines: [], ingredients: [], subrecipes: [] }
+  return {
+    ...payload,
+    redaction,
+    recipe,
+    ingredients: (payload.ingredients ?? []).map(({ net_unit_cost, ...i }) => i),
+  }
+}
+
+export type ShareStatus = 'ok' | 'unsigned' | 'unknown' | 'invalid' | 'revoked' | 'expired'
+
+export const SHARE_STATUS_MESSAGES: Record<Exclude<ShareStatus, 'ok'>, string> = {
+  unsigned: 'This link is not signed.',
+  unknown: 'This share does not exist.',
+  invalid: 'This link has been modified and can no longer be trusted.',
+  revoked: 'This share has been revoked by its owner.',
+  expired: 'This share has expired.',
+}
+
+export type PublicShare = {
+  id: string
+  recipe_id: string | null
+  recipe_name: string | null
+  label: string | null
+  redaction: ShareRedaction
+  expires_at: string | null
+  revoked_at: string | null
+  view_count: number
+  last_viewed_at: string | null
+  created_at: string
+}
+
+const SHARE_FIELDS = 'id,recipe_id,recipe_name,label,redaction,expires_at,revoked_at,view_count,last_viewed_at,created_at'
+
+function toShare(r: any): PublicShare {
+  return {
+    id: String(r.id),
+    recipe_id: r.recipe_id ?? null,
+    recipe_name: r.recipe_name ?? null,
+    label: r.label ?? null,
+    redaction: r.redaction === 'quantities' || r.redaction === 'method' ? r.redaction : 'full',
+    expires_at: r.expires_at ?? null,
+    revoked_at: r.revoked_at ?? null,
+    view_count: Number(r.view_count) || 0,
+    last_viewed_at: r.last_viewed_at ?? null,
+    created_at: String(r.created_at || ''),
+  }
+}
+
+export function isShareActive(s: Pick<PublicShare, 'revoked_at' | 'expires_at'>, now = Date.now()) {
+  return !s.revoked_at && (!s.expires_at || new Date(s.expires_at).getTime() > now)
+}
+
+export async function buildPublicShareToken(payload: PublicSharePayload, signature?: string | null): Promise<string> {
+  const body = await encodePayload(payload)
+  return signature ? `${body}.${signature}` : body
+}
+
+function splitToken(token: string) {
+  const [body, signature = ''] = String(token || '').trim().split('.')
+  return { body, signature }
+}
+
+export async function sha256Hex(text: string) {
+  const buf = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, '0')).join('')
 }
 
-export function parsePublicShareToken(token: string): PublicSharePayload {
-  const raw = b64UrlDecode(token)
-  const parsed = JSON.parse(raw)
-  if (!parsed || parsed.v !== 1 || parsed.app !== 'GastroChef') {
+export function publicShareUrl(token: string) {
+  const base = (import.meta as any).env?.BASE_URL || '/'
+  return `${window.location.origin}${base}#/share/${token}`
+}
+
+/** QR code (PNG data URL) for a share link. Very long links do not fit; share less then. */
+export async function shareQrDataUrl(url: string) {
+  try {
+    return await QRCode.toDataURL(url, { margin: 1, width: 240, errorCorrectionLevel: 'L' })
+  } catch {
+    throw new Error('This link is too long for a QR code. Share quantities or method only.')
+  }
+}
+
+export async function parsePublicShareToken(token: string): Promise<PublicSharePayload> {
+  const parsed = await decodePayload(splitToken(token).body)
+  if (!parsed || (parsed.v !== 1 && parsed.v !== 2) || parsed.app !== 'GastroChef') {
     throw new Error('Invalid share token')
   }
   if (!parsed.recipe || !Array.isArray(parsed.lines)) {
@@ -81,3 +373,117 @@ export function parsePublicShareToken(token: string): PublicSharePayload {
   }
   return parsed as PublicSharePayload
 }
+
+/**
+ * Decodes the token and asks the DB whether it may be shown. The payload is returned even when
+ * the status is not ok so the portal can say which recipe the dead link was for.
+ */
+export async function verifyPublicShareToken(token: string): Promise<{ payload: PublicSharePayload; status: ShareStatus }> {
+  const payload = await parsePublicShareToken(token)
+  const { body, signature } = splitToken(token)
+  if (!payload.sid || !/^[0-9a-f]{64}$/i.test(signature)) return { payload, status: 'unsigned' }
+  if (payload.exp && new Date(payload.exp).getTime() <= Date.now()) return { payload, status: 'expired' }
+  const { data, error } = await supabase.rpc('verify_public_share', {
+    p_id: payload.sid,
+    p_payload_hash: await sha256Hex(body),
+    p_signature: signature,
+  })
+  if (error) throw error
+  const status = String(data || 'invalid') as ShareStatus
+  return { payload, status: status in SHARE_STATUS_MESSAGES || status === 'ok' ? status : 'invalid' }
+}
+
+/** Read-only snapshot of a recipe as it is saved now, redacted to `redaction`. */
+export async function loadRecipeSharePayload(
+  recipeId: string,
+  redaction: ShareRedaction = 'full'
+): Promise<Omit<PublicSharePayload, 'sid' | 'exp'>> {
+  const [rec, lin] = await Promise.all([
+    supabase
+      .from('recipes')
+      .select('name,category,portions,description,method,method_steps,yield_qty,yield_unit,currency,calories,protein_g,carbs_g,fat_g,selling_price,target_food_cost_pct,photo_url')
+      .eq('id', recipeId)
+      .single(),
+    supabase
+      .from('recipe_lines')
+      .select('line_type,position,qty,unit,yield_percent,gross_qty_override,notes,ingredient_id,sub_recipe_id,group_title')
+      .eq('recipe_id', recipeId)
+      .order('position', { ascending: true }),
+  ])
+  if (rec.error) throw rec.error
+  if (lin.error) throw lin.error
+
+  const lines: ShareLine[] = (lin.data ?? []).map((l: any, idx: number) => ({
+    line_type: l.line_type === 'group' || l.line_type === 'subrecipe' ? l.line_type : l.sub_recipe_id ? 'subrecipe' : l.ingredient_id ? 'ingredient' : 'group',
+    position: Number(l.position) || idx + 1,
+    qty: Number(l.qty) || 0,
+    unit: String(l.unit || ''),
+    yield_percent: Number(l.yield_percent) || 100,
+    gross_qty_override: l.gross_qty_override ?? null,
+    notes: l.notes ?? null,
+    ingredient_id: l.ingredient_id ?? null,
+    sub_recipe_id: l.sub_recipe_id ?? null,
+    group_title: l.group_title ?? null,
+  }))
+
+  const ingIds = [...new Set(lines.map((l) => l.ingredient_id).filter(Boolean) as string[])]
+  const subIds = [...new Set(lines.map((l) => l.sub_recipe_id).filter(Boolean) as string[])]
+  const [ing, sub] = await Promise.all([
+    ingIds.length ? supabase.from('ingredients').select('id,name,pack_unit,net_unit_cost').in('id', ingIds) : Promise.resolve({ data: [], error: null }),
+    subIds.length ? supabase.from('recipes').select('id,name').in('id', subIds) : Promise.resolve({ data: [], error: null }),
+  ])
+  if (ing.error) throw ing.error
+  if (sub.error) throw sub.error
+
+  return redactSharePayload(
+    {
+      v: 2,
+      created_at: new Date().toISOString(),
+      app: 'GastroChef',
+      recipe: rec.data as ShareRecipe,
+      lines,
+      ingredients: (ing.data ?? []) as ShareIngredient[],
+      subrecipes: (sub.data ?? []) as ShareSubRecipe[],
+    },
+    redaction
+  )
+}
+
+/** Registers a share, has the DB sign it and returns the link. */
+export async function createPublicShare(args: {
+  recipeId: string
+  payload: Omit<PublicSharePayload, 'sid' | 'exp'>
+  expiresAt?: Date | null
+  label?: string | null
+}): Promise<{ id: string; token: string; url: string }> {
+  const id = crypto.randomUUID()
+  const exp = args.expiresAt ? args.expiresAt.toISOString() : null
+  const payload: PublicSharePayload = { ...args.payload, sid: id, exp }
+  const body = await buildPublicShareToken(payload)
+  const { data, error } = await supabase.rpc('create_public_share', {
+    p_id: id,
+    p_recipe_id: args.recipeId,
+    p_payload_hash: await sha256Hex(body),
+    p_expires_at: exp,
+    p_label: args.label?.trim() || null,
+    p_redaction: payload.redaction ?? 'full',
+  })
+  if (error) throw error
+  const token = await buildPublicShareToken(payload, String(data || ''))
+  return { id, token, url: publicShareUrl(token) }
+}
+
+/** Shares of the kitchen (or one recipe), newest first. */
+export async function listPublicShares(recipeId?: string | null): Promise<PublicShare[]> {
+  let q = supabase.from('public_shares').select(SHARE_FIELDS).order('created_at', { ascending: false })
+  if (recipeId) q = q.eq('recipe_id', recipeId)
+  const { data, error } = await q
+  if (error) throw error
+  return (data ?? []).map(toShare)
+}
+
+export async function revokePublicShare(id: string): Promise<PublicShare> {
+  const { data, error } = await supabase.from('public_shares').update({ revoked_at: new Date().toISOString() }).eq('id', id).select(SHARE_FIELDS).single()
+  if (error) throw error
+  return toShare(data)
+}
@@ -0,0 +1,523 @@
+// src/lib/purchasing.ts
+import { supabase } from './supabase'
+import { groupLinesByRecipe, lineQuantities, lineTypeOf, type CostingLine } from './recipeCosting'
+import { convertQty, normalizeUnit, type UnitProfile } from './units'
+import type { Supplier, SupplierOffer } from './suppliers'
+import { ensureDefaultLocation, hasMovementsFor, postMovements, rollbackMovementsFor, type MovementInput } from './inventory'
+
+/**
+ * Purchasing: turn a production plan (recipes × portions) or ingredient par levels into
+ * per-supplier draft purchase orders, rounded up to whole supplier packs.
+ *
+ * Quantities are exploded through subrecipes with the same rules as the costing engine:
+ * line gross = net / line yield, then divided by the ingredient's own yield_percent, so what
+ * we order is what the kitchen has to buy — not what ends up on the plate.
+ */
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received'
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  received: 'Received',
+}
+
+export type PurchasingIngredient = UnitProfile & {
+  id: string
+  code?: string | null
+  name?: string | null
+  pack_size?: number | null
+  pack_unit?: string | null
+  pack_price?: number | null
+  yield_percent?: number | null
+  par_level?: number | null
+  is_active?: boolean | null
+}
+
+export type PurchasingRecipe = {
+  id: string
+  name?: string | null
+  portions?: number | null
+  yield_qty?: number | null
+  yield_unit?: string | null
+}
+
+export type PlanItem = { recipeId: string; portions: number }
+
+export type RequirementIssue = { recipeId: string; itemId: string | null; message: string }
+
+export type Requirements = {
+  /** ingredient id → quantity to buy, in the ingredient's pack_unit */
+  qty: Map<string, number>
+  issues: RequirementIssue[]
+  /** PREP recipe id → recipe multiples (batches) made along the way; set by explodePlan */
+  prep?: Map<string, number>
+}
+
+export type DraftOrderLine = {
+  ingredientId: string
+  offerId: string | null
+  description: string
+  supplierSku: string | null
+  requiredQty: number
+  requiredUnit: string
+  packSize: number
+  packUnit: string
+  packPrice: number
+  packs: number
+  lineTotal: number
+  /** Set when the requirement couldn't be converted to the offer's unit. */
+  issue: string | null
+}
+
+export type DraftOrder = {
+  /** null = ingredients with no supplier offer (ordered at the ingredient's own pack) */
+  supplierId: string | null
+  supplierName: string
+  leadTimeDays: number | null
+  minOrderValue: number | null
+  lines: DraftOrderLine[]
+  total: number
+}
+
+export type PurchaseOrder = {
+  id: string
+  code: string | null
+  supplier_id: string | null
+  status: PurchaseOrderStatus
+  expected_date: string | null
+  notes: string | null
+  currency: string
+  sent_at: string | null
+  received_at: string | null
+  created_at: string
+}
+
+export type PurchaseOrderLine = {
+  id: string
+  purchase_order_id: string
+  ingredient_id: string | null
+  offer_id: string | null
+  description: string
+  supplier_sku: string | null
+  required_qty: number
+  pack_size: number
+  pack_unit: string
+  pack_price: number
+  packs: number
+  received_packs: number | null
+  position: number
+}
+
+export const PURCHASING_INGREDIENT_FIELDS = 'id,code,name,pack_size,pack_unit,pack_price,yield_percent,par_level,is_active,density_g_per_ml,grams_per_piece'
+
+const ORDER_FIELDS = 'id,code,supplier_id,status,expected_date,notes,currency,sent_at,received_at,created_at'
+const ORDER_LINE_FIELDS = 'id,purchase_order_id,ingredient_id,offer_id,description,supplier_sku,required_qty,pack_size,pack_unit,pack_price,packs,received_packs,position'
+
+const EPS = 1e-9
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function ingredientYield(i: PurchasingIngredient | undefined) {
+  return Math.min(100, Math.max(0.0001, toNum(i?.yield_percent, 100))) / 100
+}
+
+/** Whole packs needed for `qty` (small float noise doesn't buy an extra pack). */
+export function packsFor(qty: number, packSize: number) {
+  if (!(qty > EPS) || !(packSize > 0)) return 0
+  return Math.max(1, Math.ceil(qty / packSize - 1e-6))
+}
+
+/**
+ * Gross ingredient quantities for a production plan, walking PREP recipes.
+ * A subrecipe line is scaled by the PREP recipe's yield (or portions when the line unit is
+ * `portion`) — the same rule the costing engine uses. A g/ml line on a PREP with no yield is
+ * reported as an issue and skipped.
+ */
+export function explodePlan(args: {
+  plan: PlanItem[]
+  recipes: PurchasingRecipe[]
+  lines: CostingLine[]
+  ingredients: PurchasingIngredient[]
+}): Requirements {
+  const recipeById = new Map(args.recipes.map((r) => [r.id, r]))
+  const ingById = new Map(args.ingredients.map((i) => [i.id, i]))
+  const linesByRecipe = groupLinesByRecipe(args.lines)
+  const qty = new Map<string, number>()
+  const prep = new Map<string, number>()
+  const issues: RequirementIssue[] = []
+  const stack = new Set<string>()
+
+  const add = (id: string, q: number) => qty.set(id, (qty.get(id) ?? 0) + q)
+
+  function walk(recipeId: string, factor: number, nested = false) {
+    if (!(factor > 0)) return
+    if (stack.has(recipeId)) {
+      issues.push({ recipeId, itemId: recipeId, message: 'Circular subrecipe reference' })
+      return
+    }
+    if (nested) prep.set(recipeId, (prep.get(recipeId) ?? 0) + factor)
+    stack.add(recipeId)
+    try {
+      for (const l of linesByRecipe.get(recipeId) ?? []) {
+        const type = lineTypeOf(l)
+        if (type === 'group') continue
+        const gross = lineQuantities(l).gross * factor
+        if (!(gross > 0)) continue
+
+        if (type === 'ingredient') {
+          const ing = l.ingredient_id ? ingById.get(l.ingredient_id) : undefined
+          if (!ing) {
+            issues.push({ recipeId, itemId: l.ingredient_id ?? null, message: 'Missing ingredient' })
+            continue
+          }
+          const conv = convertQty(gross, l.unit, ing.pack_unit || l.unit, ing)
+          if (!conv.ok) {
+            issues.push({ recipeId, itemId: ing.id, message: `${ing.name || 'Ingredient'}: can't convert ${conv.from} → ${conv.to}` })
+            continue
+          }
+          add(ing.id, conv.value / ingredientYield(ing))
+          continue
+        }
+
+        const sub = l.sub_recipe_id ? recipeById.get(l.sub_recipe_id) : undefined
+        if (!sub) {
+          issues.push({ recipeId, itemId: l.sub_recipe_id ?? null, message: 'Missing subrecipe' })
+          continue
+        }
+        const subPortions = Math.max(1, toNum(sub.portions, 1))
+        const yq = toNum(sub.yield_qty, 0)
+        const unit = normalizeUnit(l.unit)
+        if (unit === 'portion') {
+          walk(sub.id, gross / subPortions, true)
+          continue
+        }
+        if (!(yq > 0) || !sub.yield_unit) {
+          issues.push({ recipeId, itemId: sub.id, message: `${sub.name || 'Subrecipe'}: no yield set, can't use ${l.unit || 'this unit'}` })
+          continue
+        }
+        const conv = convertQty(gross, unit, sub.yield_unit)
+        if (!conv.ok) {
+          issues.push({ recipeId, itemId: sub.id, message: `${sub.name || 'Subrecipe'}: can't convert ${conv.from} → ${conv.to}` })
+          continue
+        }
+        walk(sub.id, conv.value / yq, true)
+      }
+    } finally {
+      stack.delete(recipeId)
+    }
+  }
+
+  for (const p of args.plan) {
+    const r = recipeById.get(p.recipeId)
+    if (!r || !(p.portions > 0)) continue
+    walk(r.id, p.portions / Math.max(1, toNum(r.portions, 1)))
+  }
+
+  return { qty, issues, prep }
+}
+
+/** Top-up to par: par_level − on hand, for every active ingredient that has a par level. */
+export function parRequirements(ingredients: PurchasingIngredient[], onHand: Map<string, number> = new Map()): Requirements {
+  const qty = new Map<string, number>()
+  for (const i of ingredients) {
+    if (i.is_active === false) continue
+    const par = toNum(i.par_level, 0)
+    if (!(par > 0)) continue
+    const need = par - (onHand.get(i.id) ?? 0)
+    if (need > EPS) qty.set(i.id, need)
+  }
+  return { qty, issues: [] }
+}
+
+/** Preferred offer, else the cheapest convertible one. */
+function pickOffer(ing: PurchasingIngredient, offers: SupplierOffer[], activeSupplier: (id: string) => boolean) {
+  const usable = offers.filter((o) => activeSupplier(o.supplier_id))
+  const preferred = usable.find((o) => o.is_preferred)
+  if (preferred) return preferred
+  let best: SupplierOffer | null = null
+  let bestPrice = Infinity
+  for (const o of usable) {
+    const conv = convertQty(o.pack_size, o.pack_unit, ing.pack_unit, ing)
+    if (!conv.ok || !(conv.value > 0)) continue
+    const price = o.pack_price / conv.value
+    if (price < bestPrice) {
+      best = o
+      bestPrice = price
+    }
+  }
+  return best
+}
+
+export function buildDraftOrders(args: {
+  requirements: Requirements
+  ingredients: PurchasingIngredient[]
+  offers: SupplierOffer[]
+  suppliers: Supplier[]
+}): DraftOrder[] {
+  const ingById = new Map(args.ingredients.map((i) => [i.id, i]))
+  const supplierById = new Map(args.suppliers.map((s) => [s.id, s]))
+  const offersByIng = new Map<string, SupplierOffer[]>()
+  for (const o of args.offers) {
+    const list = offersByIng.get(o.ingredient_id)
+    if (list) list.push(o)
+    else offersByIng.set(o.ingredient_id, [o])
+  }
+  const activeSupplier = (id: string) => supplierById.get(id)?.is_active !== false && supplierById.has(id)
+
+  const orders = new Map<string, DraftOrder>()
+  const orderFor = (supplierId: string | null) => {
+    const key = supplierId ?? ''
+    let o = orders.get(key)
+    if (!o) {
+      const s = supplierId ? supplierById.get(supplierId) : null
+      o = {
+        supplierId,
+        supplierName: s?.name || 'No supplier',
+        leadTimeDays: s?.lead_time_days ?? null,
+        minOrderValue: s?.min_order_value ?? null,
+        lines: [],
+        total: 0,
+      }
+      orders.set(key, o)
+    }
+    return o
+  }
+
+  for (const [ingId, need] of args.requirements.qty) {
+    const ing = ingById.get(ingId)
+    if (!ing || !(need > EPS)) continue
+    const requiredUnit = ing.pack_unit || 'g'
+    const offer = pickOffer(ing, offersByIng.get(ingId) ?? [], activeSupplier)
+
+    const packSize = offer ? offer.pack_size : Math.max(toNum(ing.pack_size, 1), EPS)
+    const packUnit = offer ? offer.pack_unit : requiredUnit
+    const packPrice = offer ? offer.pack_price : Math.max(0, toNum(ing.pack_price, 0))
+
+    const conv = convertQty(need, requiredUnit, packUnit, ing)
+    const packs = conv.ok ? packsFor(conv.value, packSize) : 0
+    const order = orderFor(offer?.supplier_id ?? null)
+    order.lines.push({
+      ingredientId: ingId,
+      offerId: offer?.id ?? null,
+      description: ing.name || ing.code || 'Ingredient',
+      supplierSku: offer?.supplier_sku ?? null,
+      requiredQty: need,
+      requiredUnit,
+      packSize,
+      packUnit,
+      packPrice,
+      packs,
+      lineTotal: packs * packPrice,
+      issue: conv.ok ? null : `Can't convert ${conv.from} → ${conv.to}`,
+    })
+    order.total += packs * packPrice
+  }
+
+  const list = [...orders.values()]
+  for (const o of list) o.lines.sort((a, b) => a.description.localeCompare(b.description))
+  return list.sort((a, b) => Number(a.supplierId == null) - Number(b.supplierId == null) || a.supplierName.localeCompare(b.supplierName))
+}
+
+function addDays(days: number) {
+  const d = new Date()
+  d.setDate(d.getDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/** Saves each draft as a `draft` purchase order; returns the new order ids. */
+export async function createPurchaseOrders(drafts: DraftOrder[], opts: { currency?: string; notes?: string | null } = {}): Promise<string[]> {
+  const ids: string[] = []
+  for (const d of drafts) {
+    const lines = d.lines.filter((l) => l.packs > 0)
+    if (!lines.length) continue
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .insert({
+        supplier_id: d.supplierId,
+        status: 'draft',
+        expected_date: d.leadTimeDays != null ? addDays(d.leadTimeDays) : null,
+        notes: opts.notes?.trim() || null,
+        currency: (opts.currency || 'USD').toUpperCase(),
+      })
+      .select('id')
+      .single()
+    if (error) throw error
+    const poId = String((data as any).id)
+    const { error: le } = await supabase.from('purchase_order_lines').insert(
+      lines.map((l, idx) => ({
+        purchase_order_id: poId,
+        ingredient_id: l.ingredientId,
+        offer_id: l.offerId,
+        description: l.description,
+        supplier_sku: l.supplierSku,
+        required_qty: l.requiredQty,
+        pack_size: l.packSize,
+        pack_unit: l.packUnit,
+        pack_price: l.packPrice,
+        packs: l.packs,
+        position: idx,
+      }))
+    )
+    if (le) {
+      await supabase.from('purchase_orders').delete().eq('id', poId)
+      throw le
+    }
+    ids.push(poId)
+  }
+  return ids
+}
+
+function toOrder(r: any): PurchaseOrder {
+  return {
+    id: String(r.id),
+    code: r.code ?? null,
+    supplier_id: r.supplier_id ?? null,
+    status: (r.status || 'draft') as PurchaseOrderStatus,
+    expected_date: r.expected_date ?? null,
+    notes: r.notes ?? null,
+    currency: String(r.currency || 'USD').toUpperCase(),
+    sent_at: r.sent_at ?? null,
+    received_at: r.received_at ?? null,
+    created_at: String(r.created_at),
+  }
+}
+
+function toOrderLine(r: any): PurchaseOrderLine {
+  return {
+    id: String(r.id),
+    purchase_order_id: String(r.purchase_order_id),
+    ingredient_id: r.ingredient_id ?? null,
+    offer_id: r.offer_id ?? null,
+    description: String(r.description || ''),
+    supplier_sku: r.supplier_sku ?? null,
+    required_qty: toNum(r.required_qty, 0),
+    pack_size: toNum(r.pack_size, 1),
+    pack_unit: String(r.pack_unit || ''),
+    pack_price: toNum(r.pack_price, 0),
+    packs: toNum(r.packs, 0),
+    received_packs: r.received_packs == null ? null : toNum(r.received_packs, 0),
+    position: toNum(r.position, 0),
+  }
+}
+
+export function orderTotal(lines: PurchaseOrderLine[]) {
+  return lines.reduce((s, l) => s + l.packs * l.pack_price, 0)
+}
+
+/** Newest first, with their lines. */
+export async function listPurchaseOrders(status?: PurchaseOrderStatus | null): Promise<Array<PurchaseOrder & { lines: PurchaseOrderLine[] }>> {
+  let q = supabase.from('purchase_orders').select(ORDER_FIELDS).order('created_at', { ascending: false }).limit(500)
+  if (status) q = q.eq('status', status)
+  const { data, error } = await q
+  if (error) throw error
+  const orders = (data ?? []).map(toOrder)
+  if (!orders.length) return []
+
+  const byOrder = new Map<string, PurchaseOrderLine[]>()
+  const ids = orders.map((o) => o.id)
+  for (let i = 0; i < ids.length; i += 100) {
+    const { data: ls, error: le } = await supabase
+      .from('purchase_order_lines')
+      .select(ORDER_LINE_FIELDS)
+      .in('purchase_order_id', ids.slice(i, i + 100))
+      .order('position', { ascending: true })
+    if (le) throw le
+    for (const l of (ls ?? []).map(toOrderLine)) {
+      const list = byOrder.get(l.purchase_order_id)
+      if (list) list.push(l)
+      else byOrder.set(l.purchase_order_id, [l])
+    }
+  }
+  return orders.map((o) => ({ ...o, lines: byOrder.get(o.id) ?? [] }))
+}
+
+export async function getPurchaseOrder(id: string): Promise<{ order: PurchaseOrder; lines: PurchaseOrderLine[] }> {
+  const [{ data, error }, { data: ls, error: le }] = await Promise.all([
+    supabase.from('purchase_orders').select(ORDER_FIELDS).eq('id', id).single(),
+    supabase.from('purchase_order_lines').select(ORDER_LINE_FIELDS).eq('purchase_order_id', id).order('position', { ascending: true }),
+  ])
+  if (error) throw error
+  if (le) throw le
+  return { order: toOrder(data), lines: (ls ?? []).map(toOrderLine) }
+}
+
+export async function updatePurchaseOrder(id: string, patch: Partial<Pick<PurchaseOrder, 'expected_date' | 'notes'>>) {
+  const { error } = await supabase.from('purchase_orders').update(patch).eq('id', id)
+  if (error) throw error
+}
+
+/**
+ * Receiving books the delivered packs into stock (`locationId`, else the default location).
+ * Lines without a received count are taken as delivered in full.
+ */
+export async function setPurchaseOrderStatus(id: string, status: PurchaseOrderStatus, opts: { locationId?: string | null } = {}) {
+  if (status === 'received') return receivePurchaseOrder(id, opts.locationId ?? null)
+  const { error } = await supabase.from('purchase_orders').update({ status }).eq('id', id)
+  if (error) throw error
+}
+
+/**
+ * The order is claimed (sent → received) before anything moves, so two people receiving it, or a
+ * retry, can't book the delivery twice; if the movements fail, the ones already written are
+ * removed and it goes back to sent.
+ */
+async function receivePurchaseOrder(id: string, locationId: string | null) {
+  const { data: claimed, error: claimErr } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'received' })
+    .eq('id', id)
+    .eq('status', 'sent')
+    .select('id')
+  if (claimErr) throw claimErr
+  if (!claimed?.length) throw new Error('This order is already received, or was not sent')
+  if (await hasMovementsFor('purchase_order', id)) return
+
+  try {
+    const { lines } = await getPurchaseOrder(id)
+    for (const l of lines) {
+      if (l.received_packs == null) {
+        await updatePurchaseOrderLine(l.id, { received_packs: l.packs })
+        l.received_packs = l.packs
+      }
+    }
+
+    const ingIds = [...new Set(lines.map((l) => l.ingredient_id).filter(Boolean))] as string[]
+    if (!ingIds.length) return
+    const { data, error } = await supabase.from('ingredients').select('id,pack_unit,density_g_per_ml,grams_per_piece').in('id', ingIds)
+    if (error) throw error
+    const ingById = new Map(((data ?? []) as PurchasingIngredient[]).map((i) => [i.id, i]))
+    const location = locationId ?? (await ensureDefaultLocation()).id
+
+    const moves: MovementInput[] = []
+    for (const l of lines) {
+      const ing = l.ingredient_id ? ingById.get(l.ingredient_id) : undefined
+      if (!ing) continue
+      const conv = convertQty((l.received_packs ?? 0) * l.pack_size, l.pack_unit, ing.pack_unit || l.pack_unit, ing)
+      if (!conv.ok) throw new Error(`${l.description}: can't convert ${conv.from} → ${conv.to} for stock`)
+      moves.push({ ingredientId: ing.id, locationId: location, kind: 'receive', qty: conv.value, sourceType: 'purchase_order', sourceId: id })
+    }
+    await postMovements(moves)
+  } catch (e) {
+    await rollbackMovementsFor('purchase_order', id, () => supabase.from('purchase_orders').update({ status: 'sent', received_at: null }).eq('id', id))
+    throw e
+  }
+}
+
+export async function updatePurchaseOrderLine(lineId: string, patch: Partial<Pick<PurchaseOrderLine, 'packs' | 'received_packs' | 'pack_price'>>) {
+  const { error } = await supabase.from('purchase_order_lines').update(patch).eq('id', lineId)
+  if (error) throw error
+}
+
+export async function deletePurchaseOrderLine(lineId: string) {
+  const { error } = await supabase.from('purchase_order_lines').delete().eq('id', lineId)
+  if (error) throw error
+}
+
+export async function deletePurchaseOrder(id: string) {
+  const { error } = await supabase.from('purchase_orders').delete().eq('id', id)
+  if (error) throw error
+}
@@ -0,0 +1,421 @@
+// src/lib/quotes.ts
+import { supabase } from './supabase'
+import { createCostingEngine, loadCostingLines, type CostingLine } from './recipeCosting'
+import { explodePlan, type RequirementIssue } from './purchasing'
+import { PRODUCTION_INGREDIENT_FIELDS, type ProductionIngredient } from './production'
+
+/**
+ * Event quotes (tables event_quotes / event_quote_items / event_quote_extras): catering
+ * and banquet pricing.
+ *
+ * Food cost = Σ recipe cost per portion × portions per guest × guests. The food price is
+ * either cost × (1 + markup %) or cost ÷ target food cost %. Extras (staff, rentals,
+ * delivery) are added at their own price, then tax on the subtotal.
+ *
+ * Draft quotes are priced live from current ingredient costs. Once a quote leaves draft each
+ * item's cost and price per portion are stored, so a sent or accepted quote keeps its total
+ * when ingredient prices move; setting it back to draft clears them and re-prices.
+ */
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined'
+export type QuotePricingMode = 'markup' | 'target_fc'
+export type QuoteExtraKind = 'staff' | 'rental' | 'delivery' | 'other'
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+}
+
+export const QUOTE_EXTRA_LABELS: Record<QuoteExtraKind, string> = {
+  staff: 'Staff',
+  rental: 'Rental',
+  delivery: 'Delivery',
+  other: 'Other',
+}
+
+export type EventQuote = {
+  id: string
+  code: string | null
+  event_name: string
+  client_name: string | null
+  client_email: string | null
+  client_phone: string | null
+  event_date: string | null
+  venue: string | null
+  guest_count: number
+  status: QuoteStatus
+  pricing_mode: QuotePricingMode
+  markup_pct: number
+  target_food_cost_pct: number
+  tax_pct: number
+  currency: string
+  valid_until: string | null
+  notes: string | null
+  terms: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type QuoteDraft = Omit<EventQuote, 'id' | 'code' | 'created_at' | 'updated_at'> & { id?: string }
+
+export type QuoteItem = {
+  id: string
+  quote_id: string
+  recipe_id: string
+  portions_per_guest: number
+  position: number
+  /** Frozen when the quote left draft; null while priced live. */
+  cost_per_portion: number | null
+  price_per_portion: number | null
+}
+
+export type QuoteExtra = {
+  id: string
+  quote_id: string
+  kind: QuoteExtraKind
+  description: string
+  qty: number
+  unit_price: number
+  position: number
+}
+
+export type QuoteRecipe = {
+  id: string
+  code?: string | null
+  name: string
+  category?: string | null
+  description?: string | null
+  portions?: number | null
+  yield_qty?: number | null
+  yield_unit?: string | null
+  is_subrecipe?: boolean | null
+  is_archived?: boolean | null
+}
+
+export type QuoteItemCost = {
+  itemId: string
+  recipeId: string
+  portions: number
+  costPerPortion: number
+  cost: number
+  price: number
+  /** Stored prices were used instead of current ingredient costs. */
+  frozen: boolean
+}
+
+export type QuoteTotals = {
+  items: Map<string, QuoteItemCost>
+  foodCost: number
+  foodPrice: number
+  extras: number
+  subtotal: number
+  tax: number
+  total: number
+  perGuest: number
+  /** food cost as % of the food price */
+  foodCostPct: number | null
+  /** (subtotal − food cost) ÷ subtotal; extras are treated as pass-through revenue */
+  grossMarginPct: number | null
+}
+
+export type QuoteContext = {
+  quote: EventQuote
+  items: QuoteItem[]
+  extras: QuoteExtra[]
+  recipes: QuoteRecipe[]
+  ingredients: ProductionIngredient[]
+  lines: CostingLine[]
+}
+
+export type KitchenList = {
+  dishes: Array<{ recipeId: string; portions: number; factor: number }>
+  /** PREP recipes to make, in recipe multiples (factor) */
+  preps: Array<{ recipeId: string; factor: number }>
+  /** ingredient id → gross quantity to pull, in pack_unit */
+  ingredients: Map<string, number>
+  issues: RequirementIssue[]
+}
+
+export const QUOTE_RECIPE_FIELDS = 'id,code,name,category,description,portions,yield_qty,yield_unit,is_subrecipe,is_archived'
+
+const QUOTE_FIELDS =
+  'id,code,event_name,client_name,client_email,client_phone,event_date,venue,guest_count,status,pricing_mode,markup_pct,target_food_cost_pct,tax_pct,currency,valid_until,notes,terms,created_at,updated_at'
+const ITEM_FIELDS = 'id,quote_id,recipe_id,portions_per_guest,position,cost_per_portion,price_per_portion'
+const EXTRA_FIELDS = 'id,quote_id,kind,description,qty,unit_price,position'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function toQuote(r: any): EventQuote {
+  return {
+    id: String(r.id),
+    code: r.code ?? null,
+    event_name: String(r.event_name ?? ''),
+    client_name: r.client_name ?? null,
+    client_email: r.client_email ?? null,
+    client_phone: r.client_phone ?? null,
+    event_date: r.event_date ?? null,
+    venue: r.venue ?? null,
+    guest_count: Math.max(0, Math.round(toNum(r.guest_count, 0))),
+    status: (r.status || 'draft') as QuoteStatus,
+    pricing_mode: (r.pricing_mode || 'target_fc') as QuotePricingMode,
+    markup_pct: toNum(r.markup_pct, 200),
+    target_food_cost_pct: toNum(r.target_food_cost_pct, 30),
+    tax_pct: toNum(r.tax_pct, 0),
+    currency: String(r.currency || 'USD'),
+    valid_until: r.valid_until ?? null,
+    notes: r.notes ?? null,
+    terms: r.terms ?? null,
+    created_at: String(r.created_at),
+    updated_at: String(r.updated_at ?? r.created_at),
+  }
+}
+
+function toItem(r: any): QuoteItem {
+  return {
+    id: String(r.id),
+    quote_id: String(r.quote_id),
+    recipe_id: String(r.recipe_id),
+    portions_per_guest: toNum(r.portions_per_guest, 1),
+    position: toNum(r.position, 0),
+    cost_per_portion: r.cost_per_portion == null ? null : toNum(r.cost_per_portion, 0),
+    price_per_portion: r.price_per_portion == null ? null : toNum(r.price_per_portion, 0),
+  }
+}
+
+function toExtra(r: any): QuoteExtra {
+  return {
+    id: String(r.id),
+    quote_id: String(r.quote_id),
+    kind: (r.kind || 'other') as QuoteExtraKind,
+    description: String(r.description ?? ''),
+    qty: toNum(r.qty, 0),
+    unit_price: toNum(r.unit_price, 0),
+    position: toNum(r.position, 0),
+  }
+}
+
+/* ---------------- Quotes ---------------- */
+
+export async function listQuotes(): Promise<EventQuote[]> {
+  const { data, error } = await supabase.from('event_quotes').select(QUOTE_FIELDS).order('created_at', { ascending: false })
+  if (error) throw error
+  return (data ?? []).map(toQuote)
+}
+
+export async function saveQuote(draft: QuoteDraft): Promise<EventQuote> {
+  const event_name = (draft.event_name || '').trim()
+  if (!event_name) throw new Error('Event name is required.')
+  const payload = {
+    event_name,
+    client_name: draft.client_name?.trim() || null,
+    client_email: draft.client_email?.trim() || null,
+    client_phone: draft.client_phone?.trim() || null,
+    event_date: draft.event_date || null,
+    venue: draft.venue?.trim() || null,
+    guest_count: Math.max(0, Math.round(toNum(draft.guest_count, 0))),
+    status: draft.status,
+    pricing_mode: draft.pricing_mode,
+    markup_pct: Math.max(0, toNum(draft.markup_pct, 0)),
+    target_food_cost_pct: Math.min(100, Math.max(1, toNum(draft.target_food_cost_pct, 30))),
+    tax_pct: Math.max(0, toNum(draft.tax_pct, 0)),
+    currency: (draft.currency || 'USD').toUpperCase(),
+    valid_until: draft.valid_until || null,
+    notes: draft.notes?.trim() || null,
+    terms: draft.terms?.trim() || null,
+  }
+  const q = draft.id ? supabase.from('event_quotes').update(payload).eq('id', draft.id) : supabase.from('event_quotes').insert(payload)
+  const { data, error } = await q.select(QUOTE_FIELDS).single()
+  if (error) throw error
+  const saved = toQuote(data)
+  if (draft.id) await syncQuotePrices(saved)
+  return saved
+}
+
+export async function deleteQuote(id: string) {
+  const { error } = await supabase.from('event_quotes').delete().eq('id', id)
+  if (error) throw error
+}
+
+export async function setQuoteStatus(id: string, status: QuoteStatus) {
+  const { data, error } = await supabase.from('event_quotes').update({ status }).eq('id', id).select(QUOTE_FIELDS).single()
+  if (error) throw error
+  await syncQuotePrices(toQuote(data))
+}
+
+/**
+ * Stores current cost / price per portion on items that have none yet (quote out of draft),
+ * or clears them all (back to draft). Safe to call repeatedly: frozen items are left alone.
+ */
+export async function syncQuotePrices(quote: EventQuote) {
+  if (quote.status === 'draft') {
+    const { error } = await supabase
+      .from('event_quote_items')
+      .update({ cost_per_portion: null, price_per_portion: null })
+      .eq('quote_id', quote.id)
+      .not('cost_per_portion', 'is', null)
+    if (error) throw error
+    return
+  }
+  const ctx = await loadQuoteContext(quote.id)
+  const open = ctx.items.filter((it) => it.cost_per_portion == null || it.price_per_portion == null)
+  if (!open.length) return
+  const engine = createCostingEngine({ ingredients: ctx.ingredients, recipes: ctx.recipes, lines: ctx.lines })
+  for (const it of open) {
+    const cpp = engine.recipeCost(it.recipe_id).cpp
+    const { error } = await supabase
+      .from('event_quote_items')
+      .update({ cost_per_portion: cpp, price_per_portion: priceForCost(ctx.quote, cpp) })
+      .eq('id', it.id)
+    if (error) throw error
+  }
+}
+
+/* ---------------- Items & extras ---------------- */
+
+export async function addQuoteItem(quoteId: string, recipeId: string, portionsPerGuest: number, position: number) {
+  const { error } = await supabase
+    .from('event_quote_items')
+    .insert({ quote_id: quoteId, recipe_id: recipeId, portions_per_guest: Math.max(0, portionsPerGuest), position })
+  if (error) {
+    if ((error as any).code === '23505') throw new Error('That recipe is already on the quote.')
+    throw error
+  }
+}
+
+/** Adds every recipe of a menu that isn't on the quote yet, one portion per guest. */
+export async function addMenuToQuote(quoteId: string, menuId: string, existing: QuoteItem[]) {
+  const { data, error } = await supabase.from('menu_items').select('recipe_id,position').eq('menu_id', menuId).order('position', { ascending: true })
+  if (error) throw error
+  const have = new Set(existing.map((i) => i.recipe_id))
+  const start = existing.length ? Math.max(...existing.map((i) => i.position)) + 1 : 0
+  const rows = [...new Set((data ?? []).map((r: any) => String(r.recipe_id)))]
+    .filter((id) => !have.has(id))
+    .map((recipe_id, i) => ({ quote_id: quoteId, recipe_id, portions_per_guest: 1, position: start + i }))
+  if (!rows.length) return 0
+  const { error: ie } = await supabase.from('event_quote_items').insert(rows)
+  if (ie) throw ie
+  return rows.length
+}
+
+export async function updateQuoteItem(id: string, patch: Partial<Pick<QuoteItem, 'portions_per_guest' | 'position'>>) {
+  const { error } = await supabase.from('event_quote_items').update(patch).eq('id', id)
+  if (error) throw error
+}
+
+export async function deleteQuoteItem(id: string) {
+  const { error } = await supabase.from('event_quote_items').delete().eq('id', id)
+  if (error) throw error
+}
+
+export async function addQuoteExtra(quoteId: string, extra: Pick<QuoteExtra, 'kind' | 'description' | 'qty' | 'unit_price'>, position: number) {
+  const description = (extra.description || '').trim()
+  if (!description) throw new Error('Describe the extra.')
+  const { error } = await supabase.from('event_quote_extras').insert({
+    quote_id: quoteId,
+    kind: extra.kind,
+    description,
+    qty: Math.max(0, toNum(extra.qty, 0)),
+    unit_price: Math.max(0, toNum(extra.unit_price, 0)),
+    position,
+  })
+  if (error) throw error
+}
+
+export async function updateQuoteExtra(id: string, patch: Partial<Pick<QuoteExtra, 'description' | 'qty' | 'unit_price' | 'kind'>>) {
+  const { error } = await supabase.from('event_quote_extras').update(patch).eq('id', id)
+  if (error) throw error
+}
+
+export async function deleteQuoteExtra(id: string) {
+  const { error } = await supabase.from('event_quote_extras').delete().eq('id', id)
+  if (error) throw error
+}
+
+/* ---------------- Loading & pricing ---------------- */
+
+export async function loadQuoteContext(id: string): Promise<QuoteContext> {
+  const [q, it, ex, rec, ing, lines] = await Promise.all([
+    supabase.from('event_quotes').select(QUOTE_FIELDS).eq('id', id).single(),
+    supabase.from('event_quote_items').select(ITEM_FIELDS).eq('quote_id', id).order('position', { ascending: true }),
+    supabase.from('event_quote_extras').select(EXTRA_FIELDS).eq('quote_id', id).order('position', { ascending: true }),
+    supabase.from('recipes').select(QUOTE_RECIPE_FIELDS).order('name', { ascending: true }),
+    supabase.from('ingredients').select(PRODUCTION_INGREDIENT_FIELDS),
+    loadCostingLines(),
+  ])
+  for (const r of [q, it, ex, rec, ing]) if (r.error) throw r.error
+  return {
+    quote: toQuote(q.data),
+    items: (it.data ?? []).map(toItem),
+    extras: (ex.data ?? []).map(toExtra),
+    recipes: (rec.data ?? []) as QuoteRecipe[],
+    ingredients: (ing.data ?? []) as ProductionIngredient[],
+    lines,
+  }
+}
+
+/** Food price for a food cost under the quote's pricing mode. */
+export function priceForCost(quote: Pick<EventQuote, 'pricing_mode' | 'markup_pct' | 'target_food_cost_pct'>, cost: number) {
+  if (quote.pricing_mode === 'markup') return cost * (1 + Math.max(0, quote.markup_pct) / 100)
+  const pct = Math.min(100, Math.max(1, quote.target_food_cost_pct))
+  return cost / (pct / 100)
+}
+
+export function quoteTotals(ctx: Pick<QuoteContext, 'quote' | 'items' | 'extras' | 'recipes' | 'ingredients' | 'lines'>): QuoteTotals {
+  const engine = createCostingEngine({ ingredients: ctx.ingredients, recipes: ctx.recipes, lines: ctx.lines })
+  const guests = ctx.quote.guest_count
+  const items = new Map<string, QuoteItemCost>()
+  let foodCost = 0
+  let foodPrice = 0
+  for (const it of ctx.items) {
+    const portions = guests * Math.max(0, it.portions_per_guest)
+    const frozen = ctx.quote.status !== 'draft' && it.cost_per_portion != null && it.price_per_portion != null
+    const costPerPortion = frozen ? it.cost_per_portion! : engine.recipeCost(it.recipe_id).cpp
+    const cost = costPerPortion * portions
+    const price = frozen ? it.price_per_portion! * portions : priceForCost(ctx.quote, cost)
+    items.set(it.id, { itemId: it.id, recipeId: it.recipe_id, portions, costPerPortion, cost, price, frozen })
+    foodCost += cost
+    foodPrice += price
+  }
+  const extras = ctx.extras.reduce((s, e) => s + e.qty * e.unit_price, 0)
+  const subtotal = foodPrice + extras
+  const tax = subtotal * (Math.max(0, ctx.quote.tax_pct) / 100)
+  return {
+    items,
+    foodCost,
+    foodPrice,
+    extras,
+    subtotal,
+    tax,
+    total: subtotal + tax,
+    perGuest: guests > 0 ? (subtotal + tax) / guests : 0,
+    foodCostPct: foodPrice > 0 ? (foodCost / foodPrice) * 100 : null,
+    grossMarginPct: subtotal > 0 ? ((subtotal - foodCost) / subtotal) * 100 : null,
+  }
+}
+
+/** Dishes scaled to the guest count, the PREP batches they need and the ingredients to pull. */
+export function kitchenList(ctx: Pick<QuoteContext, 'quote' | 'items' | 'recipes' | 'ingredients' | 'lines'>): KitchenList {
+  const recipeById = new Map(ctx.recipes.map((r) => [r.id, r]))
+  const dishes = ctx.items
+    .map((it) => {
+      const portions = ctx.quote.guest_count * Math.max(0, it.portions_per_guest)
+      const r = recipeById.get(it.recipe_id)
+      return { recipeId: it.recipe_id, portions, factor: portions / Math.max(1, toNum(r?.portions, 1)) }
+    })
+    .filter((d) => d.portions > 0)
+  const req = explodePlan({
+    plan: dishes.map((d) => ({ recipeId: d.recipeId, portions: d.portions })),
+    recipes: ctx.recipes,
+    lines: ctx.lines,
+    ingredients: ctx.ingredients,
+  })
+  const preps = [...(req.prep ?? new Map<string, number>())]
+    .map(([recipeId, factor]) => ({ recipeId, factor }))
+    .sort((a, b) => (recipeById.get(a.recipeId)?.name || '').localeCompare(recipeById.get(b.recipeId)?.name || ''))
+  return { dishes, preps, ingredients: req.qty, issues: req.issues }
+}
@@ -0,0 +1,299 @@
+// src/lib/recipeCosting.ts
+import { supabase } from './supabase'
+import { conversionWarning, convertQty, normalizeUnit, type ConvertFailReason } from './units'
+
+/**
+ * Shared recipe costing engine.
+ *
+ * Walks recipe_lines recursively: ingredient lines are priced from net_unit_cost
+ * (per pack_unit), subrecipe lines from the PREP recipe's cost per yield unit.
+ * Every page that shows a cost should go through here so totals always agree.
+ */
+
+export type CostingIngredient = {
+  id: string
+  pack_unit?: string | null
+  net_unit_cost?: number | null
+  density_g_per_ml?: number | null
+  grams_per_piece?: number | null
+}
+
+export type CostingRecipe = {
+  id: string
+  portions?: number | null
+  yield_qty?: number | null
+  yield_unit?: string | null
+  selling_price?: number | null
+}
+
+export type CostingLine = {
+  id?: string | null
+  recipe_id: string
+  ingredient_id?: string | null
+  sub_recipe_id?: string | null
+  qty?: number | null
+  unit?: string | null
+  yield_percent?: number | null
+  gross_qty_override?: number | null
+  line_type?: string | null
+}
+
+export type LineCost = {
+  net: number
+  gross: number
+  yieldPct: number
+  unitCost: number
+  lineCost: number
+  warnings: string[]
+  /** Set when the line unit could not be converted; the line is then left uncosted. */
+  unitIssue: ConvertFailReason | null
+}
+
+export type RecipeCost = {
+  recipeId: string
+  totalCost: number
+  portions: number
+  cpp: number
+  /** Cost of one yield_unit of output, null when the recipe has no yield set. */
+  costPerYieldUnit: number | null
+  yieldUnit: string | null
+  /** Keyed by line id (or `${recipe_id}#${index}` for lines without one). */
+  lines: Map<string, LineCost>
+  /** Own line warnings plus everything inherited from nested subrecipes. */
+  warnings: string[]
+}
+
+export type PriceMetrics = {
+  fcPct: number | null
+  margin: number
+  marginPct: number | null
+}
+
+export const COST_WARNINGS = {
+  missingIngredient: 'Missing ingredient',
+  noPrice: 'Ingredient without price',
+  missingSubrecipe: 'Missing subrecipe',
+  missingYield: 'Subrecipe without yield (costed per portion)',
+  cycle: 'Circular subrecipe reference',
+} as const
+
+export const COSTING_LINE_FIELDS = 'id,recipe_id,ingredient_id,sub_recipe_id,position,qty,unit,yield_percent,gross_qty_override,line_type'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function clamp(n: number, a: number, b: number) {
+  return Math.min(b, Math.max(a, n))
+}
+
+function safeUnit(u: string | null | undefined) {
+  return normalizeUnit(u) || 'g'
+}
+
+export function lineKey(l: CostingLine, index: number) {
+  return l.id || `${l.recipe_id}#${index}`
+}
+
+export function lineTypeOf(l: CostingLine): 'ingredient' | 'subrecipe' | 'group' {
+  if (l.line_type === 'group' || l.line_type === 'subrecipe' || l.line_type === 'ingredient') return l.line_type
+  if (l.sub_recipe_id) return 'subrecipe'
+  if (l.ingredient_id) return 'ingredient'
+  return 'group'
+}
+
+export function lineQuantities(l: CostingLine) {
+  const net = Math.max(0, toNum(l.qty, 0))
+  const yieldPct = clamp(toNum(l.yield_percent, 100), 0.0001, 100)
+  const override = toNum(l.gross_qty_override, 0)
+  const gross = override > 0 ? override : net / (yieldPct / 100)
+  return { net, gross, yieldPct }
+}
+
+export function priceMetrics(cpp: number, sellingPrice: any): PriceMetrics {
+  const sell = Math.max(0, toNum(sellingPrice, 0))
+  const fcPct = sell > 0 ? (cpp / sell) * 100 : null
+  const margin = sell - cpp
+  const marginPct = sell > 0 ? (margin / sell) * 100 : null
+  return { fcPct, margin, marginPct }
+}
+
+export type CostingEngine = {
+  recipeCost: (recipeId: string) => RecipeCost
+  /** Cost a set of lines as if they belonged to `recipeId` (e.g. unsaved editor lines). */
+  costLines: (recipeId: string, lines: CostingLine[], portions?: number | null) => RecipeCost
+  hasLines: (recipeId: string) => boolean
+}
+
+export function groupLinesByRecipe<T extends CostingLine>(lines: T[]) {
+  const m = new Map<string, T[]>()
+  for (const l of lines || []) {
+    if (!l?.recipe_id) continue
+    if (!m.has(l.recipe_id)) m.set(l.recipe_id, [])
+    m.get(l.recipe_id)!.push(l)
+  }
+  return m
+}
+
+export function createCostingEngine(args: {
+  ingredients: CostingIngredient[]
+  recipes: CostingRecipe[]
+  lines: CostingLine[] | Map<string, CostingLine[]>
+}): CostingEngine {
+  const ingById = new Map<string, CostingIngredient>()
+  for (const i of args.ingredients || []) ingById.set(i.id, i)
+
+  const recipeById = new Map<string, CostingRecipe>()
+  for (const r of args.recipes || []) recipeById.set(r.id, r)
+
+  const linesByRecipe = args.lines instanceof Map ? args.lines : groupLinesByRecipe(args.lines)
+
+  const memo = new Map<string, RecipeCost>()
+  const visiting = new Set<string>()
+
+  function costOneLine(l: CostingLine, nested: Set<string>): LineCost {
+    const warnings: string[] = []
+    const { net, gross, yieldPct } = lineQuantities(l)
+    const type = lineTypeOf(l)
+    const unit = safeUnit(l.unit)
+
+    let unitCost = 0
+    let lineCost = 0
+    let unitIssue: ConvertFailReason | null = null
+
+    if (type === 'ingredient') {
+      const ing = l.ingredient_id ? ingById.get(l.ingredient_id) : null
+      unitCost = toNum(ing?.net_unit_cost, 0)
+      if (!ing) warnings.push(COST_WARNINGS.missingIngredient)
+      else if (unitCost <= 0) warnings.push(COST_WARNINGS.noPrice)
+      const conv = convertQty(gross, unit, safeUnit(ing?.pack_unit || unit), ing)
+      if (conv.ok) lineCost = conv.value * unitCost
+      else {
+        unitIssue = conv.reason
+        warnings.push(conversionWarning(conv)!)
+      }
+    } else if (type === 'subrecipe') {
+      const sub = l.sub_recipe_id ? recipeById.get(l.sub_recipe_id) : null
+      if (!sub || !l.sub_recipe_id) {
+        warnings.push(COST_WARNINGS.missingSubrecipe)
+      } else if (visiting.has(sub.id)) {
+        warnings.push(COST_WARNINGS.cycle)
+      } else {
+        const sc = walk(sub.id)
+        for (const w of sc.warnings) nested.add(w)
+
+        if (unit === 'portion') {
+          unitCost = sc.cpp
+          lineCost = gross * sc.cpp
+        } else if (sc.costPerYieldUnit != null && sc.yieldUnit) {
+          const conv = convertQty(gross, unit, sc.yieldUnit)
+          unitCost = sc.costPerYieldUnit
+          if (conv.ok) lineCost = conv.value * sc.costPerYieldUnit
+          else {
+            unitIssue = conv.reason
+            warnings.push(conversionWarning(conv)!)
+          }
+        } else {
+          warnings.push(COST_WARNINGS.missingYield)
+          unitCost = sc.cpp
+          lineCost = gross * sc.cpp
+        }
+      }
+    }
+
+    return { net, gross, yieldPct, unitCost, lineCost: Number.isFinite(lineCost) ? lineCost : 0, warnings, unitIssue }
+  }
+
+  function sumLines(recipeId: string, lines: CostingLine[], portionsRaw: any): RecipeCost {
+    const recipe = recipeById.get(recipeId)
+    const out = new Map<string, LineCost>()
+    let totalCost = 0
+    const warnings = new Set<string>()
+
+    visiting.add(recipeId)
+    try {
+      lines.forEach((l, idx) => {
+        if (lineTypeOf(l) === 'group') return
+        const c = costOneLine(l, warnings)
+        out.set(lineKey(l, idx), c)
+        totalCost += c.lineCost
+        for (const w of c.warnings) warnings.add(w)
+      })
+    } finally {
+      visiting.delete(recipeId)
+    }
+
+    const portions = Math.max(1, toNum(portionsRaw, 1))
+    const yq = toNum(recipe?.yield_qty, 0)
+    const yu = recipe?.yield_unit ? safeUnit(recipe.yield_unit) : null
+
+    return {
+      recipeId,
+      totalCost,
+      portions,
+      cpp: totalCost / portions,
+      costPerYieldUnit: yq > 0 && yu ? totalCost / yq : null,
+      yieldUnit: yq > 0 ? yu : null,
+      lines: out,
+      warnings: Array.from(warnings),
+    }
+  }
+
+  function walk(recipeId: string): RecipeCost {
+    const hit = memo.get(recipeId)
+    if (hit) return hit
+    const res = sumLines(recipeId, linesByRecipe.get(recipeId) ?? [], recipeById.get(recipeId)?.portions)
+    memo.set(recipeId, res)
+    return res
+  }
+
+  return {
+    recipeCost: (recipeId: string) => walk(recipeId),
+    costLines: (recipeId: string, lines: CostingLine[], portions?: number | null) =>
+      sumLines(recipeId, lines, portions ?? recipeById.get(recipeId)?.portions),
+    hasLines: (recipeId: string) => linesByRecipe.has(recipeId),
+  }
+}
+
+/**
+ * Subrecipe ids reachable from `rootIds` whose lines are not in `linesByRecipe` yet.
+ * Callers that load lines lazily use this to fetch the rest of the tree before costing.
+ */
+export function missingSubrecipeIds(rootIds: string[], linesByRecipe: Map<string, CostingLine[]> | Record<string, CostingLine[]>) {
+  const get = (id: string) => (linesByRecipe instanceof Map ? linesByRecipe.get(id) : linesByRecipe[id])
+  const missing = new Set<string>()
+  const seen = new Set<string>()
+  const stack = [...rootIds]
+  while (stack.length) {
+    const rid = stack.pop()!
+    if (seen.has(rid)) continue
+    seen.add(rid)
+    const ls = get(rid)
+    if (!ls) {
+      missing.add(rid)
+      continue
+    }
+    for (const l of ls) if (l.sub_recipe_id && !seen.has(l.sub_recipe_id)) stack.push(l.sub_recipe_id)
+  }
+  return Array.from(missing)
+}
+
+/** All recipe lines of the current kitchen (RLS-scoped), paged. */
+export async function loadCostingLines(): Promise<CostingLine[]> {
+  const pageSize = 1000
+  const out: CostingLine[] = []
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('recipe_lines')
+      .select(COSTING_LINE_FIELDS)
+      .order('recipe_id', { ascending: true })
+      .order('position', { ascending: true })
+      .range(from, from + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []) as CostingLine[]
+    out.push(...rows)
+    if (rows.length < pageSize) break
+  }
+  return out
+}
@@ -0,0 +1,160 @@
+// src/lib/recipeGraph.ts
+
+/**
+ * Recipe dependency graph built from recipe_lines.sub_recipe_id.
+ * Edges point parent → subrecipe; ingredient usage is tracked alongside so
+ * "where used" works for both recipes and ingredients.
+ */
+
+export type GraphLine = {
+  recipe_id: string
+  ingredient_id?: string | null
+  sub_recipe_id?: string | null
+  qty?: number | null
+  unit?: string | null
+}
+
+export type UsageEdge = {
+  parentId: string
+  qty: number
+  unit: string
+}
+
+export type RecipeGraph = {
+  /** parent recipe → subrecipe ids it uses */
+  children: Map<string, Set<string>>
+  /** subrecipe → lines in parent recipes that use it */
+  recipeParents: Map<string, UsageEdge[]>
+  /** ingredient → lines in recipes that use it */
+  ingredientParents: Map<string, UsageEdge[]>
+}
+
+export type WhereUsedEntry = {
+  recipeId: string
+  /** 1 = uses the item directly, 2 = through one subrecipe, … */
+  depth: number
+  /** Quantity of `viaId` used on the parent's line. */
+  qty: number
+  unit: string
+  /** The recipe or ingredient this parent uses directly on the path. */
+  viaId: string
+}
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function pushEdge(m: Map<string, UsageEdge[]>, key: string, edge: UsageEdge) {
+  if (!m.has(key)) m.set(key, [])
+  m.get(key)!.push(edge)
+}
+
+export function buildRecipeGraph(lines: GraphLine[]): RecipeGraph {
+  const children = new Map<string, Set<string>>()
+  const recipeParents = new Map<string, UsageEdge[]>()
+  const ingredientParents = new Map<string, UsageEdge[]>()
+
+  for (const l of lines || []) {
+    if (!l?.recipe_id) continue
+    const edge = { parentId: l.recipe_id, qty: toNum(l.qty, 0), unit: (l.unit || '').trim() }
+    if (l.sub_recipe_id) {
+      if (!children.has(l.recipe_id)) children.set(l.recipe_id, new Set())
+      children.get(l.recipe_id)!.add(l.sub_recipe_id)
+      pushEdge(recipeParents, l.sub_recipe_id, edge)
+    } else if (l.ingredient_id) {
+      pushEdge(ingredientParents, l.ingredient_id, edge)
+    }
+  }
+
+  return { children, recipeParents, ingredientParents }
+}
+
+/** Path from `fromId` down to `toId` following subrecipe edges, or null when unreachable. */
+export function findPath(graph: RecipeGraph, fromId: string, toId: string): string[] | null {
+  const prev = new Map<string, string | null>([[fromId, null]])
+  const queue = [fromId]
+  while (queue.length) {
+    const cur = queue.shift()!
+    if (cur === toId) {
+      const path: string[] = []
+      for (let x: string | null | undefined = cur; x != null; x = prev.get(x)) path.unshift(x)
+      return path
+    }
+    for (const next of graph.children.get(cur) ?? []) {
+      if (prev.has(next)) continue
+      prev.set(next, cur)
+      queue.push(next)
+    }
+  }
+  return null
+}
+
+/**
+ * Would adding `childId` as a subrecipe of `parentId` close a loop?
+ * Returns the offending path (parent → … → parent) or null when the edge is safe.
+ */
+export function cyclePathIfAdded(graph: RecipeGraph, parentId: string, childId: string): string[] | null {
+  if (parentId === childId) return [parentId, childId]
+  const back = findPath(graph, childId, parentId)
+  return back ? [parentId, ...back] : null
+}
+
+/** First cycle found in the graph (as a closed path), or null. */
+export function findCycle(graph: RecipeGraph): string[] | null {
+  const state = new Map<string, 1 | 2>() // 1 = on stack, 2 = done
+  const stack: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 1)
+    stack.push(id)
+    for (const next of graph.children.get(id) ?? []) {
+      const s = state.get(next)
+      if (s === 1) return [...stack.slice(stack.indexOf(next)), next]
+      if (s === 2) continue
+      const found = visit(next)
+      if (found) return found
+    }
+    stack.pop()
+    state.set(id, 2)
+    return null
+  }
+
+  for (const id of graph.children.keys()) {
+    if (state.has(id)) continue
+    const found = visit(id)
+    if (found) return found
+  }
+  return null
+}
+
+function walkParents(graph: RecipeGraph, direct: UsageEdge[], startId: string): WhereUsedEntry[] {
+  const out: WhereUsedEntry[] = []
+  const seen = new Set<string>()
+  let frontier = direct.map((e) => ({ edge: e, viaId: startId }))
+  let depth = 1
+
+  while (frontier.length) {
+    const next: typeof frontier = []
+    for (const { edge, viaId } of frontier) {
+      out.push({ recipeId: edge.parentId, depth, qty: edge.qty, unit: edge.unit, viaId })
+      if (seen.has(edge.parentId)) continue
+      seen.add(edge.parentId)
+      for (const up of graph.recipeParents.get(edge.parentId) ?? []) next.push({ edge: up, viaId: edge.parentId })
+    }
+    frontier = next
+    depth += 1
+  }
+
+  return out
+}
+
+/** Every recipe that uses `recipeId`, directly or through other subrecipes. */
+export function whereUsedRecipe(graph: RecipeGraph, recipeId: string): WhereUsedEntry[] {
+  return walkParents(graph, graph.recipeParents.get(recipeId) ?? [], recipeId)
+}
+
+/** Every recipe that uses `ingredientId`, directly or through subrecipes. */
+export function whereUsedIngredient(graph: RecipeGraph, ingredientId: string): WhereUsedEntry[] {
+  return walkParents(graph, graph.ingredientParents.get(ingredientId) ?? [], ingredientId)
+}
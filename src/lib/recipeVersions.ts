@@ -0,0 +1,383 @@
+// src/lib/recipeVersions.ts
+import { supabase } from './supabase'
+import { buildRecipeGraph, cyclePathIfAdded } from './recipeGraph'
+import { loadCostingLines } from './recipeCosting'
+
+/**
+ * Server-side recipe history (table recipe_versions).
+ * Every save in the editor records the full recipe row + lines as a new version; a save that
+ * changes nothing is skipped. Versions are never edited (the table only allows select + insert).
+ * Restoring writes the old state back in one transaction and records it as a NEW version.
+ */
+
+export type RecipeVersionReason = 'meta' | 'lines' | 'restore' | 'save'
+
+export type RecipeVersionRecipe = {
+  code: string | null
+  code_category: string | null
+  name: string
+  category: string | null
+  portions: number
+  description: string
+  method_steps: string[]
+  method_step_photos: string[]
+  method: string
+  calories: number | null
+  protein_g: number | null
+  carbs_g: number | null
+  fat_g: number | null
+  currency: string
+  selling_price: number | null
+  target_food_cost_pct: number | null
+  is_subrecipe: boolean
+  yield_qty: number | null
+  yield_unit: string
+}
+
+export type RecipeVersionLine = {
+  id: string
+  ingredient_id: string | null
+  sub_recipe_id: string | null
+  position: number
+  qty: number
+  unit: string
+  yield_percent: number
+  notes: string | null
+  gross_qty_override: number | null
+  line_type: 'ingredient' | 'subrecipe' | 'group'
+  group_title: string | null
+  /** Ingredient / subrecipe name when the version was taken (items may be renamed or deleted later). */
+  label: string
+  /** Line cost when the version was taken. */
+  cost: number
+}
+
+export type RecipeVersionSnapshot = {
+  schema: 1
+  recipe: RecipeVersionRecipe
+  lines: RecipeVersionLine[]
+  cost: { total: number; cpp: number; currency: string }
+}
+
+export type RecipeVersionRow = {
+  id: string
+  recipe_id: string
+  version_no: number
+  reason: RecipeVersionReason
+  restored_from: number | null
+  total_cost: number | null
+  cpp: number | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+const ROW_FIELDS = 'id,recipe_id,version_no,reason,restored_from,total_cost,cpp,created_by,created_at,updated_at'
+
+export const RECIPE_FIELD_LABELS: Record<keyof RecipeVersionRecipe, string> = {
+  code: 'Code',
+  code_category: 'Code category',
+  name: 'Name',
+  category: 'Category',
+  portions: 'Portions',
+  description: 'Description',
+  method_steps: 'Method steps',
+  method_step_photos: 'Step photos',
+  method: 'Method (legacy)',
+  calories: 'Calories',
+  protein_g: 'Protein (g)',
+  carbs_g: 'Carbs (g)',
+  fat_g: 'Fat (g)',
+  currency: 'Currency',
+  selling_price: 'Selling price',
+  target_food_cost_pct: 'Target food cost %',
+  is_subrecipe: 'Prep recipe',
+  yield_qty: 'Yield qty',
+  yield_unit: 'Yield unit',
+}
+
+export const VERSION_REASON_LABELS: Record<RecipeVersionReason, string> = {
+  meta: 'Details saved',
+  lines: 'Lines saved',
+  restore: 'Restored',
+  save: 'Saved',
+}
+
+/** JSON with sorted keys — jsonb does not keep key order, so plain stringify can't detect no-op saves. */
+function stableJson(v: any): string {
+  if (Array.isArray(v)) return `[${v.map(stableJson).join(',')}]`
+  if (v && typeof v === 'object') {
+    return `{${Object.keys(v)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableJson(v[k])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(v ?? null)
+}
+
+const latestCache = new Map<string, { row: RecipeVersionRow; json: string }>()
+const queues = new Map<string, Promise<unknown>>()
+
+/** Run writes for one recipe one after another so meta + lines saves can't race each other. */
+function enqueue<T>(recipeId: string, job: () => Promise<T>): Promise<T> {
+  const prev = queues.get(recipeId) ?? Promise.resolve()
+  const next = prev.catch(() => {}).then(job)
+  queues.set(recipeId, next)
+  return next
+}
+
+async function latestVersion(recipeId: string) {
+  const hit = latestCache.get(recipeId)
+  if (hit) return hit
+  const { data, error } = await supabase
+    .from('recipe_versions')
+    .select(`${ROW_FIELDS},snapshot`)
+    .eq('recipe_id', recipeId)
+    .order('version_no', { ascending: false })
+    .limit(1)
+  if (error) throw error
+  const r = (data ?? [])[0] as any
+  if (!r) return null
+  const { snapshot, ...row } = r
+  const entry = { row: row as RecipeVersionRow, json: stableJson(snapshot) }
+  latestCache.set(recipeId, entry)
+  return entry
+}
+
+/**
+ * Record the recipe's current state. Returns null when nothing changed since the last version.
+ */
+export function recordRecipeVersion(
+  recipeId: string,
+  snapshot: RecipeVersionSnapshot,
+  reason: RecipeVersionReason,
+  opts?: { restoredFrom?: number }
+): Promise<RecipeVersionRow | null> {
+  return enqueue(recipeId, async () => {
+    const json = stableJson(snapshot)
+    const latest = await latestVersion(recipeId)
+    if (latest && latest.json === json) return null
+
+    const { data, error } = await supabase
+      .from('recipe_versions')
+      .insert({
+        recipe_id: recipeId,
+        reason,
+        restored_from: opts?.restoredFrom ?? null,
+        snapshot,
+        total_cost: snapshot.cost.total,
+        cpp: snapshot.cost.cpp,
+      })
+      .select(ROW_FIELDS)
+      .single()
+    if (error) throw error
+    latestCache.set(recipeId, { row: data as RecipeVersionRow, json })
+    return data as RecipeVersionRow
+  })
+}
+
+export async function listRecipeVersions(recipeId: string): Promise<RecipeVersionRow[]> {
+  const { data, error } = await supabase
+    .from('recipe_versions')
+    .select(ROW_FIELDS)
+    .eq('recipe_id', recipeId)
+    .order('version_no', { ascending: false })
+  if (error) throw error
+  const rows = (data ?? []) as RecipeVersionRow[]
+  // Someone else may have saved since we last wrote; re-read before comparing against "our" latest.
+  const cached = latestCache.get(recipeId)
+  if (cached && cached.row.id !== rows[0]?.id) latestCache.delete(recipeId)
+  return rows
+}
+
+export async function getRecipeVersionSnapshot(versionId: string): Promise<RecipeVersionSnapshot> {
+  const { data, error } = await supabase.from('recipe_versions').select('snapshot').eq('id', versionId).single()
+  if (error) throw error
+  return (data as any).snapshot as RecipeVersionSnapshot
+}
+
+export type RestoreResult = {
+  recipe: RecipeVersionRecipe
+  /** Lines as stored after the restore (new ids). */
+  lines: Array<Omit<RecipeVersionLine, 'label' | 'cost'> & { kitchen_id: string; recipe_id: string }>
+  /** Labels of lines that could not come back (item deleted, or the subrecipe would now form a loop). */
+  dropped: string[]
+}
+
+/**
+ * Write an old version back into recipes / recipe_lines through restore_recipe_version()
+ * (one transaction: a failed line insert leaves the current recipe untouched). The caller
+ * records the resulting state with reason 'restore' once it has re-costed it.
+ */
+export async function restoreRecipeVersion(recipeId: string, versionId: string): Promise<RestoreResult> {
+  const snap = await getRecipeVersionSnapshot(versionId)
+
+  const { data: r, error: rErr } = await supabase.from('recipes').select('kitchen_id').eq('id', recipeId).single()
+  if (rErr) throw rErr
+  const kitchenId = (r as any).kitchen_id as string
+
+  const ingIds = [...new Set(snap.lines.map((l) => l.ingredient_id).filter(Boolean))] as string[]
+  const subIds = [...new Set(snap.lines.map((l) => l.sub_recipe_id).filter(Boolean))] as string[]
+  const [ingRes, subRes, kitchenLines] = await Promise.all([
+    ingIds.length ? supabase.from('ingredients').select('id').in('id', ingIds) : Promise.resolve({ data: [], error: null }),
+    subIds.length ? supabase.from('recipes').select('id').in('id', subIds) : Promise.resolve({ data: [], error: null }),
+    loadCostingLines(),
+  ])
+  if (ingRes.error) throw ingRes.error
+  if (subRes.error) throw subRes.error
+  const liveIng = new Set(((ingRes.data ?? []) as any[]).map((x) => x.id as string))
+  const liveSub = new Set(((subRes.data ?? []) as any[]).map((x) => x.id as string))
+  const graph = buildRecipeGraph(kitchenLines.filter((l) => l.recipe_id !== recipeId))
+
+  const dropped: string[] = []
+  const keep = snap.lines.filter((l) => {
+    const ok =
+      l.line_type === 'group' ||
+      (l.ingredient_id ? liveIng.has(l.ingredient_id) : l.sub_recipe_id ? liveSub.has(l.sub_recipe_id) && !cyclePathIfAdded(graph, recipeId, l.sub_recipe_id) : true)
+    if (!ok) dropped.push(l.label || 'Line')
+    return ok
+  })
+
+  const { data, error } = await supabase.rpc('restore_recipe_version', {
+    p_recipe_id: recipeId,
+    p_recipe: snap.recipe,
+    p_lines: keep.map(({ id: _id, label: _label, cost: _cost, ...l }) => l),
+  })
+  if (error) throw error
+
+  const lines = ((data ?? []) as any[])
+    .map((l) => ({
+      id: String(l.id),
+      kitchen_id: String(l.kitchen_id ?? kitchenId),
+      recipe_id: recipeId,
+      ingredient_id: l.ingredient_id ?? null,
+      sub_recipe_id: l.sub_recipe_id ?? null,
+      position: Number(l.position) || 0,
+      qty: Number(l.qty) || 0,
+      unit: String(l.unit || ''),
+      yield_percent: Number(l.yield_percent ?? 100),
+      notes: l.notes ?? null,
+      gross_qty_override: l.gross_qty_override == null ? null : Number(l.gross_qty_override),
+      line_type: l.line_type,
+      group_title: l.group_title ?? null,
+    }))
+    .sort((a, b) => a.position - b.position) as RestoreResult['lines']
+
+  return { recipe: snap.recipe, lines, dropped }
+}
+
+/* ---------------- diff ---------------- */
+
+export type FieldChange = {
+  key: keyof RecipeVersionRecipe
+  label: string
+  from: string
+  to: string
+}
+
+export type LineChange = {
+  kind: 'added' | 'removed' | 'changed'
+  label: string
+  from: RecipeVersionLine | null
+  to: RecipeVersionLine | null
+  /** Human-readable per-attribute changes, e.g. "qty 200 → 250 g". */
+  details: string[]
+  costDelta: number
+}
+
+export type VersionDiff = {
+  fields: FieldChange[]
+  lines: LineChange[]
+  cost: { from: number; to: number; delta: number; cppFrom: number; cppTo: number; cppDelta: number }
+}
+
+function fmtVal(key: keyof RecipeVersionRecipe, v: any): string {
+  if (v == null || v === '') return '—'
+  if (key === 'method_steps' || key === 'method_step_photos') return `${(v as any[]).length} item(s)`
+  if (key === 'is_subrecipe') return v ? 'Yes' : 'No'
+  const s = String(v)
+  return s.length > 80 ? `${s.slice(0, 77)}…` : s
+}
+
+function fmtNum(n: number | null | undefined) {
+  if (n == null || !Number.isFinite(n)) return '—'
+  return String(Math.round(n * 1000) / 1000)
+}
+
+function itemKey(l: RecipeVersionLine) {
+  if (l.line_type === 'group') return `group:${l.group_title ?? ''}`
+  return l.sub_recipe_id ? `sub:${l.sub_recipe_id}` : `ing:${l.ingredient_id ?? ''}`
+}
+
+function lineDetails(a: RecipeVersionLine, b: RecipeVersionLine): string[] {
+  const out: string[] = []
+  if (a.qty !== b.qty || a.unit !== b.unit) out.push(`qty ${fmtNum(a.qty)} ${a.unit} → ${fmtNum(b.qty)} ${b.unit}`)
+  if (a.yield_percent !== b.yield_percent) out.push(`yield ${fmtNum(a.yield_percent)}% → ${fmtNum(b.yield_percent)}%`)
+  if ((a.gross_qty_override ?? null) !== (b.gross_qty_override ?? null)) {
+    out.push(`gross ${fmtNum(a.gross_qty_override)} → ${fmtNum(b.gross_qty_override)}`)
+  }
+  if ((a.notes ?? '') !== (b.notes ?? '')) out.push('note edited')
+  if ((a.group_title ?? '') !== (b.group_title ?? '')) out.push(`title "${a.group_title ?? ''}" → "${b.group_title ?? ''}"`)
+  if (a.position !== b.position) out.push('moved')
+  if (!out.length && Math.abs(a.cost - b.cost) > 1e-9) out.push('price changed')
+  return out
+}
+
+/** What changed going from `a` (older) to `b` (newer). Lines are paired by id, then by ingredient/subrecipe. */
+export function diffRecipeVersions(a: RecipeVersionSnapshot, b: RecipeVersionSnapshot): VersionDiff {
+  const fields: FieldChange[] = []
+  for (const key of Object.keys(RECIPE_FIELD_LABELS) as Array<keyof RecipeVersionRecipe>) {
+    if (stableJson(a.recipe[key]) === stableJson(b.recipe[key])) continue
+    fields.push({ key, label: RECIPE_FIELD_LABELS[key], from: fmtVal(key, a.recipe[key]), to: fmtVal(key, b.recipe[key]) })
+  }
+
+  const pairs: Array<[RecipeVersionLine | null, RecipeVersionLine | null]> = []
+  const restB = new Map(b.lines.map((l) => [l.id, l]))
+  const unmatchedA: RecipeVersionLine[] = []
+  for (const la of a.lines) {
+    const lb = restB.get(la.id)
+    if (lb) {
+      pairs.push([la, lb])
+      restB.delete(la.id)
+    } else unmatchedA.push(la)
+  }
+  const byKey = new Map<string, RecipeVersionLine[]>()
+  for (const lb of restB.values()) {
+    const k = itemKey(lb)
+    if (!byKey.has(k)) byKey.set(k, [])
+    byKey.get(k)!.push(lb)
+  }
+  for (const la of unmatchedA) {
+    const lb = byKey.get(itemKey(la))?.shift() ?? null
+    pairs.push([la, lb])
+    if (lb) restB.delete(lb.id)
+  }
+  for (const lb of restB.values()) pairs.push([null, lb])
+
+  const lines: LineChange[] = []
+  for (const [la, lb] of pairs) {
+    if (la && lb) {
+      const details = lineDetails(la, lb)
+      if (!details.length) continue
+      lines.push({ kind: 'changed', label: lb.label || la.label, from: la, to: lb, details, costDelta: lb.cost - la.cost })
+    } else if (lb) {
+      lines.push({ kind: 'added', label: lb.label, from: null, to: lb, details: [`${fmtNum(lb.qty)} ${lb.unit}`], costDelta: lb.cost })
+    } else if (la) {
+      lines.push({ kind: 'removed', label: la.label, from: la, to: null, details: [`${fmtNum(la.qty)} ${la.unit}`], costDelta: -la.cost })
+    }
+  }
+  lines.sort((x, y) => (x.to?.position ?? x.from?.position ?? 0) - (y.to?.position ?? y.from?.position ?? 0))
+
+  return {
+    fields,
+    lines,
+    cost: {
+      from: a.cost.total,
+      to: b.cost.total,
+      delta: b.cost.total - a.cost.total,
+      cppFrom: a.cost.cpp,
+      cppTo: b.cost.cpp,
+      cppDelta: b.cost.cpp - a.cost.cpp,
+    },
+  }
+}
@@ -0,0 +1,436 @@
+// src/lib/sales.ts
+import { supabase } from './supabase'
+import { findColumn, parseCsvTable, parseDay, parseNumber } from './csv'
+import { type CostingLine } from './recipeCosting'
+import { explodePlan, type PurchasingIngredient, type PurchasingRecipe, type RequirementIssue } from './purchasing'
+import { listMovementsBetween, listMovementsFor, type StockCount } from './inventory'
+
+/**
+ * POS sales import (tables sales_imports / sales_lines / pos_item_mappings) and the
+ * theoretical-vs-actual usage report.
+ *
+ * A sold item is matched to a MENU recipe by recipe code, else by a mapping rule on its
+ * POS code or name. One sold item = one portion. Theoretical usage explodes the sales
+ * mix through recipe lines like purchasing does; actual usage is what left stock between
+ * two posted counts (consume, waste and count adjustments, closing count included).
+ */
+
+export type PosSaleRow = {
+  code: string | null
+  name: string | null
+  day: string
+  qty: number
+  unitPrice: number
+  revenue: number
+}
+
+export type ParsedSales = { rows: PosSaleRow[]; errors: string[] }
+
+export type SalesImport = {
+  id: string
+  code: string | null
+  source_name: string | null
+  period_start: string | null
+  period_end: string | null
+  line_count: number
+  total_qty: number
+  total_revenue: number
+  created_at: string
+}
+
+export type PosMapping = {
+  id: string
+  pos_key: string
+  pos_label: string | null
+  recipe_id: string | null
+  is_ignored: boolean
+}
+
+export type SaleMatch = { recipeId: string | null; ignored: boolean; via: 'code' | 'rule' | null }
+
+export type UnmatchedItem = { key: string; code: string | null; name: string | null; qty: number; revenue: number; lines: number }
+
+export type SalesMix = { qty: Map<string, number>; revenueByRecipe: Map<string, number>; revenue: number; unmatchedQty: number; days: number }
+
+export type UsageVarianceRow = {
+  ingredientId: string
+  theoretical: number
+  actual: number
+  /** part of `actual` that was logged as waste */
+  waste: number
+  varianceQty: number
+  varianceValue: number
+}
+
+export type UsageVariance = { rows: UsageVarianceRow[]; issues: RequirementIssue[]; theoreticalValue: number; actualValue: number }
+
+type MatchRecipe = { id: string; code?: string | null; is_subrecipe?: boolean | null }
+
+const IMPORT_FIELDS = 'id,code,source_name,period_start,period_end,line_count,total_qty,total_revenue,created_at'
+const MAPPING_FIELDS = 'id,pos_key,pos_label,recipe_id,is_ignored'
+
+const EPS = 1e-9
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function toImport(r: any): SalesImport {
+  return {
+    id: String(r.id),
+    code: r.code ?? null,
+    source_name: r.source_name ?? null,
+    period_start: r.period_start ?? null,
+    period_end: r.period_end ?? null,
+    line_count: toNum(r.line_count, 0),
+    total_qty: toNum(r.total_qty, 0),
+    total_revenue: toNum(r.total_revenue, 0),
+    created_at: String(r.created_at),
+  }
+}
+
+function toMapping(r: any): PosMapping {
+  return { id: String(r.id), pos_key: String(r.pos_key), pos_label: r.pos_label ?? null, recipe_id: r.recipe_id ?? null, is_ignored: !!r.is_ignored }
+}
+
+function clean(v: unknown) {
+  const s = String(v ?? '').trim()
+  return s || null
+}
+
+/* ---------------- Parsing ---------------- */
+
+const CODE_COLS = ['code', 'item_code', 'plu', 'sku', 'article', 'product_code', 'id']
+const NAME_COLS = ['name', 'item_name', 'item', 'product', 'description', 'article_name']
+const QTY_COLS = ['qty', 'quantity', 'count', 'sold', 'units', 'amount_sold']
+const PRICE_COLS = ['unit_price', 'price', 'item_price']
+const TOTAL_COLS = ['total', 'revenue', 'net_sales', 'gross_sales', 'sales', 'amount', 'line_total']
+const DATE_COLS = ['date', 'sold_on', 'sold_at', 'business_date', 'day', 'timestamp', 'created_at']
+
+function toSaleRow(get: (names: string[]) => unknown, fallbackDay: string, at: string, errors: string[]): PosSaleRow | null {
+  const code = clean(get(CODE_COLS))
+  const name = clean(get(NAME_COLS))
+  if (!code && !name) {
+    errors.push(`${at}: no item code or name`)
+    return null
+  }
+  const qty = parseNumber(get(QTY_COLS)) ?? 1
+  if (!(qty > 0)) return null
+  const price = parseNumber(get(PRICE_COLS))
+  const total = parseNumber(get(TOTAL_COLS))
+  const rawDay = get(DATE_COLS)
+  const day = rawDay == null || String(rawDay).trim() === '' ? fallbackDay : parseDay(rawDay)
+  if (!day) {
+    errors.push(`${at}: unreadable date "${String(rawDay)}"`)
+    return null
+  }
+  const unitPrice = price ?? (total != null ? total / qty : 0)
+  return { code, name, day, qty, unitPrice, revenue: total ?? unitPrice * qty }
+}
+
+/** Reads a POS export (CSV with a header row, or JSON array / {items|sales|data: [...]}). */
+export function parseSalesFile(text: string, fileName: string, fallbackDay: string): ParsedSales {
+  const errors: string[] = []
+  const rows: PosSaleRow[] = []
+  const trimmed = text.trim()
+
+  if (/\.json$/i.test(fileName) || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: any
+    try {
+      data = JSON.parse(trimmed)
+    } catch {
+      return { rows, errors: ['Not valid JSON'] }
+    }
+    const list: any[] = Array.isArray(data) ? data : data?.items ?? data?.sales ?? data?.data ?? []
+    list.forEach((obj, i) => {
+      if (!obj || typeof obj !== 'object') return
+      const keys = Object.keys(obj)
+      const header = keys.map((k) => k.trim().toLowerCase())
+      const get = (names: string[]) => {
+        const idx = findColumn(header, names)
+        return idx >= 0 ? obj[keys[idx]] : undefined
+      }
+      const r = toSaleRow(get, fallbackDay, `Item ${i + 1}`, errors)
+      if (r) rows.push(r)
+    })
+    return { rows, errors }
+  }
+
+  const table = parseCsvTable(text)
+  if (findColumn(table.header, CODE_COLS) < 0 && findColumn(table.header, NAME_COLS) < 0) {
+    return { rows, errors: ['No item code or name column found in the header row'] }
+  }
+  table.rows.forEach((cells, i) => {
+    const get = (names: string[]) => {
+      const idx = findColumn(table.header, names)
+      return idx >= 0 ? cells[idx] : undefined
+    }
+    const r = toSaleRow(get, fallbackDay, `Row ${i + 2}`, errors)
+    if (r) rows.push(r)
+  })
+  return { rows, errors }
+}
+
+/* ---------------- Matching ---------------- */
+
+export function posKey(kind: 'code' | 'name', value: string) {
+  return `${kind}:${value.trim().toLowerCase()}`
+}
+
+export function createMatcher(recipes: MatchRecipe[], mappings: PosMapping[]) {
+  const byCode = new Map<string, string>()
+  for (const r of recipes) if (!r.is_subrecipe && r.code) byCode.set(r.code.trim().toLowerCase(), r.id)
+  const rules = new Map(mappings.map((m) => [m.pos_key, m]))
+
+  return (row: { code: string | null; name: string | null }): SaleMatch => {
+    if (row.code) {
+      const hit = byCode.get(row.code.trim().toLowerCase())
+      if (hit) return { recipeId: hit, ignored: false, via: 'code' }
+    }
+    const rule = (row.code && rules.get(posKey('code', row.code))) || (row.name && rules.get(posKey('name', row.name))) || null
+    if (rule) return { recipeId: rule.is_ignored ? null : rule.recipe_id, ignored: rule.is_ignored, via: 'rule' }
+    return { recipeId: null, ignored: false, via: null }
+  }
+}
+
+/* ---------------- Imports ---------------- */
+
+export async function importSales(
+  rows: PosSaleRow[],
+  opts: { sourceName?: string | null; match: (row: PosSaleRow) => SaleMatch; period?: { start: string; end: string } }
+): Promise<string> {
+  if (!rows.length) throw new Error('Nothing to import')
+  const days = rows.map((r) => r.day).sort()
+  const { data, error } = await supabase
+    .from('sales_imports')
+    .insert({
+      source_name: opts.sourceName || null,
+      period_start: opts.period?.start ?? days[0],
+      period_end: opts.period?.end ?? days[days.length - 1],
+      line_count: rows.length,
+      total_qty: rows.reduce((s, r) => s + r.qty, 0),
+      total_revenue: rows.reduce((s, r) => s + r.revenue, 0),
+    })
+    .select('id')
+    .single()
+  if (error) throw error
+  const id = String((data as any).id)
+
+  const payload = rows.map((r) => ({
+    import_id: id,
+    sold_on: r.day,
+    pos_code: r.code,
+    pos_name: r.name,
+    qty: r.qty,
+    unit_price: r.unitPrice,
+    revenue: r.revenue,
+    recipe_id: opts.match(r).recipeId,
+  }))
+  for (let i = 0; i < payload.length; i += 500) {
+    const { error: le } = await supabase.from('sales_lines').insert(payload.slice(i, i + 500))
+    if (le) {
+      await supabase.from('sales_imports').delete().eq('id', id)
+      throw le
+    }
+  }
+  return id
+}
+
+/**
+ * Portions sold per recipe typed in by hand for a period (no POS export). Stored as an
+ * import named "Manual entry" with every line on the last day, so the sales mix of any
+ * window that contains the period end picks it up.
+ */
+export async function recordManualSales(
+  entries: Array<{ recipeId: string; code?: string | null; name: string; qty: number; unitPrice: number }>,
+  period: { start: string; end: string }
+) {
+  const valid = entries.filter((e) => e.qty > 0)
+  if (!valid.length) throw new Error('Enter at least one quantity')
+  if (period.start > period.end) throw new Error('The period ends before it starts')
+  const rows: PosSaleRow[] = valid.map((e) => ({
+    code: e.code || null,
+    name: e.name,
+    day: period.end,
+    qty: e.qty,
+    unitPrice: e.unitPrice,
+    revenue: e.qty * e.unitPrice,
+  }))
+  const byRow = new Map(rows.map((r, i) => [r, valid[i].recipeId]))
+  return importSales(rows, {
+    sourceName: 'Manual entry',
+    period,
+    match: (r) => ({ recipeId: byRow.get(r) ?? null, ignored: false, via: null }),
+  })
+}
+
+export async function listImports(): Promise<SalesImport[]> {
+  const { data, error } = await supabase.from('sales_imports').select(IMPORT_FIELDS).order('created_at', { ascending: false })
+  if (error) throw error
+  return (data ?? []).map(toImport)
+}
+
+export async function deleteImport(id: string) {
+  const { error } = await supabase.from('sales_imports').delete().eq('id', id)
+  if (error) throw error
+}
+
+/* ---------------- Mapping rules ---------------- */
+
+export async function listMappings(): Promise<PosMapping[]> {
+  const { data, error } = await supabase.from('pos_item_mappings').select(MAPPING_FIELDS).order('pos_key', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toMapping)
+}
+
+function likeExact(v: string) {
+  return v.replace(/[\\%_]/g, (c) => `\\${c}`)
+}
+
+/** Saves the rule and maps the already imported, still unmatched lines it covers. */
+export async function saveMapping(rule: { posKey: string; posLabel?: string | null; recipeId: string | null; ignored?: boolean }) {
+  const ignored = !!rule.ignored
+  if (!ignored && !rule.recipeId) throw new Error('Pick a recipe or ignore the item')
+  const { error } = await supabase
+    .from('pos_item_mappings')
+    .upsert({ pos_key: rule.posKey, pos_label: rule.posLabel ?? null, recipe_id: ignored ? null : rule.recipeId, is_ignored: ignored }, { onConflict: 'kitchen_id,pos_key' })
+  if (error) throw error
+  if (ignored) return
+
+  const [kind, ...rest] = rule.posKey.split(':')
+  const value = rest.join(':')
+  const { error: ue } = await supabase
+    .from('sales_lines')
+    .update({ recipe_id: rule.recipeId })
+    .is('recipe_id', null)
+    .ilike(kind === 'code' ? 'pos_code' : 'pos_name', likeExact(value))
+  if (ue) throw ue
+}
+
+export async function deleteMapping(id: string) {
+  const { error } = await supabase.from('pos_item_mappings').delete().eq('id', id)
+  if (error) throw error
+}
+
+/** Imported lines without a recipe and without an ignore rule, grouped by POS item. */
+export async function listUnmatched(mappings: PosMapping[]): Promise<UnmatchedItem[]> {
+  const ignored = new Set(mappings.filter((m) => m.is_ignored).map((m) => m.pos_key))
+  const m = new Map<string, UnmatchedItem>()
+  const pageSize = 1000
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('sales_lines')
+      .select('pos_code,pos_name,qty,revenue')
+      .is('recipe_id', null)
+      .range(offset, offset + pageSize - 1)
+    if (error) throw error
+    for (const r of (data ?? []) as any[]) {
+      const code = clean(r.pos_code)
+      const name = clean(r.pos_name)
+      if ((code && ignored.has(posKey('code', code))) || (name && ignored.has(posKey('name', name)))) continue
+      const key = code ? posKey('code', code) : posKey('name', name || '')
+      const row = m.get(key) ?? { key, code, name, qty: 0, revenue: 0, lines: 0 }
+      row.qty += toNum(r.qty, 0)
+      row.revenue += toNum(r.revenue, 0)
+      row.lines += 1
+      if (!row.name && name) row.name = name
+      m.set(key, row)
+    }
+    if ((data ?? []).length < pageSize) break
+  }
+  return [...m.values()].sort((a, b) => b.revenue - a.revenue)
+}
+
+/* ---------------- Sales mix & usage variance ---------------- */
+
+/** Portions sold per recipe for sold_on in (afterDay, throughDay]. */
+export async function loadSalesMix(afterDay: string, throughDay: string): Promise<SalesMix> {
+  const qty = new Map<string, number>()
+  const revenueByRecipe = new Map<string, number>()
+  let revenue = 0
+  let unmatchedQty = 0
+  const days = new Set<string>()
+  const pageSize = 1000
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('sales_lines')
+      .select('recipe_id,qty,revenue,sold_on')
+      .gt('sold_on', afterDay)
+      .lte('sold_on', throughDay)
+      .range(offset, offset + pageSize - 1)
+    if (error) throw error
+    for (const r of (data ?? []) as any[]) {
+      const q = toNum(r.qty, 0)
+      const rev = toNum(r.revenue, 0)
+      revenue += rev
+      days.add(String(r.sold_on))
+      if (r.recipe_id) {
+        const id = String(r.recipe_id)
+        qty.set(id, (qty.get(id) ?? 0) + q)
+        revenueByRecipe.set(id, (revenueByRecipe.get(id) ?? 0) + rev)
+      } else unmatchedQty += q
+    }
+    if ((data ?? []).length < pageSize) break
+  }
+  return { qty, revenueByRecipe, revenue, unmatchedQty, days: days.size }
+}
+
+/**
+ * ingredient id → { used, waste } between two posted counts, in pack_unit. Movements of
+ * the opening count are before the period, those of the closing count inside it.
+ */
+export async function loadActualUsage(opening: StockCount, closing: StockCount) {
+  if (!opening.posted_at || !closing.posted_at) throw new Error('Both counts must be posted')
+  const [window, closingMoves] = await Promise.all([
+    listMovementsBetween(opening.posted_at, closing.posted_at),
+    listMovementsFor('count', closing.id),
+  ])
+  const seen = new Set<string>()
+  const out = new Map<string, { used: number; waste: number }>()
+  for (const m of [...window, ...closingMoves]) {
+    if (seen.has(m.id)) continue
+    seen.add(m.id)
+    if (!m.ingredient_id) continue
+    if (m.source_type === 'count' && m.source_id === opening.id) continue
+    if (m.kind !== 'consume' && m.kind !== 'waste' && m.kind !== 'adjust') continue
+    const row = out.get(m.ingredient_id) ?? { used: 0, waste: 0 }
+    row.used -= m.qty
+    if (m.kind === 'waste') row.waste -= m.qty
+    out.set(m.ingredient_id, row)
+  }
+  return out
+}
+
+export function usageVariance(args: {
+  sold: Map<string, number>
+  actual: Map<string, { used: number; waste: number }>
+  recipes: PurchasingRecipe[]
+  lines: CostingLine[]
+  ingredients: Array<PurchasingIngredient & { net_unit_cost?: number | null }>
+}): UsageVariance {
+  const req = explodePlan({
+    plan: [...args.sold].map(([recipeId, portions]) => ({ recipeId, portions })),
+    recipes: args.recipes,
+    lines: args.lines,
+    ingredients: args.ingredients,
+  })
+  const cost = new Map(args.ingredients.map((i) => [i.id, Math.max(0, toNum(i.net_unit_cost, 0))]))
+  const ids = new Set([...req.qty.keys(), ...args.actual.keys()])
+
+  let theoreticalValue = 0
+  let actualValue = 0
+  const rows: UsageVarianceRow[] = []
+  for (const id of ids) {
+    const theoretical = req.qty.get(id) ?? 0
+    const a = args.actual.get(id) ?? { used: 0, waste: 0 }
+    if (Math.abs(theoretical) < EPS && Math.abs(a.used) < EPS) continue
+    const c = cost.get(id) ?? 0
+    const varianceQty = a.used - theoretical
+    theoreticalValue += theoretical * c
+    actualValue += a.used * c
+    rows.push({ ingredientId: id, theoretical, actual: a.used, waste: a.waste, varianceQty, varianceValue: varianceQty * c })
+  }
+  rows.sort((x, y) => Math.abs(y.varianceValue) - Math.abs(x.varianceValue))
+  return { rows, issues: req.issues, theoreticalValue, actualValue }
+}
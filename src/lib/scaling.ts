@@ -0,0 +1,299 @@
+// src/lib/scaling.ts
+import { supabase } from './supabase'
+import { groupLinesByRecipe, lineQuantities, lineTypeOf, loadCostingLines, type CostingLine } from './recipeCosting'
+import { convertQty, normalizeUnit, unitFamily, type UnitProfile } from './units'
+
+/**
+ * Recipe scaling engine shared by the editor, cook mode and the print card.
+ *
+ * A target (portions, a yield in any compatible unit, or a fixed quantity of one
+ * ingredient) resolves to one factor on the recipe. The factor then flows into nested
+ * PREP recipes with the same rule as costing and purchasing: a subrecipe line is
+ * measured against the PREP's yield, or its portions for a `portion` line (a g/ml line on
+ * a PREP with no yield is reported and skipped).
+ *
+ * Display quantities are rounded to what a cook can weigh (0.1 g under 10 g, 5 g steps
+ * from 100 g, kg / l from 1000) and, for ingredients, broken down into supplier packs.
+ */
+
+export type ScaleMode = 'portions' | 'yield' | 'ingredient'
+
+export type ScaleTarget =
+  | { mode: 'portions'; portions: number }
+  | { mode: 'yield'; qty: number; unit: string }
+  | { mode: 'ingredient'; ingredientId: string; qty: number; unit: string }
+
+export const SCALE_MODE_LABELS: Record<ScaleMode, string> = {
+  portions: 'Portions',
+  yield: 'Yield',
+  ingredient: 'Ingredient on hand',
+}
+
+export type ScaleRecipe = {
+  id: string
+  code?: string | null
+  name?: string | null
+  portions?: number | null
+  yield_qty?: number | null
+  yield_unit?: string | null
+}
+
+export type ScaleIngredient = UnitProfile & {
+  id: string
+  code?: string | null
+  name?: string | null
+  pack_size?: number | null
+  pack_unit?: string | null
+}
+
+export type ScaleLine = CostingLine & { group_title?: string | null }
+
+export type ScaleContext = {
+  recipes: ScaleRecipe[]
+  ingredients: ScaleIngredient[]
+  lines: ScaleLine[] | Map<string, ScaleLine[]>
+}
+
+export type KitchenQty = { qty: number; unit: string }
+
+export type PackInfo = {
+  /** quantity in packs, unrounded */
+  packs: number
+  fullPacks: number
+  /** what is left after the full packs, in packUnit */
+  remainder: number
+  packSize: number
+  packUnit: string
+  /** within 5% of a whole number of packs — worth rounding to them */
+  nearWhole: boolean
+}
+
+export type ScaledLine = {
+  key: string
+  line: ScaleLine
+  type: 'ingredient' | 'subrecipe' | 'group'
+  /** scaled net quantity in the line's unit */
+  net: number
+  /** scaled gross quantity (after line yield) in the line's unit */
+  gross: number
+  unit: string
+  rounded: KitchenQty
+  packs: PackInfo | null
+  sub: ScaledRecipe | null
+}
+
+export type ScaledRecipe = {
+  recipeId: string
+  factor: number
+  lines: ScaledLine[]
+  issues: string[]
+}
+
+export type ScaleFactorResult = { ok: true; factor: number } | { ok: false; factor: null; message: string }
+
+export type AmountResult = { ok: true; value: number } | { ok: false; value: null; message: string }
+
+const SCALE_RECIPE_FIELDS = 'id,code,name,portions,yield_qty,yield_unit'
+const SCALE_INGREDIENT_FIELDS = 'id,code,name,pack_size,pack_unit,density_g_per_ml,grams_per_piece'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+/* ---------------- Rounding ---------------- */
+
+function metricRound(base: number, small: string, big: string): KitchenQty {
+  if (base < 1) return { qty: Math.round(base * 100) / 100, unit: small }
+  if (base < 10) return { qty: Math.round(base * 10) / 10, unit: small }
+  if (base < 100) return { qty: Math.round(base), unit: small }
+  if (base < 1000) return { qty: Math.round(base / 5) * 5, unit: small }
+  if (base < 10000) return { qty: Math.round(base / 10) / 100, unit: big }
+  return { qty: Math.round(base / 100) / 10, unit: big }
+}
+
+/** A quantity as a cook would weigh or measure it. */
+export function roundKitchen(qty: number, unit: string | null | undefined): KitchenQty {
+  const u = normalizeUnit(unit)
+  if (!(qty > 0)) return { qty: 0, unit: u }
+  const family = unitFamily(u)
+  if (family === 'mass' && (u === 'g' || u === 'kg' || u === 'mg')) {
+    const g = convertQty(qty, u, 'g')
+    return g.ok ? metricRound(g.value, 'g', 'kg') : { qty, unit: u }
+  }
+  if (family === 'volume' && (u === 'ml' || u === 'cl' || u === 'dl' || u === 'l')) {
+    const ml = convertQty(qty, u, 'ml')
+    return ml.ok ? metricRound(ml.value, 'ml', 'l') : { qty, unit: u }
+  }
+  if (u === 'pcs' || u === 'portion') return { qty: qty < 10 ? Math.max(0.5, Math.round(qty * 2) / 2) : Math.round(qty), unit: u }
+  if (u === 'tsp' || u === 'tbsp' || u === 'cup' || u === 'oz' || u === 'floz') return { qty: Math.max(0.25, Math.round(qty * 4) / 4), unit: u }
+  return { qty: Math.round(qty * 100) / 100, unit: u }
+}
+
+/** `qty unit` of an ingredient expressed in its supplier packs, when it has a pack size. */
+export function packInfo(qty: number, unit: string | null | undefined, ing: ScaleIngredient | undefined): PackInfo | null {
+  const packSize = toNum(ing?.pack_size, 0)
+  if (!ing || !(packSize > 0) || !ing.pack_unit || !(qty > 0)) return null
+  const conv = convertQty(qty, unit, ing.pack_unit, ing)
+  if (!conv.ok) return null
+  const packs = conv.value / packSize
+  const fullPacks = Math.floor(packs + 1e-9)
+  const nearest = Math.round(packs)
+  return {
+    packs,
+    fullPacks,
+    remainder: Math.max(0, conv.value - fullPacks * packSize),
+    packSize,
+    packUnit: normalizeUnit(ing.pack_unit),
+    nearWhole: nearest >= 1 && Math.abs(packs - nearest) / nearest <= 0.05,
+  }
+}
+
+/* ---------------- Targets ---------------- */
+
+/** Compact URL form of a target: `p:20`, `y:10:l`, `i:<ingredientId>:3.2:kg`. */
+export function encodeScaleTarget(t: ScaleTarget) {
+  if (t.mode === 'portions') return `p:${t.portions}`
+  if (t.mode === 'yield') return `y:${t.qty}:${normalizeUnit(t.unit)}`
+  return `i:${t.ingredientId}:${t.qty}:${normalizeUnit(t.unit)}`
+}
+
+export function decodeScaleTarget(s: string | null | undefined): ScaleTarget | null {
+  const parts = (s || '').split(':')
+  const num = (x: string | undefined) => toNum(x, 0)
+  if (parts[0] === 'p' && num(parts[1]) > 0) return { mode: 'portions', portions: num(parts[1]) }
+  if (parts[0] === 'y' && num(parts[1]) > 0 && parts[2]) return { mode: 'yield', qty: num(parts[1]), unit: parts[2] }
+  if (parts[0] === 'i' && parts[1] && num(parts[2]) > 0 && parts[3]) return { mode: 'ingredient', ingredientId: parts[1], qty: num(parts[2]), unit: parts[3] }
+  return null
+}
+
+export function describeScaleTarget(t: ScaleTarget, ingredientName?: string | null) {
+  if (t.mode === 'portions') return `${t.portions} portions`
+  if (t.mode === 'yield') return `${t.qty} ${normalizeUnit(t.unit)}`
+  return `${t.qty} ${normalizeUnit(t.unit)} of ${ingredientName || 'ingredient'}`
+}
+
+/* ---------------- Engine ---------------- */
+
+export async function loadScaleContext(): Promise<ScaleContext & { lines: ScaleLine[] }> {
+  const [rec, ing, lines] = await Promise.all([
+    supabase.from('recipes').select(SCALE_RECIPE_FIELDS),
+    supabase.from('ingredients').select(SCALE_INGREDIENT_FIELDS),
+    loadCostingLines(),
+  ])
+  if (rec.error) throw rec.error
+  if (ing.error) throw ing.error
+  return { recipes: (rec.data ?? []) as ScaleRecipe[], ingredients: (ing.data ?? []) as ScaleIngredient[], lines }
+}
+
+/** The recipe and every nested PREP scaled by `factor`. */
+export function scaleRecipe(recipeId: string, factor: number, ctx: ScaleContext): ScaledRecipe {
+  const recipeById = new Map(ctx.recipes.map((r) => [r.id, r]))
+  const ingById = new Map(ctx.ingredients.map((i) => [i.id, i]))
+  const linesByRecipe = ctx.lines instanceof Map ? ctx.lines : groupLinesByRecipe(ctx.lines)
+  const stack = new Set<string>()
+
+  function walk(rid: string, f: number): ScaledRecipe {
+    const issues: string[] = []
+    const out: ScaledLine[] = []
+    stack.add(rid)
+    try {
+      ;(linesByRecipe.get(rid) ?? []).forEach((l, idx) => {
+        const type = lineTypeOf(l)
+        const key = l.id || `${rid}#${idx}`
+        const unit = normalizeUnit(l.unit)
+        if (type === 'group') {
+          out.push({ key, line: l, type, net: 0, gross: 0, unit, rounded: { qty: 0, unit }, packs: null, sub: null })
+          return
+        }
+        const q = lineQuantities(l)
+        const net = q.net * f
+        const gross = q.gross * f
+        const row: ScaledLine = { key, line: l, type, net, gross, unit, rounded: roundKitchen(net, unit), packs: null, sub: null }
+
+        if (type === 'ingredient') {
+          row.packs = packInfo(gross, unit, l.ingredient_id ? ingById.get(l.ingredient_id) : undefined)
+          out.push(row)
+          return
+        }
+
+        const sub = l.sub_recipe_id ? recipeById.get(l.sub_recipe_id) : undefined
+        if (!sub) {
+          issues.push('Missing subrecipe')
+        } else if (stack.has(sub.id)) {
+          issues.push(`${sub.name || 'Subrecipe'}: circular reference`)
+        } else {
+          const yq = toNum(sub.yield_qty, 0)
+          if (unit === 'portion') {
+            row.sub = walk(sub.id, gross / Math.max(1, toNum(sub.portions, 1)))
+          } else if (!(yq > 0) || !sub.yield_unit) {
+            issues.push(`${sub.name || 'Subrecipe'}: no yield set, can't use ${unit || 'this unit'}`)
+          } else {
+            const conv = convertQty(gross, unit, sub.yield_unit)
+            if (conv.ok) row.sub = walk(sub.id, conv.value / yq)
+            else issues.push(`${sub.name || 'Subrecipe'}: can't convert ${conv.from} → ${conv.to}`)
+          }
+        }
+        out.push(row)
+      })
+    } finally {
+      stack.delete(rid)
+    }
+    return { recipeId: rid, factor: f, lines: out, issues }
+  }
+
+  return walk(recipeId, Math.max(0, factor))
+}
+
+/** Depth-first rows of a scaled tree, for flat tables. */
+export function flattenScaled(tree: ScaledRecipe, depth = 0): Array<ScaledLine & { depth: number }> {
+  const rows: Array<ScaledLine & { depth: number }> = []
+  for (const l of tree.lines) {
+    rows.push({ ...l, depth })
+    if (l.sub) rows.push(...flattenScaled(l.sub, depth + 1))
+  }
+  return rows
+}
+
+/**
+ * Gross quantity of one ingredient in the recipe (through PREPs) at factor 1, in `unit`: what is
+ * pulled from stock before trim, so "I have 3.2 kg" caps what the scaled recipe takes from the shelf.
+ */
+export function ingredientAmount(recipeId: string, ingredientId: string, unit: string, ctx: ScaleContext): AmountResult {
+  const ing = ctx.ingredients.find((i) => i.id === ingredientId)
+  let total = 0
+  for (const row of flattenScaled(scaleRecipe(recipeId, 1, ctx))) {
+    if (row.type !== 'ingredient' || row.line.ingredient_id !== ingredientId) continue
+    const conv = convertQty(row.gross, row.unit, unit, ing)
+    if (!conv.ok) return { ok: false, value: null, message: `${ing?.name || 'Ingredient'}: can't convert ${conv.from} → ${conv.to}` }
+    total += conv.value
+  }
+  return total > 0 ? { ok: true, value: total } : { ok: false, value: null, message: `${ing?.name || 'That ingredient'} isn't in this recipe.` }
+}
+
+/** Recipe multiple that hits the target. */
+export function scaleFactor(recipeId: string, target: ScaleTarget, ctx: ScaleContext): ScaleFactorResult {
+  const recipe = ctx.recipes.find((r) => r.id === recipeId)
+  if (!recipe) return { ok: false, factor: null, message: 'Recipe not found.' }
+  const basePortions = Math.max(1, toNum(recipe.portions, 1))
+
+  if (target.mode === 'portions') {
+    if (!(target.portions > 0)) return { ok: false, factor: null, message: 'Enter the portions you need.' }
+    return { ok: true, factor: target.portions / basePortions }
+  }
+
+  if (!(target.qty > 0)) return { ok: false, factor: null, message: 'Enter a quantity.' }
+
+  if (target.mode === 'yield') {
+    if (normalizeUnit(target.unit) === 'portion') return { ok: true, factor: target.qty / basePortions }
+    const yq = toNum(recipe.yield_qty, 0)
+    if (!(yq > 0) || !recipe.yield_unit) return { ok: false, factor: null, message: 'Set a yield on the recipe to scale by yield.' }
+    const conv = convertQty(target.qty, target.unit, recipe.yield_unit)
+    if (!conv.ok) return { ok: false, factor: null, message: `Can't convert ${conv.from} → ${conv.to}; the recipe yields in ${recipe.yield_unit}.` }
+    return { ok: true, factor: conv.value / yq }
+  }
+
+  const base = ingredientAmount(recipeId, target.ingredientId, target.unit, ctx)
+  if (!base.ok) return { ok: false, factor: null, message: base.message }
+  return { ok: true, factor: target.qty / base.value }
+}
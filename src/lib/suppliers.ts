@@ -0,0 +1,199 @@
+// src/lib/suppliers.ts
+import { supabase } from './supabase'
+import { tryRecordIngredientCostChanges } from './costHistory'
+import { invalidateIngredientsCache } from './ingredientsCache'
+import { convertQty, unitFamily, type UnitProfile } from './units'
+
+/**
+ * Suppliers and what they sell (tables suppliers / supplier_offers).
+ * An ingredient can have several offers, each with its own pack; the preferred one is copied onto
+ * the ingredient by a DB trigger, so net_unit_cost keeps deriving from pack_price / pack_size / yield.
+ */
+
+export type Supplier = {
+  id: string
+  code: string | null
+  name: string
+  contact_name: string | null
+  email: string | null
+  phone: string | null
+  notes: string | null
+  lead_time_days: number | null
+  min_order_value: number | null
+  is_active: boolean
+}
+
+export type SupplierOffer = {
+  id: string
+  supplier_id: string
+  ingredient_id: string
+  supplier_sku: string | null
+  pack_size: number
+  pack_unit: string
+  pack_price: number
+  is_preferred: boolean
+}
+
+export type SupplierDraft = Omit<Supplier, 'id' | 'code'> & { id?: string }
+export type OfferDraft = Omit<SupplierOffer, 'id' | 'is_preferred'> & { id?: string; is_preferred?: boolean }
+
+const SUPPLIER_FIELDS = 'id,code,name,contact_name,email,phone,notes,lead_time_days,min_order_value,is_active'
+const OFFER_FIELDS = 'id,supplier_id,ingredient_id,supplier_sku,pack_size,pack_unit,pack_price,is_preferred'
+
+const numOrNull = (v: any) => (v == null || v === '' || !Number.isFinite(Number(v)) ? null : Number(v))
+
+function toSupplier(r: any): Supplier {
+  return {
+    id: String(r.id),
+    code: r.code ?? null,
+    name: String(r.name || ''),
+    contact_name: r.contact_name ?? null,
+    email: r.email ?? null,
+    phone: r.phone ?? null,
+    notes: r.notes ?? null,
+    lead_time_days: numOrNull(r.lead_time_days),
+    min_order_value: numOrNull(r.min_order_value),
+    is_active: r.is_active !== false,
+  }
+}
+
+function toOffer(r: any): SupplierOffer {
+  return {
+    id: String(r.id),
+    supplier_id: String(r.supplier_id),
+    ingredient_id: String(r.ingredient_id),
+    supplier_sku: r.supplier_sku ?? null,
+    pack_size: Number(r.pack_size) || 0,
+    pack_unit: String(r.pack_unit || ''),
+    pack_price: Number(r.pack_price) || 0,
+    is_preferred: !!r.is_preferred,
+  }
+}
+
+export async function listSuppliers(): Promise<Supplier[]> {
+  const { data, error } = await supabase.from('suppliers').select(SUPPLIER_FIELDS).order('name', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toSupplier)
+}
+
+export async function saveSupplier(draft: SupplierDraft): Promise<Supplier> {
+  const name = String(draft.name || '').trim()
+  if (!name) throw new Error('Supplier name is required')
+  const payload = {
+    name,
+    contact_name: draft.contact_name?.trim() || null,
+    email: draft.email?.trim() || null,
+    phone: draft.phone?.trim() || null,
+    notes: draft.notes?.trim() || null,
+    lead_time_days: draft.lead_time_days == null ? null : Math.max(0, Math.round(Number(draft.lead_time_days) || 0)),
+    min_order_value: draft.min_order_value == null ? null : Math.max(0, Number(draft.min_order_value) || 0),
+    is_active: draft.is_active !== false,
+  }
+  const q = draft.id
+    ? supabase.from('suppliers').update(payload).eq('id', draft.id)
+    : supabase.from('suppliers').insert(payload)
+  const { data, error } = await q.select(SUPPLIER_FIELDS).single()
+  if (error) throw error
+  // A rename is pushed to ingredients.supplier by the DB.
+  if (draft.id) invalidateIngredientsCache()
+  return toSupplier(data)
+}
+
+export async function deleteSupplier(id: string) {
+  const { error } = await supabase.from('suppliers').delete().eq('id', id)
+  if (error) throw error
+}
+
+/** All offers, or the offers of one ingredient. */
+export async function listOffers(ingredientId?: string | null): Promise<SupplierOffer[]> {
+  const pageSize = 1000
+  const out: SupplierOffer[] = []
+  for (let offset = 0; ; offset += pageSize) {
+    let q = supabase.from('supplier_offers').select(OFFER_FIELDS).order('created_at', { ascending: true })
+    if (ingredientId) q = q.eq('ingredient_id', ingredientId)
+    const { data, error } = await q.range(offset, offset + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []).map(toOffer)
+    out.push(...rows)
+    if (rows.length < pageSize) break
+  }
+  return out
+}
+
+async function readNet(ingredientId: string): Promise<number | null> {
+  const { data, error } = await supabase.from('ingredients').select('net_unit_cost').eq('id', ingredientId).single()
+  if (error) throw error
+  return numOrNull((data as any)?.net_unit_cost)
+}
+
+/**
+ * Runs a write that may change the preferred offer (and so the ingredient's net_unit_cost),
+ * then records cost history if the net moved. A history failure is thrown after the write
+ * has landed, with a message that says so.
+ */
+async function withCostTracking<T>(ingredientId: string, write: () => Promise<T>): Promise<T> {
+  const before = await readNet(ingredientId)
+  const result = await write()
+  invalidateIngredientsCache()
+  const after = await readNet(ingredientId)
+  const h = await tryRecordIngredientCostChanges([{ id: ingredientId, before, after }])
+  if (h.error) throw new Error(`Saved, but cost history was not recorded: ${h.error}`)
+  return result
+}
+
+export async function saveOffer(draft: OfferDraft): Promise<SupplierOffer> {
+  const packSize = Number(draft.pack_size)
+  const packPrice = Number(draft.pack_price)
+  if (!draft.supplier_id) throw new Error('Pick a supplier')
+  if (!(packSize > 0)) throw new Error('Pack size must be greater than 0')
+  if (!(packPrice >= 0)) throw new Error('Pack price must be 0 or more')
+  if (!String(draft.pack_unit || '').trim()) throw new Error('Pack unit is required')
+
+  const payload: Record<string, any> = {
+    supplier_id: draft.supplier_id,
+    ingredient_id: draft.ingredient_id,
+    supplier_sku: draft.supplier_sku?.trim() || null,
+    pack_size: packSize,
+    pack_unit: String(draft.pack_unit).trim(),
+    pack_price: packPrice,
+  }
+  if (draft.is_preferred != null) payload.is_preferred = draft.is_preferred
+
+  return withCostTracking(draft.ingredient_id, async () => {
+    const q = draft.id
+      ? supabase.from('supplier_offers').update(payload).eq('id', draft.id)
+      : supabase.from('supplier_offers').insert(payload)
+    const { data, error } = await q.select(OFFER_FIELDS).single()
+    if (error) throw error
+    return toOffer(data)
+  })
+}
+
+/** Deleting the preferred offer leaves the ingredient's pack as it was. */
+export async function deleteOffer(offer: Pick<SupplierOffer, 'id'>) {
+  const { error } = await supabase.from('supplier_offers').delete().eq('id', offer.id)
+  if (error) throw error
+}
+
+export async function setPreferredOffer(offer: Pick<SupplierOffer, 'id' | 'ingredient_id'>) {
+  await withCostTracking(offer.ingredient_id, async () => {
+    const { error } = await supabase.from('supplier_offers').update({ is_preferred: true }).eq('id', offer.id)
+    if (error) throw error
+  })
+}
+
+/** kg / l / pcs — the unit offers are compared in, picked from the ingredient's own pack unit. */
+export function comparisonUnit(packUnit: string | null | undefined): string {
+  const f = unitFamily(packUnit)
+  if (f === 'volume') return 'l'
+  if (f === 'count') return 'pcs'
+  if (f === 'portion') return 'portion'
+  return 'kg'
+}
+
+/** Offer price per one `unit` (null when the pack can't be converted, e.g. missing density). */
+export function normalizedOfferPrice(offer: Pick<SupplierOffer, 'pack_size' | 'pack_unit' | 'pack_price'>, unit: string, profile?: UnitProfile | null): number | null {
+  const res = convertQty(Number(offer.pack_size) || 0, offer.pack_unit, unit, profile)
+  if (!res.ok || !(res.value > 0)) return null
+  return (Number(offer.pack_price) || 0) / res.value
+}
@@ -0,0 +1,131 @@
+// src/lib/units.ts
+
+/**
+ * The one place units are normalized and converted.
+ * Mass ↔ volume goes through an ingredient's density_g_per_ml, pieces through grams_per_piece.
+ * Anything that can't be converted comes back with ok=false and a reason — callers must not
+ * fall back to treating the quantities as if the units matched.
+ */
+
+export type UnitFamily = 'mass' | 'volume' | 'count' | 'portion' | 'unknown'
+
+export type UnitProfile = {
+  density_g_per_ml?: number | null
+  grams_per_piece?: number | null
+}
+
+export type ConvertFailReason = 'UNKNOWN_UNIT' | 'INCOMPATIBLE' | 'MISSING_DENSITY' | 'MISSING_GRAMS_PER_PIECE'
+
+export type ConvertResult =
+  | { ok: true; value: number }
+  | { ok: false; value: null; reason: ConvertFailReason; from: string; to: string }
+
+/** Units offered in pickers (recipe lines, packs, yields). */
+export const UNIT_OPTIONS = ['g', 'kg', 'mg', 'oz', 'lb', 'ml', 'l', 'tsp', 'tbsp', 'cup', 'floz', 'pcs', 'portion'] as const
+
+const ALIASES: Record<string, string> = {
+  gram: 'g', grams: 'g', gr: 'g', grm: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', kgs: 'kg',
+  milligram: 'mg', milligrams: 'mg',
+  ounce: 'oz', ounces: 'oz',
+  lbs: 'lb', pound: 'lb', pounds: 'lb',
+  milliliter: 'ml', millilitre: 'ml', milliliters: 'ml', millilitres: 'ml',
+  lt: 'l', ltr: 'l', liter: 'l', litre: 'l', liters: 'l', litres: 'l',
+  cl: 'cl', dl: 'dl',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp',
+  cups: 'cup',
+  'fl oz': 'floz', 'fl.oz': 'floz', 'fluid ounce': 'floz', 'fluid ounces': 'floz', fluidounce: 'floz',
+  pc: 'pcs', piece: 'pcs', pieces: 'pcs', ea: 'pcs', each: 'pcs', unit: 'pcs', units: 'pcs',
+  portions: 'portion', serving: 'portion', servings: 'portion',
+}
+
+// Factor to the family's base unit: grams, millilitres, pieces.
+const MASS: Record<string, number> = { g: 1, kg: 1000, mg: 0.001, oz: 28.349523125, lb: 453.59237 }
+const VOLUME: Record<string, number> = {
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  tsp: 4.92892159375,
+  tbsp: 14.78676478125,
+  cup: 236.5882365,
+  floz: 29.5735295625,
+}
+
+export function normalizeUnit(u: string | null | undefined): string {
+  const raw = (u ?? '').trim().toLowerCase()
+  return ALIASES[raw] ?? raw
+}
+
+export function unitFamily(u: string | null | undefined): UnitFamily {
+  const x = normalizeUnit(u)
+  if (x in MASS) return 'mass'
+  if (x in VOLUME) return 'volume'
+  if (x === 'pcs') return 'count'
+  if (x === 'portion') return 'portion'
+  return 'unknown'
+}
+
+function baseFactor(unit: string, family: UnitFamily) {
+  if (family === 'mass') return MASS[unit]
+  if (family === 'volume') return VOLUME[unit]
+  return 1
+}
+
+function positive(n: any) {
+  const v = Number(n)
+  return Number.isFinite(v) && v > 0 ? v : null
+}
+
+/** Grams represented by one base unit of `family` (1 g, 1 ml, 1 pc). */
+function gramsPerBase(family: UnitFamily, profile?: UnitProfile | null): number | ConvertFailReason {
+  if (family === 'mass') return 1
+  if (family === 'volume') return positive(profile?.density_g_per_ml) ?? 'MISSING_DENSITY'
+  if (family === 'count') return positive(profile?.grams_per_piece) ?? 'MISSING_GRAMS_PER_PIECE'
+  return 'INCOMPATIBLE'
+}
+
+export function convertQty(qty: number, fromUnit: string | null | undefined, toUnit: string | null | undefined, profile?: UnitProfile | null): ConvertResult {
+  const from = normalizeUnit(fromUnit)
+  const to = normalizeUnit(toUnit)
+  const fail = (reason: ConvertFailReason): ConvertResult => ({ ok: false, value: null, reason, from, to })
+
+  if (from === to && from) return { ok: true, value: qty }
+
+  const ff = unitFamily(from)
+  const tf = unitFamily(to)
+  if (ff === 'unknown' || tf === 'unknown') return fail('UNKNOWN_UNIT')
+
+  const inBase = qty * baseFactor(from, ff)
+  if (ff === tf) return { ok: true, value: inBase / baseFactor(to, tf) }
+  if (ff === 'portion' || tf === 'portion') return fail('INCOMPATIBLE')
+
+  // Cross-family: go through grams.
+  const gIn = gramsPerBase(ff, profile)
+  if (typeof gIn === 'string') return fail(gIn)
+  const gOut = gramsPerBase(tf, profile)
+  if (typeof gOut === 'string') return fail(gOut)
+
+  return { ok: true, value: (inBase * gIn) / gOut / baseFactor(to, tf) }
+}
+
+export function toGrams(qty: number, unit: string | null | undefined, profile?: UnitProfile | null): ConvertResult {
+  return convertQty(qty, unit, 'g', profile)
+}
+
+/** Human-readable reason for a failed conversion, e.g. for cost warnings. */
+export function conversionWarning(res: ConvertResult): string | null {
+  if (res.ok) return null
+  const pair = `${res.from || '?'} → ${res.to || '?'}`
+  switch (res.reason) {
+    case 'MISSING_DENSITY':
+      return `Missing density (g/ml) for ${pair}`
+    case 'MISSING_GRAMS_PER_PIECE':
+      return `Missing grams per piece for ${pair}`
+    case 'UNKNOWN_UNIT':
+      return `Unknown unit (${pair})`
+    default:
+      return `Unit mismatch (${pair})`
+  }
+}
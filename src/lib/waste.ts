@@ -0,0 +1,280 @@
+// src/lib/waste.ts
+import { supabase } from './supabase'
+import { convertQty, normalizeUnit } from './units'
+import { type CostingEngine, type CostingIngredient, type CostingRecipe } from './recipeCosting'
+import { ensureDefaultLocation, postMovements } from './inventory'
+import { batchUnit } from './production'
+
+/**
+ * Waste log (table waste_entries).
+ *
+ * An entry is valued when it is logged, with the same costing engine recipes use:
+ * ingredients at net_unit_cost, PREPs at cost per yield unit (or per portion), dishes
+ * per portion. The value is stored, so later price changes don't rewrite past waste.
+ * Ingredient and PREP waste also leaves stock as a 'waste' movement.
+ */
+
+export type WasteItemType = 'ingredient' | 'prep' | 'dish'
+export type WasteReason = 'spoilage' | 'over_production' | 'burnt' | 'returned' | 'other'
+
+export const WASTE_ITEM_LABELS: Record<WasteItemType, string> = {
+  ingredient: 'Ingredient',
+  prep: 'PREP',
+  dish: 'Dish',
+}
+
+export const WASTE_REASON_LABELS: Record<WasteReason, string> = {
+  spoilage: 'Spoilage',
+  over_production: 'Over-production',
+  burnt: 'Burnt',
+  returned: 'Returned',
+  other: 'Other',
+}
+
+export type WasteEntry = {
+  id: string
+  code: string | null
+  item_type: WasteItemType
+  ingredient_id: string | null
+  recipe_id: string | null
+  item_name: string
+  qty: number
+  unit: string
+  reason: WasteReason
+  station: string | null
+  staff_name: string | null
+  unit_cost: number
+  total_cost: number
+  location_id: string | null
+  notes: string | null
+  wasted_at: string
+}
+
+export type WasteInput = {
+  itemType: WasteItemType
+  /** ingredient id for 'ingredient', recipe id otherwise */
+  itemId: string
+  qty: number
+  unit: string
+  reason: WasteReason
+  station?: string | null
+  staffName?: string | null
+  locationId?: string | null
+  notes?: string | null
+  wastedAt?: string | null
+}
+
+export type WasteContext = {
+  engine: CostingEngine
+  ingredients: Array<CostingIngredient & { name?: string | null }>
+  recipes: Array<CostingRecipe & { name?: string | null }>
+}
+
+export type WasteValue = { unitCost: number; totalCost: number; name: string; issue: string | null }
+
+export type WasteBreakdownRow = { key: string; label: string; qty: number; unit: string | null; cost: number; count: number }
+
+const WASTE_FIELDS =
+  'id,code,item_type,ingredient_id,recipe_id,item_name,qty,unit,reason,station,staff_name,unit_cost,total_cost,location_id,notes,wasted_at'
+
+function toNum(x: any, fallback = 0) {
+  const n = Number(x)
+  return Number.isFinite(n) ? n : fallback
+}
+
+function toWaste(r: any): WasteEntry {
+  return {
+    id: String(r.id),
+    code: r.code ?? null,
+    item_type: (r.item_type || 'ingredient') as WasteItemType,
+    ingredient_id: r.ingredient_id ?? null,
+    recipe_id: r.recipe_id ?? null,
+    item_name: String(r.item_name || ''),
+    qty: toNum(r.qty, 0),
+    unit: String(r.unit || ''),
+    reason: (r.reason || 'other') as WasteReason,
+    station: r.station ?? null,
+    staff_name: r.staff_name ?? null,
+    unit_cost: toNum(r.unit_cost, 0),
+    total_cost: toNum(r.total_cost, 0),
+    location_id: r.location_id ?? null,
+    notes: r.notes ?? null,
+    wasted_at: String(r.wasted_at),
+  }
+}
+
+/** Current cost of `qty unit` of the item; `issue` is set when it can't be valued. */
+export function valueWaste(input: Pick<WasteInput, 'itemType' | 'itemId' | 'qty' | 'unit'>, ctx: WasteContext): WasteValue {
+  const qty = Math.max(0, toNum(input.qty, 0))
+  const unit = normalizeUnit(input.unit)
+
+  if (input.itemType === 'ingredient') {
+    const ing = ctx.ingredients.find((i) => i.id === input.itemId)
+    if (!ing) return { unitCost: 0, totalCost: 0, name: '', issue: 'Missing ingredient' }
+    const name = ing.name || 'Ingredient'
+    const conv = convertQty(1, unit, ing.pack_unit || unit, ing)
+    if (!conv.ok) return { unitCost: 0, totalCost: 0, name, issue: `${name}: can't convert ${conv.from} → ${conv.to}` }
+    const unitCost = conv.value * Math.max(0, toNum(ing.net_unit_cost, 0))
+    return { unitCost, totalCost: unitCost * qty, name, issue: null }
+  }
+
+  const recipe = ctx.recipes.find((r) => r.id === input.itemId)
+  if (!recipe) return { unitCost: 0, totalCost: 0, name: '', issue: 'Missing recipe' }
+  const name = recipe.name || 'Recipe'
+  const rc = ctx.engine.recipeCost(recipe.id)
+  if (unit === 'portion') return { unitCost: rc.cpp, totalCost: rc.cpp * qty, name, issue: null }
+  if (rc.costPerYieldUnit == null || !rc.yieldUnit) return { unitCost: 0, totalCost: 0, name, issue: `${name} has no yield; log it in portions` }
+  const conv = convertQty(1, unit, rc.yieldUnit)
+  if (!conv.ok) return { unitCost: 0, totalCost: 0, name, issue: `${name}: can't convert ${conv.from} → ${conv.to}` }
+  const unitCost = conv.value * rc.costPerYieldUnit
+  return { unitCost, totalCost: unitCost * qty, name, issue: null }
+}
+
+/** Stock movement for ingredient / PREP waste, in the unit stock is kept in; null for dishes. */
+function wasteMovementQty(input: WasteInput, ctx: WasteContext): { qty: number; unitCost: number } | null {
+  if (input.itemType === 'dish') return null
+  if (input.itemType === 'ingredient') {
+    const ing = ctx.ingredients.find((i) => i.id === input.itemId)
+    if (!ing) return null
+    const conv = convertQty(input.qty, input.unit, ing.pack_unit || input.unit, ing)
+    return conv.ok ? { qty: conv.value, unitCost: toNum(ing.net_unit_cost, 0) } : null
+  }
+  const recipe = ctx.recipes.find((r) => r.id === input.itemId)
+  if (!recipe) return null
+  const stockUnit = batchUnit(recipe)
+  const rc = ctx.engine.recipeCost(recipe.id)
+  if (stockUnit === 'portion') return normalizeUnit(input.unit) === 'portion' ? { qty: input.qty, unitCost: rc.cpp } : null
+  const conv = convertQty(input.qty, input.unit, stockUnit)
+  return conv.ok ? { qty: conv.value, unitCost: rc.costPerYieldUnit ?? 0 } : null
+}
+
+/* ---------------- Entries ---------------- */
+
+export async function logWaste(input: WasteInput, ctx: WasteContext): Promise<WasteEntry> {
+  const qty = toNum(input.qty, 0)
+  if (!(qty > 0)) throw new Error('Quantity must be greater than 0')
+  const value = valueWaste(input, ctx)
+  if (value.issue) throw new Error(value.issue)
+
+  const isIngredient = input.itemType === 'ingredient'
+  const { data, error } = await supabase
+    .from('waste_entries')
+    .insert({
+      item_type: input.itemType,
+      ingredient_id: isIngredient ? input.itemId : null,
+      recipe_id: isIngredient ? null : input.itemId,
+      item_name: value.name,
+      qty,
+      unit: normalizeUnit(input.unit) || input.unit,
+      reason: input.reason,
+      station: input.station?.trim() || null,
+      staff_name: input.staffName?.trim() || null,
+      unit_cost: value.unitCost,
+      total_cost: value.totalCost,
+      location_id: input.locationId || null,
+      notes: input.notes?.trim() || null,
+      ...(input.wastedAt ? { wasted_at: input.wastedAt } : {}),
+    })
+    .select(WASTE_FIELDS)
+    .single()
+  if (error) throw error
+  const entry = toWaste(data)
+
+  const mv = wasteMovementQty({ ...input, qty }, ctx)
+  if (mv) {
+    const locationId = input.locationId || (await ensureDefaultLocation()).id
+    await postMovements([
+      {
+        ingredientId: isIngredient ? input.itemId : null,
+        recipeId: isIngredient ? null : input.itemId,
+        locationId,
+        kind: 'waste',
+        qty: -mv.qty,
+        unitCost: mv.unitCost,
+        sourceType: 'waste',
+        sourceId: entry.id,
+        note: `${entry.code ?? 'Waste'} · ${WASTE_REASON_LABELS[entry.reason]}`,
+      },
+    ])
+  }
+  return entry
+}
+
+export async function listWaste(opts: { since?: string | null; until?: string | null; limit?: number } = {}): Promise<WasteEntry[]> {
+  const pageSize = 1000
+  const out: WasteEntry[] = []
+  for (let offset = 0; ; offset += pageSize) {
+    let q = supabase.from('waste_entries').select(WASTE_FIELDS).order('wasted_at', { ascending: false })
+    if (opts.since) q = q.gte('wasted_at', opts.since)
+    if (opts.until) q = q.lt('wasted_at', opts.until)
+    const { data, error } = await q.range(offset, offset + pageSize - 1)
+    if (error) throw error
+    const rows = (data ?? []).map(toWaste)
+    out.push(...rows)
+    if (rows.length < pageSize || (opts.limit && out.length >= opts.limit)) break
+  }
+  return opts.limit ? out.slice(0, opts.limit) : out
+}
+
+/** Deleting an entry also takes back its stock movement. */
+export async function deleteWaste(id: string) {
+  const { error: me } = await supabase.from('stock_movements').delete().eq('source_type', 'waste').eq('source_id', id)
+  if (me) throw me
+  const { error } = await supabase.from('waste_entries').delete().eq('id', id)
+  if (error) throw error
+}
+
+/* ---------------- Reporting ---------------- */
+
+/** Monday 00:00 (local) of the week containing `d`. */
+export function weekStart(d: Date) {
+  const x = new Date(d.getFullYear(), d.getMonth(), d.getDate())
+  x.setDate(x.getDate() - ((x.getDay() + 6) % 7))
+  return x
+}
+
+/** Waste cost per week, oldest first, for the last `weeks` weeks including the current one. */
+export function weeklyWasteCost(entries: WasteEntry[], weeks = 8, now = new Date()) {
+  const current = weekStart(now)
+  const out = Array.from({ length: weeks }, (_, i) => {
+    const start = new Date(current)
+    start.setDate(start.getDate() - (weeks - 1 - i) * 7)
+    return { start, cost: 0, count: 0 }
+  })
+  for (const e of entries) {
+    const ws = weekStart(new Date(e.wasted_at)).getTime()
+    const hit = out.find((w) => w.start.getTime() === ws)
+    if (!hit) continue
+    hit.cost += e.total_cost
+    hit.count += 1
+  }
+  return out
+}
+
+export function wasteByReason(entries: WasteEntry[]): WasteBreakdownRow[] {
+  const m = new Map<string, WasteBreakdownRow>()
+  for (const e of entries) {
+    const row = m.get(e.reason) ?? { key: e.reason, label: WASTE_REASON_LABELS[e.reason] ?? e.reason, qty: 0, unit: null, cost: 0, count: 0 }
+    row.cost += e.total_cost
+    row.count += 1
+    m.set(e.reason, row)
+  }
+  return [...m.values()].sort((a, b) => b.cost - a.cost)
+}
+
+/** Per item; qty is only summed while every entry of the item uses the same unit. */
+export function wasteByItem(entries: WasteEntry[]): WasteBreakdownRow[] {
+  const m = new Map<string, WasteBreakdownRow & { mixed: boolean }>()
+  for (const e of entries) {
+    const key = `${e.item_type}:${e.ingredient_id ?? e.recipe_id ?? e.item_name}`
+    const row = m.get(key) ?? { key, label: e.item_name || WASTE_ITEM_LABELS[e.item_type], qty: 0, unit: e.unit, cost: 0, count: 0, mixed: false }
+    if (row.unit !== e.unit) row.mixed = true
+    row.qty += e.qty
+    row.cost += e.total_cost
+    row.count += 1
+    m.set(key, row)
+  }
+  return [...m.values()]
+    .map(({ mixed, ...r }) => (mixed ? { ...r, qty: 0, unit: null } : r))
+    .sort((a, b) => b.cost - a.cost)
+}
@@ -0,0 +1,240 @@
+// src/pages/AllergenMatrix.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { getIngredientsCached } from '../lib/ingredientsCache'
+import { loadCostingLines, type CostingLine } from '../lib/recipeCosting'
+import { allergenLevel, computeRecipeAllergens, EU_ALLERGENS, listAllergenDefs, type AllergenDef } from '../lib/allergens'
+
+type Recipe = {
+  id: string
+  code?: string | null
+  name: string
+  category: string | null
+  is_subrecipe: boolean
+  is_archived: boolean
+}
+
+function csvCell(v: string) {
+  return /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v
+}
+
+export default function AllergenMatrix() {
+  const nav = useNavigate()
+  const loc = useLocation()
+  const [sp] = useSearchParams()
+  const printMode = loc.pathname.toLowerCase().includes('/print')
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [ingredients, setIngredients] = useState<Array<{ id: string; allergens: string[] | null; may_contain: string[] | null }>>([])
+  const [lines, setLines] = useState<CostingLine[]>([])
+  const [defs, setDefs] = useState<AllergenDef[]>(EU_ALLERGENS)
+
+  const [q, setQ] = useState('')
+  const [includePrep, setIncludePrep] = useState(sp.get('prep') === '1')
+  const [onlyUsed, setOnlyUsed] = useState(true)
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const { data: r, error: re } = await supabase
+          .from('recipes')
+          .select('id,code,name,category,is_subrecipe,is_archived')
+          .order('name', { ascending: true })
+        if (re) throw re
+        const [ing, l, d] = await Promise.all([getIngredientsCached(), loadCostingLines(), listAllergenDefs().catch(() => EU_ALLERGENS)])
+        if (!alive) return
+        setRecipes((r ?? []) as Recipe[])
+        setIngredients(ing)
+        setLines(l)
+        setDefs(d)
+      } catch (e: any) {
+        if (alive) setErr(e?.message ?? 'Failed to load allergens')
+      } finally {
+        if (alive) setLoading(false)
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const profiles = useMemo(() => computeRecipeAllergens({ ingredients, lines }), [ingredients, lines])
+
+  const rows = useMemo(() => {
+    const s = q.trim().toLowerCase()
+    return recipes
+      .filter((r) => !r.is_archived)
+      .filter((r) => includePrep || !r.is_subrecipe)
+      .filter((r) => !s || r.name.toLowerCase().includes(s) || (r.category || '').toLowerCase().includes(s))
+  }, [recipes, includePrep, q])
+
+  const columns = useMemo(() => {
+    if (!onlyUsed) return defs
+    return defs.filter((d) => rows.some((r) => allergenLevel(profiles.get(r.id), d.code) != null))
+  }, [defs, rows, profiles, onlyUsed])
+
+  useEffect(() => {
+    if (!printMode || loading || err) return
+    const t = window.setTimeout(() => window.print(), 400)
+    return () => window.clearTimeout(t)
+  }, [printMode, loading, err])
+
+  const exportCsv = () => {
+    const head = ['Recipe', 'Category', ...columns.map((c) => c.label)]
+    const body = rows.map((r) => [
+      r.name,
+      r.category || '',
+      ...columns.map((c) => {
+        const lvl = allergenLevel(profiles.get(r.id), c.code)
+        return lvl === 'contains' ? 'X' : lvl === 'may_contain' ? 'May' : ''
+      }),
+    ])
+    const csv = [head, ...body].map((row) => row.map(csvCell).join(',')).join('\n')
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' })
+    const a = document.createElement('a')
+    a.href = URL.createObjectURL(blob)
+    a.download = `allergen-matrix-${new Date().toISOString().slice(0, 10)}.csv`
+    a.click()
+    URL.revokeObjectURL(a.href)
+  }
+
+  if (loading) return <div className="gc-card p-6">Loading allergens…</div>
+  if (err) {
+    return (
+      <div className="gc-card p-6 space-y-2">
+        <div className="gc-label">ERROR</div>
+        <div className="text-sm text-red-600">{err}</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={printMode ? 'am-print p-4' : 'space-y-6'}>
+      {!printMode && (
+        <div className="gc-card p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className="gc-label">ALLERGENS</div>
+              <div className="mt-2 text-2xl font-extrabold">Allergen Matrix</div>
+              <div className="mt-2 text-sm text-neutral-600">
+                Inherited from ingredients through every recipe line, nested prep recipes included.
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button className="gc-btn gc-btn-ghost" type="button" onClick={exportCsv}>
+                Export CSV
+              </button>
+              <button className="gc-btn gc-btn-primary" type="button" onClick={() => nav(`/allergens/print?prep=${includePrep ? 1 : 0}`)}>
+                Print for front of house
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <input className="gc-input" value={q} onChange={(e) => setQ(e.target.value)} placeholder="Search recipe or category…" />
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={includePrep} onChange={(e) => setIncludePrep(e.target.checked)} />
+              Include prep recipes
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={onlyUsed} onChange={(e) => setOnlyUsed(e.target.checked)} />
+              Hide unused allergens
+            </label>
+          </div>
+        </div>
+      )}
+
+      {printMode && (
+        <div className="mb-3">
+          <div className="text-lg font-extrabold">Allergen information</div>
+          <div className="text-xs text-neutral-600">
+            ● contains · ○ may contain (cross-contact) · Printed {new Date().toLocaleDateString()}. Please ask staff if you have an allergy.
+          </div>
+        </div>
+      )}
+
+      <div className={printMode ? '' : 'gc-card p-0 overflow-x-auto'}>
+        <table className="am-table w-full text-sm">
+          <thead>
+            <tr>
+              <th className="am-name">Dish</th>
+              {columns.map((c) => (
+                <th key={c.code} className="am-col">
+                  <span>{c.label}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => {
+              const p = profiles.get(r.id)
+              return (
+                <tr key={r.id}>
+                  <td className="am-name">
+                    {printMode ? (
+                      r.name
+                    ) : (
+                      <button type="button" className="font-semibold hover:underline text-left" onClick={() => nav(`/recipe?id=${encodeURIComponent(r.id)}`)}>
+                        {r.name}
+                      </button>
+                    )}
+                    {r.category ? <span className="am-cat">{r.category}</span> : null}
+                  </td>
+                  {columns.map((c) => {
+                    const lvl = allergenLevel(p, c.code)
+                    return (
+                      <td key={c.code} className={`am-cell ${lvl === 'contains' ? 'is-contains' : lvl === 'may_contain' ? 'is-may' : ''}`}>
+                        {lvl === 'contains' ? '●' : lvl === 'may_contain' ? '○' : ''}
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+            {!rows.length && (
+              <tr>
+                <td className="am-name text-neutral-500" colSpan={columns.length + 1}>
+                  No recipes.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {printMode && (
+        <div className="am-noprint mt-4 flex gap-2">
+          <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav('/allergens')}>
+            ← Back
+          </button>
+          <button className="gc-btn gc-btn-primary" type="button" onClick={() => window.print()}>
+            Print
+          </button>
+        </div>
+      )}
+
+      <style>{`
+        .am-table { border-collapse: collapse; }
+        .am-table th, .am-table td { border-bottom: 1px solid rgba(0,0,0,.08); padding: 8px 10px; }
+        .am-table th { font-size: 11px; font-weight: 700; text-align: left; vertical-align: bottom; }
+        .am-col { text-align: center !important; white-space: nowrap; }
+        .am-col span { display: inline-block; writing-mode: vertical-rl; transform: rotate(180deg); }
+        .am-name { min-width: 200px; }
+        .am-cat { display: block; font-size: 11px; opacity: .6; }
+        .am-cell { text-align: center; font-size: 16px; }
+        .am-cell.is-contains { color: #b91c1c; background: rgba(185,28,28,.06); }
+        .am-cell.is-may { color: #b45309; }
+        @media print {
+          @page { size: landscape; margin: 10mm; }
+          .am-noprint { display: none !important; }
+          .am-table th, .am-table td { border: 1px solid #999; padding: 4px 6px; }
+          .am-cell.is-contains { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -1,101 +1,232 @@
 import React, { useState, useEffect, useMemo } from 'react'
-import { useDatabase } from '../contexts/DatabaseContext'
-import { useTheme } from '../contexts/ThemeContext'
+import { useSearchParams } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { listCostPoints, type CostPoint } from '../lib/costHistory'
+import { getIngredientsCached } from '../lib/ingredientsCache'
 import TimelineChart from '../components/cost/TimelineChart'
 import DateRangePicker from '../components/cost/DateRangePicker'
 import RecipeSelector from '../components/cost/RecipeSelector'
 import LoadingSpinner from '../components/LoadingSpinner'
 
+type RecipeRow = { id: string; name: string; currency: string | null; is_archived: boolean }
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: (currency || 'USD').toUpperCase() }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
 export default function CostHistory() {
-  const { getCostHistory, getRecipes, loading } = useDatabase()
-  const { theme } = useTheme()
+  const [sp, setSp] = useSearchParams()
 
-  const [history, setHistory] = useState<any[]>([])
-  const [recipes, setRecipes] = useState<any[]>([])
-  const [selectedRecipe, setSelectedRecipe] = useState<string>('all')
+  const [history, setHistory] = useState<CostPoint[]>([])
+  const [recipes, setRecipes] = useState<RecipeRow[]>([])
+  const [ingNames, setIngNames] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
   const [dateRange, setDateRange] = useState<[Date, Date]>([new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), new Date()])
 
+  const selectedRecipe = sp.get('recipe') || 'all'
+  const setSelectedRecipe = (v: string) => setSp(v === 'all' ? {} : { recipe: v }, { replace: true })
+
   useEffect(() => {
     let mounted = true
-
-    const load = async () => {
+    ;(async () => {
       try {
-        const [h, r] = await Promise.all([getCostHistory(), getRecipes()])
+        const [{ data, error }, ing] = await Promise.all([
+          supabase.from('recipes').select('id,name,currency,is_archived').order('name', { ascending: true }),
+          getIngredientsCached(),
+        ])
+        if (error) throw error
         if (!mounted) return
-        setHistory(h)
-        setRecipes(r)
-      } catch (e) {
-        console.error('Failed to load cost history:', e)
+        setRecipes(((data ?? []) as RecipeRow[]).filter((r) => !r.is_archived))
+        setIngNames(new Map(ing.map((i) => [i.id, i.name || 'Ingredient'])))
+      } catch (e: any) {
+        if (mounted) setErr(e?.message ?? 'Failed to load recipes')
       }
+    })()
+    return () => {
+      mounted = false
     }
+  }, [])
 
-    load()
+  useEffect(() => {
+    let mounted = true
+    setLoading(true)
+    listCostPoints({ recipeId: selectedRecipe === 'all' ? null : selectedRecipe, from: dateRange[0], to: dateRange[1] })
+      .then((h) => {
+        if (!mounted) return
+        setHistory(h)
+        setErr(null)
+      })
+      .catch((e: any) => mounted && setErr(e?.message ?? 'Failed to load cost history'))
+      .finally(() => mounted && setLoading(false))
     return () => {
       mounted = false
     }
-  }, [getCostHistory, getRecipes])
+  }, [selectedRecipe, dateRange])
 
-  const filteredHistory = useMemo(() => {
-    let filtered = [...history]
+  const recipeById = useMemo(() => new Map(recipes.map((r) => [r.id, r])), [recipes])
 
-    if (selectedRecipe !== 'all') {
-      filtered = filtered.filter((h) => h.recipe_id === selectedRecipe)
+  // First vs last point per recipe inside the range.
+  const movers = useMemo(() => {
+    const m = new Map<string, { first: CostPoint; last: CostPoint; count: number }>()
+    for (const p of history) {
+      const cur = m.get(p.recipe_id)
+      if (!cur) m.set(p.recipe_id, { first: p, last: p, count: 1 })
+      else m.set(p.recipe_id, { ...cur, last: p, count: cur.count + 1 })
     }
+    return [...m.entries()]
+      .map(([rid, x]) => ({
+        recipeId: rid,
+        name: recipeById.get(rid)?.name || 'Recipe',
+        currency: x.last.currency,
+        from: x.first.cpp,
+        to: x.last.cpp,
+        delta: x.last.cpp - x.first.cpp,
+        pct: x.first.cpp > 0 ? ((x.last.cpp - x.first.cpp) / x.first.cpp) * 100 : null,
+        count: x.count,
+      }))
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+  }, [history, recipeById])
 
-    filtered = filtered.filter((h) => {
-      const d = new Date(h.created_at ?? h.date ?? Date.now())
-      return d >= dateRange[0] && d <= dateRange[1]
-    })
-
-    return filtered.sort((a, b) => new Date(a.created_at ?? a.date).getTime() - new Date(b.created_at ?? b.date).getTime())
-  }, [history, selectedRecipe, dateRange])
-
-  const values = filteredHistory.map((h) => Number(h.total_cost ?? h.cost ?? 0))
+  const currency = (selectedRecipe !== 'all' && recipeById.get(selectedRecipe)?.currency) || history[history.length - 1]?.currency || 'USD'
+  const values = history.map((h) => h.cpp)
   const avg = values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0
   const hi = values.length ? Math.max(...values) : 0
   const lo = values.length ? Math.min(...values) : 0
 
-  if (loading) return <LoadingSpinner />
-
   return (
-    <div className="cost-history" data-theme={theme}>
-      <header className="history-header">
-        <h1>Cost Evolution Timeline</h1>
-        <p className="gc-muted">Track recipe costs over time.</p>
-      </header>
-
-      <div className="controls">
-        <RecipeSelector recipes={recipes} value={selectedRecipe} onChange={setSelectedRecipe} />
-        <DateRangePicker value={dateRange} onChange={setDateRange} />
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">COST HISTORY</div>
+        <div className="mt-2 text-2xl font-extrabold">Cost Evolution Timeline</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Recorded automatically whenever an ingredient price changes, for every recipe that uses it — subrecipe parents included.
+        </div>
+        <div className="mt-4 flex flex-wrap items-end gap-4">
+          <RecipeSelector recipes={recipes} value={selectedRecipe} onChange={setSelectedRecipe} />
+          <DateRangePicker value={dateRange} onChange={setDateRange} />
+        </div>
       </div>
 
-      <div className="chart-container">
-        <TimelineChart data={filteredHistory} />
-      </div>
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
 
-      <div className="insights">
-        <h2>Key Insights</h2>
-        <div className="insight-grid">
-          <div className="insight-card">
-            <h3>Average Cost</h3>
-            <p className="value">${avg.toFixed(2)}</p>
-          </div>
-          <div className="insight-card">
-            <h3>Highest Cost</h3>
-            <p className="value">${hi.toFixed(2)}</p>
+      {loading ? (
+        <LoadingSpinner />
+      ) : selectedRecipe !== 'all' ? (
+        <>
+          <div className="gc-card p-6">
+            <div className="gc-label">COST / PORTION</div>
+            <TimelineChart data={history.map((h) => ({ created_at: new Date(h.created_at).toLocaleString(), total_cost: h.cpp }))} />
           </div>
-          <div className="insight-card">
-            <h3>Lowest Cost</h3>
-            <p className="value">${lo.toFixed(2)}</p>
+
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="gc-card p-5">
+              <div className="gc-label">AVERAGE</div>
+              <div className="mt-2 text-xl font-extrabold">{values.length ? fmtMoney(avg, currency) : '—'}</div>
+            </div>
+            <div className="gc-card p-5">
+              <div className="gc-label">HIGHEST</div>
+              <div className="mt-2 text-xl font-extrabold">{values.length ? fmtMoney(hi, currency) : '—'}</div>
+            </div>
+            <div className="gc-card p-5">
+              <div className="gc-label">LOWEST</div>
+              <div className="mt-2 text-xl font-extrabold">{values.length ? fmtMoney(lo, currency) : '—'}</div>
+            </div>
+            <div className="gc-card p-5">
+              <div className="gc-label">TREND</div>
+              <div className="mt-2 text-xl font-extrabold">
+                {values.length >= 2 ? (values[values.length - 1] > values[0] ? '📈 Rising' : values[values.length - 1] < values[0] ? '📉 Falling' : 'Flat') : '—'}
+              </div>
+            </div>
           </div>
-          <div className="insight-card">
-            <h3>Trend</h3>
-            <p className="value">
-              {values.length >= 2 ? (values[values.length - 1] > values[0] ? '📈 Rising' : '📉 Falling') : '—'}
-            </p>
+
+          <div className="gc-card p-6">
+            <div className="gc-label">POINTS</div>
+            <table className="mt-3 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                  <th className="py-2">When</th>
+                  <th>Cause</th>
+                  <th className="text-right">Total</th>
+                  <th className="text-right">Cost / portion</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...history].reverse().map((h) => (
+                  <tr key={h.id} className="border-t border-neutral-200/60">
+                    <td className="py-2">{new Date(h.created_at).toLocaleString()}</td>
+                    <td>
+                      {h.source === 'manual'
+                        ? 'Snapshot'
+                        : `Price change: ${h.ingredient_ids.map((x) => ingNames.get(x) || 'ingredient').join(', ')}`}
+                    </td>
+                    <td className="text-right">{fmtMoney(h.total_cost, h.currency)}</td>
+                    <td className="text-right font-semibold">{fmtMoney(h.cpp, h.currency)}</td>
+                  </tr>
+                ))}
+                {!history.length && (
+                  <tr>
+                    <td colSpan={4} className="py-3 text-neutral-500">
+                      No cost points in this period.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
           </div>
+        </>
+      ) : (
+        <div className="gc-card p-6">
+          <div className="gc-label">BIGGEST MOVERS (COST / PORTION)</div>
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-2">Recipe</th>
+                <th className="text-right">From</th>
+                <th className="text-right">To</th>
+                <th className="text-right">Change</th>
+                <th className="text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movers.map((m) => (
+                <tr key={m.recipeId} className="border-t border-neutral-200/60">
+                  <td className="py-2">
+                    <button type="button" className="font-semibold hover:underline" onClick={() => setSelectedRecipe(m.recipeId)}>
+                      {m.name}
+                    </button>
+                  </td>
+                  <td className="text-right">{fmtMoney(m.from, m.currency)}</td>
+                  <td className="text-right">{fmtMoney(m.to, m.currency)}</td>
+                  <td className={`text-right font-semibold ${m.delta > 0.005 ? 'text-red-600' : m.delta < -0.005 ? 'text-green-700' : ''}`}>
+                    {m.delta > 0 ? '+' : ''}
+                    {fmtMoney(m.delta, m.currency)}
+                    {m.pct != null ? ` (${m.pct > 0 ? '+' : ''}${m.pct.toFixed(1)}%)` : ''}
+                  </td>
+                  <td className="text-right">{m.count}</td>
+                </tr>
+              ))}
+              {!movers.length && (
+                <tr>
+                  <td colSpan={5} className="py-3 text-neutral-500">
+                    No cost points in this period.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
         </div>
-      </div>
+      )}
     </div>
   )
 }
@@ -7,6 +7,13 @@ import { Skeleton } from '../components/Skeleton'
 import EmptyState from '../components/EmptyState'
 import ErrorState from '../components/ErrorState'
 import { motion, AnimatePresence } from 'framer-motion'
+import { COST_WARNINGS, createCostingEngine, loadCostingLines, type CostingLine } from '../lib/recipeCosting'
+import { listWaste, wasteByItem, wasteByReason, weekStart, weeklyWasteCost, type WasteEntry } from '../lib/waste'
+import { loadSalesMix, type SalesMix } from '../lib/sales'
+import { analyzeMenu, countByQuadrant, MENU_QUADRANT_COLORS, MENU_QUADRANT_HINTS, MENU_QUADRANT_LABELS, type MenuQuadrant } from '../lib/menuEngineering'
+import { exportMenuEngineeringCsv, exportMenuEngineeringExcel } from '../utils/exportMenuEngineering'
+import MenuEngineeringChart from '../components/dashboard/MenuEngineeringChart'
+import { computePlateCost, loadPlateCostContext, prepLaborCost, type PlateCostContext } from '../lib/plateCost'
 
 // استيراد أنماط التصميم
 import '../styles/tokens.css'
@@ -15,20 +22,16 @@ import '../styles/globals.css'
 type Recipe = {
   id: string
   name: string
+  category: string | null
   portions: number
+  selling_price: number | null
   yield_qty: number | null
   yield_unit: string | null
   is_archived: boolean
   is_subrecipe: boolean
 }
 
-type Line = {
-  recipe_id: string
-  ingredient_id: string | null
-  sub_recipe_id: string | null
-  qty: number
-  unit: string
-}
+type Line = CostingLine
 
 type Ingredient = {
   id: string
@@ -36,6 +39,8 @@ type Ingredient = {
   pack_unit?: string | null
   net_unit_cost?: number | null
   is_active?: boolean
+  density_g_per_ml?: number | null
+  grams_per_piece?: number | null
 }
 
 function toNum(x: any, fallback = 0) {
@@ -47,34 +52,8 @@ function safeUnit(u: string) {
   return (u ?? '').trim().toLowerCase() || 'g'
 }
 
-function unitFamily(u: string) {
-  const x = safeUnit(u)
-  if (x === 'g' || x === 'kg') return 'mass'
-  if (x === 'ml' || x === 'l') return 'volume'
-  if (x === 'pcs') return 'count'
-  if (x === 'portion') return 'portion'
-  return 'other'
-}
-
-function convertQty(qty: number, fromUnit: string, toUnit: string) {
-  const from = safeUnit(fromUnit)
-  const to = safeUnit(toUnit)
-  if (from === to) return { ok: true, value: qty }
-
-  const ff = unitFamily(from)
-  const tf = unitFamily(to)
-  if (ff !== tf) return { ok: false, value: qty }
-
-  if (ff === 'mass') {
-    if (from === 'g' && to === 'kg') return { ok: true, value: qty / 1000 }
-    if (from === 'kg' && to === 'g') return { ok: true, value: qty * 1000 }
-  }
-  if (ff === 'volume') {
-    if (from === 'ml' && to === 'l') return { ok: true, value: qty / 1000 }
-    if (from === 'l' && to === 'ml') return { ok: true, value: qty * 1000 }
-  }
-
-  return { ok: true, value: qty }
+function dayString(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
 }
 
 function money(n: number, currency = 'USD') {
@@ -109,6 +88,11 @@ export default function Dashboard() {
   const [recipes, setRecipes] = useState<Recipe[]>([])
   const [lines, setLines] = useState<Line[]>([])
   const [ingredients, setIngredients] = useState<Ingredient[]>([])
+  const [waste, setWaste] = useState<WasteEntry[]>([])
+  const [meDays, setMeDays] = useState(30)
+  const [meCategory, setMeCategory] = useState('')
+  const [salesMix, setSalesMix] = useState<SalesMix | null>(null)
+  const [plateCtx, setPlateCtx] = useState<PlateCostContext | null>(null)
 
   const load = async () => {
     setLoading(true)
@@ -120,22 +104,22 @@ export default function Dashboard() {
       ] = await Promise.all([
         supabase
           .from('recipes')
-          .select('id,name,portions,yield_qty,yield_unit,is_archived,is_subrecipe'),
+          .select('id,name,category,portions,selling_price,yield_qty,yield_unit,is_archived,is_subrecipe'),
         supabase
           .from('ingredients')
-          .select('id,name,pack_unit,net_unit_cost,is_active')
+          .select('id,name,pack_unit,net_unit_cost,is_active,density_g_per_ml,grams_per_piece')
       ])
       if (re) throw re
       if (ie) throw ie
 
-      const { data: l, error: le } = await supabase
-        .from('recipe_lines')
-        .select('recipe_id,ingredient_id,sub_recipe_id,qty,unit')
-      if (le) throw le
+      const since = weekStart(new Date())
+      since.setDate(since.getDate() - 7 * 7)
+      const [l, w] = await Promise.all([loadCostingLines(), listWaste({ since: since.toISOString() }).catch(() => [])])
 
       setRecipes((r ?? []) as Recipe[])
       setLines((l ?? []) as Line[])
       setIngredients((i ?? []) as Ingredient[])
+      setWaste(w)
       setLoading(false)
     } catch (e: any) {
       setErr(e?.message ?? 'Unknown error')
@@ -147,17 +131,16 @@ export default function Dashboard() {
     load()
   }, [])
 
-  const ingById = useMemo(() => {
-    const m = new Map<string, Ingredient>()
-    for (const i of ingredients) m.set(i.id, i)
-    return m
-  }, [ingredients])
-
-  const recipeById = useMemo(() => {
-    const m = new Map<string, Recipe>()
-    for (const r of recipes) m.set(r.id, r)
-    return m
-  }, [recipes])
+  // Labor / packaging / overhead are optional; without them plate cost equals food cost.
+  useEffect(() => {
+    let alive = true
+    loadPlateCostContext()
+      .then((c) => alive && setPlateCtx(c))
+      .catch(() => alive && setPlateCtx(null))
+    return () => {
+      alive = false
+    }
+  }, [])
 
   const activeRecipes = useMemo(() => recipes.filter((r) => !r.is_archived), [recipes])
   const activeIngredientsCount = useMemo(
@@ -189,87 +172,22 @@ export default function Dashboard() {
       missingIngredientCostCount: 0,
     }
 
-    for (const r of recipes) totals.set(r.id, 0)
-
-    const linesByRecipe = new Map<string, Line[]>()
-    for (const l of lines) {
-      if (!linesByRecipe.has(l.recipe_id)) linesByRecipe.set(l.recipe_id, [])
-      linesByRecipe.get(l.recipe_id)!.push(l)
-    }
-
-    const maxPass = 12
-    for (let pass = 0; pass < maxPass; pass++) {
-      let changed = false
+    const engine = createCostingEngine({ ingredients, recipes, lines })
 
-      for (const r of recipes) {
-        const rLines = linesByRecipe.get(r.id) ?? []
-        let sum = 0
+    for (const r of recipes) {
+      const rc = engine.recipeCost(r.id)
+      totals.set(r.id, rc.totalCost)
 
-        for (const l of rLines) {
-          const qty = Math.max(0, toNum(l.qty, 0))
-          const u = safeUnit(l.unit)
-
-          if (l.ingredient_id) {
-            const ing = ingById.get(l.ingredient_id)
-            if (!ing || ing.is_active === false) continue
-
-            const net = toNum(ing.net_unit_cost, 0)
-            const packUnit = safeUnit(ing.pack_unit ?? 'g')
-
-            if (!Number.isFinite(net) || net <= 0) {
-              diag.missingIngredientCostCount += 1
-              continue
-            }
-
-            const conv = convertQty(qty, u, packUnit)
-            if (!conv.ok) diag.unitMismatchCount += 1
-
-            sum += conv.value * net
-            continue
-          }
-
-          if (l.sub_recipe_id) {
-            const sub = recipeById.get(l.sub_recipe_id)
-            const subTotal = totals.get(l.sub_recipe_id) ?? 0
-            if (!sub) continue
-
-            const subPortions = Math.max(1, toNum(sub.portions, 1))
-            const subCpp = subTotal / subPortions
-
-            if (u === 'portion') {
-              sum += qty * subCpp
-              continue
-            }
-
-            const yq = toNum(sub.yield_qty, 0)
-            const yu = safeUnit(sub.yield_unit ?? '')
-
-            if (yq > 0 && yu && unitFamily(u) === unitFamily(yu)) {
-              const costPerYieldUnit = subTotal / yq
-              const conv = convertQty(qty, u, yu)
-              if (!conv.ok) diag.unitMismatchCount += 1
-              sum += conv.value * costPerYieldUnit
-              continue
-            }
-
-            if (sub.is_subrecipe) diag.missingYieldSubrecipeCount += 1
-            sum += qty * subCpp
-            continue
-          }
-        }
-
-        const prev = totals.get(r.id) ?? 0
-        if (Math.abs(prev - sum) > 1e-7) {
-          totals.set(r.id, sum)
-          changed = true
-        }
+      // Count per-line issues of this recipe only; nested ones are counted on the subrecipe itself.
+      for (const c of rc.lines.values()) {
+        if (c.warnings.includes(COST_WARNINGS.noPrice)) diag.missingIngredientCostCount += 1
+        if (c.unitIssue) diag.unitMismatchCount += 1
+        if (c.warnings.includes(COST_WARNINGS.missingYield)) diag.missingYieldSubrecipeCount += 1
       }
-
-      if (!changed) break
     }
 
     return { totals, diag }
-  }, [recipes, lines, ingById, recipeById])
+  }, [recipes, lines, ingredients])
 
   useEffect(() => {
     if (loading || err) return
@@ -355,17 +273,52 @@ export default function Dashboard() {
     return activeRecipes.reduce((sum, r) => sum + (recipeTotalCost.get(r.id) ?? 0), 0)
   }, [activeRecipes, recipeTotalCost])
 
+  const plateCostOf = useCallback(
+    (r: Recipe) =>
+      computePlateCost({
+        foodCost: recipeTotalCost.get(r.id) ?? 0,
+        portions: r.portions,
+        sellingPrice: r.selling_price,
+        labor: plateCtx?.labor.get(r.id),
+        prepLabor: plateCtx ? prepLaborCost(r.id, { recipes, lines, labor: plateCtx.labor, roles: plateCtx.roles }) : 0,
+        roles: plateCtx?.roles ?? [],
+        packaging: plateCtx?.packaging.get(r.id),
+        overheadPct: plateCtx?.settings.overhead_pct,
+      }),
+    [recipeTotalCost, plateCtx, recipes, lines]
+  )
+
   const top5 = useMemo(() => {
     return [...activeRecipes]
-      .map((r) => ({
-        id: r.id,
-        name: r.name,
-        total: recipeTotalCost.get(r.id) ?? 0,
-        cpp: (recipeTotalCost.get(r.id) ?? 0) / Math.max(1, toNum(r.portions, 1)),
-      }))
+      .map((r) => {
+        const pc = plateCostOf(r)
+        return {
+          id: r.id,
+          name: r.name,
+          total: recipeTotalCost.get(r.id) ?? 0,
+          cpp: pc.foodPP,
+          primePP: pc.primePP,
+          platePP: pc.platePP,
+          platePct: pc.platePct,
+        }
+      })
       .sort((a, b) => b.total - a.total)
       .slice(0, 5)
-  }, [activeRecipes, recipeTotalCost])
+  }, [activeRecipes, recipeTotalCost, plateCostOf])
+
+  // Dishes only: PREPs are not plated on their own.
+  const avgPlate = useMemo(() => {
+    const dishes = activeRecipes.filter((r) => !r.is_subrecipe)
+    if (!dishes.length) return null
+    const sum = dishes.reduce(
+      (acc, r) => {
+        const pc = plateCostOf(r)
+        return { food: acc.food + pc.foodPP, prime: acc.prime + pc.primePP, plate: acc.plate + pc.platePP }
+      },
+      { food: 0, prime: 0, plate: 0 }
+    )
+    return { food: sum.food / dishes.length, prime: sum.prime / dishes.length, plate: sum.plate / dishes.length }
+  }, [activeRecipes, plateCostOf])
 
   const subRecipesMissingYield = useMemo(() => {
     return recipes
@@ -373,6 +326,62 @@ export default function Dashboard() {
       .filter((r) => toNum(r.yield_qty, 0) <= 0 || !safeUnit(r.yield_unit ?? ''))
   }, [recipes])
 
+  // Waste: 8 weeks loaded; KPIs compare this week with last, breakdowns cover the last 4 weeks.
+  const wasteWeeks = useMemo(() => weeklyWasteCost(waste, 8), [waste])
+  const wasteThisWeek = wasteWeeks[wasteWeeks.length - 1]?.cost ?? 0
+  const wasteLastWeek = wasteWeeks[wasteWeeks.length - 2]?.cost ?? 0
+  const wasteAvg = wasteWeeks.slice(0, -1).reduce((s, w) => s + w.cost, 0) / Math.max(1, wasteWeeks.length - 1)
+  const wasteChangePct = wasteLastWeek > 0 ? ((wasteThisWeek - wasteLastWeek) / wasteLastWeek) * 100 : null
+  const recentWaste = useMemo(() => {
+    const from = wasteWeeks[wasteWeeks.length - 4]?.start.getTime() ?? 0
+    return waste.filter((e) => new Date(e.wasted_at).getTime() >= from)
+  }, [waste, wasteWeeks])
+  const topWasteItems = useMemo(() => wasteByItem(recentWaste).slice(0, 5), [recentWaste])
+  const topWasteReasons = useMemo(() => wasteByReason(recentWaste), [recentWaste])
+
+  // Menu engineering over the last `meDays` days of imported (or manually entered) sales.
+  useEffect(() => {
+    let alive = true
+    const through = new Date()
+    const after = new Date()
+    after.setDate(after.getDate() - meDays)
+    loadSalesMix(dayString(after), dayString(through))
+      .then((m) => alive && setSalesMix(m))
+      .catch(() => alive && setSalesMix(null))
+    return () => {
+      alive = false
+    }
+  }, [meDays])
+
+  const menuCategories = useMemo(
+    () => [...new Set(activeRecipes.filter((r) => !r.is_subrecipe && r.category).map((r) => String(r.category)))].sort(),
+    [activeRecipes]
+  )
+
+  const menuEngineering = useMemo(() => {
+    if (!salesMix) return null
+    return analyzeMenu(
+      activeRecipes
+        .filter((r) => !r.is_subrecipe && (!meCategory || r.category === meCategory))
+        .map((r) => {
+          const sold = salesMix.qty.get(r.id) ?? 0
+          const listed = toNum(r.selling_price, 0)
+          // No list price: fall back to the average price actually charged.
+          const price = listed > 0 ? listed : sold > 0 ? (salesMix.revenueByRecipe.get(r.id) ?? 0) / sold : 0
+          return {
+            recipeId: r.id,
+            name: r.name,
+            category: r.category,
+            sold,
+            price,
+            cost: (recipeTotalCost.get(r.id) ?? 0) / Math.max(1, toNum(r.portions, 1)),
+          }
+        })
+    )
+  }, [salesMix, activeRecipes, meCategory, recipeTotalCost])
+  const quadrantCounts = useMemo(() => countByQuadrant(menuEngineering?.items ?? []), [menuEngineering])
+  const meExportMeta = { currency: 'USD', periodLabel: `Last ${meDays} days`, category: meCategory || null }
+
   const hasOutliers = useMemo(() => {
     const big = top5.find((x) => x.total > 10000)
     return !!big
@@ -701,17 +710,193 @@ export default function Dashboard() {
             </motion.div>
           </motion.div>
 
+          {/* Waste */}
+          <motion.div
+            variants={containerVariants}
+            style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '10px', marginTop: '10px' }}
+          >
+            {[
+              { icon: '🗑️', label: 'WASTE THIS WEEK', value: money(wasteThisWeek), sub: `${wasteWeeks[wasteWeeks.length - 1]?.count ?? 0} entries`, color: 'var(--gc-danger)' },
+              { icon: '📅', label: 'WASTE LAST WEEK', value: money(wasteLastWeek), sub: `${wasteWeeks[wasteWeeks.length - 2]?.count ?? 0} entries`, color: 'var(--gc-brand-olive)' },
+              {
+                icon: wasteChangePct != null && wasteChangePct > 0 ? '📈' : '📉',
+                label: 'WEEK ON WEEK',
+                value: wasteChangePct == null ? '—' : `${wasteChangePct > 0 ? '+' : ''}${wasteChangePct.toFixed(0)}%`,
+                sub: 'Waste cost change',
+                color: wasteChangePct != null && wasteChangePct > 0 ? 'var(--gc-danger)' : 'var(--gc-success)',
+              },
+              { icon: '〰️', label: 'WEEKLY AVERAGE', value: money(wasteAvg), sub: 'Previous 7 weeks', color: 'var(--gc-brand-olive)' }
+            ].map((item, index) => (
+              <motion.div
+                key={index}
+                variants={itemVariants}
+                whileHover={{ y: -2 }}
+                className="gc-card is-interactive"
+                style={{ padding: '12px', cursor: 'pointer' }}
+                onClick={() => nav('/waste')}
+              >
+                <div className="gc-card-body" style={{ padding: 0 }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+                    <span style={{ fontSize: '20px' }}>{item.icon}</span>
+                    <div className="gc-label" style={{ fontSize: '9px' }}>{item.label}</div>
+                  </div>
+                  <div style={{ fontSize: '18px', fontWeight: 800, color: item.color }}>
+                    {item.value}
+                  </div>
+                  <div className="gc-hint" style={{ marginTop: '2px', fontSize: '10px' }}>{item.sub}</div>
+                </div>
+              </motion.div>
+            ))}
+          </motion.div>
+
+          {recentWaste.length > 0 && (
+            <motion.div variants={itemVariants} className="gc-card" style={{ marginTop: '10px', padding: '12px' }}>
+              <div className="gc-card-body" style={{ padding: 0, display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '16px' }}>
+                <div>
+                  <div className="gc-label" style={{ fontSize: '10px', marginBottom: '8px' }}>🗑️ TOP WASTE · 4 WEEKS</div>
+                  <table className="gc-data-table" style={{ fontSize: '12px' }}>
+                    <tbody>
+                      {topWasteItems.map((x) => (
+                        <tr key={x.key}>
+                          <td style={{ fontSize: '11px', fontWeight: 500, padding: '6px' }}>{x.label.length > 24 ? x.label.substring(0, 21) + '...' : x.label}</td>
+                          <td className="gc-td-right" style={{ fontSize: '11px', fontWeight: 600, color: 'var(--gc-danger)', padding: '6px' }}>{money(x.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div>
+                  <div className="gc-label" style={{ fontSize: '10px', marginBottom: '8px' }}>BY REASON · 4 WEEKS</div>
+                  <table className="gc-data-table" style={{ fontSize: '12px' }}>
+                    <tbody>
+                      {topWasteReasons.map((x) => (
+                        <tr key={x.key}>
+                          <td style={{ fontSize: '11px', fontWeight: 500, padding: '6px' }}>{x.label}</td>
+                          <td className="gc-td-right" style={{ fontSize: '11px', padding: '6px' }}>{x.count}×</td>
+                          <td className="gc-td-right" style={{ fontSize: '11px', fontWeight: 600, color: 'var(--gc-danger)', padding: '6px' }}>{money(x.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </motion.div>
+          )}
+
+          {/* Menu engineering */}
+          <motion.div variants={itemVariants} className="gc-card" style={{ marginTop: '16px', padding: '12px' }}>
+            <div className="gc-card-body" style={{ padding: 0 }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: '8px', marginBottom: '8px' }}>
+                <div className="gc-label" style={{ fontSize: '10px' }}>🧭 MENU ENGINEERING</div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+                  <select className="gc-input" style={{ fontSize: '12px', padding: '4px 8px' }} value={meDays} onChange={(e) => setMeDays(Number(e.target.value))}>
+                    <option value={7}>Last 7 days</option>
+                    <option value={30}>Last 30 days</option>
+                    <option value={90}>Last 90 days</option>
+                  </select>
+                  <select className="gc-input" style={{ fontSize: '12px', padding: '4px 8px' }} value={meCategory} onChange={(e) => setMeCategory(e.target.value)}>
+                    <option value="">All categories</option>
+                    {menuCategories.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="ghost"
+                    disabled={!menuEngineering?.items.length}
+                    onClick={() => menuEngineering && exportMenuEngineeringCsv(menuEngineering, meExportMeta)}
+                    style={{ fontSize: '12px', padding: '6px 12px' }}
+                  >
+                    CSV
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    disabled={!menuEngineering?.items.length}
+                    onClick={() => menuEngineering && exportMenuEngineeringExcel(menuEngineering, meExportMeta).catch((e) => alert(e?.message ?? 'Export failed'))}
+                    style={{ fontSize: '12px', padding: '6px 12px' }}
+                  >
+                    Excel
+                  </Button>
+                </div>
+              </div>
+
+              {!menuEngineering?.items.length ? (
+                <div className="gc-hint" style={{ fontSize: '12px' }}>
+                  No menu sales in this period.{' '}
+                  <span style={{ fontWeight: 700, color: 'var(--gc-brand-olive)', cursor: 'pointer' }} onClick={() => nav('/sales')}>
+                    Import POS sales or enter volumes
+                  </span>{' '}
+                  to classify your menu.
+                </div>
+              ) : (
+                <>
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '8px' }}>
+                    {(['star', 'plowhorse', 'puzzle', 'dog'] as MenuQuadrant[]).map((q) => (
+                      <div key={q} className="gc-card-soft" style={{ padding: '8px' }} title={MENU_QUADRANT_HINTS[q]}>
+                        <div className="gc-hint" style={{ fontWeight: 600, fontSize: '9px', marginBottom: '2px' }}>{MENU_QUADRANT_LABELS[q].toUpperCase()}S</div>
+                        <div style={{ fontSize: '18px', fontWeight: 800, color: MENU_QUADRANT_COLORS[q] }}>{quadrantCounts[q]}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="gc-hint" style={{ marginTop: '6px', fontSize: '10px' }}>
+                    {menuEngineering.totalSold} portions · average CM {money(menuEngineering.avgMargin)} · popular from {(menuEngineering.popularityThreshold * 100).toFixed(1)}% of mix
+                  </div>
+                  <MenuEngineeringChart data={menuEngineering} money={(n) => money(n)} />
+                  <div className="gc-data-table-wrap" style={{ maxHeight: '240px', overflowY: 'auto' }}>
+                    <table className="gc-data-table" style={{ fontSize: '12px' }}>
+                      <thead>
+                        <tr>
+                          <th style={{ fontSize: '10px', padding: '6px' }}>Recipe</th>
+                          <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Sold</th>
+                          <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Food cost %</th>
+                          <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>CM</th>
+                          <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Total CM</th>
+                          <th style={{ fontSize: '10px', padding: '6px' }}>Class</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {menuEngineering.items.map((x) => (
+                          <tr key={x.recipeId} style={{ cursor: 'pointer' }} onClick={() => nav(`/recipe?id=${encodeURIComponent(x.recipeId)}`)}>
+                            <td style={{ fontSize: '11px', fontWeight: 500, padding: '6px' }}>{x.name.length > 28 ? x.name.substring(0, 25) + '...' : x.name}</td>
+                            <td className="gc-td-right" style={{ fontSize: '11px', padding: '6px' }}>{x.sold}</td>
+                            <td className="gc-td-right" style={{ fontSize: '11px', padding: '6px' }}>{x.foodCostPct == null ? '—' : `${x.foodCostPct.toFixed(1)}%`}</td>
+                            <td className="gc-td-right" style={{ fontSize: '11px', padding: '6px' }}>{money(x.margin)}</td>
+                            <td className="gc-td-right" style={{ fontSize: '11px', fontWeight: 600, color: 'var(--gc-brand-olive)', padding: '6px' }}>{money(x.totalMargin)}</td>
+                            <td style={{ fontSize: '11px', fontWeight: 700, color: MENU_QUADRANT_COLORS[x.quadrant], padding: '6px' }} title={MENU_QUADRANT_HINTS[x.quadrant]}>
+                              {MENU_QUADRANT_LABELS[x.quadrant]}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+
           {/* Top 5 Table */}
           <motion.div variants={itemVariants} className="gc-card" style={{ marginTop: '16px', padding: '12px' }}>
             <div className="gc-card-body" style={{ padding: 0 }}>
-              <div className="gc-label" style={{ fontSize: '10px', marginBottom: '8px' }}>🏆 TOP 5 RECIPES</div>
+              <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: '8px', marginBottom: '8px', flexWrap: 'wrap' }}>
+                <div className="gc-label" style={{ fontSize: '10px' }}>🏆 TOP 5 RECIPES</div>
+                {avgPlate && (
+                  <div className="gc-hint" style={{ fontSize: '10px' }}>
+                    Avg per portion · food {money(avgPlate.food)} · prime {money(avgPlate.prime)} · plate {money(avgPlate.plate)}
+                  </div>
+                )}
+              </div>
               <div className="gc-data-table-wrap" style={{ maxHeight: '200px', overflowY: 'auto' }}>
                 <table className="gc-data-table" style={{ fontSize: '12px' }}>
                   <thead>
                     <tr>
                       <th style={{ fontSize: '10px', padding: '6px' }}>Recipe</th>
                       <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Total</th>
-                      <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Cost/Portion</th>
+                      <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Food/Portion</th>
+                      <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Prime/Portion</th>
+                      <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Plate/Portion</th>
+                      <th className="gc-th-right" style={{ fontSize: '10px', padding: '6px' }}>Plate %</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -731,6 +916,9 @@ export default function Dashboard() {
                         </td>
                         <td className="gc-td-right" style={{ fontSize: '11px', fontWeight: 600, color: 'var(--gc-brand-olive)', padding: '6px' }}>{money(x.total)}</td>
                         <td className="gc-td-right" style={{ fontSize: '11px', padding: '6px' }}>{money(x.cpp)}</td>
+                        <td className="gc-td-right" style={{ fontSize: '11px', padding: '6px' }}>{money(x.primePP)}</td>
+                        <td className="gc-td-right" style={{ fontSize: '11px', fontWeight: 600, padding: '6px' }}>{money(x.platePP)}</td>
+                        <td className="gc-td-right" style={{ fontSize: '11px', padding: '6px' }}>{x.platePct != null ? `${x.platePct.toFixed(1)}%` : '—'}</td>
                       </motion.tr>
                     ))}
                   </tbody>
@@ -1,13 +1,26 @@
 // src/pages/Ingredients.tsx
 import { memo, type ReactNode, useDeferredValue, useEffect, useMemo, useState, useCallback, useRef } from 'react'
-import { useLocation } from 'react-router-dom'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { supabase } from '../lib/supabase'
 import { invalidateIngredientsCache, primeIngredientsCache } from '../lib/ingredientsCache'
+import { tryRecordIngredientCostChanges, type IngredientCostChange } from '../lib/costHistory'
 import { Toast } from '../components/Toast'
 import { Skeleton } from '../components/Skeleton'
 import { useKitchen } from '../lib/kitchen'
 import { motion, AnimatePresence } from 'framer-motion'
 import { displayCode } from '../lib/codes'
+import { loadCostingLines, type CostingLine } from '../lib/recipeCosting'
+import { buildRecipeGraph, whereUsedIngredient } from '../lib/recipeGraph'
+import WhereUsedPanel from '../components/recipe/WhereUsedPanel'
+import PriceImpactReport from '../components/cost/PriceImpactReport'
+import SupplierOffersPanel from '../components/cost/SupplierOffersPanel'
+import SupplierComparison from '../components/cost/SupplierComparison'
+import IngredientImportWizard from '../components/ingredients/IngredientImportWizard'
+import PriceListUpdate from '../components/ingredients/PriceListUpdate'
+import { computePriceImpact, type ImpactRecipe, type PriceImpactRow } from '../lib/priceImpact'
+import { addCustomAllergen, EU_ALLERGENS, listAllergenDefs, type AllergenDef } from '../lib/allergens'
+import { listOffers, listSuppliers, type Supplier, type SupplierOffer } from '../lib/suppliers'
+import { indexStockLevels, listLocations, listStockLevels, type StockLevel, type StockLocation } from '../lib/inventory'
 
 type IngredientRow = {
   id: string
@@ -22,6 +35,15 @@ type IngredientRow = {
   net_unit_cost?: number | null
   is_active?: boolean
   kitchen_id?: string
+  density_g_per_ml?: number | null
+  grams_per_piece?: number | null
+  par_level?: number | null
+  kcal_per_100g?: number | null
+  protein_per_100g?: number | null
+  carbs_per_100g?: number | null
+  fat_per_100g?: number | null
+  allergens?: string[] | null
+  may_contain?: string[] | null
 }
 
 function toNum(x: any, fallback = 0) {
@@ -42,6 +64,13 @@ function safeUnit(u: string) {
   return (u ?? '').trim().toLowerCase() || 'g'
 }
 
+function optNum(s: string) {
+  const t = (s ?? '').trim()
+  if (!t) return null
+  const n = Number(t)
+  return Number.isFinite(n) && n >= 0 ? n : null
+}
+
 function calcNetUnitCost(packPrice: number, packSize: number) {
   const ps = Math.max(1e-9, packSize)
   const pp = Math.max(0, packPrice)
@@ -162,11 +191,13 @@ function Modal({
   title,
   children,
   onClose,
+  wide,
 }: {
   open: boolean
   title: string
   children: ReactNode
   onClose: () => void
+  wide?: boolean
 }) {
   if (!open) return null
 
@@ -187,7 +218,7 @@ function Modal({
             onClick={onClose}
           />
           <motion.div
-            className="relative w-full max-w-lg mx-auto"
+            className={`relative w-full ${wide ? 'max-w-4xl' : 'max-w-lg'} mx-auto`}
             initial={{ scale: 0.95, opacity: 0, y: 10 }}
             animate={{ scale: 1, opacity: 1, y: 0 }}
             exit={{ scale: 0.95, opacity: 0, y: 10 }}
@@ -238,16 +269,63 @@ const FormField = ({
   </div>
 )
 
+// ==================== Allergen Picker ====================
+// Click cycles: none → contains → may contain → none
+const AllergenPicker = ({
+  defs,
+  contains,
+  mayContain,
+  onChange,
+}: {
+  defs: AllergenDef[]
+  contains: string[]
+  mayContain: string[]
+  onChange: (contains: string[], mayContain: string[]) => void
+}) => (
+  <div className="flex flex-wrap gap-1.5">
+    {defs.map((d) => {
+      const level = contains.includes(d.code) ? 'contains' : mayContain.includes(d.code) ? 'may' : 'none'
+      const cycle = () => {
+        const c = contains.filter((x) => x !== d.code)
+        const m = mayContain.filter((x) => x !== d.code)
+        if (level === 'none') onChange([...c, d.code], m)
+        else if (level === 'contains') onChange(c, [...m, d.code])
+        else onChange(c, m)
+      }
+      return (
+        <button
+          key={d.code}
+          type="button"
+          onClick={cycle}
+          title={level === 'contains' ? 'Contains' : level === 'may' ? 'May contain' : 'Not present'}
+          className={cls(
+            'px-2.5 py-1 text-[11px] rounded-full border transition-all',
+            level === 'contains' && 'bg-red-600 text-white border-red-600',
+            level === 'may' && 'bg-amber-50 text-amber-700 border-amber-300 border-dashed dark:bg-amber-950/30 dark:text-amber-400',
+            level === 'none' && 'bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:border-gray-300'
+          )}
+        >
+          {level === 'may' ? `${d.label}?` : d.label}
+        </button>
+      )
+    })}
+  </div>
+)
+
 // ==================== Table Row Component ====================
 const IngredientTableRow = memo(function IngredientTableRow({
   ingredient,
   isDebug,
+  onHand,
+  onHandTitle,
   onEdit,
   onDeactivate,
   onHardDelete,
 }: {
   ingredient: IngredientRow
   isDebug: boolean
+  onHand: number | null
+  onHandTitle: string
   onEdit: (ingredient: IngredientRow) => void
   onDeactivate: (id: string) => void
   onHardDelete: (id: string) => void
@@ -324,6 +402,18 @@ const IngredientTableRow = memo(function IngredientTableRow({
       <td className="px-4 py-3">
         <PriceDisplay amount={net} unit={unit} />
        </td>
+      <td className="px-4 py-3 text-right" title={onHandTitle}>
+        {onHand == null ? (
+          <span className="text-sm text-gray-400">—</span>
+        ) : (
+          <>
+            <div className={cls('text-sm font-mono', onHand < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white')}>
+              {Math.round(onHand * 1000) / 1000} {unit}
+            </div>
+            <div className="text-[10px] text-gray-400 dark:text-gray-500">{money(onHand * net)}</div>
+          </>
+        )}
+       </td>
       <td className="px-4 py-3">
         <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
           <button
@@ -484,6 +574,7 @@ export default function Ingredients() {
   const [search, setSearch] = useState('')
   const [searchCode, setSearchCode] = useState('')
   const loc = useLocation()
+  const navigate = useNavigate()
 
   // One-time search prefill from Command Palette
   useEffect(() => {
@@ -501,6 +592,12 @@ export default function Ingredients() {
   const [category, setCategory] = useState('')
   const [showInactive, setShowInactive] = useState(false)
   const [sortBy, setSortBy] = useState<'name' | 'cost' | 'pack_price'>('name')
+  const [view, setView] = useState<'list' | 'compare'>('list')
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [allOffers, setAllOffers] = useState<SupplierOffer[]>([])
+  const [offersLoading, setOffersLoading] = useState(false)
+  const [stockLevels, setStockLevels] = useState<StockLevel[]>([])
+  const [locations, setLocations] = useState<StockLocation[]>([])
 
   const [kitchenId, setKitchenId] = useState<string | null>(null)
 
@@ -514,6 +611,8 @@ export default function Ingredients() {
 
   // Modal state
   const [modalOpen, setModalOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [priceListOpen, setPriceListOpen] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
 
   const [fCode, setFCode] = useState('')
@@ -527,10 +626,29 @@ export default function Ingredients() {
   const [fPackPrice, setFPackPrice] = useState('0')
   const [fPackUnit, setFPackUnit] = useState('g')
   const [fNetUnitCost, setFNetUnitCost] = useState('0')
+  const [fKcal, setFKcal] = useState('')
+  const [fProtein, setFProtein] = useState('')
+  const [fCarbs, setFCarbs] = useState('')
+  const [fFat, setFFat] = useState('')
+  const [fDensity, setFDensity] = useState('')
+  const [fGramsPerPiece, setFGramsPerPiece] = useState('')
+  const [fParLevel, setFParLevel] = useState('')
+  const [fAllergens, setFAllergens] = useState<string[]>([])
+  const [fMayContain, setFMayContain] = useState<string[]>([])
+  const [allergenDefs, setAllergenDefs] = useState<AllergenDef[]>(EU_ALLERGENS)
+  const [newAllergen, setNewAllergen] = useState('')
 
   const [saving, setSaving] = useState(false)
   const [bulkWorking, setBulkWorking] = useState(false)
 
+  // Where-used data is only needed once an ingredient is opened for editing
+  const [usageLines, setUsageLines] = useState<CostingLine[]>([])
+  const [usageRecipes, setUsageRecipes] = useState<ImpactRecipe[]>([])
+  const [usageLoading, setUsageLoading] = useState(false)
+
+  // Bulk price changes wait here for review before they are written
+  const [bulkImpact, setBulkImpact] = useState<{ changes: Array<{ id: string; net: number }>; rows: PriceImpactRow[] } | null>(null)
+
   const progressiveRunRef = useRef<number>(0)
 
   const loadKitchen = async () => {
@@ -545,7 +663,7 @@ export default function Ingredients() {
   }
 
   const FIELDS =
-    'id,code,code_category,name,category,supplier,pack_size,pack_price,pack_unit,net_unit_cost,is_active'
+    'id,code,code_category,name,category,supplier,pack_size,pack_price,pack_unit,net_unit_cost,is_active,density_g_per_ml,grams_per_piece,par_level,kcal_per_100g,protein_per_100g,carbs_per_100g,fat_per_100g,allergens,may_contain'
 
   const PAGE_SIZE = 200
 
@@ -667,6 +785,15 @@ export default function Ingredients() {
     setFPackPrice('0')
     setFPackUnit('g')
     setFNetUnitCost('0')
+    setFKcal('')
+    setFProtein('')
+    setFCarbs('')
+    setFFat('')
+    setFDensity('')
+    setFGramsPerPiece('')
+    setFParLevel('')
+    setFAllergens([])
+    setFMayContain([])
     setModalOpen(true)
   }
 
@@ -682,9 +809,147 @@ export default function Ingredients() {
     setFPackPrice(String(Math.max(0, toNum(r.pack_price, 0))))
     setFPackUnit(r.pack_unit ?? 'g')
     setFNetUnitCost(String(Math.max(0, toNum(r.net_unit_cost, 0))))
+    setFKcal(r.kcal_per_100g != null ? String(r.kcal_per_100g) : '')
+    setFProtein(r.protein_per_100g != null ? String(r.protein_per_100g) : '')
+    setFCarbs(r.carbs_per_100g != null ? String(r.carbs_per_100g) : '')
+    setFFat(r.fat_per_100g != null ? String(r.fat_per_100g) : '')
+    setFDensity(r.density_g_per_ml != null ? String(r.density_g_per_ml) : '')
+    setFGramsPerPiece(r.grams_per_piece != null ? String(r.grams_per_piece) : '')
+    setFParLevel(r.par_level != null ? String(r.par_level) : '')
+    setFAllergens(r.allergens ?? [])
+    setFMayContain(r.may_contain ?? [])
     setModalOpen(true)
+    loadUsage().catch(() => {})
+  }
+
+  const loadUsage = useCallback(async () => {
+    setUsageLoading(true)
+    try {
+      const [lines, { data: rec, error }] = await Promise.all([
+        loadCostingLines(),
+        supabase.from('recipes').select('id,name,code,portions,yield_qty,yield_unit,selling_price,is_subrecipe,target_food_cost_pct,currency'),
+      ])
+      if (error) throw error
+      const recipes = (rec ?? []) as ImpactRecipe[]
+      setUsageLines(lines)
+      setUsageRecipes(recipes)
+      return { lines, recipes }
+    } catch (e: any) {
+      showToast(e?.message || 'Failed to load recipe usage')
+      return null
+    } finally {
+      setUsageLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    listAllergenDefs()
+      .then(setAllergenDefs)
+      .catch(() => {})
+    listSuppliers()
+      .then(setSuppliers)
+      .catch(() => {})
+    listLocations()
+      .then(setLocations)
+      .catch(() => {})
+  }, [])
+
+  // Stock moves outside this page (receiving, counts); refresh whenever the editor closes.
+  useEffect(() => {
+    if (modalOpen) return
+    let alive = true
+    listStockLevels()
+      .then((l) => alive && setStockLevels(l))
+      .catch(() => {})
+    return () => {
+      alive = false
+    }
+  }, [modalOpen])
+
+  const stockIndex = useMemo(() => indexStockLevels(stockLevels), [stockLevels])
+  const locationName = useCallback((id: string) => locations.find((l) => l.id === id)?.name ?? 'Location', [locations])
+  const onHandOf = useCallback(
+    (id: string) => {
+      const byLoc = stockIndex.get(id)
+      if (!byLoc) return { qty: null, title: '' }
+      let qty = 0
+      const parts: string[] = []
+      for (const [loc, q] of byLoc) {
+        qty += q
+        parts.push(`${locationName(loc)}: ${Math.round(q * 1000) / 1000}`)
+      }
+      return { qty, title: parts.join('\n') }
+    },
+    [stockIndex, locationName]
+  )
+  const editingStock = useMemo(() => {
+    const byLoc = editingId ? stockIndex.get(editingId) : undefined
+    return byLoc ? [...byLoc].map(([loc, qty]) => ({ loc, name: locationName(loc), qty })).sort((a, b) => a.name.localeCompare(b.name)) : []
+  }, [editingId, stockIndex, locationName])
+
+  // Reloaded when the editor closes, so offers changed there show up in the comparison.
+  useEffect(() => {
+    if (view !== 'compare' || modalOpen) return
+    let alive = true
+    setOffersLoading(true)
+    listOffers()
+      .then((o) => alive && setAllOffers(o))
+      .catch((e: any) => alive && showToast(e?.message || 'Failed to load supplier offers'))
+      .finally(() => alive && setOffersLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [view, modalOpen])
+
+  const editProfile = useMemo(() => ({ density_g_per_ml: optNum(fDensity), grams_per_piece: optNum(fGramsPerPiece) }), [fDensity, fGramsPerPiece])
+
+  // The preferred offer rewrites the ingredient's pack on the server; pull it back into the form.
+  const syncPreferredOffer = useCallback(async () => {
+    if (!editingId) return
+    const { data, error } = await supabase.from('ingredients').select(FIELDS).eq('id', editingId).single()
+    if (error) return showToast(error.message)
+    const r = data as IngredientRow
+    setFSupplier(r.supplier ?? '')
+    setFPackSize(String(Math.max(1, toNum(r.pack_size, 1))))
+    setFPackPrice(String(Math.max(0, toNum(r.pack_price, 0))))
+    setFPackUnit(r.pack_unit ?? 'g')
+    setFNetUnitCost(String(Math.max(0, toNum(r.net_unit_cost, 0))))
+    setRows((prev) => prev.map((x) => (x.id === r.id ? { ...x, ...r } : x)))
+    showToast('Preferred offer applied')
+  }, [editingId])
+
+  const createCustomAllergen = async () => {
+    try {
+      const def = await addCustomAllergen(newAllergen)
+      setAllergenDefs((prev) => (prev.some((d) => d.code === def.code) ? prev : [...prev, def]))
+      setFAllergens((prev) => (prev.includes(def.code) ? prev : [...prev, def.code]))
+      setNewAllergen('')
+    } catch (e: any) {
+      showToast(e?.message || 'Could not add allergen')
+    }
   }
 
+  const usageGraph = useMemo(() => buildRecipeGraph(usageLines), [usageLines])
+  const usageRecipeById = useMemo(() => new Map(usageRecipes.map((r) => [r.id, r])), [usageRecipes])
+  const editingWhereUsed = useMemo(() => (editingId ? whereUsedIngredient(usageGraph, editingId) : []), [usageGraph, editingId])
+
+  // The unit cost a save would write. A changed pack price/size wins over the stored unit price.
+  const pendingNetUnitCost = useMemo(() => {
+    const packSize = Math.max(1, toNum(fPackSize, 1))
+    const packPrice = Math.max(0, toNum(fPackPrice, 0))
+    const orig = editingId ? rows.find((r) => r.id === editingId) : null
+    if (orig && (toNum(orig.pack_size, 1) !== packSize || toNum(orig.pack_price, 0) !== packPrice)) return calcNetUnitCost(packPrice, packSize)
+    const net = Math.max(0, toNum(fNetUnitCost, 0))
+    return net > 0 ? net : calcNetUnitCost(packPrice, packSize)
+  }, [fPackSize, fPackPrice, fNetUnitCost, editingId, rows])
+
+  const editImpact = useMemo(() => {
+    if (!editingId || !usageLines.length) return null
+    const orig = rows.find((r) => r.id === editingId)
+    if (!orig || Math.abs(toNum(orig.net_unit_cost, 0) - pendingNetUnitCost) < 1e-9) return null
+    return computePriceImpact({ ingredients: rows, recipes: usageRecipes, lines: usageLines, changes: new Map([[editingId, pendingNetUnitCost]]) })
+  }, [editingId, usageLines, usageRecipes, rows, pendingNetUnitCost])
+
   const smartRecalcNetCost = () => {
     const ps = Math.max(1, toNum(fPackSize, 1))
     const pp = Math.max(0, toNum(fPackPrice, 0))
@@ -712,8 +977,14 @@ export default function Ingredients() {
     const packSize = Math.max(1, toNum(fPackSize, 1))
     const packPrice = Math.max(0, toNum(fPackPrice, 0))
     const unit = safeUnit(fPackUnit || 'g')
-    const net = Math.max(0, toNum(fNetUnitCost, 0))
-    const netFinal = net > 0 ? net : calcNetUnitCost(packPrice, packSize)
+    const netFinal = pendingNetUnitCost
+
+    const crossing = (editImpact ?? []).filter((r) => r.crossesTarget)
+    if (crossing.length) {
+      const names = crossing.slice(0, 5).map((r) => r.name).join(', ')
+      const ok = window.confirm(`${crossing.length} recipe(s) will go over their target food cost (${names}${crossing.length > 5 ? ', …' : ''}). Save anyway?`)
+      if (!ok) return
+    }
 
     setSaving(true)
     try {
@@ -728,18 +999,36 @@ export default function Ingredients() {
         pack_unit: unit,
         net_unit_cost: netFinal,
         is_active: true,
+        kcal_per_100g: optNum(fKcal),
+        protein_per_100g: optNum(fProtein),
+        carbs_per_100g: optNum(fCarbs),
+        fat_per_100g: optNum(fFat),
+        density_g_per_ml: optNum(fDensity) || null,
+        grams_per_piece: optNum(fGramsPerPiece) || null,
+        par_level: optNum(fParLevel) || null,
+        allergens: fAllergens,
+        may_contain: fMayContain.filter((a) => !fAllergens.includes(a)),
       }
 
       if (kitchenId) payload.kitchen_id = kitchenId
 
       if (editingId) {
-        let { error } = await supabase.from('ingredients').update(payload).eq('id', editingId)
+        const before = rows.find((r) => r.id === editingId)?.net_unit_cost
+        const update = () => supabase.from('ingredients').update(payload).eq('id', editingId).select('net_unit_cost').single()
+        let { data, error } = await update()
         if (error && String(error.message || '').includes('column "kitchen_id" does not exist')) {
           delete payload.kitchen_id
-          ;({ error } = await supabase.from('ingredients').update(payload).eq('id', editingId))
+          ;({ data, error } = await update())
         }
         if (error) throw error
-        showToast('Ingredient updated')
+        const h = await tryRecordIngredientCostChanges([{ id: editingId, before, after: (data as any)?.net_unit_cost }])
+        showToast(
+          h.error
+            ? `Ingredient updated · cost history not recorded: ${h.error}`
+            : h.points
+              ? `Ingredient updated · ${h.points} recipe cost${h.points === 1 ? '' : 's'} recorded`
+              : 'Ingredient updated'
+        )
       } else {
         let { error } = await supabase.from('ingredients').insert(payload)
         if (error && String(error.message || '').includes('column "kitchen_id" does not exist')) {
@@ -795,24 +1084,46 @@ export default function Ingredients() {
     await load()
   }
 
+  /** Preview first: nothing is written until the impact report is confirmed. */
   const bulkRecalcNetCosts = async () => {
     if (filtered.length === 0) return
-    const ok = window.confirm(`Recalculate unit costs for ${filtered.length} filtered items?`)
-    if (!ok) return
+
+    const changes = filtered
+      .map((r) => ({ id: r.id, net: calcNetUnitCost(Math.max(0, toNum(r.pack_price, 0)), Math.max(1, toNum(r.pack_size, 1))) }))
+      .filter((c) => Math.abs(c.net - toNum(rows.find((r) => r.id === c.id)?.net_unit_cost, 0)) > 1e-9)
+    if (!changes.length) return showToast('Unit costs are already up to date')
 
     setBulkWorking(true)
     try {
-      for (const r of filtered) {
-        const ps = Math.max(1, toNum(r.pack_size, 1))
-        const pp = Math.max(0, toNum(r.pack_price, 0))
-        const net = calcNetUnitCost(pp, ps)
+      const usage = await loadUsage()
+      if (!usage) return
+      const impact = computePriceImpact({
+        ingredients: rows,
+        recipes: usage.recipes,
+        lines: usage.lines,
+        changes: new Map(changes.map((c) => [c.id, c.net])),
+      })
+      setBulkImpact({ changes, rows: impact })
+    } finally {
+      setBulkWorking(false)
+    }
+  }
 
-        const { error } = await supabase.from('ingredients').update({ net_unit_cost: net }).eq('id', r.id)
+  const applyBulkImpact = async () => {
+    if (!bulkImpact) return
+    setBulkWorking(true)
+    const changes: IngredientCostChange[] = []
+    try {
+      for (const c of bulkImpact.changes) {
+        const { data, error } = await supabase.from('ingredients').update({ net_unit_cost: c.net }).eq('id', c.id).select('net_unit_cost').single()
         if (error) throw error
+        changes.push({ id: c.id, before: rows.find((r) => r.id === c.id)?.net_unit_cost, after: (data as any)?.net_unit_cost })
       }
 
       invalidateIngredientsCache()
-      showToast('Bulk recalculation done')
+      const h = await tryRecordIngredientCostChanges(changes)
+      setBulkImpact(null)
+      showToast(`Updated ${changes.length} unit cost${changes.length === 1 ? '' : 's'}${h.error ? ` · cost history not recorded: ${h.error}` : ''}`)
       await load()
     } catch (e: any) {
       showToast(e?.message ?? 'Bulk recalculation failed')
@@ -901,6 +1212,22 @@ export default function Ingredients() {
               <Icons.plus />
               New ingredient
             </button>
+            {k.canEdit && (
+              <button
+                className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                onClick={() => setImportOpen(true)}
+              >
+                Import CSV / Excel
+              </button>
+            )}
+            {k.canEdit && (
+              <button
+                className="px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                onClick={() => setPriceListOpen(true)}
+              >
+                Update prices
+              </button>
+            )}
 
             {hasFilteredItems && (
               <>
@@ -1007,6 +1334,25 @@ export default function Ingredients() {
             <option value="pack_price">Sort by pack price</option>
           </select>
 
+          {/* View */}
+          <div className="inline-flex rounded-xl border border-gray-200 dark:border-gray-800 overflow-hidden text-sm">
+            {([['list', 'List'], ['compare', 'Compare suppliers']] as const).map(([v, label]) => (
+              <button
+                key={v}
+                type="button"
+                className={cls(
+                  'px-3 py-2.5 transition-colors',
+                  view === v
+                    ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400'
+                    : 'bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                )}
+                onClick={() => setView(v)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           {/* Show Inactive Toggle */}
           <button
             className={cls(
@@ -1081,6 +1427,12 @@ export default function Ingredients() {
           <motion.div variants={itemVariants}>
             {filtered.length === 0 ? (
               <EmptyState onAdd={openCreate} hasFilters={hasActiveFilters || !showInactive} />
+            ) : view === 'compare' ? (
+              offersLoading ? (
+                <LoadingState />
+              ) : (
+                <SupplierComparison ingredients={filtered} offers={allOffers} suppliers={suppliers} onOpen={openEdit} />
+              )
             ) : (
               <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 overflow-hidden">
                 <div className="overflow-x-auto">
@@ -1094,21 +1446,27 @@ export default function Ingredients() {
                         <th className="px-4 py-3 text-center text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Unit</th>
                         <th className="px-4 py-3 text-right text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Pack Price</th>
                         <th className="px-4 py-3 text-right text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Unit Price</th>
+                        <th className="px-4 py-3 text-right text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">On Hand</th>
                         <th className="px-4 py-3 text-right text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Actions</th>
                        </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
                       <AnimatePresence>
-                        {filtered.map((r) => (
-                          <IngredientTableRow
-                            key={r.id}
-                            ingredient={r}
-                            isDebug={isDebug}
-                            onEdit={openEdit}
-                            onDeactivate={deactivate}
-                            onHardDelete={hardDelete}
-                          />
-                        ))}
+                        {filtered.map((r) => {
+                          const stock = onHandOf(r.id)
+                          return (
+                            <IngredientTableRow
+                              key={r.id}
+                              ingredient={r}
+                              isDebug={isDebug}
+                              onHand={stock.qty}
+                              onHandTitle={stock.title}
+                              onEdit={openEdit}
+                              onDeactivate={deactivate}
+                              onHardDelete={hardDelete}
+                            />
+                          )
+                        })}
                       </AnimatePresence>
                     </tbody>
                    </table>
@@ -1268,6 +1626,34 @@ export default function Ingredients() {
                 </FormField>
               </div>
 
+              <FormField label="Par level" hint={`stock to hold, in ${fPackUnit}`}>
+                <input
+                  className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 transition-all font-mono"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={fParLevel}
+                  onChange={(e) => setFParLevel(e.target.value)}
+                  placeholder="—"
+                />
+              </FormField>
+
+              {editingId && editingStock.length > 0 && (
+                <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div className="text-[10px] font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Stock on hand</div>
+                  <div className="space-y-1">
+                    {editingStock.map((s) => (
+                      <div key={s.loc} className="flex items-center justify-between text-xs">
+                        <span className="text-gray-700 dark:text-gray-300">{s.name}</span>
+                        <span className="font-mono text-gray-900 dark:text-gray-100">
+                          {Math.round(s.qty * 1000) / 1000} {fPackUnit} · {money(s.qty * toNum(fNetUnitCost, 0))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Calculation Preview */}
               {parseFloat(fPackPrice) > 0 && parseFloat(fPackSize) > 0 && (
                 <div className="p-3 bg-blue-50 dark:bg-blue-950/30 rounded-lg border border-blue-100 dark:border-blue-800">
@@ -1288,6 +1674,160 @@ export default function Ingredients() {
               )}
             </div>
 
+            {/* Nutrition & Conversion */}
+            <div className="space-y-4">
+              <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Nutrition per 100 g</h3>
+              <div className="grid grid-cols-4 gap-3">
+                <FormField label="kcal">
+                  <input
+                    className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 transition-all font-mono"
+                    type="number"
+                    min={0}
+                    step="1"
+                    value={fKcal}
+                    onChange={(e) => setFKcal(e.target.value)}
+                    placeholder="—"
+                  />
+                </FormField>
+                <FormField label="Protein" hint="g">
+                  <input
+                    className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 transition-all font-mono"
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    value={fProtein}
+                    onChange={(e) => setFProtein(e.target.value)}
+                    placeholder="—"
+                  />
+                </FormField>
+                <FormField label="Carbs" hint="g">
+                  <input
+                    className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 transition-all font-mono"
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    value={fCarbs}
+                    onChange={(e) => setFCarbs(e.target.value)}
+                    placeholder="—"
+                  />
+                </FormField>
+                <FormField label="Fat" hint="g">
+                  <input
+                    className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 transition-all font-mono"
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    value={fFat}
+                    onChange={(e) => setFFat(e.target.value)}
+                    placeholder="—"
+                  />
+                </FormField>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField label="Density" hint="g per ml">
+                  <input
+                    className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 transition-all font-mono"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={fDensity}
+                    onChange={(e) => setFDensity(e.target.value)}
+                    placeholder="—"
+                  />
+                </FormField>
+                <FormField label="Piece weight" hint="g per pcs">
+                  <input
+                    className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 transition-all font-mono"
+                    type="number"
+                    min={0}
+                    step="1"
+                    value={fGramsPerPiece}
+                    onChange={(e) => setFGramsPerPiece(e.target.value)}
+                    placeholder="—"
+                  />
+                </FormField>
+              </div>
+              <p className="text-[11px] text-gray-400 dark:text-gray-500">
+                Density converts ml/l/cups to grams, piece weight converts pcs. Used for costing and recipe nutrition.
+              </p>
+            </div>
+
+            {/* Allergens */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Allergens</h3>
+                <span className="text-[10px] text-gray-400 dark:text-gray-500">click: contains → may contain → none</span>
+              </div>
+              <AllergenPicker
+                defs={allergenDefs}
+                contains={fAllergens}
+                mayContain={fMayContain}
+                onChange={(c, m) => {
+                  setFAllergens(c)
+                  setFMayContain(m)
+                }}
+              />
+              <div className="flex gap-2">
+                <input
+                  className="flex-1 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-xs text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  value={newAllergen}
+                  onChange={(e) => setNewAllergen(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && newAllergen.trim() && createCustomAllergen()}
+                  placeholder="Custom allergen (e.g. Garlic)"
+                />
+                <button
+                  type="button"
+                  className="px-3 py-2 text-xs rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-40"
+                  onClick={createCustomAllergen}
+                  disabled={!newAllergen.trim()}
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+
+            {/* Supplier offers */}
+            {editingId && (
+              <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300">Supplier offers</div>
+                <SupplierOffersPanel
+                  ingredientId={editingId}
+                  packUnit={fPackUnit}
+                  profile={editProfile}
+                  suppliers={suppliers}
+                  onPreferredChanged={() => syncPreferredOffer().catch(() => {})}
+                  onError={showToast}
+                />
+              </div>
+            )}
+
+            {/* Price impact */}
+            {editImpact && (
+              <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                  Price impact · {money(toNum(rows.find((r) => r.id === editingId)?.net_unit_cost, 0))} → {money(pendingNetUnitCost)} /{fPackUnit}
+                </div>
+                <PriceImpactReport rows={editImpact} maxRows={12} />
+              </div>
+            )}
+
+            {/* Where used */}
+            {editingId && (
+              <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300">Where used</div>
+                {usageLoading ? (
+                  <Skeleton className="h-10 w-full" />
+                ) : (
+                  <WhereUsedPanel
+                    entries={editingWhereUsed}
+                    recipeById={usageRecipeById}
+                    itemName={fName || 'This ingredient'}
+                    onOpenRecipe={(rid) => navigate(`/recipe?id=${encodeURIComponent(rid)}`)}
+                  />
+                )}
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex justify-end gap-2 pt-4 border-t border-gray-200 dark:border-gray-800">
               <button
@@ -1307,6 +1847,62 @@ export default function Ingredients() {
           </div>
         </Modal>
 
+        <Modal open={!!bulkImpact} title="Review unit cost changes" onClose={() => !bulkWorking && setBulkImpact(null)}>
+          {bulkImpact && (
+            <div className="space-y-4">
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                {bulkImpact.changes.length} ingredient{bulkImpact.changes.length === 1 ? '' : 's'} will get a new unit cost (pack price ÷ pack size).
+              </div>
+              <PriceImpactReport rows={bulkImpact.rows} onOpenRecipe={(rid) => navigate(`/recipe?id=${encodeURIComponent(rid)}`)} />
+              <div className="flex justify-end gap-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+                <button
+                  className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                  onClick={() => setBulkImpact(null)}
+                  disabled={bulkWorking}
+                >
+                  Cancel
+                </button>
+                <button
+                  className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors shadow-sm shadow-blue-600/20 disabled:opacity-40"
+                  onClick={applyBulkImpact}
+                  disabled={bulkWorking}
+                >
+                  {bulkWorking ? 'Applying...' : `Apply ${bulkImpact.changes.length} change${bulkImpact.changes.length === 1 ? '' : 's'}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </Modal>
+
+        <Modal open={importOpen} title="Import ingredients" wide onClose={() => setImportOpen(false)}>
+          <IngredientImportWizard
+            kitchenId={kitchenId}
+            onClose={() => setImportOpen(false)}
+            onDone={(res) => {
+              invalidateIngredientsCache()
+              load()
+              showToast(
+                `Imported: ${res.created} new, ${res.updated} updated${res.failed ? `, ${res.failed} failed` : ''}${res.historyError ? ` · cost history not recorded: ${res.historyError}` : ''}`
+              )
+            }}
+          />
+        </Modal>
+
+        <Modal open={priceListOpen} title="Supplier price list" wide onClose={() => setPriceListOpen(false)}>
+          <PriceListUpdate
+            onClose={() => setPriceListOpen(false)}
+            onDone={(res) => {
+              invalidateIngredientsCache()
+              load()
+              showToast(
+                res.historyError
+                  ? `${res.applied} price${res.applied === 1 ? '' : 's'} updated · cost history not recorded: ${res.historyError}`
+                  : `${res.applied} price${res.applied === 1 ? '' : 's'} updated · ${res.costPoints} recipe cost point${res.costPoints === 1 ? '' : 's'} recorded`
+              )
+            }}
+          />
+        </Modal>
+
         <Toast open={toastOpen} message={toastMsg} onClose={() => setToastOpen(false)} />
       </div>
 
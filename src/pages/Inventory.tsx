@@ -0,0 +1,531 @@
+// src/pages/Inventory.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { displayCode } from '../lib/codes'
+import {
+  createCount,
+  deleteCount,
+  deleteLocation,
+  ensureDefaultLocation,
+  indexStockLevels,
+  listCounts,
+  listLocations,
+  listMovements,
+  listStockLevels,
+  MOVEMENT_KIND_LABELS,
+  postMovements,
+  saveLocation,
+  transferStock,
+  type MovementKind,
+  type StockCount,
+  type StockLocation,
+  type StockMovement,
+} from '../lib/inventory'
+
+type Tab = 'onhand' | 'movements' | 'counts' | 'locations'
+
+type IngredientRow = { id: string; code: string | null; name: string | null; pack_unit: string | null; net_unit_cost: number | null; is_active: boolean | null }
+
+type PrepRow = { id: string; name: string | null; yield_unit: string | null }
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+const TABS: Array<[Tab, string]> = [
+  ['onhand', 'On hand'],
+  ['movements', 'Movements'],
+  ['counts', 'Counts'],
+  ['locations', 'Locations'],
+]
+
+/** Manual movement kinds and the sign they apply to the entered quantity. */
+const MANUAL_KINDS: Array<[MovementKind, 1 | -1 | 0]> = [
+  ['receive', 1],
+  ['consume', -1],
+  ['waste', -1],
+  ['adjust', 0],
+  ['transfer', 0],
+]
+
+export default function Inventory() {
+  const nav = useNavigate()
+  const [sp, setSp] = useSearchParams()
+  const tab = (TABS.some(([t]) => t === sp.get('tab')) ? sp.get('tab') : 'onhand') as Tab
+  const setTab = (t: Tab) => setSp(t === 'onhand' ? {} : { tab: t }, { replace: true })
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([])
+  const [preps, setPreps] = useState<PrepRow[]>([])
+  const [locations, setLocations] = useState<StockLocation[]>([])
+  const [levels, setLevels] = useState<Map<string, Map<string, number>>>(new Map())
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [counts, setCounts] = useState<StockCount[]>([])
+
+  const [q, setQ] = useState('')
+  const [locFilter, setLocFilter] = useState('')
+  const [hideZero, setHideZero] = useState(true)
+
+  const [mv, setMv] = useState({ ingredientId: '', locationId: '', toLocationId: '', kind: 'receive' as MovementKind, qty: '', note: '' })
+  const [newLoc, setNewLoc] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const reload = async () => {
+    const [ing, rec, locs, lv, mvs, cs] = await Promise.all([
+      supabase.from('ingredients').select('id,code,name,pack_unit,net_unit_cost,is_active').order('name', { ascending: true }),
+      supabase.from('recipes').select('id,name,yield_unit').eq('is_subrecipe', true),
+      listLocations(),
+      listStockLevels(),
+      listMovements({ limit: 200 }),
+      listCounts(),
+    ])
+    if (ing.error) throw ing.error
+    if (rec.error) throw rec.error
+    setIngredients((ing.data ?? []) as IngredientRow[])
+    setPreps((rec.data ?? []) as PrepRow[])
+    setLocations(locs)
+    setLevels(indexStockLevels(lv))
+    setMovements(mvs)
+    setCounts(cs)
+  }
+
+  useEffect(() => {
+    let alive = true
+    reload()
+      .then(() => alive && setErr(null))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load inventory'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await fn()
+      await reload()
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Inventory update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const ingById = useMemo(() => new Map(ingredients.map((i) => [i.id, i])), [ingredients])
+  const prepById = useMemo(() => new Map(preps.map((r) => [r.id, r])), [preps])
+  const locById = useMemo(() => new Map(locations.map((l) => [l.id, l])), [locations])
+  const activeLocations = useMemo(() => locations.filter((l) => l.is_active), [locations])
+  const shownLocations = useMemo(() => (locFilter ? activeLocations.filter((l) => l.id === locFilter) : activeLocations), [activeLocations, locFilter])
+
+  const stockRows = useMemo(() => {
+    const s = q.trim().toLowerCase()
+    return ingredients
+      .map((i) => {
+        const per = levels.get(i.id) ?? new Map<string, number>()
+        const qty = shownLocations.reduce((sum, l) => sum + (per.get(l.id) ?? 0), 0)
+        const cost = Number(i.net_unit_cost) || 0
+        return { ing: i, per, qty, value: qty * cost }
+      })
+      .filter((r) => !hideZero || Math.abs(r.qty) > 1e-9)
+      .filter((r) => !s || (r.ing.name || '').toLowerCase().includes(s) || (r.ing.code || '').toLowerCase().includes(s))
+  }, [ingredients, levels, shownLocations, q, hideZero])
+
+  const totalValue = stockRows.reduce((s, r) => s + r.value, 0)
+
+  const submitMovement = () => {
+    const qty = Number(mv.qty)
+    if (!mv.ingredientId || !(Math.abs(qty) > 0)) return setErr('Pick an ingredient and enter a quantity')
+    run(async () => {
+      const locationId = mv.locationId || (await ensureDefaultLocation()).id
+      if (mv.kind === 'transfer') {
+        if (!mv.toLocationId) throw new Error('Pick the destination location')
+        await transferStock({ ingredientId: mv.ingredientId, fromLocationId: locationId, toLocationId: mv.toLocationId, qty, note: mv.note })
+      } else {
+        const sign = MANUAL_KINDS.find(([k]) => k === mv.kind)?.[1] ?? 0
+        await postMovements([
+          { ingredientId: mv.ingredientId, locationId, kind: mv.kind, qty: sign === 0 ? qty : sign * Math.abs(qty), sourceType: 'manual', note: mv.note },
+        ])
+      }
+      setMv((m) => ({ ...m, qty: '', note: '' }))
+    })
+  }
+
+  const startCount = (locationId: string) =>
+    run(async () => {
+      const id = await createCount(locationId)
+      nav(`/inventory/count?id=${encodeURIComponent(id)}`)
+    })
+
+  if (loading) return <div className="gc-card p-6">Loading inventory…</div>
+
+  const mvIng = ingById.get(mv.ingredientId)
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">INVENTORY</div>
+        <div className="mt-2 text-2xl font-extrabold">Stock on Hand</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Quantities are in each ingredient's pack unit and valued at its current unit cost. Receiving a purchase order or finishing a production batch books stock automatically.
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {TABS.map(([t, label]) => (
+            <button key={t} type="button" className={`gc-btn ${tab === t ? 'gc-btn-primary' : 'gc-btn-ghost'}`} onClick={() => setTab(t)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      {tab === 'onhand' && (
+        <div className="gc-card p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              <input className="gc-input" value={q} onChange={(e) => setQ(e.target.value)} placeholder="Search ingredient…" />
+              <select className="gc-input" value={locFilter} onChange={(e) => setLocFilter(e.target.value)}>
+                <option value="">All locations</option>
+                {activeLocations.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={hideZero} onChange={(e) => setHideZero(e.target.checked)} />
+                Hide zero stock
+              </label>
+            </div>
+            <div className="text-sm">
+              Stock value <span className="font-extrabold">{fmtMoney(totalValue, currency)}</span>
+            </div>
+          </div>
+
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                  <th className="py-2">Ingredient</th>
+                  {shownLocations.length > 1 && shownLocations.map((l) => <th key={l.id} className="text-right">{l.name}</th>)}
+                  <th className="text-right">On hand</th>
+                  <th className="text-right">Unit cost</th>
+                  <th className="text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stockRows.map((r) => (
+                  <tr key={r.ing.id} className="border-t border-neutral-200/60">
+                    <td className="py-2">
+                      <div className="font-semibold">{r.ing.name || 'Ingredient'}</div>
+                      <div className="font-mono text-xs text-neutral-500">{r.ing.code || displayCode('ING', r.ing.id)}</div>
+                    </td>
+                    {shownLocations.length > 1 &&
+                      shownLocations.map((l) => (
+                        <td key={l.id} className="text-right">
+                          {fmtQty(r.per.get(l.id) ?? 0)}
+                        </td>
+                      ))}
+                    <td className={`text-right font-semibold ${r.qty < 0 ? 'text-red-600' : ''}`}>
+                      {fmtQty(r.qty)} {r.ing.pack_unit || ''}
+                    </td>
+                    <td className="text-right">{fmtMoney(Number(r.ing.net_unit_cost) || 0, currency)}</td>
+                    <td className="text-right font-semibold">{fmtMoney(r.value, currency)}</td>
+                  </tr>
+                ))}
+                {!stockRows.length && (
+                  <tr>
+                    <td colSpan={shownLocations.length + 4} className="py-3 text-neutral-500">
+                      No stock recorded yet. Receive a purchase order, post a movement or run a count.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {tab === 'movements' && (
+        <>
+          <div className="gc-card p-6">
+            <div className="gc-label">NEW MOVEMENT</div>
+            <div className="mt-3 flex flex-wrap items-end gap-3">
+              <select className="gc-input" value={mv.kind} onChange={(e) => setMv({ ...mv, kind: e.target.value as MovementKind })}>
+                {MANUAL_KINDS.map(([k]) => (
+                  <option key={k} value={k}>
+                    {MOVEMENT_KIND_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+              <select className="gc-input min-w-[220px]" value={mv.ingredientId} onChange={(e) => setMv({ ...mv, ingredientId: e.target.value })}>
+                <option value="">Ingredient…</option>
+                {ingredients
+                  .filter((i) => i.is_active !== false)
+                  .map((i) => (
+                    <option key={i.id} value={i.id}>
+                      {i.name}
+                    </option>
+                  ))}
+              </select>
+              <select className="gc-input" value={mv.locationId} onChange={(e) => setMv({ ...mv, locationId: e.target.value })}>
+                <option value="">{mv.kind === 'transfer' ? 'From (default)' : 'Default location'}</option>
+                {activeLocations.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+              {mv.kind === 'transfer' && (
+                <select className="gc-input" value={mv.toLocationId} onChange={(e) => setMv({ ...mv, toLocationId: e.target.value })}>
+                  <option value="">To…</option>
+                  {activeLocations.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <label className="text-sm">
+                <div className="text-xs text-neutral-500 mb-1">
+                  Qty{mvIng?.pack_unit ? ` (${mvIng.pack_unit})` : ''}
+                  {mv.kind === 'adjust' ? ' · ± ' : ''}
+                </div>
+                <input className="gc-input w-28" type="number" step="any" value={mv.qty} onChange={(e) => setMv({ ...mv, qty: e.target.value })} />
+              </label>
+              <input className="gc-input" value={mv.note} onChange={(e) => setMv({ ...mv, note: e.target.value })} placeholder="Note" />
+              <button className="gc-btn gc-btn-primary" type="button" disabled={busy} onClick={submitMovement}>
+                Post
+              </button>
+            </div>
+          </div>
+
+          <div className="gc-card p-6">
+            <div className="gc-label">RECENT MOVEMENTS</div>
+            <table className="mt-3 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                  <th className="py-2">When</th>
+                  <th>Kind</th>
+                  <th>Item</th>
+                  <th>Location</th>
+                  <th className="text-right">Qty</th>
+                  <th className="text-right">Value</th>
+                  <th>Source</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.map((m) => {
+                  const ing = m.ingredient_id ? ingById.get(m.ingredient_id) : undefined
+                  const prep = m.recipe_id ? prepById.get(m.recipe_id) : undefined
+                  return (
+                    <tr key={m.id} className="border-t border-neutral-200/60">
+                      <td className="py-2">{new Date(m.created_at).toLocaleString()}</td>
+                      <td>{MOVEMENT_KIND_LABELS[m.kind]}</td>
+                      <td>{prep ? `PREP · ${prep.name || 'Recipe'}` : ing?.name || 'Ingredient'}</td>
+                      <td>{locById.get(m.location_id)?.name || '—'}</td>
+                      <td className={`text-right font-semibold ${m.qty < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                        {m.qty > 0 ? '+' : ''}
+                        {fmtQty(m.qty)} {(prep ? prep.yield_unit : ing?.pack_unit) || ''}
+                      </td>
+                      <td className="text-right">{fmtMoney(m.qty * m.unit_cost, currency)}</td>
+                      <td className="text-xs text-neutral-500">
+                        {m.source_type === 'purchase_order' && m.source_id ? (
+                          <button type="button" className="hover:underline" onClick={() => nav(`/purchasing/order?id=${encodeURIComponent(m.source_id!)}`)}>
+                            Purchase order
+                          </button>
+                        ) : m.source_type === 'waste' ? (
+                          <button type="button" className="hover:underline" onClick={() => nav('/waste')}>
+                            {m.note || 'Waste'}
+                          </button>
+                        ) : m.source_type === 'count' ? (
+                          'Count'
+                        ) : m.source_type === 'production_batch' && m.source_id ? (
+                          <button type="button" className="hover:underline" onClick={() => nav(`/production/batch?id=${encodeURIComponent(m.source_id!)}`)}>
+                            {m.note || 'Production'}
+                          </button>
+                        ) : (
+                          m.note || 'Manual'
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+                {!movements.length && (
+                  <tr>
+                    <td colSpan={7} className="py-3 text-neutral-500">
+                      No movements yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {tab === 'counts' && (
+        <div className="gc-card p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="gc-label">COUNT SHEETS</div>
+            <div className="flex flex-wrap gap-2">
+              {activeLocations.map((l) => (
+                <button key={l.id} className="gc-btn gc-btn-primary" type="button" disabled={busy} onClick={() => startCount(l.id)}>
+                  Count {l.name}
+                </button>
+              ))}
+              {!activeLocations.length && (
+                <button
+                  className="gc-btn gc-btn-primary"
+                  type="button"
+                  disabled={busy}
+                  onClick={() => run(async () => startCount((await ensureDefaultLocation()).id))}
+                >
+                  Start a count
+                </button>
+              )}
+            </div>
+          </div>
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-2">Started</th>
+                <th>Location</th>
+                <th>Status</th>
+                <th>Posted</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {counts.map((c) => (
+                <tr key={c.id} className="border-t border-neutral-200/60">
+                  <td className="py-2">
+                    <button type="button" className="font-semibold hover:underline" onClick={() => nav(`/inventory/count?id=${encodeURIComponent(c.id)}`)}>
+                      {new Date(c.created_at).toLocaleString()}
+                    </button>
+                  </td>
+                  <td>{locById.get(c.location_id)?.name || '—'}</td>
+                  <td>{c.status === 'posted' ? 'Posted' : 'Draft'}</td>
+                  <td>{c.posted_at ? new Date(c.posted_at).toLocaleString() : '—'}</td>
+                  <td className="text-right">
+                    {c.status === 'draft' && (
+                      <button
+                        className="gc-btn gc-btn-ghost text-red-600"
+                        type="button"
+                        disabled={busy}
+                        onClick={() => window.confirm('Discard this count sheet?') && run(() => deleteCount(c.id))}
+                      >
+                        Discard
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {!counts.length && (
+                <tr>
+                  <td colSpan={5} className="py-3 text-neutral-500">
+                    No counts yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {tab === 'locations' && (
+        <div className="gc-card p-6">
+          <div className="gc-label">LOCATIONS</div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <input className="gc-input" value={newLoc} onChange={(e) => setNewLoc(e.target.value)} placeholder="e.g. Walk-in cooler" />
+            <button
+              className="gc-btn gc-btn-primary"
+              type="button"
+              disabled={busy || !newLoc.trim()}
+              onClick={() =>
+                run(async () => {
+                  await saveLocation({ name: newLoc, is_default: !locations.length })
+                  setNewLoc('')
+                })
+              }
+            >
+              + Add location
+            </button>
+          </div>
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-2">Code</th>
+                <th>Name</th>
+                <th>Default</th>
+                <th>Active</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {locations.map((l) => (
+                <tr key={l.id} className={`border-t border-neutral-200/60 ${l.is_active ? '' : 'opacity-60'}`}>
+                  <td className="py-2 font-mono text-xs">{l.code || displayCode('WH', l.id)}</td>
+                  <td className="font-semibold">{l.name}</td>
+                  <td>
+                    {l.is_default ? (
+                      'Default'
+                    ) : (
+                      <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || !l.is_active} onClick={() => run(() => saveLocation({ ...l, is_default: true }))}>
+                        Make default
+                      </button>
+                    )}
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={l.is_active}
+                      disabled={busy || l.is_default}
+                      onChange={(e) => run(() => saveLocation({ ...l, is_active: e.target.checked }))}
+                    />
+                  </td>
+                  <td className="text-right">
+                    <button
+                      className="gc-btn gc-btn-ghost text-red-600"
+                      type="button"
+                      disabled={busy}
+                      onClick={() => window.confirm(`Delete "${l.name}" with all its stock movements and counts?`) && run(() => deleteLocation(l.id))}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {!locations.length && (
+                <tr>
+                  <td colSpan={5} className="py-3 text-neutral-500">
+                    No locations yet — a "Main store" is created the first time stock is posted.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,292 @@
+// src/pages/InventoryCount.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { countTotals, getCount, listLocations, postCount, setCountedQty, type StockCount, type StockCountLine } from '../lib/inventory'
+
+type IngredientRow = { id: string; code: string | null; name: string | null; category: string | null; pack_unit: string | null }
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+export default function InventoryCount() {
+  const nav = useNavigate()
+  const loc = useLocation()
+  const [sp] = useSearchParams()
+  const id = sp.get('id') || ''
+  const printMode = loc.pathname.toLowerCase().includes('/print')
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [count, setCount] = useState<StockCount | null>(null)
+  const [lines, setLines] = useState<StockCountLine[]>([])
+  const [ingredients, setIngredients] = useState<Map<string, IngredientRow>>(new Map())
+  const [locationName, setLocationName] = useState('')
+  const [q, setQ] = useState('')
+  const [onlyOpen, setOnlyOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+  // Raw input per line while typing, so "1." or "" don't get normalized away.
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    let alive = true
+    if (!id) {
+      setErr('No count selected')
+      setLoading(false)
+      return
+    }
+    ;(async () => {
+      try {
+        const [res, ing, locs] = await Promise.all([
+          getCount(id),
+          supabase.from('ingredients').select('id,code,name,category,pack_unit'),
+          listLocations(),
+        ])
+        if (ing.error) throw ing.error
+        if (!alive) return
+        setCount(res.count)
+        setLines(res.lines)
+        setIngredients(new Map(((ing.data ?? []) as IngredientRow[]).map((i) => [i.id, i])))
+        setLocationName(locs.find((l) => l.id === res.count.location_id)?.name || 'Location')
+      } catch (e: any) {
+        if (alive) setErr(e?.message ?? 'Failed to load count')
+      } finally {
+        if (alive) setLoading(false)
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (!printMode || loading || err) return
+    const t = window.setTimeout(() => window.print(), 400)
+    return () => window.clearTimeout(t)
+  }, [printMode, loading, err])
+
+  const rows = useMemo(() => {
+    const s = q.trim().toLowerCase()
+    return lines
+      .map((l) => ({ line: l, ing: ingredients.get(l.ingredient_id) }))
+      .filter((r) => !onlyOpen || r.line.counted_qty == null)
+      .filter((r) => !s || (r.ing?.name || '').toLowerCase().includes(s) || (r.ing?.category || '').toLowerCase().includes(s))
+      .sort((a, b) => (a.ing?.category || '').localeCompare(b.ing?.category || '') || (a.ing?.name || '').localeCompare(b.ing?.name || ''))
+  }, [lines, ingredients, q, onlyOpen])
+
+  const totals = useMemo(() => countTotals(lines), [lines])
+  const editable = count?.status === 'draft' && !printMode
+
+  const saveLine = async (line: StockCountLine) => {
+    const raw = drafts[line.id]
+    if (raw === undefined) return
+    const t = raw.trim()
+    const next = t === '' ? null : Math.max(0, Number(t))
+    if (next != null && !Number.isFinite(next)) return
+    setLines((prev) => prev.map((l) => (l.id === line.id ? { ...l, counted_qty: next } : l)))
+    setDrafts(({ [line.id]: _, ...rest }) => rest)
+    try {
+      await setCountedQty(line.id, next)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to save count')
+    }
+  }
+
+  const post = async () => {
+    if (!count) return
+    const open = totals.total - totals.done
+    const msg = open
+      ? `${open} line(s) are not counted and will be left as they are. Post the count?`
+      : 'Post the count? Stock will be adjusted to the counted quantities.'
+    if (!window.confirm(msg)) return
+    setBusy(true)
+    try {
+      await postCount(count.id)
+      const res = await getCount(count.id)
+      setCount(res.count)
+      setLines(res.lines)
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to post count')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading) return <div className="gc-card p-6">Loading count…</div>
+  if (!count) {
+    return (
+      <div className="gc-card p-6 space-y-2">
+        <div className="gc-label">ERROR</div>
+        <div className="text-sm text-red-600">{err || 'Count not found'}</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={printMode ? 'p-4' : 'space-y-6'}>
+      {printMode ? (
+        <div className="mb-3">
+          <div className="text-lg font-extrabold">Stock count · {locationName}</div>
+          <div className="text-xs text-neutral-600">Started {new Date(count.created_at).toLocaleString()} · Counted by: ____________________</div>
+        </div>
+      ) : (
+        <div className="gc-card p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className="gc-label">STOCK COUNT</div>
+              <div className="mt-2 text-2xl font-extrabold">{locationName}</div>
+              <div className="mt-2 text-sm text-neutral-600">
+                Started {new Date(count.created_at).toLocaleString()} ·{' '}
+                {count.status === 'posted' ? `posted ${count.posted_at ? new Date(count.posted_at).toLocaleString() : ''}` : 'draft'}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav('/inventory?tab=counts')}>
+                ← Counts
+              </button>
+              <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/inventory/count/print?id=${encodeURIComponent(count.id)}`)}>
+                Print sheet
+              </button>
+              {count.status === 'draft' && (
+                <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !totals.done} onClick={post}>
+                  {busy ? 'Posting…' : 'Post count'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-4 grid gap-4 md:grid-cols-4">
+            <div>
+              <div className="gc-label">COUNTED</div>
+              <div className="mt-1 text-xl font-extrabold">
+                {totals.done} / {totals.total}
+              </div>
+            </div>
+            <div>
+              <div className="gc-label">EXPECTED VALUE</div>
+              <div className="mt-1 text-xl font-extrabold">{fmtMoney(totals.expected, currency)}</div>
+            </div>
+            <div>
+              <div className="gc-label">COUNTED VALUE</div>
+              <div className="mt-1 text-xl font-extrabold">{fmtMoney(totals.counted, currency)}</div>
+            </div>
+            <div>
+              <div className="gc-label">VARIANCE</div>
+              <div className={`mt-1 text-xl font-extrabold ${totals.variance < -0.005 ? 'text-red-600' : totals.variance > 0.005 ? 'text-green-700' : ''}`}>
+                {fmtMoney(totals.variance, currency)}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <input className="gc-input" value={q} onChange={(e) => setQ(e.target.value)} placeholder="Search ingredient or category…" />
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={onlyOpen} onChange={(e) => setOnlyOpen(e.target.checked)} />
+              Only not counted
+            </label>
+          </div>
+        </div>
+      )}
+
+      {err && !printMode && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className={printMode ? '' : 'gc-card p-6'}>
+        <table className="ic-table w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Ingredient</th>
+              <th>Category</th>
+              <th className="text-right">Unit</th>
+              {!printMode && <th className="text-right">Expected</th>}
+              <th className="text-right">Counted</th>
+              {!printMode && <th className="text-right">Variance</th>}
+              {!printMode && <th className="text-right">Value</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ line: l, ing }) => {
+              const diff = l.counted_qty == null ? null : l.counted_qty - l.expected_qty
+              return (
+                <tr key={l.id} className="border-t border-neutral-200/60">
+                  <td className="py-2 font-semibold">{ing?.name || 'Ingredient'}</td>
+                  <td className="text-neutral-500">{ing?.category || '—'}</td>
+                  <td className="text-right">{ing?.pack_unit || ''}</td>
+                  {!printMode && <td className="text-right">{fmtQty(l.expected_qty)}</td>}
+                  <td className="text-right">
+                    {printMode ? (
+                      <span className="ic-blank" />
+                    ) : editable ? (
+                      <input
+                        className="gc-input w-24 text-right"
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={drafts[l.id] ?? (l.counted_qty == null ? '' : String(l.counted_qty))}
+                        onChange={(e) => setDrafts((d) => ({ ...d, [l.id]: e.target.value }))}
+                        onBlur={() => saveLine(l)}
+                      />
+                    ) : l.counted_qty == null ? (
+                      '—'
+                    ) : (
+                      fmtQty(l.counted_qty)
+                    )}
+                  </td>
+                  {!printMode && (
+                    <td className={`text-right ${diff != null && diff < -1e-9 ? 'text-red-600' : diff != null && diff > 1e-9 ? 'text-green-700' : ''}`}>
+                      {diff == null ? '—' : `${diff > 0 ? '+' : ''}${fmtQty(diff)}`}
+                    </td>
+                  )}
+                  {!printMode && <td className="text-right">{l.counted_qty == null ? '—' : fmtMoney(l.counted_qty * l.unit_cost, currency)}</td>}
+                </tr>
+              )
+            })}
+            {!rows.length && (
+              <tr>
+                <td colSpan={7} className="py-3 text-neutral-500">
+                  No lines.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {printMode && (
+        <div className="ic-noprint mt-4 flex gap-2">
+          <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/inventory/count?id=${encodeURIComponent(count.id)}`)}>
+            ← Back
+          </button>
+          <button className="gc-btn gc-btn-primary" type="button" onClick={() => window.print()}>
+            Print
+          </button>
+        </div>
+      )}
+
+      <style>{`
+        .ic-blank { display: inline-block; width: 90px; border-bottom: 1px solid #999; height: 1.1em; }
+        @media print {
+          @page { margin: 10mm; }
+          .ic-noprint { display: none !important; }
+          .ic-table th, .ic-table td { border-bottom: 1px solid #bbb; padding: 5px 6px; }
+        }
+      `}</style>
+    </div>
+  )
+}
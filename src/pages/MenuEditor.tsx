@@ -0,0 +1,428 @@
+// src/pages/MenuEditor.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { displayCode } from '../lib/codes'
+import { allergenLabel, dietaryFlags } from '../lib/allergens'
+import {
+  addItem,
+  addSection,
+  analyzeMenuContext,
+  deleteItem,
+  deleteSection,
+  itemPrice,
+  loadMenuContext,
+  MENU_KIND_LABELS,
+  MIX_DAYS,
+  saveMenu,
+  swapPositions,
+  updateItem,
+  updateSection,
+  type MenuContext,
+  type MenuDraft,
+  type MenuItem,
+  type MenuKind,
+  type MenuSection,
+} from '../lib/menus'
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtPct(n: number | null) {
+  return n == null ? '—' : `${n.toFixed(1)}%`
+}
+
+export default function MenuEditor() {
+  const nav = useNavigate()
+  const [sp] = useSearchParams()
+  const id = sp.get('id') || ''
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [ctx, setCtx] = useState<MenuContext | null>(null)
+  const [draft, setDraft] = useState<MenuDraft | null>(null)
+  const [newSection, setNewSection] = useState('')
+  const [addPick, setAddPick] = useState<Record<string, string>>({})
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, string>>({})
+
+  const reload = async () => {
+    const c = await loadMenuContext(id)
+    setCtx(c)
+    setDraft((d) => d ?? { ...c.menu })
+  }
+
+  useEffect(() => {
+    if (!id) {
+      setErr('Missing menu id')
+      setLoading(false)
+      return
+    }
+    let alive = true
+    loadMenuContext(id)
+      .then((c) => {
+        if (!alive) return
+        setCtx(c)
+        setDraft({ ...c.menu })
+      })
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load menu'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [id])
+
+  const analysis = useMemo(() => (ctx ? analyzeMenuContext(ctx) : null), [ctx])
+  const menuRecipes = useMemo(() => (ctx?.recipes ?? []).filter((r) => !r.is_subrecipe && !r.is_archived), [ctx])
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await fn()
+      await reload()
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Menu update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading) return <div className="gc-card p-6">Loading menu…</div>
+  if (!ctx || !draft || !analysis) {
+    return (
+      <div className="gc-card p-6">
+        <div className="gc-label">ERROR</div>
+        <div className="mt-2 text-sm text-red-600">{err || 'Menu not found'}</div>
+      </div>
+    )
+  }
+
+  const { menu, sections, items } = ctx
+  const { recipeById, profiles, costing, allergens } = analysis
+  const itemsOf = (s: MenuSection) => items.filter((i) => i.section_id === s.id)
+  const fcTarget = menu.target_food_cost_pct
+  const overTarget = fcTarget != null && costing.foodCostPct != null && costing.foodCostPct > fcTarget
+
+  const moveSection = (s: MenuSection, dir: -1 | 1) => {
+    const idx = sections.findIndex((x) => x.id === s.id)
+    const other = sections[idx + dir]
+    if (other) run(() => swapPositions('menu_sections', s, other))
+  }
+
+  const moveItem = (it: MenuItem, dir: -1 | 1) => {
+    const list = items.filter((i) => i.section_id === it.section_id)
+    const idx = list.findIndex((x) => x.id === it.id)
+    const other = list[idx + dir]
+    if (other) run(() => swapPositions('menu_items', it, other))
+  }
+
+  const savePrice = (it: MenuItem) => {
+    const raw = priceDrafts[it.id]
+    if (raw === undefined) return
+    const price = raw.trim() === '' ? null : Math.max(0, Number(raw) || 0)
+    setPriceDrafts((d) => {
+      const next = { ...d }
+      delete next[it.id]
+      return next
+    })
+    if (price !== it.price) run(() => updateItem(it.id, { price }))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="gc-label">MENU · {menu.code || displayCode('CARD', menu.id)}</div>
+            <div className="mt-2 text-2xl font-extrabold">{menu.name}</div>
+            <div className="mt-1 text-sm text-neutral-600">{MENU_KIND_LABELS[menu.kind]}</div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav('/menus')}>
+              ← Menus
+            </button>
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/menus/print?id=${encodeURIComponent(menu.id)}`)}>
+              Print menu
+            </button>
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/menus/costing/print?id=${encodeURIComponent(menu.id)}`)}>
+              Costing sheet
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-3">
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Name</div>
+            <input className="gc-input w-full" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Type</div>
+            <select className="gc-input w-full" value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as MenuKind })}>
+              {(Object.keys(MENU_KIND_LABELS) as MenuKind[]).map((k) => (
+                <option key={k} value={k}>
+                  {MENU_KIND_LABELS[k]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Target food cost %</div>
+            <input
+              className="gc-input w-full"
+              type="number"
+              min={0}
+              max={100}
+              step="0.5"
+              value={draft.target_food_cost_pct ?? ''}
+              onChange={(e) => setDraft({ ...draft, target_food_cost_pct: e.target.value === '' ? null : Number(e.target.value) })}
+            />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Valid from</div>
+            <input className="gc-input w-full" type="date" value={draft.valid_from ?? ''} onChange={(e) => setDraft({ ...draft, valid_from: e.target.value || null })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Valid to</div>
+            <input className="gc-input w-full" type="date" value={draft.valid_to ?? ''} onChange={(e) => setDraft({ ...draft, valid_to: e.target.value || null })} />
+          </label>
+          <label className="flex items-center gap-2 text-sm pt-5">
+            <input type="checkbox" checked={draft.is_active} onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })} />
+            Active
+          </label>
+          <label className="text-sm md:col-span-3">
+            <div className="text-xs text-neutral-500 mb-1">Description (printed under the title)</div>
+            <textarea className="gc-input w-full" rows={2} value={draft.description ?? ''} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+          </label>
+        </div>
+        <div className="mt-3 flex justify-end">
+          <button className="gc-btn gc-btn-primary" type="button" disabled={busy} onClick={() => run(() => saveMenu({ ...draft, id: menu.id }))}>
+            Save details
+          </button>
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div>
+            <div className="gc-label">FOOD COST</div>
+            <div className={`mt-1 text-xl font-extrabold ${overTarget ? 'text-red-600' : ''}`}>{fmtPct(costing.foodCostPct)}</div>
+            <div className="text-xs text-neutral-500">
+              {costing.weightedBy === 'sales' ? `Weighted by sales, last ${MIX_DAYS} days` : 'Each item counted once'}
+              {fcTarget != null ? ` · target ${fcTarget}%` : ''}
+            </div>
+          </div>
+          <div>
+            <div className="gc-label">AVG MARGIN</div>
+            <div className="mt-1 text-xl font-extrabold">{fmtMoney(costing.avgMargin, currency)}</div>
+            <div className="text-xs text-neutral-500">per portion</div>
+          </div>
+          <div>
+            <div className="gc-label">ITEMS</div>
+            <div className="mt-1 text-xl font-extrabold">{items.length}</div>
+            <div className={`text-xs ${costing.unpriced ? 'text-amber-700' : 'text-neutral-500'}`}>{costing.unpriced ? `${costing.unpriced} without a price` : 'All priced'}</div>
+          </div>
+          <div>
+            <div className="gc-label">DIETARY</div>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {allergens.flags
+                .filter((f) => f.count > 0)
+                .map((f) => (
+                  <span key={f.flag.code} className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-700">
+                    {f.flag.label} {f.count}/{allergens.itemCount}
+                  </span>
+                ))}
+              {!allergens.flags.some((f) => f.count > 0) && <span className="text-sm text-neutral-500">—</span>}
+            </div>
+          </div>
+        </div>
+        <div className="mt-4">
+          <div className="gc-label">ALLERGENS ON THIS MENU</div>
+          <div className="mt-2 flex flex-wrap gap-1">
+            {[...allergens.contains].map(([code, n]) => (
+              <span key={code} className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">
+                {allergenLabel(ctx.allergenDefs, code)} · {n}
+              </span>
+            ))}
+            {[...allergens.mayContain].map(([code, n]) => (
+              <span key={`may-${code}`} className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                May contain {allergenLabel(ctx.allergenDefs, code)} · {n}
+              </span>
+            ))}
+            {!allergens.contains.size && !allergens.mayContain.size && <span className="text-sm text-neutral-500">None recorded.</span>}
+          </div>
+        </div>
+      </div>
+
+      {sections.map((s, sIdx) => (
+        <div key={s.id} className="gc-card p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <input
+              className="gc-input text-lg font-bold"
+              defaultValue={s.title}
+              onBlur={(e) => {
+                const title = e.target.value.trim()
+                if (title && title !== s.title) run(() => updateSection(s.id, { title }))
+              }}
+            />
+            <div className="flex gap-2">
+              <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || sIdx === 0} onClick={() => moveSection(s, -1)}>
+                ↑
+              </button>
+              <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || sIdx === sections.length - 1} onClick={() => moveSection(s, 1)}>
+                ↓
+              </button>
+              <button
+                className="gc-btn gc-btn-ghost"
+                type="button"
+                disabled={busy}
+                onClick={() => window.confirm(`Delete section "${s.title}" and its items?`) && run(() => deleteSection(s.id))}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-2">Item</th>
+                <th className="text-right">Menu price</th>
+                <th className="text-right">Cost</th>
+                <th className="text-right">Food cost</th>
+                <th className="text-right">Margin</th>
+                <th>Allergens</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {itemsOf(s).map((it, iIdx, list) => {
+                const r = recipeById.get(it.recipe_id)
+                const c = costing.items.get(it.id)
+                const p = profiles.get(it.recipe_id)
+                const flags = dietaryFlags(p)
+                return (
+                  <tr key={it.id} className="border-t border-neutral-200/60 align-top">
+                    <td className="py-2">
+                      <input
+                        className="gc-input w-full font-semibold"
+                        defaultValue={it.display_name ?? ''}
+                        placeholder={r?.name || 'Recipe'}
+                        title="Name on the printed menu (blank = recipe name)"
+                        onBlur={(e) => {
+                          const v = e.target.value.trim() || null
+                          if (v !== it.display_name) run(() => updateItem(it.id, { display_name: v }))
+                        }}
+                      />
+                      <input
+                        className="gc-input mt-1 w-full text-xs"
+                        defaultValue={it.description ?? ''}
+                        placeholder={r?.description || 'Menu description'}
+                        onBlur={(e) => {
+                          const v = e.target.value.trim() || null
+                          if (v !== it.description) run(() => updateItem(it.id, { description: v }))
+                        }}
+                      />
+                      {flags.length > 0 && <div className="mt-1 text-xs text-green-700">{flags.map((f) => f.label).join(' · ')}</div>}
+                    </td>
+                    <td className="text-right">
+                      <input
+                        className="gc-input w-28 text-right"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={priceDrafts[it.id] ?? (it.price == null ? '' : String(it.price))}
+                        placeholder={r?.selling_price != null ? String(r.selling_price) : 'Price'}
+                        title="Menu price (blank = recipe selling price)"
+                        onChange={(e) => setPriceDrafts((d) => ({ ...d, [it.id]: e.target.value }))}
+                        onBlur={() => savePrice(it)}
+                      />
+                      {it.price == null && <div className="mt-1 text-xs text-neutral-500">recipe price</div>}
+                    </td>
+                    <td className="text-right">{fmtMoney(c?.cost ?? 0, currency)}</td>
+                    <td className={`text-right ${fcTarget != null && (c?.foodCostPct ?? 0) > fcTarget ? 'text-red-600 font-semibold' : ''}`}>{fmtPct(c?.foodCostPct ?? null)}</td>
+                    <td className="text-right">{fmtMoney(c?.margin ?? 0, currency)}</td>
+                    <td className="text-xs">
+                      {[...(p?.contains ?? [])].map((a) => allergenLabel(ctx.allergenDefs, a)).join(', ') || '—'}
+                      {p?.mayContain.size ? <div className="text-amber-700">may: {[...p.mayContain].map((a) => allergenLabel(ctx.allergenDefs, a)).join(', ')}</div> : null}
+                    </td>
+                    <td className="text-right whitespace-nowrap">
+                      <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || iIdx === 0} onClick={() => moveItem(it, -1)}>
+                        ↑
+                      </button>
+                      <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || iIdx === list.length - 1} onClick={() => moveItem(it, 1)}>
+                        ↓
+                      </button>
+                      <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => run(() => deleteItem(it.id))}>
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <select className="gc-input min-w-[260px]" value={addPick[s.id] || ''} onChange={(e) => setAddPick((p) => ({ ...p, [s.id]: e.target.value }))}>
+              <option value="">Add a menu recipe…</option>
+              {menuRecipes.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                  {r.selling_price != null ? ` · ${fmtMoney(itemPrice({ price: null }, r), currency)}` : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              className="gc-btn gc-btn-primary"
+              type="button"
+              disabled={busy || !addPick[s.id]}
+              onClick={() =>
+                run(async () => {
+                  const list = itemsOf(s)
+                  await addItem(s, addPick[s.id], list.length ? Math.max(...list.map((i) => i.position)) + 1 : 0)
+                  setAddPick((p) => ({ ...p, [s.id]: '' }))
+                })
+              }
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="gc-card p-6">
+        <div className="gc-label">NEW SECTION</div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <input className="gc-input" value={newSection} placeholder="Starters" onChange={(e) => setNewSection(e.target.value)} />
+          <button
+            className="gc-btn gc-btn-primary"
+            type="button"
+            disabled={busy || !newSection.trim()}
+            onClick={() =>
+              run(async () => {
+                await addSection(menu.id, newSection, sections.length ? Math.max(...sections.map((x) => x.position)) + 1 : 0)
+                setNewSection('')
+              })
+            }
+          >
+            Add section
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
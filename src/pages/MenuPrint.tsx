@@ -0,0 +1,234 @@
+// src/pages/MenuPrint.tsx
+// /menus/print          → customer-facing menu
+// /menus/costing/print  → back-of-house costing sheet
+import { useEffect, useMemo, useState } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { displayCode } from '../lib/codes'
+import { allergenLabel, dietaryFlags } from '../lib/allergens'
+import { analyzeMenuContext, itemName, loadMenuContext, MENU_KIND_LABELS, MIX_DAYS, type MenuContext } from '../lib/menus'
+import { MetricCard, PRINT_BASE_CSS, PRINT_TOOLBAR_BUTTON, SectionTitle, Tag, Td, Th } from '../components/print/PrintKit'
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtPct(n: number | null) {
+  return n == null ? '—' : `${n.toFixed(1)}%`
+}
+
+export default function MenuPrint() {
+  const nav = useNavigate()
+  const loc = useLocation()
+  const [sp] = useSearchParams()
+  const id = sp.get('id') || ''
+  const costingSheet = loc.pathname.toLowerCase().includes('/costing')
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [ctx, setCtx] = useState<MenuContext | null>(null)
+
+  useEffect(() => {
+    if (!id) {
+      setErr('Missing menu id')
+      setLoading(false)
+      return
+    }
+    let alive = true
+    loadMenuContext(id)
+      .then((c) => alive && setCtx(c))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load menu'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (loading || err || !ctx) return
+    const t = window.setTimeout(() => window.print(), 400)
+    return () => window.clearTimeout(t)
+  }, [loading, err, ctx])
+
+  const analysis = useMemo(() => (ctx ? analyzeMenuContext(ctx) : null), [ctx])
+
+  if (loading) return <div className="gc-card p-6">Loading menu…</div>
+  if (!ctx || !analysis) {
+    return (
+      <div className="gc-card p-6">
+        <div className="gc-label">ERROR</div>
+        <div className="mt-2 text-sm text-red-600">{err || 'Menu not found'}</div>
+      </div>
+    )
+  }
+
+  const { menu, sections, items } = ctx
+  const { recipeById, profiles, costing, allergens } = analysis
+  const label = (code: string) => allergenLabel(ctx.allergenDefs, code)
+  const usedAllergens = [...new Set([...allergens.contains.keys(), ...allergens.mayContain.keys()])]
+  const validity = menu.valid_from || menu.valid_to ? `${menu.valid_from || '…'} → ${menu.valid_to || '…'}` : null
+
+  return (
+    <>
+      <style>{`
+        ${PRINT_BASE_CSS}
+
+        .menu-table {
+          width: 100%;
+          border-collapse: separate;
+          border-spacing: 0;
+        }
+
+        .menu-table tr {
+          break-inside: avoid;
+          page-break-inside: avoid;
+        }
+      `}</style>
+
+      <div className="print-stage min-h-screen bg-[#f7f6f2] px-4 py-5 md:px-8 md:py-8 text-[#2b2b2b]">
+        <div className="no-print mx-auto mb-4 flex max-w-4xl items-center justify-end gap-3">
+          <button onClick={() => nav(`/menus/edit?id=${encodeURIComponent(menu.id)}`)} className={`${PRINT_TOOLBAR_BUTTON} text-[#8b5e34]`}>
+            ← Back to menu
+          </button>
+          <button
+            onClick={() => nav(`${costingSheet ? '/menus/print' : '/menus/costing/print'}?id=${encodeURIComponent(menu.id)}`)}
+            className={`${PRINT_TOOLBAR_BUTTON} text-[#556b2f]`}
+          >
+            {costingSheet ? 'Guest menu' : 'Costing sheet'}
+          </button>
+          <button onClick={() => window.print()} className={`${PRINT_TOOLBAR_BUTTON} text-[#2f6f5e]`}>
+            Print Now
+          </button>
+        </div>
+
+        <article className="print-paper mx-auto max-w-4xl overflow-hidden rounded-[38px] border border-[#dfe5df] bg-white shadow-[0_22px_60px_rgba(0,0,0,0.08)]">
+          <div className="h-[8px] bg-[linear-gradient(90deg,#556b2f_0%,#2f6f5e_48%,#dfe5df_100%)]" />
+
+          <header className="border-b border-[#dfe5df] bg-[linear-gradient(135deg,#ffffff_0%,#f7f6f2_100%)] p-8 md:p-10 text-center">
+            <div className="text-xs font-semibold uppercase tracking-[0.34em] text-[#556b2f]">
+              {costingSheet ? `Costing sheet · ${menu.code || displayCode('CARD', menu.id)}` : MENU_KIND_LABELS[menu.kind]}
+            </div>
+            <h1 className="mt-3 text-4xl font-semibold tracking-[-0.045em] text-[#2b2b2b] md:text-[3.2rem] md:leading-[1.02]">{menu.name}</h1>
+            {menu.description && !costingSheet ? <p className="mx-auto mt-4 max-w-2xl text-[15px] leading-7 text-stone-600">{menu.description}</p> : null}
+            {validity ? <div className="mt-4 flex justify-center"><Tag tone="secondary">{validity}</Tag></div> : null}
+          </header>
+
+          {costingSheet ? (
+            <>
+              <section className="border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+                  <MetricCard label="Food cost" value={fmtPct(costing.foodCostPct)} />
+                  <MetricCard label="Target" value={menu.target_food_cost_pct != null ? `${menu.target_food_cost_pct}%` : '—'} />
+                  <MetricCard label="Avg margin" value={fmtMoney(costing.avgMargin, currency)} />
+                  <MetricCard label="Items" value={String(items.length)} />
+                </div>
+                <div className="mt-3 text-xs text-stone-500">
+                  {costing.weightedBy === 'sales' ? `Food cost weighted by portions sold over the last ${MIX_DAYS} days.` : 'Food cost weighted equally per item (no sales recorded).'}
+                  {costing.unpriced ? ` ${costing.unpriced} item(s) without a price are left out.` : ''}
+                </div>
+              </section>
+
+              {sections.map((s) => (
+                <section key={s.id} className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                  <SectionTitle>{s.title}</SectionTitle>
+                  <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                    <table className="menu-table text-sm">
+                      <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                        <tr>
+                          <Th>Item</Th>
+                          <Th className="text-right">Price</Th>
+                          <Th className="text-right">Cost</Th>
+                          <Th className="text-right">Food cost</Th>
+                          <Th className="text-right">Margin</Th>
+                          <Th>Allergens</Th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {items
+                          .filter((i) => i.section_id === s.id)
+                          .map((it) => {
+                            const r = recipeById.get(it.recipe_id)
+                            const c = costing.items.get(it.id)
+                            const p = profiles.get(it.recipe_id)
+                            return (
+                              <tr key={it.id}>
+                                <Td className="font-semibold text-stone-900">
+                                  {itemName(it, r)}
+                                  {r?.code ? <span className="ml-2 font-mono text-[11px] font-medium text-[#2f6f5e]">{r.code}</span> : null}
+                                </Td>
+                                <Td className="text-right tabular-nums font-mono">{fmtMoney(c?.price ?? 0, currency)}</Td>
+                                <Td className="text-right tabular-nums font-mono">{fmtMoney(c?.cost ?? 0, currency)}</Td>
+                                <Td className="text-right tabular-nums font-mono">{fmtPct(c?.foodCostPct ?? null)}</Td>
+                                <Td className="text-right font-semibold tabular-nums font-mono text-[#556b2f]">{fmtMoney(c?.margin ?? 0, currency)}</Td>
+                                <Td className="text-xs">{[...(p?.contains ?? [])].map(label).join(', ') || '—'}</Td>
+                              </tr>
+                            )
+                          })}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+              ))}
+            </>
+          ) : (
+            sections.map((s) => (
+              <section key={s.id} className="avoid-break border-b border-[#dfe5df] px-8 py-8 md:px-12">
+                <div className="text-center">
+                  <SectionTitle>{s.title}</SectionTitle>
+                </div>
+                <div className="space-y-5">
+                  {items
+                    .filter((i) => i.section_id === s.id)
+                    .map((it) => {
+                      const r = recipeById.get(it.recipe_id)
+                      const c = costing.items.get(it.id)
+                      const p = profiles.get(it.recipe_id)
+                      const desc = it.description || r?.description
+                      const flags = dietaryFlags(p)
+                      return (
+                        <div key={it.id} className="avoid-break">
+                          <div className="flex items-baseline gap-3">
+                            <div className="text-lg font-semibold text-stone-900">{itemName(it, r)}</div>
+                            <div className="flex-1 border-b border-dotted border-stone-300" />
+                            <div className="text-lg font-semibold tabular-nums text-[#2f6f5e]">{c && c.price > 0 ? fmtMoney(c.price, currency) : ''}</div>
+                          </div>
+                          {desc ? <div className="mt-1 text-sm leading-6 text-stone-600">{desc}</div> : null}
+                          {p?.contains.size || flags.length ? (
+                            <div className="mt-1 text-[11px] uppercase tracking-[0.14em] text-stone-500">
+                              {[...(p?.contains ?? [])].map(label).join(' · ')}
+                              {p?.contains.size && flags.length ? ' — ' : ''}
+                              <span className="text-[#556b2f]">{flags.map((f) => f.label).join(' · ')}</span>
+                            </div>
+                          ) : null}
+                        </div>
+                      )
+                    })}
+                </div>
+              </section>
+            ))
+          )}
+
+          <footer className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] px-6 py-5 text-xs text-stone-500 md:px-8">
+            {costingSheet ? (
+              <div className="flex flex-col gap-1 md:flex-row md:items-center md:justify-between">
+                <div className="font-semibold uppercase tracking-[0.2em] text-[#556b2f]">Back of house · not for guests</div>
+                <div>Printed {new Date().toLocaleString()}</div>
+              </div>
+            ) : (
+              <div className="text-center">
+                {usedAllergens.length
+                  ? `Our dishes contain: ${usedAllergens.map(label).join(', ')}. Some items may contain traces of allergens — please ask our team before ordering.`
+                  : 'Please tell our team about any allergies before ordering.'}
+              </div>
+            )}
+          </footer>
+        </article>
+      </div>
+    </>
+  )
+}
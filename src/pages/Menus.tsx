@@ -0,0 +1,152 @@
+// src/pages/Menus.tsx
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { displayCode } from '../lib/codes'
+import { deleteMenu, duplicateMenu, listMenus, MENU_KIND_LABELS, saveMenu, type Menu, type MenuKind } from '../lib/menus'
+
+export default function Menus() {
+  const nav = useNavigate()
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [menus, setMenus] = useState<Menu[]>([])
+  const [form, setForm] = useState<{ name: string; kind: MenuKind }>({ name: '', kind: 'a_la_carte' })
+
+  const reload = async () => setMenus(await listMenus())
+
+  useEffect(() => {
+    let alive = true
+    listMenus()
+      .then((m) => alive && setMenus(m))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load menus'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await fn()
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Menu update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const create = () =>
+    run(async () => {
+      const m = await saveMenu({
+        name: form.name,
+        kind: form.kind,
+        description: null,
+        valid_from: null,
+        valid_to: null,
+        target_food_cost_pct: null,
+        is_active: true,
+      })
+      nav(`/menus/edit?id=${encodeURIComponent(m.id)}`)
+    })
+
+  if (loading) return <div className="gc-card p-6">Loading menus…</div>
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">MENUS</div>
+        <div className="mt-2 text-2xl font-extrabold">Menus</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Lunch, banquet or seasonal cards built from your menu recipes, with menu prices, overall food cost, allergens and printable guest and costing sheets.
+        </div>
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Name</div>
+            <input className="gc-input" value={form.name} placeholder="Summer lunch" onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Type</div>
+            <select className="gc-input" value={form.kind} onChange={(e) => setForm((f) => ({ ...f, kind: e.target.value as MenuKind }))}>
+              {(Object.keys(MENU_KIND_LABELS) as MenuKind[]).map((k) => (
+                <option key={k} value={k}>
+                  {MENU_KIND_LABELS[k]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !form.name.trim()} onClick={create}>
+            New menu
+          </button>
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Menu</th>
+              <th>Name</th>
+              <th>Type</th>
+              <th>Valid</th>
+              <th>Status</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {menus.map((m) => (
+              <tr key={m.id} className="border-t border-neutral-200/60">
+                <td className="py-2 font-mono text-xs">{m.code || displayCode('CARD', m.id)}</td>
+                <td>
+                  <button className="font-semibold hover:underline" type="button" onClick={() => nav(`/menus/edit?id=${encodeURIComponent(m.id)}`)}>
+                    {m.name}
+                  </button>
+                </td>
+                <td>{MENU_KIND_LABELS[m.kind]}</td>
+                <td>
+                  {m.valid_from || m.valid_to ? `${m.valid_from || '…'} → ${m.valid_to || '…'}` : '—'}
+                </td>
+                <td>
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${m.is_active ? 'bg-green-100 text-green-700' : 'bg-neutral-100 text-neutral-600'}`}>
+                    {m.is_active ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="text-right whitespace-nowrap">
+                  <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/menus/edit?id=${encodeURIComponent(m.id)}`)}>
+                    Open
+                  </button>{' '}
+                  <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => run(async () => (await duplicateMenu(m.id), await reload()))}>
+                    Duplicate
+                  </button>{' '}
+                  <button
+                    className="gc-btn gc-btn-ghost"
+                    type="button"
+                    disabled={busy}
+                    onClick={() => window.confirm(`Delete menu "${m.name}"?`) && run(async () => (await deleteMenu(m.id), await reload()))}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!menus.length && (
+              <tr>
+                <td colSpan={6} className="py-3 text-neutral-500">
+                  No menus yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,374 @@
+// src/pages/PrepPlanner.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { getMenu, listMenus, type Menu } from '../lib/menus'
+import {
+  buildPrepList,
+  displayQty,
+  loadPrepContext,
+  loadPrepPlan,
+  NO_STATION,
+  PREP_GROUP_LABELS,
+  savePrepPlan,
+  setRecipeStation,
+  type PrepContext,
+  type PrepGroupBy,
+  type PrepPlan,
+} from '../lib/prepPlan'
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+export default function PrepPlanner() {
+  const nav = useNavigate()
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [ctx, setCtx] = useState<PrepContext | null>(null)
+  const [menus, setMenus] = useState<Menu[]>([])
+  const [plan, setPlan] = useState<PrepPlan>(() => loadPrepPlan())
+  const [addForm, setAddForm] = useState({ recipeId: '', covers: '' })
+  const [menuForm, setMenuForm] = useState({ menuId: '', covers: '' })
+
+  useEffect(() => {
+    let alive = true
+    Promise.all([loadPrepContext(), listMenus().catch(() => [] as Menu[])])
+      .then(([c, m]) => {
+        if (!alive) return
+        setCtx(c)
+        setMenus(m)
+      })
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load recipes'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const update = (patch: Partial<PrepPlan>) => setPlan(savePrepPlan(patch))
+
+  const recipeById = useMemo(() => new Map((ctx?.recipes ?? []).map((r) => [r.id, r])), [ctx])
+  const ingredientById = useMemo(() => new Map((ctx?.ingredients ?? []).map((i) => [i.id, i])), [ctx])
+  const dishes = useMemo(() => (ctx?.recipes ?? []).filter((r) => !r.is_subrecipe && !r.is_archived), [ctx])
+  const stations = useMemo(() => [...new Set((ctx?.recipes ?? []).map((r) => (r.station || '').trim()).filter(Boolean))].sort(), [ctx])
+  const list = useMemo(() => (ctx ? buildPrepList({ ...ctx, plan: plan.entries, groupBy: plan.groupBy }) : null), [ctx, plan.entries, plan.groupBy])
+
+  const taskCount = list ? list.preps.length + list.groups.reduce((s, g) => s + g.tasks.length, 0) : 0
+  const doneCount = list
+    ? list.preps.filter((t) => plan.checked[t.key]).length + list.groups.reduce((s, g) => s + g.tasks.filter((t) => plan.checked[t.key]).length, 0)
+    : 0
+
+  const setCovers = (recipeId: string, covers: number) => {
+    const rest = plan.entries.filter((e) => e.recipeId !== recipeId)
+    update({ entries: covers > 0 ? [...rest, { recipeId, covers }] : rest })
+  }
+
+  const addDish = () => {
+    const covers = Math.max(0, Number(addForm.covers) || 0)
+    if (!addForm.recipeId || !(covers > 0)) return
+    const existing = plan.entries.find((e) => e.recipeId === addForm.recipeId)
+    setCovers(addForm.recipeId, (existing?.covers ?? 0) + covers)
+    setAddForm({ recipeId: '', covers: '' })
+  }
+
+  const addMenu = async () => {
+    const covers = Math.max(0, Number(menuForm.covers) || 0)
+    if (!menuForm.menuId || !(covers > 0)) return
+    setBusy(true)
+    try {
+      const { items } = await getMenu(menuForm.menuId)
+      const have = new Set(plan.entries.map((e) => e.recipeId))
+      const added = [...new Set(items.map((i) => i.recipe_id))].filter((id) => !have.has(id)).map((recipeId) => ({ recipeId, covers }))
+      update({ entries: [...plan.entries, ...added] })
+      setMenuForm({ menuId: '', covers: '' })
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to load menu')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveStation = async (recipeId: string, station: string) => {
+    if (!ctx) return
+    setBusy(true)
+    try {
+      await setRecipeStation(recipeId, station)
+      setCtx({ ...ctx, recipes: ctx.recipes.map((r) => (r.id === recipeId ? { ...r, station: station.trim() || null } : r)) })
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to save station')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggle = (key: string) => update({ checked: { ...plan.checked, [key]: !plan.checked[key] } })
+
+  if (loading) return <div className="gc-card p-6">Loading prep planner…</div>
+  if (!ctx || !list) {
+    return (
+      <div className="gc-card p-6">
+        <div className="gc-label">ERROR</div>
+        <div className="mt-2 text-sm text-red-600">{err || 'Failed to load recipes'}</div>
+      </div>
+    )
+  }
+
+  const amount = (qty: number, unit: string) => {
+    const d = displayQty(qty, unit)
+    return `${fmtQty(d.qty)} ${d.unit}`
+  }
+  const prepAmount = (recipeId: string, factor: number) => {
+    const r = recipeById.get(recipeId)
+    return r?.yield_qty && r.yield_unit ? amount(factor * r.yield_qty, r.yield_unit) : `${fmtQty(factor * (r?.portions || 1))} portions`
+  }
+
+  return (
+    <div className="space-y-6">
+      <datalist id="gc-prep-stations">
+        {stations.map((s) => (
+          <option key={s} value={s} />
+        ))}
+      </datalist>
+
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="gc-label">SERVICE</div>
+            <div className="mt-2 text-2xl font-extrabold">Prep Planner</div>
+            <div className="mt-2 text-sm text-neutral-600">
+              Pick the dishes and expected covers for a service. PREP recipes become their own tasks and ingredients are merged across every recipe.
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button className="gc-btn gc-btn-ghost" type="button" disabled={!taskCount} onClick={() => nav('/prep/print')}>
+              Print prep list
+            </button>
+            <button className="gc-btn gc-btn-ghost" type="button" disabled={!doneCount} onClick={() => update({ checked: {} })}>
+              Clear ticks
+            </button>
+            <button
+              className="gc-btn gc-btn-ghost"
+              type="button"
+              disabled={!plan.entries.length}
+              onClick={() => window.confirm('Start a new prep plan? Dishes and ticks will be cleared.') && update({ entries: [], checked: {}, name: '' })}
+            >
+              New plan
+            </button>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Service</div>
+            <input className="gc-input" value={plan.name} placeholder="Saturday dinner" onChange={(e) => update({ name: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Date</div>
+            <input className="gc-input" type="date" value={plan.date} onChange={(e) => update({ date: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Group ingredients by</div>
+            <select className="gc-input" value={plan.groupBy} onChange={(e) => update({ groupBy: e.target.value as PrepGroupBy })}>
+              {(Object.keys(PREP_GROUP_LABELS) as PrepGroupBy[]).map((g) => (
+                <option key={g} value={g}>
+                  {PREP_GROUP_LABELS[g]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="gc-label">DISHES</div>
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Dish</th>
+              <th>Station</th>
+              <th className="text-right">Covers</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {plan.entries.map((e) => {
+              const r = recipeById.get(e.recipeId)
+              return (
+                <tr key={e.recipeId} className="border-t border-neutral-200/60">
+                  <td className="py-2 font-semibold">{r?.name || 'Missing recipe'}</td>
+                  <td>
+                    <input
+                      key={`${e.recipeId}:${r?.station ?? ''}`}
+                      className="gc-input w-40"
+                      list="gc-prep-stations"
+                      defaultValue={r?.station ?? ''}
+                      placeholder={NO_STATION}
+                      disabled={!r || busy}
+                      onBlur={(ev) => {
+                        const v = ev.target.value.trim()
+                        if (r && v !== (r.station ?? '')) saveStation(r.id, v)
+                      }}
+                    />
+                  </td>
+                  <td className="text-right">
+                    <input
+                      className="gc-input w-24 text-right"
+                      type="number"
+                      min={0}
+                      value={e.covers}
+                      onChange={(ev) => setCovers(e.recipeId, Math.max(0, Math.round(Number(ev.target.value) || 0)))}
+                    />
+                  </td>
+                  <td className="text-right">
+                    <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setCovers(e.recipeId, 0)}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+            {!plan.entries.length && (
+              <tr>
+                <td colSpan={4} className="py-3 text-neutral-500">
+                  No dishes yet. Add dishes or a whole menu below.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        <div className="mt-3 flex flex-wrap items-end gap-2">
+          <select className="gc-input min-w-[260px]" value={addForm.recipeId} onChange={(e) => setAddForm((f) => ({ ...f, recipeId: e.target.value }))}>
+            <option value="">Add a dish…</option>
+            {dishes.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+              </option>
+            ))}
+          </select>
+          <input
+            className="gc-input w-24 text-right"
+            type="number"
+            min={0}
+            value={addForm.covers}
+            placeholder="Covers"
+            onChange={(e) => setAddForm((f) => ({ ...f, covers: e.target.value }))}
+          />
+          <button className="gc-btn gc-btn-primary" type="button" disabled={!addForm.recipeId || !(Number(addForm.covers) > 0)} onClick={addDish}>
+            Add
+          </button>
+          {menus.length > 0 && (
+            <>
+              <select className="gc-input ml-4" value={menuForm.menuId} onChange={(e) => setMenuForm((f) => ({ ...f, menuId: e.target.value }))}>
+                <option value="">Add a whole menu…</option>
+                {menus.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="gc-input w-24 text-right"
+                type="number"
+                min={0}
+                value={menuForm.covers}
+                placeholder="Covers"
+                title="Covers per dish"
+                onChange={(e) => setMenuForm((f) => ({ ...f, covers: e.target.value }))}
+              />
+              <button className="gc-btn gc-btn-ghost" type="button" disabled={busy || !menuForm.menuId || !(Number(menuForm.covers) > 0)} onClick={addMenu}>
+                Add menu
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {taskCount > 0 && (
+        <div className="gc-card p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="gc-label">PREP LIST</div>
+            <div className="text-sm text-neutral-600">
+              {doneCount} / {taskCount} done
+            </div>
+          </div>
+
+          {list.preps.length > 0 && (
+            <div className="mt-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">PREP recipes · make these first</div>
+              <div className="mt-2 grid gap-2">
+                {list.preps.map((t) => {
+                  const done = !!plan.checked[t.key]
+                  return (
+                    <label
+                      key={t.key}
+                      className={`flex cursor-pointer items-center gap-3 rounded-2xl border p-3 ${done ? 'border-green-200 bg-green-50 text-neutral-400' : 'border-neutral-200 bg-neutral-50'}`}
+                    >
+                      <input type="checkbox" className="h-6 w-6 shrink-0" checked={done} onChange={() => toggle(t.key)} />
+                      <div className="min-w-0 flex-1">
+                        <div className={`font-extrabold ${done ? 'line-through' : ''}`}>{recipeById.get(t.recipeId)?.name || 'Recipe'}</div>
+                        <div className="truncate text-xs text-neutral-500">
+                          {t.station} · for {t.usedIn.map((id) => recipeById.get(id)?.name || 'Recipe').join(', ')}
+                        </div>
+                      </div>
+                      <div className="shrink-0 text-right">
+                        <div className="font-extrabold tabular-nums">{prepAmount(t.recipeId, t.factor)}</div>
+                        <div className="text-xs text-neutral-500">×{fmtQty(t.factor)} batch</div>
+                      </div>
+                    </label>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {list.groups.map((g) => (
+            <div key={g.group} className="mt-5">
+              <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">{g.group}</div>
+              <div className="mt-2 grid gap-2">
+                {g.tasks.map((t) => {
+                  const done = !!plan.checked[t.key]
+                  const ing = ingredientById.get(t.ingredientId)
+                  return (
+                    <label
+                      key={t.key}
+                      className={`flex cursor-pointer items-center gap-3 rounded-2xl border p-3 ${done ? 'border-green-200 bg-green-50 text-neutral-400' : 'border-neutral-200 bg-white'}`}
+                    >
+                      <input type="checkbox" className="h-6 w-6 shrink-0" checked={done} onChange={() => toggle(t.key)} />
+                      <div className="min-w-0 flex-1">
+                        <div className={`font-semibold ${done ? 'line-through' : ''}`}>{ing?.name || 'Ingredient'}</div>
+                        <div className="truncate text-xs text-neutral-500">{t.usedIn.map((id) => recipeById.get(id)?.name || 'Recipe').join(', ')}</div>
+                      </div>
+                      <div className="shrink-0 text-right">
+                        <div className="font-extrabold tabular-nums">{amount(t.qty, t.unit)}</div>
+                        {t.gross > t.qty * 1.001 ? <div className="text-xs text-neutral-500">pull {amount(t.gross, t.unit)}</div> : null}
+                      </div>
+                    </label>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+
+          {list.issues.length > 0 && (
+            <div className="mt-4 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+              {list.issues.map((i, idx) => (
+                <div key={idx}>
+                  {recipeById.get(i.recipeId)?.name || 'Recipe'}: {i.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
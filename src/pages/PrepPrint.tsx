@@ -0,0 +1,208 @@
+// src/pages/PrepPrint.tsx
+// /prep/print → the current prep plan as a tick-off sheet
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { buildPrepList, displayQty, loadPrepContext, loadPrepPlan, PREP_GROUP_LABELS, type PrepContext } from '../lib/prepPlan'
+import { MetricCard, PRINT_BASE_CSS, PRINT_TOOLBAR_BUTTON, SectionTitle, Tag, Td, Th } from '../components/print/PrintKit'
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+function Box({ done }: { done: boolean }) {
+  return (
+    <span className={`inline-flex h-5 w-5 items-center justify-center rounded border-2 text-xs font-bold ${done ? 'border-[#2f6f5e] text-[#2f6f5e]' : 'border-stone-400'}`}>
+      {done ? '✓' : ''}
+    </span>
+  )
+}
+
+export default function PrepPrint() {
+  const nav = useNavigate()
+  const [plan] = useState(() => loadPrepPlan())
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [ctx, setCtx] = useState<PrepContext | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    loadPrepContext()
+      .then((c) => alive && setCtx(c))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load recipes'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  useEffect(() => {
+    if (loading || err || !ctx) return
+    const t = window.setTimeout(() => window.print(), 400)
+    return () => window.clearTimeout(t)
+  }, [loading, err, ctx])
+
+  const list = useMemo(() => (ctx ? buildPrepList({ ...ctx, plan: plan.entries, groupBy: plan.groupBy }) : null), [ctx, plan])
+
+  if (loading) return <div className="gc-card p-6">Loading prep list…</div>
+  if (!ctx || !list) {
+    return (
+      <div className="gc-card p-6">
+        <div className="gc-label">ERROR</div>
+        <div className="mt-2 text-sm text-red-600">{err || 'Failed to load recipes'}</div>
+      </div>
+    )
+  }
+
+  const recipeById = new Map(ctx.recipes.map((r) => [r.id, r]))
+  const ingredientById = new Map(ctx.ingredients.map((i) => [i.id, i]))
+  const recipeName = (id: string) => recipeById.get(id)?.name || 'Recipe'
+  const amount = (qty: number, unit: string) => {
+    const d = displayQty(qty, unit)
+    return `${fmtQty(d.qty)} ${d.unit}`
+  }
+  const covers = plan.entries.reduce((s, e) => s + e.covers, 0)
+  const ingredientTasks = list.groups.reduce((s, g) => s + g.tasks.length, 0)
+
+  return (
+    <>
+      <style>{`
+        ${PRINT_BASE_CSS}
+
+        .prep-table {
+          width: 100%;
+          border-collapse: separate;
+          border-spacing: 0;
+        }
+
+        .prep-table tr {
+          break-inside: avoid;
+          page-break-inside: avoid;
+        }
+      `}</style>
+
+      <div className="print-stage min-h-screen bg-[#f7f6f2] px-4 py-5 md:px-8 md:py-8 text-[#2b2b2b]">
+        <div className="no-print mx-auto mb-4 flex max-w-4xl items-center justify-end gap-3">
+          <button onClick={() => nav('/prep')} className={`${PRINT_TOOLBAR_BUTTON} text-[#8b5e34]`}>
+            ← Back to planner
+          </button>
+          <button onClick={() => window.print()} className={`${PRINT_TOOLBAR_BUTTON} text-[#2f6f5e]`}>
+            Print Now
+          </button>
+        </div>
+
+        <article className="print-paper mx-auto max-w-4xl overflow-hidden rounded-[38px] border border-[#dfe5df] bg-white shadow-[0_22px_60px_rgba(0,0,0,0.08)]">
+          <div className="h-[8px] bg-[linear-gradient(90deg,#556b2f_0%,#2f6f5e_48%,#dfe5df_100%)]" />
+
+          <header className="border-b border-[#dfe5df] bg-[linear-gradient(135deg,#ffffff_0%,#f7f6f2_100%)] p-8 md:p-10">
+            <div className="text-xs font-semibold uppercase tracking-[0.34em] text-[#556b2f]">Prep list</div>
+            <h1 className="mt-3 text-4xl font-semibold tracking-[-0.045em] text-[#2b2b2b] md:text-[3rem] md:leading-[1.02]">{plan.name || 'Service'}</h1>
+            <div className="mt-4 flex flex-wrap gap-2">
+              {plan.date ? <Tag>{plan.date}</Tag> : null}
+              <Tag tone="secondary">By {PREP_GROUP_LABELS[plan.groupBy].toLowerCase()}</Tag>
+            </div>
+          </header>
+
+          <section className="border-b border-[#dfe5df] px-6 py-6 md:px-8">
+            <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+              <MetricCard label="Dishes" value={String(plan.entries.length)} />
+              <MetricCard label="Covers" value={String(covers)} />
+              <MetricCard label="Prep tasks" value={String(list.preps.length)} />
+              <MetricCard label="Ingredients" value={String(ingredientTasks)} />
+            </div>
+            <div className="mt-3 text-xs text-stone-500">
+              {plan.entries.map((e) => `${recipeName(e.recipeId)} × ${e.covers}`).join(' · ')}
+            </div>
+          </section>
+
+          {list.preps.length > 0 && (
+            <section className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8">
+              <SectionTitle>PREP recipes</SectionTitle>
+              <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                <table className="prep-table text-sm">
+                  <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                    <tr>
+                      <Th className="w-10" />
+                      <Th>Recipe</Th>
+                      <Th>Station</Th>
+                      <Th className="text-right">Make</Th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {list.preps.map((t) => {
+                      const r = recipeById.get(t.recipeId)
+                      return (
+                        <tr key={t.key}>
+                          <Td>
+                            <Box done={!!plan.checked[t.key]} />
+                          </Td>
+                          <Td className="text-stone-900">
+                            <div className="font-semibold">{r?.name || 'Recipe'}</div>
+                            <div className="text-xs text-stone-500">for {t.usedIn.map(recipeName).join(', ')}</div>
+                          </Td>
+                          <Td>{t.station}</Td>
+                          <Td className="text-right tabular-nums font-mono">
+                            {r?.yield_qty && r.yield_unit ? amount(t.factor * r.yield_qty, r.yield_unit) : `${fmtQty(t.factor * (r?.portions || 1))} portions`}
+                            <div className="text-xs text-stone-500">×{fmtQty(t.factor)}</div>
+                          </Td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          {list.groups.map((g) => (
+            <section key={g.group} className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8">
+              <SectionTitle>{g.group}</SectionTitle>
+              <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                <table className="prep-table text-sm">
+                  <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                    <tr>
+                      <Th className="w-10" />
+                      <Th>Ingredient</Th>
+                      <Th className="text-right">Prep</Th>
+                      <Th className="text-right">Pull</Th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {g.tasks.map((t) => (
+                      <tr key={t.key}>
+                        <Td>
+                          <Box done={!!plan.checked[t.key]} />
+                        </Td>
+                        <Td className="text-stone-900">
+                          <div className="font-semibold">{ingredientById.get(t.ingredientId)?.name || 'Ingredient'}</div>
+                          <div className="text-xs text-stone-500">{t.usedIn.map(recipeName).join(', ')}</div>
+                        </Td>
+                        <Td className="text-right tabular-nums font-mono">{amount(t.qty, t.unit)}</Td>
+                        <Td className="text-right tabular-nums font-mono text-stone-500">{amount(t.gross, t.unit)}</Td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          ))}
+
+          <footer className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] px-6 py-5 text-xs text-stone-500 md:px-8">
+            {list.issues.length > 0 && (
+              <div className="mb-3 text-amber-800">
+                {list.issues.map((i, idx) => (
+                  <div key={idx}>
+                    {recipeName(i.recipeId)}: {i.message}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-col gap-1 md:flex-row md:items-center md:justify-between">
+              <div className="font-semibold uppercase tracking-[0.2em] text-[#556b2f]">Prep · pull quantities include trim loss</div>
+              <div>Printed {new Date().toLocaleString()}</div>
+            </div>
+          </footer>
+        </article>
+      </div>
+    </>
+  )
+}
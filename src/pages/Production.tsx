@@ -0,0 +1,321 @@
+// src/pages/Production.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { displayCode } from '../lib/codes'
+import { loadCostingLines, type CostingLine } from '../lib/recipeCosting'
+import { listLocations, listPrepStock, type PrepStockLevel, type StockLocation } from '../lib/inventory'
+import type { RequirementIssue } from '../lib/purchasing'
+import {
+  batchUnit,
+  costPerUnit,
+  createBatch,
+  listBatches,
+  PRODUCTION_INGREDIENT_FIELDS,
+  yieldVariance,
+  type BatchStatus,
+  type ProductionBatch,
+  type ProductionIngredient,
+} from '../lib/production'
+
+type RecipeRow = {
+  id: string
+  code: string | null
+  name: string
+  portions: number | null
+  yield_qty: number | null
+  yield_unit: string | null
+  is_subrecipe: boolean
+  is_archived: boolean
+}
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+function isExpired(date: string | null) {
+  return !!date && date < new Date().toISOString().slice(0, 10)
+}
+
+const STATUS_CLS: Record<BatchStatus, string> = {
+  open: 'bg-blue-100 text-blue-700',
+  finished: 'bg-green-100 text-green-700',
+}
+
+export default function Production() {
+  const nav = useNavigate()
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [recipes, setRecipes] = useState<RecipeRow[]>([])
+  const [ingredients, setIngredients] = useState<ProductionIngredient[]>([])
+  const [lines, setLines] = useState<CostingLine[]>([])
+  const [locations, setLocations] = useState<StockLocation[]>([])
+  const [batches, setBatches] = useState<ProductionBatch[]>([])
+  const [prepStock, setPrepStock] = useState<PrepStockLevel[]>([])
+  const [statusFilter, setStatusFilter] = useState<BatchStatus | ''>('')
+
+  const [form, setForm] = useState({ recipeId: '', qty: '', locationId: '', expiryDate: '', notes: '' })
+  const [issues, setIssues] = useState<RequirementIssue[]>([])
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const [rec, ing, l, locs, stock] = await Promise.all([
+          supabase.from('recipes').select('id,code,name,portions,yield_qty,yield_unit,is_subrecipe,is_archived').order('name', { ascending: true }),
+          supabase.from('ingredients').select(PRODUCTION_INGREDIENT_FIELDS).order('name', { ascending: true }),
+          loadCostingLines(),
+          listLocations(),
+          listPrepStock().catch(() => []),
+        ])
+        if (rec.error) throw rec.error
+        if (ing.error) throw ing.error
+        if (!alive) return
+        setRecipes((rec.data ?? []) as RecipeRow[])
+        setIngredients((ing.data ?? []) as ProductionIngredient[])
+        setLines(l)
+        setLocations(locs)
+        setPrepStock(stock)
+      } catch (e: any) {
+        if (alive) setErr(e?.message ?? 'Failed to load production data')
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  useEffect(() => {
+    let alive = true
+    setLoading(true)
+    listBatches({ status: statusFilter || null })
+      .then((b) => alive && setBatches(b))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load batches'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [statusFilter])
+
+  const preps = useMemo(() => recipes.filter((r) => r.is_subrecipe && !r.is_archived), [recipes])
+  const recipeById = useMemo(() => new Map(recipes.map((r) => [r.id, r])), [recipes])
+  const locById = useMemo(() => new Map(locations.map((l) => [l.id, l])), [locations])
+  const selected = recipeById.get(form.recipeId)
+  const unit = selected ? batchUnit(selected) : ''
+
+  const prepRows = useMemo(() => {
+    const m = new Map<string, number>()
+    for (const s of prepStock) m.set(s.recipe_id, (m.get(s.recipe_id) ?? 0) + s.qty)
+    return [...m]
+      .map(([id, qty]) => ({ recipe: recipeById.get(id), qty, per: prepStock.filter((s) => s.recipe_id === id) }))
+      .filter((r) => r.recipe)
+      .sort((a, b) => (a.recipe!.name || '').localeCompare(b.recipe!.name || ''))
+  }, [prepStock, recipeById])
+
+  const pickRecipe = (id: string) => {
+    const r = recipeById.get(id)
+    const base = r ? (Number(r.yield_qty) > 0 && r.yield_unit ? Number(r.yield_qty) : Math.max(1, Number(r.portions) || 1)) : 0
+    setForm((f) => ({ ...f, recipeId: id, qty: base ? String(base) : '' }))
+    setIssues([])
+  }
+
+  const start = async () => {
+    if (!selected) return setErr('Pick a PREP recipe')
+    setCreating(true)
+    try {
+      const res = await createBatch({
+        recipe: selected,
+        plannedQty: Number(form.qty),
+        recipes,
+        lines,
+        ingredients,
+        locationId: form.locationId || null,
+        expiryDate: form.expiryDate || null,
+        notes: form.notes,
+      })
+      setIssues(res.issues)
+      setErr(null)
+      if (!res.issues.length) nav(`/production/batch?id=${encodeURIComponent(res.id)}`)
+      else setBatches(await listBatches({ status: statusFilter || null }))
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to start batch')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">PRODUCTION</div>
+        <div className="mt-2 text-2xl font-extrabold">Production Batches</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Record a batch of a PREP recipe. Components are exploded from the recipe; finishing the batch consumes them from stock and stocks the output at its actual cost.
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">PREP recipe</div>
+            <select className="gc-input min-w-[260px]" value={form.recipeId} onChange={(e) => pickRecipe(e.target.value)}>
+              <option value="">Select PREP…</option>
+              {preps.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                  {r.code ? ` · ${r.code}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">To make{unit ? ` (${unit})` : ''}</div>
+            <input className="gc-input w-28" type="number" min={0} step="any" value={form.qty} onChange={(e) => setForm({ ...form, qty: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Store in</div>
+            <select className="gc-input" value={form.locationId} onChange={(e) => setForm({ ...form, locationId: e.target.value })}>
+              <option value="">Default location</option>
+              {locations
+                .filter((l) => l.is_active)
+                .map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Expiry</div>
+            <input className="gc-input" type="date" value={form.expiryDate} onChange={(e) => setForm({ ...form, expiryDate: e.target.value })} />
+          </label>
+          <input className="gc-input" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} placeholder="Notes" />
+          <button className="gc-btn gc-btn-primary" type="button" disabled={creating || !form.recipeId || !(Number(form.qty) > 0)} onClick={start}>
+            {creating ? 'Starting…' : 'Start batch'}
+          </button>
+        </div>
+
+        {issues.length > 0 && (
+          <div className="mt-4 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <div className="font-semibold">Batch started, but some components could not be exploded:</div>
+            <ul className="mt-1 list-disc pl-5">
+              {issues.map((i, idx) => (
+                <li key={idx}>{i.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="gc-label">BATCHES</div>
+          <select className="gc-input" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as BatchStatus | '')}>
+            <option value="">All</option>
+            <option value="open">Open</option>
+            <option value="finished">Finished</option>
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="mt-3 text-sm text-neutral-500">Loading batches…</div>
+        ) : (
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-2">Batch</th>
+                <th>PREP</th>
+                <th>Status</th>
+                <th className="text-right">Planned</th>
+                <th className="text-right">Actual</th>
+                <th className="text-right">Yield var.</th>
+                <th className="text-right">Cost / unit</th>
+                <th>Expiry</th>
+                <th>Location</th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((b) => {
+                const v = yieldVariance(b)
+                return (
+                  <tr key={b.id} className="border-t border-neutral-200/60 cursor-pointer hover:bg-neutral-50" onClick={() => nav(`/production/batch?id=${encodeURIComponent(b.id)}`)}>
+                    <td className="py-2 font-mono text-xs">{b.code || displayCode('PROD', b.id)}</td>
+                    <td className="font-semibold">{recipeById.get(b.recipe_id)?.name || 'Recipe'}</td>
+                    <td>
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_CLS[b.status]}`}>{b.status === 'open' ? 'Open' : 'Finished'}</span>
+                    </td>
+                    <td className="text-right">
+                      {fmtQty(b.planned_qty)} {b.yield_unit || ''}
+                    </td>
+                    <td className="text-right">{b.actual_qty == null ? '—' : `${fmtQty(b.actual_qty)} ${b.yield_unit || ''}`}</td>
+                    <td className={`text-right ${v && v.pct < -0.05 ? 'text-red-600' : v && v.pct > 0.05 ? 'text-green-700' : ''}`}>
+                      {v ? `${v.pct > 0 ? '+' : ''}${v.pct.toFixed(1)}%` : '—'}
+                    </td>
+                    <td className="text-right">{fmtMoney(costPerUnit(b, b.total_cost), currency)}</td>
+                    <td className={isExpired(b.expiry_date) ? 'text-red-600 font-semibold' : ''}>{b.expiry_date || '—'}</td>
+                    <td>{(b.location_id && locById.get(b.location_id)?.name) || '—'}</td>
+                  </tr>
+                )
+              })}
+              {!batches.length && (
+                <tr>
+                  <td colSpan={9} className="py-3 text-neutral-500">
+                    No batches yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="gc-card p-6">
+        <div className="gc-label">PREP STOCK</div>
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">PREP</th>
+              <th>Locations</th>
+              <th className="text-right">On hand</th>
+            </tr>
+          </thead>
+          <tbody>
+            {prepRows.map((r) => (
+              <tr key={r.recipe!.id} className="border-t border-neutral-200/60">
+                <td className="py-2 font-semibold">{r.recipe!.name}</td>
+                <td className="text-xs text-neutral-500">{r.per.map((s) => `${locById.get(s.location_id)?.name || 'Location'}: ${fmtQty(s.qty)}`).join(' · ')}</td>
+                <td className={`text-right font-semibold ${r.qty < 0 ? 'text-red-600' : ''}`}>
+                  {fmtQty(r.qty)} {batchUnit(r.recipe!)}
+                </td>
+              </tr>
+            ))}
+            {!prepRows.length && (
+              <tr>
+                <td colSpan={3} className="py-3 text-neutral-500">
+                  No PREP in stock. Finished batches show up here.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
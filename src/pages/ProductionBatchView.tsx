@@ -0,0 +1,419 @@
+// src/pages/ProductionBatchView.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { displayCode } from '../lib/codes'
+import { getIngredientsCached } from '../lib/ingredientsCache'
+import { loadCostingLines } from '../lib/recipeCosting'
+import { allergenLabel, computeRecipeAllergens, EU_ALLERGENS, listAllergenDefs, type AllergenDef, type AllergenProfile } from '../lib/allergens'
+import { listLocations, type StockLocation } from '../lib/inventory'
+import {
+  batchCost,
+  costPerUnit,
+  deleteBatch,
+  finishBatch,
+  getBatch,
+  lineUsedQty,
+  updateBatch,
+  updateBatchLine,
+  yieldVariance,
+  type ProductionBatch,
+  type ProductionBatchLine,
+} from '../lib/production'
+
+type RecipeRow = { id: string; code: string | null; name: string }
+type IngredientRow = { id: string; code: string | null; name: string | null; pack_unit: string | null }
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+function fmtDate(d: string | null) {
+  return d ? new Date(d.length === 10 ? `${d}T00:00:00` : d).toLocaleDateString() : '—'
+}
+
+export default function ProductionBatchView() {
+  const nav = useNavigate()
+  const loc = useLocation()
+  const [sp] = useSearchParams()
+  const id = sp.get('id') || ''
+  const printMode = loc.pathname.toLowerCase().includes('/print')
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [batch, setBatch] = useState<ProductionBatch | null>(null)
+  const [lines, setLines] = useState<ProductionBatchLine[]>([])
+  const [recipe, setRecipe] = useState<RecipeRow | null>(null)
+  const [ingredients, setIngredients] = useState<Map<string, IngredientRow>>(new Map())
+  const [locations, setLocations] = useState<StockLocation[]>([])
+  const [allergens, setAllergens] = useState<AllergenProfile | null>(null)
+  const [defs, setDefs] = useState<AllergenDef[]>(EU_ALLERGENS)
+  const [busy, setBusy] = useState(false)
+
+  const [actual, setActual] = useState('')
+  const [lineDrafts, setLineDrafts] = useState<Record<string, string>>({})
+
+  const load = async () => {
+    const res = await getBatch(id)
+    const [rec, ing, locs] = await Promise.all([
+      supabase.from('recipes').select('id,code,name').eq('id', res.batch.recipe_id).single(),
+      supabase.from('ingredients').select('id,code,name,pack_unit'),
+      listLocations(),
+    ])
+    if (rec.error) throw rec.error
+    if (ing.error) throw ing.error
+    setBatch(res.batch)
+    setLines(res.lines)
+    setRecipe(rec.data as RecipeRow)
+    setIngredients(new Map(((ing.data ?? []) as IngredientRow[]).map((i) => [i.id, i])))
+    setLocations(locs)
+    setActual(res.batch.actual_qty == null ? String(res.batch.planned_qty) : String(res.batch.actual_qty))
+  }
+
+  useEffect(() => {
+    let alive = true
+    if (!id) {
+      setErr('No batch selected')
+      setLoading(false)
+      return
+    }
+    load()
+      .then(() => alive && setErr(null))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load batch'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id])
+
+  // Allergens only matter on the label; failures just leave them off.
+  useEffect(() => {
+    if (!batch) return
+    let alive = true
+    Promise.all([getIngredientsCached(), loadCostingLines(), listAllergenDefs().catch(() => EU_ALLERGENS)])
+      .then(([ing, l, d]) => {
+        if (!alive) return
+        setAllergens(computeRecipeAllergens({ ingredients: ing, lines: l }).get(batch.recipe_id) ?? null)
+        setDefs(d)
+      })
+      .catch(() => {})
+    return () => {
+      alive = false
+    }
+  }, [batch?.recipe_id])
+
+  useEffect(() => {
+    if (!printMode || loading || err) return
+    const t = window.setTimeout(() => window.print(), 400)
+    return () => window.clearTimeout(t)
+  }, [printMode, loading, err])
+
+  const cost = useMemo(() => batchCost(lines), [lines])
+  const plannedCost = useMemo(() => lines.reduce((s, l) => s + l.planned_qty * l.unit_cost, 0), [lines])
+  const locationName = (lid: string | null) => (lid && locations.find((l) => l.id === lid)?.name) || 'Default location'
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await fn()
+      await load()
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Batch update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveLine = async (line: ProductionBatchLine) => {
+    const raw = lineDrafts[line.id]
+    if (raw === undefined) return
+    const t = raw.trim()
+    const next = t === '' ? null : Math.max(0, Number(t))
+    if (next != null && !Number.isFinite(next)) return
+    setLines((prev) => prev.map((l) => (l.id === line.id ? { ...l, actual_qty: next } : l)))
+    setLineDrafts(({ [line.id]: _, ...rest }) => rest)
+    try {
+      await updateBatchLine(line.id, next)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to save quantity')
+    }
+  }
+
+  if (loading) return <div className="gc-card p-6">Loading batch…</div>
+  if (!batch) {
+    return (
+      <div className="gc-card p-6 space-y-2">
+        <div className="gc-label">ERROR</div>
+        <div className="text-sm text-red-600">{err || 'Batch not found'}</div>
+      </div>
+    )
+  }
+
+  const contains = allergens ? [...allergens.contains].map((c) => allergenLabel(defs, c)) : []
+  const mayContain = allergens ? [...allergens.mayContain].map((c) => allergenLabel(defs, c)) : []
+
+  if (printMode) {
+    const qty = batch.actual_qty ?? batch.planned_qty
+    return (
+      <div className="p-4">
+        <div className="pb-label">
+          <div className="text-lg font-extrabold leading-tight">{recipe?.name || 'PREP'}</div>
+          <div className="font-mono text-xs">{batch.code || displayCode('PROD', batch.id)}</div>
+          <div className="mt-2 grid grid-cols-2 gap-x-3 text-xs">
+            <div>Made</div>
+            <div className="font-semibold">{fmtDate(batch.finished_at || batch.created_at)}</div>
+            <div>Use by</div>
+            <div className="font-extrabold">{fmtDate(batch.expiry_date)}</div>
+            <div>Qty</div>
+            <div className="font-semibold">
+              {fmtQty(qty)} {batch.yield_unit || ''}
+            </div>
+            <div>Location</div>
+            <div>{locationName(batch.location_id)}</div>
+          </div>
+          {(contains.length > 0 || mayContain.length > 0) && (
+            <div className="mt-2 text-xs">
+              {contains.length > 0 && (
+                <div>
+                  <span className="font-bold">Contains:</span> {contains.join(', ')}
+                </div>
+              )}
+              {mayContain.length > 0 && (
+                <div>
+                  <span className="font-bold">May contain:</span> {mayContain.join(', ')}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="pb-noprint mt-4 flex gap-2">
+          <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/production/batch?id=${encodeURIComponent(batch.id)}`)}>
+            ← Back
+          </button>
+          <button className="gc-btn gc-btn-primary" type="button" onClick={() => window.print()}>
+            Print
+          </button>
+        </div>
+
+        <style>{`
+          .pb-label { width: 80mm; border: 1px solid #222; border-radius: 6px; padding: 8px 10px; }
+          @media print {
+            @page { size: auto; margin: 5mm; }
+            .pb-noprint { display: none !important; }
+          }
+        `}</style>
+      </div>
+    )
+  }
+
+  const open = batch.status === 'open'
+  const shown = { ...batch, actual_qty: open ? (actual.trim() === '' ? null : Number(actual)) : batch.actual_qty }
+  const variance = yieldVariance(shown)
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="gc-label">PRODUCTION BATCH</div>
+            <div className="mt-2 text-2xl font-extrabold">{recipe?.name || 'PREP'}</div>
+            <div className="mt-2 text-sm text-neutral-600">
+              <span className="font-mono">{batch.code || displayCode('PROD', batch.id)}</span> · {open ? 'open' : `finished ${fmtDate(batch.finished_at)}`}
+              {recipe?.code ? ` · ${recipe.code}` : ''}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav('/production')}>
+              ← Batches
+            </button>
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/production/print?id=${encodeURIComponent(batch.id)}`)}>
+              Print label
+            </button>
+            {open && (
+              <button
+                className="gc-btn gc-btn-ghost"
+                type="button"
+                disabled={busy}
+                onClick={() => {
+                  if (!window.confirm('Discard this batch?')) return
+                  run(async () => {
+                    await deleteBatch(batch.id)
+                    nav('/production')
+                  })
+                }}
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-4 grid gap-4 md:grid-cols-4">
+          <div>
+            <div className="gc-label">PLANNED</div>
+            <div className="mt-1 text-xl font-extrabold">
+              {fmtQty(batch.planned_qty)} {batch.yield_unit || ''}
+            </div>
+            <div className="text-xs text-neutral-500">{fmtMoney(costPerUnit({ planned_qty: batch.planned_qty, actual_qty: null }, plannedCost), currency)} / unit</div>
+          </div>
+          <div>
+            <div className="gc-label">ACTUAL</div>
+            {open ? (
+              <input className="gc-input mt-1 w-32" type="number" min={0} step="any" value={actual} onChange={(e) => setActual(e.target.value)} />
+            ) : (
+              <div className="mt-1 text-xl font-extrabold">
+                {batch.actual_qty == null ? '—' : fmtQty(batch.actual_qty)} {batch.yield_unit || ''}
+              </div>
+            )}
+            <div className="text-xs text-neutral-500">{fmtMoney(costPerUnit(shown, cost), currency)} / unit</div>
+          </div>
+          <div>
+            <div className="gc-label">YIELD VARIANCE</div>
+            <div className={`mt-1 text-xl font-extrabold ${variance && variance.pct < -0.05 ? 'text-red-600' : variance && variance.pct > 0.05 ? 'text-green-700' : ''}`}>
+              {variance ? `${variance.pct > 0 ? '+' : ''}${variance.pct.toFixed(1)}%` : '—'}
+            </div>
+            <div className="text-xs text-neutral-500">
+              {variance ? `${variance.diff > 0 ? '+' : ''}${fmtQty(variance.diff)} ${batch.yield_unit || ''}` : 'vs theoretical yield'}
+            </div>
+          </div>
+          <div>
+            <div className="gc-label">BATCH COST</div>
+            <div className="mt-1 text-xl font-extrabold">{fmtMoney(cost, currency)}</div>
+            <div className="text-xs text-neutral-500">planned {fmtMoney(plannedCost, currency)}</div>
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Expiry</div>
+            <input
+              className="gc-input"
+              type="date"
+              value={batch.expiry_date || ''}
+              onChange={(e) => {
+                const expiry_date = e.target.value || null
+                setBatch({ ...batch, expiry_date })
+                updateBatch(batch.id, { expiry_date }).catch((er: any) => setErr(er?.message ?? 'Failed to save expiry'))
+              }}
+            />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Location</div>
+            {open ? (
+              <select
+                className="gc-input"
+                value={batch.location_id || ''}
+                onChange={(e) => {
+                  const location_id = e.target.value || null
+                  setBatch({ ...batch, location_id })
+                  updateBatch(batch.id, { location_id }).catch((er: any) => setErr(er?.message ?? 'Failed to save location'))
+                }}
+              >
+                <option value="">Default location</option>
+                {locations
+                  .filter((l) => l.is_active)
+                  .map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+              </select>
+            ) : (
+              <div className="py-2">{locationName(batch.location_id)}</div>
+            )}
+          </label>
+          {open && (
+            <button
+              className="gc-btn gc-btn-primary"
+              type="button"
+              disabled={busy || actual.trim() === '' || !(Number(actual) >= 0)}
+              onClick={() => {
+                if (!window.confirm('Finish the batch? Components are consumed from stock and the output is stocked.')) return
+                run(() => finishBatch(batch.id, { actualQty: Number(actual), locationId: batch.location_id }))
+              }}
+            >
+              {busy ? 'Finishing…' : 'Finish batch'}
+            </button>
+          )}
+        </div>
+        {batch.notes && <div className="mt-3 text-sm text-neutral-600">{batch.notes}</div>}
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="gc-label">COMPONENTS</div>
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Ingredient</th>
+              <th className="text-right">Planned</th>
+              <th className="text-right">Used</th>
+              <th className="text-right">Unit cost</th>
+              <th className="text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((l) => {
+              const ing = l.ingredient_id ? ingredients.get(l.ingredient_id) : undefined
+              return (
+                <tr key={l.id} className="border-t border-neutral-200/60">
+                  <td className="py-2">
+                    <div className="font-semibold">{ing?.name || 'Ingredient'}</div>
+                    {ing?.code && <div className="font-mono text-xs text-neutral-500">{ing.code}</div>}
+                  </td>
+                  <td className="text-right">
+                    {fmtQty(l.planned_qty)} {l.unit || ''}
+                  </td>
+                  <td className="text-right">
+                    {open ? (
+                      <input
+                        className="gc-input w-24 text-right"
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder={fmtQty(l.planned_qty)}
+                        value={lineDrafts[l.id] ?? (l.actual_qty == null ? '' : String(l.actual_qty))}
+                        onChange={(e) => setLineDrafts((d) => ({ ...d, [l.id]: e.target.value }))}
+                        onBlur={() => saveLine(l)}
+                      />
+                    ) : (
+                      `${fmtQty(lineUsedQty(l))} ${l.unit || ''}`
+                    )}
+                  </td>
+                  <td className="text-right">{fmtMoney(l.unit_cost, currency)}</td>
+                  <td className="text-right font-semibold">{fmtMoney(lineUsedQty(l) * l.unit_cost, currency)}</td>
+                </tr>
+              )
+            })}
+            {!lines.length && (
+              <tr>
+                <td colSpan={5} className="py-3 text-neutral-500">
+                  This recipe has no ingredient components.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 // src/pages/PublicSharePortal.tsx
-import { useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useParams, NavLink } from 'react-router-dom'
-import { parsePublicShareToken, type PublicSharePayload } from '../lib/publicShare'
+import { SHARE_REDACTION_LABELS, SHARE_STATUS_MESSAGES, verifyPublicShareToken, type PublicSharePayload } from '../lib/publicShare'
 
 function toNum(x: any, fallback = 0) {
   const n = Number(x)
@@ -39,13 +39,27 @@ function fmtMacro(n: number | null | undefined) {
 export default function PublicSharePortal() {
   const { token } = useParams<{ token: string }>()
 
-  const parsed = useMemo(() => {
-    if (!token) return { payload: null as PublicSharePayload | null, error: 'Missing token.' }
-    try {
-      const p = parsePublicShareToken(token)
-      return { payload: p, error: null as string | null }
-    } catch (e: any) {
-      return { payload: null, error: e?.message || 'Invalid token.' }
+  const [verifying, setVerifying] = useState(true)
+  const [parsed, setParsed] = useState<{ payload: PublicSharePayload | null; error: string | null }>({ payload: null, error: null })
+
+  // Nothing from the token is rendered until the DB has vouched for its signature, expiry and revocation.
+  useEffect(() => {
+    let alive = true
+    if (!token) {
+      setParsed({ payload: null, error: 'Missing token.' })
+      setVerifying(false)
+      return
+    }
+    setVerifying(true)
+    verifyPublicShareToken(token)
+      .then(({ payload, status }) => {
+        if (!alive) return
+        setParsed(status === 'ok' ? { payload, error: null } : { payload: null, error: SHARE_STATUS_MESSAGES[status] })
+      })
+      .catch((e: any) => alive && setParsed({ payload: null, error: e?.message || 'Invalid token.' }))
+      .finally(() => alive && setVerifying(false))
+    return () => {
+      alive = false
     }
   }, [token])
 
@@ -121,6 +135,16 @@ export default function PublicSharePortal() {
     return { totalCost, portions, perPortion, selling, foodCostPct }
   }, [payload, computed])
 
+  if (verifying) {
+    return (
+      <div className="min-h-screen bg-neutral-50 p-6">
+        <div className="mx-auto max-w-2xl">
+          <div className="gc-card p-6 text-sm text-neutral-600">Checking share link…</div>
+        </div>
+      </div>
+    )
+  }
+
   if (err) {
     return (
       <div className="min-h-screen bg-neutral-50 p-6">
@@ -142,6 +166,9 @@ export default function PublicSharePortal() {
 
   const recipe = payload.recipe
   const lines = [...payload.lines].sort((a, b) => toNum(a.position, 0) - toNum(b.position, 0))
+  const redaction = payload.redaction ?? 'full'
+  const showCosts = redaction === 'full'
+  const showLines = redaction !== 'method'
 
   return (
     <div className="min-h-screen bg-neutral-50">
@@ -177,69 +204,73 @@ export default function PublicSharePortal() {
               {recipe.description ? <div className="mt-3 text-sm text-neutral-700 whitespace-pre-wrap">{recipe.description}</div> : null}
             </div>
 
-            <div className="gc-card-soft p-4 min-w-[260px]">
-              <div className="gc-label">COST SNAPSHOT</div>
-              <div className="mt-2 text-sm text-neutral-700">Total cost</div>
-              <div className="text-xl font-extrabold">{fmtMoney(totals.totalCost, currency)}</div>
-              <div className="mt-2 text-sm text-neutral-700">Per portion</div>
-              <div className="text-lg font-bold">{fmtMoney(totals.perPortion, currency)}</div>
-              {totals.selling != null ? (
-                <div className="mt-2 text-xs text-neutral-600">
-                  Selling: <span className="font-semibold">{fmtMoney(totals.selling, currency)}</span>
-                  {totals.foodCostPct != null ? (
-                    <>
-                      {' '}• Food cost: <span className="font-semibold">{totals.foodCostPct.toFixed(1)}%</span>
-                    </>
-                  ) : null}
-                </div>
-              ) : (
-                <div className="mt-2 text-xs text-neutral-500">Selling price not included</div>
-              )}
-            </div>
+            {showCosts ? (
+              <div className="gc-card-soft p-4 min-w-[260px]">
+                <div className="gc-label">COST SNAPSHOT</div>
+                <div className="mt-2 text-sm text-neutral-700">Total cost</div>
+                <div className="text-xl font-extrabold">{fmtMoney(totals.totalCost, currency)}</div>
+                <div className="mt-2 text-sm text-neutral-700">Per portion</div>
+                <div className="text-lg font-bold">{fmtMoney(totals.perPortion, currency)}</div>
+                {totals.selling != null ? (
+                  <div className="mt-2 text-xs text-neutral-600">
+                    Selling: <span className="font-semibold">{fmtMoney(totals.selling, currency)}</span>
+                    {totals.foodCostPct != null ? (
+                      <>
+                        {' '}• Food cost: <span className="font-semibold">{totals.foodCostPct.toFixed(1)}%</span>
+                      </>
+                    ) : null}
+                  </div>
+                ) : (
+                  <div className="mt-2 text-xs text-neutral-500">Selling price not included</div>
+                )}
+              </div>
+            ) : null}
           </div>
 
-          <div className="mt-6 grid gap-6 lg:grid-cols-2">
-            <div>
-              <div className="gc-label">INGREDIENTS</div>
-              <div className="mt-3 gc-table-wrap">
-                <table className="gc-table">
-                  <thead>
-                    <tr>
-                      <th>Item</th>
-                      <th className="text-right">Net</th>
-                      <th className="text-right">Yield</th>
-                      <th className="text-right">Gross</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {lines.map((l) => {
-                      if (l.line_type === 'group') {
+          <div className={`mt-6 grid gap-6 ${showLines ? 'lg:grid-cols-2' : ''}`}>
+            {showLines ? (
+              <div>
+                <div className="gc-label">INGREDIENTS</div>
+                <div className="mt-3 gc-table-wrap">
+                  <table className="gc-table">
+                    <thead>
+                      <tr>
+                        <th>Item</th>
+                        <th className="text-right">Net</th>
+                        <th className="text-right">Yield</th>
+                        <th className="text-right">Gross</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map((l) => {
+                        if (l.line_type === 'group') {
+                          return (
+                            <tr key={`g_${l.position}`}>
+                              <td colSpan={4} className="text-xs font-extrabold tracking-widest text-neutral-500 bg-neutral-50">
+                                {l.group_title || 'GROUP'}
+                              </td>
+                            </tr>
+                          )
+                        }
+                        const c = computed.get(l.position)
+                        if (!c) return null
                         return (
-                          <tr key={`g_${l.position}`}>
-                            <td colSpan={4} className="text-xs font-extrabold tracking-widest text-neutral-500 bg-neutral-50">
-                              {l.group_title || 'GROUP'}
+                          <tr key={`${l.line_type}_${l.position}`}>
+                            <td>
+                              <div className="font-semibold">{c.title}</div>
+                              {c.notes ? <div className="text-xs text-neutral-500 mt-0.5">{c.notes}</div> : null}
                             </td>
+                            <td className="text-right">{fmtQty(c.net)} {safeUnit(l.unit)}</td>
+                            <td className="text-right">{fmtQty(c.yieldPct)}%</td>
+                            <td className="text-right">{fmtQty(c.gross)} {safeUnit(l.unit)}</td>
                           </tr>
                         )
-                      }
-                      const c = computed.get(l.position)
-                      if (!c) return null
-                      return (
-                        <tr key={`${l.line_type}_${l.position}`}>
-                          <td>
-                            <div className="font-semibold">{c.title}</div>
-                            {c.notes ? <div className="text-xs text-neutral-500 mt-0.5">{c.notes}</div> : null}
-                          </td>
-                          <td className="text-right">{fmtQty(c.net)} {safeUnit(l.unit)}</td>
-                          <td className="text-right">{fmtQty(c.yieldPct)}%</td>
-                          <td className="text-right">{fmtQty(c.gross)} {safeUnit(l.unit)}</td>
-                        </tr>
-                      )
-                    })}
-                  </tbody>
-                </table>
+                      })}
+                    </tbody>
+                  </table>
+                </div>
               </div>
-            </div>
+            ) : null}
 
             <div>
               <div className="gc-label">METHOD</div>
@@ -277,11 +308,19 @@ export default function PublicSharePortal() {
                 <div className="gc-card-soft p-4">
                   <div className="gc-label">ABOUT THIS SHARE</div>
                   <div className="mt-2 text-xs text-neutral-600">
-                    This link contains a read-only snapshot of the recipe data. No database access is required.
+                    This link contains a signed, read-only snapshot of the recipe data. The owner can revoke it at any time.
                   </div>
                   <div className="mt-2 text-xs text-neutral-500">
                     Generated: <span className="font-semibold">{new Date(payload.created_at).toLocaleString()}</span>
                   </div>
+                  <div className="mt-1 text-xs text-neutral-500">
+                    Shows: <span className="font-semibold">{SHARE_REDACTION_LABELS[redaction]}</span>
+                  </div>
+                  {payload.exp ? (
+                    <div className="mt-1 text-xs text-neutral-500">
+                      Expires: <span className="font-semibold">{new Date(payload.exp).toLocaleString()}</span>
+                    </div>
+                  ) : null}
                 </div>
               </div>
             </div>
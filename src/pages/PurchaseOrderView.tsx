@@ -0,0 +1,353 @@
+// src/pages/PurchaseOrderView.tsx
+import { useEffect, useState } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { listSuppliers, type Supplier } from '../lib/suppliers'
+import { listLocations, type StockLocation } from '../lib/inventory'
+import {
+  deletePurchaseOrder,
+  deletePurchaseOrderLine,
+  getPurchaseOrder,
+  orderTotal,
+  PO_STATUS_LABELS,
+  setPurchaseOrderStatus,
+  updatePurchaseOrder,
+  updatePurchaseOrderLine,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+} from '../lib/purchasing'
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: (currency || 'USD').toUpperCase() }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+export default function PurchaseOrderView() {
+  const nav = useNavigate()
+  const loc = useLocation()
+  const [sp] = useSearchParams()
+  const id = sp.get('id') || ''
+  const printMode = loc.pathname.toLowerCase().includes('/print')
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [order, setOrder] = useState<PurchaseOrder | null>(null)
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([])
+  const [supplier, setSupplier] = useState<Supplier | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [locations, setLocations] = useState<StockLocation[]>([])
+  const [receiveTo, setReceiveTo] = useState('')
+
+  const reload = async () => {
+    const res = await getPurchaseOrder(id)
+    setOrder(res.order)
+    setLines(res.lines)
+    return res.order
+  }
+
+  useEffect(() => {
+    let alive = true
+    if (!id) {
+      setErr('No purchase order selected')
+      setLoading(false)
+      return
+    }
+    ;(async () => {
+      try {
+        const [res, suppliers, locs] = await Promise.all([getPurchaseOrder(id), listSuppliers(), listLocations().catch(() => [])])
+        if (!alive) return
+        const active = locs.filter((l) => l.is_active)
+        setLocations(active)
+        setReceiveTo((active.find((l) => l.is_default) ?? active[0])?.id ?? '')
+        setOrder(res.order)
+        setLines(res.lines)
+        setSupplier(suppliers.find((s) => s.id === res.order.supplier_id) ?? null)
+      } catch (e: any) {
+        if (alive) setErr(e?.message ?? 'Failed to load purchase order')
+      } finally {
+        if (alive) setLoading(false)
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (!printMode || loading || err) return
+    const t = window.setTimeout(() => window.print(), 400)
+    return () => window.clearTimeout(t)
+  }, [printMode, loading, err])
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await fn()
+      await reload()
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const patchLineLocal = (lineId: string, patch: Partial<PurchaseOrderLine>) =>
+    setLines((prev) => prev.map((l) => (l.id === lineId ? { ...l, ...patch } : l)))
+
+  const onDelete = async () => {
+    if (!order || !window.confirm(`Delete ${order.code || 'this order'}?`)) return
+    try {
+      await deletePurchaseOrder(order.id)
+      nav('/purchasing')
+    } catch (e: any) {
+      setErr(e?.message ?? 'Delete failed')
+    }
+  }
+
+  if (loading) return <div className="gc-card p-6">Loading purchase order…</div>
+  if (!order) {
+    return (
+      <div className="gc-card p-6 space-y-2">
+        <div className="gc-label">ERROR</div>
+        <div className="text-sm text-red-600">{err || 'Purchase order not found'}</div>
+      </div>
+    )
+  }
+
+  const editable = order.status === 'draft' && !printMode
+  const receiving = order.status === 'sent' && !printMode
+  const total = orderTotal(lines)
+
+  return (
+    <div className={printMode ? 'po-print p-6' : 'space-y-6'}>
+      {!printMode && (
+        <div className="gc-card p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className="gc-label">PURCHASE ORDER</div>
+              <div className="mt-2 text-2xl font-extrabold font-mono">{order.code || 'PO'}</div>
+              <div className="mt-2 text-sm text-neutral-600">
+                {supplier?.name || 'No supplier'} · {PO_STATUS_LABELS[order.status]}
+                {order.sent_at && ` · sent ${new Date(order.sent_at).toLocaleDateString()}`}
+                {order.received_at && ` · received ${new Date(order.received_at).toLocaleDateString()}`}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav('/purchasing')}>
+                ← Orders
+              </button>
+              <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/purchasing/print?id=${encodeURIComponent(order.id)}`)}>
+                Print / PDF
+              </button>
+              {order.status === 'draft' && (
+                <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !lines.length} onClick={() => run(() => setPurchaseOrderStatus(order.id, 'sent'))}>
+                  Mark sent
+                </button>
+              )}
+              {order.status === 'sent' && (
+                <>
+                  <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => run(() => setPurchaseOrderStatus(order.id, 'draft'))}>
+                    Back to draft
+                  </button>
+                  {locations.length > 1 && (
+                    <select className="gc-input" value={receiveTo} onChange={(e) => setReceiveTo(e.target.value)} title="Receive into">
+                      {locations.map((l) => (
+                        <option key={l.id} value={l.id}>
+                          Into {l.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    className="gc-btn gc-btn-primary"
+                    type="button"
+                    disabled={busy}
+                    onClick={() => run(() => setPurchaseOrderStatus(order.id, 'received', { locationId: receiveTo || null }))}
+                  >
+                    Mark received
+                  </button>
+                </>
+              )}
+              {order.status !== 'received' && (
+                <button className="gc-btn gc-btn-ghost text-red-600" type="button" disabled={busy} onClick={onDelete}>
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-4 grid gap-3 md:grid-cols-3">
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Expected delivery</div>
+              <input
+                className="gc-input w-full"
+                type="date"
+                value={order.expected_date ?? ''}
+                disabled={order.status === 'received'}
+                onChange={(e) => setOrder({ ...order, expected_date: e.target.value || null })}
+                onBlur={() => run(() => updatePurchaseOrder(order.id, { expected_date: order.expected_date }))}
+              />
+            </label>
+            <label className="text-sm md:col-span-2">
+              <div className="text-xs text-neutral-500 mb-1">Notes</div>
+              <input
+                className="gc-input w-full"
+                value={order.notes ?? ''}
+                onChange={(e) => setOrder({ ...order, notes: e.target.value })}
+                onBlur={() => run(() => updatePurchaseOrder(order.id, { notes: order.notes?.trim() || null }))}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {err && !printMode && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      {printMode && (
+        <div className="mb-6 flex flex-wrap justify-between gap-6">
+          <div>
+            <div className="text-2xl font-extrabold">Purchase order {order.code}</div>
+            <div className="text-sm text-neutral-600">Date {new Date(order.created_at).toLocaleDateString()}</div>
+            {order.expected_date && <div className="text-sm text-neutral-600">Requested delivery {new Date(order.expected_date).toLocaleDateString()}</div>}
+          </div>
+          <div className="text-sm">
+            <div className="font-bold">{supplier?.name || 'Supplier'}</div>
+            {supplier?.contact_name && <div>{supplier.contact_name}</div>}
+            {supplier?.email && <div>{supplier.email}</div>}
+            {supplier?.phone && <div>{supplier.phone}</div>}
+          </div>
+        </div>
+      )}
+
+      <div className={printMode ? '' : 'gc-card p-6'}>
+        <table className="po-table w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Item</th>
+              <th>SKU</th>
+              <th className="text-right">Pack</th>
+              <th className="text-right">Packs</th>
+              {(receiving || order.status === 'received') && <th className="text-right">Received</th>}
+              <th className="text-right">Unit price</th>
+              <th className="text-right">Total</th>
+              {editable && <th />}
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((l) => (
+              <tr key={l.id} className="border-t border-neutral-200/60">
+                <td className="py-2">
+                  {l.description}
+                  {!printMode && l.required_qty > 0 && (
+                    <div className="text-xs text-neutral-500">
+                      needed {fmtQty(l.required_qty)} · ordering {fmtQty(l.packs * l.pack_size)} {l.pack_unit}
+                    </div>
+                  )}
+                </td>
+                <td className="font-mono text-xs">{l.supplier_sku || '—'}</td>
+                <td className="text-right">
+                  {fmtQty(l.pack_size)} {l.pack_unit}
+                </td>
+                <td className="text-right">
+                  {editable ? (
+                    <input
+                      className="gc-input w-20 text-right"
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={l.packs}
+                      onChange={(e) => patchLineLocal(l.id, { packs: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                      onBlur={() => run(() => updatePurchaseOrderLine(l.id, { packs: l.packs }))}
+                    />
+                  ) : (
+                    fmtQty(l.packs)
+                  )}
+                </td>
+                {(receiving || order.status === 'received') && (
+                  <td className="text-right">
+                    {receiving ? (
+                      <input
+                        className="gc-input w-20 text-right"
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={l.received_packs ?? ''}
+                        placeholder={fmtQty(l.packs)}
+                        onChange={(e) => patchLineLocal(l.id, { received_packs: e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0) })}
+                        onBlur={() => run(() => updatePurchaseOrderLine(l.id, { received_packs: l.received_packs }))}
+                      />
+                    ) : (
+                      <span className={l.received_packs != null && l.received_packs < l.packs ? 'text-amber-700 font-semibold' : ''}>{fmtQty(l.received_packs ?? l.packs)}</span>
+                    )}
+                  </td>
+                )}
+                <td className="text-right">{fmtMoney(l.pack_price, order.currency)}</td>
+                <td className="text-right font-semibold">{fmtMoney(l.packs * l.pack_price, order.currency)}</td>
+                {editable && (
+                  <td className="text-right">
+                    <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => run(() => deletePurchaseOrderLine(l.id))}>
+                      Remove
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {!lines.length && (
+              <tr>
+                <td colSpan={8} className="py-3 text-neutral-500">
+                  No lines.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-neutral-300">
+              <td className="py-2 font-bold" colSpan={(receiving || order.status === 'received' ? 6 : 5)}>
+                Total
+              </td>
+              <td className="text-right font-extrabold">{fmtMoney(total, order.currency)}</td>
+              {editable && <td />}
+            </tr>
+          </tfoot>
+        </table>
+        {!printMode && supplier?.min_order_value != null && total < supplier.min_order_value && (
+          <div className="mt-3 text-sm text-amber-700">Below {supplier.name}'s minimum order of {fmtMoney(supplier.min_order_value, order.currency)}.</div>
+        )}
+      </div>
+
+      {printMode && order.notes && <div className="mt-4 text-sm">Notes: {order.notes}</div>}
+
+      {printMode && (
+        <div className="po-noprint mt-4 flex gap-2">
+          <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/purchasing/order?id=${encodeURIComponent(order.id)}`)}>
+            ← Back
+          </button>
+          <button className="gc-btn gc-btn-primary" type="button" onClick={() => window.print()}>
+            Print
+          </button>
+        </div>
+      )}
+
+      <style>{`
+        @media print {
+          @page { margin: 12mm; }
+          .po-noprint { display: none !important; }
+          .po-table th, .po-table td { border-bottom: 1px solid #999; padding: 4px 6px; }
+        }
+      `}</style>
+    </div>
+  )
+}
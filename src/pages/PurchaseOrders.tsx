@@ -0,0 +1,401 @@
+// src/pages/PurchaseOrders.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { loadCostingLines, type CostingLine } from '../lib/recipeCosting'
+import { listOffers, listSuppliers, type Supplier, type SupplierOffer } from '../lib/suppliers'
+import { listStockLevels, totalOnHand } from '../lib/inventory'
+import {
+  buildDraftOrders,
+  createPurchaseOrders,
+  explodePlan,
+  listPurchaseOrders,
+  orderTotal,
+  parRequirements,
+  PO_STATUS_LABELS,
+  PURCHASING_INGREDIENT_FIELDS,
+  type DraftOrder,
+  type PlanItem,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseOrderStatus,
+  type PurchasingIngredient,
+  type RequirementIssue,
+} from '../lib/purchasing'
+
+type RecipeRow = {
+  id: string
+  code: string | null
+  name: string
+  portions: number | null
+  yield_qty: number | null
+  yield_unit: string | null
+  is_subrecipe: boolean
+  is_archived: boolean
+}
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: (currency || 'USD').toUpperCase() }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+const STATUS_CLS: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-neutral-100 text-neutral-700',
+  sent: 'bg-blue-100 text-blue-700',
+  received: 'bg-green-100 text-green-700',
+}
+
+export default function PurchaseOrders() {
+  const nav = useNavigate()
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [orders, setOrders] = useState<Array<PurchaseOrder & { lines: PurchaseOrderLine[] }>>([])
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('')
+
+  const [recipes, setRecipes] = useState<RecipeRow[]>([])
+  const [ingredients, setIngredients] = useState<PurchasingIngredient[]>([])
+  const [lines, setLines] = useState<CostingLine[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [offers, setOffers] = useState<SupplierOffer[]>([])
+  const [onHand, setOnHand] = useState<Map<string, number>>(new Map())
+
+  const [mode, setMode] = useState<'plan' | 'par'>('plan')
+  const [plan, setPlan] = useState<PlanItem[]>([{ recipeId: '', portions: 10 }])
+  const [drafts, setDrafts] = useState<DraftOrder[] | null>(null)
+  const [issues, setIssues] = useState<RequirementIssue[]>([])
+  const [creating, setCreating] = useState(false)
+
+  const loadOrders = async (status: PurchaseOrderStatus | '') => {
+    setOrders(await listPurchaseOrders(status || null))
+  }
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const [rec, ing, l, s, o, stock] = await Promise.all([
+          supabase.from('recipes').select('id,code,name,portions,yield_qty,yield_unit,is_subrecipe,is_archived').order('name', { ascending: true }),
+          supabase.from('ingredients').select(PURCHASING_INGREDIENT_FIELDS).order('name', { ascending: true }),
+          loadCostingLines(),
+          listSuppliers(),
+          listOffers(),
+          listStockLevels().catch(() => []),
+        ])
+        if (rec.error) throw rec.error
+        if (ing.error) throw ing.error
+        if (!alive) return
+        setRecipes((rec.data ?? []) as RecipeRow[])
+        setIngredients((ing.data ?? []) as PurchasingIngredient[])
+        setLines(l)
+        setSuppliers(s)
+        setOffers(o)
+        setOnHand(totalOnHand(stock))
+      } catch (e: any) {
+        if (alive) setErr(e?.message ?? 'Failed to load purchasing data')
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  useEffect(() => {
+    let alive = true
+    setLoading(true)
+    listPurchaseOrders(statusFilter || null)
+      .then((o) => alive && setOrders(o))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load purchase orders'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [statusFilter])
+
+  const supplierById = useMemo(() => new Map(suppliers.map((s) => [s.id, s])), [suppliers])
+  const recipeName = useMemo(() => new Map(recipes.map((r) => [r.id, r.name])), [recipes])
+  const activeRecipes = useMemo(() => recipes.filter((r) => !r.is_archived), [recipes])
+  const parCount = useMemo(() => ingredients.filter((i) => i.is_active !== false && Number(i.par_level) > 0).length, [ingredients])
+
+  const calculate = () => {
+    const requirements =
+      mode === 'plan'
+        ? explodePlan({ plan: plan.filter((p) => p.recipeId && p.portions > 0), recipes, lines, ingredients })
+        : parRequirements(ingredients, onHand)
+    setIssues(requirements.issues)
+    setDrafts(buildDraftOrders({ requirements, ingredients, offers, suppliers }))
+  }
+
+  const setDraftPacks = (orderIdx: number, lineIdx: number, packs: number) => {
+    setDrafts((prev) => {
+      if (!prev) return prev
+      return prev.map((o, oi) => {
+        if (oi !== orderIdx) return o
+        const ls = o.lines.map((l, li) => (li === lineIdx ? { ...l, packs, lineTotal: packs * l.packPrice } : l))
+        return { ...o, lines: ls, total: ls.reduce((s, l) => s + l.lineTotal, 0) }
+      })
+    })
+  }
+
+  const create = async () => {
+    if (!drafts?.length) return
+    setCreating(true)
+    try {
+      const notes =
+        mode === 'plan'
+          ? `Plan: ${plan
+              .filter((p) => p.recipeId && p.portions > 0)
+              .map((p) => `${recipeName.get(p.recipeId) || 'Recipe'} × ${p.portions}`)
+              .join(', ')}`
+          : 'Par level top-up'
+      const ids = await createPurchaseOrders(drafts, { currency, notes })
+      setDrafts(null)
+      setIssues([])
+      await loadOrders(statusFilter)
+      if (ids.length === 1) nav(`/purchasing/order?id=${encodeURIComponent(ids[0])}`)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to create purchase orders')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">PURCHASING</div>
+        <div className="mt-2 text-2xl font-extrabold">Purchase Orders</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Build orders from planned portions or par levels. Quantities are exploded through PREP recipes, grossed up by yield and rounded up to whole supplier packs.
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="radio" checked={mode === 'plan'} onChange={() => setMode('plan')} />
+            From recipes
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="radio" checked={mode === 'par'} onChange={() => setMode('par')} />
+            Top up to par levels (minus stock on hand) <span className="text-xs text-neutral-500">({parCount} ingredient{parCount === 1 ? '' : 's'})</span>
+          </label>
+        </div>
+
+        {mode === 'plan' && (
+          <div className="mt-4 space-y-2">
+            {plan.map((p, idx) => (
+              <div key={idx} className="flex flex-wrap items-center gap-2">
+                <select
+                  className="gc-input min-w-[260px]"
+                  value={p.recipeId}
+                  onChange={(e) => setPlan((prev) => prev.map((x, i) => (i === idx ? { ...x, recipeId: e.target.value } : x)))}
+                >
+                  <option value="">Pick a recipe…</option>
+                  {activeRecipes.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {r.is_subrecipe ? 'PREP · ' : ''}
+                      {r.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className="gc-input w-28"
+                  type="number"
+                  min={0}
+                  step="1"
+                  value={p.portions}
+                  onChange={(e) => setPlan((prev) => prev.map((x, i) => (i === idx ? { ...x, portions: Math.max(0, Number(e.target.value) || 0) } : x)))}
+                />
+                <span className="text-sm text-neutral-500">portions</span>
+                {plan.length > 1 && (
+                  <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setPlan((prev) => prev.filter((_, i) => i !== idx))}>
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setPlan((prev) => [...prev, { recipeId: '', portions: 10 }])}>
+              + Add recipe
+            </button>
+          </div>
+        )}
+
+        <div className="mt-4 flex gap-2">
+          <button className="gc-btn gc-btn-primary" type="button" onClick={calculate} disabled={mode === 'plan' && !plan.some((p) => p.recipeId && p.portions > 0)}>
+            Calculate order
+          </button>
+          {drafts && (
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setDrafts(null)}>
+              Discard
+            </button>
+          )}
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      {drafts && (
+        <div className="gc-card p-6 space-y-5">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className="gc-label">PREVIEW</div>
+              <div className="mt-1 text-sm text-neutral-600">
+                {drafts.length} order{drafts.length === 1 ? '' : 's'} · {fmtMoney(drafts.reduce((s, d) => s + d.total, 0), currency)}
+              </div>
+            </div>
+            <button className="gc-btn gc-btn-primary" type="button" onClick={create} disabled={creating || !drafts.some((d) => d.lines.some((l) => l.packs > 0))}>
+              {creating ? 'Creating…' : `Create draft PO${drafts.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+
+          {!!issues.length && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <div className="font-semibold">Not included</div>
+              <ul className="mt-1 list-disc pl-5">
+                {issues.slice(0, 12).map((i, idx) => (
+                  <li key={idx}>
+                    {recipeName.get(i.recipeId) || 'Recipe'}: {i.message}
+                  </li>
+                ))}
+              </ul>
+              {issues.length > 12 && <div className="mt-1 text-xs">+{issues.length - 12} more</div>}
+            </div>
+          )}
+
+          {!drafts.length && <div className="text-sm text-neutral-500">Nothing to order.</div>}
+
+          {drafts.map((d, oi) => (
+            <div key={d.supplierId ?? 'none'}>
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <div className="font-extrabold">
+                  {d.supplierName}
+                  {d.leadTimeDays != null && <span className="ml-2 text-xs font-normal text-neutral-500">lead time {d.leadTimeDays} d</span>}
+                </div>
+                <div className="text-sm font-semibold">
+                  {fmtMoney(d.total, currency)}
+                  {d.minOrderValue != null && d.total < d.minOrderValue && (
+                    <span className="ml-2 text-xs font-normal text-amber-700">below minimum order {fmtMoney(d.minOrderValue, currency)}</span>
+                  )}
+                </div>
+              </div>
+              {d.supplierId == null && <div className="text-xs text-neutral-500">No supplier offer — ordered at the ingredient's own pack.</div>}
+              <table className="mt-2 w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-neutral-500">
+                    <th className="py-2">Ingredient</th>
+                    <th className="text-right">Needed</th>
+                    <th className="text-right">Pack</th>
+                    <th className="text-right">Packs</th>
+                    <th className="text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {d.lines.map((l, li) => (
+                    <tr key={l.ingredientId} className="border-t border-neutral-200/60">
+                      <td className="py-2">
+                        {l.description}
+                        {l.supplierSku && <span className="ml-1 font-mono text-xs text-neutral-500">{l.supplierSku}</span>}
+                        {l.issue && <div className="text-xs text-amber-700">{l.issue}</div>}
+                      </td>
+                      <td className="text-right">
+                        {fmtQty(l.requiredQty)} {l.requiredUnit}
+                      </td>
+                      <td className="text-right">
+                        {fmtQty(l.packSize)} {l.packUnit} · {fmtMoney(l.packPrice, currency)}
+                      </td>
+                      <td className="text-right">
+                        <input
+                          className="gc-input w-20 text-right"
+                          type="number"
+                          min={0}
+                          step="1"
+                          value={l.packs}
+                          onChange={(e) => setDraftPacks(oi, li, Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                        />
+                      </td>
+                      <td className="text-right font-semibold">{fmtMoney(l.lineTotal, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="gc-label">ORDERS</div>
+          <select className="gc-input" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | '')}>
+            <option value="">All statuses</option>
+            {(Object.keys(PO_STATUS_LABELS) as PurchaseOrderStatus[]).map((s) => (
+              <option key={s} value={s}>
+                {PO_STATUS_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Number</th>
+              <th>Supplier</th>
+              <th>Status</th>
+              <th>Created</th>
+              <th>Expected</th>
+              <th className="text-right">Lines</th>
+              <th className="text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="py-3 text-neutral-500">
+                  Loading…
+                </td>
+              </tr>
+            ) : (
+              orders.map((o) => (
+                <tr key={o.id} className="border-t border-neutral-200/60">
+                  <td className="py-2">
+                    <button type="button" className="font-mono font-semibold hover:underline" onClick={() => nav(`/purchasing/order?id=${encodeURIComponent(o.id)}`)}>
+                      {o.code || 'PO'}
+                    </button>
+                  </td>
+                  <td>{(o.supplier_id && supplierById.get(o.supplier_id)?.name) || 'No supplier'}</td>
+                  <td>
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_CLS[o.status]}`}>{PO_STATUS_LABELS[o.status]}</span>
+                  </td>
+                  <td>{new Date(o.created_at).toLocaleDateString()}</td>
+                  <td>{o.expected_date ? new Date(o.expected_date).toLocaleDateString() : '—'}</td>
+                  <td className="text-right">{o.lines.length}</td>
+                  <td className="text-right font-semibold">{fmtMoney(orderTotal(o.lines), o.currency)}</td>
+                </tr>
+              ))
+            )}
+            {!loading && !orders.length && (
+              <tr>
+                <td colSpan={7} className="py-3 text-neutral-500">
+                  No purchase orders yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,503 @@
+// src/pages/QuoteEditor.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { displayCode } from '../lib/codes'
+import { listMenus, type Menu } from '../lib/menus'
+import {
+  addMenuToQuote,
+  addQuoteExtra,
+  addQuoteItem,
+  deleteQuoteExtra,
+  deleteQuoteItem,
+  loadQuoteContext,
+  QUOTE_EXTRA_LABELS,
+  QUOTE_STATUS_LABELS,
+  quoteTotals,
+  saveQuote,
+  syncQuotePrices,
+  updateQuoteExtra,
+  updateQuoteItem,
+  type QuoteContext,
+  type QuoteDraft,
+  type QuoteExtraKind,
+  type QuotePricingMode,
+  type QuoteStatus,
+} from '../lib/quotes'
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+export default function QuoteEditor() {
+  const nav = useNavigate()
+  const [sp] = useSearchParams()
+  const id = sp.get('id') || ''
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [ctx, setCtx] = useState<QuoteContext | null>(null)
+  const [draft, setDraft] = useState<QuoteDraft | null>(null)
+  const [menus, setMenus] = useState<Menu[]>([])
+  const [itemForm, setItemForm] = useState({ recipeId: '', ppg: '1' })
+  const [menuPick, setMenuPick] = useState('')
+  const [extraForm, setExtraForm] = useState<{ kind: QuoteExtraKind; description: string; qty: string; unitPrice: string }>({
+    kind: 'staff',
+    description: '',
+    qty: '1',
+    unitPrice: '',
+  })
+
+  useEffect(() => {
+    if (!id) {
+      setErr('Missing quote id')
+      setLoading(false)
+      return
+    }
+    let alive = true
+    Promise.all([loadQuoteContext(id), listMenus().catch(() => [] as Menu[])])
+      .then(([c, m]) => {
+        if (!alive) return
+        setCtx(c)
+        setDraft({ ...c.quote })
+        setMenus(m)
+      })
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load quote'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [id])
+
+  // Totals follow the unsaved draft so pricing changes preview before saving.
+  const totals = useMemo(() => (ctx && draft ? quoteTotals({ ...ctx, quote: { ...ctx.quote, ...draft } }) : null), [ctx, draft])
+  const recipeById = useMemo(() => new Map((ctx?.recipes ?? []).map((r) => [r.id, r])), [ctx])
+  const dishRecipes = useMemo(() => (ctx?.recipes ?? []).filter((r) => !r.is_archived), [ctx])
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await fn()
+      setCtx(await loadQuoteContext(id))
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Quote update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading) return <div className="gc-card p-6">Loading quote…</div>
+  if (!ctx || !draft || !totals) {
+    return (
+      <div className="gc-card p-6">
+        <div className="gc-label">ERROR</div>
+        <div className="mt-2 text-sm text-red-600">{err || 'Quote not found'}</div>
+      </div>
+    )
+  }
+
+  const { quote, items, extras } = ctx
+  const currency = draft.currency || 'USD'
+  const set = (patch: Partial<QuoteDraft>) => setDraft({ ...draft, ...patch })
+  const nextPos = (rows: Array<{ position: number }>) => (rows.length ? Math.max(...rows.map((r) => r.position)) + 1 : 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="gc-label">QUOTE · {quote.code || displayCode('QUO', quote.id)}</div>
+            <div className="mt-2 text-2xl font-extrabold">{quote.event_name}</div>
+            <div className="mt-1 text-sm text-neutral-600">
+              {quote.client_name || 'No client'} · {quote.event_date || 'No date'} · {quote.guest_count} guests
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav('/quotes')}>
+              ← Quotes
+            </button>
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/quotes/print?id=${encodeURIComponent(quote.id)}`)}>
+              Client quote
+            </button>
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/quotes/kitchen/print?id=${encodeURIComponent(quote.id)}`)}>
+              Kitchen list
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-4">
+          <label className="text-sm md:col-span-2">
+            <div className="text-xs text-neutral-500 mb-1">Event</div>
+            <input className="gc-input w-full" value={draft.event_name} onChange={(e) => set({ event_name: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Date</div>
+            <input className="gc-input w-full" type="date" value={draft.event_date ?? ''} onChange={(e) => set({ event_date: e.target.value || null })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Guests</div>
+            <input className="gc-input w-full" type="number" min={0} value={draft.guest_count} onChange={(e) => set({ guest_count: Math.max(0, Math.round(Number(e.target.value) || 0)) })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Client</div>
+            <input className="gc-input w-full" value={draft.client_name ?? ''} onChange={(e) => set({ client_name: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Email</div>
+            <input className="gc-input w-full" type="email" value={draft.client_email ?? ''} onChange={(e) => set({ client_email: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Phone</div>
+            <input className="gc-input w-full" value={draft.client_phone ?? ''} onChange={(e) => set({ client_phone: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Venue</div>
+            <input className="gc-input w-full" value={draft.venue ?? ''} onChange={(e) => set({ venue: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Pricing</div>
+            <select className="gc-input w-full" value={draft.pricing_mode} onChange={(e) => set({ pricing_mode: e.target.value as QuotePricingMode })}>
+              <option value="target_fc">Target food cost %</option>
+              <option value="markup">Markup on cost</option>
+            </select>
+          </label>
+          {draft.pricing_mode === 'markup' ? (
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Markup %</div>
+              <input className="gc-input w-full" type="number" min={0} step="5" value={draft.markup_pct} onChange={(e) => set({ markup_pct: Number(e.target.value) || 0 })} />
+            </label>
+          ) : (
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Target food cost %</div>
+              <input
+                className="gc-input w-full"
+                type="number"
+                min={1}
+                max={100}
+                step="0.5"
+                value={draft.target_food_cost_pct}
+                onChange={(e) => set({ target_food_cost_pct: Number(e.target.value) || 0 })}
+              />
+            </label>
+          )}
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Tax %</div>
+            <input className="gc-input w-full" type="number" min={0} step="0.5" value={draft.tax_pct} onChange={(e) => set({ tax_pct: Number(e.target.value) || 0 })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Status</div>
+            <select className="gc-input w-full" value={draft.status} onChange={(e) => set({ status: e.target.value as QuoteStatus })}>
+              {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map((s) => (
+                <option key={s} value={s}>
+                  {QUOTE_STATUS_LABELS[s]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Valid until</div>
+            <input className="gc-input w-full" type="date" value={draft.valid_until ?? ''} onChange={(e) => set({ valid_until: e.target.value || null })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Currency</div>
+            <input className="gc-input w-full" value={draft.currency} maxLength={3} onChange={(e) => set({ currency: e.target.value.toUpperCase() })} />
+          </label>
+          <label className="text-sm md:col-span-2">
+            <div className="text-xs text-neutral-500 mb-1">Notes for the client</div>
+            <textarea className="gc-input w-full" rows={2} value={draft.notes ?? ''} onChange={(e) => set({ notes: e.target.value })} />
+          </label>
+          <label className="text-sm md:col-span-2">
+            <div className="text-xs text-neutral-500 mb-1">Terms</div>
+            <textarea className="gc-input w-full" rows={2} value={draft.terms ?? ''} onChange={(e) => set({ terms: e.target.value })} />
+          </label>
+        </div>
+        <div className="mt-3 flex justify-end">
+          <button className="gc-btn gc-btn-primary" type="button" disabled={busy} onClick={() => run(() => saveQuote({ ...draft, id: quote.id }))}>
+            Save quote
+          </button>
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="grid gap-4 md:grid-cols-5">
+          <div>
+            <div className="gc-label">FOOD COST</div>
+            <div className="mt-1 text-xl font-extrabold">{fmtMoney(totals.foodCost, currency)}</div>
+            <div className="text-xs text-neutral-500">{totals.foodCostPct == null ? '—' : `${totals.foodCostPct.toFixed(1)}% of food price`}</div>
+          </div>
+          <div>
+            <div className="gc-label">FOOD PRICE</div>
+            <div className="mt-1 text-xl font-extrabold">{fmtMoney(totals.foodPrice, currency)}</div>
+          </div>
+          <div>
+            <div className="gc-label">EXTRAS</div>
+            <div className="mt-1 text-xl font-extrabold">{fmtMoney(totals.extras, currency)}</div>
+          </div>
+          <div>
+            <div className="gc-label">TOTAL</div>
+            <div className="mt-1 text-xl font-extrabold">{fmtMoney(totals.total, currency)}</div>
+            <div className="text-xs text-neutral-500">{draft.tax_pct ? `incl. ${fmtMoney(totals.tax, currency)} tax` : 'no tax'}</div>
+          </div>
+          <div>
+            <div className="gc-label">PER GUEST</div>
+            <div className="mt-1 text-xl font-extrabold">{fmtMoney(totals.perGuest, currency)}</div>
+            <div className="text-xs text-neutral-500">{totals.grossMarginPct == null ? '—' : `${totals.grossMarginPct.toFixed(1)}% gross margin`}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="gc-card p-6">
+        <div className="gc-label">FOOD</div>
+        {[...totals.items.values()].some((c) => c.frozen) && (
+          <div className="mt-1 text-xs text-neutral-500">Prices are fixed since the quote was sent. Set it back to Draft and save to re-price from current costs.</div>
+        )}
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Recipe</th>
+              <th className="text-right">Per guest</th>
+              <th className="text-right">Portions</th>
+              <th className="text-right">Cost / portion</th>
+              <th className="text-right">Food cost</th>
+              <th className="text-right">Price</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((it) => {
+              const r = recipeById.get(it.recipe_id)
+              const c = totals.items.get(it.id)
+              return (
+                <tr key={it.id} className="border-t border-neutral-200/60">
+                  <td className="py-2 font-semibold">
+                    {r?.name || 'Recipe'}
+                    {r?.is_subrecipe ? <span className="ml-2 text-xs text-neutral-500">PREP</span> : null}
+                  </td>
+                  <td className="text-right">
+                    <input
+                      className="gc-input w-24 text-right"
+                      type="number"
+                      min={0}
+                      step="0.25"
+                      defaultValue={it.portions_per_guest}
+                      onBlur={(e) => {
+                        const v = Math.max(0, Number(e.target.value) || 0)
+                        if (v !== it.portions_per_guest) run(() => updateQuoteItem(it.id, { portions_per_guest: v }))
+                      }}
+                    />
+                  </td>
+                  <td className="text-right">{fmtQty(c?.portions ?? 0)}</td>
+                  <td className="text-right">{fmtMoney(c?.costPerPortion ?? 0, currency)}</td>
+                  <td className="text-right">{fmtMoney(c?.cost ?? 0, currency)}</td>
+                  <td className="text-right font-semibold">{fmtMoney(c?.price ?? 0, currency)}</td>
+                  <td className="text-right">
+                    <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => run(() => deleteQuoteItem(it.id))}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+            {!items.length && (
+              <tr>
+                <td colSpan={7} className="py-3 text-neutral-500">
+                  No recipes yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        <div className="mt-3 flex flex-wrap items-end gap-2">
+          <select className="gc-input min-w-[260px]" value={itemForm.recipeId} onChange={(e) => setItemForm((f) => ({ ...f, recipeId: e.target.value }))}>
+            <option value="">Add a recipe…</option>
+            {dishRecipes.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+                {r.is_subrecipe ? ' (PREP)' : ''}
+              </option>
+            ))}
+          </select>
+          <input
+            className="gc-input w-24 text-right"
+            type="number"
+            min={0}
+            step="0.25"
+            value={itemForm.ppg}
+            title="Portions per guest"
+            onChange={(e) => setItemForm((f) => ({ ...f, ppg: e.target.value }))}
+          />
+          <button
+            className="gc-btn gc-btn-primary"
+            type="button"
+            disabled={busy || !itemForm.recipeId}
+            onClick={() =>
+              run(async () => {
+                await addQuoteItem(quote.id, itemForm.recipeId, Number(itemForm.ppg) || 0, nextPos(items))
+                await syncQuotePrices(quote)
+                setItemForm({ recipeId: '', ppg: '1' })
+              })
+            }
+          >
+            Add
+          </button>
+          {menus.length > 0 && (
+            <>
+              <select className="gc-input ml-4" value={menuPick} onChange={(e) => setMenuPick(e.target.value)}>
+                <option value="">Add all from a menu…</option>
+                {menus.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="gc-btn gc-btn-ghost"
+                type="button"
+                disabled={busy || !menuPick}
+                onClick={() =>
+                  run(async () => {
+                    await addMenuToQuote(quote.id, menuPick, items)
+                    await syncQuotePrices(quote)
+                    setMenuPick('')
+                  })
+                }
+              >
+                Add menu
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="gc-card p-6">
+        <div className="gc-label">EXTRAS</div>
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Type</th>
+              <th>Description</th>
+              <th className="text-right">Qty</th>
+              <th className="text-right">Unit price</th>
+              <th className="text-right">Total</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {extras.map((x) => (
+              <tr key={x.id} className="border-t border-neutral-200/60">
+                <td className="py-2">{QUOTE_EXTRA_LABELS[x.kind]}</td>
+                <td>
+                  <input
+                    className="gc-input w-full"
+                    defaultValue={x.description}
+                    onBlur={(e) => {
+                      const v = e.target.value.trim()
+                      if (v && v !== x.description) run(() => updateQuoteExtra(x.id, { description: v }))
+                    }}
+                  />
+                </td>
+                <td className="text-right">
+                  <input
+                    className="gc-input w-24 text-right"
+                    type="number"
+                    min={0}
+                    defaultValue={x.qty}
+                    onBlur={(e) => {
+                      const v = Math.max(0, Number(e.target.value) || 0)
+                      if (v !== x.qty) run(() => updateQuoteExtra(x.id, { qty: v }))
+                    }}
+                  />
+                </td>
+                <td className="text-right">
+                  <input
+                    className="gc-input w-28 text-right"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    defaultValue={x.unit_price}
+                    onBlur={(e) => {
+                      const v = Math.max(0, Number(e.target.value) || 0)
+                      if (v !== x.unit_price) run(() => updateQuoteExtra(x.id, { unit_price: v }))
+                    }}
+                  />
+                </td>
+                <td className="text-right font-semibold">{fmtMoney(x.qty * x.unit_price, currency)}</td>
+                <td className="text-right">
+                  <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => run(() => deleteQuoteExtra(x.id))}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-3 flex flex-wrap items-end gap-2">
+          <select className="gc-input" value={extraForm.kind} onChange={(e) => setExtraForm((f) => ({ ...f, kind: e.target.value as QuoteExtraKind }))}>
+            {(Object.keys(QUOTE_EXTRA_LABELS) as QuoteExtraKind[]).map((k) => (
+              <option key={k} value={k}>
+                {QUOTE_EXTRA_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          <input
+            className="gc-input min-w-[220px]"
+            value={extraForm.description}
+            placeholder={extraForm.kind === 'staff' ? 'Service staff (hours)' : extraForm.kind === 'rental' ? 'Chafing dishes' : extraForm.kind === 'delivery' ? 'Delivery & setup' : 'Description'}
+            onChange={(e) => setExtraForm((f) => ({ ...f, description: e.target.value }))}
+          />
+          <input
+            className="gc-input w-24 text-right"
+            type="number"
+            min={0}
+            value={extraForm.qty}
+            title={extraForm.kind === 'staff' ? 'Hours' : 'Quantity'}
+            onChange={(e) => setExtraForm((f) => ({ ...f, qty: e.target.value }))}
+          />
+          <input
+            className="gc-input w-28 text-right"
+            type="number"
+            min={0}
+            step="0.01"
+            value={extraForm.unitPrice}
+            placeholder={extraForm.kind === 'staff' ? 'Rate / hour' : 'Unit price'}
+            onChange={(e) => setExtraForm((f) => ({ ...f, unitPrice: e.target.value }))}
+          />
+          <button
+            className="gc-btn gc-btn-primary"
+            type="button"
+            disabled={busy || !extraForm.description.trim()}
+            onClick={() =>
+              run(async () => {
+                await addQuoteExtra(
+                  quote.id,
+                  { kind: extraForm.kind, description: extraForm.description, qty: Number(extraForm.qty) || 0, unit_price: Number(extraForm.unitPrice) || 0 },
+                  nextPos(extras)
+                )
+                setExtraForm((f) => ({ ...f, description: '', qty: '1', unitPrice: '' }))
+              })
+            }
+          >
+            Add extra
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
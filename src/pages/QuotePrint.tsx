@@ -0,0 +1,394 @@
+// src/pages/QuotePrint.tsx
+// /quotes/print          → client-facing quote (printable / PDF)
+// /quotes/kitchen/print  → kitchen production list scaled to the guest count
+import { useEffect, useMemo, useState } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { displayCode } from '../lib/codes'
+import { lineQuantities, lineTypeOf } from '../lib/recipeCosting'
+import { kitchenList, loadQuoteContext, QUOTE_EXTRA_LABELS, quoteTotals, type QuoteContext } from '../lib/quotes'
+import { exportRecipePdf } from '../utils/exportRecipePdf'
+import { MetricCard, PRINT_BASE_CSS, PRINT_TOOLBAR_BUTTON, SectionTitle, Tag, Td, Th } from '../components/print/PrintKit'
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+export default function QuotePrint() {
+  const nav = useNavigate()
+  const loc = useLocation()
+  const [sp] = useSearchParams()
+  const id = sp.get('id') || ''
+  const kitchenSheet = loc.pathname.toLowerCase().includes('/kitchen')
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [ctx, setCtx] = useState<QuoteContext | null>(null)
+
+  useEffect(() => {
+    if (!id) {
+      setErr('Missing quote id')
+      setLoading(false)
+      return
+    }
+    let alive = true
+    loadQuoteContext(id)
+      .then((c) => alive && setCtx(c))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load quote'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (loading || err || !ctx) return
+    const t = window.setTimeout(() => window.print(), 400)
+    return () => window.clearTimeout(t)
+  }, [loading, err, ctx])
+
+  const totals = useMemo(() => (ctx ? quoteTotals(ctx) : null), [ctx])
+  const kitchen = useMemo(() => (ctx && kitchenSheet ? kitchenList(ctx) : null), [ctx, kitchenSheet])
+
+  if (loading) return <div className="gc-card p-6">Loading quote…</div>
+  if (!ctx || !totals) {
+    return (
+      <div className="gc-card p-6">
+        <div className="gc-label">ERROR</div>
+        <div className="mt-2 text-sm text-red-600">{err || 'Quote not found'}</div>
+      </div>
+    )
+  }
+
+  const { quote, items, extras } = ctx
+  const currency = quote.currency || 'USD'
+  const recipeById = new Map(ctx.recipes.map((r) => [r.id, r]))
+  const ingredientById = new Map(ctx.ingredients.map((i) => [i.id, i]))
+  const recipeName = (rid: string) => recipeById.get(rid)?.name || 'Recipe'
+  const code = quote.code || displayCode('QUO', quote.id)
+
+  // Lines of one recipe scaled by a recipe multiple, in the line's own unit.
+  const scaledLines = (recipeId: string, factor: number) =>
+    ctx.lines
+      .filter((l) => l.recipe_id === recipeId && lineTypeOf(l) !== 'group')
+      .map((l, idx) => ({
+        key: l.id || `${recipeId}#${idx}`,
+        name:
+          lineTypeOf(l) === 'subrecipe'
+            ? `${recipeName(String(l.sub_recipe_id))} (PREP)`
+            : ingredientById.get(String(l.ingredient_id))?.name || 'Ingredient',
+        qty: lineQuantities(l).net * factor,
+        unit: l.unit || '',
+      }))
+
+  return (
+    <>
+      <style>{`
+        ${PRINT_BASE_CSS}
+
+        .quote-table {
+          width: 100%;
+          border-collapse: separate;
+          border-spacing: 0;
+        }
+
+        .quote-table tr {
+          break-inside: avoid;
+          page-break-inside: avoid;
+        }
+      `}</style>
+
+      <div className="print-stage min-h-screen bg-[#f7f6f2] px-4 py-5 md:px-8 md:py-8 text-[#2b2b2b]">
+        <div className="no-print mx-auto mb-4 flex max-w-4xl items-center justify-end gap-3">
+          <button onClick={() => nav(`/quotes/edit?id=${encodeURIComponent(quote.id)}`)} className={`${PRINT_TOOLBAR_BUTTON} text-[#8b5e34]`}>
+            ← Back to quote
+          </button>
+          <button
+            onClick={() => nav(`${kitchenSheet ? '/quotes/print' : '/quotes/kitchen/print'}?id=${encodeURIComponent(quote.id)}`)}
+            className={`${PRINT_TOOLBAR_BUTTON} text-[#556b2f]`}
+          >
+            {kitchenSheet ? 'Client quote' : 'Kitchen list'}
+          </button>
+          {!kitchenSheet && (
+            <button onClick={() => exportRecipePdf(quote.event_name, { elementId: 'event-quote-print' })} className={`${PRINT_TOOLBAR_BUTTON} text-[#556b2f]`}>
+              Export PDF
+            </button>
+          )}
+          <button onClick={() => window.print()} className={`${PRINT_TOOLBAR_BUTTON} text-[#2f6f5e]`}>
+            Print Now
+          </button>
+        </div>
+
+        <article
+          id="event-quote-print"
+          className="print-paper mx-auto max-w-4xl overflow-hidden rounded-[38px] border border-[#dfe5df] bg-white shadow-[0_22px_60px_rgba(0,0,0,0.08)]"
+        >
+          <div className="h-[8px] bg-[linear-gradient(90deg,#556b2f_0%,#2f6f5e_48%,#dfe5df_100%)]" />
+
+          <header className="border-b border-[#dfe5df] bg-[linear-gradient(135deg,#ffffff_0%,#f7f6f2_100%)] p-8 md:p-10">
+            <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-[0.34em] text-[#556b2f]">
+                  {kitchenSheet ? `Production list · ${code}` : `Quote · ${code}`}
+                </div>
+                <h1 className="mt-3 text-4xl font-semibold tracking-[-0.045em] text-[#2b2b2b] md:text-[3rem] md:leading-[1.02]">{quote.event_name}</h1>
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {quote.event_date ? <Tag>{quote.event_date}</Tag> : null}
+                  <Tag tone="secondary">{quote.guest_count} guests</Tag>
+                  {quote.venue ? <Tag tone="secondary">{quote.venue}</Tag> : null}
+                </div>
+              </div>
+              {!kitchenSheet && (
+                <div className="text-sm leading-6 text-stone-600 md:text-right">
+                  <div className="text-xs font-semibold uppercase tracking-[0.2em] text-stone-400">Prepared for</div>
+                  <div className="font-semibold text-stone-900">{quote.client_name || '—'}</div>
+                  {quote.client_email ? <div>{quote.client_email}</div> : null}
+                  {quote.client_phone ? <div>{quote.client_phone}</div> : null}
+                  {quote.valid_until ? <div className="mt-2 text-xs">Valid until {quote.valid_until}</div> : null}
+                </div>
+              )}
+            </div>
+          </header>
+
+          {kitchenSheet && kitchen ? (
+            <>
+              <section className="border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+                  <MetricCard label="Guests" value={String(quote.guest_count)} />
+                  <MetricCard label="Dishes" value={String(kitchen.dishes.length)} />
+                  <MetricCard label="Prep batches" value={String(kitchen.preps.length)} />
+                  <MetricCard label="Ingredients" value={String(kitchen.ingredients.size)} />
+                </div>
+              </section>
+
+              {kitchen.dishes.map((d) => {
+                const r = recipeById.get(d.recipeId)
+                return (
+                  <section key={d.recipeId} className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                    <SectionTitle>{r?.name || 'Recipe'}</SectionTitle>
+                    <div className="mb-3 text-sm text-stone-600">
+                      {fmtQty(d.portions)} portions · ×{fmtQty(d.factor)} of the recipe ({r?.portions || 1} portions)
+                    </div>
+                    <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                      <table className="quote-table text-sm">
+                        <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                          <tr>
+                            <Th>Component</Th>
+                            <Th className="text-right">Quantity</Th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {scaledLines(d.recipeId, d.factor).map((l) => (
+                            <tr key={l.key}>
+                              <Td className="font-semibold text-stone-900">{l.name}</Td>
+                              <Td className="text-right tabular-nums font-mono">
+                                {fmtQty(l.qty)} {l.unit}
+                              </Td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </section>
+                )
+              })}
+
+              {kitchen.preps.length > 0 && (
+                <section className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                  <SectionTitle>Prep</SectionTitle>
+                  <div className="space-y-4">
+                    {kitchen.preps.map((p) => {
+                      const r = recipeById.get(p.recipeId)
+                      const amount = r?.yield_qty ? `${fmtQty(p.factor * r.yield_qty)} ${r.yield_unit || ''}` : `${fmtQty(p.factor * (r?.portions || 1))} portions`
+                      return (
+                        <div key={p.recipeId} className="avoid-break overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                          <div className="flex items-baseline justify-between gap-3 bg-[#f7f6f2] px-4 py-3">
+                            <div className="font-semibold text-stone-900">{r?.name || 'Recipe'}</div>
+                            <div className="tabular-nums font-mono text-sm text-[#2f6f5e]">
+                              {amount} · ×{fmtQty(p.factor)}
+                            </div>
+                          </div>
+                          <table className="quote-table text-sm">
+                            <tbody>
+                              {scaledLines(p.recipeId, p.factor).map((l) => (
+                                <tr key={l.key}>
+                                  <Td className="text-stone-900">{l.name}</Td>
+                                  <Td className="text-right tabular-nums font-mono">
+                                    {fmtQty(l.qty)} {l.unit}
+                                  </Td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </section>
+              )}
+
+              <section className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                <SectionTitle>Ingredient pull list</SectionTitle>
+                <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                  <table className="quote-table text-sm">
+                    <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                      <tr>
+                        <Th>Ingredient</Th>
+                        <Th className="text-right">Gross quantity</Th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...kitchen.ingredients]
+                        .map(([iid, qty]) => ({ ing: ingredientById.get(iid), iid, qty }))
+                        .sort((a, b) => (a.ing?.name || '').localeCompare(b.ing?.name || ''))
+                        .map(({ ing, iid, qty }) => (
+                          <tr key={iid}>
+                            <Td className="font-semibold text-stone-900">
+                              {ing?.name || 'Ingredient'}
+                              {ing?.code ? <span className="ml-2 font-mono text-[11px] font-medium text-[#2f6f5e]">{ing.code}</span> : null}
+                            </Td>
+                            <Td className="text-right tabular-nums font-mono">
+                              {fmtQty(qty)} {ing?.pack_unit || ''}
+                            </Td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+                {kitchen.issues.length > 0 && (
+                  <div className="mt-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+                    {kitchen.issues.map((i, idx) => (
+                      <div key={idx}>
+                        {recipeName(i.recipeId)}: {i.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          ) : (
+            <>
+              <section className="border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                <SectionTitle>Menu</SectionTitle>
+                <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                  <table className="quote-table text-sm">
+                    <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                      <tr>
+                        <Th>Item</Th>
+                        <Th className="text-right">Portions</Th>
+                        <Th className="text-right">Amount</Th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map((it) => {
+                        const r = recipeById.get(it.recipe_id)
+                        const c = totals.items.get(it.id)
+                        return (
+                          <tr key={it.id}>
+                            <Td className="text-stone-900">
+                              <div className="font-semibold">{r?.name || 'Recipe'}</div>
+                              {r?.description ? <div className="mt-1 text-xs text-stone-500">{r.description}</div> : null}
+                            </Td>
+                            <Td className="text-right tabular-nums font-mono">{fmtQty(c?.portions ?? 0)}</Td>
+                            <Td className="text-right tabular-nums font-mono">{fmtMoney(c?.price ?? 0, currency)}</Td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              {extras.length > 0 && (
+                <section className="border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                  <SectionTitle>Services</SectionTitle>
+                  <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                    <table className="quote-table text-sm">
+                      <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                        <tr>
+                          <Th>Service</Th>
+                          <Th className="text-right">Qty</Th>
+                          <Th className="text-right">Unit price</Th>
+                          <Th className="text-right">Amount</Th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {extras.map((x) => (
+                          <tr key={x.id}>
+                            <Td className="text-stone-900">
+                              <span className="font-semibold">{x.description}</span>
+                              <span className="ml-2 text-xs text-stone-500">{QUOTE_EXTRA_LABELS[x.kind]}</span>
+                            </Td>
+                            <Td className="text-right tabular-nums font-mono">{fmtQty(x.qty)}</Td>
+                            <Td className="text-right tabular-nums font-mono">{fmtMoney(x.unit_price, currency)}</Td>
+                            <Td className="text-right tabular-nums font-mono">{fmtMoney(x.qty * x.unit_price, currency)}</Td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+              )}
+
+              <section className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8">
+                <div className="ml-auto max-w-sm space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-stone-600">Food & beverage</span>
+                    <span className="tabular-nums font-mono">{fmtMoney(totals.foodPrice, currency)}</span>
+                  </div>
+                  {extras.length > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-stone-600">Services</span>
+                      <span className="tabular-nums font-mono">{fmtMoney(totals.extras, currency)}</span>
+                    </div>
+                  )}
+                  {quote.tax_pct > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-stone-600">Tax ({quote.tax_pct}%)</span>
+                      <span className="tabular-nums font-mono">{fmtMoney(totals.tax, currency)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between border-t border-[#dfe5df] pt-2 text-lg font-semibold text-stone-900">
+                    <span>Total</span>
+                    <span className="tabular-nums font-mono text-[#2f6f5e]">{fmtMoney(totals.total, currency)}</span>
+                  </div>
+                  <div className="flex justify-between text-xs text-stone-500">
+                    <span>Per guest</span>
+                    <span className="tabular-nums font-mono">{fmtMoney(totals.perGuest, currency)}</span>
+                  </div>
+                </div>
+              </section>
+
+              {quote.notes || quote.terms ? (
+                <section className="avoid-break border-b border-[#dfe5df] px-6 py-6 md:px-8 text-sm leading-6 text-stone-600">
+                  {quote.notes ? <p className="whitespace-pre-line">{quote.notes}</p> : null}
+                  {quote.terms ? (
+                    <>
+                      <div className="mt-4 text-xs font-semibold uppercase tracking-[0.2em] text-stone-400">Terms</div>
+                      <p className="mt-1 whitespace-pre-line text-xs">{quote.terms}</p>
+                    </>
+                  ) : null}
+                </section>
+              ) : null}
+            </>
+          )}
+
+          <footer className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] px-6 py-5 text-xs text-stone-500 md:px-8">
+            <div className="flex flex-col gap-1 md:flex-row md:items-center md:justify-between">
+              <div className="font-semibold uppercase tracking-[0.2em] text-[#556b2f]">{kitchenSheet ? 'Kitchen · not for clients' : code}</div>
+              <div>Printed {new Date().toLocaleString()}</div>
+            </div>
+          </footer>
+        </article>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,180 @@
+// src/pages/Quotes.tsx
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { displayCode } from '../lib/codes'
+import { deleteQuote, listQuotes, QUOTE_STATUS_LABELS, saveQuote, type EventQuote, type QuoteStatus } from '../lib/quotes'
+
+const STATUS_CLS: Record<QuoteStatus, string> = {
+  draft: 'bg-neutral-100 text-neutral-600',
+  sent: 'bg-blue-100 text-blue-700',
+  accepted: 'bg-green-100 text-green-700',
+  declined: 'bg-red-100 text-red-700',
+}
+
+export default function Quotes() {
+  const nav = useNavigate()
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [quotes, setQuotes] = useState<EventQuote[]>([])
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | ''>('')
+  const [form, setForm] = useState({ eventName: '', clientName: '', eventDate: '', guests: '' })
+
+  useEffect(() => {
+    let alive = true
+    listQuotes()
+      .then((q) => alive && setQuotes(q))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load quotes'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const create = async () => {
+    setBusy(true)
+    try {
+      const q = await saveQuote({
+        event_name: form.eventName,
+        client_name: form.clientName || null,
+        client_email: null,
+        client_phone: null,
+        event_date: form.eventDate || null,
+        venue: null,
+        guest_count: Math.max(0, Math.round(Number(form.guests) || 0)),
+        status: 'draft',
+        pricing_mode: 'target_fc',
+        markup_pct: 200,
+        target_food_cost_pct: 30,
+        tax_pct: 0,
+        currency,
+        valid_until: null,
+        notes: null,
+        terms: null,
+      })
+      nav(`/quotes/edit?id=${encodeURIComponent(q.id)}`)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to create quote')
+      setBusy(false)
+    }
+  }
+
+  const remove = async (q: EventQuote) => {
+    if (!window.confirm(`Delete quote ${q.code || q.event_name}?`)) return
+    setBusy(true)
+    try {
+      await deleteQuote(q.id)
+      setQuotes(await listQuotes())
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to delete quote')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading) return <div className="gc-card p-6">Loading quotes…</div>
+
+  const shown = quotes.filter((q) => !statusFilter || q.status === statusFilter)
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">EVENTS</div>
+        <div className="mt-2 text-2xl font-extrabold">Catering Quotes</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Price banquets and catering from live recipe costs: guests × portions, a markup or target food cost, and extras like staff, rentals and delivery.
+        </div>
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Event</div>
+            <input className="gc-input" value={form.eventName} placeholder="Wedding reception" onChange={(e) => setForm((f) => ({ ...f, eventName: e.target.value }))} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Client</div>
+            <input className="gc-input" value={form.clientName} onChange={(e) => setForm((f) => ({ ...f, clientName: e.target.value }))} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Date</div>
+            <input className="gc-input" type="date" value={form.eventDate} onChange={(e) => setForm((f) => ({ ...f, eventDate: e.target.value }))} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Guests</div>
+            <input className="gc-input w-24" type="number" min={0} value={form.guests} onChange={(e) => setForm((f) => ({ ...f, guests: e.target.value }))} />
+          </label>
+          <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !form.eventName.trim()} onClick={create}>
+            New quote
+          </button>
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="flex items-center justify-between gap-3">
+          <div className="gc-label">QUOTES</div>
+          <select className="gc-input" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as QuoteStatus | '')}>
+            <option value="">All statuses</option>
+            {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map((s) => (
+              <option key={s} value={s}>
+                {QUOTE_STATUS_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Quote</th>
+              <th>Event</th>
+              <th>Client</th>
+              <th>Date</th>
+              <th className="text-right">Guests</th>
+              <th>Status</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((q) => (
+              <tr key={q.id} className="border-t border-neutral-200/60">
+                <td className="py-2 font-mono text-xs">{q.code || displayCode('QUO', q.id)}</td>
+                <td>
+                  <button className="font-semibold hover:underline" type="button" onClick={() => nav(`/quotes/edit?id=${encodeURIComponent(q.id)}`)}>
+                    {q.event_name}
+                  </button>
+                </td>
+                <td>{q.client_name || '—'}</td>
+                <td>{q.event_date || '—'}</td>
+                <td className="text-right">{q.guest_count}</td>
+                <td>
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_CLS[q.status]}`}>{QUOTE_STATUS_LABELS[q.status]}</span>
+                </td>
+                <td className="text-right whitespace-nowrap">
+                  <button className="gc-btn gc-btn-ghost" type="button" onClick={() => nav(`/quotes/edit?id=${encodeURIComponent(q.id)}`)}>
+                    Open
+                  </button>{' '}
+                  <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => remove(q)}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!shown.length && (
+              <tr>
+                <td colSpan={7} className="py-3 text-neutral-500">
+                  No quotes yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,19 @@ import { supabase } from '../lib/supabase'
 import { Toast } from '../components/Toast'
 import { useMode } from '../lib/mode'
 import { loadCookSession, saveCookSession, clearCookSession } from '../lib/cookSession'
+import { groupLinesByRecipe } from '../lib/recipeCosting'
+import {
+  decodeScaleTarget,
+  flattenScaled,
+  loadScaleContext,
+  roundKitchen,
+  scaleFactor,
+  scaleRecipe,
+  type ScaleContext,
+  type ScaleLine,
+  type ScaleTarget,
+} from '../lib/scaling'
+import { fmtPacks, ScaleControls, treeIngredients } from '../components/recipe/ScalePanel'
 
 type Recipe = {
   id: string
@@ -104,6 +117,11 @@ function fmtQty(q: number) {
   return String(Math.round(v * 100) / 100)
 }
 
+function fmtKitchen(qty: number, unit: string) {
+  const r = roundKitchen(qty, unit)
+  return `${fmtQty(r.qty)} ${r.unit}`
+}
+
 type PrepItem = {
   label: string
   qty: number
@@ -111,6 +129,13 @@ type PrepItem = {
   note: string
 }
 
+/** Scale context with this recipe's cook-mode lines (drafts included) in place of the stored ones. */
+function withLines(sc: ScaleContext & { lines: ScaleLine[] }, recipeId: string, lines: Line[]): ScaleContext {
+  const byRecipe = groupLinesByRecipe(sc.lines)
+  byRecipe.set(recipeId, lines)
+  return { ...sc, lines: byRecipe }
+}
+
 export default function RecipeCookMode() {
   const [sp] = useSearchParams()
   const id = sp.get('id')
@@ -131,6 +156,10 @@ export default function RecipeCookMode() {
   }
 
   const [servings, setServings] = useState(1)
+  const [scaleData, setScaleData] = useState<(ScaleContext & { lines: ScaleLine[] }) | null>(null)
+  // null = scaling by servings; otherwise the yield / ingredient target servings were derived from
+  const [scaleBy, setScaleBy] = useState<ScaleTarget | null>(null)
+  const [scaleMsg, setScaleMsg] = useState<string | null>(null)
   const [checked, setChecked] = useState<Record<number, boolean>>({})
   const [timers, setTimers] = useState<Record<number, number>>({})
   const [prepOpen, setPrepOpen] = useState(false)
@@ -209,10 +238,21 @@ export default function RecipeCookMode() {
       if (iErr) throw iErr
       setIngs((i ?? []) as Ingredient[])
 
-      // restore session
+      // nested subrecipes + packs for the scaling engine (optional: cook mode works without it)
+      const sc = await loadScaleContext().catch(() => null)
+      setScaleData(sc)
+
+      // restore session; a ?scale= target from the editor wins over the stored servings
       const sess = loadCookSession(recipeId)
       const base = Math.max(1, toNum(rr.portions, 1))
-      setServings(sess?.servings && sess.servings > 0 ? sess.servings : base)
+      const target = decodeScaleTarget(sp.get('scale'))
+      const fromTarget = target && sc ? scaleFactor(recipeId, target, withLines(sc, recipeId, merged)) : null
+      if (fromTarget?.ok) {
+        setServings(Math.round(fromTarget.factor * base * 100) / 100)
+        setScaleBy(target && target.mode !== 'portions' ? target : null)
+      } else {
+        setServings(sess?.servings && sess.servings > 0 ? sess.servings : base)
+      }
       setChecked(sess?.checkedSteps ?? {})
       setTimers(sess?.timers ?? {})
     } catch (e: any) {
@@ -235,6 +275,39 @@ export default function RecipeCookMode() {
   const basePortions = Math.max(1, toNum(recipe?.portions, 1))
   const scale = servings / basePortions
 
+  const scaleCtx = useMemo(() => (scaleData && id ? withLines(scaleData, id, lines) : null), [scaleData, id, lines])
+  const scaleIngredients = useMemo(() => (scaleCtx && id ? treeIngredients(id, scaleCtx) : []), [scaleCtx, id])
+
+  const setServingsManual = (v: number | ((prev: number) => number)) => {
+    setScaleBy(null)
+    setScaleMsg(null)
+    setServings(v)
+  }
+
+  const applyScale = (t: ScaleTarget) => {
+    if (t.mode === 'portions') {
+      setScaleBy(null)
+      setScaleMsg(null)
+      setServings(Math.max(1, t.portions))
+      return
+    }
+    setScaleBy(t)
+    if (!scaleCtx || !id) return
+    const r = scaleFactor(id, t, scaleCtx)
+    if (!r.ok) {
+      setScaleMsg(r.message)
+      return
+    }
+    setScaleMsg(null)
+    setServings(Math.max(0.01, Math.round(r.factor * basePortions * 100) / 100))
+  }
+
+  // PREP lines walked down to their own ingredients at the current scale
+  const prepTree = useMemo(() => {
+    if (!scaleCtx || !id) return []
+    return flattenScaled(scaleRecipe(id, scale, scaleCtx)).filter((r) => r.type !== 'group' && (r.depth > 0 || r.type === 'subrecipe'))
+  }, [scaleCtx, id, scale])
+
   const ingById = useMemo(() => {
     const m = new Map<string, Ingredient>()
     for (const i of ings) m.set(i.id, i)
@@ -294,7 +367,7 @@ export default function RecipeCookMode() {
   }
 
   const prepList = useMemo(() => {
-    // Only ingredient lines (no subrecipe expansion here to keep it fast + no logic change)
+    // Only this recipe's own ingredient lines; PREP lines are expanded separately (prepTree)
     const items: PrepItem[] = []
     for (const l of lines) {
       if (l.line_type !== 'ingredient') continue
@@ -375,7 +448,7 @@ export default function RecipeCookMode() {
               <div className="mt-4">
                 <div className="gc-label">SERVINGS</div>
                 <div className="mt-2 flex items-center gap-3">
-                  <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setServings((v) => Math.max(1, v - 1))}>
+                  <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setServingsManual((v) => Math.max(1, v - 1))}>
                     −
                   </button>
                   <input
@@ -384,9 +457,9 @@ export default function RecipeCookMode() {
                     min={1}
                     step="1"
                     value={servings}
-                    onChange={(e) => setServings(Math.max(1, toNum(e.target.value, 1)))}
+                    onChange={(e) => setServingsManual(Math.max(1, toNum(e.target.value, 1)))}
                   />
-                  <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setServings((v) => v + 1)}>
+                  <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setServingsManual((v) => v + 1)}>
                     +
                   </button>
                   <input
@@ -395,11 +468,26 @@ export default function RecipeCookMode() {
                     min={1}
                     max={Math.max(10, basePortions * 6)}
                     value={servings}
-                    onChange={(e) => setServings(Math.max(1, toNum(e.target.value, 1)))}
+                    onChange={(e) => setServingsManual(Math.max(1, toNum(e.target.value, 1)))}
                   />
                 </div>
               </div>
 
+              {scaleCtx && (
+                <div className="mt-4">
+                  <div className="gc-label">SCALE BY</div>
+                  <div className="mt-2">
+                    <ScaleControls
+                      recipe={scaleCtx.recipes.find((r) => r.id === recipe.id) ?? recipe}
+                      ingredients={scaleIngredients}
+                      value={scaleBy ?? { mode: 'portions', portions: servings }}
+                      onChange={applyScale}
+                    />
+                  </div>
+                  {scaleMsg ? <div className="mt-1 text-xs text-red-600">{scaleMsg}</div> : null}
+                </div>
+              )}
+
               <div className="mt-4 flex flex-wrap gap-2">
                 {(recipe.calories != null || recipe.protein_g != null || recipe.carbs_g != null || recipe.fat_g != null) && (
                   <>
@@ -466,7 +554,7 @@ export default function RecipeCookMode() {
                         {it.note ? <div className="truncate text-xs text-neutral-500">{it.note}</div> : null}
                       </div>
                       <div className="shrink-0 font-bold tabular-nums text-neutral-900">
-                        {fmtQty(it.qty)} {it.unit}
+                        {fmtKitchen(it.qty, it.unit)}
                       </div>
                     </div>
                   ))}
@@ -483,7 +571,7 @@ export default function RecipeCookMode() {
             <div className="flex flex-wrap items-center justify-between gap-2">
               <div>
                 <div className="gc-label">PREP LIST (SCALED)</div>
-                <div className="text-xs text-neutral-500">Ingredient-only list · scaled by servings.</div>
+                <div className="text-xs text-neutral-500">Scaled by servings · rounded to kitchen units · PREP lines expanded below.</div>
               </div>
               <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setPrepOpen(false)}>
                 Close
@@ -501,12 +589,39 @@ export default function RecipeCookMode() {
                       {it.note ? <div className="text-xs text-neutral-500 truncate">{it.note}</div> : null}
                     </div>
                     <div className="text-sm font-extrabold">
-                      {fmtQty(it.qty)} {it.unit}
+                      {fmtKitchen(it.qty, it.unit)}
                     </div>
                   </div>
                 ))}
               </div>
             )}
+
+            {prepTree.length > 0 && (
+              <div className="mt-4">
+                <div className="gc-label">PREP COMPONENTS</div>
+                <div className="mt-2 space-y-1">
+                  {prepTree.map((row, i) => (
+                    <div
+                      key={`${row.key}-${i}`}
+                      className="flex items-center justify-between gap-3 rounded-xl border border-neutral-200 bg-white px-3 py-2"
+                      style={{ marginLeft: row.depth * 16 }}
+                    >
+                      <div className="min-w-0">
+                        <div className={`truncate text-sm ${row.type === 'subrecipe' ? 'font-extrabold' : 'font-semibold'}`}>
+                          {row.type === 'subrecipe'
+                            ? `${scaleCtx?.recipes.find((r) => r.id === row.line.sub_recipe_id)?.name || 'Subrecipe'} (PREP)`
+                            : ingById.get(row.line.ingredient_id || '')?.name || 'Ingredient'}
+                        </div>
+                        {row.packs ? <div className="truncate text-xs text-neutral-500">{fmtPacks(row.packs)}</div> : null}
+                      </div>
+                      <div className="shrink-0 text-sm font-extrabold tabular-nums">
+                        {fmtQty(row.rounded.qty)} {row.rounded.unit}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
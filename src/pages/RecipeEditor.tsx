@@ -7,10 +7,31 @@ import Button from '../components/ui/Button'
 import { useMode } from '../lib/mode'
 import { getIngredientsCached } from '../lib/ingredientsCache'
 import { CostTimeline } from '../components/CostTimeline'
-import { addCostPoint, clearCostPoints, listCostPoints, deleteCostPoint } from '../lib/costHistory'
+import { addCostPoint, listCostPoints, type CostPoint } from '../lib/costHistory'
+import DateRangePicker from '../components/cost/DateRangePicker'
 import { useKitchen } from '../lib/kitchen'
 import { useAutosave } from '../contexts/AutosaveContext'
-import { exportRecipeExcelUltra } from '../utils/exportRecipeExcelUltra'
+import { exportRecipeExcelUltra, excelRowFromLineCost } from '../utils/exportRecipeExcelUltra'
+import { createCostingEngine, groupLinesByRecipe, loadCostingLines, priceMetrics, type CostingLine } from '../lib/recipeCosting'
+import { buildRecipeGraph, cyclePathIfAdded, whereUsedRecipe } from '../lib/recipeGraph'
+import WhereUsedPanel from '../components/recipe/WhereUsedPanel'
+import ScalePanel from '../components/recipe/ScalePanel'
+import PlateCostPanel from '../components/recipe/PlateCostPanel'
+import SharePanel from '../components/recipe/SharePanel'
+import RecipeHistoryPanel from '../components/recipe/RecipeHistoryPanel'
+import {
+  recordRecipeVersion,
+  restoreRecipeVersion,
+  type RecipeVersionReason,
+  type RecipeVersionRecipe,
+  type RecipeVersionRow,
+  type RecipeVersionSnapshot,
+} from '../lib/recipeVersions'
+import { UNIT_OPTIONS } from '../lib/units'
+import { allergenLabel, computeRecipeAllergens, EU_ALLERGENS, listAllergenDefs, type AllergenDef } from '../lib/allergens'
+import { calcRecipeNutritionDeep, type IngredientForCalc, type SkipReason } from '../lib/nutritionCalc'
+import { encodeScaleTarget, type ScaleContext, type ScaleTarget } from '../lib/scaling'
+import { computePlateCost, loadRecipePlateCost, prepLaborCost, type LaborRole, type PackagingLine, type RecipeLabor } from '../lib/plateCost'
 
 type LineType = 'ingredient' | 'subrecipe' | 'group'
 
@@ -48,6 +69,14 @@ type Ingredient = {
   pack_unit?: string | null
   net_unit_cost?: number | null
   is_active?: boolean | null
+  density_g_per_ml?: number | null
+  grams_per_piece?: number | null
+  kcal_per_100g?: number | null
+  protein_per_100g?: number | null
+  carbs_per_100g?: number | null
+  fat_per_100g?: number | null
+  allergens?: string[] | null
+  may_contain?: string[] | null
 }
 
 type Line = {
@@ -97,15 +126,15 @@ function fmtQty(n: number) {
   return v.toFixed(3)
 }
 
-function convertQtyToPackUnit(qty: number, lineUnit: string, packUnit: string) {
-  const u = safeUnit(lineUnit)
-  const p = safeUnit(packUnit)
-  let conv = qty
-  if (u === 'g' && p === 'kg') conv = qty / 1000
-  else if (u === 'kg' && p === 'g') conv = qty * 1000
-  else if (u === 'ml' && p === 'l') conv = qty / 1000
-  else if (u === 'l' && p === 'ml') conv = qty * 1000
-  return conv
+const SKIP_LABELS: Record<SkipReason, string> = {
+  NO_INGREDIENT_ID: 'No ingredient',
+  NO_INGREDIENT_JOIN: 'Ingredient not found',
+  BAD_QTY: 'Zero quantity',
+  UNSUPPORTED_UNIT: 'Unsupported unit',
+  MISSING_DENSITY: 'Needs density (g/ml)',
+  MISSING_GRAMS_PER_PIECE: 'Needs piece weight',
+  MISSING_NUTRITION: 'No nutrition data',
+  SUBRECIPE_NOT_EXPANDED: 'Subrecipe not expanded',
 }
 
 function uid() {
@@ -869,6 +898,14 @@ const mainStyles = `
 /* ===== Nutrition Grid ===== */
 .ik-nutrition-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 20px; padding: 24px; }
 .ik-nutrition-grid .ik-field { margin: 0; }
+.ik-nutri-auto { border-top: 1px solid var(--ik-border); padding: 16px 24px 24px; }
+.ik-nutri-auto-head { display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 12px; }
+.ik-nutri-diag { margin-top: 16px; display: grid; gap: 6px; }
+.ik-nutri-diag-row { display: flex; justify-content: space-between; gap: 12px; font-size: 0.8rem; color: var(--ik-text-secondary); padding: 6px 10px; border-radius: 6px; background: var(--ik-danger-light); }
+.ik-nutri-diag-row b { color: var(--ik-danger); font-weight: 600; }
+.ik-allergen-list { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; padding: 16px 24px; }
+.ik-allergen { font-size: 0.75rem; font-weight: 600; padding: 4px 10px; border-radius: 999px; background: var(--ik-danger); color: #fff; }
+.ik-allergen.may { background: transparent; color: var(--ik-danger); border: 1px dashed var(--ik-danger); }
 
 /* ===== History Actions ===== */
 .ik-history-actions { display: flex; gap: 8px; }
@@ -938,6 +975,7 @@ export default function RecipeEditor() {
 
   const [ingredients, setIngredients] = useState<Ingredient[]>([])
   const [allRecipes, setAllRecipes] = useState<Recipe[]>([])
+  const [kitchenLines, setKitchenLines] = useState<CostingLine[]>([])
 
   const [toastMsg, setToastMsg] = useState('')
   const [toastOpen, setToastOpen] = useState(false)
@@ -993,7 +1031,7 @@ export default function RecipeEditor() {
 
   const [activeSection, setActiveSection] = useState<string>('sec-basics')
   useEffect(() => {
-    const ids = ['sec-basics', 'sec-method', 'sec-nutrition', 'sec-lines', 'sec-print', 'sec-cook', 'sec-cost']
+    const ids = ['sec-basics', 'sec-method', 'sec-nutrition', 'sec-lines', 'sec-print', 'sec-cook', 'sec-cost', 'sec-history']
     const els = ids.map((x) => document.getElementById(x)).filter(Boolean) as HTMLElement[]
     if (!els.length) return
     const io = new IntersectionObserver(
@@ -1030,9 +1068,20 @@ export default function RecipeEditor() {
     return list.slice(0, 60)
   }, [ingredients, ingSearch])
 
+  // Dependency graph with this recipe's (possibly unsaved) lines in place of the stored ones.
+  const recipeGraph = useMemo(() => {
+    const others = kitchenLines.filter((l) => l.recipe_id !== id)
+    return buildRecipeGraph([...others, ...lines])
+  }, [kitchenLines, lines, id])
+
   const subRecipeOptions = useMemo(() => {
-    return allRecipes.filter((r) => !!r.is_subrecipe && !r.is_archived).slice(0, 200)
-  }, [allRecipes])
+    return allRecipes
+      .filter((r) => !!r.is_subrecipe && !r.is_archived)
+      .filter((r) => !id || !cyclePathIfAdded(recipeGraph, id, r.id))
+      .slice(0, 200)
+  }, [allRecipes, recipeGraph, id])
+
+  const whereUsed = useMemo(() => (id ? whereUsedRecipe(recipeGraph, id) : []), [recipeGraph, id])
 
   const [addIngredientId, setAddIngredientId] = useState('')
   const [addSubRecipeId, setAddSubRecipeId] = useState('')
@@ -1059,11 +1108,17 @@ export default function RecipeEditor() {
     setAddYield(String(Math.round(y * 100) / 100))
   }, [addGross, addNetQty])
 
-  const [costPoints, setCostPoints] = useState(() => (id ? listCostPoints(id) : []))
+  const [costPoints, setCostPoints] = useState<CostPoint[]>([])
+  const [costRange, setCostRange] = useState<[Date, Date]>(() => [new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), new Date()])
+  const [costPointsKey, setCostPointsKey] = useState(0)
   useEffect(() => {
     if (!id) return
-    setCostPoints(listCostPoints(id))
-  }, [id])
+    let alive = true
+    listCostPoints({ recipeId: id, from: costRange[0], to: costRange[1] })
+      .then((pts) => alive && setCostPoints(pts))
+      .catch(() => alive && setCostPoints([]))
+    return () => { alive = false }
+  }, [id, costRange, costPointsKey])
 
   const recipeRef = useRef<Recipe | null>(null)
   const linesRef = useRef<Line[]>([])
@@ -1080,6 +1135,33 @@ export default function RecipeEditor() {
     if (hasDraft) writeDraftLines(id, cur)
   }, [id, lines, isDraftLine])
 
+  /** Push a recipes row (or a restored version of it) into the form fields. */
+  const hydrateMeta = (r: Partial<Recipe>) => {
+    setCode((r.code || '').toUpperCase())
+    setCodeCategory((r.code_category || '').toUpperCase())
+    setName(r.name || '')
+    setCategory(r.category || '')
+    setPortions(String(r.portions ?? 1))
+    setDescription(r.description || '')
+
+    setSteps((r.method_steps || []).filter((x) => typeof x === 'string'))
+    setStepPhotos((r.method_step_photos || []).filter((x) => typeof x === 'string'))
+    setMethodLegacy(r.method || '')
+
+    setCalories(r.calories != null ? String(r.calories) : '')
+    setProtein(r.protein_g != null ? String(r.protein_g) : '')
+    setCarbs(r.carbs_g != null ? String(r.carbs_g) : '')
+    setFat(r.fat_g != null ? String(r.fat_g) : '')
+
+    setCurrency((r.currency || 'USD').toUpperCase())
+    setSellingPrice(r.selling_price != null ? String(r.selling_price) : '')
+    setTargetFC(r.target_food_cost_pct != null ? String(r.target_food_cost_pct) : '30')
+
+    setIsSubRecipe(!!r.is_subrecipe)
+    setYieldQty(r.yield_qty != null ? String(r.yield_qty) : '')
+    setYieldUnit((safeUnit(r.yield_unit || 'g') as any) || 'g')
+  }
+
   useEffect(() => {
     if (!id) {
       setErr('Missing recipe id.')
@@ -1111,29 +1193,7 @@ export default function RecipeEditor() {
           localStorage.setItem('gc_last_recipe_ts', String(Date.now()))
         } catch {}
 
-        setCode((recipeRow.code || '').toUpperCase())
-        setCodeCategory((recipeRow.code_category || '').toUpperCase())
-        setName(recipeRow.name || '')
-        setCategory(recipeRow.category || '')
-        setPortions(String(recipeRow.portions ?? 1))
-        setDescription(recipeRow.description || '')
-
-        setSteps((recipeRow.method_steps || []).filter((x) => typeof x === 'string'))
-        setStepPhotos((recipeRow.method_step_photos || []).filter((x) => typeof x === 'string'))
-        setMethodLegacy(recipeRow.method || '')
-
-        setCalories(recipeRow.calories != null ? String(recipeRow.calories) : '')
-        setProtein(recipeRow.protein_g != null ? String(recipeRow.protein_g) : '')
-        setCarbs(recipeRow.carbs_g != null ? String(recipeRow.carbs_g) : '')
-        setFat(recipeRow.fat_g != null ? String(recipeRow.fat_g) : '')
-
-        setCurrency((recipeRow.currency || 'USD').toUpperCase())
-        setSellingPrice(recipeRow.selling_price != null ? String(recipeRow.selling_price) : '')
-        setTargetFC(recipeRow.target_food_cost_pct != null ? String(recipeRow.target_food_cost_pct) : '30')
-
-        setIsSubRecipe(!!recipeRow.is_subrecipe)
-        setYieldQty(recipeRow.yield_qty != null ? String(recipeRow.yield_qty) : '')
-        setYieldUnit((safeUnit(recipeRow.yield_unit || 'g') as any) || 'g')
+        hydrateMeta(recipeRow)
 
         const { data: l, error: lErr } = await supabase
           .from('recipe_lines')
@@ -1157,6 +1217,10 @@ export default function RecipeEditor() {
         if (rsErr) throw rsErr
         if (!alive) return
         setAllRecipes((rs || []) as Recipe[])
+
+        const kl = await loadCostingLines()
+        if (!alive) return
+        setKitchenLines(kl)
       } catch (e: any) {
         autosave.setError(e?.message || 'Failed to load recipe.')
         if (!alive) return
@@ -1183,57 +1247,182 @@ export default function RecipeEditor() {
     return m
   }, [allRecipes])
 
-  const lineComputed = useMemo(() => {
-    const res = new Map<string, { net: number; gross: number; yieldPct: number; unitCost: number; lineCost: number; warnings: string[] }>()
-
-    for (const l of lines) {
-      const warnings: string[] = []
-      const net = Math.max(0, toNum(l.qty, 0))
-      const yieldPct = clamp(toNum(l.yield_percent, 100), 0.0001, 100)
-      const gross = l.gross_qty_override != null && l.gross_qty_override > 0 ? Math.max(0, l.gross_qty_override) : net / (yieldPct / 100)
-
-      let unitCost = 0
-      let lineCost = 0
-
-      if (l.line_type === 'ingredient') {
-        const ing = l.ingredient_id ? ingById.get(l.ingredient_id) : null
-        unitCost = toNum(ing?.net_unit_cost, 0)
-        if (!ing) warnings.push('Missing ingredient')
-        if (!Number.isFinite(unitCost) || unitCost <= 0) warnings.push('Ingredient without price')
-        const packUnit = ing?.pack_unit || l.unit
-        const qtyInPack = convertQtyToPackUnit(gross, l.unit, packUnit)
-        lineCost = qtyInPack * unitCost
-      } else if (l.line_type === 'subrecipe') {
-        warnings.push('Subrecipe cost not expanded')
-      }
+  const costEngine = useMemo(() => {
+    const byRecipe = groupLinesByRecipe(kitchenLines)
+    if (id) byRecipe.set(id, lines)
+    return createCostingEngine({ ingredients, recipes: allRecipes, lines: byRecipe })
+  }, [id, lines, kitchenLines, ingredients, allRecipes])
 
-      res.set(l.id, { net, gross, yieldPct, unitCost, lineCost: Number.isFinite(lineCost) ? lineCost : 0, warnings })
-    }
+  const costing = useMemo(() => costEngine.costLines(id || '', lines, Math.max(1, toNum(portions, 1))), [costEngine, id, lines, portions])
 
-    return res
-  }, [lines, ingById])
+  // Scaling runs on the form's (possibly unsaved) lines, portions and yield.
+  const scaleCtx = useMemo<ScaleContext>(() => {
+    const byRecipe = groupLinesByRecipe(kitchenLines)
+    if (id) byRecipe.set(id, lines)
+    const self = { portions: Math.max(1, toNum(portions, 1)), yield_qty: yieldQty === '' ? null : toNum(yieldQty, 0), yield_unit: yieldUnit }
+    return { recipes: allRecipes.map((r) => (r.id === id ? { ...r, ...self } : r)), ingredients, lines: byRecipe }
+  }, [id, lines, kitchenLines, ingredients, allRecipes, portions, yieldQty, yieldUnit])
+
+  const openScaled = useCallback(
+    (t: ScaleTarget, where: 'cook' | 'print') => {
+      if (!id) return
+      const q = `id=${encodeURIComponent(id)}&scale=${encodeURIComponent(encodeScaleTarget(t))}`
+      if (where === 'cook') navigate(`/cook?${q}`)
+      else window.open(`#/print?${q}&autoprint=1`, '_blank', 'noopener,noreferrer')
+    },
+    [id, navigate]
+  )
+
+  const lineComputed = costing.lines
 
   const totals = useMemo(() => {
-    let totalCost = 0
-    let warnings: string[] = []
-
-    for (const l of lines) {
-      if (l.line_type === 'group') continue
-      const c = lineComputed.get(l.id)
-      if (!c) continue
-      totalCost += c.lineCost
-      if (c.warnings.length) warnings = warnings.concat(c.warnings)
+    const { totalCost, cpp } = costing
+    const { fcPct, margin, marginPct } = priceMetrics(cpp, sellingPrice)
+    return { totalCost, cpp, fcPct, margin, marginPct, warnings: costing.warnings.slice(0, 4) }
+  }, [costing, sellingPrice])
+
+  // Labor, packaging and overhead load on their own so a missing migration never blocks the editor.
+  const [plateData, setPlateData] = useState<{ overheadPct: number; roles: LaborRole[]; labor: RecipeLabor; laborByRecipe: Map<string, RecipeLabor>; packaging: PackagingLine[] } | null>(null)
+
+  useEffect(() => {
+    if (!id) return
+    let alive = true
+    loadRecipePlateCost(id)
+      .then((d) => alive && setPlateData({ overheadPct: d.settings.overhead_pct, roles: d.roles, labor: d.labor, laborByRecipe: d.laborByRecipe, packaging: d.packaging }))
+      .catch(() => alive && setPlateData(null))
+    return () => {
+      alive = false
     }
+  }, [id])
+
+  // PREP labor through this recipe's (possibly unsaved) subrecipe lines.
+  const prepLabor = useMemo(() => {
+    if (!id || !plateData) return 0
+    const others = kitchenLines.filter((l) => l.recipe_id !== id)
+    return prepLaborCost(id, { recipes: allRecipes, lines: [...others, ...lines], labor: plateData.laborByRecipe, roles: plateData.roles })
+  }, [id, plateData, kitchenLines, lines, allRecipes])
+
+  const plate = useMemo(
+    () =>
+      computePlateCost({
+        foodCost: costing.totalCost,
+        portions: Math.max(1, toNum(portions, 1)),
+        sellingPrice: toNum(sellingPrice, 0),
+        labor: plateData?.labor,
+        prepLabor,
+        roles: plateData?.roles ?? [],
+        packaging: plateData?.packaging,
+        overheadPct: plateData?.overheadPct,
+      }),
+    [costing.totalCost, portions, sellingPrice, plateData, prepLabor]
+  )
 
+  const [historyKey, setHistoryKey] = useState(0)
+
+  const buildVersionSnapshot = useCallback(
+    (meta: RecipeVersionRecipe, src: Line[]): RecipeVersionSnapshot => {
+      const saved = src.filter((l) => !isDraftLine(l))
+      const cost = costEngine.costLines(id || '', saved, Math.max(1, toNum(meta.portions, 1)))
+      return {
+        schema: 1,
+        recipe: meta,
+        lines: saved.map((l) => ({
+          id: l.id,
+          ingredient_id: l.ingredient_id,
+          sub_recipe_id: l.sub_recipe_id,
+          position: toNum(l.position, 0),
+          qty: toNum(l.qty, 0),
+          unit: safeUnit(l.unit),
+          yield_percent: toNum(l.yield_percent, 100),
+          notes: l.notes ?? null,
+          gross_qty_override: l.gross_qty_override ?? null,
+          line_type: l.line_type,
+          group_title: l.group_title ?? null,
+          label:
+            l.line_type === 'group'
+              ? l.group_title || 'Group'
+              : l.sub_recipe_id
+                ? recipeById.get(l.sub_recipe_id)?.name || 'Subrecipe'
+                : ingById.get(l.ingredient_id || '')?.name || 'Ingredient',
+          cost: cost.lines.get(l.id)?.lineCost ?? 0,
+        })),
+        cost: { total: cost.totalCost, cpp: cost.cpp, currency: meta.currency },
+      }
+    },
+    [costEngine, id, isDraftLine, recipeById, ingById]
+  )
+
+  // Saves are scheduled from stale closures; always record through the latest builder.
+  const recordVersionRef = useRef<(reason: RecipeVersionReason, meta: RecipeVersionRecipe, src: Line[], restoredFrom?: number) => Promise<void>>(async () => {})
+  useEffect(() => {
+    recordVersionRef.current = async (reason, meta, src, restoredFrom) => {
+      if (!id) return
+      try {
+        const v = await recordRecipeVersion(id, buildVersionSnapshot(meta, src), reason, { restoredFrom })
+        if (v) setHistoryKey((x) => x + 1)
+      } catch (e: any) {
+        // History must never block a save, but the cook should know it's missing.
+        showToast(`Saved, but version history was not recorded: ${e?.message || 'unknown error'}`)
+      }
+    }
+  }, [id, buildVersionSnapshot, showToast])
+
+  const nutrition = useMemo(() => {
+    const ingMap = new Map<string, IngredientForCalc>()
+    for (const i of ingredients) {
+      ingMap.set(i.id, {
+        id: i.id,
+        name: i.name || 'Ingredient',
+        kcal_per_100g: i.kcal_per_100g ?? null,
+        protein_per_100g: i.protein_per_100g ?? null,
+        carbs_per_100g: i.carbs_per_100g ?? null,
+        fat_per_100g: i.fat_per_100g ?? null,
+        density_g_per_ml: i.density_g_per_ml ?? null,
+        grams_per_piece: i.grams_per_piece ?? null,
+      })
+    }
+    const res = calcRecipeNutritionDeep({
+      recipeId: id || '',
+      lines,
+      linesByRecipe: groupLinesByRecipe(kitchenLines),
+      recipes: recipeById,
+      ingredients: ingMap,
+    })
     const p = Math.max(1, toNum(portions, 1))
-    const cpp = p > 0 ? totalCost / p : 0
-    const sell = Math.max(0, toNum(sellingPrice, 0))
-    const fcPct = sell > 0 ? (cpp / sell) * 100 : null
-    const margin = sell - cpp
-    const marginPct = sell > 0 ? (margin / sell) * 100 : null
+    const perPortion = {
+      kcal: res.totals.kcal / p,
+      protein_g: res.totals.protein_g / p,
+      carbs_g: res.totals.carbs_g / p,
+      fat_g: res.totals.fat_g / p,
+    }
+    return { ...res, perPortion }
+  }, [id, lines, kitchenLines, ingredients, recipeById, portions])
+
+  const [allergenDefs, setAllergenDefs] = useState<AllergenDef[]>(EU_ALLERGENS)
+  useEffect(() => {
+    listAllergenDefs()
+      .then(setAllergenDefs)
+      .catch(() => {})
+  }, [])
+
+  const allergenProfile = useMemo(() => {
+    const others = kitchenLines.filter((l) => l.recipe_id !== id)
+    const map = computeRecipeAllergens({ ingredients, lines: [...others, ...lines] })
+    const p = id ? map.get(id) : undefined
+    return {
+      contains: Array.from(p?.contains ?? []).sort(),
+      mayContain: Array.from(p?.mayContain ?? []).sort(),
+    }
+  }, [id, lines, kitchenLines, ingredients])
 
-    return { totalCost, cpp, fcPct, margin, marginPct, warnings: Array.from(new Set(warnings)).slice(0, 4) }
-  }, [lines, lineComputed, portions, sellingPrice])
+  const applyCalculatedNutrition = useCallback(() => {
+    const r1 = (n: number) => String(Math.round(n * 10) / 10)
+    setCalories(String(Math.round(nutrition.perPortion.kcal)))
+    setProtein(r1(nutrition.perPortion.protein_g))
+    setCarbs(r1(nutrition.perPortion.carbs_g))
+    setFat(r1(nutrition.perPortion.fat_g))
+    showToast('Calculated nutrition applied.')
+  }, [nutrition, showToast])
 
   const [savingMeta, setSavingMeta] = useState(false)
   const [savingLines, setSavingLines] = useState(false)
@@ -1249,6 +1438,30 @@ export default function RecipeEditor() {
     return () => window.clearTimeout(t)
   }, [savingMeta, savingLines])
 
+  const buildMetaPatch = useCallback(() => {
+    return {
+      code: (code || '').trim().toUpperCase() || null,
+      code_category: (codeCategory || '').trim().toUpperCase() || null,
+      name: (name || '').trim() || 'Untitled',
+      category: (category || '').trim() || null,
+      portions: Math.max(1, Math.floor(toNum(portions, 1))),
+      description: description || '',
+      method_steps: steps,
+      method_step_photos: stepPhotos,
+      method: methodLegacy || '',
+      calories: calories === '' ? null : toNum(calories, null as any),
+      protein_g: protein === '' ? null : toNum(protein, null as any),
+      carbs_g: carbs === '' ? null : toNum(carbs, null as any),
+      fat_g: fat === '' ? null : toNum(fat, null as any),
+      currency: (currency || 'USD').toUpperCase(),
+      selling_price: sellingPrice === '' ? null : toNum(sellingPrice, null as any),
+      target_food_cost_pct: targetFC === '' ? null : toNum(targetFC, null as any),
+      is_subrecipe: !!isSubRecipe,
+      yield_qty: yieldQty === '' ? null : toNum(yieldQty, null as any),
+      yield_unit: safeUnit(yieldUnit),
+    }
+  }, [code, codeCategory, name, category, portions, description, steps, stepPhotos, methodLegacy, calories, protein, carbs, fat, currency, sellingPrice, targetFC, isSubRecipe, yieldQty, yieldUnit])
+
   const saveLinesNow = useCallback(async (override?: Line[]): Promise<boolean> => {
     if (!id) return false
     const rid = id
@@ -1322,8 +1535,10 @@ export default function RecipeEditor() {
         if (l2Err) throw l2Err
         setLinesSafe((l2 || []) as Line[])
         clearDraftLines(rid)
+        recordVersionRef.current('lines', buildMetaPatch(), (l2 || []) as Line[])
       } else {
         clearDraftLines(rid)
+        recordVersionRef.current('lines', buildMetaPatch(), persisted)
       }
 
       autosave.setSaved()
@@ -1337,7 +1552,7 @@ export default function RecipeEditor() {
     } finally {
       setSavingLines(false)
     }
-  }, [id, isDraftLine, setLinesSafe, k.kitchenId, autosave])
+  }, [id, isDraftLine, setLinesSafe, k.kitchenId, autosave, buildMetaPatch])
 
   const scheduleLinesSave = useCallback(() => {
     if (!id) return
@@ -1391,30 +1606,6 @@ export default function RecipeEditor() {
     [setLinesSafe, saveLinesNow]
   )
 
-  const buildMetaPatch = useCallback(() => {
-    return {
-      code: (code || '').trim().toUpperCase() || null,
-      code_category: (codeCategory || '').trim().toUpperCase() || null,
-      name: (name || '').trim() || 'Untitled',
-      category: (category || '').trim() || null,
-      portions: Math.max(1, Math.floor(toNum(portions, 1))),
-      description: description || '',
-      method_steps: steps,
-      method_step_photos: stepPhotos,
-      method: methodLegacy || '',
-      calories: calories === '' ? null : toNum(calories, null as any),
-      protein_g: protein === '' ? null : toNum(protein, null as any),
-      carbs_g: carbs === '' ? null : toNum(carbs, null as any),
-      fat_g: fat === '' ? null : toNum(fat, null as any),
-      currency: (currency || 'USD').toUpperCase(),
-      selling_price: sellingPrice === '' ? null : toNum(sellingPrice, null as any),
-      target_food_cost_pct: targetFC === '' ? null : toNum(targetFC, null as any),
-      is_subrecipe: !!isSubRecipe,
-      yield_qty: yieldQty === '' ? null : toNum(yieldQty, null as any),
-      yield_unit: safeUnit(yieldUnit),
-    }
-  }, [code, codeCategory, name, category, portions, description, steps, stepPhotos, methodLegacy, calories, protein, carbs, fat, currency, sellingPrice, targetFC, isSubRecipe, yieldQty, yieldUnit])
-
   const saveMetaNow = useCallback(async () => {
     if (!id) return
     setErr(null)
@@ -1423,6 +1614,7 @@ export default function RecipeEditor() {
       const patch = buildMetaPatch()
       const { error } = await supabase.from('recipes').update(patch).eq('id', id)
       if (error) throw error
+      recordVersionRef.current('meta', patch, linesRef.current || [])
       showToast('Saved.')
     } catch (e: any) {
       setErr(e?.message || 'Failed to save.')
@@ -1431,6 +1623,34 @@ export default function RecipeEditor() {
     }
   }, [id, buildMetaPatch, showToast])
 
+  const [restoring, setRestoring] = useState(false)
+  const restoreVersion = useCallback(
+    async (v: RecipeVersionRow) => {
+      if (!id || restoring) return
+      if (!window.confirm(`Restore version ${v.version_no}? The current state stays in history; the restore is saved as a new version.`)) return
+      setErr(null)
+      setRestoring(true)
+      try {
+        const res = await restoreRecipeVersion(id, v.id)
+        const restored = res.lines as Line[]
+        deletedLineIdsRef.current = []
+        linesRef.current = restored
+        setLinesSafe(restored)
+        clearDraftLines(id)
+        hydrateMeta(res.recipe)
+        setRecipe((prev) => (prev ? { ...prev, ...res.recipe } : prev))
+        recordVersionRef.current('restore', res.recipe, restored, v.version_no)
+        if (res.dropped.length) setErr(`Restored v${v.version_no} without: ${res.dropped.join(', ')} (deleted or would create a loop).`)
+        showToast(`Version ${v.version_no} restored.`)
+      } catch (e: any) {
+        setErr(e?.message || 'Failed to restore version.')
+      } finally {
+        setRestoring(false)
+      }
+    },
+    [id, restoring, setLinesSafe, showToast]
+  )
+
   const scheduleMetaSave = useCallback(() => {
     if (!id) return
     window.setTimeout(() => saveMetaNow().catch(() => {}), 650)
@@ -1490,6 +1710,12 @@ export default function RecipeEditor() {
 
     if (addType === 'subrecipe') {
       if (!addSubRecipeId) { setErr('Pick a subrecipe first.'); return }
+      const loop = cyclePathIfAdded(recipeGraph, rid, addSubRecipeId)
+      if (loop) {
+        const names = loop.map((x) => (x === rid ? name || 'This recipe' : recipeById.get(x)?.name || 'Subrecipe'))
+        setErr(`Cannot add this subrecipe: it would create a loop (${names.join(' → ')}).`)
+        return
+      }
       const newL: Line = {
         id: uid(),
         kitchen_id: recipeRef.current?.kitchen_id ?? k.kitchenId ?? null,
@@ -1540,7 +1766,7 @@ export default function RecipeEditor() {
     const ok = await saveLinesNow(next)
     showToast(ok ? 'Group added & saved.' : 'Group added — saved locally.')
     if (ok) setAddGroupTitle('')
-  }, [id, addType, addIngredientId, addSubRecipeId, addGroupTitle, addNetQty, addUnit, addYield, addGross, addNote, setLinesSafe, saveLinesNow, showToast, k.kitchenId])
+  }, [id, addType, addIngredientId, addSubRecipeId, addGroupTitle, addNetQty, addUnit, addYield, addGross, addNote, setLinesSafe, saveLinesNow, showToast, k.kitchenId, recipeGraph, recipeById, name])
 
   const onNetChange = useCallback(
     (lineId: string, value: string) => {
@@ -1646,29 +1872,19 @@ export default function RecipeEditor() {
     setSteps((prev) => prev.map((s, i) => (i === idx ? value : s)))
   }, [])
 
-  const addSnapshot = useCallback(() => {
+  const addSnapshot = useCallback(async () => {
     if (!id) return
     const p = Math.max(1, Math.floor(toNum(portions, 1)))
-    addCostPoint(id, { createdAt: Date.now(), totalCost: totals.totalCost, cpp: totals.cpp, portions: p, currency: cur } as any)
-    setCostPoints(listCostPoints(id))
-    showToast('Cost snapshot added.')
+    try {
+      await addCostPoint(id, { totalCost: totals.totalCost, cpp: totals.cpp, portions: p, currency: cur })
+      setCostRange(([from]) => [from, new Date()])
+      setCostPointsKey((x) => x + 1)
+      showToast('Cost snapshot added.')
+    } catch (e: any) {
+      setErr(e?.message || 'Failed to add cost snapshot.')
+    }
   }, [id, portions, cur, totals.totalCost, totals.cpp, showToast])
 
-  const clearSnapshots = useCallback(() => {
-    if (!id) return
-    if (!window.confirm('Clear all cost snapshots?')) return
-    clearCostPoints(id)
-    setCostPoints(listCostPoints(id))
-    showToast('Cost snapshots cleared.')
-  }, [id, showToast])
-
-  const removeSnapshot = useCallback((pid: string) => {
-    if (!id) return
-    deleteCostPoint(id, pid)
-    setCostPoints(listCostPoints(id))
-    showToast('Snapshot removed.')
-  }, [id, showToast])
-
   const printNow = useCallback(() => {
     if (!id) return
     window.open(`#/print?id=${encodeURIComponent(id)}&autoprint=1`, '_blank', 'noopener,noreferrer')
@@ -1697,29 +1913,30 @@ export default function RecipeEditor() {
         carbs_g: carbs ? Number(carbs) : null,
         fat_g: fat ? Number(fat) : null,
       }
-      const rows = lines.filter((l) => l.line_type !== 'group').map((l) => {
-        const c = lineComputed.get(l.id)
-        return {
-          type: l.line_type === 'subrecipe' ? 'subrecipe' : 'ingredient',
-          code: l.line_type === 'ingredient' ? (l.ingredient_id ? (ingById.get(l.ingredient_id) as any)?.code : null) || '' : (allRecipes.find((sr) => sr.id === l.sub_recipe_id)?.code || ''),
-          name: l.line_type === 'ingredient' ? (l.ingredient_id ? ingById.get(l.ingredient_id)?.name : null) || 'Ingredient' : (allRecipes.find((sr) => sr.id === l.sub_recipe_id)?.name || 'Subrecipe'),
-          net_qty: c?.net ?? 0,
-          unit: l.unit || '',
-          yield_percent: c?.yieldPct ?? 100,
-          gross_qty: c?.gross ?? 0,
-          unit_cost: c?.unitCost ?? 0,
-          line_cost: c?.lineCost ?? 0,
-          notes: l.notes || '',
-          warnings: c?.warnings || [],
-        }
+      const rows = lines.filter((l) => l.line_type !== 'group').map((l) =>
+        excelRowFromLineCost(
+          {
+            type: l.line_type === 'subrecipe' ? 'subrecipe' : 'ingredient',
+            code: l.line_type === 'ingredient' ? (l.ingredient_id ? (ingById.get(l.ingredient_id) as any)?.code : null) || '' : (allRecipes.find((sr) => sr.id === l.sub_recipe_id)?.code || ''),
+            name: l.line_type === 'ingredient' ? (l.ingredient_id ? ingById.get(l.ingredient_id)?.name : null) || 'Ingredient' : (allRecipes.find((sr) => sr.id === l.sub_recipe_id)?.name || 'Subrecipe'),
+            unit: l.unit || '',
+            notes: l.notes || '',
+          },
+          lineComputed.get(l.id)
+        )
+      )
+      await exportRecipeExcelUltra({
+        meta,
+        totals: { totalCost: totals.totalCost, cpp: totals.cpp, fcPct: totals.fcPct, margin: totals.margin, marginPct: totals.marginPct },
+        plate: plateData ? { ...plate, overheadPct: plateData.overheadPct } : null,
+        lines: rows,
       })
-      await exportRecipeExcelUltra({ meta, totals: { totalCost: totals.totalCost, cpp: totals.cpp, fcPct: totals.fcPct, margin: totals.margin, marginPct: totals.marginPct }, lines: rows as any })
       showToast('Excel exported.')
     } catch (e: any) {
       console.error(e)
       showToast('Excel export failed.')
     }
-  }, [id, name, category, portions, yieldQty, yieldUnit, currency, sellingPrice, targetFC, description, steps, stepPhotos, calories, protein, carbs, fat, lines, lineComputed, ingById, allRecipes, totals, showToast])
+  }, [id, name, category, portions, yieldQty, yieldUnit, currency, sellingPrice, targetFC, description, steps, stepPhotos, calories, protein, carbs, fat, lines, lineComputed, ingById, allRecipes, totals, plate, plateData, showToast])
 
   if (loading) {
     return (
@@ -1824,6 +2041,10 @@ export default function RecipeEditor() {
               <span className="ik-nav-icon">◎</span>
               <span>Nutrition</span>
             </button>
+            <button className={`ik-nav-item ${activeSection === 'sec-history' ? 'active' : ''}`} onClick={() => scrollToSection('sec-history')}>
+              <span className="ik-nav-icon">↺</span>
+              <span>History</span>
+            </button>
           </nav>
         </header>
 
@@ -1863,6 +2084,40 @@ export default function RecipeEditor() {
                   <div className="ik-kpi-value">{fmtMoney(totals.margin, cur)}</div>
                 </div>
               </div>
+              <div className="ik-kpi-grid">
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">PRIME COST/PORTION</div>
+                  <div className="ik-kpi-value">{fmtMoney(plate.primePP, cur)}</div>
+                  <div className="ik-label-sm">Food + labor</div>
+                </div>
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">PRIME COST %</div>
+                  <div className="ik-kpi-value">{plate.primePct != null ? `${plate.primePct.toFixed(1)}%` : '—'}</div>
+                </div>
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">PLATE COST/PORTION</div>
+                  <div className="ik-kpi-value">{fmtMoney(plate.platePP, cur)}</div>
+                  <div className="ik-label-sm">+ packaging &amp; overhead</div>
+                </div>
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">PLATE COST %</div>
+                  <div className="ik-kpi-value">{plate.platePct != null ? `${plate.platePct.toFixed(1)}%` : '—'}</div>
+                </div>
+              </div>
+              {id && plateData && (
+                <PlateCostPanel
+                  recipeId={id}
+                  plate={plate}
+                  currency={cur}
+                  roles={plateData.roles}
+                  labor={plateData.labor}
+                  packaging={plateData.packaging}
+                  overheadPct={plateData.overheadPct}
+                  canEdit={k.canEdit}
+                  onLaborChange={(labor) => setPlateData((d) => (d ? { ...d, labor } : d))}
+                  onPackagingChange={(packaging) => setPlateData((d) => (d ? { ...d, packaging } : d))}
+                />
+              )}
               {totals.warnings?.length > 0 && (
                 <div className="ik-warning-strip">
                   <span>⚠</span>
@@ -2051,11 +2306,7 @@ export default function RecipeEditor() {
                   <div className="ik-field">
                     <label className="ik-label-sm">UNIT</label>
                     <select className="ik-select" value={addUnit} onChange={(e) => setAddUnit(e.target.value)}>
-                      <option value="g">g</option>
-                      <option value="kg">kg</option>
-                      <option value="ml">ml</option>
-                      <option value="l">l</option>
-                      <option value="pcs">pcs</option>
+                      {UNIT_OPTIONS.map((u) => <option key={u} value={u}>{u}</option>)}
                     </select>
                   </div>
                   <div className="ik-field">
@@ -2261,6 +2512,111 @@ export default function RecipeEditor() {
                 <input className="ik-input" type="number" value={fat} onChange={(e) => setFat(e.target.value)} placeholder="0" />
               </div>
             </div>
+            <div className="ik-nutri-auto">
+              <div className="ik-nutri-auto-head">
+                <span className="ik-label-sm">CALCULATED FROM INGREDIENTS ({nutrition.diagnostics.used_lines}/{nutrition.diagnostics.total_lines} lines)</span>
+                <button className="ik-btn ik-btn-sm ik-btn-secondary" onClick={applyCalculatedNutrition} disabled={!nutrition.diagnostics.used_lines}>Use calculated</button>
+              </div>
+              <div className="ik-kpi-grid">
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">KCAL / PORTION</div>
+                  <div className="ik-kpi-value">{Math.round(nutrition.perPortion.kcal)}</div>
+                  <div className="ik-label-sm">Recipe: {Math.round(nutrition.totals.kcal)}</div>
+                </div>
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">PROTEIN / PORTION</div>
+                  <div className="ik-kpi-value">{nutrition.perPortion.protein_g.toFixed(1)} g</div>
+                  <div className="ik-label-sm">Recipe: {nutrition.totals.protein_g.toFixed(1)} g</div>
+                </div>
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">CARBS / PORTION</div>
+                  <div className="ik-kpi-value">{nutrition.perPortion.carbs_g.toFixed(1)} g</div>
+                  <div className="ik-label-sm">Recipe: {nutrition.totals.carbs_g.toFixed(1)} g</div>
+                </div>
+                <div className="ik-kpi">
+                  <div className="ik-kpi-label">FAT / PORTION</div>
+                  <div className="ik-kpi-value">{nutrition.perPortion.fat_g.toFixed(1)} g</div>
+                  <div className="ik-label-sm">Recipe: {nutrition.totals.fat_g.toFixed(1)} g</div>
+                </div>
+              </div>
+              {nutrition.diagnostics.skipped.length > 0 && (
+                <div className="ik-nutri-diag">
+                  <span className="ik-label-sm">SKIPPED LINES — ADD DATA ON THE INGREDIENTS PAGE</span>
+                  {nutrition.diagnostics.skipped.slice(0, 12).map((sk) => (
+                    <div key={sk.line_id} className="ik-nutri-diag-row" title={sk.detail}>
+                      <span>{sk.ingredient_name || 'Line'}{sk.unit ? ` · ${sk.unit}` : ''}</span>
+                      <b>{SKIP_LABELS[sk.reason]}</b>
+                    </div>
+                  ))}
+                  {nutrition.diagnostics.skipped.length > 12 && (
+                    <span className="ik-label-sm">+{nutrition.diagnostics.skipped.length - 12} more</span>
+                  )}
+                </div>
+              )}
+            </div>
+          </section>
+
+          <section id="sec-allergens" className="ik-section">
+            <div className="ik-section-header">
+              <h2 className="ik-section-title">ALLERGENS</h2>
+              <NavLink to="/allergens" className="ik-label-sm">Matrix →</NavLink>
+            </div>
+            <div className="ik-allergen-list">
+              {allergenProfile.contains.length
+                ? allergenProfile.contains.map((a) => <span key={a} className="ik-allergen">{allergenLabel(allergenDefs, a)}</span>)
+                : <span className="ik-label-sm">No declared allergens in ingredients or subrecipes.</span>}
+            </div>
+            {allergenProfile.mayContain.length > 0 && (
+              <div className="ik-allergen-list">
+                <span className="ik-label-sm">MAY CONTAIN</span>
+                {allergenProfile.mayContain.map((a) => <span key={a} className="ik-allergen may">{allergenLabel(allergenDefs, a)}</span>)}
+              </div>
+            )}
+          </section>
+
+          <section id="sec-where-used" className="ik-section">
+            <div className="ik-section-header">
+              <h2 className="ik-section-title">WHERE USED</h2>
+            </div>
+            <WhereUsedPanel
+              entries={whereUsed}
+              recipeById={recipeById}
+              itemName={name || 'This recipe'}
+              onOpenRecipe={(rid) => navigate(`/recipe?id=${encodeURIComponent(rid)}`)}
+            />
+          </section>
+
+          <section id="sec-scale" className="ik-section">
+            <div className="ik-section-header">
+              <h2 className="ik-section-title">SCALE</h2>
+              <span className="ik-label-sm">By portions, yield or an ingredient on hand</span>
+            </div>
+            {id && (
+              <ScalePanel
+                recipe={{ id, name, portions: Math.max(1, toNum(portions, 1)), yield_qty: yieldQty === '' ? null : toNum(yieldQty, 0), yield_unit: yieldUnit }}
+                ctx={scaleCtx}
+                recipeName={(rid) => recipeById.get(rid)?.name || 'Subrecipe'}
+                ingredientName={(iid) => ingById.get(iid)?.name || 'Ingredient'}
+                onCook={(t) => openScaled(t, 'cook')}
+                onPrint={(t) => openScaled(t, 'print')}
+              />
+            )}
+          </section>
+
+          <section id="sec-share" className="ik-section">
+            <div className="ik-section-header">
+              <h2 className="ik-section-title">PUBLIC SHARE</h2>
+              <span className="ik-label-sm">Signed read-only links, optionally expiring</span>
+            </div>
+            {id && <SharePanel recipeId={id} canShare={k.canEdit} canRevoke={k.isOwner} />}
+          </section>
+
+          <section id="sec-history" className="ik-section">
+            <div className="ik-section-header">
+              <h2 className="ik-section-title">VERSION HISTORY</h2>
+              {restoring && <span className="ik-label-sm">Restoring…</span>}
+            </div>
+            {id && <RecipeHistoryPanel recipeId={id} currency={cur} refreshKey={historyKey} onRestore={restoreVersion} />}
           </section>
 
           {showCost && (
@@ -2269,11 +2625,12 @@ export default function RecipeEditor() {
                 <h2 className="ik-section-title">COST HISTORY</h2>
                 <div className="ik-history-actions">
                   <button className="ik-btn ik-btn-sm ik-btn-primary" onClick={addSnapshot}>+ Snapshot</button>
-                  {costPoints.length > 0 && <button className="ik-btn ik-btn-sm ik-btn-secondary" onClick={clearSnapshots}>Clear</button>}
+                  <NavLink to={`/cost-history?recipe=${encodeURIComponent(id || '')}`} className="ik-label-sm">All recipes →</NavLink>
                 </div>
               </div>
+              <DateRangePicker value={costRange} onChange={setCostRange} />
               <CostTimeline points={costPoints} currency={currency} />
-              {!costPoints.length && <div className="ik-empty"><div className="ik-empty-text">No snapshots yet</div></div>}
+              <div className="ik-label-sm">Points are added automatically when an ingredient price changes, including through subrecipes.</div>
             </section>
           )}
         </main>
@@ -2,6 +2,27 @@ import { ReactNode, useEffect, useMemo, useRef, useState } from 'react'
 import { useSearchParams } from 'react-router-dom'
 import { supabase } from '../lib/supabase'
 import { exportRecipePdf } from '../utils/exportRecipePdf'
+import { getIngredientsCached } from '../lib/ingredientsCache'
+import { createCostingEngine, loadCostingLines, type CostingLine } from '../lib/recipeCosting'
+import {
+  decodeScaleTarget,
+  describeScaleTarget,
+  flattenScaled,
+  loadScaleContext,
+  scaleFactor,
+  scaleRecipe,
+  type ScaleContext,
+} from '../lib/scaling'
+import { fmtPacks } from '../components/recipe/ScalePanel'
+import { useKitchen } from '../lib/kitchen'
+import {
+  createPublicShare,
+  loadRecipeSharePayload,
+  SHARE_REDACTION_LABELS,
+  shareQrDataUrl,
+  type ShareRedaction,
+} from '../lib/publicShare'
+import { MetricCard, MiniMetric, Panel, PRINT_BASE_CSS, SectionTitle, Tag, Td, Th } from '../components/print/PrintKit'
 
 type Recipe = {
   id: string
@@ -59,6 +80,9 @@ type SubRecipe = {
   id: string
   code?: string | null
   name: string | null
+  portions?: number | null
+  yield_qty?: number | null
+  yield_unit?: string | null
 }
 
 function toNum(x: unknown, fallback = 0) {
@@ -232,6 +256,8 @@ export default function RecipePrintCard() {
   const [sp] = useSearchParams()
   const id = sp.get('id')
   const autoPrint = sp.get('autoprint') === '1'
+  const scaleParam = sp.get('scale')
+  const scaleTarget = useMemo(() => decodeScaleTarget(scaleParam), [scaleParam])
 
   const mounted = useRef(true)
 
@@ -248,6 +274,27 @@ export default function RecipePrintCard() {
   const [lines, setLines] = useState<Line[]>([])
   const [ingredients, setIngredients] = useState<Ingredient[]>([])
   const [subRecipes, setSubRecipes] = useState<SubRecipe[]>([])
+  const [kitchenLines, setKitchenLines] = useState<CostingLine[]>([])
+  const [scaleCtx, setScaleCtx] = useState<ScaleContext | null>(null)
+  const [scaleLoading, setScaleLoading] = useState(false)
+  const k = useKitchen()
+  const [shareRedaction, setShareRedaction] = useState<ShareRedaction>('quantities')
+  const [shareQr, setShareQr] = useState<{ url: string; image: string; redaction: ShareRedaction } | null>(null)
+  const [shareBusy, setShareBusy] = useState(false)
+  const [shareErr, setShareErr] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!scaleTarget) return
+    let alive = true
+    setScaleLoading(true)
+    loadScaleContext()
+      .then((c) => alive && setScaleCtx(c))
+      .catch(() => alive && setScaleCtx(null))
+      .finally(() => alive && setScaleLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [scaleTarget])
 
   useEffect(() => {
     if (!id) {
@@ -296,37 +343,26 @@ export default function RecipePrintCard() {
           return true
         })
 
-        const ingredientIds = Array.from(
-          new Set(
-            (uniqueLines || [])
-              .filter((x: any) => x?.line_type === 'ingredient' && x?.ingredient_id)
-              .map((x: any) => x.ingredient_id)
-          )
-        )
-
-        const { data: ing, error: iErr } = ingredientIds.length
-          ? await supabase
-              .from('ingredients')
-              .select('id,code,name,pack_unit,net_unit_cost')
-              .in('id', ingredientIds)
-          : { data: [], error: null as any }
-
-        if (iErr) throw iErr
+        // Nested subrecipes can use any ingredient, so cost against the full list.
+        const ing = await getIngredientsCached()
 
         const { data: sr, error: sErr } = await supabase
           .from('recipes')
-          .select('id,code,name,kitchen_id')
+          .select('id,code,name,kitchen_id,portions,yield_qty,yield_unit')
           .eq('kitchen_id', (r as Recipe).kitchen_id)
           .eq('is_subrecipe', true)
 
         if (sErr) throw sErr
 
+        const kl = await loadCostingLines()
+
         if (!mounted.current) return
 
         setRecipe((r || null) as Recipe | null)
         setLines((uniqueLines as Line[]) || [])
         setIngredients(((ing || []) as Ingredient[]) || [])
         setSubRecipes(((sr || []) as SubRecipe[]) || [])
+        setKitchenLines(kl)
       } catch (e: any) {
         if (!mounted.current) return
         setErr(e?.message || 'Failed to load recipe.')
@@ -355,6 +391,11 @@ export default function RecipePrintCard() {
     return m
   }, [subRecipes])
 
+  const costing = useMemo(() => {
+    const engine = createCostingEngine({ ingredients, recipes: subRecipes, lines: kitchenLines })
+    return engine.costLines(id || '', lines, recipe?.portions)
+  }, [id, lines, kitchenLines, ingredients, subRecipes, recipe?.portions])
+
   const computedRows = useMemo(() => {
     const rows = lines.map((l) => {
       if (l.line_type === 'group') {
@@ -373,7 +414,8 @@ export default function RecipePrintCard() {
           ? l.gross_qty_override
           : grossAuto
 
-      let unitCost = 0
+      const cost = costing.lines.get(l.id)
+      const unitCost = cost?.unitCost ?? 0
       let title = 'Line'
       let code: string | undefined
       let isSubrecipe = false
@@ -382,18 +424,16 @@ export default function RecipePrintCard() {
         const ing = ingById.get(l.ingredient_id)
         title = buildIngredientTitle(ing, l)
         code = getValidCode(ing?.code, undefined)
-        unitCost = toNum(ing?.net_unit_cost, 0)
       }
 
       if (l.line_type === 'subrecipe' && l.sub_recipe_id) {
         const sr = subById.get(l.sub_recipe_id)
         title = getValidName(sr?.name, '—')
         code = getValidCode(sr?.code, undefined)
-        unitCost = 0
         isSubrecipe = true
       }
 
-      const lineCost = net * unitCost
+      const lineCost = cost?.lineCost ?? 0
 
       return {
         id: l.id,
@@ -423,7 +463,7 @@ export default function RecipePrintCard() {
         costSharePct,
       }
     })
-  }, [lines, ingById, subById])
+  }, [lines, ingById, subById, costing])
 
   const totalCost = useMemo(() => {
     return computedRows.reduce((sum, r) => sum + (!r.isGroup ? r.lineCost : 0), 0)
@@ -464,6 +504,13 @@ export default function RecipePrintCard() {
     return '—'
   }, [recipe?.yield_qty, recipe?.yield_unit])
 
+  const scaled = useMemo(() => {
+    if (!id || !scaleTarget || !scaleCtx) return null
+    const res = scaleFactor(id, scaleTarget, scaleCtx)
+    if (!res.ok) return { factor: null, message: res.message, rows: [] }
+    return { factor: res.factor, message: '', rows: flattenScaled(scaleRecipe(id, res.factor, scaleCtx)) }
+  }, [id, scaleTarget, scaleCtx])
+
   const showNutrition =
     recipe?.calories != null ||
     recipe?.protein_g != null ||
@@ -472,7 +519,7 @@ export default function RecipePrintCard() {
 
   useEffect(() => {
     if (!autoPrint) return
-    if (loading || err || !recipe) return
+    if (loading || scaleLoading || err || !recipe) return
 
     let cancelled = false
     requestAnimationFrame(() => {
@@ -491,7 +538,24 @@ export default function RecipePrintCard() {
     return () => {
       cancelled = true
     }
-  }, [autoPrint, loading, err, recipe])
+  }, [autoPrint, loading, scaleLoading, err, recipe])
+
+  // A printed card can't be revoked, the link behind its QR can: it is a normal signed share.
+  const handleShareQr = async () => {
+    if (!id) return
+    setShareBusy(true)
+    setShareErr(null)
+    try {
+      const payload = await loadRecipeSharePayload(id, shareRedaction)
+      const res = await createPublicShare({ recipeId: id, payload, label: 'Print card QR' })
+      const image = await shareQrDataUrl(res.url)
+      setShareQr({ url: res.url, image, redaction: shareRedaction })
+    } catch (e: any) {
+      setShareErr(e?.message || 'Failed to create share link')
+    } finally {
+      setShareBusy(false)
+    }
+  }
 
   const handleExport = () => {
     setTimeout(() => {
@@ -522,16 +586,7 @@ export default function RecipePrintCard() {
   return (
     <>
       <style>{`
-        @page {
-          size: A4;
-          margin: 10mm;
-        }
-
-        html, body {
-          background: #f7f6f2;
-          -webkit-print-color-adjust: exact;
-          print-color-adjust: exact;
-        }
+        ${PRINT_BASE_CSS}
 
         #recipe-print-card {
           isolation: isolate;
@@ -602,26 +657,6 @@ export default function RecipePrintCard() {
         }
 
         @media print {
-          html, body {
-            background: #ffffff !important;
-          }
-
-          .no-print {
-            display: none !important;
-          }
-
-          .print-stage {
-            padding: 0 !important;
-            margin: 0 !important;
-            max-width: none !important;
-            background: #ffffff !important;
-          }
-
-          .print-paper {
-            box-shadow: none !important;
-            border-radius: 0 !important;
-          }
-
           .recipe-table {
             min-width: 100%;
             table-layout: auto;
@@ -658,7 +693,32 @@ export default function RecipePrintCard() {
       `}</style>
 
       <div className="print-stage min-h-screen bg-[#f7f6f2] px-4 py-5 md:px-8 md:py-8 text-[#2b2b2b]">
-        <div className="no-print mx-auto mb-4 flex max-w-6xl items-center justify-end gap-3">
+        <div className="no-print mx-auto mb-4 flex max-w-6xl flex-wrap items-center justify-end gap-3">
+          {shareErr ? <span className="text-sm text-red-700">{shareErr}</span> : null}
+          {k.canEdit ? (
+            <>
+              <select
+                value={shareRedaction}
+                onChange={(e) => setShareRedaction(e.target.value as ShareRedaction)}
+                className="rounded-2xl border border-[#dfe5df] bg-white px-4 py-3 text-sm text-stone-700 shadow-sm"
+                title="What the QR code's share link shows"
+              >
+                {(Object.keys(SHARE_REDACTION_LABELS) as ShareRedaction[]).map((r) => (
+                  <option key={r} value={r}>
+                    {SHARE_REDACTION_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleShareQr}
+                disabled={shareBusy}
+                className="rounded-2xl border border-[#dfe5df] bg-white px-5 py-3 text-sm font-medium text-[#2f6f5e] shadow-sm transition hover:bg-[#f7f6f2] disabled:opacity-50"
+                title="Creates a signed public link and prints its QR code on the card"
+              >
+                {shareBusy ? 'Creating link…' : shareQr ? 'New Share QR' : 'Add Share QR'}
+              </button>
+            </>
+          ) : null}
           <button
             onClick={handleExport}
             className="rounded-2xl border border-[#dfe5df] bg-white px-5 py-3 text-sm font-medium text-[#8b5e34] shadow-sm transition hover:bg-[#f7f6f2]"
@@ -707,6 +767,11 @@ export default function RecipePrintCard() {
                   <Tag>{yieldLabel}</Tag>
                   <Tag>{portions} portions</Tag>
                   <Tag tone="secondary">{recipe.code_category || 'General'}</Tag>
+                  {scaled?.factor != null ? (
+                    <Tag tone="secondary">
+                      Scaled ×{fmtQty(scaled.factor)} · {fmtQty(scaled.factor * portions)} portions
+                    </Tag>
+                  ) : null}
                 </div>
 
                 <div className="mt-8 grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
@@ -846,6 +911,63 @@ export default function RecipePrintCard() {
             </div>
           </section>
 
+          {scaleTarget && scaled ? (
+            <section className="border-b border-[#dfe5df] px-6 py-6 md:px-8">
+              <SectionTitle>Scaled Batch · {describeScaleTarget(scaleTarget, scaleTarget.mode === 'ingredient' ? ingById.get(scaleTarget.ingredientId)?.name : null)}</SectionTitle>
+
+              {scaled.factor == null ? (
+                <div className="text-sm text-amber-800">{scaled.message}</div>
+              ) : (
+                <div className="overflow-hidden rounded-[28px] border border-[#dfe5df]">
+                  <table className="recipe-table w-full border-collapse text-sm">
+                    <thead className="bg-[linear-gradient(180deg,#f7f6f2_0%,#eef3ef_100%)] text-[#556b2f]">
+                      <tr>
+                        <Th>Item</Th>
+                        <Th className="w-[110px] text-right">Exact</Th>
+                        <Th className="w-[110px] text-right">Weigh Out</Th>
+                        <Th className="w-[220px]">Packs</Th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scaled.rows.map((row, idx) => {
+                        if (row.type === 'group') {
+                          return (
+                            <tr key={`${row.key}-${idx}`} className="bg-[#f7f6f2]">
+                              <td colSpan={4} className="px-4 py-2 text-xs font-semibold uppercase tracking-[0.16em] text-[#556b2f]" style={{ paddingLeft: 16 + row.depth * 18 }}>
+                                {row.line.group_title || 'Group'}
+                              </td>
+                            </tr>
+                          )
+                        }
+                        const name =
+                          row.type === 'subrecipe'
+                            ? scaleCtx?.recipes.find((r) => r.id === row.line.sub_recipe_id)?.name || 'Sub Recipe'
+                            : ingById.get(row.line.ingredient_id || '')?.name || scaleCtx?.ingredients.find((i) => i.id === row.line.ingredient_id)?.name || 'Ingredient'
+                        return (
+                          <tr key={`${row.key}-${idx}`} className={row.type === 'subrecipe' ? 'bg-[#eef3ef] text-stone-800' : 'text-stone-700'}>
+                            <Td className="font-medium text-stone-900">
+                              <div className="flex items-center gap-2" style={{ paddingLeft: row.depth * 18 }}>
+                                {row.type === 'subrecipe' ? <SubBadge>Sub Recipe</SubBadge> : null}
+                                <span>{name}</span>
+                              </div>
+                            </Td>
+                            <Td className="text-right tabular-nums whitespace-nowrap font-mono text-stone-500">
+                              {fmtQty(row.net)} {row.unit}
+                            </Td>
+                            <Td className="text-right font-semibold tabular-nums whitespace-nowrap font-mono text-[#556b2f]">
+                              {fmtQty(row.rounded.qty)} {row.rounded.unit}
+                            </Td>
+                            <Td className="text-xs text-stone-500">{row.packs ? fmtPacks(row.packs) : ''}</Td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          ) : null}
+
           {(steps.length || methodText) ? (
             <section className="border-b border-[#dfe5df] px-6 py-6 md:px-8">
               <SectionTitle>Preparation Method & Step Photos</SectionTitle>
@@ -919,7 +1041,18 @@ export default function RecipePrintCard() {
               <div className="font-semibold uppercase tracking-[0.2em] text-[#556b2f]">GastroChef World-Class Kitchen System</div>
               <div className="mt-1">Live recipe data from your system, with dish image, step photos, costing, and kitchen-ready preparation flow.</div>
             </div>
-            <div className="text-right">Printed {printedAtHuman} · Recipe ID {shortId(recipe.id)}</div>
+            <div className="flex items-center justify-end gap-4">
+              <div className="text-right">Printed {printedAtHuman} · Recipe ID {shortId(recipe.id)}</div>
+              {shareQr ? (
+                <a href={shareQr.url} target="_blank" rel="noreferrer" className="flex items-center gap-3 text-left">
+                  <img src={shareQr.image} alt="Share link QR code" className="h-24 w-24 rounded-xl border border-[#dfe5df] bg-white p-1" />
+                  <div>
+                    <div className="font-semibold uppercase tracking-[0.2em] text-[#556b2f]">Scan for this recipe</div>
+                    <div className="mt-1">{SHARE_REDACTION_LABELS[shareQr.redaction]}</div>
+                  </div>
+                </a>
+              ) : null}
+            </div>
           </footer>
         </article>
       </div>
@@ -927,53 +1060,6 @@ export default function RecipePrintCard() {
   )
 }
 
-function SectionTitle({ children }: { children: ReactNode }) {
-  return <h2 className="mb-5 text-[1.7rem] font-semibold tracking-[-0.03em] text-[#556b2f] md:mb-6 md:text-[1.85rem]">{children}</h2>
-}
-
-function Tag({ children, tone = 'primary' }: { children: ReactNode; tone?: 'primary' | 'secondary' }) {
-  return (
-    <div
-      className={
-        tone === 'secondary'
-          ? 'rounded-full border border-[#dfe5df] bg-[#eef3ef] px-3.5 py-1.5 text-xs font-medium text-[#2f6f5e]'
-          : 'rounded-full border border-[#dfe5df] bg-white px-3.5 py-1.5 text-xs font-medium text-stone-700'
-      }
-    >
-      {children}
-    </div>
-  )
-}
-
-function MetricCard({ label, value }: { label: string; value: string }) {
-  return (
-    <div className="summary-card avoid-break rounded-[22px] border border-[#dfe5df] bg-white px-4 py-4 shadow-[0_4px_16px_rgba(0,0,0,0.03)]">
-      <div className="text-[10px] font-semibold uppercase tracking-[0.2em] text-stone-500">{label}</div>
-      <div className="mt-1.5 text-lg font-semibold text-[#2f6f5e]">{value}</div>
-    </div>
-  )
-}
-
-function Panel({ title, accent, children }: { title: string; accent: 'olive' | 'teal'; children: ReactNode }) {
-  return (
-    <div className="panel-card avoid-break rounded-[28px] border border-[#dfe5df] bg-[linear-gradient(180deg,#ffffff_0%,#fbfcfb_100%)] p-5 shadow-[0_6px_18px_rgba(0,0,0,0.03)]">
-      <div className={`text-[11px] font-semibold uppercase tracking-[0.26em] ${accent === 'olive' ? 'text-[#556b2f]' : 'text-[#2f6f5e]'}`}>
-        {title}
-      </div>
-      <div className="mt-4">{children}</div>
-    </div>
-  )
-}
-
-function MiniMetric({ label, value }: { label: string; value: string }) {
-  return (
-    <div className="rounded-[20px] border border-[#dfe5df] bg-white px-4 py-3">
-      <div className="text-[10px] font-semibold uppercase tracking-[0.18em] text-stone-500">{label}</div>
-      <div className="mt-1.5 text-sm font-semibold text-stone-800">{value}</div>
-    </div>
-  )
-}
-
 function SubBadge({ children }: { children: ReactNode }) {
   return (
     <span className="inline-flex rounded-full border border-[#dfe5df] bg-[#eef3ef] px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.14em] text-[#2f6f5e]">
@@ -993,11 +1079,3 @@ function NutritionCard({ label, value, unit }: { label: string; value: string; u
     </div>
   )
 }
-
-function Th({ children, className = '' }: { children: ReactNode; className?: string }) {
-  return <th className={`border-b border-[#dfe5df] px-3 py-3 text-left text-[11px] font-semibold uppercase tracking-[0.16em] ${className}`}>{children}</th>
-}
-
-function Td({ children, className = '' }: { children: ReactNode; className?: string }) {
-  return <td className={`border-b border-[#eef1ee] px-3 py-3 ${className}`}>{children}   </td>
-}
@@ -8,6 +8,7 @@ import { useKitchen } from '../lib/kitchen'
 import Button from '../components/ui/Button'
 import EmptyState from '../components/EmptyState'
 import { motion, AnimatePresence } from 'framer-motion'
+import { createCostingEngine, missingSubrecipeIds, priceMetrics } from '../lib/recipeCosting'
 
 // ==================== Types ====================
 type LineType = 'ingredient' | 'subrecipe' | 'group'
@@ -19,6 +20,8 @@ type Line = {
   sub_recipe_id: string | null
   qty: number
   unit: string
+  yield_percent?: number | null
+  gross_qty_override?: number | null
   notes: string | null
   position: number
   line_type: LineType
@@ -32,6 +35,8 @@ type Ingredient = {
   net_unit_cost?: number | null
   is_active?: boolean
   category?: string | null
+  density_g_per_ml?: number | null
+  grams_per_piece?: number | null
 }
 
 type RecipeRow = {
@@ -96,23 +101,6 @@ function toNum(x: any, fallback = 0): number {
   return Number.isFinite(n) ? n : fallback
 }
 
-function safeUnit(u: string): string {
-  return (u ?? '').trim().toLowerCase() || 'g'
-}
-
-function convertQtyToPackUnit(qty: number, lineUnit: string, packUnit: string): number {
-  const u = safeUnit(lineUnit)
-  const p = safeUnit(packUnit)
-  let conv = qty
-
-  if (u === 'g' && p === 'kg') conv = qty / 1000
-  else if (u === 'kg' && p === 'g') conv = qty * 1000
-  else if (u === 'ml' && p === 'l') conv = qty / 1000
-  else if (u === 'l' && p === 'ml') conv = qty * 1000
-
-  return conv
-}
-
 function formatCurrency(amount: number, currency: string = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -1613,12 +1601,6 @@ export default function Recipes() {
 
   const debouncedQ = useDebounce(q, 300)
 
-  const ingById = useMemo(() => {
-    const m = new Map<string, Ingredient>()
-    for (const i of ingredients) m.set(i.id, i)
-    return m
-  }, [ingredients])
-
   const filteredRecipes = useMemo(() => {
     let list = recipes
 
@@ -1796,7 +1778,7 @@ export default function Recipes() {
 
       const { data: i, error: iErr } = await supabase
         .from('ingredients')
-        .select('id,name,pack_unit,net_unit_cost,is_active,category')
+        .select('id,name,pack_unit,net_unit_cost,is_active,category,density_g_per_ml,grams_per_piece')
         .order('name', { ascending: true })
 
       if (iErr) throw iErr
@@ -1834,13 +1816,14 @@ export default function Recipes() {
     try {
       const { data, error } = await supabase
         .from('recipe_lines')
-        .select('id,recipe_id,ingredient_id,sub_recipe_id,qty,unit,notes,position,line_type,group_title')
+        .select('id,recipe_id,ingredient_id,sub_recipe_id,qty,unit,yield_percent,gross_qty_override,notes,position,line_type,group_title')
         .in('recipe_id', need)
         .order('position', { ascending: true })
 
       if (error) throw error
 
       const grouped: Record<string, Line[]> = {}
+      for (const id of need) grouped[id] = []
       for (const row of (data ?? []) as any[]) {
         const rid = row.recipe_id
         if (!grouped[rid]) grouped[rid] = []
@@ -1862,6 +1845,12 @@ export default function Recipes() {
     const visible = sortedRecipes.slice(0, 50)
     ensureRecipeLinesLoaded(visible.map(r => r.id)).catch(() => {})
 
+    // Subrecipe lines are needed before a parent can be costed.
+    const missing = missingSubrecipeIds(visible.map(r => r.id), recipeLinesCache)
+    if (missing.length) ensureRecipeLinesLoaded(missing).catch(() => {})
+
+    const engine = createCostingEngine({ ingredients, recipes, lines: new Map(Object.entries(recipeLinesCache)) })
+
     const now = Date.now()
     const nextCache: Record<string, CostPoint> = { ...costCache }
     let changed = false
@@ -1871,36 +1860,10 @@ export default function Recipes() {
       const hit = nextCache[rid]
 
       if (hit && now - hit.at < CACHE_TTL.COST) continue
-      if (!recipeLinesCache[rid]) continue
-
-      const lines = recipeLinesCache[rid] || []
-      let totalCost = 0
-      const warnings: string[] = []
-
-      for (const l of lines) {
-        if (l.line_type === 'group' || l.line_type === 'subrecipe') continue
-
-        const ing = l.ingredient_id ? ingById.get(l.ingredient_id) : null
-        if (!ing) continue
+      if (missingSubrecipeIds([rid], recipeLinesCache).length) continue
 
-        const unitCost = toNum(ing.net_unit_cost, 0)
-        if (!Number.isFinite(unitCost) || unitCost <= 0) {
-          warnings.push('Ingredient without price')
-        }
-
-        const netQty = Math.max(0, toNum(l.qty, 0))
-        const packUnit = ing.pack_unit || l.unit
-        const qtyInPack = convertQtyToPackUnit(netQty, l.unit, packUnit)
-        const lineCost = qtyInPack * unitCost
-        totalCost += Number.isFinite(lineCost) ? lineCost : 0
-      }
-      
-      const portionsN = Math.max(1, toNum(r.portions, 1))
-      const cpp = portionsN > 0 ? totalCost / portionsN : 0
-      const sell = Math.max(0, toNum(r.selling_price, 0))
-      const fcPct = sell > 0 ? (cpp / sell) * 100 : null
-      const margin = sell - cpp
-      const marginPct = sell > 0 ? (margin / sell) * 100 : null
+      const { totalCost, cpp, warnings } = engine.recipeCost(rid)
+      const { fcPct, margin, marginPct } = priceMetrics(cpp, r.selling_price)
       const profit = margin
 
       nextCache[rid] = {
@@ -1921,7 +1884,7 @@ export default function Recipes() {
       if (mountedRef.current) setCostCache(nextCache)
       CacheManager.set(CACHE_KEYS.COST_CACHE, nextCache)
     }
-  }, [loading, sortedRecipes, recipeLinesCache, ingById, costCache, ensureRecipeLinesLoaded])
+  }, [loading, sortedRecipes, recipes, ingredients, recipeLinesCache, costCache, ensureRecipeLinesLoaded])
 
   const showToast = (type: 'success' | 'error' | 'info', message: string) => {
     setToast({ type, message })
@@ -0,0 +1,749 @@
+// src/pages/Sales.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { displayCode } from '../lib/codes'
+import { loadCostingLines } from '../lib/recipeCosting'
+import { listCounts, listLocations, type StockCount, type StockLocation } from '../lib/inventory'
+import { PRODUCTION_INGREDIENT_FIELDS, type ProductionIngredient } from '../lib/production'
+import {
+  createMatcher,
+  deleteImport,
+  deleteMapping,
+  importSales,
+  listImports,
+  listMappings,
+  listUnmatched,
+  loadActualUsage,
+  loadSalesMix,
+  parseSalesFile,
+  recordManualSales,
+  saveMapping,
+  usageVariance,
+  type ParsedSales,
+  type PosMapping,
+  type SalesImport,
+  type SalesMix,
+  type UnmatchedItem,
+  type UsageVariance,
+} from '../lib/sales'
+
+type Tab = 'import' | 'manual' | 'mapping' | 'variance'
+
+type RecipeRow = {
+  id: string
+  code: string | null
+  name: string
+  category: string | null
+  portions: number | null
+  selling_price: number | null
+  yield_qty: number | null
+  yield_unit: string | null
+  is_subrecipe: boolean
+  is_archived: boolean
+}
+
+type VarianceSort = 'value' | 'qty' | 'name'
+
+const TABS: Array<[Tab, string]> = [
+  ['import', 'Import'],
+  ['manual', 'Manual volumes'],
+  ['mapping', 'Mapping rules'],
+  ['variance', 'Usage variance'],
+]
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+function today() {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function dayOf(ts: string) {
+  const d = new Date(ts)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+export default function Sales() {
+  const [sp, setSp] = useSearchParams()
+  const tab = (TABS.some(([t]) => t === sp.get('tab')) ? sp.get('tab') : 'import') as Tab
+  const setTab = (t: Tab) => setSp(t === 'import' ? {} : { tab: t }, { replace: true })
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [recipes, setRecipes] = useState<RecipeRow[]>([])
+  const [mappings, setMappings] = useState<PosMapping[]>([])
+  const [imports, setImports] = useState<SalesImport[]>([])
+  const [unmatched, setUnmatched] = useState<UnmatchedItem[]>([])
+
+  // Import
+  const [fileName, setFileName] = useState('')
+  const [fallbackDay, setFallbackDay] = useState(today)
+  const [fileText, setFileText] = useState('')
+  const [parsed, setParsed] = useState<ParsedSales | null>(null)
+
+  // Manual volumes
+  const [manualStart, setManualStart] = useState(() => {
+    const d = new Date()
+    d.setDate(d.getDate() - 6)
+    return dayOf(d.toISOString())
+  })
+  const [manualEnd, setManualEnd] = useState(today)
+  const [manualQty, setManualQty] = useState<Record<string, string>>({})
+  const [manualSearch, setManualSearch] = useState('')
+
+  // Mapping
+  const [pick, setPick] = useState<Record<string, string>>({})
+
+  // Variance
+  const [counts, setCounts] = useState<StockCount[]>([])
+  const [locations, setLocations] = useState<StockLocation[]>([])
+  const [ingredients, setIngredients] = useState<ProductionIngredient[]>([])
+  const [openingId, setOpeningId] = useState('')
+  const [closingId, setClosingId] = useState('')
+  const [report, setReport] = useState<{ mix: SalesMix; variance: UsageVariance; afterDay: string; throughDay: string } | null>(null)
+  const [sort, setSort] = useState<VarianceSort>('value')
+
+  const reload = async () => {
+    const [rec, maps, imps] = await Promise.all([
+      supabase.from('recipes').select('id,code,name,category,portions,selling_price,yield_qty,yield_unit,is_subrecipe,is_archived').order('name', { ascending: true }),
+      listMappings(),
+      listImports(),
+    ])
+    if (rec.error) throw rec.error
+    setRecipes((rec.data ?? []) as RecipeRow[])
+    setMappings(maps)
+    setImports(imps)
+    setUnmatched(await listUnmatched(maps))
+  }
+
+  useEffect(() => {
+    let alive = true
+    reload()
+      .then(() => alive && setErr(null))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load sales'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    if (tab !== 'variance' || counts.length) return
+    let alive = true
+    Promise.all([listCounts(), listLocations(), supabase.from('ingredients').select(PRODUCTION_INGREDIENT_FIELDS)])
+      .then(([cs, locs, ing]) => {
+        if (ing.error) throw ing.error
+        if (!alive) return
+        const posted = cs.filter((c) => c.status === 'posted' && c.posted_at).sort((a, b) => a.posted_at!.localeCompare(b.posted_at!))
+        setCounts(posted)
+        setLocations(locs)
+        setIngredients((ing.data ?? []) as ProductionIngredient[])
+        if (posted.length >= 2) {
+          setOpeningId(posted[posted.length - 2].id)
+          setClosingId(posted[posted.length - 1].id)
+        }
+      })
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load counts'))
+    return () => {
+      alive = false
+    }
+  }, [tab, counts.length])
+
+  const menuRecipes = useMemo(() => recipes.filter((r) => !r.is_subrecipe && !r.is_archived), [recipes])
+  const recipeById = useMemo(() => new Map(recipes.map((r) => [r.id, r])), [recipes])
+  const ingById = useMemo(() => new Map(ingredients.map((i) => [i.id, i])), [ingredients])
+  const locById = useMemo(() => new Map(locations.map((l) => [l.id, l])), [locations])
+  const match = useMemo(() => createMatcher(recipes, mappings), [recipes, mappings])
+
+  useEffect(() => {
+    setParsed(fileText ? parseSalesFile(fileText, fileName, fallbackDay) : null)
+  }, [fileText, fileName, fallbackDay])
+
+  const preview = useMemo(() => {
+    if (!parsed) return null
+    let matched = 0
+    let ignored = 0
+    let open = 0
+    const rows = parsed.rows.map((r) => {
+      const m = match(r)
+      if (m.recipeId) matched += 1
+      else if (m.ignored) ignored += 1
+      else open += 1
+      return { row: r, match: m }
+    })
+    return { rows, matched, ignored, open, revenue: parsed.rows.reduce((s, r) => s + r.revenue, 0) }
+  }, [parsed, match])
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await fn()
+      await reload()
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Sales update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const readFile = async (f: File) => {
+    setFileName(f.name)
+    setFileText(await f.text())
+  }
+
+  const doImport = () =>
+    run(async () => {
+      if (!parsed?.rows.length) throw new Error('Nothing to import')
+      await importSales(parsed.rows, { sourceName: fileName, match })
+      setFileText('')
+      setFileName('')
+    })
+
+  const manualRecipes = useMemo(() => {
+    const q = manualSearch.trim().toLowerCase()
+    return menuRecipes.filter((r) => !q || `${r.name} ${r.code || ''} ${r.category || ''}`.toLowerCase().includes(q))
+  }, [menuRecipes, manualSearch])
+
+  const saveManual = () =>
+    run(async () => {
+      await recordManualSales(
+        menuRecipes.map((r) => ({
+          recipeId: r.id,
+          code: r.code,
+          name: r.name,
+          qty: Math.max(0, Number(manualQty[r.id]) || 0),
+          unitPrice: Math.max(0, Number(r.selling_price) || 0),
+        })),
+        { start: manualStart, end: manualEnd }
+      )
+      setManualQty({})
+    })
+
+  const mapItem = (u: UnmatchedItem, ignored: boolean) =>
+    run(() => saveMapping({ posKey: u.key, posLabel: u.name || u.code, recipeId: ignored ? null : pick[u.key] || null, ignored }))
+
+  const runReport = () => {
+    const opening = counts.find((c) => c.id === openingId)
+    const closing = counts.find((c) => c.id === closingId)
+    if (!opening || !closing) return setErr('Pick an opening and a closing count')
+    if (opening.posted_at! >= closing.posted_at!) return setErr('The closing count must be posted after the opening count')
+    setBusy(true)
+    ;(async () => {
+      try {
+        const afterDay = dayOf(opening.posted_at!)
+        const throughDay = dayOf(closing.posted_at!)
+        const [mix, actual, lines] = await Promise.all([loadSalesMix(afterDay, throughDay), loadActualUsage(opening, closing), loadCostingLines()])
+        const variance = usageVariance({ sold: mix.qty, actual, recipes, lines, ingredients })
+        setReport({ mix, variance, afterDay, throughDay })
+        setErr(null)
+      } catch (e: any) {
+        setErr(e?.message ?? 'Failed to build the report')
+      } finally {
+        setBusy(false)
+      }
+    })()
+  }
+
+  const varianceRows = useMemo(() => {
+    if (!report) return []
+    const rows = [...report.variance.rows]
+    if (sort === 'name') rows.sort((a, b) => (ingById.get(a.ingredientId)?.name || '').localeCompare(ingById.get(b.ingredientId)?.name || ''))
+    if (sort === 'qty') {
+      const pct = (r: (typeof rows)[number]) => (r.theoretical > 0 ? Math.abs(r.varianceQty / r.theoretical) : Infinity)
+      rows.sort((a, b) => pct(b) - pct(a))
+    }
+    return rows
+  }, [report, sort, ingById])
+
+  const countLabel = (c: StockCount) => `${new Date(c.posted_at!).toLocaleString()} · ${locById.get(c.location_id)?.name || 'Location'}`
+
+  if (loading) return <div className="gc-card p-6">Loading sales…</div>
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">SALES</div>
+        <div className="mt-2 text-2xl font-extrabold">POS Sales & Food Cost Variance</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Import sales exported from your POS, map them to menu recipes, and compare theoretical ingredient usage with what actually left stock between two counts.
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {TABS.map(([t, label]) => (
+            <button key={t} type="button" className={`gc-btn ${tab === t ? 'gc-btn-primary' : 'gc-btn-ghost'}`} onClick={() => setTab(t)}>
+              {label}
+              {t === 'mapping' && unmatched.length > 0 ? ` (${unmatched.length})` : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      {tab === 'import' && (
+        <>
+          <div className="gc-card p-6">
+            <div className="gc-label">IMPORT FILE</div>
+            <div className="mt-2 text-sm text-neutral-600">
+              CSV (with a header row) or JSON. Columns: item code and/or name, quantity, price or total, date. Items are matched to menu recipes by code, then by your mapping rules.
+            </div>
+            <div className="mt-4 flex flex-wrap items-end gap-3">
+              <label className="text-sm">
+                <div className="text-xs text-neutral-500 mb-1">File</div>
+                <input
+                  className="gc-input"
+                  type="file"
+                  accept=".csv,.txt,.json,text/csv,application/json"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0]
+                    if (f) readFile(f).catch((er: any) => setErr(er?.message ?? 'Failed to read file'))
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+              <label className="text-sm">
+                <div className="text-xs text-neutral-500 mb-1">Date for rows without one</div>
+                <input className="gc-input" type="date" value={fallbackDay} onChange={(e) => setFallbackDay(e.target.value || today())} />
+              </label>
+            </div>
+
+            {parsed && preview && (
+              <div className="mt-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-sm">
+                    <span className="font-semibold">{fileName}</span> · {parsed.rows.length} rows · {fmtMoney(preview.revenue, currency)} ·{' '}
+                    <span className="text-green-700">{preview.matched} matched</span> · <span className="text-neutral-500">{preview.ignored} ignored</span> ·{' '}
+                    <span className={preview.open ? 'text-amber-700 font-semibold' : ''}>{preview.open} unmatched</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setFileText('')}>
+                      Clear
+                    </button>
+                    <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !parsed.rows.length} onClick={doImport}>
+                      {busy ? 'Importing…' : 'Import'}
+                    </button>
+                  </div>
+                </div>
+                {parsed.errors.length > 0 && (
+                  <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                    {parsed.errors.length} row(s) skipped: {parsed.errors.slice(0, 5).join('; ')}
+                    {parsed.errors.length > 5 ? '…' : ''}
+                  </div>
+                )}
+                <table className="mt-3 w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-neutral-500">
+                      <th className="py-2">Date</th>
+                      <th>POS code</th>
+                      <th>POS name</th>
+                      <th className="text-right">Qty</th>
+                      <th className="text-right">Revenue</th>
+                      <th>Recipe</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.slice(0, 50).map(({ row, match: m }, idx) => (
+                      <tr key={idx} className="border-t border-neutral-200/60">
+                        <td className="py-2">{row.day}</td>
+                        <td className="font-mono text-xs">{row.code || '—'}</td>
+                        <td>{row.name || '—'}</td>
+                        <td className="text-right">{fmtQty(row.qty)}</td>
+                        <td className="text-right">{fmtMoney(row.revenue, currency)}</td>
+                        <td className={m.recipeId ? '' : m.ignored ? 'text-neutral-400' : 'text-amber-700'}>
+                          {m.recipeId ? recipeById.get(m.recipeId)?.name : m.ignored ? 'Ignored' : 'Unmatched'}
+                          {m.via === 'rule' && m.recipeId ? <span className="ml-1 text-xs text-neutral-500">(rule)</span> : null}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.rows.length > 50 && <div className="mt-2 text-xs text-neutral-500">Showing 50 of {preview.rows.length} rows.</div>}
+              </div>
+            )}
+          </div>
+
+          <div className="gc-card p-6">
+            <div className="gc-label">IMPORTS</div>
+            <table className="mt-3 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                  <th className="py-2">Import</th>
+                  <th>File</th>
+                  <th>Period</th>
+                  <th className="text-right">Lines</th>
+                  <th className="text-right">Items sold</th>
+                  <th className="text-right">Revenue</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {imports.map((i) => (
+                  <tr key={i.id} className="border-t border-neutral-200/60">
+                    <td className="py-2 font-mono text-xs">{i.code || displayCode('SALE', i.id)}</td>
+                    <td>{i.source_name || '—'}</td>
+                    <td>
+                      {i.period_start || '—'}
+                      {i.period_end && i.period_end !== i.period_start ? ` → ${i.period_end}` : ''}
+                    </td>
+                    <td className="text-right">{i.line_count}</td>
+                    <td className="text-right">{fmtQty(i.total_qty)}</td>
+                    <td className="text-right font-semibold">{fmtMoney(i.total_revenue, currency)}</td>
+                    <td className="text-right">
+                      <button
+                        className="gc-btn gc-btn-ghost"
+                        type="button"
+                        disabled={busy}
+                        onClick={() => window.confirm(`Delete ${i.code || 'this import'} and its sales lines?`) && run(() => deleteImport(i.id))}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {!imports.length && (
+                  <tr>
+                    <td colSpan={7} className="py-3 text-neutral-500">
+                      No sales imported yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {tab === 'manual' && (
+        <div className="gc-card p-6">
+          <div className="gc-label">MANUAL VOLUMES</div>
+          <div className="mt-2 text-sm text-neutral-600">
+            No POS export? Enter portions sold per menu recipe for a period. They are saved as an import dated on the last day of the period and priced at each
+            recipe's selling price.
+          </div>
+          <div className="mt-4 flex flex-wrap items-end gap-3">
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">From</div>
+              <input className="gc-input" type="date" value={manualStart} onChange={(e) => setManualStart(e.target.value || manualStart)} />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">To</div>
+              <input className="gc-input" type="date" value={manualEnd} onChange={(e) => setManualEnd(e.target.value || manualEnd)} />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Search</div>
+              <input className="gc-input" value={manualSearch} placeholder="Recipe, code or category" onChange={(e) => setManualSearch(e.target.value)} />
+            </label>
+            <button
+              className="gc-btn gc-btn-primary"
+              type="button"
+              disabled={busy || !Object.values(manualQty).some((v) => Number(v) > 0)}
+              onClick={saveManual}
+            >
+              {busy ? 'Saving…' : 'Save volumes'}
+            </button>
+          </div>
+          <table className="mt-4 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-2">Recipe</th>
+                <th>Category</th>
+                <th className="text-right">Selling price</th>
+                <th className="text-right">Portions sold</th>
+              </tr>
+            </thead>
+            <tbody>
+              {manualRecipes.map((r) => (
+                <tr key={r.id} className="border-t border-neutral-200/60">
+                  <td className="py-2 font-semibold">
+                    {r.name}
+                    {r.code ? <span className="ml-2 font-mono text-xs text-neutral-500">{r.code}</span> : null}
+                  </td>
+                  <td>{r.category || '—'}</td>
+                  <td className="text-right">{r.selling_price ? fmtMoney(Number(r.selling_price), currency) : <span className="text-amber-700">No price</span>}</td>
+                  <td className="text-right">
+                    <input
+                      className="gc-input w-28 text-right"
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={manualQty[r.id] ?? ''}
+                      onChange={(e) => setManualQty((m) => ({ ...m, [r.id]: e.target.value }))}
+                    />
+                  </td>
+                </tr>
+              ))}
+              {!manualRecipes.length && (
+                <tr>
+                  <td colSpan={4} className="py-3 text-neutral-500">
+                    No menu recipes.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {tab === 'mapping' && (
+        <>
+          <div className="gc-card p-6">
+            <div className="gc-label">UNMATCHED POS ITEMS</div>
+            <div className="mt-2 text-sm text-neutral-600">
+              Map each item to a menu recipe once; the rule applies to past and future imports. Ignore items that aren't food (drinks, service charges…).
+            </div>
+            <table className="mt-3 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                  <th className="py-2">POS code</th>
+                  <th>POS name</th>
+                  <th className="text-right">Qty</th>
+                  <th className="text-right">Revenue</th>
+                  <th>Recipe</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {unmatched.map((u) => (
+                  <tr key={u.key} className="border-t border-neutral-200/60">
+                    <td className="py-2 font-mono text-xs">{u.code || '—'}</td>
+                    <td>{u.name || '—'}</td>
+                    <td className="text-right">{fmtQty(u.qty)}</td>
+                    <td className="text-right">{fmtMoney(u.revenue, currency)}</td>
+                    <td>
+                      <select className="gc-input min-w-[220px]" value={pick[u.key] || ''} onChange={(e) => setPick((p) => ({ ...p, [u.key]: e.target.value }))}>
+                        <option value="">Select recipe…</option>
+                        {menuRecipes.map((r) => (
+                          <option key={r.id} value={r.id}>
+                            {r.name}
+                            {r.code ? ` · ${r.code}` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="text-right whitespace-nowrap">
+                      <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !pick[u.key]} onClick={() => mapItem(u, false)}>
+                        Map
+                      </button>{' '}
+                      <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => mapItem(u, true)}>
+                        Ignore
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {!unmatched.length && (
+                  <tr>
+                    <td colSpan={6} className="py-3 text-neutral-500">
+                      Every imported item is matched.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="gc-card p-6">
+            <div className="gc-label">RULES</div>
+            <table className="mt-3 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500">
+                  <th className="py-2">POS item</th>
+                  <th>Matches on</th>
+                  <th>Maps to</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {mappings.map((m) => {
+                  const [kind, ...rest] = m.pos_key.split(':')
+                  return (
+                    <tr key={m.id} className="border-t border-neutral-200/60">
+                      <td className="py-2">{m.pos_label || rest.join(':')}</td>
+                      <td className="text-xs text-neutral-500">
+                        {kind} = <span className="font-mono">{rest.join(':')}</span>
+                      </td>
+                      <td className={m.is_ignored ? 'text-neutral-400' : 'font-semibold'}>
+                        {m.is_ignored ? 'Ignored' : (m.recipe_id && recipeById.get(m.recipe_id)?.name) || 'Recipe'}
+                      </td>
+                      <td className="text-right">
+                        <button className="gc-btn gc-btn-ghost" type="button" disabled={busy} onClick={() => run(() => deleteMapping(m.id))}>
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+                {!mappings.length && (
+                  <tr>
+                    <td colSpan={4} className="py-3 text-neutral-500">
+                      No rules yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            <div className="mt-2 text-xs text-neutral-500">Deleting a rule doesn't unmap lines already imported.</div>
+          </div>
+        </>
+      )}
+
+      {tab === 'variance' && (
+        <>
+          <div className="gc-card p-6">
+            <div className="gc-label">PERIOD</div>
+            <div className="mt-2 text-sm text-neutral-600">
+              Actual usage is what left stock between two posted counts (production, waste and count corrections). Sales from the day after the opening count through the
+              closing count's day are exploded to ingredients and valued at current unit cost.
+            </div>
+            {counts.length < 2 ? (
+              <div className="mt-3 text-sm text-neutral-500">Post at least two inventory counts to compare usage.</div>
+            ) : (
+              <div className="mt-4 flex flex-wrap items-end gap-3">
+                <label className="text-sm">
+                  <div className="text-xs text-neutral-500 mb-1">Opening count</div>
+                  <select className="gc-input" value={openingId} onChange={(e) => setOpeningId(e.target.value)}>
+                    {counts.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {countLabel(c)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm">
+                  <div className="text-xs text-neutral-500 mb-1">Closing count</div>
+                  <select className="gc-input" value={closingId} onChange={(e) => setClosingId(e.target.value)}>
+                    {counts.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {countLabel(c)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button className="gc-btn gc-btn-primary" type="button" disabled={busy} onClick={runReport}>
+                  {busy ? 'Calculating…' : 'Compare'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {report && (
+            <div className="gc-card p-6">
+              <div className="grid gap-4 md:grid-cols-4">
+                <div>
+                  <div className="gc-label">SALES</div>
+                  <div className="mt-1 text-xl font-extrabold">{fmtMoney(report.mix.revenue, currency)}</div>
+                  <div className="text-xs text-neutral-500">
+                    {report.mix.days} day(s) · after {report.afterDay} through {report.throughDay}
+                  </div>
+                </div>
+                <div>
+                  <div className="gc-label">THEORETICAL</div>
+                  <div className="mt-1 text-xl font-extrabold">{fmtMoney(report.variance.theoreticalValue, currency)}</div>
+                  <div className="text-xs text-neutral-500">
+                    {report.mix.revenue > 0 ? `${((report.variance.theoreticalValue / report.mix.revenue) * 100).toFixed(1)}% food cost` : '—'}
+                  </div>
+                </div>
+                <div>
+                  <div className="gc-label">ACTUAL</div>
+                  <div className="mt-1 text-xl font-extrabold">{fmtMoney(report.variance.actualValue, currency)}</div>
+                  <div className="text-xs text-neutral-500">
+                    {report.mix.revenue > 0 ? `${((report.variance.actualValue / report.mix.revenue) * 100).toFixed(1)}% food cost` : '—'}
+                  </div>
+                </div>
+                <div>
+                  <div className="gc-label">VARIANCE</div>
+                  <div className={`mt-1 text-xl font-extrabold ${report.variance.actualValue > report.variance.theoreticalValue ? 'text-red-600' : 'text-green-700'}`}>
+                    {fmtMoney(report.variance.actualValue - report.variance.theoreticalValue, currency)}
+                  </div>
+                  <div className="text-xs text-neutral-500">actual − theoretical</div>
+                </div>
+              </div>
+
+              {(report.mix.unmatchedQty > 0 || report.variance.issues.length > 0) && (
+                <div className="mt-4 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  {report.mix.unmatchedQty > 0 && <div>{fmtQty(report.mix.unmatchedQty)} sold item(s) aren't mapped to a recipe and are left out of theoretical usage.</div>}
+                  {report.variance.issues.slice(0, 5).map((i, idx) => (
+                    <div key={idx}>{i.message}</div>
+                  ))}
+                </div>
+              )}
+
+              <div className="mt-4 flex items-center justify-between gap-3">
+                <div className="gc-label">BY INGREDIENT</div>
+                <select className="gc-input" value={sort} onChange={(e) => setSort(e.target.value as VarianceSort)}>
+                  <option value="value">Largest variance value</option>
+                  <option value="qty">Largest variance %</option>
+                  <option value="name">Name</option>
+                </select>
+              </div>
+              <table className="mt-3 w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-neutral-500">
+                    <th className="py-2">Ingredient</th>
+                    <th className="text-right">Theoretical</th>
+                    <th className="text-right">Actual</th>
+                    <th className="text-right">of which waste</th>
+                    <th className="text-right">Variance</th>
+                    <th className="text-right">%</th>
+                    <th className="text-right">Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {varianceRows.map((r) => {
+                    const ing = ingById.get(r.ingredientId)
+                    const unit = ing?.pack_unit || ''
+                    const over = r.varianceQty > 1e-9
+                    return (
+                      <tr key={r.ingredientId} className="border-t border-neutral-200/60">
+                        <td className="py-2 font-semibold">{ing?.name || 'Ingredient'}</td>
+                        <td className="text-right">
+                          {fmtQty(r.theoretical)} {unit}
+                        </td>
+                        <td className="text-right">
+                          {fmtQty(r.actual)} {unit}
+                        </td>
+                        <td className="text-right text-neutral-500">{r.waste ? `${fmtQty(r.waste)} ${unit}` : '—'}</td>
+                        <td className={`text-right ${over ? 'text-red-600' : r.varianceQty < -1e-9 ? 'text-green-700' : ''}`}>
+                          {over ? '+' : ''}
+                          {fmtQty(r.varianceQty)} {unit}
+                        </td>
+                        <td className="text-right">{r.theoretical > 0 ? `${((r.varianceQty / r.theoretical) * 100).toFixed(0)}%` : '—'}</td>
+                        <td className={`text-right font-semibold ${over ? 'text-red-600' : ''}`}>{fmtMoney(r.varianceValue, currency)}</td>
+                      </tr>
+                    )
+                  })}
+                  {!varianceRows.length && (
+                    <tr>
+                      <td colSpan={7} className="py-3 text-neutral-500">
+                        No usage in this period.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,10 @@
 import { useEffect, useMemo, useState } from 'react'
 import { supabase } from '../lib/supabase'
 import { Toast } from '../components/Toast'
+import { tryRecordIngredientCostChanges, type IngredientCostChange } from '../lib/costHistory'
+import LaborOverheadSettings from '../components/cost/LaborOverheadSettings'
+import ActiveSharesSettings from '../components/share/ActiveSharesSettings'
+import BackupSettings from '../components/backup/BackupSettings'
 
 type Ingredient = {
   id: string
@@ -128,15 +132,24 @@ export default function Settings() {
     const ok = confirm(`Recalculate net_unit_cost from pack_price/pack_size for ${list.length} active ingredients?`)
     if (!ok) return
 
+    const changes: IngredientCostChange[] = []
     try {
       for (const i of list) {
         const ps = Math.max(1, toNum(i.pack_size, 1))
         const pp = Math.max(0, toNum(i.pack_price, 0))
         const net = calcNet(pp, ps)
-        const { error } = await supabase.from('ingredients').update({ net_unit_cost: net }).eq('id', i.id)
+        const { data, error } = await supabase.from('ingredients').update({ net_unit_cost: net }).eq('id', i.id).select('net_unit_cost').single()
         if (error) throw error
+        changes.push({ id: i.id, before: i.net_unit_cost, after: (data as any)?.net_unit_cost })
       }
-      showToast('Recalculation done ✅')
+      const h = await tryRecordIngredientCostChanges(changes)
+      showToast(
+        h.error
+          ? `Recalculation done · cost history not recorded: ${h.error}`
+          : h.points
+            ? `Recalculation done ✅ (${h.points} recipe cost points)`
+            : 'Recalculation done ✅'
+      )
       await load()
     } catch (e: any) {
       showToast(e?.message ?? 'Recalc failed')
@@ -201,6 +214,12 @@ export default function Settings() {
         </div>
       </div>
 
+      <LaborOverheadSettings currency={currency} onSaved={showToast} />
+
+      <ActiveSharesSettings onSaved={showToast} />
+
+      <BackupSettings onSaved={showToast} />
+
       {/* Diagnostics */}
       <div className="grid gap-4 md:grid-cols-2">
         <div className="gc-card p-6">
@@ -0,0 +1,252 @@
+// src/pages/Suppliers.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { displayCode } from '../lib/codes'
+import { deleteSupplier, listOffers, listSuppliers, saveSupplier, type Supplier, type SupplierDraft } from '../lib/suppliers'
+
+const EMPTY: SupplierDraft = {
+  name: '',
+  contact_name: null,
+  email: null,
+  phone: null,
+  notes: null,
+  lead_time_days: null,
+  min_order_value: null,
+  is_active: true,
+}
+
+function numInput(v: string): number | null {
+  const t = v.trim()
+  if (!t) return null
+  const n = Number(t)
+  return Number.isFinite(n) ? n : null
+}
+
+export default function Suppliers() {
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [offerCounts, setOfferCounts] = useState<Map<string, { offers: number; preferred: number }>>(new Map())
+
+  const [q, setQ] = useState('')
+  const [showInactive, setShowInactive] = useState(false)
+  const [draft, setDraft] = useState<SupplierDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const load = async () => {
+    const [s, offers] = await Promise.all([listSuppliers(), listOffers()])
+    const counts = new Map<string, { offers: number; preferred: number }>()
+    for (const o of offers) {
+      const c = counts.get(o.supplier_id) ?? { offers: 0, preferred: 0 }
+      c.offers += 1
+      if (o.is_preferred) c.preferred += 1
+      counts.set(o.supplier_id, c)
+    }
+    setSuppliers(s)
+    setOfferCounts(counts)
+  }
+
+  useEffect(() => {
+    let alive = true
+    load()
+      .then(() => alive && setErr(null))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load suppliers'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const visible = useMemo(() => {
+    const s = q.trim().toLowerCase()
+    return suppliers.filter((x) => {
+      if (!showInactive && !x.is_active) return false
+      if (!s) return true
+      return [x.name, x.code, x.contact_name, x.email].some((v) => (v || '').toLowerCase().includes(s))
+    })
+  }, [suppliers, q, showInactive])
+
+  const onSave = async () => {
+    if (!draft) return
+    setSaving(true)
+    try {
+      await saveSupplier(draft)
+      await load()
+      setDraft(null)
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to save supplier')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const onDelete = async (s: Supplier) => {
+    const n = offerCounts.get(s.id)?.offers ?? 0
+    const msg = n
+      ? `Delete "${s.name}" and its ${n} offer(s)? Ingredients keep their current pack price.`
+      : `Delete "${s.name}"?`
+    if (!window.confirm(msg)) return
+    try {
+      await deleteSupplier(s.id)
+      await load()
+      if (draft?.id === s.id) setDraft(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to delete supplier')
+    }
+  }
+
+  const set = <K extends keyof SupplierDraft>(k: K, v: SupplierDraft[K]) => setDraft((d) => (d ? { ...d, [k]: v } : d))
+
+  if (loading) return <div className="gc-card p-6">Loading suppliers…</div>
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="gc-label">SUPPLIERS</div>
+            <div className="mt-2 text-2xl font-extrabold">Supplier Catalog</div>
+            <div className="mt-2 text-sm text-neutral-600">
+              Who you buy from. Offers per ingredient are managed on the Ingredients page — the preferred offer sets the ingredient's pack price.
+            </div>
+          </div>
+          <button className="gc-btn gc-btn-primary" type="button" onClick={() => setDraft({ ...EMPTY })}>
+            + New supplier
+          </button>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <input className="gc-input" value={q} onChange={(e) => setQ(e.target.value)} placeholder="Search name, code, contact…" />
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+            Show inactive
+          </label>
+        </div>
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      {draft && (
+        <div className="gc-card p-6">
+          <div className="gc-label">{draft.id ? 'EDIT SUPPLIER' : 'NEW SUPPLIER'}</div>
+          <div className="mt-3 grid gap-3 md:grid-cols-3">
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Name *</div>
+              <input className="gc-input w-full" value={draft.name} onChange={(e) => set('name', e.target.value)} autoFocus />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Contact</div>
+              <input className="gc-input w-full" value={draft.contact_name ?? ''} onChange={(e) => set('contact_name', e.target.value)} />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Email</div>
+              <input className="gc-input w-full" type="email" value={draft.email ?? ''} onChange={(e) => set('email', e.target.value)} />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Phone</div>
+              <input className="gc-input w-full" value={draft.phone ?? ''} onChange={(e) => set('phone', e.target.value)} />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Lead time (days)</div>
+              <input
+                className="gc-input w-full"
+                type="number"
+                min={0}
+                step={1}
+                value={draft.lead_time_days ?? ''}
+                onChange={(e) => set('lead_time_days', numInput(e.target.value))}
+              />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">Minimum order value</div>
+              <input
+                className="gc-input w-full"
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.min_order_value ?? ''}
+                onChange={(e) => set('min_order_value', numInput(e.target.value))}
+              />
+            </label>
+            <label className="text-sm md:col-span-2">
+              <div className="text-xs text-neutral-500 mb-1">Notes</div>
+              <input className="gc-input w-full" value={draft.notes ?? ''} onChange={(e) => set('notes', e.target.value)} />
+            </label>
+            <label className="flex items-center gap-2 text-sm self-end">
+              <input type="checkbox" checked={draft.is_active} onChange={(e) => set('is_active', e.target.checked)} />
+              Active
+            </label>
+          </div>
+          <div className="mt-4 flex gap-2">
+            <button className="gc-btn gc-btn-primary" type="button" onClick={onSave} disabled={saving || !draft.name.trim()}>
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+            <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500">
+              <th className="py-2">Code</th>
+              <th>Name</th>
+              <th>Contact</th>
+              <th className="text-right">Lead time</th>
+              <th className="text-right">Min order</th>
+              <th className="text-right">Offers</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((s) => {
+              const c = offerCounts.get(s.id)
+              return (
+                <tr key={s.id} className={`border-t border-neutral-200/60 ${s.is_active ? '' : 'opacity-60'}`}>
+                  <td className="py-2 font-mono text-xs">{s.code || displayCode('SUP', s.id)}</td>
+                  <td>
+                    <div className="font-semibold">{s.name}</div>
+                    {!s.is_active && <div className="text-xs text-neutral-500">Inactive</div>}
+                  </td>
+                  <td>
+                    <div>{s.contact_name || '—'}</div>
+                    <div className="text-xs text-neutral-500">{[s.email, s.phone].filter(Boolean).join(' · ')}</div>
+                  </td>
+                  <td className="text-right">{s.lead_time_days != null ? `${s.lead_time_days} d` : '—'}</td>
+                  <td className="text-right">{s.min_order_value != null ? s.min_order_value.toFixed(2) : '—'}</td>
+                  <td className="text-right">
+                    {c?.offers ?? 0}
+                    {c?.preferred ? <span className="text-xs text-neutral-500"> ({c.preferred} preferred)</span> : null}
+                  </td>
+                  <td className="text-right whitespace-nowrap">
+                    <button className="gc-btn gc-btn-ghost" type="button" onClick={() => setDraft({ ...s })}>
+                      Edit
+                    </button>
+                    <button className="gc-btn gc-btn-ghost text-red-600" type="button" onClick={() => onDelete(s)}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+            {!visible.length && (
+              <tr>
+                <td colSpan={7} className="py-3 text-neutral-500">
+                  {suppliers.length ? 'No supplier matches.' : 'No suppliers yet.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
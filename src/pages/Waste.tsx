@@ -0,0 +1,437 @@
+// src/pages/Waste.tsx
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '../lib/supabase'
+import { displayCode } from '../lib/codes'
+import { UNIT_OPTIONS } from '../lib/units'
+import { createCostingEngine, loadCostingLines, type CostingLine } from '../lib/recipeCosting'
+import { listLocations, type StockLocation } from '../lib/inventory'
+import {
+  deleteWaste,
+  listWaste,
+  logWaste,
+  valueWaste,
+  WASTE_ITEM_LABELS,
+  WASTE_REASON_LABELS,
+  wasteByItem,
+  wasteByReason,
+  weekStart,
+  type WasteEntry,
+  type WasteItemType,
+  type WasteReason,
+} from '../lib/waste'
+
+type IngredientRow = {
+  id: string
+  code: string | null
+  name: string | null
+  pack_unit: string | null
+  net_unit_cost: number | null
+  density_g_per_ml: number | null
+  grams_per_piece: number | null
+  is_active: boolean | null
+}
+
+type RecipeRow = {
+  id: string
+  code: string | null
+  name: string
+  portions: number | null
+  yield_qty: number | null
+  yield_unit: string | null
+  is_subrecipe: boolean
+  is_archived: boolean
+}
+
+type Period = 'week' | '4w' | '12w'
+
+const PERIODS: Array<[Period, string, number]> = [
+  ['week', 'This week', 0],
+  ['4w', 'Last 4 weeks', 3],
+  ['12w', 'Last 12 weeks', 11],
+]
+
+function fmtMoney(n: number, currency: string) {
+  const v = Number.isFinite(n) ? n : 0
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(v)
+  } catch {
+    return `${v.toFixed(2)} ${currency}`
+  }
+}
+
+function fmtQty(n: number) {
+  return Number.isFinite(n) ? String(Math.round(n * 1000) / 1000) : '—'
+}
+
+function remembered(key: string) {
+  try {
+    return localStorage.getItem(key) || ''
+  } catch {
+    return ''
+  }
+}
+
+const EMPTY_FORM = { itemType: 'ingredient' as WasteItemType, itemId: '', qty: '', unit: 'g', reason: 'spoilage' as WasteReason, locationId: '', notes: '' }
+
+export default function Waste() {
+  const currency = (localStorage.getItem('gc_currency') || 'USD').toUpperCase()
+
+  const [loading, setLoading] = useState(true)
+  const [err, setErr] = useState<string | null>(null)
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([])
+  const [recipes, setRecipes] = useState<RecipeRow[]>([])
+  const [lines, setLines] = useState<CostingLine[]>([])
+  const [locations, setLocations] = useState<StockLocation[]>([])
+  const [entries, setEntries] = useState<WasteEntry[]>([])
+  const [period, setPeriod] = useState<Period>('4w')
+
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [station, setStation] = useState(() => remembered('gc_waste_station'))
+  const [staff, setStaff] = useState(() => remembered('gc_waste_staff'))
+  const [busy, setBusy] = useState(false)
+
+  const since = useMemo(() => {
+    const weeks = PERIODS.find(([p]) => p === period)?.[2] ?? 0
+    const d = weekStart(new Date())
+    d.setDate(d.getDate() - weeks * 7)
+    return d.toISOString()
+  }, [period])
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const [ing, rec, l, locs] = await Promise.all([
+          supabase.from('ingredients').select('id,code,name,pack_unit,net_unit_cost,density_g_per_ml,grams_per_piece,is_active').order('name', { ascending: true }),
+          supabase.from('recipes').select('id,code,name,portions,yield_qty,yield_unit,is_subrecipe,is_archived').order('name', { ascending: true }),
+          loadCostingLines(),
+          listLocations(),
+        ])
+        if (ing.error) throw ing.error
+        if (rec.error) throw rec.error
+        if (!alive) return
+        setIngredients((ing.data ?? []) as IngredientRow[])
+        setRecipes((rec.data ?? []) as RecipeRow[])
+        setLines(l)
+        setLocations(locs)
+      } catch (e: any) {
+        if (alive) setErr(e?.message ?? 'Failed to load waste data')
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  useEffect(() => {
+    let alive = true
+    setLoading(true)
+    listWaste({ since })
+      .then((w) => alive && setEntries(w))
+      .catch((e: any) => alive && setErr(e?.message ?? 'Failed to load waste log'))
+      .finally(() => alive && setLoading(false))
+    return () => {
+      alive = false
+    }
+  }, [since])
+
+  const engine = useMemo(() => createCostingEngine({ ingredients, recipes, lines }), [ingredients, recipes, lines])
+  const ctx = useMemo(() => ({ engine, ingredients, recipes }), [engine, ingredients, recipes])
+
+  const options = useMemo(() => {
+    if (form.itemType === 'ingredient') return ingredients.filter((i) => i.is_active !== false).map((i) => ({ id: i.id, label: i.name || 'Ingredient', code: i.code }))
+    const prep = form.itemType === 'prep'
+    return recipes.filter((r) => !r.is_archived && r.is_subrecipe === prep).map((r) => ({ id: r.id, label: r.name, code: r.code }))
+  }, [form.itemType, ingredients, recipes])
+
+  const preview = useMemo(() => {
+    const qty = Number(form.qty)
+    if (!form.itemId || !(qty > 0)) return null
+    return valueWaste({ itemType: form.itemType, itemId: form.itemId, qty, unit: form.unit }, ctx)
+  }, [form, ctx])
+
+  const stations = useMemo(() => [...new Set(entries.map((e) => e.station).filter(Boolean) as string[])].sort(), [entries])
+  const staffNames = useMemo(() => [...new Set(entries.map((e) => e.staff_name).filter(Boolean) as string[])].sort(), [entries])
+  const total = useMemo(() => entries.reduce((s, e) => s + e.total_cost, 0), [entries])
+  const byReason = useMemo(() => wasteByReason(entries), [entries])
+  const byItem = useMemo(() => wasteByItem(entries).slice(0, 10), [entries])
+  const locById = useMemo(() => new Map(locations.map((l) => [l.id, l])), [locations])
+  const activeLocations = useMemo(() => locations.filter((l) => l.is_active), [locations])
+
+  const pickItem = (itemId: string) => {
+    let unit = form.unit
+    if (form.itemType === 'ingredient') unit = ingredients.find((i) => i.id === itemId)?.pack_unit || 'g'
+    else {
+      const r = recipes.find((x) => x.id === itemId)
+      unit = form.itemType === 'prep' && r && Number(r.yield_qty) > 0 && r.yield_unit ? r.yield_unit : 'portion'
+    }
+    setForm({ ...form, itemId, unit })
+  }
+
+  const submit = async () => {
+    setBusy(true)
+    try {
+      const entry = await logWaste(
+        {
+          itemType: form.itemType,
+          itemId: form.itemId,
+          qty: Number(form.qty),
+          unit: form.unit,
+          reason: form.reason,
+          station,
+          staffName: staff,
+          locationId: form.locationId || null,
+          notes: form.notes,
+        },
+        ctx
+      )
+      try {
+        localStorage.setItem('gc_waste_station', station)
+        localStorage.setItem('gc_waste_staff', staff)
+      } catch {}
+      setEntries((prev) => [entry, ...prev])
+      setForm((f) => ({ ...f, itemId: '', qty: '', notes: '' }))
+      setErr(null)
+    } catch (e: any) {
+      setErr(e?.message ?? 'Failed to log waste')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const remove = async (e: WasteEntry) => {
+    if (!window.confirm(`Delete ${e.code || 'this entry'}? Its stock movement is reversed too.`)) return
+    try {
+      await deleteWaste(e.id)
+      setEntries((prev) => prev.filter((x) => x.id !== e.id))
+    } catch (er: any) {
+      setErr(er?.message ?? 'Failed to delete entry')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="gc-card p-6">
+        <div className="gc-label">WASTE</div>
+        <div className="mt-2 text-2xl font-extrabold">Waste Log</div>
+        <div className="mt-2 text-sm text-neutral-600">
+          Log what was thrown away and why. Entries are valued at current cost (PREPs and dishes through their recipes); ingredient and PREP waste is taken out of stock.
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {(Object.keys(WASTE_ITEM_LABELS) as WasteItemType[]).map((t) => (
+            <button
+              key={t}
+              type="button"
+              className={`gc-btn ${form.itemType === t ? 'gc-btn-primary' : 'gc-btn-ghost'}`}
+              onClick={() => setForm({ ...form, itemType: t, itemId: '', unit: t === 'ingredient' ? 'g' : 'portion' })}
+            >
+              {WASTE_ITEM_LABELS[t]}
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">{WASTE_ITEM_LABELS[form.itemType]}</div>
+            <select className="gc-input min-w-[240px]" value={form.itemId} onChange={(e) => pickItem(e.target.value)}>
+              <option value="">Select…</option>
+              {options.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.label}
+                  {o.code ? ` · ${o.code}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Qty</div>
+            <input className="gc-input w-24" type="number" min={0} step="any" value={form.qty} onChange={(e) => setForm({ ...form, qty: e.target.value })} />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Unit</div>
+            <select className="gc-input" value={form.unit} onChange={(e) => setForm({ ...form, unit: e.target.value })}>
+              {UNIT_OPTIONS.map((u) => (
+                <option key={u} value={u}>
+                  {u}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Reason</div>
+            <select className="gc-input" value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value as WasteReason })}>
+              {(Object.keys(WASTE_REASON_LABELS) as WasteReason[]).map((r) => (
+                <option key={r} value={r}>
+                  {WASTE_REASON_LABELS[r]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Station</div>
+            <input className="gc-input w-32" list="gc-waste-stations" value={station} onChange={(e) => setStation(e.target.value)} placeholder="e.g. Grill" />
+            <datalist id="gc-waste-stations">
+              {stations.map((s) => (
+                <option key={s} value={s} />
+              ))}
+            </datalist>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-neutral-500 mb-1">Staff</div>
+            <input className="gc-input w-32" list="gc-waste-staff" value={staff} onChange={(e) => setStaff(e.target.value)} placeholder="Name" />
+            <datalist id="gc-waste-staff">
+              {staffNames.map((s) => (
+                <option key={s} value={s} />
+              ))}
+            </datalist>
+          </label>
+          {form.itemType !== 'dish' && activeLocations.length > 1 && (
+            <label className="text-sm">
+              <div className="text-xs text-neutral-500 mb-1">From</div>
+              <select className="gc-input" value={form.locationId} onChange={(e) => setForm({ ...form, locationId: e.target.value })}>
+                <option value="">Default location</option>
+                {activeLocations.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <input className="gc-input" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} placeholder="Notes" />
+          <button className="gc-btn gc-btn-primary" type="button" disabled={busy || !preview || !!preview.issue} onClick={submit}>
+            {busy ? 'Logging…' : 'Log waste'}
+          </button>
+        </div>
+
+        {preview && (
+          <div className={`mt-3 text-sm ${preview.issue ? 'text-red-600' : 'text-neutral-600'}`}>
+            {preview.issue || (
+              <>
+                Value <span className="font-extrabold">{fmtMoney(preview.totalCost, currency)}</span> ({fmtMoney(preview.unitCost, currency)} / {form.unit})
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {err && (
+        <div className="gc-card p-6">
+          <div className="gc-label">ERROR</div>
+          <div className="mt-2 text-sm text-red-600">{err}</div>
+        </div>
+      )}
+
+      <div className="gc-card p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {PERIODS.map(([p, label]) => (
+              <button key={p} type="button" className={`gc-btn ${period === p ? 'gc-btn-primary' : 'gc-btn-ghost'}`} onClick={() => setPeriod(p)}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="text-sm">
+            Waste cost <span className="font-extrabold">{fmtMoney(total, currency)}</span> · {entries.length} entr{entries.length === 1 ? 'y' : 'ies'}
+          </div>
+        </div>
+
+        <div className="mt-4 grid gap-6 md:grid-cols-2">
+          <div>
+            <div className="gc-label">BY REASON</div>
+            <table className="mt-2 w-full text-sm">
+              <tbody>
+                {byReason.map((r) => (
+                  <tr key={r.key} className="border-t border-neutral-200/60">
+                    <td className="py-2">{r.label}</td>
+                    <td className="text-right text-neutral-500">{r.count}×</td>
+                    <td className="text-right font-semibold">{fmtMoney(r.cost, currency)}</td>
+                    <td className="w-16 text-right text-xs text-neutral-500">{total > 0 ? `${((r.cost / total) * 100).toFixed(0)}%` : ''}</td>
+                  </tr>
+                ))}
+                {!byReason.length && (
+                  <tr>
+                    <td className="py-2 text-neutral-500">No waste logged in this period.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <div className="gc-label">TOP WASTE</div>
+            <table className="mt-2 w-full text-sm">
+              <tbody>
+                {byItem.map((r) => (
+                  <tr key={r.key} className="border-t border-neutral-200/60">
+                    <td className="py-2">{r.label}</td>
+                    <td className="text-right text-neutral-500">{r.unit ? `${fmtQty(r.qty)} ${r.unit}` : `${r.count}×`}</td>
+                    <td className="text-right font-semibold">{fmtMoney(r.cost, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="gc-card p-6">
+        <div className="gc-label">ENTRIES</div>
+        {loading ? (
+          <div className="mt-3 text-sm text-neutral-500">Loading waste log…</div>
+        ) : (
+          <table className="mt-3 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="py-2">When</th>
+                <th>Code</th>
+                <th>Item</th>
+                <th className="text-right">Qty</th>
+                <th>Reason</th>
+                <th>Station</th>
+                <th>Staff</th>
+                <th className="text-right">Value</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => (
+                <tr key={e.id} className="border-t border-neutral-200/60">
+                  <td className="py-2">{new Date(e.wasted_at).toLocaleString()}</td>
+                  <td className="font-mono text-xs">{e.code || displayCode('WASTE', e.id)}</td>
+                  <td>
+                    <div className="font-semibold">{e.item_name}</div>
+                    <div className="text-xs text-neutral-500">
+                      {WASTE_ITEM_LABELS[e.item_type]}
+                      {e.location_id && locById.get(e.location_id) ? ` · ${locById.get(e.location_id)!.name}` : ''}
+                      {e.notes ? ` · ${e.notes}` : ''}
+                    </div>
+                  </td>
+                  <td className="text-right">
+                    {fmtQty(e.qty)} {e.unit}
+                  </td>
+                  <td>{WASTE_REASON_LABELS[e.reason] ?? e.reason}</td>
+                  <td>{e.station || '—'}</td>
+                  <td>{e.staff_name || '—'}</td>
+                  <td className="text-right font-semibold">{fmtMoney(e.total_cost, currency)}</td>
+                  <td className="text-right">
+                    <button className="gc-btn gc-btn-ghost" type="button" onClick={() => remove(e)}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {!entries.length && (
+                <tr>
+                  <td colSpan={9} className="py-3 text-neutral-500">
+                    No waste logged in this period.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
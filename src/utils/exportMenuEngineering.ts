@@ -0,0 +1,87 @@
+// src/utils/exportMenuEngineering.ts
+import ExcelJS from 'exceljs'
+import { saveAs } from 'file-saver'
+import { MENU_QUADRANT_COLORS, MENU_QUADRANT_LABELS, type MenuEngineering } from '../lib/menuEngineering'
+
+export type MenuEngineeringExportMeta = {
+  currency: string
+  periodLabel: string
+  category: string | null
+}
+
+const HEAD = ['Recipe', 'Category', 'Sold', 'Mix %', 'Price', 'Food cost', 'Food cost %', 'CM / portion', 'Total CM', 'Revenue', 'Class']
+
+function fileBase(meta: MenuEngineeringExportMeta) {
+  const cat = meta.category ? `-${meta.category.replace(/[\\/:*?"<>|\s]+/g, '_')}` : ''
+  return `menu-engineering${cat}-${new Date().toISOString().slice(0, 10)}`
+}
+
+function csvCell(v: string) {
+  return /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v
+}
+
+export function exportMenuEngineeringCsv(me: MenuEngineering, meta: MenuEngineeringExportMeta) {
+  const r2 = (n: number) => (Math.round(n * 100) / 100).toFixed(2)
+  const body = me.items.map((i) => [
+    i.name,
+    i.category || '',
+    String(i.sold),
+    r2(i.mixPct * 100),
+    r2(i.price),
+    r2(i.cost),
+    i.foodCostPct == null ? '' : r2(i.foodCostPct),
+    r2(i.margin),
+    r2(i.totalMargin),
+    r2(i.revenue),
+    MENU_QUADRANT_LABELS[i.quadrant],
+  ])
+  const csv = [HEAD, ...body].map((row) => row.map(csvCell).join(',')).join('\n')
+  saveAs(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${fileBase(meta)}.csv`)
+}
+
+export async function exportMenuEngineeringExcel(me: MenuEngineering, meta: MenuEngineeringExportMeta) {
+  const wb = new ExcelJS.Workbook()
+  wb.creator = 'GastroChef'
+  const ws = wb.addWorksheet('Menu engineering', { views: [{ state: 'frozen', ySplit: 4 }] })
+  const money = `"${meta.currency}" #,##0.00`
+
+  ws.addRow(['Menu engineering']).font = { bold: true, size: 14 }
+  ws.addRow([
+    `${meta.periodLabel}${meta.category ? ` · ${meta.category}` : ''} · average CM ${me.avgMargin.toFixed(2)} ${meta.currency} · popular from ${(me.popularityThreshold * 100).toFixed(1)}% of mix`,
+  ]).font = { italic: true, color: { argb: 'FF6B7280' } }
+  ws.addRow([])
+  const head = ws.addRow(HEAD)
+  head.font = { bold: true }
+  head.eachCell((c) => {
+    c.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF3F4F6' } }
+  })
+
+  for (const i of me.items) {
+    const row = ws.addRow([
+      i.name,
+      i.category || '',
+      i.sold,
+      i.mixPct,
+      i.price,
+      i.cost,
+      i.foodCostPct == null ? null : i.foodCostPct / 100,
+      i.margin,
+      i.totalMargin,
+      i.revenue,
+      MENU_QUADRANT_LABELS[i.quadrant],
+    ])
+    row.getCell(11).font = { bold: true, color: { argb: `FF${MENU_QUADRANT_COLORS[i.quadrant].slice(1).toUpperCase()}` } }
+  }
+  const total = ws.addRow(['Total', '', me.totalSold, 1, null, null, null, me.avgMargin, me.totalMargin, me.totalRevenue, ''])
+  total.font = { bold: true }
+
+  ws.columns.forEach((col, idx) => {
+    col.width = idx === 0 ? 32 : idx === 1 ? 18 : 14
+  })
+  for (const c of [5, 6, 8, 9, 10]) ws.getColumn(c).numFmt = money
+  ws.getColumn(4).numFmt = '0.0%'
+  ws.getColumn(7).numFmt = '0.0%'
+
+  const buffer = await wb.xlsx.writeBuffer()
+  saveAs(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${fileBase(meta)}.xlsx`)
+}
@@ -2,6 +2,7 @@
 import ExcelJS from 'exceljs'
 import { saveAs } from 'file-saver'
 import QRCode from 'qrcode'
+import type { LineCost } from '../lib/recipeCosting'
 
 // ================= Types =================
 export type ExcelRecipeMeta = {
@@ -26,6 +27,21 @@ export type ExcelRecipeMeta = {
   fat_g?: number | null
 }
 
+/** Labor, packaging and overhead on top of food cost (see lib/plateCost). */
+export type ExcelPlateCost = {
+  food: number
+  labor: number
+  prime: number
+  packaging: number
+  overhead: number
+  plate: number
+  portions: number
+  overheadPct: number
+  foodPct: number | null
+  primePct: number | null
+  platePct: number | null
+}
+
 export type ExcelLineRow = {
   type: 'ingredient' | 'subrecipe'
   code?: string | null
@@ -40,6 +56,22 @@ export type ExcelLineRow = {
   warnings?: string[]
 }
 
+/** Builds an Excel row from a costing-engine line so the sheet always matches the app totals. */
+export function excelRowFromLineCost(
+  base: { type: ExcelLineRow['type']; code?: string | null; name: string; unit: string; notes?: string | null },
+  cost: LineCost | undefined
+): ExcelLineRow {
+  return {
+    ...base,
+    net_qty: cost?.net ?? 0,
+    yield_percent: cost?.yieldPct ?? 100,
+    gross_qty: cost?.gross ?? 0,
+    unit_cost: cost?.unitCost ?? 0,
+    line_cost: cost?.lineCost ?? 0,
+    warnings: cost?.warnings || [],
+  }
+}
+
 // ================= Enhanced Color Palette =================
 const COLORS = {
   // الرئيسية
@@ -299,9 +331,10 @@ function autosizeColumns(sheet: ExcelJS.Worksheet, min = 12, max = 50) {
 export async function exportRecipeExcelUltra(args: {
   meta: ExcelRecipeMeta
   totals: { totalCost: number; cpp: number; fcPct: number | null; margin: number; marginPct: number | null }
+  plate?: ExcelPlateCost | null
   lines: ExcelLineRow[]
 }): Promise<void> {
-  const { meta, totals, lines } = args
+  const { meta, totals, plate, lines } = args
   const name = toTitle(meta.name)
   const currency = (meta.currency || 'USD').toUpperCase()
   const portions = Math.max(1, Math.floor(safeNum(meta.portions, 1)))
@@ -499,6 +532,45 @@ export async function exportRecipeExcelUltra(args: {
     r++
   })
 
+  // Plate cost: food → prime (+ labor) → plate (+ packaging, overhead)
+  if (plate) {
+    r += 1
+    summary.getCell(`A${r}`).value = '🍽️ PLATE COST'
+    applyCellStyle(summary.getCell(`A${r}`), { bold: true, fontSize: 14, color: COLORS.primary, bgColor: COLORS.bgSoft })
+    summary.mergeCells(`A${r}:D${r}`)
+    r++
+
+    ;['', 'Batch', 'Per Portion', '% of Price'].forEach((h, i) => {
+      const c = summary.getCell(r, i + 1)
+      c.value = h
+      applyCellStyle(c, { bold: true, color: COLORS.textLight, bgColor: COLORS.bgAlternate, align: i ? 'right' : 'left' })
+    })
+    r++
+
+    const per = (n: number) => n / Math.max(1, plate.portions)
+    const plateRows: Array<[string, number, number | null, boolean]> = [
+      ['Food Cost', plate.food, plate.foodPct, false],
+      ['Labor', plate.labor, null, false],
+      ['Prime Cost', plate.prime, plate.primePct, true],
+      ['Packaging', plate.packaging, null, false],
+      [`Overhead (${fmtPercent(plate.overheadPct)})`, plate.overhead, null, false],
+      ['Plate Cost', plate.plate, plate.platePct, true],
+    ]
+    plateRows.forEach(([label, value, share, strong], index) => {
+      const bgColor = strong ? COLORS.bgSoft : index % 2 === 0 ? COLORS.bgWhite : COLORS.bgAlternate
+      summary.getCell(`A${r}`).value = label
+      applyCellStyle(summary.getCell(`A${r}`), { bold: strong, color: COLORS.text, bgColor })
+      summary.getCell(`B${r}`).value = value
+      summary.getCell(`C${r}`).value = per(value)
+      summary.getCell(`D${r}`).value = share != null ? share / 100 : '—'
+      for (const col of ['B', 'C', 'D']) applyCellStyle(summary.getCell(`${col}${r}`), { bold: strong, bgColor, align: 'right' })
+      summary.getCell(`B${r}`).numFmt = moneyFmt(currency, 2)
+      summary.getCell(`C${r}`).numFmt = moneyFmt(currency, 2)
+      summary.getCell(`D${r}`).numFmt = '0.0%'
+      r++
+    })
+  }
+
   r += 2
   summary.getCell(`A${r}`).value = 'Prepared by:'
   applyCellStyle(summary.getCell(`A${r}`), { bold: true })
@@ -0,0 +1,19 @@
+-- =========================================
+-- 2026-10-19 INGREDIENT UNIT PROFILE
+-- Per-ingredient conversion data used by src/lib/units.ts:
+-- - density_g_per_ml: mass <-> volume (e.g. 1 l of oil = 920 g)
+-- - grams_per_piece:  pieces <-> mass (e.g. 1 egg = 50 g)
+-- Safe: additive, idempotent.
+-- =========================================
+
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS density_g_per_ml NUMERIC,
+  ADD COLUMN IF NOT EXISTS grams_per_piece NUMERIC;
+
+ALTER TABLE public.ingredients DROP CONSTRAINT IF EXISTS ingredients_density_positive;
+ALTER TABLE public.ingredients
+  ADD CONSTRAINT ingredients_density_positive CHECK (density_g_per_ml IS NULL OR density_g_per_ml > 0);
+
+ALTER TABLE public.ingredients DROP CONSTRAINT IF EXISTS ingredients_grams_per_piece_positive;
+ALTER TABLE public.ingredients
+  ADD CONSTRAINT ingredients_grams_per_piece_positive CHECK (grams_per_piece IS NULL OR grams_per_piece > 0);
@@ -0,0 +1,12 @@
+-- =========================================
+-- 2026-10-19 INGREDIENT NUTRITION (per 100 g)
+-- Feeds calcRecipeNutrition in the recipe editor.
+-- Volume/piece lines also need density_g_per_ml / grams_per_piece (see 0008).
+-- Safe: additive, idempotent.
+-- =========================================
+
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS kcal_per_100g NUMERIC,
+  ADD COLUMN IF NOT EXISTS protein_per_100g NUMERIC,
+  ADD COLUMN IF NOT EXISTS carbs_per_100g NUMERIC,
+  ADD COLUMN IF NOT EXISTS fat_per_100g NUMERIC;
@@ -0,0 +1,28 @@
+-- =========================================
+-- 2026-10-19 ALLERGENS
+-- - ingredients.allergens:   codes the ingredient CONTAINS
+-- - ingredients.may_contain: codes it MAY contain (cross-contact)
+-- Codes are the EU 14 keys (src/lib/allergens.ts) or a kitchen custom code.
+-- Recipes inherit allergens through recipe_lines (computed client-side).
+-- Safe: additive, idempotent.
+-- =========================================
+
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS may_contain TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.custom_allergens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  label TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (kitchen_id, code)
+);
+
+ALTER TABLE public.custom_allergens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS custom_allergens_all ON public.custom_allergens;
+CREATE POLICY custom_allergens_all ON public.custom_allergens
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
@@ -0,0 +1,102 @@
+-- =========================================
+-- 2026-10-19 RECIPE VERSIONS
+-- One row per saved state of a recipe (recipes row + all recipe_lines),
+-- written by the editor after every save. Shape of `snapshot`:
+-- RecipeVersionSnapshot in src/lib/recipeVersions.ts.
+-- Restoring never rewrites history: it adds a new version with restored_from set.
+-- Versions are append-only (select + insert policies only).
+-- restore_recipe_version(): writes a snapshot back to recipes + recipe_lines in one transaction.
+-- Safe: additive, idempotent.
+-- =========================================
+
+CREATE TABLE IF NOT EXISTS public.recipe_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  version_no INTEGER NOT NULL,
+  reason TEXT NOT NULL DEFAULT 'save' CHECK (reason IN ('meta', 'lines', 'restore', 'save')),
+  restored_from INTEGER,
+  snapshot JSONB NOT NULL,
+  total_cost NUMERIC(18,6),
+  cpp NUMERIC(18,6),
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (recipe_id, version_no)
+);
+
+CREATE INDEX IF NOT EXISTS recipe_versions_recipe_idx
+  ON public.recipe_versions (recipe_id, version_no DESC);
+
+-- version_no is assigned here so concurrent editors can't pick the same number.
+CREATE OR REPLACE FUNCTION public.gc_recipe_version_no()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.recipe_id::text));
+  SELECT COALESCE(MAX(version_no), 0) + 1 INTO NEW.version_no
+  FROM public.recipe_versions
+  WHERE recipe_id = NEW.recipe_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_recipe_version_no ON public.recipe_versions;
+CREATE TRIGGER trg_recipe_version_no
+BEFORE INSERT ON public.recipe_versions
+FOR EACH ROW EXECUTE FUNCTION public.gc_recipe_version_no();
+
+ALTER TABLE public.recipe_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS recipe_versions_all ON public.recipe_versions;
+
+DROP POLICY IF EXISTS recipe_versions_select ON public.recipe_versions;
+CREATE POLICY recipe_versions_select ON public.recipe_versions
+FOR SELECT USING (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS recipe_versions_insert ON public.recipe_versions;
+CREATE POLICY recipe_versions_insert ON public.recipe_versions
+FOR INSERT WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+-- Snapshot → recipes row + lines. Runs as the caller (RLS applies); any failure rolls back
+-- the whole restore so the recipe never ends up without its lines.
+CREATE OR REPLACE FUNCTION public.restore_recipe_version(p_recipe_id UUID, p_recipe JSONB, p_lines JSONB)
+RETURNS SETOF public.recipe_lines
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  kid UUID;
+BEGIN
+  SELECT r.kitchen_id INTO kid FROM public.recipes r WHERE r.id = p_recipe_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe not found';
+  END IF;
+
+  UPDATE public.recipes r
+  SET (code, code_category, name, category, portions, description, method_steps, method_step_photos, method,
+       calories, protein_g, carbs_g, fat_g, currency, selling_price, target_food_cost_pct, is_subrecipe,
+       yield_qty, yield_unit) =
+      (SELECT x.code, x.code_category, x.name, x.category, x.portions, x.description, x.method_steps, x.method_step_photos, x.method,
+              x.calories, x.protein_g, x.carbs_g, x.fat_g, x.currency, x.selling_price, x.target_food_cost_pct, x.is_subrecipe,
+              x.yield_qty, x.yield_unit
+       FROM jsonb_populate_record(NULL::public.recipes, p_recipe) x)
+  WHERE r.id = p_recipe_id;
+
+  DELETE FROM public.recipe_lines l WHERE l.recipe_id = p_recipe_id;
+
+  RETURN QUERY
+  WITH ins AS (
+    INSERT INTO public.recipe_lines (kitchen_id, recipe_id, ingredient_id, sub_recipe_id, position, qty, unit, yield_percent,
+                                     notes, gross_qty_override, line_type, group_title)
+    SELECT kid, p_recipe_id, x.ingredient_id, x.sub_recipe_id, x.position, x.qty, x.unit, x.yield_percent,
+           x.notes, x.gross_qty_override, x.line_type, x.group_title
+    FROM jsonb_populate_recordset(NULL::public.recipe_lines, COALESCE(p_lines, '[]'::JSONB)) x
+    RETURNING *
+  )
+  SELECT * FROM ins;
+END $$;
+
+GRANT EXECUTE ON FUNCTION public.restore_recipe_version(UUID, JSONB, JSONB) TO authenticated;
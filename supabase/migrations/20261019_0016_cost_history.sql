@@ -0,0 +1,36 @@
+-- =========================================
+-- 2026-10-19 COST HISTORY
+-- Recipe cost points over time (replaces the per-browser localStorage history).
+-- Points are written by the app (src/lib/costHistory.ts):
+-- - source = 'ingredient_price': an ingredient's net_unit_cost changed; one point
+--   per affected recipe, parents of affected subrecipes included
+-- - source = 'manual':           snapshot button in the recipe editor
+-- DatabaseContext.getCostHistory already reads this table.
+-- Safe: additive, idempotent.
+-- =========================================
+
+CREATE TABLE IF NOT EXISTS public.cost_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  total_cost NUMERIC(18,6) NOT NULL DEFAULT 0,
+  cpp NUMERIC(18,6) NOT NULL DEFAULT 0,
+  portions NUMERIC(18,6) NOT NULL DEFAULT 1,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('ingredient_price', 'manual')),
+  ingredient_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cost_history_recipe_created_idx
+  ON public.cost_history (recipe_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS cost_history_kitchen_created_idx
+  ON public.cost_history (kitchen_id, created_at DESC);
+
+ALTER TABLE public.cost_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS cost_history_all ON public.cost_history;
+CREATE POLICY cost_history_all ON public.cost_history
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
@@ -0,0 +1,160 @@
+-- =========================================
+-- 2026-10-19 SUPPLIERS + SUPPLIER OFFERS
+-- - suppliers: catalog with contact, lead time, minimum order (code SUP-000001)
+-- - supplier_offers: what a supplier sells an ingredient for (own pack size/unit/price)
+-- - At most one preferred offer per ingredient. The preferred offer is copied onto
+--   ingredients.pack_size/pack_unit/pack_price/supplier, so net_unit_cost keeps
+--   deriving from it through trg_calc_net_unit_cost.
+-- Safe: additive, idempotent.
+-- =========================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='supplier_code_seq') THEN
+    CREATE SEQUENCE public.supplier_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  notes TEXT,
+  lead_time_days INTEGER CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+  min_order_value NUMERIC(18,6) CHECK (min_order_value IS NULL OR min_order_value >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS suppliers_kitchen_code_unique
+  ON public.suppliers (kitchen_id, code);
+
+CREATE TABLE IF NOT EXISTS public.supplier_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  ingredient_id UUID NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  supplier_sku TEXT,
+  pack_size NUMERIC(18,6) NOT NULL CHECK (pack_size > 0),
+  pack_unit TEXT NOT NULL,
+  pack_price NUMERIC(18,6) NOT NULL CHECK (pack_price >= 0),
+  is_preferred BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS supplier_offers_ingredient_idx
+  ON public.supplier_offers (ingredient_id);
+
+CREATE INDEX IF NOT EXISTS supplier_offers_supplier_idx
+  ON public.supplier_offers (supplier_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS supplier_offers_one_preferred
+  ON public.supplier_offers (ingredient_id) WHERE is_preferred;
+
+-- Codes: SUP-000001, same scheme as ING-/PREP-/MENU-
+CREATE OR REPLACE FUNCTION public.gc_enforce_supplier_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('SUP-', 'public.supplier_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('SUP-', 'public.supplier_code_seq') ELSE 'SUP-' || suffix END;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_supplier_code_trigger ON public.suppliers;
+CREATE TRIGGER gc_supplier_code_trigger
+BEFORE INSERT OR UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_supplier_code();
+
+-- Marking an offer preferred un-marks the ingredient's other offers.
+CREATE OR REPLACE FUNCTION public.gc_supplier_offer_before()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_preferred THEN
+    UPDATE public.supplier_offers
+    SET is_preferred = false
+    WHERE ingredient_id = NEW.ingredient_id AND id <> NEW.id AND is_preferred;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_supplier_offer_before_trigger ON public.supplier_offers;
+CREATE TRIGGER gc_supplier_offer_before_trigger
+BEFORE INSERT OR UPDATE ON public.supplier_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_supplier_offer_before();
+
+-- Preferred offer → ingredient pack (net_unit_cost is recalculated by trg_calc_net_unit_cost).
+CREATE OR REPLACE FUNCTION public.gc_supplier_offer_sync_ingredient()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_preferred THEN
+    UPDATE public.ingredients
+    SET pack_size = NEW.pack_size,
+        pack_unit = NEW.pack_unit,
+        pack_price = NEW.pack_price,
+        supplier = (SELECT s.name FROM public.suppliers s WHERE s.id = NEW.supplier_id)
+    WHERE id = NEW.ingredient_id;
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_supplier_offer_sync_trigger ON public.supplier_offers;
+CREATE TRIGGER gc_supplier_offer_sync_trigger
+AFTER INSERT OR UPDATE ON public.supplier_offers
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_supplier_offer_sync_ingredient();
+
+-- Keep ingredients.supplier in step with supplier renames.
+CREATE OR REPLACE FUNCTION public.gc_supplier_rename_sync()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.ingredients i
+    SET supplier = NEW.name
+    FROM public.supplier_offers o
+    WHERE o.supplier_id = NEW.id AND o.is_preferred AND o.ingredient_id = i.id;
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_supplier_rename_trigger ON public.suppliers;
+CREATE TRIGGER gc_supplier_rename_trigger
+AFTER UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_supplier_rename_sync();
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS suppliers_all ON public.suppliers;
+CREATE POLICY suppliers_all ON public.suppliers
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS supplier_offers_all ON public.supplier_offers;
+CREATE POLICY supplier_offers_all ON public.supplier_offers
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
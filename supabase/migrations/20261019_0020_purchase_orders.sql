@@ -0,0 +1,107 @@
+-- =========================================
+-- 2026-10-19 PURCHASE ORDERS
+-- - ingredients.par_level: stock to hold, in the ingredient's pack_unit
+-- - purchase_orders: one order per supplier, code PO-000001, status draft → sent → received
+-- - purchase_order_lines: packs to buy, priced from the supplier offer at creation time
+-- Safe: additive, idempotent.
+-- =========================================
+
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS par_level NUMERIC(18,6) CHECK (par_level IS NULL OR par_level >= 0);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='purchase_order_code_seq') THEN
+    CREATE SEQUENCE public.purchase_order_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft','sent','received')),
+  expected_date DATE,
+  notes TEXT,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  sent_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS purchase_orders_kitchen_code_unique
+  ON public.purchase_orders (kitchen_id, code);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_kitchen_status_idx
+  ON public.purchase_orders (kitchen_id, status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE SET NULL,
+  offer_id UUID REFERENCES public.supplier_offers(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  supplier_sku TEXT,
+  required_qty NUMERIC(18,6) NOT NULL DEFAULT 0,
+  pack_size NUMERIC(18,6) NOT NULL CHECK (pack_size > 0),
+  pack_unit TEXT NOT NULL,
+  pack_price NUMERIC(18,6) NOT NULL DEFAULT 0 CHECK (pack_price >= 0),
+  packs NUMERIC(18,6) NOT NULL DEFAULT 0 CHECK (packs >= 0),
+  received_packs NUMERIC(18,6) CHECK (received_packs IS NULL OR received_packs >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS purchase_order_lines_order_idx
+  ON public.purchase_order_lines (purchase_order_id, position);
+
+-- Codes: PO-000001, same scheme as ING-/PREP-/MENU-/SUP-
+CREATE OR REPLACE FUNCTION public.gc_enforce_purchase_order_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('PO-', 'public.purchase_order_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('PO-', 'public.purchase_order_code_seq') ELSE 'PO-' || suffix END;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'sent' AND NEW.sent_at IS NULL THEN NEW.sent_at := now(); END IF;
+    IF NEW.status = 'received' AND NEW.received_at IS NULL THEN NEW.received_at := now(); END IF;
+    IF NEW.status = 'draft' THEN
+      NEW.sent_at := NULL;
+      NEW.received_at := NULL;
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_purchase_order_code_trigger ON public.purchase_orders;
+CREATE TRIGGER gc_purchase_order_code_trigger
+BEFORE INSERT OR UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_purchase_order_code();
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS purchase_orders_all ON public.purchase_orders;
+CREATE POLICY purchase_orders_all ON public.purchase_orders
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS purchase_order_lines_all ON public.purchase_order_lines;
+CREATE POLICY purchase_order_lines_all ON public.purchase_order_lines
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
@@ -0,0 +1,162 @@
+-- =========================================
+-- 2026-10-19 INVENTORY
+-- - stock_locations: warehouses / stores, code WH-000001, one default per kitchen
+-- - stock_movements: signed quantity ledger in the ingredient's pack_unit
+--   (receive, transfer, consume, waste, adjust), valued at net_unit_cost when posted
+-- - stock_on_hand: current quantity per ingredient per location (sum of movements)
+-- - stock_counts / stock_count_lines: count sheets; posting one writes adjust movements
+-- Safe: additive, idempotent.
+-- =========================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='warehouse_code_seq') THEN
+    CREATE SEQUENCE public.warehouse_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.stock_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  name TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_locations_kitchen_code_unique
+  ON public.stock_locations (kitchen_id, code);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_locations_one_default
+  ON public.stock_locations (kitchen_id) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  ingredient_id UUID NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.stock_locations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('receive','transfer','consume','waste','adjust')),
+  qty NUMERIC(18,6) NOT NULL,
+  unit_cost NUMERIC(18,6) NOT NULL DEFAULT 0,
+  source_type TEXT CHECK (source_type IS NULL OR source_type IN ('purchase_order','production_batch','count','manual')),
+  source_id UUID,
+  transfer_id UUID,
+  note TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_item_idx
+  ON public.stock_movements (kitchen_id, ingredient_id, location_id);
+
+CREATE INDEX IF NOT EXISTS stock_movements_created_idx
+  ON public.stock_movements (kitchen_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS stock_movements_source_idx
+  ON public.stock_movements (source_type, source_id);
+
+CREATE TABLE IF NOT EXISTS public.stock_counts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.stock_locations(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft','posted')),
+  note TEXT,
+  posted_at TIMESTAMPTZ,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_counts_kitchen_idx
+  ON public.stock_counts (kitchen_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.stock_count_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  count_id UUID NOT NULL REFERENCES public.stock_counts(id) ON DELETE CASCADE,
+  ingredient_id UUID NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  expected_qty NUMERIC(18,6) NOT NULL DEFAULT 0,
+  counted_qty NUMERIC(18,6) CHECK (counted_qty IS NULL OR counted_qty >= 0),
+  unit_cost NUMERIC(18,6) NOT NULL DEFAULT 0,
+  UNIQUE (count_id, ingredient_id)
+);
+
+-- Codes: WH-000001
+CREATE OR REPLACE FUNCTION public.gc_enforce_stock_location_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('WH-', 'public.warehouse_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('WH-', 'public.warehouse_code_seq') ELSE 'WH-' || suffix END;
+  END IF;
+  IF NEW.is_default THEN
+    UPDATE public.stock_locations
+    SET is_default = false
+    WHERE kitchen_id = NEW.kitchen_id AND id <> NEW.id AND is_default;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_stock_location_code_trigger ON public.stock_locations;
+CREATE TRIGGER gc_stock_location_code_trigger
+BEFORE INSERT OR UPDATE ON public.stock_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_stock_location_code();
+
+-- Unit cost defaults to the ingredient's current net_unit_cost.
+CREATE OR REPLACE FUNCTION public.gc_stock_movement_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.unit_cost IS NULL OR NEW.unit_cost = 0 THEN
+    SELECT COALESCE(i.net_unit_cost, 0) INTO NEW.unit_cost FROM public.ingredients i WHERE i.id = NEW.ingredient_id;
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_stock_movement_cost_trigger ON public.stock_movements;
+CREATE TRIGGER gc_stock_movement_cost_trigger
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_stock_movement_cost();
+
+CREATE OR REPLACE VIEW public.stock_on_hand
+WITH (security_invoker = true) AS
+SELECT m.kitchen_id, m.ingredient_id, m.location_id, SUM(m.qty) AS qty
+FROM public.stock_movements m
+GROUP BY m.kitchen_id, m.ingredient_id, m.location_id;
+
+ALTER TABLE public.stock_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_count_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS stock_locations_all ON public.stock_locations;
+CREATE POLICY stock_locations_all ON public.stock_locations
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS stock_movements_all ON public.stock_movements;
+CREATE POLICY stock_movements_all ON public.stock_movements
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS stock_counts_all ON public.stock_counts;
+CREATE POLICY stock_counts_all ON public.stock_counts
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS stock_count_lines_all ON public.stock_count_lines;
+CREATE POLICY stock_count_lines_all ON public.stock_count_lines
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
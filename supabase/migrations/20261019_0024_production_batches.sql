@@ -0,0 +1,131 @@
+-- =========================================
+-- 2026-10-19 PRODUCTION BATCHES
+-- - production_batches: a made batch of a PREP recipe, code PROD-000001
+--   (planned vs actual yield in the recipe's yield_unit, expiry, output location)
+-- - production_batch_lines: component ingredients consumed, snapshot of qty and cost
+-- - stock_movements.recipe_id: PREP output is stocked in the same ledger;
+--   a movement is either for an ingredient or for a PREP recipe
+-- Safe: additive, idempotent.
+-- =========================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='production_batch_code_seq') THEN
+    CREATE SEQUENCE public.production_batch_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.production_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES public.stock_locations(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open','finished')),
+  yield_unit TEXT,
+  planned_qty NUMERIC(18,6) NOT NULL DEFAULT 0,
+  actual_qty NUMERIC(18,6) CHECK (actual_qty IS NULL OR actual_qty >= 0),
+  total_cost NUMERIC(18,6) NOT NULL DEFAULT 0,
+  expiry_date DATE,
+  notes TEXT,
+  finished_at TIMESTAMPTZ,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS production_batches_kitchen_code_unique
+  ON public.production_batches (kitchen_id, code);
+
+CREATE INDEX IF NOT EXISTS production_batches_recipe_idx
+  ON public.production_batches (kitchen_id, recipe_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.production_batch_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.production_batches(id) ON DELETE CASCADE,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE SET NULL,
+  unit TEXT,
+  planned_qty NUMERIC(18,6) NOT NULL DEFAULT 0,
+  actual_qty NUMERIC(18,6) CHECK (actual_qty IS NULL OR actual_qty >= 0),
+  unit_cost NUMERIC(18,6) NOT NULL DEFAULT 0,
+  UNIQUE (batch_id, ingredient_id)
+);
+
+-- PREP stock: movements for a recipe instead of an ingredient
+ALTER TABLE public.stock_movements
+  ADD COLUMN IF NOT EXISTS recipe_id UUID REFERENCES public.recipes(id) ON DELETE CASCADE;
+
+ALTER TABLE public.stock_movements
+  ALTER COLUMN ingredient_id DROP NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'stock_movements_item_check') THEN
+    ALTER TABLE public.stock_movements
+      ADD CONSTRAINT stock_movements_item_check CHECK (num_nonnulls(ingredient_id, recipe_id) = 1);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS stock_movements_recipe_idx
+  ON public.stock_movements (kitchen_id, recipe_id, location_id)
+  WHERE recipe_id IS NOT NULL;
+
+-- Recipe movements carry their own cost (batch cost per yield unit).
+CREATE OR REPLACE FUNCTION public.gc_stock_movement_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.unit_cost IS NULL OR NEW.unit_cost = 0) AND NEW.ingredient_id IS NOT NULL THEN
+    SELECT COALESCE(i.net_unit_cost, 0) INTO NEW.unit_cost FROM public.ingredients i WHERE i.id = NEW.ingredient_id;
+  END IF;
+  NEW.unit_cost := COALESCE(NEW.unit_cost, 0);
+  RETURN NEW;
+END $$;
+
+CREATE OR REPLACE VIEW public.stock_on_hand
+WITH (security_invoker = true) AS
+SELECT m.kitchen_id, m.ingredient_id, m.location_id, SUM(m.qty) AS qty, m.recipe_id
+FROM public.stock_movements m
+GROUP BY m.kitchen_id, m.ingredient_id, m.location_id, m.recipe_id;
+
+-- Codes: PROD-000001
+CREATE OR REPLACE FUNCTION public.gc_enforce_production_batch_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('PROD-', 'public.production_batch_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('PROD-', 'public.production_batch_code_seq') ELSE 'PROD-' || suffix END;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished' THEN
+    NEW.finished_at := COALESCE(NEW.finished_at, now());
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_production_batch_code_trigger ON public.production_batches;
+CREATE TRIGGER gc_production_batch_code_trigger
+BEFORE INSERT OR UPDATE ON public.production_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_production_batch_code();
+
+ALTER TABLE public.production_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.production_batch_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS production_batches_all ON public.production_batches;
+CREATE POLICY production_batches_all ON public.production_batches
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS production_batch_lines_all ON public.production_batch_lines;
+CREATE POLICY production_batch_lines_all ON public.production_batch_lines
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
@@ -0,0 +1,79 @@
+-- =========================================
+-- 2026-10-19 WASTE LOG
+-- - waste_entries: wasted ingredient, PREP or dish, code WASTE-000001
+--   qty + unit as logged, reason, station, staff; valued at current cost when logged
+-- - stock_movements.source_type gains 'waste' (ingredient / PREP waste leaves stock)
+-- Safe: additive, idempotent.
+-- =========================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='waste_code_seq') THEN
+    CREATE SEQUENCE public.waste_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.waste_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  item_type TEXT NOT NULL CHECK (item_type IN ('ingredient','prep','dish')),
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE SET NULL,
+  recipe_id UUID REFERENCES public.recipes(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL DEFAULT '',
+  qty NUMERIC(18,6) NOT NULL CHECK (qty > 0),
+  unit TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spoilage','over_production','burnt','returned','other')),
+  station TEXT,
+  staff_name TEXT,
+  unit_cost NUMERIC(18,6) NOT NULL DEFAULT 0,
+  total_cost NUMERIC(18,6) NOT NULL DEFAULT 0,
+  location_id UUID REFERENCES public.stock_locations(id) ON DELETE SET NULL,
+  notes TEXT,
+  wasted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS waste_entries_kitchen_code_unique
+  ON public.waste_entries (kitchen_id, code);
+
+CREATE INDEX IF NOT EXISTS waste_entries_kitchen_time_idx
+  ON public.waste_entries (kitchen_id, wasted_at DESC);
+
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT IF EXISTS stock_movements_source_type_check;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_source_type_check
+  CHECK (source_type IS NULL OR source_type IN ('purchase_order','production_batch','count','manual','waste'));
+
+-- Codes: WASTE-000001
+CREATE OR REPLACE FUNCTION public.gc_enforce_waste_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('WASTE-', 'public.waste_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('WASTE-', 'public.waste_code_seq') ELSE 'WASTE-' || suffix END;
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_waste_code_trigger ON public.waste_entries;
+CREATE TRIGGER gc_waste_code_trigger
+BEFORE INSERT OR UPDATE ON public.waste_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_waste_code();
+
+ALTER TABLE public.waste_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS waste_entries_all ON public.waste_entries;
+CREATE POLICY waste_entries_all ON public.waste_entries
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
@@ -0,0 +1,104 @@
+-- =========================================
+-- 2026-10-19 POS SALES IMPORT
+-- - sales_imports: one uploaded POS export, code SALE-000001
+-- - sales_lines: sold item per day (POS code / name, qty, price), mapped to a MENU recipe
+-- - pos_item_mappings: rules for POS items whose code doesn't match a recipe code
+--   (map to a recipe, or ignore e.g. drinks / service charges)
+-- Safe: additive, idempotent.
+-- =========================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='sale_code_seq') THEN
+    CREATE SEQUENCE public.sale_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.sales_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  source_name TEXT,
+  period_start DATE,
+  period_end DATE,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  total_qty NUMERIC(18,6) NOT NULL DEFAULT 0,
+  total_revenue NUMERIC(18,6) NOT NULL DEFAULT 0,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sales_imports_kitchen_code_unique
+  ON public.sales_imports (kitchen_id, code);
+
+CREATE TABLE IF NOT EXISTS public.sales_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  import_id UUID NOT NULL REFERENCES public.sales_imports(id) ON DELETE CASCADE,
+  sold_on DATE NOT NULL,
+  pos_code TEXT,
+  pos_name TEXT,
+  qty NUMERIC(18,6) NOT NULL DEFAULT 0,
+  unit_price NUMERIC(18,6) NOT NULL DEFAULT 0,
+  revenue NUMERIC(18,6) NOT NULL DEFAULT 0,
+  recipe_id UUID REFERENCES public.recipes(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS sales_lines_kitchen_day_idx
+  ON public.sales_lines (kitchen_id, sold_on);
+
+CREATE INDEX IF NOT EXISTS sales_lines_recipe_idx
+  ON public.sales_lines (kitchen_id, recipe_id);
+
+CREATE TABLE IF NOT EXISTS public.pos_item_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  pos_key TEXT NOT NULL,
+  pos_label TEXT,
+  recipe_id UUID REFERENCES public.recipes(id) ON DELETE CASCADE,
+  is_ignored BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (kitchen_id, pos_key)
+);
+
+-- Codes: SALE-000001
+CREATE OR REPLACE FUNCTION public.gc_enforce_sales_import_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('SALE-', 'public.sale_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('SALE-', 'public.sale_code_seq') ELSE 'SALE-' || suffix END;
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_sales_import_code_trigger ON public.sales_imports;
+CREATE TRIGGER gc_sales_import_code_trigger
+BEFORE INSERT OR UPDATE ON public.sales_imports
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_sales_import_code();
+
+ALTER TABLE public.sales_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pos_item_mappings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sales_imports_all ON public.sales_imports;
+CREATE POLICY sales_imports_all ON public.sales_imports
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS sales_lines_all ON public.sales_lines;
+CREATE POLICY sales_lines_all ON public.sales_lines
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS pos_item_mappings_all ON public.pos_item_mappings;
+CREATE POLICY pos_item_mappings_all ON public.pos_item_mappings
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
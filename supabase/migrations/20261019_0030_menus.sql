@@ -0,0 +1,104 @@
+-- =========================================
+-- 2026-10-19 MENUS
+-- - menus: a lunch / banquet / seasonal card, code CARD-000001
+-- - menu_sections: ordered headings on a menu (Starters, Mains…)
+-- - menu_items: MENU recipes placed in a section, with an optional menu-specific
+--   price (NULL = recipe selling_price) and guest-facing name / description
+-- Safe: additive, idempotent.
+-- =========================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='menu_card_code_seq') THEN
+    CREATE SEQUENCE public.menu_card_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.menus (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'a_la_carte'
+    CHECK (kind IN ('a_la_carte','lunch','banquet','seasonal','set','other')),
+  description TEXT,
+  valid_from DATE,
+  valid_to DATE,
+  target_food_cost_pct NUMERIC(6,2),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS menus_kitchen_code_unique
+  ON public.menus (kitchen_id, code);
+
+CREATE TABLE IF NOT EXISTS public.menu_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  menu_id UUID NOT NULL REFERENCES public.menus(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS menu_sections_menu_idx
+  ON public.menu_sections (menu_id, position);
+
+CREATE TABLE IF NOT EXISTS public.menu_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  menu_id UUID NOT NULL REFERENCES public.menus(id) ON DELETE CASCADE,
+  section_id UUID NOT NULL REFERENCES public.menu_sections(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  price NUMERIC(18,6),
+  display_name TEXT,
+  description TEXT,
+  UNIQUE (section_id, recipe_id)
+);
+
+CREATE INDEX IF NOT EXISTS menu_items_menu_idx
+  ON public.menu_items (menu_id, section_id, position);
+
+-- Codes: CARD-000001 (MENU- is taken by menu recipes)
+CREATE OR REPLACE FUNCTION public.gc_enforce_menu_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('CARD-', 'public.menu_card_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('CARD-', 'public.menu_card_code_seq') ELSE 'CARD-' || suffix END;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_menu_code_trigger ON public.menus;
+CREATE TRIGGER gc_menu_code_trigger
+BEFORE INSERT OR UPDATE ON public.menus
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_menu_code();
+
+ALTER TABLE public.menus ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS menus_all ON public.menus;
+CREATE POLICY menus_all ON public.menus
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS menu_sections_all ON public.menu_sections;
+CREATE POLICY menu_sections_all ON public.menu_sections
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS menu_items_all ON public.menu_items;
+CREATE POLICY menu_items_all ON public.menu_items
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
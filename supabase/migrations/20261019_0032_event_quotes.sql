@@ -0,0 +1,116 @@
+-- =========================================
+-- 2026-10-19 EVENT QUOTES
+-- - event_quotes: catering / banquet quote for a client, code QUO-000001
+--   pricing_mode 'markup' (food cost × (1 + markup %)) or 'target_fc' (food cost ÷ target %)
+-- - event_quote_items: recipes on the quote with portions per guest; cost_per_portion /
+--   price_per_portion are frozen when the quote leaves draft (NULL = priced live)
+-- - event_quote_extras: staff hours, rentals, delivery… priced per unit
+-- Safe: additive, idempotent.
+-- =========================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relkind='S' AND relname='event_quote_code_seq') THEN
+    CREATE SEQUENCE public.event_quote_code_seq START 1;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.event_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  code TEXT,
+  event_name TEXT NOT NULL,
+  client_name TEXT,
+  client_email TEXT,
+  client_phone TEXT,
+  event_date DATE,
+  venue TEXT,
+  guest_count INTEGER NOT NULL DEFAULT 0 CHECK (guest_count >= 0),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft','sent','accepted','declined')),
+  pricing_mode TEXT NOT NULL DEFAULT 'target_fc'
+    CHECK (pricing_mode IN ('markup','target_fc')),
+  markup_pct NUMERIC(8,2) NOT NULL DEFAULT 200,
+  target_food_cost_pct NUMERIC(6,2) NOT NULL DEFAULT 30,
+  tax_pct NUMERIC(6,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  valid_until DATE,
+  notes TEXT,
+  terms TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS event_quotes_kitchen_code_unique
+  ON public.event_quotes (kitchen_id, code);
+
+CREATE TABLE IF NOT EXISTS public.event_quote_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL REFERENCES public.event_quotes(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE RESTRICT,
+  portions_per_guest NUMERIC(10,3) NOT NULL DEFAULT 1 CHECK (portions_per_guest >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (quote_id, recipe_id)
+);
+
+ALTER TABLE public.event_quote_items ADD COLUMN IF NOT EXISTS cost_per_portion NUMERIC(18,6);
+ALTER TABLE public.event_quote_items ADD COLUMN IF NOT EXISTS price_per_portion NUMERIC(18,6);
+
+CREATE TABLE IF NOT EXISTS public.event_quote_extras (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL REFERENCES public.event_quotes(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'other'
+    CHECK (kind IN ('staff','rental','delivery','other')),
+  description TEXT NOT NULL,
+  qty NUMERIC(12,3) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(18,6) NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS event_quote_items_quote_idx ON public.event_quote_items (quote_id, position);
+CREATE INDEX IF NOT EXISTS event_quote_extras_quote_idx ON public.event_quote_extras (quote_id, position);
+
+-- Codes: QUO-000001
+CREATE OR REPLACE FUNCTION public.gc_enforce_event_quote_code()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  suffix text;
+BEGIN
+  IF NEW.code IS NULL OR BTRIM(NEW.code) = '' THEN
+    NEW.code := public.gc_next_code('QUO-', 'public.event_quote_code_seq');
+  ELSE
+    suffix := public.gc_normalize_suffix(REGEXP_REPLACE(UPPER(BTRIM(NEW.code)), '^[A-Z]+-', ''));
+    NEW.code := CASE WHEN suffix = '' THEN public.gc_next_code('QUO-', 'public.event_quote_code_seq') ELSE 'QUO-' || suffix END;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_event_quote_code_trigger ON public.event_quotes;
+CREATE TRIGGER gc_event_quote_code_trigger
+BEFORE INSERT OR UPDATE ON public.event_quotes
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_enforce_event_quote_code();
+
+ALTER TABLE public.event_quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_quote_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_quote_extras ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS event_quotes_all ON public.event_quotes;
+CREATE POLICY event_quotes_all ON public.event_quotes
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS event_quote_items_all ON public.event_quote_items;
+CREATE POLICY event_quote_items_all ON public.event_quote_items
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS event_quote_extras_all ON public.event_quote_extras;
+CREATE POLICY event_quote_extras_all ON public.event_quote_extras
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
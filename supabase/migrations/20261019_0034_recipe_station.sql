@@ -0,0 +1,11 @@
+-- =========================================
+-- 2026-10-19 RECIPE STATION
+-- - recipes.station: kitchen station that prepares the recipe (Grill, Garde manger, Pastry…)
+--   used to group the consolidated prep list
+-- Safe: additive, idempotent.
+-- =========================================
+
+ALTER TABLE public.recipes
+  ADD COLUMN IF NOT EXISTS station TEXT;
+
+CREATE INDEX IF NOT EXISTS recipes_kitchen_station_idx ON public.recipes (kitchen_id, station);
@@ -0,0 +1,89 @@
+-- =========================================
+-- 2026-10-19 LABOR, PACKAGING + OVERHEAD
+-- - kitchen_settings: one row per kitchen; overhead_pct is added on top of
+--   prime cost + packaging to get the full plate cost
+-- - labor_roles: kitchen roles with an hourly rate (Commis, Line cook, Pastry…)
+-- - recipes.prep_minutes / cook_minutes + the role doing each (per batch)
+-- - recipe_packaging: packaging and disposables lines, per portion or per batch
+-- Safe: additive, idempotent.
+-- =========================================
+
+CREATE TABLE IF NOT EXISTS public.kitchen_settings (
+  kitchen_id UUID PRIMARY KEY DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  overhead_pct NUMERIC(7,3) NOT NULL DEFAULT 0 CHECK (overhead_pct >= 0 AND overhead_pct <= 500),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.labor_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  hourly_rate NUMERIC(18,6) NOT NULL DEFAULT 0 CHECK (hourly_rate >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS labor_roles_kitchen_name_unique
+  ON public.labor_roles (kitchen_id, lower(name));
+
+ALTER TABLE public.recipes
+  ADD COLUMN IF NOT EXISTS prep_minutes NUMERIC(10,2) CHECK (prep_minutes IS NULL OR prep_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS prep_role_id UUID REFERENCES public.labor_roles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS cook_minutes NUMERIC(10,2) CHECK (cook_minutes IS NULL OR cook_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS cook_role_id UUID REFERENCES public.labor_roles(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.recipe_packaging (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  qty NUMERIC(18,6) NOT NULL DEFAULT 1 CHECK (qty >= 0),
+  unit_cost NUMERIC(18,6) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  per TEXT NOT NULL DEFAULT 'portion' CHECK (per IN ('portion','batch')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS recipe_packaging_recipe_idx
+  ON public.recipe_packaging (recipe_id, position);
+
+CREATE OR REPLACE FUNCTION public.gc_touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS gc_kitchen_settings_touch ON public.kitchen_settings;
+CREATE TRIGGER gc_kitchen_settings_touch
+BEFORE UPDATE ON public.kitchen_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_touch_updated_at();
+
+DROP TRIGGER IF EXISTS gc_labor_roles_touch ON public.labor_roles;
+CREATE TRIGGER gc_labor_roles_touch
+BEFORE UPDATE ON public.labor_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.gc_touch_updated_at();
+
+ALTER TABLE public.kitchen_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.labor_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_packaging ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS kitchen_settings_all ON public.kitchen_settings;
+CREATE POLICY kitchen_settings_all ON public.kitchen_settings
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS labor_roles_all ON public.labor_roles;
+CREATE POLICY labor_roles_all ON public.labor_roles
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS recipe_packaging_all ON public.recipe_packaging;
+CREATE POLICY recipe_packaging_all ON public.recipe_packaging
+FOR ALL USING (kitchen_id = public.current_kitchen_id())
+WITH CHECK (kitchen_id = public.current_kitchen_id());
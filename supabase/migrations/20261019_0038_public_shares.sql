@@ -0,0 +1,132 @@
+-- =========================================
+-- 2026-10-19 PUBLIC SHARES (signed, expiring, revocable)
+-- - public_shares: one row per share link; its id is the revocation id carried in the token
+-- - public_share_secrets: per-share HMAC key, no RLS policies → only the functions below read it
+-- - create_public_share(): signs sha256(payload) with the share key (kitchen members)
+-- - verify_public_share(): signature + revocation + expiry check for the public portal (anon)
+-- - Both functions search the extensions schema too: Supabase installs pgcrypto (hmac) there
+-- - Owners revoke by setting revoked_at (update policy is owner-only)
+-- Safe: additive, idempotent.
+-- =========================================
+
+CREATE TABLE IF NOT EXISTS public.public_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kitchen_id UUID NOT NULL DEFAULT public.current_kitchen_id() REFERENCES public.kitchens(id) ON DELETE CASCADE,
+  recipe_id UUID REFERENCES public.recipes(id) ON DELETE SET NULL,
+  recipe_name TEXT,
+  label TEXT,
+  payload_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_by UUID DEFAULT auth.uid(),
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS public_shares_kitchen_created_idx
+  ON public.public_shares (kitchen_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS public_shares_recipe_idx
+  ON public.public_shares (recipe_id);
+
+CREATE TABLE IF NOT EXISTS public.public_share_secrets (
+  share_id UUID PRIMARY KEY REFERENCES public.public_shares(id) ON DELETE CASCADE,
+  signing_key BYTEA NOT NULL DEFAULT gen_random_bytes(32)
+);
+
+ALTER TABLE public.public_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.public_share_secrets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS public_shares_select ON public.public_shares;
+CREATE POLICY public_shares_select ON public.public_shares
+FOR SELECT USING (kitchen_id = public.current_kitchen_id());
+
+DROP POLICY IF EXISTS public_shares_owner_update ON public.public_shares;
+CREATE POLICY public_shares_owner_update ON public.public_shares
+FOR UPDATE USING (
+  kitchen_id = public.current_kitchen_id()
+  AND EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.user_id = auth.uid() AND p.role = 'owner')
+)
+WITH CHECK (kitchen_id = public.current_kitchen_id());
+
+-- Inserts go through create_public_share() so every share has a key.
+CREATE OR REPLACE FUNCTION public.create_public_share(
+  p_id UUID,
+  p_recipe_id UUID,
+  p_payload_hash TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_label TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  kid UUID := public.current_kitchen_id();
+  rname TEXT;
+  k BYTEA;
+BEGIN
+  IF kid IS NULL THEN
+    RAISE EXCEPTION 'No kitchen';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.user_id = auth.uid() AND p.role IN ('owner','staff')) THEN
+    RAISE EXCEPTION 'Not allowed to share recipes';
+  END IF;
+  SELECT r.name INTO rname FROM public.recipes r WHERE r.id = p_recipe_id AND r.kitchen_id = kid;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe not found';
+  END IF;
+  IF p_payload_hash IS NULL OR p_payload_hash !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid payload hash';
+  END IF;
+
+  INSERT INTO public.public_shares (id, kitchen_id, recipe_id, recipe_name, label, payload_hash, expires_at)
+  VALUES (p_id, kid, p_recipe_id, rname, NULLIF(BTRIM(p_label), ''), p_payload_hash, p_expires_at);
+
+  INSERT INTO public.public_share_secrets (share_id) VALUES (p_id)
+  RETURNING signing_key INTO k;
+
+  RETURN encode(hmac(p_payload_hash, k, 'sha256'), 'hex');
+END $$;
+
+-- 'ok' | 'unknown' | 'invalid' | 'revoked' | 'expired'. Counts a view when ok.
+CREATE OR REPLACE FUNCTION public.verify_public_share(p_id UUID, p_payload_hash TEXT, p_signature TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  s public.public_shares%ROWTYPE;
+  k BYTEA;
+BEGIN
+  SELECT * INTO s FROM public.public_shares WHERE id = p_id;
+  IF NOT FOUND THEN
+    RETURN 'unknown';
+  END IF;
+  SELECT signing_key INTO k FROM public.public_share_secrets WHERE share_id = p_id;
+  IF k IS NULL
+     OR p_payload_hash IS DISTINCT FROM s.payload_hash
+     OR encode(hmac(p_payload_hash, k, 'sha256'), 'hex') IS DISTINCT FROM lower(p_signature) THEN
+    RETURN 'invalid';
+  END IF;
+  IF s.revoked_at IS NOT NULL THEN
+    RETURN 'revoked';
+  END IF;
+  IF s.expires_at IS NOT NULL AND s.expires_at <= now() THEN
+    RETURN 'expired';
+  END IF;
+
+  UPDATE public.public_shares
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = p_id;
+  RETURN 'ok';
+END $$;
+
+REVOKE ALL ON FUNCTION public.create_public_share(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_public_share(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.verify_public_share(UUID, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.verify_public_share(UUID, TEXT, TEXT) TO anon, authenticated;
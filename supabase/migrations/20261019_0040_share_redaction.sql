@@ -0,0 +1,60 @@
+-- =========================================
+-- 2026-10-19 PUBLIC SHARE REDACTION LEVELS
+-- - public_shares.redaction: what a link exposes
+--   full (costing) | quantities (no costs) | method (no ingredient list)
+-- - create_public_share(): new p_redaction argument, recorded on the share row
+--   (the level is also inside the signed payload, so it cannot be changed after signing)
+-- Safe: additive, idempotent.
+-- =========================================
+
+ALTER TABLE public.public_shares
+  ADD COLUMN IF NOT EXISTS redaction TEXT NOT NULL DEFAULT 'full' CHECK (redaction IN ('full','quantities','method'));
+
+DROP FUNCTION IF EXISTS public.create_public_share(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_public_share(
+  p_id UUID,
+  p_recipe_id UUID,
+  p_payload_hash TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_label TEXT DEFAULT NULL,
+  p_redaction TEXT DEFAULT 'full'
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  kid UUID := public.current_kitchen_id();
+  rname TEXT;
+  k BYTEA;
+BEGIN
+  IF kid IS NULL THEN
+    RAISE EXCEPTION 'No kitchen';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.user_id = auth.uid() AND p.role IN ('owner','staff')) THEN
+    RAISE EXCEPTION 'Not allowed to share recipes';
+  END IF;
+  SELECT r.name INTO rname FROM public.recipes r WHERE r.id = p_recipe_id AND r.kitchen_id = kid;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe not found';
+  END IF;
+  IF p_payload_hash IS NULL OR p_payload_hash !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'Invalid payload hash';
+  END IF;
+  IF COALESCE(p_redaction, 'full') NOT IN ('full','quantities','method') THEN
+    RAISE EXCEPTION 'Invalid redaction level';
+  END IF;
+
+  INSERT INTO public.public_shares (id, kitchen_id, recipe_id, recipe_name, label, payload_hash, expires_at, redaction)
+  VALUES (p_id, kid, p_recipe_id, rname, NULLIF(BTRIM(p_label), ''), p_payload_hash, p_expires_at, COALESCE(p_redaction, 'full'));
+
+  INSERT INTO public.public_share_secrets (share_id) VALUES (p_id)
+  RETURNING signing_key INTO k;
+
+  RETURN encode(hmac(p_payload_hash, k, 'sha256'), 'hex');
+END $$;
+
+REVOKE ALL ON FUNCTION public.create_public_share(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_public_share(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT) TO authenticated;
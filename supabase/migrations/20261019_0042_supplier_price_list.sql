@@ -0,0 +1,62 @@
+-- =========================================
+-- 2026-10-19 SUPPLIER PRICE-LIST UPDATE
+-- - apply_supplier_price_list(): writes a reviewed price sheet in one transaction
+--   (all accepted rows or none)
+-- - Rows with an offer update supplier_offers.pack_price (a preferred offer still
+--   reaches the ingredient through gc_supplier_offer_sync_trigger); rows without
+--   one update ingredients.pack_price directly
+-- - Returns net_unit_cost before/after per ingredient so the app can record cost history
+-- - Runs as the caller: RLS keeps it inside the current kitchen
+-- Safe: additive, idempotent.
+-- =========================================
+
+CREATE OR REPLACE FUNCTION public.apply_supplier_price_list(p_rows JSONB)
+RETURNS TABLE (ingredient_id UUID, before_net NUMERIC, after_net NUMERIC)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  r JSONB;
+  ing UUID;
+  off UUID;
+  price NUMERIC;
+  prev_net NUMERIC;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.user_id = auth.uid() AND p.role IN ('owner','staff')) THEN
+    RAISE EXCEPTION 'Not allowed to update prices';
+  END IF;
+  IF p_rows IS NULL OR jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'Rows must be an array';
+  END IF;
+
+  FOR r IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    ing := (r->>'ingredient_id')::UUID;
+    off := NULLIF(r->>'offer_id', '')::UUID;
+    price := (r->>'pack_price')::NUMERIC;
+    IF price IS NULL OR price < 0 THEN
+      RAISE EXCEPTION 'Invalid price for ingredient %', ing;
+    END IF;
+
+    SELECT i.net_unit_cost INTO prev_net FROM public.ingredients i WHERE i.id = ing;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ingredient % not found', ing;
+    END IF;
+
+    IF off IS NOT NULL THEN
+      UPDATE public.supplier_offers o SET pack_price = price WHERE o.id = off AND o.ingredient_id = ing;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Supplier offer % not found', off;
+      END IF;
+    ELSE
+      UPDATE public.ingredients i SET pack_price = price WHERE i.id = ing;
+    END IF;
+
+    ingredient_id := ing;
+    before_net := prev_net;
+    SELECT i.net_unit_cost INTO after_net FROM public.ingredients i WHERE i.id = ing;
+    RETURN NEXT;
+  END LOOP;
+END $$;
+
+GRANT EXECUTE ON FUNCTION public.apply_supplier_price_list(JSONB) TO authenticated;